@@ -0,0 +1,14 @@
+/** @type {import("jest").Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  testMatch: ["**/*.test.ts"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { tsconfig: "<rootDir>/tests/tsconfig.json" }]
+  },
+  // Picks the database engine before any test file imports the data source
+  setupFiles: ["<rootDir>/tests/setupEnv.ts"],
+  // Test files share one database when running on Postgres
+  maxWorkers: 1,
+  testTimeout: 30000
+};
@@ -0,0 +1,53 @@
+import { appEnvironment, integer, list, readEnv, secret, string } from "./env";
+
+/**
+ * Environment variables for the server itself; read once at startup, which fails listing every bad value
+ */
+const env = readEnv({
+  PORT: integer({ default: 3000, min: 1, max: 65535 }),
+
+  // Browser origins allowed to call the API and open sockets, comma-separated; production must list them
+  CORS_ORIGINS: list({ development: ["*"], test: ["*"] }),
+  REQUEST_BODY_LIMIT: string({ default: "10mb" }),
+
+  JWT_SECRET: secret({ development: "dev-access-token-secret", test: "test-access-token-secret" }),
+  JWT_REFRESH_SECRET: secret({ development: "dev-refresh-token-secret", test: "test-refresh-token-secret" }),
+  JWT_ACCESS_TOKEN_MINUTES: integer({ default: 15, min: 1 }),
+  JWT_REFRESH_TOKEN_EXPIRY_DAYS: integer({ default: 7, min: 1 }),
+
+  UPLOAD_MAX_FILE_SIZE_MB: integer({ default: 10, min: 1 }),
+  UPLOAD_MAX_FILES: integer({ default: 10, min: 1 })
+});
+
+/**
+ * Server configuration
+ */
+export const appConfig = {
+  environment: appEnvironment,
+  isProduction: appEnvironment === "production",
+  isDevelopment: appEnvironment === "development",
+
+  server: {
+    port: env.PORT,
+    bodyLimit: env.REQUEST_BODY_LIMIT
+  },
+
+  cors: {
+    // true reflects any origin back; otherwise only the listed ones are allowed
+    origin: env.CORS_ORIGINS.includes("*") ? true : env.CORS_ORIGINS
+  },
+
+  auth: {
+    accessTokenSecret: env.JWT_SECRET,
+    refreshTokenSecret: env.JWT_REFRESH_SECRET,
+    accessTokenMinutes: env.JWT_ACCESS_TOKEN_MINUTES,
+    refreshTokenExpiryDays: env.JWT_REFRESH_TOKEN_EXPIRY_DAYS
+  },
+
+  // Photo uploads on listings, condition reports and dispute evidence
+  uploads: {
+    maxFileSizeMb: env.UPLOAD_MAX_FILE_SIZE_MB,
+    maxFileSizeBytes: env.UPLOAD_MAX_FILE_SIZE_MB * 1024 * 1024,
+    maxFiles: env.UPLOAD_MAX_FILES
+  }
+};
@@ -1,44 +1,121 @@
 import { DataSource } from "typeorm";
 import path from "path";
+import { databaseConfig } from "./databaseConfig";
+import { appEnvironment } from "./env";
 
 // Import all entities
 import { User } from "../entities/User";
 import { Resource } from "../entities/Resource";
 import { ResourcePhoto } from "../entities/ResourcePhoto";
+import { ResourceBlackout } from "../entities/ResourceBlackout";
+import { WaitlistEntry } from "../entities/WaitlistEntry";
 import { BorrowRequest } from "../entities/BorrowRequest";
+import { BorrowRequestEvent } from "../entities/BorrowRequestEvent";
+import { BorrowRequestGroup } from "../entities/BorrowRequestGroup";
+import { BorrowExtension } from "../entities/BorrowExtension";
+import { DepositLedgerEntry } from "../entities/DepositLedgerEntry";
+import { DisputeCase } from "../entities/DisputeCase";
+import { DisputeStatement } from "../entities/DisputeStatement";
+import { DisputeEvidence } from "../entities/DisputeEvidence";
+import { ConditionReport } from "../entities/ConditionReport";
+import { ConditionReportPhoto } from "../entities/ConditionReportPhoto";
 import { Chat } from "../entities/Chat";
 import { Message } from "../entities/Message";
 import { Review } from "../entities/Review";
 import { Notification } from "../entities/Notification";
+import { ModerationAction } from "../entities/ModerationAction";
+import { ScheduledJob } from "../entities/ScheduledJob";
+import { JobRun } from "../entities/JobRun";
+import { SavedSearch } from "../entities/SavedSearch";
+import { Favourite } from "../entities/Favourite";
+import { Community } from "../entities/Community";
+import { CommunityMembership } from "../entities/CommunityMembership";
+import { ResourceCommunity } from "../entities/ResourceCommunity";
+import { LocationVerification } from "../entities/LocationVerification";
+import { LocationVouch } from "../entities/LocationVouch";
+import { AccountToken } from "../entities/AccountToken";
+import { UserSession } from "../entities/UserSession";
+import { UserTwoFactor } from "../entities/UserTwoFactor";
+import { TwoFactorRecoveryCode } from "../entities/TwoFactorRecoveryCode";
+
+const connectionOptions =
+  databaseConfig.type === "postgres"
+    ? { type: "postgres" as const, url: databaseConfig.url }
+    : { type: "sqlite" as const, database: databaseConfig.url };
 
 export const AppDataSource = new DataSource({
-  type: "sqlite",
-  database: "borrowbase.db",
-  synchronize: true, // Only for development - will auto-create tables
-  logging: process.env.NODE_ENV === "development",
+  ...connectionOptions,
+  synchronize: false, // The schema is changed only by migrations (npm run migration:generate)
+  logging: databaseConfig.logging,
   entities: [
     User,
     Resource,
     ResourcePhoto,
+    ResourceBlackout,
+    WaitlistEntry,
     BorrowRequest,
+    BorrowRequestEvent,
+    BorrowRequestGroup,
+    BorrowExtension,
+    DepositLedgerEntry,
+    DisputeCase,
+    DisputeStatement,
+    DisputeEvidence,
+    ConditionReport,
+    ConditionReportPhoto,
     Chat,
     Message,
     Review,
-    Notification
+    Notification,
+    ModerationAction,
+    ScheduledJob,
+    JobRun,
+    SavedSearch,
+    Favourite,
+    Community,
+    CommunityMembership,
+    ResourceCommunity,
+    LocationVerification,
+    LocationVouch,
+    AccountToken,
+    UserSession,
+    UserTwoFactor,
+    TwoFactorRecoveryCode
   ],
   migrations: [
-    path.join(__dirname, "../migrations/*.{ts,js}")
+    // Each engine has its own migrations, generated against that engine
+    path.join(__dirname, `../migrations/${databaseConfig.type}/*.{ts,js}`)
   ],
+  migrationsTableName: "migrations",
   subscribers: [
     path.join(__dirname, "../subscribers/*.{ts,js}")
   ]
 });
 
+/**
+ * Bring the schema up to date in development; in production migrations are a deploy step,
+ * so a database that is behind refuses to start instead of being changed underneath running code
+ */
+const applyPendingMigrations = async (): Promise<void> => {
+  if (!(await AppDataSource.showMigrations())) {
+    return;
+  }
+
+  if (appEnvironment === "production") {
+    await AppDataSource.destroy();
+    throw new Error("The database has pending migrations. Run `npm run migration:run` before starting the server");
+  }
+
+  const migrations = await AppDataSource.runMigrations();
+  console.log(`✅ Applied ${migrations.length} database migration(s): ${migrations.map((m) => m.name).join(", ")}`);
+};
+
 export const initializeDatabase = async (): Promise<DataSource> => {
   try {
     if (!AppDataSource.isInitialized) {
       await AppDataSource.initialize();
       console.log("✅ Database connection established successfully");
+      await applyPendingMigrations();
     }
     return AppDataSource;
   } catch (error) {
@@ -0,0 +1,26 @@
+import { appEnvironment, choice, everywhere, readEnv, string } from "./env";
+
+export type DatabaseType = "sqlite" | "postgres";
+
+const { DATABASE_URL } = readEnv({
+  // A postgres:// connection URL, or the SQLite database file
+  DATABASE_URL: string({ default: "borrowbase.db" })
+});
+
+const { DB_TYPE } = readEnv({
+  // Defaults to Postgres when DATABASE_URL is a postgres:// URL, otherwise SQLite
+  DB_TYPE: choice<DatabaseType>({
+    values: ["sqlite", "postgres"],
+    defaults: everywhere(/^postgres(ql)?:\/\//.test(DATABASE_URL) ? "postgres" : "sqlite")
+  })
+});
+
+/**
+ * Database connection configuration
+ * Kept apart from the data source so entities can read the engine without importing every entity
+ */
+export const databaseConfig = {
+  type: DB_TYPE,
+  url: DATABASE_URL,
+  logging: appEnvironment === "development"
+};
@@ -0,0 +1,189 @@
+export type AppEnvironment = "development" | "test" | "production";
+
+const ENVIRONMENTS: AppEnvironment[] = ["development", "test", "production"];
+
+/**
+ * The profile picking defaults and checks; NODE_ENV, development when unset
+ */
+const readEnvironment = (): AppEnvironment => {
+  const value = process.env.NODE_ENV || "development";
+
+  if (!ENVIRONMENTS.includes(value as AppEnvironment)) {
+    throw new Error(`Unknown NODE_ENV: ${value} (expected ${ENVIRONMENTS.join(", ")})`);
+  }
+
+  return value as AppEnvironment;
+};
+
+export const appEnvironment = readEnvironment();
+
+/**
+ * One environment variable: how to read it, its default in each profile and what makes a value unsafe.
+ * A profile without a default requires the variable to be set.
+ */
+export interface EnvSetting<T> {
+  defaults: Partial<Record<AppEnvironment, T>>;
+  parse(raw: string): T; // Throws when the text is not a valid value
+  check?(value: T, environment: AppEnvironment): string | undefined; // Why the value is unsafe, if it is
+}
+
+export type EnvSchema = Record<string, EnvSetting<unknown>>;
+
+export type EnvValues<S extends EnvSchema> = { [K in keyof S]: S[K] extends EnvSetting<infer T> ? T : never };
+
+export const everywhere = <T>(value: T): Partial<Record<AppEnvironment, T>> => ({
+  development: value,
+  test: value,
+  production: value
+});
+
+export const integer = (options: { default: number; min?: number; max?: number }): EnvSetting<number> => ({
+  defaults: everywhere(options.default),
+  parse(raw) {
+    const value = Number(raw);
+    if (!Number.isInteger(value)) {
+      throw new Error(`must be a whole number, got "${raw}"`);
+    }
+    if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      throw new Error(`must be between ${options.min ?? "-∞"} and ${options.max ?? "∞"}, got ${value}`);
+    }
+    return value;
+  }
+});
+
+export const string = (options: { default: string }): EnvSetting<string> => ({
+  defaults: everywhere(options.default),
+  parse: (raw) => raw
+});
+
+export const boolean = (options: { default: boolean }): EnvSetting<boolean> => ({
+  defaults: everywhere(options.default),
+  parse(raw) {
+    if (raw !== "true" && raw !== "false") {
+      throw new Error(`must be true or false, got "${raw}"`);
+    }
+    return raw === "true";
+  }
+});
+
+export const decimal = (options: { default: number; min?: number }): EnvSetting<number> => ({
+  defaults: everywhere(options.default),
+  parse(raw) {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      throw new Error(`must be a number, got "${raw}"`);
+    }
+    if (options.min !== undefined && value < options.min) {
+      throw new Error(`must be at least ${options.min}, got ${value}`);
+    }
+    return value;
+  }
+});
+
+/**
+ * One of a fixed set of values; those in devOnly stand in for real services and are refused in production
+ */
+export const choice = <T extends string>(options: {
+  values: readonly T[];
+  defaults: Partial<Record<AppEnvironment, T>>;
+  devOnly?: Partial<Record<T, string>>; // Why the value cannot be used in production
+}): EnvSetting<T> => ({
+  defaults: options.defaults,
+  parse(raw) {
+    if (!options.values.includes(raw as T)) {
+      throw new Error(`must be one of ${options.values.join(", ")}, got "${raw}"`);
+    }
+    return raw as T;
+  },
+  check(value, environment) {
+    const reason = options.devOnly?.[value];
+    return environment === "production" && reason ? `must not be ${value} in production: ${reason}` : undefined;
+  }
+});
+
+/**
+ * An http(s) address, without trailing slashes; production refuses localhost, which only works on the developer's machine
+ */
+export const url = (defaults: Partial<Record<AppEnvironment, string>>): EnvSetting<string> => ({
+  defaults,
+  parse(raw) {
+    if (!URL.canParse(raw) || !["http:", "https:"].includes(new URL(raw).protocol)) {
+      throw new Error(`must be an http or https URL, got "${raw}"`);
+    }
+    return raw.replace(/\/+$/, "");
+  },
+  check(value, environment) {
+    const { hostname } = new URL(value);
+    return environment === "production" && ["localhost", "127.0.0.1", "[::1]"].includes(hostname)
+      ? `must not point at ${hostname} in production`
+      : undefined;
+  }
+});
+
+/**
+ * Comma-separated values; "*" stands for any value and is refused in production
+ */
+export const list = (defaults: Partial<Record<AppEnvironment, string[]>>): EnvSetting<string[]> => ({
+  defaults,
+  parse: (raw) => raw.split(",").map((item) => item.trim()).filter(Boolean),
+  check: (value, environment) =>
+    environment === "production" && value.includes("*") ? "must list explicit values in production, not *" : undefined
+});
+
+/**
+ * A signing or encryption key; development and test may fall back to a well-known value, production may not
+ */
+export const secret = (defaults: { development: string; test: string }, minLength: number = 32): EnvSetting<string> => ({
+  defaults,
+  parse: (raw) => raw,
+  check(value, environment) {
+    if (environment !== "production") {
+      return undefined;
+    }
+    if (Object.values(defaults).includes(value) || /change-?me|secret-key|your-super-secret/i.test(value)) {
+      return "is a placeholder value; generate a random one";
+    }
+    if (value.length < minLength) {
+      return `must be at least ${minLength} characters in production`;
+    }
+    return undefined;
+  }
+});
+
+/**
+ * Read every variable in the schema, reporting all invalid, missing and unsafe values at once
+ */
+export const readEnv = <S extends EnvSchema>(
+  schema: S,
+  env: NodeJS.ProcessEnv = process.env,
+  environment: AppEnvironment = appEnvironment
+): EnvValues<S> => {
+  const problems: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [name, setting] of Object.entries(schema)) {
+    const raw = env[name]?.trim();
+
+    try {
+      const value = raw ? setting.parse(raw) : setting.defaults[environment];
+      if (value === undefined) {
+        problems.push(`${name} is required in ${environment}`);
+        continue;
+      }
+
+      const problem = setting.check?.(value, environment);
+      if (problem) {
+        problems.push(`${name} ${problem}`);
+      }
+      values[name] = value;
+    } catch (error) {
+      problems.push(`${name} ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${environment} configuration:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  return values as EnvValues<S>;
+};
@@ -0,0 +1,56 @@
+import { boolean, integer, readEnv } from "./env";
+
+const seconds = (defaultSeconds: number) => integer({ default: defaultSeconds, min: 1 });
+
+const env = readEnv({
+  // Set JOBS_ENABLED=false to run the API without background jobs (e.g. a second instance)
+  JOBS_ENABLED: boolean({ default: true }),
+
+  // A lock older than this is treated as abandoned by a crashed run
+  JOB_LOCK_TIMEOUT_SECONDS: seconds(15 * 60),
+
+  // Returned requests without open issues are completed after this many days
+  BORROW_AUTO_COMPLETE_DAYS: integer({ default: 7, min: 1 }),
+
+  // A waitlist offer holds the freed dates for this long before passing to the next person
+  WAITLIST_HOLD_HOURS: integer({ default: 24, min: 1 }),
+
+  // Job history older than this is pruned
+  JOB_HISTORY_RETENTION_DAYS: integer({ default: 30, min: 1 }),
+
+  // Expired and signed-out sessions are kept this long for the user's security history
+  SESSION_RETENTION_DAYS: integer({ default: 30, min: 1 }),
+
+  JOB_SCHEDULED_NOTIFICATIONS_INTERVAL_SECONDS: seconds(60),
+  JOB_OVERDUE_REQUESTS_INTERVAL_SECONDS: seconds(15 * 60),
+  JOB_COMPLETE_RETURNED_REQUESTS_INTERVAL_SECONDS: seconds(60 * 60),
+  JOB_EXPIRE_WAITLIST_HOLDS_INTERVAL_SECONDS: seconds(5 * 60),
+  JOB_EXPIRE_LOCATION_VERIFICATIONS_INTERVAL_SECONDS: seconds(60 * 60),
+  JOB_PURGE_SESSIONS_INTERVAL_SECONDS: seconds(24 * 60 * 60),
+  JOB_EXPIRED_NOTIFICATIONS_INTERVAL_SECONDS: seconds(6 * 60 * 60),
+  JOB_ORPHANED_PHOTOS_INTERVAL_SECONDS: seconds(24 * 60 * 60)
+});
+
+/**
+ * Background job configuration
+ * Intervals can be overridden with JOB_<NAME>_INTERVAL_SECONDS environment variables
+ */
+export const jobConfig = {
+  enabled: env.JOBS_ENABLED,
+  lockTimeoutMs: env.JOB_LOCK_TIMEOUT_SECONDS * 1000,
+  autoCompleteAfterDays: env.BORROW_AUTO_COMPLETE_DAYS,
+  waitlistHoldHours: env.WAITLIST_HOLD_HOURS,
+  historyRetentionDays: env.JOB_HISTORY_RETENTION_DAYS,
+  sessionRetentionDays: env.SESSION_RETENTION_DAYS,
+
+  intervals: {
+    scheduledNotifications: env.JOB_SCHEDULED_NOTIFICATIONS_INTERVAL_SECONDS * 1000,
+    overdueRequests: env.JOB_OVERDUE_REQUESTS_INTERVAL_SECONDS * 1000,
+    completeReturnedRequests: env.JOB_COMPLETE_RETURNED_REQUESTS_INTERVAL_SECONDS * 1000,
+    expireWaitlistHolds: env.JOB_EXPIRE_WAITLIST_HOLDS_INTERVAL_SECONDS * 1000,
+    expireLocationVerifications: env.JOB_EXPIRE_LOCATION_VERIFICATIONS_INTERVAL_SECONDS * 1000,
+    purgeSessions: env.JOB_PURGE_SESSIONS_INTERVAL_SECONDS * 1000,
+    expiredNotifications: env.JOB_EXPIRED_NOTIFICATIONS_INTERVAL_SECONDS * 1000,
+    orphanedPhotos: env.JOB_ORPHANED_PHOTOS_INTERVAL_SECONDS * 1000
+  }
+};
@@ -0,0 +1,58 @@
+import os from "os";
+import path from "path";
+import { boolean, choice, integer, readEnv, string, url } from "./env";
+
+const env = readEnv({
+  // "smtp" sends real mail; "file" writes each message to MAIL_DIR; "console" logs it
+  MAIL_TRANSPORT: choice({
+    values: ["smtp", "file", "console"],
+    defaults: { development: "console", test: "console" },
+    devOnly: { console: "it only logs the messages" }
+  }),
+  MAIL_FROM: string({ default: "Borrow Base <no-reply@borrowbase.local>" }),
+
+  // Links in emails open the web app here
+  APP_URL: url({ development: "http://localhost:5173", test: "http://localhost:5173" }),
+
+  MAIL_DIR: string({ default: path.join(os.tmpdir(), "borrowbase-mail") }),
+
+  SMTP_HOST: string({ default: "localhost" }),
+  SMTP_PORT: integer({ default: 587, min: 1, max: 65535 }),
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  SMTP_SECURE: boolean({ default: false }),
+  SMTP_USER: string({ default: "" }),
+  SMTP_PASSWORD: string({ default: "" }),
+
+  EMAIL_VERIFICATION_TOKEN_HOURS: integer({ default: 48, min: 1 }),
+  PASSWORD_RESET_TOKEN_MINUTES: integer({ default: 60, min: 1 }),
+
+  // Emails of each kind one account can be sent per hour
+  ACCOUNT_EMAILS_PER_HOUR: integer({ default: 3, min: 1 })
+});
+
+/**
+ * Outgoing email configuration
+ */
+export const mailConfig = {
+  transport: env.MAIL_TRANSPORT,
+  from: env.MAIL_FROM,
+  appUrl: env.APP_URL,
+  fileDirectory: env.MAIL_DIR,
+
+  smtp: {
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined
+  }
+};
+
+/**
+ * Single-use links sent by email
+ */
+export const accountTokenConfig = {
+  emailVerificationHours: env.EMAIL_VERIFICATION_TOKEN_HOURS,
+  passwordResetMinutes: env.PASSWORD_RESET_TOKEN_MINUTES,
+  maxEmailsPerHour: env.ACCOUNT_EMAILS_PER_HOUR
+};
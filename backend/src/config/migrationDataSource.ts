@@ -0,0 +1,7 @@
+import "reflect-metadata";
+// Load environment variables before any config module reads them
+import "dotenv/config";
+import { AppDataSource } from "./database";
+
+// Entry point for the TypeORM CLI (npm run migration:*), which expects a file with a single DataSource export
+export default AppDataSource;
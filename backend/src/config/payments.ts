@@ -0,0 +1,17 @@
+import { choice, readEnv } from "./env";
+
+const env = readEnv({
+  // "fake" keeps deposits in memory and moves no money; it is the only built-in provider
+  PAYMENT_PROVIDER: choice({
+    values: ["fake"],
+    defaults: { development: "fake", test: "fake" },
+    devOnly: { fake: "it moves no money" }
+  })
+});
+
+/**
+ * Payment provider configuration
+ */
+export const paymentConfig = {
+  provider: env.PAYMENT_PROVIDER
+};
@@ -0,0 +1,97 @@
+import { boolean, choice, EnvSetting, everywhere, integer, readEnv } from "./env";
+
+/**
+ * Rate limiting configuration
+ * Each rule can be overridden with RATE_LIMIT_<RULE>_MAX and RATE_LIMIT_<RULE>_WINDOW_SECONDS,
+ * e.g. RATE_LIMIT_CHAT_MESSAGE_MAX=60
+ */
+export type RateLimitKey = "ip" | "user"; // "user" falls back to the IP for anonymous requests
+
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+  keyBy: RateLimitKey;
+  failClosed: boolean; // Refuse requests while the store is unreachable instead of letting them through
+}
+
+// "true", a hop count or a list of trusted addresses, as accepted by Express's "trust proxy" setting
+const trustProxy: EnvSetting<boolean | number | string> = {
+  defaults: everywhere(false),
+  parse(raw) {
+    if (raw === "true" || raw === "false") return raw === "true";
+    return /^\d+$/.test(raw) ? parseInt(raw) : raw;
+  }
+};
+
+const count = (defaultValue: number) => integer({ default: defaultValue, min: 1 });
+
+const env = readEnv({
+  // Set RATE_LIMIT_ENABLED=false to switch the per-route limits off (e.g. for load tests)
+  RATE_LIMIT_ENABLED: boolean({ default: true }),
+
+  // Where hit counts are kept; "memory" is per process, a shared store is needed behind a load balancer
+  RATE_LIMIT_STORE: choice({ values: ["memory"], defaults: everywhere("memory" as const) }),
+
+  // Set TRUST_PROXY (e.g. to 1 or "loopback") behind a reverse proxy so limits apply to the client's IP
+  TRUST_PROXY: trustProxy,
+
+  RATE_LIMIT_LOGIN_MAX: count(20),
+  RATE_LIMIT_LOGIN_WINDOW_SECONDS: count(15 * 60),
+  RATE_LIMIT_TWO_FACTOR_LOGIN_MAX: count(10),
+  RATE_LIMIT_TWO_FACTOR_LOGIN_WINDOW_SECONDS: count(15 * 60),
+  RATE_LIMIT_REGISTER_MAX: count(5),
+  RATE_LIMIT_REGISTER_WINDOW_SECONDS: count(60 * 60),
+  RATE_LIMIT_REFRESH_MAX: count(60),
+  RATE_LIMIT_REFRESH_WINDOW_SECONDS: count(15 * 60),
+  RATE_LIMIT_ACCOUNT_EMAIL_MAX: count(10),
+  RATE_LIMIT_ACCOUNT_EMAIL_WINDOW_SECONDS: count(60 * 60),
+  RATE_LIMIT_CHAT_MESSAGE_MAX: count(30),
+  RATE_LIMIT_CHAT_MESSAGE_WINDOW_SECONDS: count(60),
+  RATE_LIMIT_BORROW_REQUEST_MAX: count(20),
+  RATE_LIMIT_BORROW_REQUEST_WINDOW_SECONDS: count(60 * 60),
+
+  // Failed logins per email and client IP before each further failure locks the account for a growing time
+  LOGIN_LOCKOUT_FREE_ATTEMPTS: count(5),
+  LOGIN_LOCKOUT_BASE_SECONDS: count(30), // Doubles with every failure
+  LOGIN_LOCKOUT_MAX_SECONDS: count(15 * 60),
+  LOGIN_LOCKOUT_WINDOW_SECONDS: count(60 * 60),
+
+  // Failed logins per email from all IPs together before each further failure pauses the account
+  LOGIN_ACCOUNT_FREE_ATTEMPTS: count(20),
+  LOGIN_ACCOUNT_DELAY_SECONDS: count(10)
+});
+
+const rule = (max: number, windowSeconds: number, keyBy: RateLimitKey, failClosed: boolean = false): RateLimitRule => ({
+  max,
+  windowMs: windowSeconds * 1000,
+  keyBy,
+  failClosed
+});
+
+export const rateLimitConfig = {
+  enabled: env.RATE_LIMIT_ENABLED,
+  store: env.RATE_LIMIT_STORE,
+  trustProxy: env.TRUST_PROXY,
+
+  rules: {
+    // Password and code guessing must not go unlimited while the store is down
+    login: rule(env.RATE_LIMIT_LOGIN_MAX, env.RATE_LIMIT_LOGIN_WINDOW_SECONDS, "ip", true),
+    twoFactorLogin: rule(env.RATE_LIMIT_TWO_FACTOR_LOGIN_MAX, env.RATE_LIMIT_TWO_FACTOR_LOGIN_WINDOW_SECONDS, "ip", true),
+    register: rule(env.RATE_LIMIT_REGISTER_MAX, env.RATE_LIMIT_REGISTER_WINDOW_SECONDS, "ip"),
+    refresh: rule(env.RATE_LIMIT_REFRESH_MAX, env.RATE_LIMIT_REFRESH_WINDOW_SECONDS, "ip"),
+    accountEmail: rule(env.RATE_LIMIT_ACCOUNT_EMAIL_MAX, env.RATE_LIMIT_ACCOUNT_EMAIL_WINDOW_SECONDS, "ip"),
+    chatMessage: rule(env.RATE_LIMIT_CHAT_MESSAGE_MAX, env.RATE_LIMIT_CHAT_MESSAGE_WINDOW_SECONDS, "user"),
+    borrowRequest: rule(env.RATE_LIMIT_BORROW_REQUEST_MAX, env.RATE_LIMIT_BORROW_REQUEST_WINDOW_SECONDS, "user")
+  },
+
+  loginLockout: {
+    freeAttempts: env.LOGIN_LOCKOUT_FREE_ATTEMPTS,
+    baseLockSeconds: env.LOGIN_LOCKOUT_BASE_SECONDS,
+    maxLockSeconds: env.LOGIN_LOCKOUT_MAX_SECONDS,
+    failureWindowSeconds: env.LOGIN_LOCKOUT_WINDOW_SECONDS,
+    accountFreeAttempts: env.LOGIN_ACCOUNT_FREE_ATTEMPTS,
+    accountDelaySeconds: env.LOGIN_ACCOUNT_DELAY_SECONDS
+  }
+};
+
+export type RateLimitRuleName = keyof typeof rateLimitConfig.rules;
@@ -0,0 +1,41 @@
+import { createHash } from "crypto";
+import { appConfig } from "./app";
+import { EnvSetting, integer, readEnv, secret, string } from "./env";
+
+const randomKey = secret({ development: "dev-two-factor-encryption-key", test: "test-two-factor-encryption-key" });
+
+// Production needs a key of its own, so a leaked JWT secret does not also expose the TOTP secrets
+const encryptionKey: EnvSetting<string> = {
+  ...randomKey,
+  check: (value, environment) =>
+    environment === "production" && value === appConfig.auth.accessTokenSecret
+      ? "must differ from JWT_SECRET in production"
+      : randomKey.check?.(value, environment)
+};
+
+const env = readEnv({
+  // Shown as the account's label in authenticator apps
+  TWO_FACTOR_ISSUER: string({ default: "Borrow Base" }),
+
+  // Encrypts TOTP secrets at rest
+  TWO_FACTOR_ENCRYPTION_KEY: encryptionKey,
+
+  // Time allowed between the password step and the code step of a login
+  TWO_FACTOR_CHALLENGE_MINUTES: integer({ default: 5, min: 1 }),
+
+  // Wrong codes in a row before code checks are locked for TWO_FACTOR_LOCK_MINUTES
+  TWO_FACTOR_MAX_FAILED_ATTEMPTS: integer({ default: 5, min: 1 }),
+  TWO_FACTOR_LOCK_MINUTES: integer({ default: 15, min: 1 })
+});
+
+/**
+ * Two-factor authentication (TOTP) configuration
+ */
+export const twoFactorConfig = {
+  issuer: env.TWO_FACTOR_ISSUER,
+  encryptionKey: createHash("sha256").update(env.TWO_FACTOR_ENCRYPTION_KEY).digest(),
+  challengeMinutes: env.TWO_FACTOR_CHALLENGE_MINUTES,
+  maxFailedAttempts: env.TWO_FACTOR_MAX_FAILED_ATTEMPTS,
+  lockMinutes: env.TWO_FACTOR_LOCK_MINUTES,
+  recoveryCodeCount: 10
+};
@@ -0,0 +1,49 @@
+import { boolean, choice, decimal, everywhere, integer, list, readEnv } from "./env";
+
+const env = readEnv({
+  // Set REQUIRE_VERIFIED_LOCATION=true to let only location-verified users list items and send borrow requests
+  REQUIRE_VERIFIED_LOCATION: boolean({ default: false }),
+
+  // Comma-separated methods users may choose from: postal_code, neighbor_vouch, admin_review
+  LOCATION_VERIFICATION_METHODS: list(everywhere(["postal_code", "neighbor_vouch", "admin_review"])),
+
+  // How many verifications a user may start within 30 days, whatever their outcome
+  LOCATION_VERIFICATION_MAX_STARTS: integer({ default: 5, min: 1 }),
+
+  // "console" logs the letter instead of posting it; it is the only built-in provider
+  POSTAL_MAIL_PROVIDER: choice({ values: ["console"], defaults: everywhere("console" as const) }),
+  POSTAL_CODE_EXPIRY_DAYS: integer({ default: 30, min: 1 }),
+  POSTAL_CODE_MAX_ATTEMPTS: integer({ default: 5, min: 1 }),
+
+  // Verified users living within NEIGHBOR_VOUCH_RADIUS_KM of the address can vouch; this many are needed
+  NEIGHBOR_VOUCHES_REQUIRED: integer({ default: 3, min: 1 }),
+  NEIGHBOR_VOUCH_RADIUS_KM: decimal({ default: 1, min: 0.1 }),
+  NEIGHBOR_VOUCH_EXPIRY_DAYS: integer({ default: 14, min: 1 }),
+
+  ADMIN_REVIEW_EXPIRY_DAYS: integer({ default: 30, min: 1 })
+});
+
+/**
+ * Location verification configuration
+ */
+export const locationVerificationConfig = {
+  required: env.REQUIRE_VERIFIED_LOCATION,
+  methods: env.LOCATION_VERIFICATION_METHODS,
+  maxStartsPerMonth: env.LOCATION_VERIFICATION_MAX_STARTS,
+
+  postalCode: {
+    mailProvider: env.POSTAL_MAIL_PROVIDER,
+    expiresInDays: env.POSTAL_CODE_EXPIRY_DAYS,
+    maxAttempts: env.POSTAL_CODE_MAX_ATTEMPTS
+  },
+
+  neighborVouch: {
+    requiredVouches: env.NEIGHBOR_VOUCHES_REQUIRED,
+    radiusKm: env.NEIGHBOR_VOUCH_RADIUS_KM,
+    expiresInDays: env.NEIGHBOR_VOUCH_EXPIRY_DAYS
+  },
+
+  adminReview: {
+    expiresInDays: env.ADMIN_REVIEW_EXPIRY_DAYS
+  }
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from "express";
 import { UserService } from "../services/UserService";
+import { AccountEmailService } from "../services/AccountEmailService";
+import { SessionService } from "../services/SessionService";
+import { TwoFactorService } from "../services/TwoFactorService";
 import {
   AuthenticatedRequest,
   RegisterRequest,
@@ -9,14 +12,33 @@ import {
   AuthResponse,
   ProfileResponse,
   RefreshTokenResponse,
-  ApiResponse
+  ApiResponse,
+  SessionContext,
+  TwoFactorChallengeResponse
 } from "../types/auth";
+import { TooManyRequestsError, handleControllerError } from "../utils/errors";
 
 export class AuthController {
   private userService: UserService;
+  private accountEmailService: AccountEmailService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
 
   constructor() {
     this.userService = new UserService();
+    this.accountEmailService = new AccountEmailService();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
+  }
+
+  /**
+   * The device details recorded on a new or refreshed session
+   */
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.get("user-agent"),
+      ipAddress: req.ip
+    };
   }
 
   /**
@@ -58,7 +80,14 @@ export class AuthController {
         address,
         latitude,
         longitude,
-      });
+      }, this.getSessionContext(req));
+
+      // The account works without a confirmed email, so a mail failure must not fail registration
+      try {
+        await this.accountEmailService.sendVerificationEmail(result.user.id);
+      } catch (mailError) {
+        console.warn("Failed to send verification email:", mailError instanceof Error ? mailError.message : mailError);
+      }
 
       res.status(201).json({
         ...result,
@@ -81,7 +110,10 @@ export class AuthController {
    * Login user
    * POST /api/auth/login
    */
-  async login(req: Request<{}, AuthResponse, LoginRequest>, res: Response<AuthResponse>): Promise<void> {
+  async login(
+    req: Request<Record<string, never>, AuthResponse | TwoFactorChallengeResponse, LoginRequest>,
+    res: Response<AuthResponse | TwoFactorChallengeResponse>
+  ): Promise<void> {
     try {
       const { email, password } = req.body;
 
@@ -98,7 +130,16 @@ export class AuthController {
       }
 
       // Login user
-      const result = await this.userService.login(email, password);
+      const result = await this.userService.login(email, password, this.getSessionContext(req));
+
+      if ("two_factor_required" in result) {
+        res.json({
+          ...result,
+          message: "Enter the code from your authenticator app",
+          success: true,
+        });
+        return;
+      }
 
       res.json({
         ...result,
@@ -106,6 +147,11 @@ export class AuthController {
         success: true,
       });
     } catch (error: any) {
+      if (error instanceof TooManyRequestsError) {
+        handleControllerError(error, res);
+        return;
+      }
+
       console.error("Login error:", error);
       res.status(401).json({
         user: {} as any,
@@ -117,6 +163,35 @@ export class AuthController {
     }
   }
 
+  /**
+   * Finish a two-factor login with an authenticator or recovery code
+   * POST /api/auth/login/2fa
+   */
+  async completeTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      if (!challengeToken) {
+        res.status(400).json({
+          message: "Login challenge is required",
+          success: false,
+        });
+        return;
+      }
+
+      const user = await this.twoFactorService.completeLogin(challengeToken, { code, recoveryCode });
+      const result = await this.userService.signIn(user, this.getSessionContext(req));
+
+      res.json({
+        ...result,
+        message: "Login successful",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
   /**
    * Refresh access token
    * POST /api/auth/refresh
@@ -133,7 +208,7 @@ export class AuthController {
         return;
       }
 
-      const result = await this.userService.refreshToken(refreshToken);
+      const result = await this.userService.refreshToken(refreshToken, this.getSessionContext(req));
 
       res.json({
         data: result,
@@ -163,7 +238,7 @@ export class AuthController {
       }
 
       // Remove sensitive data
-      const { password, refresh_token, ...userData } = req.user;
+      const { password, ...userData } = req.user;
 
       res.json({
         data: userData,
@@ -203,7 +278,7 @@ export class AuthController {
         phone,
       });
 
-      const { password, refresh_token, ...userData } = updatedUser;
+      const { password, ...userData } = updatedUser;
 
       res.json({
         data: userData,
@@ -247,10 +322,9 @@ export class AuthController {
         latitude,
         longitude,
         address,
-        is_location_verified: true,
       });
 
-      const { password, refresh_token, ...userData } = updatedUser;
+      const { password, ...userData } = updatedUser;
 
       res.json({
         data: userData,
@@ -280,7 +354,9 @@ export class AuthController {
         return;
       }
 
-      await this.userService.logout(req.user.id);
+      if (req.sessionId) {
+        await this.userService.logout(req.user.id, req.sessionId);
+      }
 
       res.json({
         message: "Logged out successfully",
@@ -327,7 +403,7 @@ export class AuthController {
         return;
       }
 
-      await this.userService.changePassword(req.user.id, currentPassword, newPassword);
+      await this.userService.changePassword(req.user.id, currentPassword, newPassword, req.sessionId);
 
       res.json({
         message: "Password changed successfully",
@@ -342,6 +418,257 @@ export class AuthController {
     }
   }
 
+  /**
+   * List the devices the user is signed in on
+   * GET /api/auth/sessions
+   */
+  async getSessions(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false,
+        });
+        return;
+      }
+
+      const sessions = await this.sessionService.getActiveSessions(req.user.id, req.sessionId);
+
+      res.json({
+        data: sessions,
+        message: "Sessions retrieved successfully",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Sign out one device
+   * DELETE /api/auth/sessions/:id
+   */
+  async revokeSession(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false,
+        });
+        return;
+      }
+
+      const sessionId = parseInt(req.params.id);
+
+      if (isNaN(sessionId)) {
+        res.status(400).json({
+          message: "Invalid session ID",
+          success: false,
+        });
+        return;
+      }
+
+      const reason = sessionId === req.sessionId ? "logout" : "signed_out_remotely";
+      await this.sessionService.revoke(sessionId, req.user.id, reason);
+
+      res.json({
+        message: "Device signed out",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Sign out every device, including this one
+   * DELETE /api/auth/sessions
+   */
+  async revokeAllSessions(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false,
+        });
+        return;
+      }
+
+      const count = await this.sessionService.revokeAll(req.user.id, "signed_out_everywhere");
+
+      res.json({
+        data: { signed_out: count },
+        message: "Signed out on all devices",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Confirm an email address with the token from the emailed link
+   * POST /api/auth/verify-email
+   */
+  async verifyEmail(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        res.status(400).json({
+          message: "Verification token is required",
+          success: false,
+        });
+        return;
+      }
+
+      await this.accountEmailService.verifyEmail(token);
+
+      res.json({
+        message: "Your email is verified",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Send a new email verification link
+   * POST /api/auth/resend-verification
+   */
+  async resendVerification(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false,
+        });
+        return;
+      }
+
+      await this.accountEmailService.sendVerificationEmail(req.user.id);
+
+      res.json({
+        message: "Verification email sent",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Email a password reset link; answers the same whether or not the account exists
+   * POST /api/auth/forgot-password
+   */
+  async forgotPassword(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== "string") {
+        res.status(400).json({
+          message: "Email is required",
+          success: false,
+        });
+        return;
+      }
+
+      await this.accountEmailService.requestPasswordReset(email);
+
+      res.json({
+        message: "If an account exists for that email, a password reset link is on its way",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Set a new password with the token from the emailed link
+   * POST /api/auth/reset-password
+   */
+  async resetPassword(req: Request, res: Response<ApiResponse>): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || !password) {
+        res.status(400).json({
+          message: "Token and password are required",
+          success: false,
+        });
+        return;
+      }
+
+      if (password.length < 6) {
+        res.status(400).json({
+          message: "Password must be at least 6 characters long",
+          success: false,
+        });
+        return;
+      }
+
+      await this.accountEmailService.resetPassword(token, password);
+
+      res.json({
+        message: "Your password has been reset, please sign in",
+        success: true,
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Change another user's role (admin only)
+   * PUT /api/users/:id/role
+   */
+  async updateUserRole(req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false,
+        });
+        return;
+      }
+
+      const userId = parseInt(req.params.id);
+      const { role } = req.body;
+
+      if (isNaN(userId)) {
+        res.status(400).json({
+          message: "Invalid user ID",
+          success: false,
+        });
+        return;
+      }
+
+      if (userId === req.user.id) {
+        res.status(400).json({
+          message: "You cannot change your own role",
+          success: false,
+        });
+        return;
+      }
+
+      const updatedUser = await this.userService.updateRole(userId, role);
+
+      res.json({
+        data: { ...updatedUser, password: undefined },
+        message: "User role updated successfully",
+        success: true,
+      });
+    } catch (error) {
+      console.error("Update user role error:", error);
+      res.status(400).json({
+        message: (error instanceof Error && error.message) || "Failed to update user role",
+        success: false,
+      });
+    }
+  }
+
   /**
    * Get comprehensive profile data
    * GET /api/profile/complete
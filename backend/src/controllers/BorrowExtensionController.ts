@@ -0,0 +1,171 @@
+import { Response } from "express";
+import { BorrowExtensionService } from "../services/BorrowExtensionService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class BorrowExtensionController {
+  private borrowExtensionService: BorrowExtensionService;
+
+  constructor() {
+    this.borrowExtensionService = new BorrowExtensionService();
+  }
+
+  /**
+   * Extension requests of a borrow
+   * GET /api/borrow-requests/:id/extensions
+   */
+  async getExtensions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const extensions = await this.borrowExtensionService.getExtensions(requestId, req.user.id);
+
+      res.json({
+        data: extensions,
+        message: "Extension requests retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Ask the owner for a later end date
+   * POST /api/borrow-requests/:id/extensions
+   */
+  async proposeExtension(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const { requested_end_date, message } = req.body;
+
+      const extension = await this.borrowExtensionService.proposeExtension(requestId, req.user.id, {
+        requested_end_date,
+        message
+      });
+
+      res.status(201).json({
+        data: extension,
+        message: "Extension requested successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Approve or decline an extension request
+   * PUT /api/borrow-requests/:id/extensions/:extensionId/respond
+   */
+  async respondToExtension(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+      const extensionId = parseInt(req.params.extensionId);
+
+      if (isNaN(requestId) || isNaN(extensionId)) {
+        res.status(400).json({
+          message: "Invalid request or extension ID",
+          success: false
+        });
+        return;
+      }
+
+      const { decision, response_message } = req.body;
+
+      const extension = await this.borrowExtensionService.respondToExtension(
+        requestId,
+        extensionId,
+        req.user.id,
+        decision,
+        response_message
+      );
+
+      res.json({
+        data: extension,
+        message: `Extension ${extension.status} successfully`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Withdraw an unanswered extension request
+   * PUT /api/borrow-requests/:id/extensions/:extensionId/cancel
+   */
+  async cancelExtension(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+      const extensionId = parseInt(req.params.extensionId);
+
+      if (isNaN(requestId) || isNaN(extensionId)) {
+        res.status(400).json({
+          message: "Invalid request or extension ID",
+          success: false
+        });
+        return;
+      }
+
+      const extension = await this.borrowExtensionService.cancelExtension(requestId, extensionId, req.user.id);
+
+      res.json({
+        data: extension,
+        message: "Extension request cancelled successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
@@ -330,7 +330,7 @@ export class BorrowRequestController {
       }
 
       const { id } = req.params;
-      const { return_notes, has_issues, issue_description } = req.body;
+      const { return_notes, has_issues, issue_description, withhold_amount } = req.body;
       const requestId = parseInt(id);
 
       if (isNaN(requestId)) {
@@ -346,7 +346,8 @@ export class BorrowRequestController {
         req.user.id,
         return_notes,
         has_issues || false,
-        issue_description
+        issue_description,
+        withhold_amount !== undefined ? parseFloat(withhold_amount) : undefined
       );
 
       res.json({
@@ -359,6 +360,86 @@ export class BorrowRequestController {
     }
   }
 
+  /**
+   * Mark a returned request as completed
+   * PUT /api/borrow-requests/:id/complete
+   */
+  async completeRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const requestId = parseInt(id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const borrowRequest = await this.borrowRequestService.completeRequest(
+        requestId,
+        req.user.id
+      );
+
+      res.json({
+        data: borrowRequest,
+        message: "Request marked as completed successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get the status history of a borrow request
+   * GET /api/borrow-requests/:id/history
+   */
+  async getRequestHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const requestId = parseInt(id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const history = await this.borrowRequestService.getRequestHistory(
+        requestId,
+        req.user.id
+      );
+
+      res.json({
+        data: history,
+        message: "Request history retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
   /**
    * Update borrow request with additional information
    * PUT /api/borrow-requests/:id
@@ -388,9 +469,7 @@ export class BorrowRequestController {
         pickup_notes,
         return_notes,
         issue_description,
-        has_issues,
-        deposit_paid,
-        deposit_returned
+        has_issues
       } = req.body;
 
       const borrowRequest = await this.borrowRequestService.updateBorrowRequest(
@@ -400,9 +479,7 @@ export class BorrowRequestController {
           pickup_notes,
           return_notes,
           issue_description,
-          has_issues,
-          deposit_paid,
-          deposit_returned
+          has_issues
         }
       );
 
@@ -0,0 +1,172 @@
+import { Response } from "express";
+import { BorrowRequestGroupService } from "../services/BorrowRequestGroupService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class BorrowRequestGroupController {
+  private groupService: BorrowRequestGroupService;
+
+  constructor() {
+    this.groupService = new BorrowRequestGroupService();
+  }
+
+  /**
+   * Request several resources of one owner together and/or on a recurring schedule
+   * POST /api/borrow-requests/groups
+   */
+  async createGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const {
+        resource_ids,
+        start_date,
+        end_date,
+        message,
+        pickup_location,
+        return_location,
+        recurrence
+      } = req.body;
+
+      const group = await this.groupService.createGroup(req.user.id, {
+        resource_ids,
+        start_date,
+        end_date,
+        message,
+        pickup_location,
+        return_location,
+        recurrence
+      });
+
+      res.status(201).json({
+        data: group,
+        message: `${group.requests?.length ?? 0} borrow requests created successfully`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * A bundle or recurring request with all its bookings
+   * GET /api/borrow-requests/groups/:groupId
+   */
+  async getGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const groupId = parseInt(req.params.groupId);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({
+          message: "Invalid group ID",
+          success: false
+        });
+        return;
+      }
+
+      const group = await this.groupService.getGroup(groupId, req.user.id);
+
+      res.json({
+        data: group,
+        message: "Borrow request group retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Approve or reject the group's pending requests, optionally only some of them
+   * PUT /api/borrow-requests/groups/:groupId/status
+   */
+  async respondToGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const groupId = parseInt(req.params.groupId);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({
+          message: "Invalid group ID",
+          success: false
+        });
+        return;
+      }
+
+      const { status, request_ids, response_message } = req.body;
+
+      const group = await this.groupService.respondToGroup(
+        groupId,
+        req.user.id,
+        status,
+        request_ids,
+        response_message
+      );
+
+      res.json({
+        data: group,
+        message: "Borrow requests updated successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Cancel every open request of the group
+   * PUT /api/borrow-requests/groups/:groupId/cancel
+   */
+  async cancelGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const groupId = parseInt(req.params.groupId);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({
+          message: "Invalid group ID",
+          success: false
+        });
+        return;
+      }
+
+      const group = await this.groupService.cancelGroup(groupId, req.user.id);
+
+      res.json({
+        data: group,
+        message: "Borrow requests cancelled successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
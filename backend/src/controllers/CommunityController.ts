@@ -0,0 +1,250 @@
+import { Response } from "express";
+import { CommunityService } from "../services/CommunityService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class CommunityController {
+  private communityService: CommunityService;
+
+  constructor() {
+    this.communityService = new CommunityService();
+  }
+
+  /**
+   * List communities; signed-in users also see which they belong to and can join
+   * GET /api/communities
+   */
+  async getCommunities(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const communities = await this.communityService.getCommunities(req.user?.id);
+
+      res.json({
+        data: communities,
+        message: "Communities retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get the communities the authenticated user belongs to
+   * GET /api/communities/mine
+   */
+  async getMyCommunities(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const communities = await this.communityService.getUserCommunities(req.user.id);
+
+      res.json({
+        data: communities,
+        message: "Your communities retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get a community
+   * GET /api/communities/:id
+   */
+  async getCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const communityId = parseInt(req.params.id);
+
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          message: "Invalid community ID",
+          success: false
+        });
+        return;
+      }
+
+      const community = await this.communityService.getCommunityById(communityId, req.user?.id);
+
+      res.json({
+        data: community,
+        message: "Community retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Create a community (admin only)
+   * POST /api/communities
+   */
+  async createCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { name, description, boundary, center_latitude, center_longitude, radius_km } = req.body;
+
+      const community = await this.communityService.create(
+        { name, description, boundary, center_latitude, center_longitude, radius_km },
+        req.user.id
+      );
+
+      res.status(201).json({
+        data: community,
+        message: "Community created successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Rename a community or change its area (admin only)
+   * PUT /api/communities/:id
+   */
+  async updateCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const communityId = parseInt(req.params.id);
+
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          message: "Invalid community ID",
+          success: false
+        });
+        return;
+      }
+
+      const { name, description, boundary, center_latitude, center_longitude, radius_km } = req.body;
+
+      const community = await this.communityService.update(communityId, {
+        name,
+        description,
+        boundary,
+        center_latitude,
+        center_longitude,
+        radius_km
+      });
+
+      res.json({
+        data: community,
+        message: "Community updated successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Delete a community (admin only)
+   * DELETE /api/communities/:id
+   */
+  async deleteCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const communityId = parseInt(req.params.id);
+
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          message: "Invalid community ID",
+          success: false
+        });
+        return;
+      }
+
+      await this.communityService.delete(communityId);
+
+      res.json({
+        message: "Community deleted successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Join a community covering the user's verified location
+   * POST /api/communities/:id/join
+   */
+  async joinCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const communityId = parseInt(req.params.id);
+
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          message: "Invalid community ID",
+          success: false
+        });
+        return;
+      }
+
+      const community = await this.communityService.join(communityId, req.user.id);
+
+      res.status(201).json({
+        data: community,
+        message: `You joined ${community.name}`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Leave a community
+   * DELETE /api/communities/:id/membership
+   */
+  async leaveCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const communityId = parseInt(req.params.id);
+
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          message: "Invalid community ID",
+          success: false
+        });
+        return;
+      }
+
+      await this.communityService.leave(communityId, req.user.id);
+
+      res.json({
+        message: "You left the community",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Response } from "express";
+import { ConditionReportService } from "../services/ConditionReportService";
+import { ConditionReportStage } from "../entities/ConditionReport";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class ConditionReportController {
+  private conditionReportService: ConditionReportService;
+
+  constructor() {
+    this.conditionReportService = new ConditionReportService();
+  }
+
+  /**
+   * File or update the pickup or return condition report, optionally with photos
+   * POST /api/borrow-requests/:id/condition-reports
+   */
+  async submitReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const { stage, condition, notes } = req.body;
+      let { checklist } = req.body;
+
+      // Multipart forms send the checklist as a JSON string
+      if (typeof checklist === "string") {
+        try {
+          checklist = checklist.trim() ? JSON.parse(checklist) : [];
+        } catch {
+          res.status(400).json({
+            message: "checklist must be valid JSON",
+            success: false
+          });
+          return;
+        }
+      }
+
+      const report = await this.conditionReportService.submitReport(
+        requestId,
+        req.user.id,
+        { stage, condition, checklist, notes },
+        (req.files as Express.Multer.File[]) || []
+      );
+
+      res.status(201).json({
+        data: report,
+        message: "Condition report saved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Sign off the other side's condition report
+   * PUT /api/borrow-requests/:id/condition-reports/:stage/sign
+   */
+  async signReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const report = await this.conditionReportService.signReport(
+        requestId,
+        req.user.id,
+        req.params.stage as ConditionReportStage
+      );
+
+      res.json({
+        data: report,
+        message: "Condition report signed successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Pickup and return reports side by side
+   * GET /api/borrow-requests/:id/condition-reports
+   */
+  async getComparison(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const isModerator = req.user.role === "moderator" || req.user.role === "admin";
+      const comparison = await this.conditionReportService.getComparison(requestId, req.user.id, isModerator);
+
+      res.json({
+        data: comparison,
+        message: "Condition reports retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Response } from "express";
+import { DepositService } from "../services/DepositService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class DepositController {
+  private depositService: DepositService;
+
+  constructor() {
+    this.depositService = new DepositService();
+  }
+
+  /**
+   * Get deposit entries across the user's borrows and lendings
+   * GET /api/deposits
+   */
+  async getMyDeposits(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+
+      const result = await this.depositService.getUserLedger(req.user.id, page, limit);
+
+      res.json({
+        data: result.data,
+        pagination: result.pagination,
+        message: "Deposit entries retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get the deposit ledger of a borrow request
+   * GET /api/deposits/requests/:requestId
+   */
+  async getRequestDeposit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.requestId);
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const ledger = await this.depositService.getRequestLedger(requestId, req.user.id);
+
+      res.json({
+        data: ledger,
+        message: "Deposit ledger retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Confirm a pending deposit entry
+   * PUT /api/deposits/entries/:id/confirm
+   */
+  async confirmEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const entryId = parseInt(req.params.id);
+
+      if (isNaN(entryId)) {
+        res.status(400).json({
+          message: "Invalid deposit entry ID",
+          success: false
+        });
+        return;
+      }
+
+      const entry = await this.depositService.confirmEntry(entryId, req.user.id);
+
+      res.json({
+        data: entry,
+        message: "Deposit entry confirmed successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Reject a pending deposit hold (which cancels the request) or withholding (which opens a dispute)
+   * PUT /api/deposits/entries/:id/reject
+   */
+  async rejectEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const entryId = parseInt(req.params.id);
+      const { reason } = req.body;
+
+      if (isNaN(entryId)) {
+        res.status(400).json({
+          message: "Invalid deposit entry ID",
+          success: false
+        });
+        return;
+      }
+
+      const entry = await this.depositService.rejectEntry(entryId, req.user.id, reason);
+
+      res.json({
+        data: entry,
+        message: entry.type === "dispute"
+          ? "Deposit withholding disputed; a moderator will review it"
+          : "Deposit hold declined; the borrow request was cancelled",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
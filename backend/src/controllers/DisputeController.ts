@@ -0,0 +1,209 @@
+import { Response } from "express";
+import { DisputeService } from "../services/DisputeService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class DisputeController {
+  private disputeService: DisputeService;
+
+  constructor() {
+    this.disputeService = new DisputeService();
+  }
+
+  /**
+   * Open a dispute on a returned borrow, optionally with photo evidence
+   * POST /api/disputes
+   */
+  async openDispute(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { borrow_request_id, reason, claimed_amount } = req.body;
+
+      if (!borrow_request_id) {
+        res.status(400).json({
+          message: "Borrow request ID is required",
+          success: false
+        });
+        return;
+      }
+
+      const dispute = await this.disputeService.openDispute(
+        req.user.id,
+        {
+          borrow_request_id: parseInt(borrow_request_id),
+          reason,
+          claimed_amount: claimed_amount !== undefined && claimed_amount !== ""
+            ? parseFloat(claimed_amount)
+            : undefined
+        },
+        (req.files as Express.Multer.File[]) || []
+      );
+
+      res.status(201).json({
+        data: dispute,
+        message: "Dispute opened successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get a dispute with its statements and evidence
+   * GET /api/disputes/:id
+   */
+  async getDispute(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const disputeId = parseInt(req.params.id);
+
+      if (isNaN(disputeId)) {
+        res.status(400).json({
+          message: "Invalid dispute ID",
+          success: false
+        });
+        return;
+      }
+
+      const isModerator = req.user.role === "moderator" || req.user.role === "admin";
+      const dispute = await this.disputeService.getDispute(disputeId, req.user.id, isModerator);
+
+      res.json({
+        data: dispute,
+        message: "Dispute retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Add a statement to a dispute
+   * POST /api/disputes/:id/statements
+   */
+  async addStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const disputeId = parseInt(req.params.id);
+      const { body } = req.body;
+
+      if (isNaN(disputeId)) {
+        res.status(400).json({
+          message: "Invalid dispute ID",
+          success: false
+        });
+        return;
+      }
+
+      const statement = await this.disputeService.addStatement(disputeId, req.user.id, body);
+
+      res.status(201).json({
+        data: statement,
+        message: "Statement added successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Upload photo evidence to a dispute
+   * POST /api/disputes/:id/evidence
+   */
+  async addEvidence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const disputeId = parseInt(req.params.id);
+
+      if (isNaN(disputeId)) {
+        res.status(400).json({
+          message: "Invalid dispute ID",
+          success: false
+        });
+        return;
+      }
+
+      const evidence = await this.disputeService.addEvidence(
+        disputeId,
+        req.user.id,
+        req.files as Express.Multer.File[],
+        req.body?.caption
+      );
+
+      res.status(201).json({
+        data: evidence,
+        message: `${evidence.length} photo(s) added to the dispute`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Withdraw a dispute you opened
+   * PUT /api/disputes/:id/withdraw
+   */
+  async withdrawDispute(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const disputeId = parseInt(req.params.id);
+
+      if (isNaN(disputeId)) {
+        res.status(400).json({
+          message: "Invalid dispute ID",
+          success: false
+        });
+        return;
+      }
+
+      const dispute = await this.disputeService.withdraw(disputeId, req.user.id);
+
+      res.json({
+        data: dispute,
+        message: "Dispute withdrawn",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
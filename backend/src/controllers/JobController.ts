@@ -0,0 +1,71 @@
+import { Response } from "express";
+import { JobScheduler } from "../services/JobScheduler";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class JobController {
+  /**
+   * The scheduler is created in server.ts and shared through the Express app
+   */
+  private getScheduler(req: AuthenticatedRequest): JobScheduler {
+    return req.app.get("jobScheduler") as JobScheduler;
+  }
+
+  /**
+   * Get registered background jobs with their last run state
+   * GET /api/admin/jobs
+   */
+  async getJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const jobs = await this.getScheduler(req).getJobs();
+
+      res.json({
+        data: jobs,
+        message: "Jobs retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get background job run history
+   * GET /api/admin/jobs/runs?job=name
+   */
+  async getJobRuns(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const jobName = req.query.job as string | undefined;
+
+      const history = await this.getScheduler(req).getHistory(jobName, page, limit);
+
+      res.json({
+        data: history,
+        message: "Job history retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Run a background job immediately
+   * POST /api/admin/jobs/:name/run
+   */
+  async runJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const run = await this.getScheduler(req).runNow(req.params.name, req.user?.id);
+
+      res.json({
+        data: run,
+        message: `Job ${req.params.name} finished with status ${run.status}`,
+        success: run.status === "success"
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { Response } from "express";
+import { LocationVerificationService } from "../services/LocationVerificationService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class LocationVerificationController {
+  private verificationService: LocationVerificationService;
+
+  constructor() {
+    this.verificationService = new LocationVerificationService();
+  }
+
+  /**
+   * Get the user's verification status, past verifications and the available methods
+   * GET /api/location-verification
+   */
+  async getMyVerifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const verifications = await this.verificationService.getUserVerifications(req.user.id);
+
+      res.json({
+        data: {
+          is_location_verified: req.user.is_location_verified,
+          methods: this.verificationService.getMethods(),
+          verifications
+        },
+        message: "Location verifications retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Start verifying the user's current location
+   * POST /api/location-verification
+   */
+  async startVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { method, note } = req.body;
+
+      const verification = await this.verificationService.start(req.user.id, { method, note });
+
+      res.status(201).json({
+        data: verification,
+        message: "Location verification started",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Enter the code from the mailed letter
+   * POST /api/location-verification/:id/code
+   */
+  async submitCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const verificationId = parseInt(req.params.id);
+
+      if (isNaN(verificationId)) {
+        res.status(400).json({
+          message: "Invalid verification ID",
+          success: false
+        });
+        return;
+      }
+
+      const verification = await this.verificationService.submitCode(
+        verificationId,
+        req.user,
+        String(req.body.code ?? "")
+      );
+
+      res.json({
+        data: verification,
+        message: "Your location is verified",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Withdraw a pending verification
+   * DELETE /api/location-verification/:id
+   */
+  async cancelVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const verificationId = parseInt(req.params.id);
+
+      if (isNaN(verificationId)) {
+        res.status(400).json({
+          message: "Invalid verification ID",
+          success: false
+        });
+        return;
+      }
+
+      await this.verificationService.cancel(verificationId, req.user.id);
+
+      res.json({
+        message: "Location verification cancelled",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get neighbors asking the user to vouch for them
+   * GET /api/location-verification/vouch-requests
+   */
+  async getVouchRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requests = await this.verificationService.getVouchRequests(req.user.id);
+
+      res.json({
+        data: requests,
+        message: "Vouch requests retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Vouch that a neighbor lives where they say
+   * POST /api/location-verification/:id/vouch
+   */
+  async vouch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const verificationId = parseInt(req.params.id);
+
+      if (isNaN(verificationId)) {
+        res.status(400).json({
+          message: "Invalid verification ID",
+          success: false
+        });
+        return;
+      }
+
+      const result = await this.verificationService.vouch(verificationId, req.user);
+
+      res.status(201).json({
+        data: result,
+        message: "Thanks for vouching for your neighbor",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get verifications waiting for review (moderator or admin)
+   * GET /api/admin/location-verifications
+   */
+  async getPendingReviews(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+
+      const result = await this.verificationService.getPendingReviews(page, limit);
+
+      res.json({
+        data: result,
+        message: "Location verifications retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Approve or reject a verification (moderator or admin)
+   * PUT /api/admin/location-verifications/:id/review
+   */
+  async reviewVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const verificationId = parseInt(req.params.id);
+
+      if (isNaN(verificationId)) {
+        res.status(400).json({
+          message: "Invalid verification ID",
+          success: false
+        });
+        return;
+      }
+
+      const { decision, note } = req.body;
+
+      const verification = await this.verificationService.review(verificationId, req.user, decision, note);
+
+      res.json({
+        data: verification,
+        message: verification.status === "verified" ? "Location approved" : "Location rejected",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
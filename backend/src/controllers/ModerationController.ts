@@ -0,0 +1,357 @@
+import { Response } from "express";
+import { ModerationService } from "../services/ModerationService";
+import { ModerationTargetType } from "../entities/ModerationAction";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+const TARGET_TYPES: ModerationTargetType[] = ["review", "user", "resource", "borrow_request", "dispute"];
+
+export class ModerationController {
+  private moderationService: ModerationService;
+
+  constructor() {
+    this.moderationService = new ModerationService();
+  }
+
+  /**
+   * Get flagged reviews awaiting moderation
+   * GET /api/admin/moderation/reviews
+   */
+  async getFlaggedReviews(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page, limit } = this.getPagination(req);
+      const result = await this.moderationService.getFlaggedReviews(page, limit);
+
+      res.json({
+        data: result,
+        message: "Flagged reviews retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get borrow requests with unresolved reported issues
+   * GET /api/admin/moderation/issues
+   */
+  async getReportedIssues(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page, limit } = this.getPagination(req);
+      const result = await this.moderationService.getReportedIssues(page, limit);
+
+      res.json({
+        data: result,
+        message: "Reported issues retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get listings flagged as suspicious
+   * GET /api/admin/moderation/listings
+   */
+  async getSuspiciousListings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page, limit } = this.getPagination(req);
+      const result = await this.moderationService.getSuspiciousListings(page, limit);
+
+      res.json({
+        data: result,
+        message: "Suspicious listings retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get the moderation audit log
+   * GET /api/admin/moderation/actions
+   */
+  async getActions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page, limit } = this.getPagination(req);
+      const targetType = req.query.target_type as ModerationTargetType | undefined;
+      const targetId = parseInt(req.query.target_id as string);
+      const moderatorId = parseInt(req.query.moderator_id as string);
+
+      if (targetType && !TARGET_TYPES.includes(targetType)) {
+        res.status(400).json({
+          message: `target_type must be one of: ${TARGET_TYPES.join(", ")}`,
+          success: false
+        });
+        return;
+      }
+
+      const result = await this.moderationService.getActions(
+        {
+          target_type: targetType,
+          target_id: isNaN(targetId) ? undefined : targetId,
+          moderator_id: isNaN(moderatorId) ? undefined : moderatorId
+        },
+        page,
+        limit
+      );
+
+      res.json({
+        data: result,
+        message: "Moderation actions retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Hide, show or verify a review
+   * PUT /api/admin/reviews/:id/moderate
+   */
+  async moderateReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const reviewId = parseInt(req.params.id);
+      const { action, reason } = req.body;
+
+      if (isNaN(reviewId)) {
+        res.status(400).json({
+          message: "Invalid review ID",
+          success: false
+        });
+        return;
+      }
+
+      if (!action || !["hide", "show", "verify"].includes(action)) {
+        res.status(400).json({
+          message: "Action must be 'hide', 'show', or 'verify'",
+          success: false
+        });
+        return;
+      }
+
+      const review = await this.moderationService.moderateReview(reviewId, req.user.id, action, reason);
+
+      res.json({
+        data: review,
+        message: `Review ${action} action completed successfully`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Suspend or reinstate a user
+   * PUT /api/admin/users/:id/moderate
+   */
+  async moderateUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const userId = parseInt(req.params.id);
+      const { action, reason } = req.body;
+
+      if (isNaN(userId)) {
+        res.status(400).json({
+          message: "Invalid user ID",
+          success: false
+        });
+        return;
+      }
+
+      if (!action || !["suspend", "reinstate"].includes(action)) {
+        res.status(400).json({
+          message: "Action must be 'suspend' or 'reinstate'",
+          success: false
+        });
+        return;
+      }
+
+      const user = await this.moderationService.moderateUser(userId, req.user, action, reason);
+
+      res.json({
+        data: { ...user, password: undefined },
+        message: `User ${action} action completed successfully`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Deactivate or reactivate a listing
+   * PUT /api/admin/resources/:id/moderate
+   */
+  async moderateResource(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const resourceId = parseInt(req.params.id);
+      const { action, reason } = req.body;
+
+      if (isNaN(resourceId)) {
+        res.status(400).json({
+          message: "Invalid resource ID",
+          success: false
+        });
+        return;
+      }
+
+      if (!action || !["deactivate", "reactivate"].includes(action)) {
+        res.status(400).json({
+          message: "Action must be 'deactivate' or 'reactivate'",
+          success: false
+        });
+        return;
+      }
+
+      const resource = await this.moderationService.moderateResource(resourceId, req.user.id, action, reason);
+
+      res.json({
+        data: resource,
+        message: `Resource ${action} action completed successfully`,
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Resolve a reported borrow issue
+   * PUT /api/admin/borrow-requests/:id/resolve
+   */
+  async resolveIssue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const requestId = parseInt(req.params.id);
+      const { reason, withhold_amount } = req.body;
+
+      if (isNaN(requestId)) {
+        res.status(400).json({
+          message: "Invalid request ID",
+          success: false
+        });
+        return;
+      }
+
+      const borrowRequest = await this.moderationService.resolveIssue(
+        requestId,
+        req.user.id,
+        reason,
+        withhold_amount !== undefined ? parseFloat(withhold_amount) : undefined
+      );
+
+      res.json({
+        data: borrowRequest,
+        message: "Issue resolved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get dispute cases waiting for a decision
+   * GET /api/admin/moderation/disputes
+   */
+  async getDisputes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page, limit } = this.getPagination(req);
+      const result = await this.moderationService.getDisputes(page, limit);
+
+      res.json({
+        data: result,
+        message: "Disputes retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Decide a dispute case
+   * PUT /api/admin/disputes/:id/decide
+   */
+  async decideDispute(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const disputeId = parseInt(req.params.id);
+      const { outcome, notes, withheld_amount } = req.body;
+
+      if (isNaN(disputeId)) {
+        res.status(400).json({
+          message: "Invalid dispute ID",
+          success: false
+        });
+        return;
+      }
+
+      const dispute = await this.moderationService.decideDispute(disputeId, req.user.id, {
+        outcome,
+        notes,
+        withheld_amount: withheld_amount !== undefined && withheld_amount !== ""
+          ? parseFloat(withheld_amount)
+          : undefined
+      });
+
+      res.json({
+        data: dispute,
+        message: "Dispute decided successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  private getPagination(req: AuthenticatedRequest): { page: number; limit: number } {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+
+    return { page, limit };
+  }
+}
@@ -1,4 +1,4 @@
-import { Request, Response } from "express";
+import { Response } from "express";
 import { 
   NotificationService, 
   NotificationCreateData, 
@@ -11,14 +11,7 @@ import {
   UnauthorizedError 
 } from "../utils/errors";
 import { validationResult } from "express-validator";
-
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: number;
-    email: string;
-    role: string;
-  };
-}
+import { AuthenticatedRequest } from "../types/auth";
 
 export class NotificationController {
   private notificationService: NotificationService;
@@ -359,15 +352,6 @@ export class NotificationController {
         return;
       }
 
-      // Check if user is admin (you may need to adjust this based on your role system)
-      if (req.user!.role !== 'admin') {
-        res.status(403).json({
-          success: false,
-          error: 'Only administrators can create notifications'
-        });
-        return;
-      }
-
       const notificationData: NotificationCreateData = {
         user_id: req.body.user_id,
         title: req.body.title,
@@ -430,15 +414,6 @@ export class NotificationController {
         return;
       }
 
-      // Check if user is admin
-      if (req.user!.role !== 'admin') {
-        res.status(403).json({
-          success: false,
-          error: 'Only administrators can create bulk notifications'
-        });
-        return;
-      }
-
       const { user_ids, ...notificationData } = req.body;
 
       if (!Array.isArray(user_ids) || user_ids.length === 0) {
@@ -499,15 +474,6 @@ export class NotificationController {
    */
   cleanupExpiredNotifications = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      // Check if user is admin
-      if (req.user!.role !== 'admin') {
-        res.status(403).json({
-          success: false,
-          error: 'Only administrators can cleanup expired notifications'
-        });
-        return;
-      }
-
       const deletedCount = await this.notificationService.cleanupExpiredNotifications();
 
       res.status(200).json({
@@ -530,15 +496,6 @@ export class NotificationController {
    */
   getScheduledNotifications = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      // Check if user is admin
-      if (req.user!.role !== 'admin') {
-        res.status(403).json({
-          success: false,
-          error: 'Only administrators can view scheduled notifications'
-        });
-        return;
-      }
-
       const notifications = await this.notificationService.getScheduledNotificationsForSending();
 
       res.status(200).json({
@@ -574,15 +531,6 @@ export class NotificationController {
         return;
       }
 
-      // Check if user is admin
-      if (req.user!.role !== 'admin') {
-        res.status(403).json({
-          success: false,
-          error: 'Only administrators can mark notifications as sent'
-        });
-        return;
-      }
-
       await this.notificationService.markAsSent(notificationId, delivery_methods || {});
 
       res.status(200).json({
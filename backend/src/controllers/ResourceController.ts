@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { ResourceService } from "../services/ResourceService";
 import { PhotoService, PhotoUploadResult } from "../services/PhotoService";
+import { ResourceCalendarService } from "../services/ResourceCalendarService";
 import {
   CreateResourceRequest,
   UpdateResourceRequest,
@@ -28,10 +29,12 @@ interface AuthenticatedRequest extends Request {
 export class ResourceController {
   private resourceService: ResourceService;
   private photoService: PhotoService;
+  private calendarService: ResourceCalendarService;
 
   constructor() {
     this.resourceService = new ResourceService();
     this.photoService = new PhotoService();
+    this.calendarService = new ResourceCalendarService();
     
     // Bind methods to ensure correct 'this' context
     this.getResources = this.getResources.bind(this);
@@ -42,11 +45,18 @@ export class ResourceController {
     this.getUserResources = this.getUserResources.bind(this);
     this.searchResources = this.searchResources.bind(this);
     this.getResourceCategories = this.getResourceCategories.bind(this);
+    this.getSearchSuggestions = this.getSearchSuggestions.bind(this);
+    this.getMyFavourites = this.getMyFavourites.bind(this);
+    this.addFavourite = this.addFavourite.bind(this);
+    this.removeFavourite = this.removeFavourite.bind(this);
     this.uploadPhotos = this.uploadPhotos.bind(this);
     this.deletePhoto = this.deletePhoto.bind(this);
     this.setPrimaryPhoto = this.setPrimaryPhoto.bind(this);
     this.reorderPhotos = this.reorderPhotos.bind(this);
     this.servePhoto = this.servePhoto.bind(this);
+    this.getCalendar = this.getCalendar.bind(this);
+    this.addBlackout = this.addBlackout.bind(this);
+    this.removeBlackout = this.removeBlackout.bind(this);
   }
 
   /**
@@ -65,20 +75,24 @@ export class ResourceController {
         category: req.query.category as string,
         search: req.query.search as string,
         condition: req.query.condition as string,
-        sort_by: req.query.sort_by as 'created_at' | 'title' | 'estimated_value' | 'views_count' | 'average_rating',
+        sort_by: req.query.sort_by as ResourceQueryFilters['sort_by'],
         sort_order: req.query.sort_order as 'ASC' | 'DESC',
         min_value: req.query.min_value ? parseFloat(req.query.min_value as string) : undefined,
         max_value: req.query.max_value ? parseFloat(req.query.max_value as string) : undefined,
         max_borrow_days: req.query.max_borrow_days ? parseInt(req.query.max_borrow_days as string) : undefined,
         deposit_required: req.query.deposit_required ? req.query.deposit_required === 'true' : undefined,
+        max_deposit: req.query.max_deposit ? parseFloat(req.query.max_deposit as string) : undefined,
         pickup_required: req.query.pickup_required ? req.query.pickup_required === 'true' : undefined,
+        owner_id: req.query.owner_id ? parseInt(req.query.owner_id as string) : undefined,
+        community_id: req.query.community_id ? parseInt(req.query.community_id as string) : undefined,
+        my_communities: req.query.my_communities ? req.query.my_communities === 'true' : undefined,
         latitude: req.query.latitude ? parseFloat(req.query.latitude as string) : undefined,
         longitude: req.query.longitude ? parseFloat(req.query.longitude as string) : undefined,
         radius: req.query.radius ? parseFloat(req.query.radius as string) : 10
       };
 
       // Validate location parameters
-      if ((filters.latitude && !filters.longitude) || (!filters.latitude && filters.longitude)) {
+      if ((filters.latitude === undefined) !== (filters.longitude === undefined)) {
         throw new ValidationError('Both latitude and longitude must be provided for location-based search');
       }
 
@@ -110,7 +124,7 @@ export class ResourceController {
         limit: parseInt(req.query.limit as string) || 10,
         category: req.query.category as string,
         condition: req.query.condition as string,
-        sort_by: req.query.sort_by as 'created_at' | 'title' | 'estimated_value' | 'views_count' | 'average_rating',
+        sort_by: req.query.sort_by as ResourceQueryFilters['sort_by'],
         sort_order: req.query.sort_order as 'ASC' | 'DESC',
         min_value: req.query.min_value ? parseFloat(req.query.min_value as string) : undefined,
         max_value: req.query.max_value ? parseFloat(req.query.max_value as string) : undefined,
@@ -119,7 +133,7 @@ export class ResourceController {
         radius: req.query.radius ? parseFloat(req.query.radius as string) : 10
       };
 
-      const result = await this.resourceService.searchResources(query, filters);
+      const result = await this.resourceService.searchResources(query, filters, currentUserId);
       
       res.status(200).json(result);
     } catch (error) {
@@ -127,13 +141,37 @@ export class ResourceController {
     }
   }
 
+  /**
+   * GET /resources/suggest
+   * Suggestions for a partially typed search query
+   */
+  async getSearchSuggestions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = (req.query.q as string) || '';
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+      const suggestions = await this.resourceService.getSearchSuggestions(query, limit);
+
+      const response: ApiResponse<string[]> = {
+        success: true,
+        data: suggestions,
+        message: 'Suggestions retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /resources/categories
    * Get all resource categories with their counts
    */
   async getResourceCategories(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const categories = await this.resourceService.getResourceCategories();
+      const authReq = req as AuthenticatedRequest;
+      const categories = await this.resourceService.getResourceCategories(authReq.user?.id);
       
       const response: ApiResponse<{ category: string; count: number }[]> = {
         success: true,
@@ -284,6 +322,7 @@ export class ResourceController {
    */
   async getUserResources(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const authReq = req as AuthenticatedRequest;
       const userId = parseInt(req.params.userId);
       if (isNaN(userId)) {
         throw new ValidationError('Invalid user ID');
@@ -292,7 +331,7 @@ export class ResourceController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      const result = await this.resourceService.getUserResources(userId, page, limit);
+      const result = await this.resourceService.getUserResources(userId, page, limit, authReq.user?.id);
       
       res.status(200).json(result);
     } catch (error) {
@@ -313,7 +352,7 @@ export class ResourceController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      const result = await this.resourceService.getUserResources(req.user.id, page, limit);
+      const result = await this.resourceService.getUserResources(req.user.id, page, limit, req.user.id);
       
       res.status(200).json(result);
     } catch (error) {
@@ -321,6 +360,87 @@ export class ResourceController {
     }
   }
 
+  /**
+   * GET /resources/favourites
+   * Get the authenticated user's favourite resources
+   */
+  async getMyFavourites(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.resourceService.getUserFavourites(req.user.id, page, limit);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /resources/:id/favourite
+   * Add a resource to the authenticated user's favourites
+   */
+  async addFavourite(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const resourceId = parseInt(req.params.id);
+      if (isNaN(resourceId)) {
+        throw new ValidationError('Invalid resource ID');
+      }
+
+      const favourite = await this.resourceService.addFavourite(resourceId, req.user.id);
+      
+      const response: ApiResponse<typeof favourite> = {
+        success: true,
+        data: favourite,
+        message: favourite.notify_when_available
+          ? 'Added to favourites. You will be notified when it is available again'
+          : 'Added to favourites'
+      };
+      
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /resources/:id/favourite
+   * Remove a resource from the authenticated user's favourites
+   */
+  async removeFavourite(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const resourceId = parseInt(req.params.id);
+      if (isNaN(resourceId)) {
+        throw new ValidationError('Invalid resource ID');
+      }
+
+      await this.resourceService.removeFavourite(resourceId, req.user.id);
+      
+      const response: ApiResponse<null> = {
+        success: true,
+        data: null,
+        message: 'Removed from favourites'
+      };
+      
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /resources/:id/view
    * Record a view for a resource (for analytics)
@@ -387,6 +507,101 @@ export class ResourceController {
     }
   }
 
+  /**
+   * GET /resources/:id/calendar
+   * Get day-by-day availability of a resource
+   */
+  async getCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const resourceId = parseInt(req.params.id);
+      if (isNaN(resourceId)) {
+        throw new ValidationError('Invalid resource ID');
+      }
+
+      const calendar = await this.calendarService.getCalendar(
+        resourceId,
+        req.query.from as string | undefined,
+        req.query.to as string | undefined,
+        authReq.user?.id
+      );
+
+      const response: ApiResponse<typeof calendar> = {
+        success: true,
+        data: calendar,
+        message: 'Calendar retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /resources/:id/blackouts
+   * Block a date range (resource owner only)
+   */
+  async addBlackout(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const resourceId = parseInt(req.params.id);
+      if (isNaN(resourceId)) {
+        throw new ValidationError('Invalid resource ID');
+      }
+
+      const { start_date, end_date, reason } = req.body;
+      const blackout = await this.calendarService.addBlackout(resourceId, req.user.id, {
+        start_date,
+        end_date,
+        reason
+      });
+
+      const response: ApiResponse<typeof blackout> = {
+        success: true,
+        data: blackout,
+        message: 'Dates blocked successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /resources/:id/blackouts/:blackoutId
+   * Remove a blocked date range (resource owner only)
+   */
+  async removeBlackout(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const resourceId = parseInt(req.params.id);
+      const blackoutId = parseInt(req.params.blackoutId);
+      if (isNaN(resourceId) || isNaN(blackoutId)) {
+        throw new ValidationError('Invalid resource or blackout ID');
+      }
+
+      await this.calendarService.removeBlackout(resourceId, blackoutId, req.user.id);
+
+      const response: ApiResponse<null> = {
+        success: true,
+        data: null,
+        message: 'Blocked dates removed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /resources/nearby
    * Get resources near a specific location
@@ -410,8 +625,8 @@ export class ResourceController {
         radius,
         category: req.query.category as string,
         search: req.query.search as string,
-        sort_by: 'created_at', // Default sort by distance (handled in service)
-        sort_order: 'DESC'
+        sort_by: (req.query.sort_by as ResourceQueryFilters['sort_by']) || 'distance',
+        sort_order: req.query.sort_order as 'ASC' | 'DESC'
       };
 
       const result = await this.resourceService.getResources(filters, authReq.user?.id);
@@ -552,61 +552,4 @@ export class ReviewController {
             handleControllerError(error, res);
         }
     }
-
-    /**
-     * Admin endpoint to moderate a review
-     * PUT /api/admin/reviews/:id/moderate
-     */
-    async moderateReview(
-        req: AuthenticatedRequest,
-        res: Response
-    ): Promise<void> {
-        try {
-            if (!req.user) {
-                res.status(401).json({
-                    message: "User not authenticated",
-                    success: false,
-                });
-                return;
-            }
-
-            // In a real implementation, you'd check if the user is an admin
-            // For now, we'll just implement the functionality
-
-            const { id } = req.params;
-            const { action, reason } = req.body;
-            const reviewId = parseInt(id);
-
-            if (isNaN(reviewId)) {
-                res.status(400).json({
-                    message: "Invalid review ID",
-                    success: false,
-                });
-                return;
-            }
-
-            if (!action || !["hide", "show", "verify"].includes(action)) {
-                res.status(400).json({
-                    message: "Action must be 'hide', 'show', or 'verify'",
-                    success: false,
-                });
-                return;
-            }
-
-            const review = await this.reviewService.moderateReview(
-                reviewId,
-                req.user.id,
-                action,
-                reason
-            );
-
-            res.json({
-                data: review,
-                message: `Review ${action} action completed successfully`,
-                success: true,
-            });
-        } catch (error: any) {
-            handleControllerError(error, res);
-        }
-    }
 }
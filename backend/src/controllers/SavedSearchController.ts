@@ -0,0 +1,149 @@
+import { Response } from "express";
+import { SavedSearchService } from "../services/SavedSearchService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class SavedSearchController {
+  private savedSearchService: SavedSearchService;
+
+  constructor() {
+    this.savedSearchService = new SavedSearchService();
+  }
+
+  /**
+   * Get the authenticated user's saved searches
+   * GET /api/saved-searches
+   */
+  async getMySavedSearches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const searches = await this.savedSearchService.getUserSearches(req.user.id);
+
+      res.json({
+        data: searches,
+        message: "Saved searches retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Save a search and get alerts for new matching listings
+   * POST /api/saved-searches
+   */
+  async createSavedSearch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { name, filters, alerts_enabled, alert_interval_hours } = req.body;
+
+      const savedSearch = await this.savedSearchService.create(req.user.id, {
+        name,
+        filters,
+        alerts_enabled,
+        alert_interval_hours
+      });
+
+      res.status(201).json({
+        data: savedSearch,
+        message: "Search saved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Rename a saved search, change its filters or its alerts
+   * PUT /api/saved-searches/:id
+   */
+  async updateSavedSearch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const searchId = parseInt(req.params.id);
+
+      if (isNaN(searchId)) {
+        res.status(400).json({
+          message: "Invalid saved search ID",
+          success: false
+        });
+        return;
+      }
+
+      const { name, filters, alerts_enabled, alert_interval_hours } = req.body;
+
+      const savedSearch = await this.savedSearchService.update(searchId, req.user.id, {
+        name,
+        filters,
+        alerts_enabled,
+        alert_interval_hours
+      });
+
+      res.json({
+        data: savedSearch,
+        message: "Saved search updated successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Delete a saved search
+   * DELETE /api/saved-searches/:id
+   */
+  async deleteSavedSearch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const searchId = parseInt(req.params.id);
+
+      if (isNaN(searchId)) {
+        res.status(400).json({
+          message: "Invalid saved search ID",
+          success: false
+        });
+        return;
+      }
+
+      await this.savedSearchService.delete(searchId, req.user.id);
+
+      res.json({
+        message: "Saved search deleted successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Response } from "express";
+import { TwoFactorService } from "../services/TwoFactorService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class TwoFactorController {
+  private twoFactorService: TwoFactorService;
+
+  constructor() {
+    this.twoFactorService = new TwoFactorService();
+  }
+
+  /**
+   * Whether two-factor authentication is on, and how many recovery codes are left
+   * GET /api/auth/2fa
+   */
+  async getStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const status = await this.twoFactorService.getStatus(req.user.id);
+
+      res.json({
+        data: status,
+        message: "Two-factor status retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Create a secret for an authenticator app
+   * POST /api/auth/2fa/setup
+   */
+  async setup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const enrollment = await this.twoFactorService.setup(req.user);
+
+      res.json({
+        data: enrollment,
+        message: "Scan the code with your authenticator app, then enter the code it shows",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Confirm the authenticator app with a first code and turn two-factor on
+   * POST /api/auth/2fa/enable
+   */
+  async enable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const recoveryCodes = await this.twoFactorService.enable(req.user.id, String(req.body.code ?? ""));
+
+      res.json({
+        data: { recovery_codes: recoveryCodes },
+        message: "Two-factor authentication enabled",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Turn two-factor off with the password and a code
+   * POST /api/auth/2fa/disable
+   */
+  async disable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { password, code, recoveryCode } = req.body;
+
+      await this.twoFactorService.disable(req.user.id, password, { code, recoveryCode });
+
+      res.json({
+        message: "Two-factor authentication disabled",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Replace the recovery codes
+   * POST /api/auth/2fa/recovery-codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        req.user.id,
+        String(req.body.code ?? "")
+      );
+
+      res.json({
+        data: { recovery_codes: recoveryCodes },
+        message: "New recovery codes created",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
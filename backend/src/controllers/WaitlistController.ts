@@ -0,0 +1,114 @@
+import { Response } from "express";
+import { WaitlistService } from "../services/WaitlistService";
+import { AuthenticatedRequest } from "../types/auth";
+import { handleControllerError } from "../utils/errors";
+
+export class WaitlistController {
+  private waitlistService: WaitlistService;
+
+  constructor() {
+    this.waitlistService = new WaitlistService();
+  }
+
+  /**
+   * Join the waitlist for a resource
+   * POST /api/waitlist
+   */
+  async joinWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const { resource_id, start_date, end_date } = req.body;
+
+      if (!resource_id) {
+        res.status(400).json({
+          message: "Resource ID is required",
+          success: false
+        });
+        return;
+      }
+
+      const entry = await this.waitlistService.join({
+        resource_id: parseInt(resource_id),
+        user_id: req.user.id,
+        start_date,
+        end_date
+      });
+
+      res.status(201).json({
+        data: entry,
+        message: "Joined the waitlist successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Get the authenticated user's active waitlist entries
+   * GET /api/waitlist
+   */
+  async getMyWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const entries = await this.waitlistService.getUserEntries(req.user.id);
+
+      res.json({
+        data: entries,
+        message: "Waitlist retrieved successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+
+  /**
+   * Leave a waitlist
+   * DELETE /api/waitlist/:id
+   */
+  async leaveWaitlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          message: "User not authenticated",
+          success: false
+        });
+        return;
+      }
+
+      const entryId = parseInt(req.params.id);
+
+      if (isNaN(entryId)) {
+        res.status(400).json({
+          message: "Invalid waitlist entry ID",
+          success: false
+        });
+        return;
+      }
+
+      await this.waitlistService.leave(entryId, req.user.id);
+
+      res.json({
+        message: "Left the waitlist successfully",
+        success: true
+      });
+    } catch (error) {
+      handleControllerError(error, res);
+    }
+  }
+}
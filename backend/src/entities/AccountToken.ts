@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type AccountTokenPurpose = "email_verification" | "password_reset";
+
+@Entity("account_tokens")
+@Index(["token_hash"], { unique: true }) // For redeeming a link
+@Index(["user_id", "purpose", "created_at"]) // For rate limiting and superseding a user's tokens
+export class AccountToken {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  @Column({ type: "varchar" })
+  purpose!: AccountTokenPurpose; // email_verification, password_reset
+
+  // SHA-256 of the token in the emailed link; the token itself is never stored
+  @Column({ length: 64 })
+  token_hash!: string;
+
+  @Column()
+  expires_at!: Date;
+
+  // Set when the link is used or superseded by a newer one
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  used_at?: Date | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest } from "./BorrowRequest";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type BorrowExtensionStatus = "pending" | "approved" | "declined" | "cancelled";
+
+@Entity("borrow_extensions")
+@Index(["borrow_request_id", "status"]) // For a request's open proposal
+export class BorrowExtension {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  borrow_request_id!: number;
+
+  @Column()
+  requested_by!: number;
+
+  @Column({ type: "date" })
+  previous_end_date!: string; // End date when the extension was proposed
+
+  @Column({ type: "date" })
+  requested_end_date!: string;
+
+  @Column({ nullable: true, length: 500 })
+  message?: string; // Borrower's reason
+
+  @Column({ type: "varchar", default: "pending" })
+  status!: BorrowExtensionStatus; // pending, approved, declined, cancelled
+
+  @Column({ nullable: true, length: 500 })
+  response_message?: string; // Owner's reply
+
+  @Column({ nullable: true })
+  responded_by?: number;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  responded_at?: Date;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => BorrowRequest, (request) => request.extensions, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "borrow_request_id" })
+  borrow_request?: BorrowRequest;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "requested_by" })
+  requester?: User;
+}
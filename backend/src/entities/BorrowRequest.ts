@@ -12,6 +12,13 @@ import {
 import { User } from "./User";
 import { Resource } from "./Resource";
 import { Review } from "./Review";
+import { BorrowRequestEvent } from "./BorrowRequestEvent";
+import { DepositLedgerEntry } from "./DepositLedgerEntry";
+import { DisputeCase } from "./DisputeCase";
+import { ConditionReport } from "./ConditionReport";
+import { BorrowExtension } from "./BorrowExtension";
+import { BorrowRequestGroup } from "./BorrowRequestGroup";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
 
 export type BorrowRequestStatus = 
   | "pending" 
@@ -28,6 +35,7 @@ export type BorrowRequestStatus =
 @Index(["resource_id"]) // For resource-specific queries
 @Index(["requester_id"]) // For user-specific queries
 @Index(["start_date", "end_date"]) // For date range queries
+@Index(["group_id"]) // For bundle and recurring requests
 export class BorrowRequest {
   @PrimaryGeneratedColumn()
   id!: number;
@@ -38,6 +46,9 @@ export class BorrowRequest {
   @Column()
   requester_id!: number;
 
+  @Column({ type: "integer", nullable: true })
+  group_id?: number | null; // Set when made as part of a bundle or recurrence
+
   // Request details
   @Column({ type: "date" })
   start_date!: Date;
@@ -55,7 +66,7 @@ export class BorrowRequest {
   response_message?: string; // Owner's response
 
   // Deposit and terms
-  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true })
+  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true, transformer: decimalTransformer })
   deposit_amount?: number;
 
   @Column({ default: false })
@@ -65,19 +76,19 @@ export class BorrowRequest {
   deposit_returned!: boolean;
 
   // Timing tracking
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   requested_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   responded_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   picked_up_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   returned_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   due_date?: Date;
 
   // Pickup/return details
@@ -100,7 +111,7 @@ export class BorrowRequest {
   @Column({ nullable: true, length: 1000 })
   issue_description?: string;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   issue_reported_at?: Date;
 
   @Column({ default: false })
@@ -125,6 +136,25 @@ export class BorrowRequest {
   @JoinColumn({ name: "requester_id" })
   requester?: User;
 
+  @ManyToOne(() => BorrowRequestGroup, (group) => group.requests, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "group_id" })
+  group?: BorrowRequestGroup;
+
   @OneToMany(() => Review, (review) => review.borrow_request)
   reviews?: Review[];
+
+  @OneToMany(() => BorrowRequestEvent, (event) => event.borrow_request)
+  events?: BorrowRequestEvent[];
+
+  @OneToMany(() => DepositLedgerEntry, (entry) => entry.borrow_request)
+  deposit_entries?: DepositLedgerEntry[];
+
+  @OneToMany(() => DisputeCase, (dispute) => dispute.borrow_request)
+  disputes?: DisputeCase[];
+
+  @OneToMany(() => ConditionReport, (report) => report.borrow_request)
+  condition_reports?: ConditionReport[];
+
+  @OneToMany(() => BorrowExtension, (extension) => extension.borrow_request)
+  extensions?: BorrowExtension[];
 }
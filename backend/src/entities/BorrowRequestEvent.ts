@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest, BorrowRequestStatus } from "./BorrowRequest";
+
+@Entity("borrow_request_events")
+@Index(["borrow_request_id", "created_at"]) // For a request's timeline
+export class BorrowRequestEvent {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  borrow_request_id!: number;
+
+  @Column({ nullable: true })
+  actor_id?: number; // Null when the system made the transition
+
+  @Column({ type: "varchar", nullable: true })
+  from_status?: BorrowRequestStatus; // Null for the creation event
+
+  @Column({ type: "varchar" })
+  to_status!: BorrowRequestStatus;
+
+  @Column({ nullable: true, length: 1000 })
+  note?: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => BorrowRequest, (request) => request.events, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "borrow_request_id" })
+  borrow_request?: BorrowRequest;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: "actor_id" })
+  actor?: User;
+}
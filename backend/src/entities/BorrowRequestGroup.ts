@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  OneToMany,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest } from "./BorrowRequest";
+
+export type RecurrenceFrequency = "weekly" | "monthly";
+
+/**
+ * Borrow requests made together: several resources from one owner (a bundle),
+ * the same dates repeated (a recurrence), or both. Each resource and occurrence
+ * is still its own BorrowRequest.
+ */
+@Entity("borrow_request_groups")
+@Index(["requester_id"])
+@Index(["owner_id"])
+export class BorrowRequestGroup {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  requester_id!: number;
+
+  @Column()
+  owner_id!: number;
+
+  @Column({ type: "varchar", nullable: true })
+  recurrence_frequency!: RecurrenceFrequency | null; // weekly, monthly, or null for a one-off bundle
+
+  @Column({ default: 1 })
+  occurrences!: number;
+
+  @Column({ nullable: true, length: 1000 })
+  message?: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "requester_id" })
+  requester?: User;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "owner_id" })
+  owner?: User;
+
+  @OneToMany(() => BorrowRequest, (request) => request.group)
+  requests?: BorrowRequest[];
+}
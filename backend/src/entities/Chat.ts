@@ -11,6 +11,7 @@ import {
 } from "typeorm";
 import { User } from "./User";
 import { Message } from "./Message";
+import { DATETIME_TYPE } from "./columnTypes";
 
 @Entity("chats")
 @Index(["user1_id", "user2_id"]) // For finding chats between two users
@@ -39,7 +40,7 @@ export class Chat {
   @Column({ nullable: true, length: 500 })
   last_message?: string;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   last_message_at?: Date;
 
   @Column({ nullable: true })
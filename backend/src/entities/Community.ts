@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  OneToMany
+} from "typeorm";
+import { User } from "./User";
+import { CommunityMembership } from "./CommunityMembership";
+import { LocationCoordinates } from "../types/resource";
+import { decimalTransformer } from "./columnTypes";
+
+// A named neighborhood; its area is a boundary polygon, or a centre and radius when there is no polygon
+@Entity("communities")
+export class Community {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ unique: true, length: 100 })
+  name!: string;
+
+  @Column({ nullable: true, length: 500 })
+  description?: string;
+
+  // Polygon vertices in order; the last one connects back to the first
+  @Column({ type: "json", nullable: true })
+  boundary?: LocationCoordinates[] | null;
+
+  @Column({ type: "decimal", precision: 10, scale: 8, nullable: true, transformer: decimalTransformer })
+  center_latitude?: number | null;
+
+  @Column({ type: "decimal", precision: 11, scale: 8, nullable: true, transformer: decimalTransformer })
+  center_longitude?: number | null;
+
+  @Column({ type: "decimal", precision: 6, scale: 2, nullable: true, transformer: decimalTransformer })
+  radius_km?: number | null;
+
+  @Column({ default: 0 })
+  member_count!: number;
+
+  @Column({ type: "integer", nullable: true })
+  created_by?: number | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "created_by" })
+  creator?: User;
+
+  @OneToMany(() => CommunityMembership, (membership) => membership.community)
+  memberships?: CommunityMembership[];
+}
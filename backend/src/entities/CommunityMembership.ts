@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { Community } from "./Community";
+
+@Entity("community_memberships")
+@Index(["community_id", "user_id"], { unique: true }) // One membership per user and community
+@Index(["user_id"]) // For a user's communities
+export class CommunityMembership {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  community_id!: number;
+
+  @Column()
+  user_id!: number;
+
+  @CreateDateColumn()
+  joined_at!: Date;
+
+  // Relations
+  @ManyToOne(() => Community, (community) => community.memberships, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "community_id" })
+  community?: Community;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
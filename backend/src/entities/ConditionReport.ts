@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest } from "./BorrowRequest";
+import { ConditionReportPhoto } from "./ConditionReportPhoto";
+import { ResourceCondition } from "../types/resource";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type ConditionReportStage = "pickup" | "return";
+
+export interface ConditionChecklistItem {
+  item: string; // e.g. "Battery charges", "No scratches on the lens"
+  ok: boolean;
+  note?: string;
+}
+
+@Entity("condition_reports")
+@Index(["borrow_request_id", "stage"], { unique: true }) // One report per handover
+export class ConditionReport {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  borrow_request_id!: number;
+
+  @Column({ type: "varchar" })
+  stage!: ConditionReportStage; // pickup, return
+
+  @Column({ type: "varchar" })
+  condition!: ResourceCondition; // excellent, good, fair, poor
+
+  @Column({ type: "json" })
+  checklist!: ConditionChecklistItem[];
+
+  @Column({ type: "varchar", nullable: true, length: 1000 })
+  notes?: string | null;
+
+  @Column()
+  created_by!: number;
+
+  @Column({ nullable: true })
+  updated_by?: number;
+
+  // Editing the report clears the other side's sign-off; it is final once both have signed
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  owner_signed_at?: Date | null;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  borrower_signed_at?: Date | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => BorrowRequest, (request) => request.condition_reports, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "borrow_request_id" })
+  borrow_request?: BorrowRequest;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "created_by" })
+  author?: User;
+
+  @OneToMany(() => ConditionReportPhoto, (photo) => photo.report)
+  photos?: ConditionReportPhoto[];
+}
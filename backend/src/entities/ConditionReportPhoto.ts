@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { ConditionReport } from "./ConditionReport";
+
+@Entity("condition_report_photos")
+@Index(["report_id"]) // For a report's photos
+export class ConditionReportPhoto {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  report_id!: number;
+
+  @Column()
+  uploaded_by!: number;
+
+  @Column({ length: 255 })
+  photo_filename!: string;
+
+  @Column({ length: 500 })
+  photo_url!: string;
+
+  @Column({ nullable: true })
+  file_size?: number;
+
+  @Column({ nullable: true, length: 50 })
+  mime_type?: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => ConditionReport, (report) => report.photos, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "report_id" })
+  report?: ConditionReport;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "uploaded_by" })
+  uploader?: User;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest } from "./BorrowRequest";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
+
+export type DepositEntryType = "hold" | "release" | "withhold" | "dispute";
+export type DepositEntryStatus = "pending" | "confirmed" | "rejected" | "resolved";
+
+@Entity("deposit_ledger_entries")
+@Index(["borrow_request_id", "created_at"]) // For a request's ledger
+export class DepositLedgerEntry {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  borrow_request_id!: number;
+
+  @Column({ type: "varchar" })
+  type!: DepositEntryType; // hold, release, withhold, dispute
+
+  @Column({ type: "decimal", precision: 8, scale: 2, transformer: decimalTransformer })
+  amount!: number;
+
+  // pending until both parties confirm; a dispute stays pending until a moderator resolves it
+  @Column({ type: "varchar", default: "pending" })
+  status!: DepositEntryStatus; // pending, confirmed, rejected, resolved
+
+  @Column({ nullable: true, length: 1000 })
+  reason?: string;
+
+  @Column({ nullable: true })
+  created_by?: number; // Null when the system created the entry
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  owner_confirmed_at?: Date;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  borrower_confirmed_at?: Date;
+
+  @Column({ nullable: true })
+  resolved_by?: number; // Moderator who settled a dispute or overruled a proposed settlement
+
+  @Column({ nullable: true, length: 255 })
+  provider_reference?: string; // Payment provider's id for the hold
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => BorrowRequest, (request) => request.deposit_entries, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "borrow_request_id" })
+  borrow_request?: BorrowRequest;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: "created_by" })
+  creator?: User;
+}
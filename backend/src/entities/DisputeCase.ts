@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { BorrowRequest } from "./BorrowRequest";
+import { DisputeStatement } from "./DisputeStatement";
+import { DisputeEvidence } from "./DisputeEvidence";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
+
+export type DisputeStatus = "open" | "under_review" | "resolved" | "withdrawn";
+
+export type DisputeOutcome = "owner_favoured" | "borrower_favoured" | "shared";
+
+@Entity("dispute_cases")
+@Index(["borrow_request_id"]) // For a request's cases
+@Index(["status", "created_at"]) // For the moderation queue
+export class DisputeCase {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  borrow_request_id!: number;
+
+  @Column()
+  opened_by!: number;
+
+  // open until both sides have given a statement, then under_review until a moderator decides
+  @Column({ type: "varchar", default: "open" })
+  status!: DisputeStatus; // open, under_review, resolved, withdrawn
+
+  @Column({ length: 1000 })
+  reason!: string;
+
+  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true, transformer: decimalTransformer })
+  claimed_amount?: number; // Deposit the owner asks to keep
+
+  @Column({ type: "varchar", nullable: true })
+  outcome?: DisputeOutcome; // owner_favoured, borrower_favoured, shared
+
+  @Column({ nullable: true, length: 1000 })
+  decision_notes?: string;
+
+  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true, transformer: decimalTransformer })
+  withheld_amount?: number; // Deposit the owner keeps by the decision
+
+  @Column({ nullable: true })
+  decided_by?: number;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  decided_at?: Date;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => BorrowRequest, (request) => request.disputes, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "borrow_request_id" })
+  borrow_request?: BorrowRequest;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "opened_by" })
+  opener?: User;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: "decided_by" })
+  moderator?: User;
+
+  @OneToMany(() => DisputeStatement, (statement) => statement.dispute)
+  statements?: DisputeStatement[];
+
+  @OneToMany(() => DisputeEvidence, (evidence) => evidence.dispute)
+  evidence?: DisputeEvidence[];
+}
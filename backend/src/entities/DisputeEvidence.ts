@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DisputeCase } from "./DisputeCase";
+import { DisputeParty } from "./DisputeStatement";
+
+@Entity("dispute_evidence")
+@Index(["dispute_id"]) // For a case's photos
+export class DisputeEvidence {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  dispute_id!: number;
+
+  @Column()
+  uploaded_by!: number;
+
+  @Column({ type: "varchar" })
+  party!: DisputeParty; // owner, borrower
+
+  @Column({ length: 255 })
+  photo_filename!: string;
+
+  @Column({ length: 500 })
+  photo_url!: string;
+
+  @Column({ nullable: true })
+  file_size?: number;
+
+  @Column({ nullable: true, length: 50 })
+  mime_type?: string;
+
+  @Column({ nullable: true, length: 255 })
+  caption?: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => DisputeCase, (dispute) => dispute.evidence, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "dispute_id" })
+  dispute?: DisputeCase;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "uploaded_by" })
+  uploader?: User;
+}
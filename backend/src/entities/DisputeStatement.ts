@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DisputeCase } from "./DisputeCase";
+
+export type DisputeParty = "owner" | "borrower";
+
+@Entity("dispute_statements")
+@Index(["dispute_id", "created_at"]) // For a case's statements in order
+export class DisputeStatement {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  dispute_id!: number;
+
+  @Column()
+  author_id!: number;
+
+  @Column({ type: "varchar" })
+  party!: DisputeParty; // owner, borrower
+
+  @Column({ length: 2000 })
+  body!: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => DisputeCase, (dispute) => dispute.statements, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "dispute_id" })
+  dispute?: DisputeCase;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "author_id" })
+  author?: User;
+}
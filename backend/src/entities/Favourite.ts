@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { Resource } from "./Resource";
+
+@Entity("favourites")
+@Index(["user_id", "resource_id"], { unique: true }) // One bookmark per user and resource
+@Index(["resource_id", "notify_when_available"]) // For alerting when an item is back
+export class Favourite {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  @Column()
+  resource_id!: number;
+
+  // Set when favourited while unavailable; cleared once the user has been told it is back
+  @Column({ default: false })
+  notify_when_available!: boolean;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+
+  @ManyToOne(() => Resource, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "resource_id" })
+  resource?: Resource;
+}
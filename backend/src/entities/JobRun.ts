@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index
+} from "typeorm";
+import { JobRunStatus } from "./ScheduledJob";
+import { DATETIME_TYPE } from "./columnTypes";
+
+@Entity("job_runs")
+@Index(["job_name"]) // For the history of a single job
+@Index(["started_at"]) // For sorting and pruning by date
+export class JobRun {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ length: 100 })
+  job_name!: string;
+
+  @Column({ type: "varchar", default: "running" })
+  status!: JobRunStatus; // running, success, failed
+
+  @Column({ default: "schedule" })
+  trigger!: string; // schedule, manual
+
+  @Column({ nullable: true })
+  triggered_by?: number; // Admin who triggered a manual run
+
+  @Column({ type: DATETIME_TYPE })
+  started_at!: Date;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  finished_at?: Date;
+
+  @Column({ nullable: true })
+  duration_ms?: number;
+
+  @Column({ type: "json", nullable: true })
+  result?: Record<string, number>; // Counts reported by the job, e.g. { processed: 3 }
+
+  @Column({ nullable: true, length: 1000 })
+  error?: string;
+}
@@ -0,0 +1,99 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { LocationVouch } from "./LocationVouch";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
+
+export type LocationVerificationMethodName = "postal_code" | "neighbor_vouch" | "admin_review";
+
+export type LocationVerificationStatus = "pending" | "verified" | "failed" | "expired" | "cancelled";
+
+@Entity("location_verifications")
+@Index(["user_id", "status"]) // For a user's open verification
+@Index(["method", "status", "latitude", "longitude"]) // For vouch requests near a neighbor
+@Index(["status", "expires_at"]) // For expiring stale verifications
+export class LocationVerification {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  @Column({ type: "varchar" })
+  method!: LocationVerificationMethodName; // postal_code, neighbor_vouch, admin_review
+
+  @Column({ type: "varchar", default: "pending" })
+  status!: LocationVerificationStatus; // pending, verified, failed, expired, cancelled
+
+  // The location being verified, as it was when the verification started
+  @Column({ nullable: true, length: 255 })
+  address?: string;
+
+  @Column({ type: "decimal", precision: 10, scale: 8, transformer: decimalTransformer })
+  latitude!: number;
+
+  @Column({ type: "decimal", precision: 11, scale: 8, transformer: decimalTransformer })
+  longitude!: number;
+
+  // Hash of the mailed code (postal_code only); never sent to clients
+  @Column({ type: "varchar", nullable: true })
+  code_hash?: string | null;
+
+  // Wrong proofs so far; the verification fails once attempts reach max_attempts
+  @Column({ default: 0 })
+  attempts!: number;
+
+  @Column({ type: "integer", nullable: true })
+  max_attempts?: number | null;
+
+  // Vouches still needed while pending (neighbor_vouch only)
+  @Column({ type: "integer", nullable: true })
+  required_vouches?: number | null;
+
+  @Column({ default: 0 })
+  vouch_count!: number;
+
+  // What the user tells the reviewer (admin_review only)
+  @Column({ type: "varchar", nullable: true, length: 500 })
+  note?: string | null;
+
+  @Column({ type: "integer", nullable: true })
+  reviewed_by?: number | null;
+
+  @Column({ type: "varchar", nullable: true, length: 500 })
+  review_note?: string | null;
+
+  @Column({ type: DATETIME_TYPE })
+  expires_at!: Date;
+
+  // When the verification left pending, whatever the outcome
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  completed_at?: Date | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "reviewed_by" })
+  reviewer?: User;
+
+  @OneToMany(() => LocationVouch, (vouch) => vouch.verification)
+  vouches?: LocationVouch[];
+}
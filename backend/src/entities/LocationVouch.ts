@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { LocationVerification } from "./LocationVerification";
+
+@Entity("location_vouches")
+@Index(["verification_id", "voucher_id"], { unique: true }) // One vouch per neighbor and verification
+@Index(["voucher_id"]) // For requests a neighbor has already answered
+export class LocationVouch {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  verification_id!: number;
+
+  @Column()
+  voucher_id!: number;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => LocationVerification, (verification) => verification.vouches, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "verification_id" })
+  verification?: LocationVerification;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "voucher_id" })
+  voucher?: User;
+}
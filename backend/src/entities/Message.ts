@@ -10,6 +10,7 @@ import {
 } from "typeorm";
 import { Chat } from "./Chat";
 import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
 
 @Entity("messages")
 @Index(["chat_id"]) // For efficient message queries per chat
@@ -49,19 +50,19 @@ export class Message {
   @Column({ default: false })
   is_read!: boolean;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   read_at?: Date;
 
   @Column({ default: false })
   is_edited!: boolean;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   edited_at?: Date;
 
   @Column({ default: false })
   is_deleted!: boolean;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   deleted_at?: Date;
 
   // Reply functionality
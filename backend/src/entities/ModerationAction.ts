@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+
+export type ModerationTargetType = "review" | "user" | "resource" | "borrow_request" | "dispute";
+
+export type ModerationActionType =
+  | "hide"
+  | "show"
+  | "verify"
+  | "suspend"
+  | "reinstate"
+  | "deactivate"
+  | "reactivate"
+  | "resolve"
+  | "decide";
+
+@Entity("moderation_actions")
+@Index(["target_type", "target_id"]) // For the history of a single target
+@Index(["moderator_id"]) // For actions taken by a specific moderator
+@Index(["created_at"]) // For sorting by date
+export class ModerationAction {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  moderator_id!: number;
+
+  @Column()
+  target_type!: ModerationTargetType; // review, user, resource, borrow_request, dispute
+
+  @Column()
+  target_id!: number;
+
+  @Column()
+  action!: ModerationActionType; // hide, show, verify, suspend, reinstate, deactivate, reactivate, resolve, decide
+
+  @Column({ length: 500 })
+  reason!: string;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "moderator_id" })
+  moderator?: User;
+}
@@ -9,6 +9,7 @@ import {
   Index
 } from "typeorm";
 import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
 
 @Entity("notifications")
 @Index(["user_id"]) // For getting notifications for a specific user
@@ -36,7 +37,7 @@ export class Notification {
   @Column({ default: false })
   is_read!: boolean;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   read_at?: Date;
 
   @Column({ default: "normal" })
@@ -78,24 +79,24 @@ export class Notification {
   @Column({ default: false })
   is_sms_sent!: boolean;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   push_sent_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   email_sent_at?: Date;
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   sms_sent_at?: Date;
 
   // Scheduling
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   scheduled_for?: Date; // For delayed notifications
 
   @Column({ default: false })
   is_sent!: boolean;
 
   // Expiration
-  @Column({ type: "datetime", nullable: true })
+  @Column({ type: DATETIME_TYPE, nullable: true })
   expires_at?: Date; // When notification becomes irrelevant
 
   @CreateDateColumn()
@@ -12,6 +12,10 @@ import {
 import { User } from "./User";
 import { ResourcePhoto } from "./ResourcePhoto";
 import { BorrowRequest } from "./BorrowRequest";
+import { ResourceBlackout } from "./ResourceBlackout";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
+
+export type ResourceVisibility = "public" | "communities";
 
 @Entity("resources")
 @Index(["category"]) // For category filtering
@@ -31,7 +35,7 @@ export class Resource {
   category!: string; // Tools, Books, Furniture, Electronics, Sports, etc.
 
   // Condition and value
-  @Column({ type: "decimal", precision: 10, scale: 2, nullable: true })
+  @Column({ type: "decimal", precision: 10, scale: 2, nullable: true, transformer: decimalTransformer })
   estimated_value?: number;
 
   @Column({ default: "good" })
@@ -42,12 +46,12 @@ export class Resource {
 
   // Availability and borrowing terms
   @Column({ default: true })
-  is_available!: boolean;
+  is_available!: boolean; // Owner's listing switch; date availability comes from the calendar
 
   @Column({ nullable: true })
   max_borrow_days?: number; // Maximum days item can be borrowed
 
-  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true })
+  @Column({ type: "decimal", precision: 8, scale: 2, nullable: true, transformer: decimalTransformer })
   deposit_required?: number;
 
   @Column({ default: false })
@@ -79,7 +83,10 @@ export class Resource {
   @Column({ default: 0 })
   borrow_count!: number;
 
-  @Column({ type: "decimal", precision: 3, scale: 2, default: 0 })
+  @Column({ default: 0 })
+  favourite_count!: number;
+
+  @Column({ type: "decimal", precision: 3, scale: 2, default: 0, transformer: decimalTransformer })
   average_rating!: number;
 
   @Column({ default: 0 })
@@ -89,7 +96,10 @@ export class Resource {
   @Column({ default: "active" })
   status!: string; // active, borrowed, maintenance, inactive
 
-  @Column({ type: "datetime", nullable: true })
+  @Column({ default: "public" })
+  visibility!: ResourceVisibility; // public, or only the communities in resource_communities
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
   last_borrowed?: Date;
 
   @Column()
@@ -111,4 +121,7 @@ export class Resource {
 
   @OneToMany(() => BorrowRequest, (request) => request.resource)
   borrow_requests?: BorrowRequest[];
+
+  @OneToMany(() => ResourceBlackout, (blackout) => blackout.resource)
+  blackouts?: ResourceBlackout[];
 }
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { Resource } from "./Resource";
+
+@Entity("resource_blackouts")
+@Index(["resource_id", "start_date", "end_date"]) // For calendar range queries
+export class ResourceBlackout {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  resource_id!: number;
+
+  // Both ends are inclusive, like borrow request dates
+  @Column({ type: "date" })
+  start_date!: string;
+
+  @Column({ type: "date" })
+  end_date!: string;
+
+  @Column({ nullable: true, length: 255 })
+  reason?: string; // Shown to the owner only
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => Resource, (resource) => resource.blackouts, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "resource_id" })
+  resource?: Resource;
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { Resource } from "./Resource";
+import { Community } from "./Community";
+
+// A community a resource with "communities" visibility is shown to
+@Entity("resource_communities")
+@Index(["resource_id", "community_id"], { unique: true })
+@Index(["community_id"]) // For browsing a community
+export class ResourceCommunity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  resource_id!: number;
+
+  @Column()
+  community_id!: number;
+
+  // Relations
+  @ManyToOne(() => Resource, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "resource_id" })
+  resource?: Resource;
+
+  @ManyToOne(() => Community, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "community_id" })
+  community?: Community;
+}
@@ -10,6 +10,7 @@ import {
 } from "typeorm";
 import { User } from "./User";
 import { BorrowRequest } from "./BorrowRequest";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
 
 @Entity("reviews")
 @Index(["reviewee_id"]) // For getting reviews for a specific user
@@ -30,23 +31,23 @@ export class Review {
     borrow_request_id?: number; // The transaction being reviewed (optional for general reviews)
 
     // Rating and feedback
-    @Column({ type: "decimal", precision: 2, scale: 1 })
+    @Column({ type: "decimal", precision: 2, scale: 1, transformer: decimalTransformer })
     rating!: number; // 1.0 to 5.0
 
     @Column({ nullable: true, length: 1000 })
     comment?: string;
 
     // Review categories for detailed feedback
-    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true })
+    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true, transformer: decimalTransformer })
     communication_rating?: number;
 
-    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true })
+    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true, transformer: decimalTransformer })
     reliability_rating?: number;
 
-    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true })
+    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true, transformer: decimalTransformer })
     item_condition_rating?: number; // For item owner reviews
 
-    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true })
+    @Column({ type: "decimal", precision: 2, scale: 1, nullable: true, transformer: decimalTransformer })
     care_rating?: number; // For borrower reviews (how well they took care of item)
 
     // Review type and context
@@ -69,7 +70,7 @@ export class Review {
     @Column({ default: false })
     is_hidden!: boolean; // Hidden by admin
 
-    @Column({ type: "datetime", nullable: true })
+    @Column({ type: DATETIME_TYPE, nullable: true })
     moderated_at?: Date;
 
     @Column({ nullable: true })
@@ -79,7 +80,7 @@ export class Review {
     @Column({ nullable: true, length: 1000 })
     response?: string;
 
-    @Column({ type: "datetime", nullable: true })
+    @Column({ type: DATETIME_TYPE, nullable: true })
     response_at?: Date;
 
     // Helpful votes (community feedback on review quality)
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { SavedSearchFilters } from "../types/resource";
+import { DATETIME_TYPE } from "./columnTypes";
+
+@Entity("saved_searches")
+@Index(["user_id"]) // For a user's saved searches
+@Index(["alerts_enabled"]) // For matching new listings
+export class SavedSearch {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  @Column({ length: 100 })
+  name!: string;
+
+  @Column({ type: "json" })
+  filters!: SavedSearchFilters;
+
+  @Column({ default: true })
+  alerts_enabled!: boolean;
+
+  // Throttle: at most one alert per this many hours; matches in between are counted
+  @Column({ default: 1 })
+  alert_interval_hours!: number;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  last_notified_at?: Date | null;
+
+  @Column({ default: 0 })
+  suppressed_matches!: number; // Matches since the last alert that were not notified
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
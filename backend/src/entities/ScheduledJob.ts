@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn
+} from "typeorm";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type JobRunStatus = "running" | "success" | "failed";
+
+@Entity("scheduled_jobs")
+export class ScheduledJob {
+  @PrimaryColumn({ length: 100 })
+  name!: string;
+
+  @Column()
+  interval_ms!: number;
+
+  // Last run state
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  last_run_at?: Date;
+
+  @Column({ nullable: true })
+  last_status?: JobRunStatus; // running, success, failed
+
+  @Column({ nullable: true })
+  last_duration_ms?: number;
+
+  @Column({ type: "varchar", nullable: true, length: 1000 })
+  last_error?: string | null;
+
+  @Column({ default: 0 })
+  run_count!: number;
+
+  @Column({ default: 0 })
+  failure_count!: number;
+
+  // Lock held while a run is in progress; expires so a crashed run cannot block forever
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  locked_until?: Date | null;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+}
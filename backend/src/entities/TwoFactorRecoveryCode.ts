@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
+
+@Entity("two_factor_recovery_codes")
+@Index(["user_id", "used_at"]) // For a user's unused codes
+export class TwoFactorRecoveryCode {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  // bcrypt hash; the code itself is shown to the user once
+  @Column({ length: 100 })
+  code_hash!: string;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  used_at?: Date | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
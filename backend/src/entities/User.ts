@@ -13,6 +13,9 @@ import { Chat } from "./Chat";
 import { Message } from "./Message";
 import { Review } from "./Review";
 import { Notification } from "./Notification";
+import { DATETIME_TYPE, decimalTransformer } from "./columnTypes";
+
+export type UserRole = "member" | "moderator" | "admin";
 
 @Entity("users")
 @Index(["latitude", "longitude"]) // For location-based queries
@@ -36,10 +39,10 @@ export class User {
   @Column({ nullable: true, length: 255 })
   address?: string;
 
-  @Column({ type: "decimal", precision: 10, scale: 8, nullable: true })
+  @Column({ type: "decimal", precision: 10, scale: 8, nullable: true, transformer: decimalTransformer })
   latitude?: number;
 
-  @Column({ type: "decimal", precision: 11, scale: 8, nullable: true })
+  @Column({ type: "decimal", precision: 11, scale: 8, nullable: true, transformer: decimalTransformer })
   longitude?: number;
 
   @Column({ nullable: true, length: 100 })
@@ -68,15 +71,20 @@ export class User {
   @Column({ default: "pending" })
   verification_status!: string; // pending, verified, suspended
 
-  // Authentication
-  @Column({ nullable: true, length: 500 })
-  refresh_token?: string;
+  // Access control
+  @Column({ default: "member" })
+  role!: UserRole; // member, moderator, admin
 
-  @Column({ type: "datetime", nullable: true })
+  // Authentication
+  @Column({ type: DATETIME_TYPE, nullable: true })
   last_login?: Date;
 
+  // Login asks for an authenticator code after the password (see UserTwoFactor)
+  @Column({ default: false })
+  two_factor_enabled!: boolean;
+
   // Rating system
-  @Column({ type: "decimal", precision: 3, scale: 2, default: 0 })
+  @Column({ type: "decimal", precision: 3, scale: 2, default: 0, transformer: decimalTransformer })
   average_rating!: number;
 
   @Column({ default: 0 })
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type SessionRevokeReason =
+  | "logout"
+  | "signed_out_remotely"
+  | "signed_out_everywhere"
+  | "token_reuse"
+  | "password_changed"
+  | "password_reset";
+
+/**
+ * One signed-in device. Its refresh token is rotated on every refresh, so the
+ * session is the token family: replaying a rotated token revokes the session.
+ */
+@Entity("user_sessions")
+@Index(["user_id", "revoked_at"]) // For a user's active sessions
+@Index(["expires_at"]) // For purging old sessions
+export class UserSession {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  // SHA-256 of the only refresh token currently valid for this session
+  @Column({ length: 64 })
+  refresh_token_hash!: string;
+
+  // Readable device label derived from the user agent, e.g. "Firefox on Windows"
+  @Column({ length: 100 })
+  device!: string;
+
+  @Column({ type: "varchar", length: 500, nullable: true })
+  user_agent?: string | null;
+
+  @Column({ type: "varchar", length: 45, nullable: true })
+  ip_address?: string | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  // Last time the session refreshed its tokens
+  @Column()
+  last_used_at!: Date;
+
+  // Moves forward with every rotation, like the refresh token's own expiry
+  @Column()
+  expires_at!: Date;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  revoked_at?: Date | null;
+
+  @Column({ type: "varchar", nullable: true })
+  revoked_reason?: SessionRevokeReason | null;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { DATETIME_TYPE } from "./columnTypes";
+
+/**
+ * A user's TOTP authenticator. Kept apart from User so the secret never
+ * travels with user objects returned by the API.
+ */
+@Entity("user_two_factor")
+@Index(["user_id"], { unique: true })
+export class UserTwoFactor {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  user_id!: number;
+
+  // TOTP secret encrypted with the configured key (see utils/secretBox)
+  @Column({ length: 255 })
+  secret_encrypted!: string;
+
+  // Null while the user is still setting up their authenticator
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  enabled_at?: Date | null;
+
+  // Time step of the last accepted code, so a code cannot be used twice
+  @Column({ type: "integer", nullable: true })
+  last_used_step?: number | null;
+
+  // Wrong codes in a row; reaching the limit locks code checks until locked_until
+  @Column({ default: 0 })
+  failed_attempts!: number;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  locked_until?: Date | null;
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @OneToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
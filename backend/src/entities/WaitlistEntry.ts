@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from "typeorm";
+import { User } from "./User";
+import { Resource } from "./Resource";
+import { DATETIME_TYPE } from "./columnTypes";
+
+export type WaitlistStatus = "waiting" | "offered" | "fulfilled" | "expired" | "cancelled";
+
+@Entity("waitlist_entries")
+@Index(["resource_id", "status", "created_at"]) // For finding the next person in line
+@Index(["user_id", "status"]) // For a user's waitlist
+export class WaitlistEntry {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  resource_id!: number;
+
+  @Column()
+  user_id!: number;
+
+  // Dates the user wants; null means any time the item frees up
+  @Column({ type: "date", nullable: true })
+  start_date?: string | null;
+
+  @Column({ type: "date", nullable: true })
+  end_date?: string | null;
+
+  @Column({ type: "varchar", default: "waiting" })
+  status!: WaitlistStatus; // waiting, offered, fulfilled, expired, cancelled
+
+  // Set while status is offered: the freed dates held for this user and until when
+  @Column({ type: "date", nullable: true })
+  hold_start_date?: string | null;
+
+  @Column({ type: "date", nullable: true })
+  hold_end_date?: string | null;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  hold_expires_at?: Date | null;
+
+  @Column({ type: DATETIME_TYPE, nullable: true })
+  offered_at?: Date | null;
+
+  @Column({ nullable: true })
+  borrow_request_id?: number; // Request that fulfilled the entry
+
+  @CreateDateColumn()
+  created_at!: Date;
+
+  @UpdateDateColumn()
+  updated_at!: Date;
+
+  // Relations
+  @ManyToOne(() => Resource, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "resource_id" })
+  resource?: Resource;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: "user_id" })
+  user?: User;
+}
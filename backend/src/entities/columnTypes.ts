@@ -0,0 +1,15 @@
+import { ValueTransformer } from "typeorm";
+import { databaseConfig } from "../config/databaseConfig";
+
+/**
+ * Column types that differ between the supported engines
+ */
+
+// SQLite has no timestamp type and Postgres no datetime; timestamptz keeps instants exact whatever the server's zone
+export const DATETIME_TYPE = databaseConfig.type === "postgres" ? "timestamptz" : "datetime";
+
+// Postgres returns decimals as strings to keep their precision; the app works with numbers
+export const decimalTransformer: ValueTransformer = {
+  to: (value) => value,
+  from: (value) => (value === null || value === undefined ? value : Number(value))
+};
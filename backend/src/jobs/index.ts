@@ -0,0 +1,94 @@
+import { jobConfig } from "../config/jobs";
+import { JobScheduler } from "../services/JobScheduler";
+import { NotificationManager } from "../services/NotificationManager";
+import { PhotoService } from "../services/PhotoService";
+import { BorrowRequestService } from "../services/BorrowRequestService";
+import { WaitlistService } from "../services/WaitlistService";
+import { LocationVerificationService } from "../services/LocationVerificationService";
+import { SessionService } from "../services/SessionService";
+
+/**
+ * Register the application's recurring background jobs
+ */
+export const registerDefaultJobs = (
+  scheduler: JobScheduler,
+  notificationManager: NotificationManager
+): void => {
+  const photoService = new PhotoService();
+  const borrowRequestService = new BorrowRequestService();
+  const waitlistService = new WaitlistService();
+  const locationVerificationService = new LocationVerificationService();
+  const sessionService = new SessionService();
+
+  scheduler.register({
+    name: "scheduled-notifications",
+    description: "Deliver notifications whose scheduled time has passed",
+    intervalMs: jobConfig.intervals.scheduledNotifications,
+    handler: async () => ({
+      sent: await notificationManager.processScheduledNotifications()
+    })
+  });
+
+  scheduler.register({
+    name: "overdue-requests",
+    description: "Mark active borrow requests past their due date as overdue and notify both parties",
+    intervalMs: jobConfig.intervals.overdueRequests,
+    handler: async () => ({
+      marked_overdue: await notificationManager.sendOverdueReminders()
+    })
+  });
+
+  scheduler.register({
+    name: "complete-returned-requests",
+    description: "Complete returned borrow requests that have no open issues",
+    intervalMs: jobConfig.intervals.completeReturnedRequests,
+    handler: async () => ({
+      completed: await borrowRequestService.completeReturnedRequests(jobConfig.autoCompleteAfterDays)
+    })
+  });
+
+  scheduler.register({
+    name: "expire-waitlist-holds",
+    description: "Expire waitlist offers nobody took up and offer the dates to the next person",
+    intervalMs: jobConfig.intervals.expireWaitlistHolds,
+    handler: async () => ({
+      expired: await waitlistService.expireHolds()
+    })
+  });
+
+  scheduler.register({
+    name: "expire-location-verifications",
+    description: "Expire location verifications that were not completed in time",
+    intervalMs: jobConfig.intervals.expireLocationVerifications,
+    handler: async () => ({
+      expired: await locationVerificationService.expireStale()
+    })
+  });
+
+  scheduler.register({
+    name: "purge-sessions",
+    description: "Delete sessions that expired or were signed out a while ago",
+    intervalMs: jobConfig.intervals.purgeSessions,
+    handler: async () => ({
+      deleted: await sessionService.purgeOld()
+    })
+  });
+
+  scheduler.register({
+    name: "expired-notifications",
+    description: "Delete notifications past their expiry date",
+    intervalMs: jobConfig.intervals.expiredNotifications,
+    handler: async () => ({
+      deleted: await notificationManager.cleanupExpiredNotifications()
+    })
+  });
+
+  scheduler.register({
+    name: "orphaned-photos",
+    description: "Remove photo records and files that no longer belong to a resource",
+    intervalMs: jobConfig.intervals.orphanedPhotos,
+    handler: async () => ({
+      deleted: await photoService.cleanupOrphanedPhotos()
+    })
+  });
+};
@@ -1,8 +1,12 @@
 import { Response, NextFunction } from "express";
 import { AppDataSource } from "../config/database";
-import { User } from "../entities/User";
+import { locationVerificationConfig } from "../config/verification";
+import { User, UserRole } from "../entities/User";
 import { AuthenticatedRequest, ApiResponse } from "../types/auth";
 import { JWTService } from "../utils/jwt";
+import { SessionService } from "../services/SessionService";
+
+const sessionService = new SessionService();
 
 /**
  * Middleware to authenticate requests using JWT tokens
@@ -60,8 +64,27 @@ export const authenticateToken = async (
       return;
     }
 
-    // Attach user to request object
+    // Suspended accounts keep their data but lose API access
+    if (user.verification_status === "suspended") {
+      res.status(403).json({
+        message: "Account is suspended",
+        success: false
+      });
+      return;
+    }
+
+    // Tokens stop working as soon as their session is signed out
+    if (!decoded.sid || !(await sessionService.isActive(decoded.sid, user.id))) {
+      res.status(401).json({
+        message: "Session has ended, please sign in again",
+        success: false
+      });
+      return;
+    }
+
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = decoded.sid;
     next();
 
   } catch (error: any) {
@@ -98,8 +121,15 @@ export const optionalAuth = async (
         where: { id: decoded.id }
       });
 
-      if (user && user.is_active) {
+      if (
+        user &&
+        user.is_active &&
+        user.verification_status !== "suspended" &&
+        decoded.sid &&
+        (await sessionService.isActive(decoded.sid, user.id))
+      ) {
         req.user = user;
+        req.sessionId = decoded.sid;
       }
     } catch (error) {
       // Token invalid, continue without user
@@ -168,3 +198,50 @@ export const requireLocationVerified = (
 
   next();
 };
+
+/**
+ * requireLocationVerified when REQUIRE_VERIFIED_LOCATION is on; lets everyone through otherwise
+ * Should be used after authenticateToken
+ */
+export const requireLocationVerifiedIfEnforced = (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!locationVerificationConfig.required) {
+    next();
+    return;
+  }
+
+  requireLocationVerified(req, res, next);
+};
+
+/**
+ * Middleware factory to restrict a route to users holding one of the given roles
+ * Should be used after authenticateToken
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): void => {
+    if (!req.user) {
+      res.status(401).json({
+        message: "Authentication required",
+        success: false
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        message: "Insufficient permissions",
+        success: false
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from "express";
-import { ValidationError, NotFoundError, UnauthorizedError, ConflictError } from "../utils/errors";
+import { ValidationError, NotFoundError, UnauthorizedError, ConflictError, TooManyRequestsError } from "../utils/errors";
 
 export interface ErrorResponse {
   success: false;
@@ -65,6 +65,18 @@ export const errorHandler = (
       message: error.message,
       code: "CONFLICT"
     };
+  } else if (error instanceof TooManyRequestsError) {
+    statusCode = 429;
+    errorResponse = {
+      success: false,
+      error: "Too Many Requests",
+      message: error.message,
+      code: "TOO_MANY_REQUESTS"
+    };
+
+    if (error.retryAfterSeconds) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+    }
   } else if (error.name === "MulterError") {
     // Handle file upload errors
     statusCode = 400;
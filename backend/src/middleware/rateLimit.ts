@@ -0,0 +1,51 @@
+import { Response, NextFunction } from "express";
+import { rateLimitConfig, RateLimitRuleName } from "../config/rateLimits";
+import { getRateLimitStore } from "../services/RateLimitStore";
+import { AuthenticatedRequest } from "../types/auth";
+import { ServiceUnavailableError, TooManyRequestsError, handleControllerError } from "../utils/errors";
+
+/**
+ * Middleware limiting how often a client may call a route, using the named rule from the rate limit config
+ * Rules keyed by user must come after authenticateToken; routes sharing a rule share one budget
+ */
+export const rateLimit = (ruleName: RateLimitRuleName) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!rateLimitConfig.enabled) {
+      next();
+      return;
+    }
+
+    const rule = rateLimitConfig.rules[ruleName];
+    const client = rule.keyBy === "user" && req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+
+    let hits;
+    try {
+      hits = await getRateLimitStore().increment(`${ruleName}:${client}`, rule.windowMs);
+    } catch (error) {
+      console.error(`Rate limit store failed for ${ruleName}:`, error);
+
+      // An unreachable store must not take the API down with it, except where the limit guards against guessing
+      if (rule.failClosed) {
+        handleControllerError(new ServiceUnavailableError(), res);
+      } else {
+        next();
+      }
+      return;
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((hits.resetAt.getTime() - Date.now()) / 1000));
+
+    res.set({
+      "RateLimit-Limit": String(rule.max),
+      "RateLimit-Remaining": String(Math.max(0, rule.max - hits.count)),
+      "RateLimit-Reset": String(resetSeconds)
+    });
+
+    if (hits.count > rule.max) {
+      handleControllerError(new TooManyRequestsError(undefined, resetSeconds), res);
+      return;
+    }
+
+    next();
+  };
+};
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import { appConfig } from "../config/app";
 import { 
   ValidationError,
   validateRequired,
@@ -12,6 +13,7 @@ import {
   RESOURCE_CATEGORIES,
   RESOURCE_CONDITIONS,
   RESOURCE_STATUSES,
+  RESOURCE_VISIBILITIES,
   RESOURCE_VALIDATION
 } from "../types/resource";
 
@@ -166,6 +168,11 @@ export class ValidationMiddleware {
         field: 'pickup_required',
         type: 'boolean'
       },
+      {
+        field: 'visibility',
+        type: 'string',
+        enum: RESOURCE_VISIBILITIES
+      },
       {
         field: 'available_days',
         type: 'array',
@@ -220,6 +227,11 @@ export class ValidationMiddleware {
       {
         field: 'is_available',
         type: 'boolean'
+      },
+      {
+        field: 'visibility',
+        type: 'string',
+        enum: RESOURCE_VISIBILITIES
       }
     ]);
   }
@@ -254,7 +266,7 @@ export class ValidationMiddleware {
       {
         field: 'sort_by',
         type: 'string',
-        enum: ['created_at', 'title', 'estimated_value', 'views_count', 'average_rating'] as const
+        enum: ['created_at', 'title', 'estimated_value', 'views_count', 'average_rating', 'distance', 'relevance'] as const
       },
       {
         field: 'sort_order',
@@ -271,6 +283,25 @@ export class ValidationMiddleware {
         type: 'number',
         min: 0
       },
+      {
+        field: 'max_deposit',
+        type: 'number',
+        min: 0
+      },
+      {
+        field: 'owner_id',
+        type: 'number',
+        min: 1
+      },
+      {
+        field: 'community_id',
+        type: 'number',
+        min: 1
+      },
+      {
+        field: 'my_communities',
+        type: 'boolean'
+      },
       {
         field: 'latitude',
         type: 'number',
@@ -335,15 +366,17 @@ export class ValidationMiddleware {
           throw new ValidationError('At least one photo file is required');
         }
         
-        if (files.length > 10) {
-          throw new ValidationError('Maximum 10 photos allowed per upload');
+        const { maxFiles, maxFileSizeBytes, maxFileSizeMb } = appConfig.uploads;
+
+        if (files.length > maxFiles) {
+          throw new ValidationError(`Maximum ${maxFiles} photos allowed per upload`);
         }
         
         // Validate each file
         for (const file of files) {
-          // File size validation (10MB max)
-          if (file.size > 10 * 1024 * 1024) {
-            throw new ValidationError(`File ${file.originalname} exceeds 10MB size limit`);
+          // File size validation
+          if (file.size > maxFileSizeBytes) {
+            throw new ValidationError(`File ${file.originalname} exceeds ${maxFileSizeMb}MB size limit`);
           }
           
           // File type validation
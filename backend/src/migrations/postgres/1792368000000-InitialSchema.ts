@@ -0,0 +1,311 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * The full schema for a new Postgres database; SQLite databases reach the same schema through their own migrations
+ */
+export class InitialSchema1792368000000 implements MigrationInterface {
+  name = "InitialSchema1792368000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "resource_photos" ("id" SERIAL NOT NULL, "resource_id" integer NOT NULL, "photo_url" character varying(500) NOT NULL, "photo_filename" character varying(255), "is_primary" boolean NOT NULL DEFAULT false, "alt_text" character varying(255), "file_size" integer, "mime_type" character varying(10), "width" integer, "height" integer, "display_order" integer NOT NULL DEFAULT '0', "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d39070b95b3f9c70c36a363db2f" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_26d44235f2ba164593c26b4a19" ON "resource_photos" ("resource_id")`);
+    await queryRunner.query(`CREATE TABLE "reviews" ("id" SERIAL NOT NULL, "reviewer_id" integer NOT NULL, "reviewee_id" integer NOT NULL, "borrow_request_id" integer, "rating" numeric(2,1) NOT NULL, "comment" character varying(1000), "communication_rating" numeric(2,1), "reliability_rating" numeric(2,1), "item_condition_rating" numeric(2,1), "care_rating" numeric(2,1), "review_type" character varying NOT NULL, "is_anonymous" boolean NOT NULL DEFAULT false, "is_verified" boolean NOT NULL DEFAULT false, "is_flagged" boolean NOT NULL DEFAULT false, "flag_reason" character varying(500), "is_hidden" boolean NOT NULL DEFAULT false, "moderated_at" TIMESTAMP WITH TIME ZONE, "moderated_by" integer, "response" character varying(1000), "response_at" TIMESTAMP WITH TIME ZONE, "helpful_votes" integer NOT NULL DEFAULT '0', "total_votes" integer NOT NULL DEFAULT '0', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_231ae565c273ee700b283f15c1d" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_f4b88c05a7adf404a6e6b2f1eb" ON "reviews" ("rating")`);
+    await queryRunner.query(`CREATE INDEX "IDX_02e0591342cece4bafe0b02c2a" ON "reviews" ("borrow_request_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_92e950a2513a79bb3fab273c92" ON "reviews" ("reviewer_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_a7b3e1afadd6b52f3b6864745e" ON "reviews" ("reviewee_id")`);
+    await queryRunner.query(`CREATE TABLE "borrow_request_events" ("id" SERIAL NOT NULL, "borrow_request_id" integer NOT NULL, "actor_id" integer, "from_status" character varying, "to_status" character varying NOT NULL, "note" character varying(1000), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_5525a60bafe36c1353edacb21a5" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_5d43b982d0e41515b61bef2706" ON "borrow_request_events" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "deposit_ledger_entries" ("id" SERIAL NOT NULL, "borrow_request_id" integer NOT NULL, "type" character varying NOT NULL, "amount" numeric(8,2) NOT NULL, "status" character varying NOT NULL DEFAULT 'pending', "reason" character varying(1000), "created_by" integer, "owner_confirmed_at" TIMESTAMP WITH TIME ZONE, "borrower_confirmed_at" TIMESTAMP WITH TIME ZONE, "resolved_by" integer, "provider_reference" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_24572f8b4ae97d54d424916a6b3" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_387873f5fcc2a0f1f0b3f17efa" ON "deposit_ledger_entries" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "dispute_statements" ("id" SERIAL NOT NULL, "dispute_id" integer NOT NULL, "author_id" integer NOT NULL, "party" character varying NOT NULL, "body" character varying(2000) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6fd5bde1fc2dcfafc6d9ee80a15" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_b665f26f8025a3d31ffa719595" ON "dispute_statements" ("dispute_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "dispute_evidence" ("id" SERIAL NOT NULL, "dispute_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "party" character varying NOT NULL, "photo_filename" character varying(255) NOT NULL, "photo_url" character varying(500) NOT NULL, "file_size" integer, "mime_type" character varying(50), "caption" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6b34f65b55c04db5a6929bff0ab" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_e5002398b258a9c604b22e5bc8" ON "dispute_evidence" ("dispute_id")`);
+    await queryRunner.query(`CREATE TABLE "dispute_cases" ("id" SERIAL NOT NULL, "borrow_request_id" integer NOT NULL, "opened_by" integer NOT NULL, "status" character varying NOT NULL DEFAULT 'open', "reason" character varying(1000) NOT NULL, "claimed_amount" numeric(8,2), "outcome" character varying, "decision_notes" character varying(1000), "withheld_amount" numeric(8,2), "decided_by" integer, "decided_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_09d44c2c7230ad1315c8be5a5d1" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_736e08f2f77d63fd8c9f74f949" ON "dispute_cases" ("status", "created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ef77a730b12914db128277f501" ON "dispute_cases" ("borrow_request_id")`);
+    await queryRunner.query(`CREATE TABLE "condition_report_photos" ("id" SERIAL NOT NULL, "report_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "photo_filename" character varying(255) NOT NULL, "photo_url" character varying(500) NOT NULL, "file_size" integer, "mime_type" character varying(50), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6f527bd575d377396842eaddb38" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_519e2e7ec99a0128b3d975345c" ON "condition_report_photos" ("report_id")`);
+    await queryRunner.query(`CREATE TABLE "condition_reports" ("id" SERIAL NOT NULL, "borrow_request_id" integer NOT NULL, "stage" character varying NOT NULL, "condition" character varying NOT NULL, "checklist" json NOT NULL, "notes" character varying(1000), "created_by" integer NOT NULL, "updated_by" integer, "owner_signed_at" TIMESTAMP WITH TIME ZONE, "borrower_signed_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_eabcd4ec9f91b83aa6b24dbc0ab" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_209ed8dd1a766d961b0ae94af2" ON "condition_reports" ("borrow_request_id", "stage")`);
+    await queryRunner.query(`CREATE TABLE "borrow_extensions" ("id" SERIAL NOT NULL, "borrow_request_id" integer NOT NULL, "requested_by" integer NOT NULL, "previous_end_date" date NOT NULL, "requested_end_date" date NOT NULL, "message" character varying(500), "status" character varying NOT NULL DEFAULT 'pending', "response_message" character varying(500), "responded_by" integer, "responded_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d410d842ffa1fbe5402ad8bf9b0" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_87e26d7894b4082cd258c3a81e" ON "borrow_extensions" ("borrow_request_id", "status")`);
+    await queryRunner.query(`CREATE TABLE "borrow_request_groups" ("id" SERIAL NOT NULL, "requester_id" integer NOT NULL, "owner_id" integer NOT NULL, "recurrence_frequency" character varying, "occurrences" integer NOT NULL DEFAULT '1', "message" character varying(1000), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_0e23d079fd740f5be404e89c3ae" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_8952f94d122fcf4bd37f4a0512" ON "borrow_request_groups" ("owner_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_849e68654d0f85f346b3aaf31b" ON "borrow_request_groups" ("requester_id")`);
+    await queryRunner.query(`CREATE TABLE "borrow_requests" ("id" SERIAL NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "group_id" integer, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" character varying(1000), "status" character varying NOT NULL DEFAULT 'pending', "response_message" character varying(1000), "deposit_amount" numeric(8,2), "deposit_paid" boolean NOT NULL DEFAULT false, "deposit_returned" boolean NOT NULL DEFAULT false, "requested_at" TIMESTAMP WITH TIME ZONE, "responded_at" TIMESTAMP WITH TIME ZONE, "picked_up_at" TIMESTAMP WITH TIME ZONE, "returned_at" TIMESTAMP WITH TIME ZONE, "due_date" TIMESTAMP WITH TIME ZONE, "pickup_notes" character varying(500), "return_notes" character varying(500), "pickup_location" character varying(255), "return_location" character varying(255), "has_issues" boolean NOT NULL DEFAULT false, "issue_description" character varying(1000), "issue_reported_at" TIMESTAMP WITH TIME ZONE, "issue_resolved" boolean NOT NULL DEFAULT false, "emergency_contact" character varying(15), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_dd534a057b1e97d763fb193973f" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_477f94e42c89f5d691a5761745" ON "borrow_requests" ("group_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`CREATE TABLE "resource_blackouts" ("id" SERIAL NOT NULL, "resource_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "reason" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_8b3efb1f629f92c697da0dc7b07" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_6ddb7366adfeaf61b3520288cb" ON "resource_blackouts" ("resource_id", "start_date", "end_date")`);
+    await queryRunner.query(`CREATE TABLE "resources" ("id" SERIAL NOT NULL, "title" character varying(200) NOT NULL, "description" text NOT NULL, "category" character varying(50) NOT NULL, "estimated_value" numeric(10,2), "condition" character varying NOT NULL DEFAULT 'good', "condition_notes" character varying(500), "is_available" boolean NOT NULL DEFAULT true, "max_borrow_days" integer, "deposit_required" numeric(8,2), "pickup_required" boolean NOT NULL DEFAULT false, "pickup_instructions" character varying(500), "usage_instructions" character varying(500), "location_notes" character varying(255), "available_days" json, "available_time_start" TIME, "available_time_end" TIME, "views_count" integer NOT NULL DEFAULT '0', "borrow_count" integer NOT NULL DEFAULT '0', "favourite_count" integer NOT NULL DEFAULT '0', "average_rating" numeric(3,2) NOT NULL DEFAULT '0', "total_ratings" integer NOT NULL DEFAULT '0', "status" character varying NOT NULL DEFAULT 'active', "visibility" character varying NOT NULL DEFAULT 'public', "last_borrowed" TIMESTAMP WITH TIME ZONE, "owner_id" integer NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_632484ab9dff41bba94f9b7c85e" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_bb3059bfaa6904b413ca41c818" ON "resources" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_47461ff0f44e1fe16336913c09" ON "resources" ("is_available")`);
+    await queryRunner.query(`CREATE INDEX "IDX_4e1b470cad50d04f4436224fb8" ON "resources" ("category")`);
+    await queryRunner.query(`CREATE TABLE "messages" ("id" SERIAL NOT NULL, "chat_id" integer NOT NULL, "sender_id" integer NOT NULL, "content" text NOT NULL, "message_type" character varying NOT NULL DEFAULT 'text', "file_url" character varying(500), "file_name" character varying(255), "file_size" integer, "mime_type" character varying(10), "is_read" boolean NOT NULL DEFAULT false, "read_at" TIMESTAMP WITH TIME ZONE, "is_edited" boolean NOT NULL DEFAULT false, "edited_at" TIMESTAMP WITH TIME ZONE, "is_deleted" boolean NOT NULL DEFAULT false, "deleted_at" TIMESTAMP WITH TIME ZONE, "reply_to_message_id" integer, "reply_preview" character varying(200), "system_action" character varying(100), "metadata" json, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_18325f38ae6de43878487eff986" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_22133395bd13b970ccd0c34ab2" ON "messages" ("sender_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_0777b63da90c27d6ed993dc60b" ON "messages" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_7540635fef1922f0b156b9ef74" ON "messages" ("chat_id")`);
+    await queryRunner.query(`CREATE TABLE "chats" ("id" SERIAL NOT NULL, "user1_id" integer NOT NULL, "user2_id" integer NOT NULL, "subject" character varying(255), "resource_id" integer, "status" character varying NOT NULL DEFAULT 'active', "last_message" character varying(500), "last_message_at" TIMESTAMP WITH TIME ZONE, "last_message_sender_id" integer, "user1_has_unread" boolean NOT NULL DEFAULT false, "user2_has_unread" boolean NOT NULL DEFAULT false, "user1_unread_count" integer NOT NULL DEFAULT '0', "user2_unread_count" integer NOT NULL DEFAULT '0', "user1_archived" boolean NOT NULL DEFAULT false, "user2_archived" boolean NOT NULL DEFAULT false, "user1_muted" boolean NOT NULL DEFAULT false, "user2_muted" boolean NOT NULL DEFAULT false, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_0117647b3c4a4e5ff198aeb6206" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_53eddd786c123373d58112d597" ON "chats" ("updated_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8dfa8c380d2860d5b5c42e04b0" ON "chats" ("user1_id", "user2_id")`);
+    await queryRunner.query(`CREATE TABLE "notifications" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "title" character varying(255) NOT NULL, "message" text NOT NULL, "notification_type" character varying NOT NULL, "is_read" boolean NOT NULL DEFAULT false, "read_at" TIMESTAMP WITH TIME ZONE, "priority" character varying NOT NULL DEFAULT 'normal', "related_resource_id" integer, "related_borrow_request_id" integer, "related_chat_id" integer, "related_review_id" integer, "related_user_id" integer, "action_url" character varying(255), "action_text" character varying(100), "metadata" json, "is_push_sent" boolean NOT NULL DEFAULT false, "is_email_sent" boolean NOT NULL DEFAULT false, "is_sms_sent" boolean NOT NULL DEFAULT false, "push_sent_at" TIMESTAMP WITH TIME ZONE, "email_sent_at" TIMESTAMP WITH TIME ZONE, "sms_sent_at" TIMESTAMP WITH TIME ZONE, "scheduled_for" TIMESTAMP WITH TIME ZONE, "is_sent" boolean NOT NULL DEFAULT false, "expires_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6a72c3c0f683f6462415e653c3a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_17dbc728872dae46c72946c06b" ON "notifications" ("notification_type")`);
+    await queryRunner.query(`CREATE INDEX "IDX_77ee7b06d6f802000c0846f3a5" ON "notifications" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_f12148ce379462ebbb4d06cc13" ON "notifications" ("is_read")`);
+    await queryRunner.query(`CREATE INDEX "IDX_9a8a82462cab47c73d25f49261" ON "notifications" ("user_id")`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "email" character varying(100) NOT NULL, "password" character varying NOT NULL, "phone" character varying(15), "address" character varying(255), "latitude" numeric(10,8), "longitude" numeric(11,8), "neighborhood" character varying(100), "postal_code" character varying(10), "bio" character varying(500), "avatar_url" character varying(255), "is_email_verified" boolean NOT NULL DEFAULT false, "is_location_verified" boolean NOT NULL DEFAULT false, "is_active" boolean NOT NULL DEFAULT true, "verification_status" character varying NOT NULL DEFAULT 'pending', "role" character varying NOT NULL DEFAULT 'member', "last_login" TIMESTAMP WITH TIME ZONE, "two_factor_enabled" boolean NOT NULL DEFAULT false, "average_rating" numeric(3,2) NOT NULL DEFAULT '0', "total_ratings" integer NOT NULL DEFAULT '0', "items_shared" integer NOT NULL DEFAULT '0', "successful_borrows" integer NOT NULL DEFAULT '0', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`CREATE TABLE "waitlist_entries" ("id" SERIAL NOT NULL, "resource_id" integer NOT NULL, "user_id" integer NOT NULL, "start_date" date, "end_date" date, "status" character varying NOT NULL DEFAULT 'waiting', "hold_start_date" date, "hold_end_date" date, "hold_expires_at" TIMESTAMP WITH TIME ZONE, "offered_at" TIMESTAMP WITH TIME ZONE, "borrow_request_id" integer, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_bd0ef66fff81d3be7b7a1568a4d" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a479f0094a22097122d167b3e" ON "waitlist_entries" ("user_id", "status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_50be8f830ebc6451558148e9f4" ON "waitlist_entries" ("resource_id", "status", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "moderation_actions" ("id" SERIAL NOT NULL, "moderator_id" integer NOT NULL, "target_type" character varying NOT NULL, "target_id" integer NOT NULL, "action" character varying NOT NULL, "reason" character varying(500) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d259906fb4d2a5ef718f1f66e35" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_9794bffb7a800bb7051a466623" ON "moderation_actions" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_d891b13e150f7bf62e48f349d8" ON "moderation_actions" ("moderator_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_7eaca5a32b2cef3280f4524fbf" ON "moderation_actions" ("target_type", "target_id")`);
+    await queryRunner.query(`CREATE TABLE "scheduled_jobs" ("name" character varying(100) NOT NULL, "interval_ms" integer NOT NULL, "last_run_at" TIMESTAMP WITH TIME ZONE, "last_status" character varying, "last_duration_ms" integer, "last_error" character varying(1000), "run_count" integer NOT NULL DEFAULT '0', "failure_count" integer NOT NULL DEFAULT '0', "locked_until" TIMESTAMP WITH TIME ZONE, "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_5c795bbd339d082a44c10f1bb4c" PRIMARY KEY ("name"))`);
+    await queryRunner.query(`CREATE TABLE "job_runs" ("id" SERIAL NOT NULL, "job_name" character varying(100) NOT NULL, "status" character varying NOT NULL DEFAULT 'running', "trigger" character varying NOT NULL DEFAULT 'schedule', "triggered_by" integer, "started_at" TIMESTAMP WITH TIME ZONE NOT NULL, "finished_at" TIMESTAMP WITH TIME ZONE, "duration_ms" integer, "result" json, "error" character varying(1000), CONSTRAINT "PK_4d0012c04fcfc287550b76be7e9" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_435d7949e63168114c7d4bdfe5" ON "job_runs" ("started_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_f4040a73e315acb0d5abef250e" ON "job_runs" ("job_name")`);
+    await queryRunner.query(`CREATE TABLE "saved_searches" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "name" character varying(100) NOT NULL, "filters" json NOT NULL, "alerts_enabled" boolean NOT NULL DEFAULT true, "alert_interval_hours" integer NOT NULL DEFAULT '1', "last_notified_at" TIMESTAMP WITH TIME ZONE, "suppressed_matches" integer NOT NULL DEFAULT '0', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d9a53c71ccc5cf66dcdc5b33dfe" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_3ecd1b72ed9c76d284b2a32892" ON "saved_searches" ("alerts_enabled")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8f01d13ac8e7b451d244674274" ON "saved_searches" ("user_id")`);
+    await queryRunner.query(`CREATE TABLE "favourites" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "resource_id" integer NOT NULL, "notify_when_available" boolean NOT NULL DEFAULT false, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_173e5d5cc35490bf1de2d2d3739" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a83ffcd28354db0dce5f3a669" ON "favourites" ("resource_id", "notify_when_available")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1e0d839bfe506bfaed6879e892" ON "favourites" ("user_id", "resource_id")`);
+    await queryRunner.query(`CREATE TABLE "community_memberships" ("id" SERIAL NOT NULL, "community_id" integer NOT NULL, "user_id" integer NOT NULL, "joined_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_9793d8b3e502f2c2bae656c6bb8" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_d5d2b195d29c299e5c2ab08a1b" ON "community_memberships" ("user_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_aa7dd5a3ca801dc482164fbfd7" ON "community_memberships" ("community_id", "user_id")`);
+    await queryRunner.query(`CREATE TABLE "communities" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "description" character varying(500), "boundary" json, "center_latitude" numeric(10,8), "center_longitude" numeric(11,8), "radius_km" numeric(6,2), "member_count" integer NOT NULL DEFAULT '0', "created_by" integer, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_501bb6c8f7c8e8a7d614d9435f6" UNIQUE ("name"), CONSTRAINT "PK_fea1fe83c86ccde9d0a089e7ea2" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "resource_communities" ("id" SERIAL NOT NULL, "resource_id" integer NOT NULL, "community_id" integer NOT NULL, CONSTRAINT "PK_a9fa3de0647d0b03527beea24d1" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_e4f06850133ed6265dcb8cfe41" ON "resource_communities" ("community_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e" ON "resource_communities" ("resource_id", "community_id")`);
+    await queryRunner.query(`CREATE TABLE "location_vouches" ("id" SERIAL NOT NULL, "verification_id" integer NOT NULL, "voucher_id" integer NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_fbe64a3efd88f5c26b8f854c48a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_b15cebece23a1bc0c2cefb467b" ON "location_vouches" ("voucher_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_c524ec5cfdd413f11c9a2a36a4" ON "location_vouches" ("verification_id", "voucher_id")`);
+    await queryRunner.query(`CREATE TABLE "location_verifications" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "method" character varying NOT NULL, "status" character varying NOT NULL DEFAULT 'pending', "address" character varying(255), "latitude" numeric(10,8) NOT NULL, "longitude" numeric(11,8) NOT NULL, "code_hash" character varying, "attempts" integer NOT NULL DEFAULT '0', "max_attempts" integer, "required_vouches" integer, "vouch_count" integer NOT NULL DEFAULT '0', "note" character varying(500), "reviewed_by" integer, "review_note" character varying(500), "expires_at" TIMESTAMP WITH TIME ZONE NOT NULL, "completed_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_a367fb3cea4e737353c301b6969" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40" ON "location_verifications" ("status", "expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_32854c60630246f168016cb48b" ON "location_verifications" ("method", "status", "latitude", "longitude")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1a320166037ec19391f5079381" ON "location_verifications" ("user_id", "status")`);
+    await queryRunner.query(`CREATE TABLE "account_tokens" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "purpose" character varying NOT NULL, "token_hash" character varying(64) NOT NULL, "expires_at" TIMESTAMP NOT NULL, "used_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_5e3640c493cc6206a44b885e6a9" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_dc3fdc213b9bfc438a86fed443" ON "account_tokens" ("user_id", "purpose", "created_at")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_167033390a71c52224c7c636c8" ON "account_tokens" ("token_hash")`);
+    await queryRunner.query(`CREATE TABLE "user_sessions" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "refresh_token_hash" character varying(64) NOT NULL, "device" character varying(100) NOT NULL, "user_agent" character varying(500), "ip_address" character varying(45), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "last_used_at" TIMESTAMP NOT NULL, "expires_at" TIMESTAMP NOT NULL, "revoked_at" TIMESTAMP WITH TIME ZONE, "revoked_reason" character varying, CONSTRAINT "PK_e93e031a5fed190d4789b6bfd83" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_dbc81ff542b1b3366bae195f2a" ON "user_sessions" ("expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_0500261b4f4ada1ce868296858" ON "user_sessions" ("user_id", "revoked_at")`);
+    await queryRunner.query(`CREATE TABLE "user_two_factor" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "secret_encrypted" character varying(255) NOT NULL, "enabled_at" TIMESTAMP WITH TIME ZONE, "last_used_step" integer, "failed_attempts" integer NOT NULL DEFAULT '0', "locked_until" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "REL_0e865d85e0ad6329b40523afe5" UNIQUE ("user_id"), CONSTRAINT "PK_a0dc97e08540c59d6c744e21c58" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_0e865d85e0ad6329b40523afe5" ON "user_two_factor" ("user_id")`);
+    await queryRunner.query(`CREATE TABLE "two_factor_recovery_codes" ("id" SERIAL NOT NULL, "user_id" integer NOT NULL, "code_hash" character varying(100) NOT NULL, "used_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6f535a18c9fb9da8cc9b7ea70dc" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_9dbd75b07b2b94857973544bbd" ON "two_factor_recovery_codes" ("user_id", "used_at")`);
+    await queryRunner.query(`ALTER TABLE "resource_photos" ADD CONSTRAINT "FK_26d44235f2ba164593c26b4a194" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "reviews" ADD CONSTRAINT "FK_92e950a2513a79bb3fab273c92e" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "reviews" ADD CONSTRAINT "FK_a7b3e1afadd6b52f3b6864745e3" FOREIGN KEY ("reviewee_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "reviews" ADD CONSTRAINT "FK_02e0591342cece4bafe0b02c2af" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_events" ADD CONSTRAINT "FK_9205ab44944d77318d640628054" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_events" ADD CONSTRAINT "FK_f9e4195d175446d861cab6c6753" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "deposit_ledger_entries" ADD CONSTRAINT "FK_fcb759d6b6d8423658f47ebcd27" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "deposit_ledger_entries" ADD CONSTRAINT "FK_08db19df6198e6d924cab892992" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_statements" ADD CONSTRAINT "FK_b109650554e03046ef113320a11" FOREIGN KEY ("dispute_id") REFERENCES "dispute_cases"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_statements" ADD CONSTRAINT "FK_9bbbb9e413a2ead429eda10f6b5" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_evidence" ADD CONSTRAINT "FK_e5002398b258a9c604b22e5bc84" FOREIGN KEY ("dispute_id") REFERENCES "dispute_cases"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_evidence" ADD CONSTRAINT "FK_69fe4c674de2ff4493321c84bf8" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" ADD CONSTRAINT "FK_ef77a730b12914db128277f501f" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" ADD CONSTRAINT "FK_e0e54125135bd9e34016d2ffd50" FOREIGN KEY ("opened_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" ADD CONSTRAINT "FK_53e3488c543bb5eebb795327714" FOREIGN KEY ("decided_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "condition_report_photos" ADD CONSTRAINT "FK_519e2e7ec99a0128b3d975345cb" FOREIGN KEY ("report_id") REFERENCES "condition_reports"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "condition_report_photos" ADD CONSTRAINT "FK_37f4356e166f9d511885c560796" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "condition_reports" ADD CONSTRAINT "FK_a39848347a7e0ce42a45102e4fc" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "condition_reports" ADD CONSTRAINT "FK_c6ecb5880805dcb4e4a2e17da1b" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_extensions" ADD CONSTRAINT "FK_0790c97b1ebf595f1649484294b" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_extensions" ADD CONSTRAINT "FK_e3030b73102463e592862181065" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_groups" ADD CONSTRAINT "FK_849e68654d0f85f346b3aaf31b1" FOREIGN KEY ("requester_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_groups" ADD CONSTRAINT "FK_8952f94d122fcf4bd37f4a0512d" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" ADD CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" ADD CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" ADD CONSTRAINT "FK_477f94e42c89f5d691a5761745b" FOREIGN KEY ("group_id") REFERENCES "borrow_request_groups"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "resource_blackouts" ADD CONSTRAINT "FK_336237937c82a63926fde6b29f7" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "resources" ADD CONSTRAINT "FK_a417f48b883e7efb9ae90a7bcb3" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "messages" ADD CONSTRAINT "FK_7540635fef1922f0b156b9ef74f" FOREIGN KEY ("chat_id") REFERENCES "chats"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "messages" ADD CONSTRAINT "FK_22133395bd13b970ccd0c34ab22" FOREIGN KEY ("sender_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "messages" ADD CONSTRAINT "FK_7f87cbb925b1267778a7f4c5d67" FOREIGN KEY ("reply_to_message_id") REFERENCES "messages"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "chats" ADD CONSTRAINT "FK_05b8003b6a5c6a9b16cb31fea2a" FOREIGN KEY ("user1_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "chats" ADD CONSTRAINT "FK_a14c79d67133bb0df4a71807a74" FOREIGN KEY ("user2_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "notifications" ADD CONSTRAINT "FK_9a8a82462cab47c73d25f49261f" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "notifications" ADD CONSTRAINT "FK_e9e4444e24f0577125255c492a2" FOREIGN KEY ("related_user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" ADD CONSTRAINT "FK_4b8aa17c1469c9f8fed88010885" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" ADD CONSTRAINT "FK_accc0d911773551b2eed1a2ed72" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "moderation_actions" ADD CONSTRAINT "FK_d891b13e150f7bf62e48f349d82" FOREIGN KEY ("moderator_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "saved_searches" ADD CONSTRAINT "FK_8f01d13ac8e7b451d244674274f" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "favourites" ADD CONSTRAINT "FK_ffb0866c42b7ff4d6e5131f3dcc" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "favourites" ADD CONSTRAINT "FK_4f5ce5401e7e2652d96f34a2dbf" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "community_memberships" ADD CONSTRAINT "FK_b61b4ab4be4ff467c514686b11d" FOREIGN KEY ("community_id") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "community_memberships" ADD CONSTRAINT "FK_d5d2b195d29c299e5c2ab08a1b7" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "communities" ADD CONSTRAINT "FK_39793f5d3c7464578d8b03f4360" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "resource_communities" ADD CONSTRAINT "FK_388f5e2ee520eff68a429a4aef8" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "resource_communities" ADD CONSTRAINT "FK_e4f06850133ed6265dcb8cfe41c" FOREIGN KEY ("community_id") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "location_vouches" ADD CONSTRAINT "FK_1361fc53343663564eb53345db7" FOREIGN KEY ("verification_id") REFERENCES "location_verifications"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "location_vouches" ADD CONSTRAINT "FK_b15cebece23a1bc0c2cefb467ba" FOREIGN KEY ("voucher_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "location_verifications" ADD CONSTRAINT "FK_c23677a6056c5cb8e5a5eeeaf51" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "location_verifications" ADD CONSTRAINT "FK_bdae0d666b0ae2f730f9f1e28a1" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "account_tokens" ADD CONSTRAINT "FK_1b5fea09efc20c7f63c4a09b3d6" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "user_sessions" ADD CONSTRAINT "FK_e9658e959c490b0a634dfc54783" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "user_two_factor" ADD CONSTRAINT "FK_0e865d85e0ad6329b40523afe55" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "two_factor_recovery_codes" ADD CONSTRAINT "FK_dd306548ffdd22f617146670845" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "two_factor_recovery_codes" DROP CONSTRAINT "FK_dd306548ffdd22f617146670845"`);
+    await queryRunner.query(`ALTER TABLE "user_two_factor" DROP CONSTRAINT "FK_0e865d85e0ad6329b40523afe55"`);
+    await queryRunner.query(`ALTER TABLE "user_sessions" DROP CONSTRAINT "FK_e9658e959c490b0a634dfc54783"`);
+    await queryRunner.query(`ALTER TABLE "account_tokens" DROP CONSTRAINT "FK_1b5fea09efc20c7f63c4a09b3d6"`);
+    await queryRunner.query(`ALTER TABLE "location_verifications" DROP CONSTRAINT "FK_bdae0d666b0ae2f730f9f1e28a1"`);
+    await queryRunner.query(`ALTER TABLE "location_verifications" DROP CONSTRAINT "FK_c23677a6056c5cb8e5a5eeeaf51"`);
+    await queryRunner.query(`ALTER TABLE "location_vouches" DROP CONSTRAINT "FK_b15cebece23a1bc0c2cefb467ba"`);
+    await queryRunner.query(`ALTER TABLE "location_vouches" DROP CONSTRAINT "FK_1361fc53343663564eb53345db7"`);
+    await queryRunner.query(`ALTER TABLE "resource_communities" DROP CONSTRAINT "FK_e4f06850133ed6265dcb8cfe41c"`);
+    await queryRunner.query(`ALTER TABLE "resource_communities" DROP CONSTRAINT "FK_388f5e2ee520eff68a429a4aef8"`);
+    await queryRunner.query(`ALTER TABLE "communities" DROP CONSTRAINT "FK_39793f5d3c7464578d8b03f4360"`);
+    await queryRunner.query(`ALTER TABLE "community_memberships" DROP CONSTRAINT "FK_d5d2b195d29c299e5c2ab08a1b7"`);
+    await queryRunner.query(`ALTER TABLE "community_memberships" DROP CONSTRAINT "FK_b61b4ab4be4ff467c514686b11d"`);
+    await queryRunner.query(`ALTER TABLE "favourites" DROP CONSTRAINT "FK_4f5ce5401e7e2652d96f34a2dbf"`);
+    await queryRunner.query(`ALTER TABLE "favourites" DROP CONSTRAINT "FK_ffb0866c42b7ff4d6e5131f3dcc"`);
+    await queryRunner.query(`ALTER TABLE "saved_searches" DROP CONSTRAINT "FK_8f01d13ac8e7b451d244674274f"`);
+    await queryRunner.query(`ALTER TABLE "moderation_actions" DROP CONSTRAINT "FK_d891b13e150f7bf62e48f349d82"`);
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" DROP CONSTRAINT "FK_accc0d911773551b2eed1a2ed72"`);
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" DROP CONSTRAINT "FK_4b8aa17c1469c9f8fed88010885"`);
+    await queryRunner.query(`ALTER TABLE "notifications" DROP CONSTRAINT "FK_e9e4444e24f0577125255c492a2"`);
+    await queryRunner.query(`ALTER TABLE "notifications" DROP CONSTRAINT "FK_9a8a82462cab47c73d25f49261f"`);
+    await queryRunner.query(`ALTER TABLE "chats" DROP CONSTRAINT "FK_a14c79d67133bb0df4a71807a74"`);
+    await queryRunner.query(`ALTER TABLE "chats" DROP CONSTRAINT "FK_05b8003b6a5c6a9b16cb31fea2a"`);
+    await queryRunner.query(`ALTER TABLE "messages" DROP CONSTRAINT "FK_7f87cbb925b1267778a7f4c5d67"`);
+    await queryRunner.query(`ALTER TABLE "messages" DROP CONSTRAINT "FK_22133395bd13b970ccd0c34ab22"`);
+    await queryRunner.query(`ALTER TABLE "messages" DROP CONSTRAINT "FK_7540635fef1922f0b156b9ef74f"`);
+    await queryRunner.query(`ALTER TABLE "resources" DROP CONSTRAINT "FK_a417f48b883e7efb9ae90a7bcb3"`);
+    await queryRunner.query(`ALTER TABLE "resource_blackouts" DROP CONSTRAINT "FK_336237937c82a63926fde6b29f7"`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" DROP CONSTRAINT "FK_477f94e42c89f5d691a5761745b"`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" DROP CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2"`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" DROP CONSTRAINT "FK_41118353bde53dc945894df1982"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_groups" DROP CONSTRAINT "FK_8952f94d122fcf4bd37f4a0512d"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_groups" DROP CONSTRAINT "FK_849e68654d0f85f346b3aaf31b1"`);
+    await queryRunner.query(`ALTER TABLE "borrow_extensions" DROP CONSTRAINT "FK_e3030b73102463e592862181065"`);
+    await queryRunner.query(`ALTER TABLE "borrow_extensions" DROP CONSTRAINT "FK_0790c97b1ebf595f1649484294b"`);
+    await queryRunner.query(`ALTER TABLE "condition_reports" DROP CONSTRAINT "FK_c6ecb5880805dcb4e4a2e17da1b"`);
+    await queryRunner.query(`ALTER TABLE "condition_reports" DROP CONSTRAINT "FK_a39848347a7e0ce42a45102e4fc"`);
+    await queryRunner.query(`ALTER TABLE "condition_report_photos" DROP CONSTRAINT "FK_37f4356e166f9d511885c560796"`);
+    await queryRunner.query(`ALTER TABLE "condition_report_photos" DROP CONSTRAINT "FK_519e2e7ec99a0128b3d975345cb"`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" DROP CONSTRAINT "FK_53e3488c543bb5eebb795327714"`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" DROP CONSTRAINT "FK_e0e54125135bd9e34016d2ffd50"`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" DROP CONSTRAINT "FK_ef77a730b12914db128277f501f"`);
+    await queryRunner.query(`ALTER TABLE "dispute_evidence" DROP CONSTRAINT "FK_69fe4c674de2ff4493321c84bf8"`);
+    await queryRunner.query(`ALTER TABLE "dispute_evidence" DROP CONSTRAINT "FK_e5002398b258a9c604b22e5bc84"`);
+    await queryRunner.query(`ALTER TABLE "dispute_statements" DROP CONSTRAINT "FK_9bbbb9e413a2ead429eda10f6b5"`);
+    await queryRunner.query(`ALTER TABLE "dispute_statements" DROP CONSTRAINT "FK_b109650554e03046ef113320a11"`);
+    await queryRunner.query(`ALTER TABLE "deposit_ledger_entries" DROP CONSTRAINT "FK_08db19df6198e6d924cab892992"`);
+    await queryRunner.query(`ALTER TABLE "deposit_ledger_entries" DROP CONSTRAINT "FK_fcb759d6b6d8423658f47ebcd27"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_events" DROP CONSTRAINT "FK_f9e4195d175446d861cab6c6753"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_events" DROP CONSTRAINT "FK_9205ab44944d77318d640628054"`);
+    await queryRunner.query(`ALTER TABLE "reviews" DROP CONSTRAINT "FK_02e0591342cece4bafe0b02c2af"`);
+    await queryRunner.query(`ALTER TABLE "reviews" DROP CONSTRAINT "FK_a7b3e1afadd6b52f3b6864745e3"`);
+    await queryRunner.query(`ALTER TABLE "reviews" DROP CONSTRAINT "FK_92e950a2513a79bb3fab273c92e"`);
+    await queryRunner.query(`ALTER TABLE "resource_photos" DROP CONSTRAINT "FK_26d44235f2ba164593c26b4a194"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_9dbd75b07b2b94857973544bbd"`);
+    await queryRunner.query(`DROP TABLE "two_factor_recovery_codes"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_0e865d85e0ad6329b40523afe5"`);
+    await queryRunner.query(`DROP TABLE "user_two_factor"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_0500261b4f4ada1ce868296858"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_dbc81ff542b1b3366bae195f2a"`);
+    await queryRunner.query(`DROP TABLE "user_sessions"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_167033390a71c52224c7c636c8"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_dc3fdc213b9bfc438a86fed443"`);
+    await queryRunner.query(`DROP TABLE "account_tokens"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_1a320166037ec19391f5079381"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_32854c60630246f168016cb48b"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_77e7e4ac07d4ee68a2b99f9c40"`);
+    await queryRunner.query(`DROP TABLE "location_verifications"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_c524ec5cfdd413f11c9a2a36a4"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_b15cebece23a1bc0c2cefb467b"`);
+    await queryRunner.query(`DROP TABLE "location_vouches"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_072b3bd4a5c5a03b5d93c43d8e"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_e4f06850133ed6265dcb8cfe41"`);
+    await queryRunner.query(`DROP TABLE "resource_communities"`);
+    await queryRunner.query(`DROP TABLE "communities"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_aa7dd5a3ca801dc482164fbfd7"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_d5d2b195d29c299e5c2ab08a1b"`);
+    await queryRunner.query(`DROP TABLE "community_memberships"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_1e0d839bfe506bfaed6879e892"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_4a83ffcd28354db0dce5f3a669"`);
+    await queryRunner.query(`DROP TABLE "favourites"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_8f01d13ac8e7b451d244674274"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_3ecd1b72ed9c76d284b2a32892"`);
+    await queryRunner.query(`DROP TABLE "saved_searches"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_f4040a73e315acb0d5abef250e"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_435d7949e63168114c7d4bdfe5"`);
+    await queryRunner.query(`DROP TABLE "job_runs"`);
+    await queryRunner.query(`DROP TABLE "scheduled_jobs"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_7eaca5a32b2cef3280f4524fbf"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_d891b13e150f7bf62e48f349d8"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_9794bffb7a800bb7051a466623"`);
+    await queryRunner.query(`DROP TABLE "moderation_actions"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_50be8f830ebc6451558148e9f4"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_4a479f0094a22097122d167b3e"`);
+    await queryRunner.query(`DROP TABLE "waitlist_entries"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_9a8a82462cab47c73d25f49261"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_f12148ce379462ebbb4d06cc13"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_77ee7b06d6f802000c0846f3a5"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_17dbc728872dae46c72946c06b"`);
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_8dfa8c380d2860d5b5c42e04b0"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_53eddd786c123373d58112d597"`);
+    await queryRunner.query(`DROP TABLE "chats"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_7540635fef1922f0b156b9ef74"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_0777b63da90c27d6ed993dc60b"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_22133395bd13b970ccd0c34ab2"`);
+    await queryRunner.query(`DROP TABLE "messages"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_4e1b470cad50d04f4436224fb8"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_47461ff0f44e1fe16336913c09"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_bb3059bfaa6904b413ca41c818"`);
+    await queryRunner.query(`DROP TABLE "resources"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_6ddb7366adfeaf61b3520288cb"`);
+    await queryRunner.query(`DROP TABLE "resource_blackouts"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_477f94e42c89f5d691a5761745"`);
+    await queryRunner.query(`DROP TABLE "borrow_requests"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_849e68654d0f85f346b3aaf31b"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_8952f94d122fcf4bd37f4a0512"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_groups"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_87e26d7894b4082cd258c3a81e"`);
+    await queryRunner.query(`DROP TABLE "borrow_extensions"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_209ed8dd1a766d961b0ae94af2"`);
+    await queryRunner.query(`DROP TABLE "condition_reports"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_519e2e7ec99a0128b3d975345c"`);
+    await queryRunner.query(`DROP TABLE "condition_report_photos"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ef77a730b12914db128277f501"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_736e08f2f77d63fd8c9f74f949"`);
+    await queryRunner.query(`DROP TABLE "dispute_cases"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_e5002398b258a9c604b22e5bc8"`);
+    await queryRunner.query(`DROP TABLE "dispute_evidence"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_b665f26f8025a3d31ffa719595"`);
+    await queryRunner.query(`DROP TABLE "dispute_statements"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_387873f5fcc2a0f1f0b3f17efa"`);
+    await queryRunner.query(`DROP TABLE "deposit_ledger_entries"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_5d43b982d0e41515b61bef2706"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_events"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_a7b3e1afadd6b52f3b6864745e"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_92e950a2513a79bb3fab273c92"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_02e0591342cece4bafe0b02c2a"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_f4b88c05a7adf404a6e6b2f1eb"`);
+    await queryRunner.query(`DROP TABLE "reviews"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_26d44235f2ba164593c26b4a19"`);
+    await queryRunner.query(`DROP TABLE "resource_photos"`);
+  }
+
+}
@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * The schema of the first release: users, resources and their photos, chats and messages,
+ * borrow requests, reviews and notifications
+ * Databases created by the old synchronize setup already have these tables and skip this step
+ */
+export class Baseline1757462400000 implements MigrationInterface {
+  name = "Baseline1757462400000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasTable("users")) {
+      return;
+    }
+
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(100) NOT NULL, "password" varchar NOT NULL, "phone" varchar(15), "address" varchar(255), "latitude" decimal(10,8), "longitude" decimal(11,8), "neighborhood" varchar(100), "postal_code" varchar(10), "bio" varchar(500), "avatar_url" varchar(255), "is_email_verified" boolean NOT NULL DEFAULT (0), "is_location_verified" boolean NOT NULL DEFAULT (0), "is_active" boolean NOT NULL DEFAULT (1), "verification_status" varchar NOT NULL DEFAULT ('pending'), "refresh_token" varchar(500), "last_login" datetime, "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "items_shared" integer NOT NULL DEFAULT (0), "successful_borrows" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`CREATE TABLE "resources" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar(200) NOT NULL, "description" text NOT NULL, "category" varchar(50) NOT NULL, "estimated_value" decimal(10,2), "condition" varchar NOT NULL DEFAULT ('good'), "condition_notes" varchar(500), "is_available" boolean NOT NULL DEFAULT (1), "max_borrow_days" integer, "deposit_required" decimal(8,2), "pickup_required" boolean NOT NULL DEFAULT (0), "pickup_instructions" varchar(500), "usage_instructions" varchar(500), "location_notes" varchar(255), "available_days" json, "available_time_start" time, "available_time_end" time, "views_count" integer NOT NULL DEFAULT (0), "borrow_count" integer NOT NULL DEFAULT (0), "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "status" varchar NOT NULL DEFAULT ('active'), "last_borrowed" datetime, "owner_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a417f48b883e7efb9ae90a7bcb3" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_bb3059bfaa6904b413ca41c818" ON "resources" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_47461ff0f44e1fe16336913c09" ON "resources" ("is_available")`);
+    await queryRunner.query(`CREATE INDEX "IDX_4e1b470cad50d04f4436224fb8" ON "resources" ("category")`);
+    await queryRunner.query(`CREATE TABLE "resource_photos" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "photo_url" varchar(500) NOT NULL, "photo_filename" varchar(255), "is_primary" boolean NOT NULL DEFAULT (0), "alt_text" varchar(255), "file_size" integer, "mime_type" varchar(10), "width" integer, "height" integer, "display_order" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_26d44235f2ba164593c26b4a194" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_26d44235f2ba164593c26b4a19" ON "resource_photos" ("resource_id")`);
+    await queryRunner.query(`CREATE TABLE "chats" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user1_id" integer NOT NULL, "user2_id" integer NOT NULL, "subject" varchar(255), "resource_id" integer, "status" varchar NOT NULL DEFAULT ('active'), "last_message" varchar(500), "last_message_at" datetime, "last_message_sender_id" integer, "user1_has_unread" boolean NOT NULL DEFAULT (0), "user2_has_unread" boolean NOT NULL DEFAULT (0), "user1_unread_count" integer NOT NULL DEFAULT (0), "user2_unread_count" integer NOT NULL DEFAULT (0), "user1_archived" boolean NOT NULL DEFAULT (0), "user2_archived" boolean NOT NULL DEFAULT (0), "user1_muted" boolean NOT NULL DEFAULT (0), "user2_muted" boolean NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_05b8003b6a5c6a9b16cb31fea2a" FOREIGN KEY ("user1_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a14c79d67133bb0df4a71807a74" FOREIGN KEY ("user2_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_53eddd786c123373d58112d597" ON "chats" ("updated_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8dfa8c380d2860d5b5c42e04b0" ON "chats" ("user1_id", "user2_id")`);
+    await queryRunner.query(`CREATE TABLE "messages" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "chat_id" integer NOT NULL, "sender_id" integer NOT NULL, "content" text NOT NULL, "message_type" varchar NOT NULL DEFAULT ('text'), "file_url" varchar(500), "file_name" varchar(255), "file_size" integer, "mime_type" varchar(10), "is_read" boolean NOT NULL DEFAULT (0), "read_at" datetime, "is_edited" boolean NOT NULL DEFAULT (0), "edited_at" datetime, "is_deleted" boolean NOT NULL DEFAULT (0), "deleted_at" datetime, "reply_to_message_id" integer, "reply_preview" varchar(200), "system_action" varchar(100), "metadata" json, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_7540635fef1922f0b156b9ef74f" FOREIGN KEY ("chat_id") REFERENCES "chats" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_22133395bd13b970ccd0c34ab22" FOREIGN KEY ("sender_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_7f87cbb925b1267778a7f4c5d67" FOREIGN KEY ("reply_to_message_id") REFERENCES "messages" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_22133395bd13b970ccd0c34ab2" ON "messages" ("sender_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_0777b63da90c27d6ed993dc60b" ON "messages" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_7540635fef1922f0b156b9ef74" ON "messages" ("chat_id")`);
+    await queryRunner.query(`CREATE TABLE "borrow_requests" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" varchar(1000), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(1000), "deposit_amount" decimal(8,2), "deposit_paid" boolean NOT NULL DEFAULT (0), "deposit_returned" boolean NOT NULL DEFAULT (0), "requested_at" datetime, "responded_at" datetime, "picked_up_at" datetime, "returned_at" datetime, "due_date" datetime, "pickup_notes" varchar(500), "return_notes" varchar(500), "pickup_location" varchar(255), "return_location" varchar(255), "has_issues" boolean NOT NULL DEFAULT (0), "issue_description" varchar(1000), "issue_reported_at" datetime, "issue_resolved" boolean NOT NULL DEFAULT (0), "emergency_contact" varchar(15), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`CREATE TABLE "reviews" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "reviewer_id" integer NOT NULL, "reviewee_id" integer NOT NULL, "borrow_request_id" integer, "rating" decimal(2,1) NOT NULL, "comment" varchar(1000), "communication_rating" decimal(2,1), "reliability_rating" decimal(2,1), "item_condition_rating" decimal(2,1), "care_rating" decimal(2,1), "review_type" varchar NOT NULL, "is_anonymous" boolean NOT NULL DEFAULT (0), "is_verified" boolean NOT NULL DEFAULT (0), "is_flagged" boolean NOT NULL DEFAULT (0), "flag_reason" varchar(500), "is_hidden" boolean NOT NULL DEFAULT (0), "moderated_at" datetime, "moderated_by" integer, "response" varchar(1000), "response_at" datetime, "helpful_votes" integer NOT NULL DEFAULT (0), "total_votes" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_92e950a2513a79bb3fab273c92e" FOREIGN KEY ("reviewer_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a7b3e1afadd6b52f3b6864745e3" FOREIGN KEY ("reviewee_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_02e0591342cece4bafe0b02c2af" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_a7b3e1afadd6b52f3b6864745e" ON "reviews" ("reviewee_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_92e950a2513a79bb3fab273c92" ON "reviews" ("reviewer_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_02e0591342cece4bafe0b02c2a" ON "reviews" ("borrow_request_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_f4b88c05a7adf404a6e6b2f1eb" ON "reviews" ("rating")`);
+    await queryRunner.query(`CREATE TABLE "notifications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "title" varchar(255) NOT NULL, "message" text NOT NULL, "notification_type" varchar NOT NULL, "is_read" boolean NOT NULL DEFAULT (0), "read_at" datetime, "priority" varchar NOT NULL DEFAULT ('normal'), "related_resource_id" integer, "related_borrow_request_id" integer, "related_chat_id" integer, "related_review_id" integer, "related_user_id" integer, "action_url" varchar(255), "action_text" varchar(100), "metadata" json, "is_push_sent" boolean NOT NULL DEFAULT (0), "is_email_sent" boolean NOT NULL DEFAULT (0), "is_sms_sent" boolean NOT NULL DEFAULT (0), "push_sent_at" datetime, "email_sent_at" datetime, "sms_sent_at" datetime, "scheduled_for" datetime, "is_sent" boolean NOT NULL DEFAULT (0), "expires_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_9a8a82462cab47c73d25f49261f" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_e9e4444e24f0577125255c492a2" FOREIGN KEY ("related_user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`CREATE INDEX "IDX_17dbc728872dae46c72946c06b" ON "notifications" ("notification_type")`);
+    await queryRunner.query(`CREATE INDEX "IDX_77ee7b06d6f802000c0846f3a5" ON "notifications" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_f12148ce379462ebbb4d06cc13" ON "notifications" ("is_read")`);
+    await queryRunner.query(`CREATE INDEX "IDX_9a8a82462cab47c73d25f49261" ON "notifications" ("user_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_9a8a82462cab47c73d25f49261"`);
+    await queryRunner.query(`DROP INDEX "IDX_f12148ce379462ebbb4d06cc13"`);
+    await queryRunner.query(`DROP INDEX "IDX_77ee7b06d6f802000c0846f3a5"`);
+    await queryRunner.query(`DROP INDEX "IDX_17dbc728872dae46c72946c06b"`);
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP INDEX "IDX_f4b88c05a7adf404a6e6b2f1eb"`);
+    await queryRunner.query(`DROP INDEX "IDX_02e0591342cece4bafe0b02c2a"`);
+    await queryRunner.query(`DROP INDEX "IDX_92e950a2513a79bb3fab273c92"`);
+    await queryRunner.query(`DROP INDEX "IDX_a7b3e1afadd6b52f3b6864745e"`);
+    await queryRunner.query(`DROP TABLE "reviews"`);
+    await queryRunner.query(`DROP INDEX "IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`DROP INDEX "IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`DROP TABLE "borrow_requests"`);
+    await queryRunner.query(`DROP INDEX "IDX_7540635fef1922f0b156b9ef74"`);
+    await queryRunner.query(`DROP INDEX "IDX_0777b63da90c27d6ed993dc60b"`);
+    await queryRunner.query(`DROP INDEX "IDX_22133395bd13b970ccd0c34ab2"`);
+    await queryRunner.query(`DROP TABLE "messages"`);
+    await queryRunner.query(`DROP INDEX "IDX_8dfa8c380d2860d5b5c42e04b0"`);
+    await queryRunner.query(`DROP INDEX "IDX_53eddd786c123373d58112d597"`);
+    await queryRunner.query(`DROP TABLE "chats"`);
+    await queryRunner.query(`DROP INDEX "IDX_26d44235f2ba164593c26b4a19"`);
+    await queryRunner.query(`DROP TABLE "resource_photos"`);
+    await queryRunner.query(`DROP INDEX "IDX_4e1b470cad50d04f4436224fb8"`);
+    await queryRunner.query(`DROP INDEX "IDX_47461ff0f44e1fe16336913c09"`);
+    await queryRunner.query(`DROP INDEX "IDX_bb3059bfaa6904b413ca41c818"`);
+    await queryRunner.query(`DROP TABLE "resources"`);
+    await queryRunner.query(`DROP INDEX "IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+  }
+}
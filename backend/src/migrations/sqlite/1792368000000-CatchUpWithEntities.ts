@@ -0,0 +1,568 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Everything added to the schema between the first release and the move to migrations
+ * Tables that change shape are rebuilt by copying their rows, so existing data is kept
+ */
+export class CatchUpWithEntities1792368000000 implements MigrationInterface {
+  name = "CatchUpWithEntities1792368000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "borrow_request_events" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "actor_id" integer, "from_status" varchar, "to_status" varchar NOT NULL, "note" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_5d43b982d0e41515b61bef2706" ON "borrow_request_events" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "deposit_ledger_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "type" varchar NOT NULL, "amount" decimal(8,2) NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "reason" varchar(1000), "created_by" integer, "owner_confirmed_at" datetime, "borrower_confirmed_at" datetime, "resolved_by" integer, "provider_reference" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_387873f5fcc2a0f1f0b3f17efa" ON "deposit_ledger_entries" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "dispute_statements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "author_id" integer NOT NULL, "party" varchar NOT NULL, "body" varchar(2000) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_b665f26f8025a3d31ffa719595" ON "dispute_statements" ("dispute_id", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "dispute_evidence" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "party" varchar NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "caption" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_e5002398b258a9c604b22e5bc8" ON "dispute_evidence" ("dispute_id")`);
+    await queryRunner.query(`CREATE TABLE "dispute_cases" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "opened_by" integer NOT NULL, "status" varchar NOT NULL DEFAULT ('open'), "reason" varchar(1000) NOT NULL, "claimed_amount" decimal(8,2), "outcome" varchar, "decision_notes" varchar(1000), "withheld_amount" decimal(8,2), "decided_by" integer, "decided_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_736e08f2f77d63fd8c9f74f949" ON "dispute_cases" ("status", "created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ef77a730b12914db128277f501" ON "dispute_cases" ("borrow_request_id")`);
+    await queryRunner.query(`CREATE TABLE "condition_report_photos" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "report_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_519e2e7ec99a0128b3d975345c" ON "condition_report_photos" ("report_id")`);
+    await queryRunner.query(`CREATE TABLE "condition_reports" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "stage" varchar NOT NULL, "condition" varchar NOT NULL, "checklist" json NOT NULL, "notes" varchar(1000), "created_by" integer NOT NULL, "updated_by" integer, "owner_signed_at" datetime, "borrower_signed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_209ed8dd1a766d961b0ae94af2" ON "condition_reports" ("borrow_request_id", "stage")`);
+    await queryRunner.query(`CREATE TABLE "borrow_extensions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "requested_by" integer NOT NULL, "previous_end_date" date NOT NULL, "requested_end_date" date NOT NULL, "message" varchar(500), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(500), "responded_by" integer, "responded_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_87e26d7894b4082cd258c3a81e" ON "borrow_extensions" ("borrow_request_id", "status")`);
+    await queryRunner.query(`CREATE TABLE "borrow_request_groups" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "requester_id" integer NOT NULL, "owner_id" integer NOT NULL, "recurrence_frequency" varchar, "occurrences" integer NOT NULL DEFAULT (1), "message" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_8952f94d122fcf4bd37f4a0512" ON "borrow_request_groups" ("owner_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_849e68654d0f85f346b3aaf31b" ON "borrow_request_groups" ("requester_id")`);
+    await queryRunner.query(`CREATE TABLE "resource_blackouts" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "reason" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_6ddb7366adfeaf61b3520288cb" ON "resource_blackouts" ("resource_id", "start_date", "end_date")`);
+    await queryRunner.query(`CREATE TABLE "waitlist_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "user_id" integer NOT NULL, "start_date" date, "end_date" date, "status" varchar NOT NULL DEFAULT ('waiting'), "hold_start_date" date, "hold_end_date" date, "hold_expires_at" datetime, "offered_at" datetime, "borrow_request_id" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a479f0094a22097122d167b3e" ON "waitlist_entries" ("user_id", "status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_50be8f830ebc6451558148e9f4" ON "waitlist_entries" ("resource_id", "status", "created_at")`);
+    await queryRunner.query(`CREATE TABLE "moderation_actions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "moderator_id" integer NOT NULL, "target_type" varchar NOT NULL, "target_id" integer NOT NULL, "action" varchar NOT NULL, "reason" varchar(500) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_9794bffb7a800bb7051a466623" ON "moderation_actions" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_d891b13e150f7bf62e48f349d8" ON "moderation_actions" ("moderator_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_7eaca5a32b2cef3280f4524fbf" ON "moderation_actions" ("target_type", "target_id")`);
+    await queryRunner.query(`CREATE TABLE "scheduled_jobs" ("name" varchar(100) PRIMARY KEY NOT NULL, "interval_ms" integer NOT NULL, "last_run_at" datetime, "last_status" varchar, "last_duration_ms" integer, "last_error" varchar(1000), "run_count" integer NOT NULL DEFAULT (0), "failure_count" integer NOT NULL DEFAULT (0), "locked_until" datetime, "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "job_runs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "job_name" varchar(100) NOT NULL, "status" varchar NOT NULL DEFAULT ('running'), "trigger" varchar NOT NULL DEFAULT ('schedule'), "triggered_by" integer, "started_at" datetime NOT NULL, "finished_at" datetime, "duration_ms" integer, "result" json, "error" varchar(1000))`);
+    await queryRunner.query(`CREATE INDEX "IDX_435d7949e63168114c7d4bdfe5" ON "job_runs" ("started_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_f4040a73e315acb0d5abef250e" ON "job_runs" ("job_name")`);
+    await queryRunner.query(`CREATE TABLE "saved_searches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "name" varchar(100) NOT NULL, "filters" json NOT NULL, "alerts_enabled" boolean NOT NULL DEFAULT (1), "alert_interval_hours" integer NOT NULL DEFAULT (1), "last_notified_at" datetime, "suppressed_matches" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_3ecd1b72ed9c76d284b2a32892" ON "saved_searches" ("alerts_enabled")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8f01d13ac8e7b451d244674274" ON "saved_searches" ("user_id")`);
+    await queryRunner.query(`CREATE TABLE "favourites" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "resource_id" integer NOT NULL, "notify_when_available" boolean NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a83ffcd28354db0dce5f3a669" ON "favourites" ("resource_id", "notify_when_available")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1e0d839bfe506bfaed6879e892" ON "favourites" ("user_id", "resource_id")`);
+    await queryRunner.query(`CREATE TABLE "community_memberships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "community_id" integer NOT NULL, "user_id" integer NOT NULL, "joined_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_d5d2b195d29c299e5c2ab08a1b" ON "community_memberships" ("user_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_aa7dd5a3ca801dc482164fbfd7" ON "community_memberships" ("community_id", "user_id")`);
+    await queryRunner.query(`CREATE TABLE "communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" varchar(500), "boundary" json, "center_latitude" decimal(10,8), "center_longitude" decimal(11,8), "radius_km" decimal(6,2), "member_count" integer NOT NULL DEFAULT (0), "created_by" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_501bb6c8f7c8e8a7d614d9435f6" UNIQUE ("name"))`);
+    await queryRunner.query(`CREATE TABLE "resource_communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "community_id" integer NOT NULL)`);
+    await queryRunner.query(`CREATE INDEX "IDX_e4f06850133ed6265dcb8cfe41" ON "resource_communities" ("community_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e" ON "resource_communities" ("resource_id", "community_id")`);
+    await queryRunner.query(`CREATE TABLE "location_vouches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "verification_id" integer NOT NULL, "voucher_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_b15cebece23a1bc0c2cefb467b" ON "location_vouches" ("voucher_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_c524ec5cfdd413f11c9a2a36a4" ON "location_vouches" ("verification_id", "voucher_id")`);
+    await queryRunner.query(`CREATE TABLE "location_verifications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "method" varchar NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "address" varchar(255), "latitude" decimal(10,8) NOT NULL, "longitude" decimal(11,8) NOT NULL, "code_hash" varchar, "attempts" integer NOT NULL DEFAULT (0), "max_attempts" integer, "required_vouches" integer, "vouch_count" integer NOT NULL DEFAULT (0), "note" varchar(500), "reviewed_by" integer, "review_note" varchar(500), "expires_at" datetime NOT NULL, "completed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40" ON "location_verifications" ("status", "expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_32854c60630246f168016cb48b" ON "location_verifications" ("method", "status", "latitude", "longitude")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1a320166037ec19391f5079381" ON "location_verifications" ("user_id", "status")`);
+    await queryRunner.query(`CREATE TABLE "account_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "purpose" varchar NOT NULL, "token_hash" varchar(64) NOT NULL, "expires_at" datetime NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_dc3fdc213b9bfc438a86fed443" ON "account_tokens" ("user_id", "purpose", "created_at")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_167033390a71c52224c7c636c8" ON "account_tokens" ("token_hash")`);
+    await queryRunner.query(`CREATE TABLE "user_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "refresh_token_hash" varchar(64) NOT NULL, "device" varchar(100) NOT NULL, "user_agent" varchar(500), "ip_address" varchar(45), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "last_used_at" datetime NOT NULL, "expires_at" datetime NOT NULL, "revoked_at" datetime, "revoked_reason" varchar)`);
+    await queryRunner.query(`CREATE INDEX "IDX_dbc81ff542b1b3366bae195f2a" ON "user_sessions" ("expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_0500261b4f4ada1ce868296858" ON "user_sessions" ("user_id", "revoked_at")`);
+    await queryRunner.query(`CREATE TABLE "user_two_factor" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "secret_encrypted" varchar(255) NOT NULL, "enabled_at" datetime, "last_used_step" integer, "failed_attempts" integer NOT NULL DEFAULT (0), "locked_until" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "REL_0e865d85e0ad6329b40523afe5" UNIQUE ("user_id"))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_0e865d85e0ad6329b40523afe5" ON "user_two_factor" ("user_id")`);
+    await queryRunner.query(`CREATE TABLE "two_factor_recovery_codes" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "code_hash" varchar(100) NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_9dbd75b07b2b94857973544bbd" ON "two_factor_recovery_codes" ("user_id", "used_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`CREATE TABLE "temporary_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(100) NOT NULL, "password" varchar NOT NULL, "phone" varchar(15), "address" varchar(255), "latitude" decimal(10,8), "longitude" decimal(11,8), "neighborhood" varchar(100), "postal_code" varchar(10), "bio" varchar(500), "avatar_url" varchar(255), "is_email_verified" boolean NOT NULL DEFAULT (0), "is_location_verified" boolean NOT NULL DEFAULT (0), "is_active" boolean NOT NULL DEFAULT (1), "verification_status" varchar NOT NULL DEFAULT ('pending'), "last_login" datetime, "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "items_shared" integer NOT NULL DEFAULT (0), "successful_borrows" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`INSERT INTO "temporary_users"("id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at") SELECT "id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at" FROM "users"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`DROP INDEX "IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`DROP INDEX "IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`CREATE TABLE "temporary_borrow_requests" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" varchar(1000), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(1000), "deposit_amount" decimal(8,2), "deposit_paid" boolean NOT NULL DEFAULT (0), "deposit_returned" boolean NOT NULL DEFAULT (0), "requested_at" datetime, "responded_at" datetime, "picked_up_at" datetime, "returned_at" datetime, "due_date" datetime, "pickup_notes" varchar(500), "return_notes" varchar(500), "pickup_location" varchar(255), "return_location" varchar(255), "has_issues" boolean NOT NULL DEFAULT (0), "issue_description" varchar(1000), "issue_reported_at" datetime, "issue_resolved" boolean NOT NULL DEFAULT (0), "emergency_contact" varchar(15), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), "group_id" integer, CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_borrow_requests"("id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at") SELECT "id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at" FROM "borrow_requests"`);
+    await queryRunner.query(`DROP TABLE "borrow_requests"`);
+    await queryRunner.query(`ALTER TABLE "temporary_borrow_requests" RENAME TO "borrow_requests"`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`DROP INDEX "IDX_4e1b470cad50d04f4436224fb8"`);
+    await queryRunner.query(`DROP INDEX "IDX_47461ff0f44e1fe16336913c09"`);
+    await queryRunner.query(`DROP INDEX "IDX_bb3059bfaa6904b413ca41c818"`);
+    await queryRunner.query(`CREATE TABLE "temporary_resources" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar(200) NOT NULL, "description" text NOT NULL, "category" varchar(50) NOT NULL, "estimated_value" decimal(10,2), "condition" varchar NOT NULL DEFAULT ('good'), "condition_notes" varchar(500), "is_available" boolean NOT NULL DEFAULT (1), "max_borrow_days" integer, "deposit_required" decimal(8,2), "pickup_required" boolean NOT NULL DEFAULT (0), "pickup_instructions" varchar(500), "usage_instructions" varchar(500), "location_notes" varchar(255), "available_days" json, "available_time_start" time, "available_time_end" time, "views_count" integer NOT NULL DEFAULT (0), "borrow_count" integer NOT NULL DEFAULT (0), "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "status" varchar NOT NULL DEFAULT ('active'), "last_borrowed" datetime, "owner_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), "favourite_count" integer NOT NULL DEFAULT (0), "visibility" varchar NOT NULL DEFAULT ('public'), CONSTRAINT "FK_a417f48b883e7efb9ae90a7bcb3" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_resources"("id", "title", "description", "category", "estimated_value", "condition", "condition_notes", "is_available", "max_borrow_days", "deposit_required", "pickup_required", "pickup_instructions", "usage_instructions", "location_notes", "available_days", "available_time_start", "available_time_end", "views_count", "borrow_count", "average_rating", "total_ratings", "status", "last_borrowed", "owner_id", "created_at", "updated_at") SELECT "id", "title", "description", "category", "estimated_value", "condition", "condition_notes", "is_available", "max_borrow_days", "deposit_required", "pickup_required", "pickup_instructions", "usage_instructions", "location_notes", "available_days", "available_time_start", "available_time_end", "views_count", "borrow_count", "average_rating", "total_ratings", "status", "last_borrowed", "owner_id", "created_at", "updated_at" FROM "resources"`);
+    await queryRunner.query(`DROP TABLE "resources"`);
+    await queryRunner.query(`ALTER TABLE "temporary_resources" RENAME TO "resources"`);
+    await queryRunner.query(`CREATE INDEX "IDX_4e1b470cad50d04f4436224fb8" ON "resources" ("category")`);
+    await queryRunner.query(`CREATE INDEX "IDX_47461ff0f44e1fe16336913c09" ON "resources" ("is_available")`);
+    await queryRunner.query(`CREATE INDEX "IDX_bb3059bfaa6904b413ca41c818" ON "resources" ("created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`CREATE TABLE "temporary_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(100) NOT NULL, "password" varchar NOT NULL, "phone" varchar(15), "address" varchar(255), "latitude" decimal(10,8), "longitude" decimal(11,8), "neighborhood" varchar(100), "postal_code" varchar(10), "bio" varchar(500), "avatar_url" varchar(255), "is_email_verified" boolean NOT NULL DEFAULT (0), "is_location_verified" boolean NOT NULL DEFAULT (0), "is_active" boolean NOT NULL DEFAULT (1), "verification_status" varchar NOT NULL DEFAULT ('pending'), "last_login" datetime, "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "items_shared" integer NOT NULL DEFAULT (0), "successful_borrows" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), "role" varchar NOT NULL DEFAULT ('member'), "two_factor_enabled" boolean NOT NULL DEFAULT (0), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`INSERT INTO "temporary_users"("id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at") SELECT "id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at" FROM "users"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`CREATE INDEX "IDX_477f94e42c89f5d691a5761745" ON "borrow_requests" ("group_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_5d43b982d0e41515b61bef2706"`);
+    await queryRunner.query(`CREATE TABLE "temporary_borrow_request_events" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "actor_id" integer, "from_status" varchar, "to_status" varchar NOT NULL, "note" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_9205ab44944d77318d640628054" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_f9e4195d175446d861cab6c6753" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_borrow_request_events"("id", "borrow_request_id", "actor_id", "from_status", "to_status", "note", "created_at") SELECT "id", "borrow_request_id", "actor_id", "from_status", "to_status", "note", "created_at" FROM "borrow_request_events"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_events"`);
+    await queryRunner.query(`ALTER TABLE "temporary_borrow_request_events" RENAME TO "borrow_request_events"`);
+    await queryRunner.query(`CREATE INDEX "IDX_5d43b982d0e41515b61bef2706" ON "borrow_request_events" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_387873f5fcc2a0f1f0b3f17efa"`);
+    await queryRunner.query(`CREATE TABLE "temporary_deposit_ledger_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "type" varchar NOT NULL, "amount" decimal(8,2) NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "reason" varchar(1000), "created_by" integer, "owner_confirmed_at" datetime, "borrower_confirmed_at" datetime, "resolved_by" integer, "provider_reference" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_fcb759d6b6d8423658f47ebcd27" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_08db19df6198e6d924cab892992" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_deposit_ledger_entries"("id", "borrow_request_id", "type", "amount", "status", "reason", "created_by", "owner_confirmed_at", "borrower_confirmed_at", "resolved_by", "provider_reference", "created_at", "updated_at") SELECT "id", "borrow_request_id", "type", "amount", "status", "reason", "created_by", "owner_confirmed_at", "borrower_confirmed_at", "resolved_by", "provider_reference", "created_at", "updated_at" FROM "deposit_ledger_entries"`);
+    await queryRunner.query(`DROP TABLE "deposit_ledger_entries"`);
+    await queryRunner.query(`ALTER TABLE "temporary_deposit_ledger_entries" RENAME TO "deposit_ledger_entries"`);
+    await queryRunner.query(`CREATE INDEX "IDX_387873f5fcc2a0f1f0b3f17efa" ON "deposit_ledger_entries" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_b665f26f8025a3d31ffa719595"`);
+    await queryRunner.query(`CREATE TABLE "temporary_dispute_statements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "author_id" integer NOT NULL, "party" varchar NOT NULL, "body" varchar(2000) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_b109650554e03046ef113320a11" FOREIGN KEY ("dispute_id") REFERENCES "dispute_cases" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_9bbbb9e413a2ead429eda10f6b5" FOREIGN KEY ("author_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_dispute_statements"("id", "dispute_id", "author_id", "party", "body", "created_at") SELECT "id", "dispute_id", "author_id", "party", "body", "created_at" FROM "dispute_statements"`);
+    await queryRunner.query(`DROP TABLE "dispute_statements"`);
+    await queryRunner.query(`ALTER TABLE "temporary_dispute_statements" RENAME TO "dispute_statements"`);
+    await queryRunner.query(`CREATE INDEX "IDX_b665f26f8025a3d31ffa719595" ON "dispute_statements" ("dispute_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_e5002398b258a9c604b22e5bc8"`);
+    await queryRunner.query(`CREATE TABLE "temporary_dispute_evidence" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "party" varchar NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "caption" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_e5002398b258a9c604b22e5bc84" FOREIGN KEY ("dispute_id") REFERENCES "dispute_cases" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_69fe4c674de2ff4493321c84bf8" FOREIGN KEY ("uploaded_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_dispute_evidence"("id", "dispute_id", "uploaded_by", "party", "photo_filename", "photo_url", "file_size", "mime_type", "caption", "created_at") SELECT "id", "dispute_id", "uploaded_by", "party", "photo_filename", "photo_url", "file_size", "mime_type", "caption", "created_at" FROM "dispute_evidence"`);
+    await queryRunner.query(`DROP TABLE "dispute_evidence"`);
+    await queryRunner.query(`ALTER TABLE "temporary_dispute_evidence" RENAME TO "dispute_evidence"`);
+    await queryRunner.query(`CREATE INDEX "IDX_e5002398b258a9c604b22e5bc8" ON "dispute_evidence" ("dispute_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_736e08f2f77d63fd8c9f74f949"`);
+    await queryRunner.query(`DROP INDEX "IDX_ef77a730b12914db128277f501"`);
+    await queryRunner.query(`CREATE TABLE "temporary_dispute_cases" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "opened_by" integer NOT NULL, "status" varchar NOT NULL DEFAULT ('open'), "reason" varchar(1000) NOT NULL, "claimed_amount" decimal(8,2), "outcome" varchar, "decision_notes" varchar(1000), "withheld_amount" decimal(8,2), "decided_by" integer, "decided_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ef77a730b12914db128277f501f" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_e0e54125135bd9e34016d2ffd50" FOREIGN KEY ("opened_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_53e3488c543bb5eebb795327714" FOREIGN KEY ("decided_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_dispute_cases"("id", "borrow_request_id", "opened_by", "status", "reason", "claimed_amount", "outcome", "decision_notes", "withheld_amount", "decided_by", "decided_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "opened_by", "status", "reason", "claimed_amount", "outcome", "decision_notes", "withheld_amount", "decided_by", "decided_at", "created_at", "updated_at" FROM "dispute_cases"`);
+    await queryRunner.query(`DROP TABLE "dispute_cases"`);
+    await queryRunner.query(`ALTER TABLE "temporary_dispute_cases" RENAME TO "dispute_cases"`);
+    await queryRunner.query(`CREATE INDEX "IDX_736e08f2f77d63fd8c9f74f949" ON "dispute_cases" ("status", "created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ef77a730b12914db128277f501" ON "dispute_cases" ("borrow_request_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_519e2e7ec99a0128b3d975345c"`);
+    await queryRunner.query(`CREATE TABLE "temporary_condition_report_photos" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "report_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_519e2e7ec99a0128b3d975345cb" FOREIGN KEY ("report_id") REFERENCES "condition_reports" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_37f4356e166f9d511885c560796" FOREIGN KEY ("uploaded_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_condition_report_photos"("id", "report_id", "uploaded_by", "photo_filename", "photo_url", "file_size", "mime_type", "created_at") SELECT "id", "report_id", "uploaded_by", "photo_filename", "photo_url", "file_size", "mime_type", "created_at" FROM "condition_report_photos"`);
+    await queryRunner.query(`DROP TABLE "condition_report_photos"`);
+    await queryRunner.query(`ALTER TABLE "temporary_condition_report_photos" RENAME TO "condition_report_photos"`);
+    await queryRunner.query(`CREATE INDEX "IDX_519e2e7ec99a0128b3d975345c" ON "condition_report_photos" ("report_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_209ed8dd1a766d961b0ae94af2"`);
+    await queryRunner.query(`CREATE TABLE "temporary_condition_reports" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "stage" varchar NOT NULL, "condition" varchar NOT NULL, "checklist" json NOT NULL, "notes" varchar(1000), "created_by" integer NOT NULL, "updated_by" integer, "owner_signed_at" datetime, "borrower_signed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a39848347a7e0ce42a45102e4fc" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_c6ecb5880805dcb4e4a2e17da1b" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_condition_reports"("id", "borrow_request_id", "stage", "condition", "checklist", "notes", "created_by", "updated_by", "owner_signed_at", "borrower_signed_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "stage", "condition", "checklist", "notes", "created_by", "updated_by", "owner_signed_at", "borrower_signed_at", "created_at", "updated_at" FROM "condition_reports"`);
+    await queryRunner.query(`DROP TABLE "condition_reports"`);
+    await queryRunner.query(`ALTER TABLE "temporary_condition_reports" RENAME TO "condition_reports"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_209ed8dd1a766d961b0ae94af2" ON "condition_reports" ("borrow_request_id", "stage")`);
+    await queryRunner.query(`DROP INDEX "IDX_87e26d7894b4082cd258c3a81e"`);
+    await queryRunner.query(`CREATE TABLE "temporary_borrow_extensions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "requested_by" integer NOT NULL, "previous_end_date" date NOT NULL, "requested_end_date" date NOT NULL, "message" varchar(500), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(500), "responded_by" integer, "responded_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_0790c97b1ebf595f1649484294b" FOREIGN KEY ("borrow_request_id") REFERENCES "borrow_requests" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_e3030b73102463e592862181065" FOREIGN KEY ("requested_by") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_borrow_extensions"("id", "borrow_request_id", "requested_by", "previous_end_date", "requested_end_date", "message", "status", "response_message", "responded_by", "responded_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "requested_by", "previous_end_date", "requested_end_date", "message", "status", "response_message", "responded_by", "responded_at", "created_at", "updated_at" FROM "borrow_extensions"`);
+    await queryRunner.query(`DROP TABLE "borrow_extensions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_borrow_extensions" RENAME TO "borrow_extensions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_87e26d7894b4082cd258c3a81e" ON "borrow_extensions" ("borrow_request_id", "status")`);
+    await queryRunner.query(`DROP INDEX "IDX_8952f94d122fcf4bd37f4a0512"`);
+    await queryRunner.query(`DROP INDEX "IDX_849e68654d0f85f346b3aaf31b"`);
+    await queryRunner.query(`CREATE TABLE "temporary_borrow_request_groups" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "requester_id" integer NOT NULL, "owner_id" integer NOT NULL, "recurrence_frequency" varchar, "occurrences" integer NOT NULL DEFAULT (1), "message" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_849e68654d0f85f346b3aaf31b1" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_8952f94d122fcf4bd37f4a0512d" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_borrow_request_groups"("id", "requester_id", "owner_id", "recurrence_frequency", "occurrences", "message", "created_at") SELECT "id", "requester_id", "owner_id", "recurrence_frequency", "occurrences", "message", "created_at" FROM "borrow_request_groups"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_groups"`);
+    await queryRunner.query(`ALTER TABLE "temporary_borrow_request_groups" RENAME TO "borrow_request_groups"`);
+    await queryRunner.query(`CREATE INDEX "IDX_8952f94d122fcf4bd37f4a0512" ON "borrow_request_groups" ("owner_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_849e68654d0f85f346b3aaf31b" ON "borrow_request_groups" ("requester_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`DROP INDEX "IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`DROP INDEX "IDX_477f94e42c89f5d691a5761745"`);
+    await queryRunner.query(`CREATE TABLE "temporary_borrow_requests" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" varchar(1000), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(1000), "deposit_amount" decimal(8,2), "deposit_paid" boolean NOT NULL DEFAULT (0), "deposit_returned" boolean NOT NULL DEFAULT (0), "requested_at" datetime, "responded_at" datetime, "picked_up_at" datetime, "returned_at" datetime, "due_date" datetime, "pickup_notes" varchar(500), "return_notes" varchar(500), "pickup_location" varchar(255), "return_location" varchar(255), "has_issues" boolean NOT NULL DEFAULT (0), "issue_description" varchar(1000), "issue_reported_at" datetime, "issue_resolved" boolean NOT NULL DEFAULT (0), "emergency_contact" varchar(15), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), "group_id" integer, CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_477f94e42c89f5d691a5761745b" FOREIGN KEY ("group_id") REFERENCES "borrow_request_groups" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_borrow_requests"("id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at", "group_id") SELECT "id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at", "group_id" FROM "borrow_requests"`);
+    await queryRunner.query(`DROP TABLE "borrow_requests"`);
+    await queryRunner.query(`ALTER TABLE "temporary_borrow_requests" RENAME TO "borrow_requests"`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`CREATE INDEX "IDX_477f94e42c89f5d691a5761745" ON "borrow_requests" ("group_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_6ddb7366adfeaf61b3520288cb"`);
+    await queryRunner.query(`CREATE TABLE "temporary_resource_blackouts" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "reason" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_336237937c82a63926fde6b29f7" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_resource_blackouts"("id", "resource_id", "start_date", "end_date", "reason", "created_at") SELECT "id", "resource_id", "start_date", "end_date", "reason", "created_at" FROM "resource_blackouts"`);
+    await queryRunner.query(`DROP TABLE "resource_blackouts"`);
+    await queryRunner.query(`ALTER TABLE "temporary_resource_blackouts" RENAME TO "resource_blackouts"`);
+    await queryRunner.query(`CREATE INDEX "IDX_6ddb7366adfeaf61b3520288cb" ON "resource_blackouts" ("resource_id", "start_date", "end_date")`);
+    await queryRunner.query(`DROP INDEX "IDX_4a479f0094a22097122d167b3e"`);
+    await queryRunner.query(`DROP INDEX "IDX_50be8f830ebc6451558148e9f4"`);
+    await queryRunner.query(`CREATE TABLE "temporary_waitlist_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "user_id" integer NOT NULL, "start_date" date, "end_date" date, "status" varchar NOT NULL DEFAULT ('waiting'), "hold_start_date" date, "hold_end_date" date, "hold_expires_at" datetime, "offered_at" datetime, "borrow_request_id" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_4b8aa17c1469c9f8fed88010885" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_accc0d911773551b2eed1a2ed72" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_waitlist_entries"("id", "resource_id", "user_id", "start_date", "end_date", "status", "hold_start_date", "hold_end_date", "hold_expires_at", "offered_at", "borrow_request_id", "created_at", "updated_at") SELECT "id", "resource_id", "user_id", "start_date", "end_date", "status", "hold_start_date", "hold_end_date", "hold_expires_at", "offered_at", "borrow_request_id", "created_at", "updated_at" FROM "waitlist_entries"`);
+    await queryRunner.query(`DROP TABLE "waitlist_entries"`);
+    await queryRunner.query(`ALTER TABLE "temporary_waitlist_entries" RENAME TO "waitlist_entries"`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a479f0094a22097122d167b3e" ON "waitlist_entries" ("user_id", "status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_50be8f830ebc6451558148e9f4" ON "waitlist_entries" ("resource_id", "status", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_9794bffb7a800bb7051a466623"`);
+    await queryRunner.query(`DROP INDEX "IDX_d891b13e150f7bf62e48f349d8"`);
+    await queryRunner.query(`DROP INDEX "IDX_7eaca5a32b2cef3280f4524fbf"`);
+    await queryRunner.query(`CREATE TABLE "temporary_moderation_actions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "moderator_id" integer NOT NULL, "target_type" varchar NOT NULL, "target_id" integer NOT NULL, "action" varchar NOT NULL, "reason" varchar(500) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_d891b13e150f7bf62e48f349d82" FOREIGN KEY ("moderator_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_moderation_actions"("id", "moderator_id", "target_type", "target_id", "action", "reason", "created_at") SELECT "id", "moderator_id", "target_type", "target_id", "action", "reason", "created_at" FROM "moderation_actions"`);
+    await queryRunner.query(`DROP TABLE "moderation_actions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_moderation_actions" RENAME TO "moderation_actions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_9794bffb7a800bb7051a466623" ON "moderation_actions" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_d891b13e150f7bf62e48f349d8" ON "moderation_actions" ("moderator_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_7eaca5a32b2cef3280f4524fbf" ON "moderation_actions" ("target_type", "target_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_3ecd1b72ed9c76d284b2a32892"`);
+    await queryRunner.query(`DROP INDEX "IDX_8f01d13ac8e7b451d244674274"`);
+    await queryRunner.query(`CREATE TABLE "temporary_saved_searches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "name" varchar(100) NOT NULL, "filters" json NOT NULL, "alerts_enabled" boolean NOT NULL DEFAULT (1), "alert_interval_hours" integer NOT NULL DEFAULT (1), "last_notified_at" datetime, "suppressed_matches" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_8f01d13ac8e7b451d244674274f" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_saved_searches"("id", "user_id", "name", "filters", "alerts_enabled", "alert_interval_hours", "last_notified_at", "suppressed_matches", "created_at", "updated_at") SELECT "id", "user_id", "name", "filters", "alerts_enabled", "alert_interval_hours", "last_notified_at", "suppressed_matches", "created_at", "updated_at" FROM "saved_searches"`);
+    await queryRunner.query(`DROP TABLE "saved_searches"`);
+    await queryRunner.query(`ALTER TABLE "temporary_saved_searches" RENAME TO "saved_searches"`);
+    await queryRunner.query(`CREATE INDEX "IDX_3ecd1b72ed9c76d284b2a32892" ON "saved_searches" ("alerts_enabled")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8f01d13ac8e7b451d244674274" ON "saved_searches" ("user_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_4a83ffcd28354db0dce5f3a669"`);
+    await queryRunner.query(`DROP INDEX "IDX_1e0d839bfe506bfaed6879e892"`);
+    await queryRunner.query(`CREATE TABLE "temporary_favourites" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "resource_id" integer NOT NULL, "notify_when_available" boolean NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ffb0866c42b7ff4d6e5131f3dcc" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_4f5ce5401e7e2652d96f34a2dbf" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_favourites"("id", "user_id", "resource_id", "notify_when_available", "created_at") SELECT "id", "user_id", "resource_id", "notify_when_available", "created_at" FROM "favourites"`);
+    await queryRunner.query(`DROP TABLE "favourites"`);
+    await queryRunner.query(`ALTER TABLE "temporary_favourites" RENAME TO "favourites"`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a83ffcd28354db0dce5f3a669" ON "favourites" ("resource_id", "notify_when_available")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1e0d839bfe506bfaed6879e892" ON "favourites" ("user_id", "resource_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_d5d2b195d29c299e5c2ab08a1b"`);
+    await queryRunner.query(`DROP INDEX "IDX_aa7dd5a3ca801dc482164fbfd7"`);
+    await queryRunner.query(`CREATE TABLE "temporary_community_memberships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "community_id" integer NOT NULL, "user_id" integer NOT NULL, "joined_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_b61b4ab4be4ff467c514686b11d" FOREIGN KEY ("community_id") REFERENCES "communities" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_d5d2b195d29c299e5c2ab08a1b7" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_community_memberships"("id", "community_id", "user_id", "joined_at") SELECT "id", "community_id", "user_id", "joined_at" FROM "community_memberships"`);
+    await queryRunner.query(`DROP TABLE "community_memberships"`);
+    await queryRunner.query(`ALTER TABLE "temporary_community_memberships" RENAME TO "community_memberships"`);
+    await queryRunner.query(`CREATE INDEX "IDX_d5d2b195d29c299e5c2ab08a1b" ON "community_memberships" ("user_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_aa7dd5a3ca801dc482164fbfd7" ON "community_memberships" ("community_id", "user_id")`);
+    await queryRunner.query(`CREATE TABLE "temporary_communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" varchar(500), "boundary" json, "center_latitude" decimal(10,8), "center_longitude" decimal(11,8), "radius_km" decimal(6,2), "member_count" integer NOT NULL DEFAULT (0), "created_by" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_501bb6c8f7c8e8a7d614d9435f6" UNIQUE ("name"), CONSTRAINT "FK_39793f5d3c7464578d8b03f4360" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_communities"("id", "name", "description", "boundary", "center_latitude", "center_longitude", "radius_km", "member_count", "created_by", "created_at", "updated_at") SELECT "id", "name", "description", "boundary", "center_latitude", "center_longitude", "radius_km", "member_count", "created_by", "created_at", "updated_at" FROM "communities"`);
+    await queryRunner.query(`DROP TABLE "communities"`);
+    await queryRunner.query(`ALTER TABLE "temporary_communities" RENAME TO "communities"`);
+    await queryRunner.query(`DROP INDEX "IDX_e4f06850133ed6265dcb8cfe41"`);
+    await queryRunner.query(`DROP INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e"`);
+    await queryRunner.query(`CREATE TABLE "temporary_resource_communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "community_id" integer NOT NULL, CONSTRAINT "FK_388f5e2ee520eff68a429a4aef8" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_e4f06850133ed6265dcb8cfe41c" FOREIGN KEY ("community_id") REFERENCES "communities" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_resource_communities"("id", "resource_id", "community_id") SELECT "id", "resource_id", "community_id" FROM "resource_communities"`);
+    await queryRunner.query(`DROP TABLE "resource_communities"`);
+    await queryRunner.query(`ALTER TABLE "temporary_resource_communities" RENAME TO "resource_communities"`);
+    await queryRunner.query(`CREATE INDEX "IDX_e4f06850133ed6265dcb8cfe41" ON "resource_communities" ("community_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e" ON "resource_communities" ("resource_id", "community_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_b15cebece23a1bc0c2cefb467b"`);
+    await queryRunner.query(`DROP INDEX "IDX_c524ec5cfdd413f11c9a2a36a4"`);
+    await queryRunner.query(`CREATE TABLE "temporary_location_vouches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "verification_id" integer NOT NULL, "voucher_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1361fc53343663564eb53345db7" FOREIGN KEY ("verification_id") REFERENCES "location_verifications" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_b15cebece23a1bc0c2cefb467ba" FOREIGN KEY ("voucher_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_location_vouches"("id", "verification_id", "voucher_id", "created_at") SELECT "id", "verification_id", "voucher_id", "created_at" FROM "location_vouches"`);
+    await queryRunner.query(`DROP TABLE "location_vouches"`);
+    await queryRunner.query(`ALTER TABLE "temporary_location_vouches" RENAME TO "location_vouches"`);
+    await queryRunner.query(`CREATE INDEX "IDX_b15cebece23a1bc0c2cefb467b" ON "location_vouches" ("voucher_id")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_c524ec5cfdd413f11c9a2a36a4" ON "location_vouches" ("verification_id", "voucher_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40"`);
+    await queryRunner.query(`DROP INDEX "IDX_32854c60630246f168016cb48b"`);
+    await queryRunner.query(`DROP INDEX "IDX_1a320166037ec19391f5079381"`);
+    await queryRunner.query(`CREATE TABLE "temporary_location_verifications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "method" varchar NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "address" varchar(255), "latitude" decimal(10,8) NOT NULL, "longitude" decimal(11,8) NOT NULL, "code_hash" varchar, "attempts" integer NOT NULL DEFAULT (0), "max_attempts" integer, "required_vouches" integer, "vouch_count" integer NOT NULL DEFAULT (0), "note" varchar(500), "reviewed_by" integer, "review_note" varchar(500), "expires_at" datetime NOT NULL, "completed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_c23677a6056c5cb8e5a5eeeaf51" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_bdae0d666b0ae2f730f9f1e28a1" FOREIGN KEY ("reviewed_by") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_location_verifications"("id", "user_id", "method", "status", "address", "latitude", "longitude", "code_hash", "attempts", "max_attempts", "required_vouches", "vouch_count", "note", "reviewed_by", "review_note", "expires_at", "completed_at", "created_at", "updated_at") SELECT "id", "user_id", "method", "status", "address", "latitude", "longitude", "code_hash", "attempts", "max_attempts", "required_vouches", "vouch_count", "note", "reviewed_by", "review_note", "expires_at", "completed_at", "created_at", "updated_at" FROM "location_verifications"`);
+    await queryRunner.query(`DROP TABLE "location_verifications"`);
+    await queryRunner.query(`ALTER TABLE "temporary_location_verifications" RENAME TO "location_verifications"`);
+    await queryRunner.query(`CREATE INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40" ON "location_verifications" ("status", "expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_32854c60630246f168016cb48b" ON "location_verifications" ("method", "status", "latitude", "longitude")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1a320166037ec19391f5079381" ON "location_verifications" ("user_id", "status")`);
+    await queryRunner.query(`DROP INDEX "IDX_dc3fdc213b9bfc438a86fed443"`);
+    await queryRunner.query(`DROP INDEX "IDX_167033390a71c52224c7c636c8"`);
+    await queryRunner.query(`CREATE TABLE "temporary_account_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "purpose" varchar NOT NULL, "token_hash" varchar(64) NOT NULL, "expires_at" datetime NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1b5fea09efc20c7f63c4a09b3d6" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_account_tokens"("id", "user_id", "purpose", "token_hash", "expires_at", "used_at", "created_at") SELECT "id", "user_id", "purpose", "token_hash", "expires_at", "used_at", "created_at" FROM "account_tokens"`);
+    await queryRunner.query(`DROP TABLE "account_tokens"`);
+    await queryRunner.query(`ALTER TABLE "temporary_account_tokens" RENAME TO "account_tokens"`);
+    await queryRunner.query(`CREATE INDEX "IDX_dc3fdc213b9bfc438a86fed443" ON "account_tokens" ("user_id", "purpose", "created_at")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_167033390a71c52224c7c636c8" ON "account_tokens" ("token_hash")`);
+    await queryRunner.query(`DROP INDEX "IDX_dbc81ff542b1b3366bae195f2a"`);
+    await queryRunner.query(`DROP INDEX "IDX_0500261b4f4ada1ce868296858"`);
+    await queryRunner.query(`CREATE TABLE "temporary_user_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "refresh_token_hash" varchar(64) NOT NULL, "device" varchar(100) NOT NULL, "user_agent" varchar(500), "ip_address" varchar(45), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "last_used_at" datetime NOT NULL, "expires_at" datetime NOT NULL, "revoked_at" datetime, "revoked_reason" varchar, CONSTRAINT "FK_e9658e959c490b0a634dfc54783" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_user_sessions"("id", "user_id", "refresh_token_hash", "device", "user_agent", "ip_address", "created_at", "last_used_at", "expires_at", "revoked_at", "revoked_reason") SELECT "id", "user_id", "refresh_token_hash", "device", "user_agent", "ip_address", "created_at", "last_used_at", "expires_at", "revoked_at", "revoked_reason" FROM "user_sessions"`);
+    await queryRunner.query(`DROP TABLE "user_sessions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_user_sessions" RENAME TO "user_sessions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_dbc81ff542b1b3366bae195f2a" ON "user_sessions" ("expires_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_0500261b4f4ada1ce868296858" ON "user_sessions" ("user_id", "revoked_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_0e865d85e0ad6329b40523afe5"`);
+    await queryRunner.query(`CREATE TABLE "temporary_user_two_factor" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "secret_encrypted" varchar(255) NOT NULL, "enabled_at" datetime, "last_used_step" integer, "failed_attempts" integer NOT NULL DEFAULT (0), "locked_until" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "REL_0e865d85e0ad6329b40523afe5" UNIQUE ("user_id"), CONSTRAINT "FK_0e865d85e0ad6329b40523afe55" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_user_two_factor"("id", "user_id", "secret_encrypted", "enabled_at", "last_used_step", "failed_attempts", "locked_until", "created_at", "updated_at") SELECT "id", "user_id", "secret_encrypted", "enabled_at", "last_used_step", "failed_attempts", "locked_until", "created_at", "updated_at" FROM "user_two_factor"`);
+    await queryRunner.query(`DROP TABLE "user_two_factor"`);
+    await queryRunner.query(`ALTER TABLE "temporary_user_two_factor" RENAME TO "user_two_factor"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_0e865d85e0ad6329b40523afe5" ON "user_two_factor" ("user_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_9dbd75b07b2b94857973544bbd"`);
+    await queryRunner.query(`CREATE TABLE "temporary_two_factor_recovery_codes" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "code_hash" varchar(100) NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_dd306548ffdd22f617146670845" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_two_factor_recovery_codes"("id", "user_id", "code_hash", "used_at", "created_at") SELECT "id", "user_id", "code_hash", "used_at", "created_at" FROM "two_factor_recovery_codes"`);
+    await queryRunner.query(`DROP TABLE "two_factor_recovery_codes"`);
+    await queryRunner.query(`ALTER TABLE "temporary_two_factor_recovery_codes" RENAME TO "two_factor_recovery_codes"`);
+    await queryRunner.query(`CREATE INDEX "IDX_9dbd75b07b2b94857973544bbd" ON "two_factor_recovery_codes" ("user_id", "used_at")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_9dbd75b07b2b94857973544bbd"`);
+    await queryRunner.query(`ALTER TABLE "two_factor_recovery_codes" RENAME TO "temporary_two_factor_recovery_codes"`);
+    await queryRunner.query(`CREATE TABLE "two_factor_recovery_codes" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "code_hash" varchar(100) NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "two_factor_recovery_codes"("id", "user_id", "code_hash", "used_at", "created_at") SELECT "id", "user_id", "code_hash", "used_at", "created_at" FROM "temporary_two_factor_recovery_codes"`);
+    await queryRunner.query(`DROP TABLE "temporary_two_factor_recovery_codes"`);
+    await queryRunner.query(`CREATE INDEX "IDX_9dbd75b07b2b94857973544bbd" ON "two_factor_recovery_codes" ("user_id", "used_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_0e865d85e0ad6329b40523afe5"`);
+    await queryRunner.query(`ALTER TABLE "user_two_factor" RENAME TO "temporary_user_two_factor"`);
+    await queryRunner.query(`CREATE TABLE "user_two_factor" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "secret_encrypted" varchar(255) NOT NULL, "enabled_at" datetime, "last_used_step" integer, "failed_attempts" integer NOT NULL DEFAULT (0), "locked_until" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "REL_0e865d85e0ad6329b40523afe5" UNIQUE ("user_id"))`);
+    await queryRunner.query(`INSERT INTO "user_two_factor"("id", "user_id", "secret_encrypted", "enabled_at", "last_used_step", "failed_attempts", "locked_until", "created_at", "updated_at") SELECT "id", "user_id", "secret_encrypted", "enabled_at", "last_used_step", "failed_attempts", "locked_until", "created_at", "updated_at" FROM "temporary_user_two_factor"`);
+    await queryRunner.query(`DROP TABLE "temporary_user_two_factor"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_0e865d85e0ad6329b40523afe5" ON "user_two_factor" ("user_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_0500261b4f4ada1ce868296858"`);
+    await queryRunner.query(`DROP INDEX "IDX_dbc81ff542b1b3366bae195f2a"`);
+    await queryRunner.query(`ALTER TABLE "user_sessions" RENAME TO "temporary_user_sessions"`);
+    await queryRunner.query(`CREATE TABLE "user_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "refresh_token_hash" varchar(64) NOT NULL, "device" varchar(100) NOT NULL, "user_agent" varchar(500), "ip_address" varchar(45), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "last_used_at" datetime NOT NULL, "expires_at" datetime NOT NULL, "revoked_at" datetime, "revoked_reason" varchar)`);
+    await queryRunner.query(`INSERT INTO "user_sessions"("id", "user_id", "refresh_token_hash", "device", "user_agent", "ip_address", "created_at", "last_used_at", "expires_at", "revoked_at", "revoked_reason") SELECT "id", "user_id", "refresh_token_hash", "device", "user_agent", "ip_address", "created_at", "last_used_at", "expires_at", "revoked_at", "revoked_reason" FROM "temporary_user_sessions"`);
+    await queryRunner.query(`DROP TABLE "temporary_user_sessions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_0500261b4f4ada1ce868296858" ON "user_sessions" ("user_id", "revoked_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_dbc81ff542b1b3366bae195f2a" ON "user_sessions" ("expires_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_167033390a71c52224c7c636c8"`);
+    await queryRunner.query(`DROP INDEX "IDX_dc3fdc213b9bfc438a86fed443"`);
+    await queryRunner.query(`ALTER TABLE "account_tokens" RENAME TO "temporary_account_tokens"`);
+    await queryRunner.query(`CREATE TABLE "account_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "purpose" varchar NOT NULL, "token_hash" varchar(64) NOT NULL, "expires_at" datetime NOT NULL, "used_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "account_tokens"("id", "user_id", "purpose", "token_hash", "expires_at", "used_at", "created_at") SELECT "id", "user_id", "purpose", "token_hash", "expires_at", "used_at", "created_at" FROM "temporary_account_tokens"`);
+    await queryRunner.query(`DROP TABLE "temporary_account_tokens"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_167033390a71c52224c7c636c8" ON "account_tokens" ("token_hash")`);
+    await queryRunner.query(`CREATE INDEX "IDX_dc3fdc213b9bfc438a86fed443" ON "account_tokens" ("user_id", "purpose", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_1a320166037ec19391f5079381"`);
+    await queryRunner.query(`DROP INDEX "IDX_32854c60630246f168016cb48b"`);
+    await queryRunner.query(`DROP INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40"`);
+    await queryRunner.query(`ALTER TABLE "location_verifications" RENAME TO "temporary_location_verifications"`);
+    await queryRunner.query(`CREATE TABLE "location_verifications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "method" varchar NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "address" varchar(255), "latitude" decimal(10,8) NOT NULL, "longitude" decimal(11,8) NOT NULL, "code_hash" varchar, "attempts" integer NOT NULL DEFAULT (0), "max_attempts" integer, "required_vouches" integer, "vouch_count" integer NOT NULL DEFAULT (0), "note" varchar(500), "reviewed_by" integer, "review_note" varchar(500), "expires_at" datetime NOT NULL, "completed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "location_verifications"("id", "user_id", "method", "status", "address", "latitude", "longitude", "code_hash", "attempts", "max_attempts", "required_vouches", "vouch_count", "note", "reviewed_by", "review_note", "expires_at", "completed_at", "created_at", "updated_at") SELECT "id", "user_id", "method", "status", "address", "latitude", "longitude", "code_hash", "attempts", "max_attempts", "required_vouches", "vouch_count", "note", "reviewed_by", "review_note", "expires_at", "completed_at", "created_at", "updated_at" FROM "temporary_location_verifications"`);
+    await queryRunner.query(`DROP TABLE "temporary_location_verifications"`);
+    await queryRunner.query(`CREATE INDEX "IDX_1a320166037ec19391f5079381" ON "location_verifications" ("user_id", "status")`);
+    await queryRunner.query(`CREATE INDEX "IDX_32854c60630246f168016cb48b" ON "location_verifications" ("method", "status", "latitude", "longitude")`);
+    await queryRunner.query(`CREATE INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40" ON "location_verifications" ("status", "expires_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_c524ec5cfdd413f11c9a2a36a4"`);
+    await queryRunner.query(`DROP INDEX "IDX_b15cebece23a1bc0c2cefb467b"`);
+    await queryRunner.query(`ALTER TABLE "location_vouches" RENAME TO "temporary_location_vouches"`);
+    await queryRunner.query(`CREATE TABLE "location_vouches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "verification_id" integer NOT NULL, "voucher_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "location_vouches"("id", "verification_id", "voucher_id", "created_at") SELECT "id", "verification_id", "voucher_id", "created_at" FROM "temporary_location_vouches"`);
+    await queryRunner.query(`DROP TABLE "temporary_location_vouches"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_c524ec5cfdd413f11c9a2a36a4" ON "location_vouches" ("verification_id", "voucher_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_b15cebece23a1bc0c2cefb467b" ON "location_vouches" ("voucher_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e"`);
+    await queryRunner.query(`DROP INDEX "IDX_e4f06850133ed6265dcb8cfe41"`);
+    await queryRunner.query(`ALTER TABLE "resource_communities" RENAME TO "temporary_resource_communities"`);
+    await queryRunner.query(`CREATE TABLE "resource_communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "community_id" integer NOT NULL)`);
+    await queryRunner.query(`INSERT INTO "resource_communities"("id", "resource_id", "community_id") SELECT "id", "resource_id", "community_id" FROM "temporary_resource_communities"`);
+    await queryRunner.query(`DROP TABLE "temporary_resource_communities"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e" ON "resource_communities" ("resource_id", "community_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_e4f06850133ed6265dcb8cfe41" ON "resource_communities" ("community_id")`);
+    await queryRunner.query(`ALTER TABLE "communities" RENAME TO "temporary_communities"`);
+    await queryRunner.query(`CREATE TABLE "communities" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" varchar(500), "boundary" json, "center_latitude" decimal(10,8), "center_longitude" decimal(11,8), "radius_km" decimal(6,2), "member_count" integer NOT NULL DEFAULT (0), "created_by" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_501bb6c8f7c8e8a7d614d9435f6" UNIQUE ("name"))`);
+    await queryRunner.query(`INSERT INTO "communities"("id", "name", "description", "boundary", "center_latitude", "center_longitude", "radius_km", "member_count", "created_by", "created_at", "updated_at") SELECT "id", "name", "description", "boundary", "center_latitude", "center_longitude", "radius_km", "member_count", "created_by", "created_at", "updated_at" FROM "temporary_communities"`);
+    await queryRunner.query(`DROP TABLE "temporary_communities"`);
+    await queryRunner.query(`DROP INDEX "IDX_aa7dd5a3ca801dc482164fbfd7"`);
+    await queryRunner.query(`DROP INDEX "IDX_d5d2b195d29c299e5c2ab08a1b"`);
+    await queryRunner.query(`ALTER TABLE "community_memberships" RENAME TO "temporary_community_memberships"`);
+    await queryRunner.query(`CREATE TABLE "community_memberships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "community_id" integer NOT NULL, "user_id" integer NOT NULL, "joined_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "community_memberships"("id", "community_id", "user_id", "joined_at") SELECT "id", "community_id", "user_id", "joined_at" FROM "temporary_community_memberships"`);
+    await queryRunner.query(`DROP TABLE "temporary_community_memberships"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_aa7dd5a3ca801dc482164fbfd7" ON "community_memberships" ("community_id", "user_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_d5d2b195d29c299e5c2ab08a1b" ON "community_memberships" ("user_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_1e0d839bfe506bfaed6879e892"`);
+    await queryRunner.query(`DROP INDEX "IDX_4a83ffcd28354db0dce5f3a669"`);
+    await queryRunner.query(`ALTER TABLE "favourites" RENAME TO "temporary_favourites"`);
+    await queryRunner.query(`CREATE TABLE "favourites" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "resource_id" integer NOT NULL, "notify_when_available" boolean NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "favourites"("id", "user_id", "resource_id", "notify_when_available", "created_at") SELECT "id", "user_id", "resource_id", "notify_when_available", "created_at" FROM "temporary_favourites"`);
+    await queryRunner.query(`DROP TABLE "temporary_favourites"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1e0d839bfe506bfaed6879e892" ON "favourites" ("user_id", "resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a83ffcd28354db0dce5f3a669" ON "favourites" ("resource_id", "notify_when_available")`);
+    await queryRunner.query(`DROP INDEX "IDX_8f01d13ac8e7b451d244674274"`);
+    await queryRunner.query(`DROP INDEX "IDX_3ecd1b72ed9c76d284b2a32892"`);
+    await queryRunner.query(`ALTER TABLE "saved_searches" RENAME TO "temporary_saved_searches"`);
+    await queryRunner.query(`CREATE TABLE "saved_searches" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "user_id" integer NOT NULL, "name" varchar(100) NOT NULL, "filters" json NOT NULL, "alerts_enabled" boolean NOT NULL DEFAULT (1), "alert_interval_hours" integer NOT NULL DEFAULT (1), "last_notified_at" datetime, "suppressed_matches" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "saved_searches"("id", "user_id", "name", "filters", "alerts_enabled", "alert_interval_hours", "last_notified_at", "suppressed_matches", "created_at", "updated_at") SELECT "id", "user_id", "name", "filters", "alerts_enabled", "alert_interval_hours", "last_notified_at", "suppressed_matches", "created_at", "updated_at" FROM "temporary_saved_searches"`);
+    await queryRunner.query(`DROP TABLE "temporary_saved_searches"`);
+    await queryRunner.query(`CREATE INDEX "IDX_8f01d13ac8e7b451d244674274" ON "saved_searches" ("user_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_3ecd1b72ed9c76d284b2a32892" ON "saved_searches" ("alerts_enabled")`);
+    await queryRunner.query(`DROP INDEX "IDX_7eaca5a32b2cef3280f4524fbf"`);
+    await queryRunner.query(`DROP INDEX "IDX_d891b13e150f7bf62e48f349d8"`);
+    await queryRunner.query(`DROP INDEX "IDX_9794bffb7a800bb7051a466623"`);
+    await queryRunner.query(`ALTER TABLE "moderation_actions" RENAME TO "temporary_moderation_actions"`);
+    await queryRunner.query(`CREATE TABLE "moderation_actions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "moderator_id" integer NOT NULL, "target_type" varchar NOT NULL, "target_id" integer NOT NULL, "action" varchar NOT NULL, "reason" varchar(500) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "moderation_actions"("id", "moderator_id", "target_type", "target_id", "action", "reason", "created_at") SELECT "id", "moderator_id", "target_type", "target_id", "action", "reason", "created_at" FROM "temporary_moderation_actions"`);
+    await queryRunner.query(`DROP TABLE "temporary_moderation_actions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_7eaca5a32b2cef3280f4524fbf" ON "moderation_actions" ("target_type", "target_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_d891b13e150f7bf62e48f349d8" ON "moderation_actions" ("moderator_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_9794bffb7a800bb7051a466623" ON "moderation_actions" ("created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_50be8f830ebc6451558148e9f4"`);
+    await queryRunner.query(`DROP INDEX "IDX_4a479f0094a22097122d167b3e"`);
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" RENAME TO "temporary_waitlist_entries"`);
+    await queryRunner.query(`CREATE TABLE "waitlist_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "user_id" integer NOT NULL, "start_date" date, "end_date" date, "status" varchar NOT NULL DEFAULT ('waiting'), "hold_start_date" date, "hold_end_date" date, "hold_expires_at" datetime, "offered_at" datetime, "borrow_request_id" integer, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "waitlist_entries"("id", "resource_id", "user_id", "start_date", "end_date", "status", "hold_start_date", "hold_end_date", "hold_expires_at", "offered_at", "borrow_request_id", "created_at", "updated_at") SELECT "id", "resource_id", "user_id", "start_date", "end_date", "status", "hold_start_date", "hold_end_date", "hold_expires_at", "offered_at", "borrow_request_id", "created_at", "updated_at" FROM "temporary_waitlist_entries"`);
+    await queryRunner.query(`DROP TABLE "temporary_waitlist_entries"`);
+    await queryRunner.query(`CREATE INDEX "IDX_50be8f830ebc6451558148e9f4" ON "waitlist_entries" ("resource_id", "status", "created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_4a479f0094a22097122d167b3e" ON "waitlist_entries" ("user_id", "status")`);
+    await queryRunner.query(`DROP INDEX "IDX_6ddb7366adfeaf61b3520288cb"`);
+    await queryRunner.query(`ALTER TABLE "resource_blackouts" RENAME TO "temporary_resource_blackouts"`);
+    await queryRunner.query(`CREATE TABLE "resource_blackouts" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "reason" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "resource_blackouts"("id", "resource_id", "start_date", "end_date", "reason", "created_at") SELECT "id", "resource_id", "start_date", "end_date", "reason", "created_at" FROM "temporary_resource_blackouts"`);
+    await queryRunner.query(`DROP TABLE "temporary_resource_blackouts"`);
+    await queryRunner.query(`CREATE INDEX "IDX_6ddb7366adfeaf61b3520288cb" ON "resource_blackouts" ("resource_id", "start_date", "end_date")`);
+    await queryRunner.query(`DROP INDEX "IDX_477f94e42c89f5d691a5761745"`);
+    await queryRunner.query(`DROP INDEX "IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`DROP INDEX "IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" RENAME TO "temporary_borrow_requests"`);
+    await queryRunner.query(`CREATE TABLE "borrow_requests" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" varchar(1000), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(1000), "deposit_amount" decimal(8,2), "deposit_paid" boolean NOT NULL DEFAULT (0), "deposit_returned" boolean NOT NULL DEFAULT (0), "requested_at" datetime, "responded_at" datetime, "picked_up_at" datetime, "returned_at" datetime, "due_date" datetime, "pickup_notes" varchar(500), "return_notes" varchar(500), "pickup_location" varchar(255), "return_location" varchar(255), "has_issues" boolean NOT NULL DEFAULT (0), "issue_description" varchar(1000), "issue_reported_at" datetime, "issue_resolved" boolean NOT NULL DEFAULT (0), "emergency_contact" varchar(15), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), "group_id" integer, CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "borrow_requests"("id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at", "group_id") SELECT "id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at", "group_id" FROM "temporary_borrow_requests"`);
+    await queryRunner.query(`DROP TABLE "temporary_borrow_requests"`);
+    await queryRunner.query(`CREATE INDEX "IDX_477f94e42c89f5d691a5761745" ON "borrow_requests" ("group_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`DROP INDEX "IDX_849e68654d0f85f346b3aaf31b"`);
+    await queryRunner.query(`DROP INDEX "IDX_8952f94d122fcf4bd37f4a0512"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_groups" RENAME TO "temporary_borrow_request_groups"`);
+    await queryRunner.query(`CREATE TABLE "borrow_request_groups" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "requester_id" integer NOT NULL, "owner_id" integer NOT NULL, "recurrence_frequency" varchar, "occurrences" integer NOT NULL DEFAULT (1), "message" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "borrow_request_groups"("id", "requester_id", "owner_id", "recurrence_frequency", "occurrences", "message", "created_at") SELECT "id", "requester_id", "owner_id", "recurrence_frequency", "occurrences", "message", "created_at" FROM "temporary_borrow_request_groups"`);
+    await queryRunner.query(`DROP TABLE "temporary_borrow_request_groups"`);
+    await queryRunner.query(`CREATE INDEX "IDX_849e68654d0f85f346b3aaf31b" ON "borrow_request_groups" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_8952f94d122fcf4bd37f4a0512" ON "borrow_request_groups" ("owner_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_87e26d7894b4082cd258c3a81e"`);
+    await queryRunner.query(`ALTER TABLE "borrow_extensions" RENAME TO "temporary_borrow_extensions"`);
+    await queryRunner.query(`CREATE TABLE "borrow_extensions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "requested_by" integer NOT NULL, "previous_end_date" date NOT NULL, "requested_end_date" date NOT NULL, "message" varchar(500), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(500), "responded_by" integer, "responded_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "borrow_extensions"("id", "borrow_request_id", "requested_by", "previous_end_date", "requested_end_date", "message", "status", "response_message", "responded_by", "responded_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "requested_by", "previous_end_date", "requested_end_date", "message", "status", "response_message", "responded_by", "responded_at", "created_at", "updated_at" FROM "temporary_borrow_extensions"`);
+    await queryRunner.query(`DROP TABLE "temporary_borrow_extensions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_87e26d7894b4082cd258c3a81e" ON "borrow_extensions" ("borrow_request_id", "status")`);
+    await queryRunner.query(`DROP INDEX "IDX_209ed8dd1a766d961b0ae94af2"`);
+    await queryRunner.query(`ALTER TABLE "condition_reports" RENAME TO "temporary_condition_reports"`);
+    await queryRunner.query(`CREATE TABLE "condition_reports" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "stage" varchar NOT NULL, "condition" varchar NOT NULL, "checklist" json NOT NULL, "notes" varchar(1000), "created_by" integer NOT NULL, "updated_by" integer, "owner_signed_at" datetime, "borrower_signed_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "condition_reports"("id", "borrow_request_id", "stage", "condition", "checklist", "notes", "created_by", "updated_by", "owner_signed_at", "borrower_signed_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "stage", "condition", "checklist", "notes", "created_by", "updated_by", "owner_signed_at", "borrower_signed_at", "created_at", "updated_at" FROM "temporary_condition_reports"`);
+    await queryRunner.query(`DROP TABLE "temporary_condition_reports"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_209ed8dd1a766d961b0ae94af2" ON "condition_reports" ("borrow_request_id", "stage")`);
+    await queryRunner.query(`DROP INDEX "IDX_519e2e7ec99a0128b3d975345c"`);
+    await queryRunner.query(`ALTER TABLE "condition_report_photos" RENAME TO "temporary_condition_report_photos"`);
+    await queryRunner.query(`CREATE TABLE "condition_report_photos" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "report_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "condition_report_photos"("id", "report_id", "uploaded_by", "photo_filename", "photo_url", "file_size", "mime_type", "created_at") SELECT "id", "report_id", "uploaded_by", "photo_filename", "photo_url", "file_size", "mime_type", "created_at" FROM "temporary_condition_report_photos"`);
+    await queryRunner.query(`DROP TABLE "temporary_condition_report_photos"`);
+    await queryRunner.query(`CREATE INDEX "IDX_519e2e7ec99a0128b3d975345c" ON "condition_report_photos" ("report_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_ef77a730b12914db128277f501"`);
+    await queryRunner.query(`DROP INDEX "IDX_736e08f2f77d63fd8c9f74f949"`);
+    await queryRunner.query(`ALTER TABLE "dispute_cases" RENAME TO "temporary_dispute_cases"`);
+    await queryRunner.query(`CREATE TABLE "dispute_cases" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "opened_by" integer NOT NULL, "status" varchar NOT NULL DEFAULT ('open'), "reason" varchar(1000) NOT NULL, "claimed_amount" decimal(8,2), "outcome" varchar, "decision_notes" varchar(1000), "withheld_amount" decimal(8,2), "decided_by" integer, "decided_at" datetime, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "dispute_cases"("id", "borrow_request_id", "opened_by", "status", "reason", "claimed_amount", "outcome", "decision_notes", "withheld_amount", "decided_by", "decided_at", "created_at", "updated_at") SELECT "id", "borrow_request_id", "opened_by", "status", "reason", "claimed_amount", "outcome", "decision_notes", "withheld_amount", "decided_by", "decided_at", "created_at", "updated_at" FROM "temporary_dispute_cases"`);
+    await queryRunner.query(`DROP TABLE "temporary_dispute_cases"`);
+    await queryRunner.query(`CREATE INDEX "IDX_ef77a730b12914db128277f501" ON "dispute_cases" ("borrow_request_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_736e08f2f77d63fd8c9f74f949" ON "dispute_cases" ("status", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_e5002398b258a9c604b22e5bc8"`);
+    await queryRunner.query(`ALTER TABLE "dispute_evidence" RENAME TO "temporary_dispute_evidence"`);
+    await queryRunner.query(`CREATE TABLE "dispute_evidence" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "uploaded_by" integer NOT NULL, "party" varchar NOT NULL, "photo_filename" varchar(255) NOT NULL, "photo_url" varchar(500) NOT NULL, "file_size" integer, "mime_type" varchar(50), "caption" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "dispute_evidence"("id", "dispute_id", "uploaded_by", "party", "photo_filename", "photo_url", "file_size", "mime_type", "caption", "created_at") SELECT "id", "dispute_id", "uploaded_by", "party", "photo_filename", "photo_url", "file_size", "mime_type", "caption", "created_at" FROM "temporary_dispute_evidence"`);
+    await queryRunner.query(`DROP TABLE "temporary_dispute_evidence"`);
+    await queryRunner.query(`CREATE INDEX "IDX_e5002398b258a9c604b22e5bc8" ON "dispute_evidence" ("dispute_id")`);
+    await queryRunner.query(`DROP INDEX "IDX_b665f26f8025a3d31ffa719595"`);
+    await queryRunner.query(`ALTER TABLE "dispute_statements" RENAME TO "temporary_dispute_statements"`);
+    await queryRunner.query(`CREATE TABLE "dispute_statements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "dispute_id" integer NOT NULL, "author_id" integer NOT NULL, "party" varchar NOT NULL, "body" varchar(2000) NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "dispute_statements"("id", "dispute_id", "author_id", "party", "body", "created_at") SELECT "id", "dispute_id", "author_id", "party", "body", "created_at" FROM "temporary_dispute_statements"`);
+    await queryRunner.query(`DROP TABLE "temporary_dispute_statements"`);
+    await queryRunner.query(`CREATE INDEX "IDX_b665f26f8025a3d31ffa719595" ON "dispute_statements" ("dispute_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_387873f5fcc2a0f1f0b3f17efa"`);
+    await queryRunner.query(`ALTER TABLE "deposit_ledger_entries" RENAME TO "temporary_deposit_ledger_entries"`);
+    await queryRunner.query(`CREATE TABLE "deposit_ledger_entries" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "type" varchar NOT NULL, "amount" decimal(8,2) NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "reason" varchar(1000), "created_by" integer, "owner_confirmed_at" datetime, "borrower_confirmed_at" datetime, "resolved_by" integer, "provider_reference" varchar(255), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "deposit_ledger_entries"("id", "borrow_request_id", "type", "amount", "status", "reason", "created_by", "owner_confirmed_at", "borrower_confirmed_at", "resolved_by", "provider_reference", "created_at", "updated_at") SELECT "id", "borrow_request_id", "type", "amount", "status", "reason", "created_by", "owner_confirmed_at", "borrower_confirmed_at", "resolved_by", "provider_reference", "created_at", "updated_at" FROM "temporary_deposit_ledger_entries"`);
+    await queryRunner.query(`DROP TABLE "temporary_deposit_ledger_entries"`);
+    await queryRunner.query(`CREATE INDEX "IDX_387873f5fcc2a0f1f0b3f17efa" ON "deposit_ledger_entries" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_5d43b982d0e41515b61bef2706"`);
+    await queryRunner.query(`ALTER TABLE "borrow_request_events" RENAME TO "temporary_borrow_request_events"`);
+    await queryRunner.query(`CREATE TABLE "borrow_request_events" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "borrow_request_id" integer NOT NULL, "actor_id" integer, "from_status" varchar, "to_status" varchar NOT NULL, "note" varchar(1000), "created_at" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "borrow_request_events"("id", "borrow_request_id", "actor_id", "from_status", "to_status", "note", "created_at") SELECT "id", "borrow_request_id", "actor_id", "from_status", "to_status", "note", "created_at" FROM "temporary_borrow_request_events"`);
+    await queryRunner.query(`DROP TABLE "temporary_borrow_request_events"`);
+    await queryRunner.query(`CREATE INDEX "IDX_5d43b982d0e41515b61bef2706" ON "borrow_request_events" ("borrow_request_id", "created_at")`);
+    await queryRunner.query(`DROP INDEX "IDX_477f94e42c89f5d691a5761745"`);
+    await queryRunner.query(`DROP INDEX "IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(100) NOT NULL, "password" varchar NOT NULL, "phone" varchar(15), "address" varchar(255), "latitude" decimal(10,8), "longitude" decimal(11,8), "neighborhood" varchar(100), "postal_code" varchar(10), "bio" varchar(500), "avatar_url" varchar(255), "is_email_verified" boolean NOT NULL DEFAULT (0), "is_location_verified" boolean NOT NULL DEFAULT (0), "is_active" boolean NOT NULL DEFAULT (1), "verification_status" varchar NOT NULL DEFAULT ('pending'), "last_login" datetime, "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "items_shared" integer NOT NULL DEFAULT (0), "successful_borrows" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`INSERT INTO "users"("id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at") SELECT "id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at" FROM "temporary_users"`);
+    await queryRunner.query(`DROP TABLE "temporary_users"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`DROP INDEX "IDX_bb3059bfaa6904b413ca41c818"`);
+    await queryRunner.query(`DROP INDEX "IDX_47461ff0f44e1fe16336913c09"`);
+    await queryRunner.query(`DROP INDEX "IDX_4e1b470cad50d04f4436224fb8"`);
+    await queryRunner.query(`ALTER TABLE "resources" RENAME TO "temporary_resources"`);
+    await queryRunner.query(`CREATE TABLE "resources" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar(200) NOT NULL, "description" text NOT NULL, "category" varchar(50) NOT NULL, "estimated_value" decimal(10,2), "condition" varchar NOT NULL DEFAULT ('good'), "condition_notes" varchar(500), "is_available" boolean NOT NULL DEFAULT (1), "max_borrow_days" integer, "deposit_required" decimal(8,2), "pickup_required" boolean NOT NULL DEFAULT (0), "pickup_instructions" varchar(500), "usage_instructions" varchar(500), "location_notes" varchar(255), "available_days" json, "available_time_start" time, "available_time_end" time, "views_count" integer NOT NULL DEFAULT (0), "borrow_count" integer NOT NULL DEFAULT (0), "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "status" varchar NOT NULL DEFAULT ('active'), "last_borrowed" datetime, "owner_id" integer NOT NULL, "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a417f48b883e7efb9ae90a7bcb3" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "resources"("id", "title", "description", "category", "estimated_value", "condition", "condition_notes", "is_available", "max_borrow_days", "deposit_required", "pickup_required", "pickup_instructions", "usage_instructions", "location_notes", "available_days", "available_time_start", "available_time_end", "views_count", "borrow_count", "average_rating", "total_ratings", "status", "last_borrowed", "owner_id", "created_at", "updated_at") SELECT "id", "title", "description", "category", "estimated_value", "condition", "condition_notes", "is_available", "max_borrow_days", "deposit_required", "pickup_required", "pickup_instructions", "usage_instructions", "location_notes", "available_days", "available_time_start", "available_time_end", "views_count", "borrow_count", "average_rating", "total_ratings", "status", "last_borrowed", "owner_id", "created_at", "updated_at" FROM "temporary_resources"`);
+    await queryRunner.query(`DROP TABLE "temporary_resources"`);
+    await queryRunner.query(`CREATE INDEX "IDX_bb3059bfaa6904b413ca41c818" ON "resources" ("created_at")`);
+    await queryRunner.query(`CREATE INDEX "IDX_47461ff0f44e1fe16336913c09" ON "resources" ("is_available")`);
+    await queryRunner.query(`CREATE INDEX "IDX_4e1b470cad50d04f4436224fb8" ON "resources" ("category")`);
+    await queryRunner.query(`DROP INDEX "IDX_1ad800e9a7985b03f8e7007cd4"`);
+    await queryRunner.query(`DROP INDEX "IDX_ae71e4e8e347da0360916e67ab"`);
+    await queryRunner.query(`DROP INDEX "IDX_41118353bde53dc945894df198"`);
+    await queryRunner.query(`DROP INDEX "IDX_3bc7de02526ba5123ca2da7a52"`);
+    await queryRunner.query(`ALTER TABLE "borrow_requests" RENAME TO "temporary_borrow_requests"`);
+    await queryRunner.query(`CREATE TABLE "borrow_requests" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "resource_id" integer NOT NULL, "requester_id" integer NOT NULL, "start_date" date NOT NULL, "end_date" date NOT NULL, "message" varchar(1000), "status" varchar NOT NULL DEFAULT ('pending'), "response_message" varchar(1000), "deposit_amount" decimal(8,2), "deposit_paid" boolean NOT NULL DEFAULT (0), "deposit_returned" boolean NOT NULL DEFAULT (0), "requested_at" datetime, "responded_at" datetime, "picked_up_at" datetime, "returned_at" datetime, "due_date" datetime, "pickup_notes" varchar(500), "return_notes" varchar(500), "pickup_location" varchar(255), "return_location" varchar(255), "has_issues" boolean NOT NULL DEFAULT (0), "issue_description" varchar(1000), "issue_reported_at" datetime, "issue_resolved" boolean NOT NULL DEFAULT (0), "emergency_contact" varchar(15), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ae71e4e8e347da0360916e67ab2" FOREIGN KEY ("requester_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_41118353bde53dc945894df1982" FOREIGN KEY ("resource_id") REFERENCES "resources" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "borrow_requests"("id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at") SELECT "id", "resource_id", "requester_id", "start_date", "end_date", "message", "status", "response_message", "deposit_amount", "deposit_paid", "deposit_returned", "requested_at", "responded_at", "picked_up_at", "returned_at", "due_date", "pickup_notes", "return_notes", "pickup_location", "return_location", "has_issues", "issue_description", "issue_reported_at", "issue_resolved", "emergency_contact", "created_at", "updated_at" FROM "temporary_borrow_requests"`);
+    await queryRunner.query(`DROP TABLE "temporary_borrow_requests"`);
+    await queryRunner.query(`CREATE INDEX "IDX_1ad800e9a7985b03f8e7007cd4" ON "borrow_requests" ("start_date", "end_date")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ae71e4e8e347da0360916e67ab" ON "borrow_requests" ("requester_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_41118353bde53dc945894df198" ON "borrow_requests" ("resource_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_3bc7de02526ba5123ca2da7a52" ON "borrow_requests" ("status")`);
+    await queryRunner.query(`DROP INDEX "IDX_a58210a9b172960f359ae82467"`);
+    await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(100) NOT NULL, "password" varchar NOT NULL, "phone" varchar(15), "address" varchar(255), "latitude" decimal(10,8), "longitude" decimal(11,8), "neighborhood" varchar(100), "postal_code" varchar(10), "bio" varchar(500), "avatar_url" varchar(255), "is_email_verified" boolean NOT NULL DEFAULT (0), "is_location_verified" boolean NOT NULL DEFAULT (0), "is_active" boolean NOT NULL DEFAULT (1), "verification_status" varchar NOT NULL DEFAULT ('pending'), "refresh_token" varchar(500), "last_login" datetime, "average_rating" decimal(3,2) NOT NULL DEFAULT (0), "total_ratings" integer NOT NULL DEFAULT (0), "items_shared" integer NOT NULL DEFAULT (0), "successful_borrows" integer NOT NULL DEFAULT (0), "created_at" datetime NOT NULL DEFAULT (datetime('now')), "updated_at" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`INSERT INTO "users"("id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at") SELECT "id", "name", "email", "password", "phone", "address", "latitude", "longitude", "neighborhood", "postal_code", "bio", "avatar_url", "is_email_verified", "is_location_verified", "is_active", "verification_status", "last_login", "average_rating", "total_ratings", "items_shared", "successful_borrows", "created_at", "updated_at" FROM "temporary_users"`);
+    await queryRunner.query(`DROP TABLE "temporary_users"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a58210a9b172960f359ae82467" ON "users" ("latitude", "longitude")`);
+    await queryRunner.query(`DROP INDEX "IDX_9dbd75b07b2b94857973544bbd"`);
+    await queryRunner.query(`DROP TABLE "two_factor_recovery_codes"`);
+    await queryRunner.query(`DROP INDEX "IDX_0e865d85e0ad6329b40523afe5"`);
+    await queryRunner.query(`DROP TABLE "user_two_factor"`);
+    await queryRunner.query(`DROP INDEX "IDX_0500261b4f4ada1ce868296858"`);
+    await queryRunner.query(`DROP INDEX "IDX_dbc81ff542b1b3366bae195f2a"`);
+    await queryRunner.query(`DROP TABLE "user_sessions"`);
+    await queryRunner.query(`DROP INDEX "IDX_167033390a71c52224c7c636c8"`);
+    await queryRunner.query(`DROP INDEX "IDX_dc3fdc213b9bfc438a86fed443"`);
+    await queryRunner.query(`DROP TABLE "account_tokens"`);
+    await queryRunner.query(`DROP INDEX "IDX_1a320166037ec19391f5079381"`);
+    await queryRunner.query(`DROP INDEX "IDX_32854c60630246f168016cb48b"`);
+    await queryRunner.query(`DROP INDEX "IDX_77e7e4ac07d4ee68a2b99f9c40"`);
+    await queryRunner.query(`DROP TABLE "location_verifications"`);
+    await queryRunner.query(`DROP INDEX "IDX_c524ec5cfdd413f11c9a2a36a4"`);
+    await queryRunner.query(`DROP INDEX "IDX_b15cebece23a1bc0c2cefb467b"`);
+    await queryRunner.query(`DROP TABLE "location_vouches"`);
+    await queryRunner.query(`DROP INDEX "IDX_072b3bd4a5c5a03b5d93c43d8e"`);
+    await queryRunner.query(`DROP INDEX "IDX_e4f06850133ed6265dcb8cfe41"`);
+    await queryRunner.query(`DROP TABLE "resource_communities"`);
+    await queryRunner.query(`DROP TABLE "communities"`);
+    await queryRunner.query(`DROP INDEX "IDX_aa7dd5a3ca801dc482164fbfd7"`);
+    await queryRunner.query(`DROP INDEX "IDX_d5d2b195d29c299e5c2ab08a1b"`);
+    await queryRunner.query(`DROP TABLE "community_memberships"`);
+    await queryRunner.query(`DROP INDEX "IDX_1e0d839bfe506bfaed6879e892"`);
+    await queryRunner.query(`DROP INDEX "IDX_4a83ffcd28354db0dce5f3a669"`);
+    await queryRunner.query(`DROP TABLE "favourites"`);
+    await queryRunner.query(`DROP INDEX "IDX_8f01d13ac8e7b451d244674274"`);
+    await queryRunner.query(`DROP INDEX "IDX_3ecd1b72ed9c76d284b2a32892"`);
+    await queryRunner.query(`DROP TABLE "saved_searches"`);
+    await queryRunner.query(`DROP INDEX "IDX_f4040a73e315acb0d5abef250e"`);
+    await queryRunner.query(`DROP INDEX "IDX_435d7949e63168114c7d4bdfe5"`);
+    await queryRunner.query(`DROP TABLE "job_runs"`);
+    await queryRunner.query(`DROP TABLE "scheduled_jobs"`);
+    await queryRunner.query(`DROP INDEX "IDX_7eaca5a32b2cef3280f4524fbf"`);
+    await queryRunner.query(`DROP INDEX "IDX_d891b13e150f7bf62e48f349d8"`);
+    await queryRunner.query(`DROP INDEX "IDX_9794bffb7a800bb7051a466623"`);
+    await queryRunner.query(`DROP TABLE "moderation_actions"`);
+    await queryRunner.query(`DROP INDEX "IDX_50be8f830ebc6451558148e9f4"`);
+    await queryRunner.query(`DROP INDEX "IDX_4a479f0094a22097122d167b3e"`);
+    await queryRunner.query(`DROP TABLE "waitlist_entries"`);
+    await queryRunner.query(`DROP INDEX "IDX_6ddb7366adfeaf61b3520288cb"`);
+    await queryRunner.query(`DROP TABLE "resource_blackouts"`);
+    await queryRunner.query(`DROP INDEX "IDX_849e68654d0f85f346b3aaf31b"`);
+    await queryRunner.query(`DROP INDEX "IDX_8952f94d122fcf4bd37f4a0512"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_groups"`);
+    await queryRunner.query(`DROP INDEX "IDX_87e26d7894b4082cd258c3a81e"`);
+    await queryRunner.query(`DROP TABLE "borrow_extensions"`);
+    await queryRunner.query(`DROP INDEX "IDX_209ed8dd1a766d961b0ae94af2"`);
+    await queryRunner.query(`DROP TABLE "condition_reports"`);
+    await queryRunner.query(`DROP INDEX "IDX_519e2e7ec99a0128b3d975345c"`);
+    await queryRunner.query(`DROP TABLE "condition_report_photos"`);
+    await queryRunner.query(`DROP INDEX "IDX_ef77a730b12914db128277f501"`);
+    await queryRunner.query(`DROP INDEX "IDX_736e08f2f77d63fd8c9f74f949"`);
+    await queryRunner.query(`DROP TABLE "dispute_cases"`);
+    await queryRunner.query(`DROP INDEX "IDX_e5002398b258a9c604b22e5bc8"`);
+    await queryRunner.query(`DROP TABLE "dispute_evidence"`);
+    await queryRunner.query(`DROP INDEX "IDX_b665f26f8025a3d31ffa719595"`);
+    await queryRunner.query(`DROP TABLE "dispute_statements"`);
+    await queryRunner.query(`DROP INDEX "IDX_387873f5fcc2a0f1f0b3f17efa"`);
+    await queryRunner.query(`DROP TABLE "deposit_ledger_entries"`);
+    await queryRunner.query(`DROP INDEX "IDX_5d43b982d0e41515b61bef2706"`);
+    await queryRunner.query(`DROP TABLE "borrow_request_events"`);
+  }
+
+}
@@ -0,0 +1,249 @@
+import fs from "fs";
+import path from "path";
+import { createGenerator, Definition } from "ts-json-schema-generator";
+import { scanRoutes, ScannedRoute } from "./routeScanner";
+import { OPERATION_TYPES, OperationTypes } from "./operations";
+
+const SOURCE_DIRECTORY = path.join(__dirname, "..");
+const PACKAGE_FILE = path.join(SOURCE_DIRECTORY, "..", "package.json");
+
+// Component names OpenAPI accepts; generic instances such as ApiResponse<string[]> are inlined instead
+const COMPONENT_NAME = /^[A-Za-z0-9._-]+$/;
+
+type JsonObject = { [key: string]: unknown };
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, JsonObject>>;
+  components: {
+    securitySchemes: Record<string, JsonObject>;
+    responses: Record<string, JsonObject>;
+    schemas: Record<string, Definition>;
+  };
+}
+
+const schemaRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: JsonObject) => ({ "application/json": { schema } });
+
+/**
+ * JSON schemas of the types exported from schemas.ts and every type they reach, by name
+ */
+const generateDefinitions = (): Record<string, Definition> => {
+  const schema = createGenerator({
+    path: path.join(__dirname, "schemas.ts"),
+    tsconfig: path.join(SOURCE_DIRECTORY, "..", "tsconfig.json"),
+    type: "*",
+    expose: "export",
+    topRef: true,
+    jsDoc: "extended",
+    additionalProperties: true,
+    skipTypeCheck: true // tsc already checks the types; this keeps generation to a few seconds
+  }).createSchema("*");
+
+  return (schema.definitions || {}) as Record<string, Definition>;
+};
+
+/**
+ * Definitions as OpenAPI components: refs point at components/schemas,
+ * and definitions without a usable name are copied into the schemas using them
+ */
+const toComponentSchemas = (definitions: Record<string, Definition>): Record<string, Definition> => {
+  const rewrite = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(rewrite);
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+
+    const { $ref, ...rest } = value as JsonObject;
+    if (typeof $ref === "string" && $ref.startsWith("#/definitions/")) {
+      const name = decodeURIComponent($ref.slice("#/definitions/".length));
+      return COMPONENT_NAME.test(name) ? { ...schemaRef(name), ...rest } : rewrite(definitions[name]);
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewrite(item)]));
+  };
+
+  return Object.fromEntries(
+    Object.keys(definitions)
+      .filter((name) => COMPONENT_NAME.test(name))
+      .sort()
+      .map((name) => [name, rewrite(definitions[name]) as Definition])
+  );
+};
+
+/**
+ * "getResourcesById" for GET /api/resources/{id}
+ */
+const operationId = (route: ScannedRoute): string =>
+  route.path
+    .replace(/^\/api/, "")
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/^\{(\w+)\}$/, "by-$1"))
+    .join("-")
+    .split(/[-_.]/)
+    .reduce((id, word) => id + word.charAt(0).toUpperCase() + word.slice(1), route.method);
+
+/**
+ * Routes are tagged by the file declaring them; routes declared in the index are general
+ */
+const tagOf = (route: ScannedRoute): string =>
+  route.file === "index.ts" ? "general" : route.file.replace(/(Routes)?\.ts$/, "");
+
+const pathParameters = (route: ScannedRoute): JsonObject[] =>
+  [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: /(^id|Id)$/.test(name) ? { type: "integer" } : { type: "string" }
+  }));
+
+const queryParameters = (definition: Definition | undefined): JsonObject[] => {
+  const properties = (definition?.properties || {}) as Record<string, JsonObject>;
+  const required = definition?.required || [];
+
+  return Object.entries(properties).map(([name, schema]) => {
+    const { description, ...rest } = schema;
+    return { name, in: "query", required: required.includes(name), description, schema: rest };
+  });
+};
+
+const requestBody = (route: ScannedRoute, types: OperationTypes): JsonObject | undefined => {
+  const schema: JsonObject = types.body ? schemaRef(types.body) : { type: "object", additionalProperties: true };
+
+  if (route.multipart) {
+    const photos = { type: "object", properties: { photos: { type: "array", items: { type: "string", format: "binary" } } } };
+    return { required: true, content: { "multipart/form-data": { schema: { allOf: [schema, photos] } } } };
+  }
+
+  if (types.body || ["post", "put", "patch"].includes(route.method)) {
+    return { required: !!types.body, content: jsonContent(schema) };
+  }
+
+  return undefined;
+};
+
+const responses = (route: ScannedRoute, types: OperationTypes): JsonObject => {
+  const description = types.status === 201 ? "Created" : "OK";
+  const fileSchema = types.contentType?.startsWith("image/") ? { type: "string", format: "binary" } : {};
+  const success = types.response
+    ? { description, content: jsonContent(schemaRef(types.response)) }
+    : { description, content: { [types.contentType || "application/json"]: { schema: fileSchema } } };
+
+  return {
+    [types.status || 200]: success,
+    ...(route.auth === "required" && { 401: { $ref: "#/components/responses/Unauthorized" } }),
+    ...(route.roles.length > 0 && { 403: { $ref: "#/components/responses/Forbidden" } }),
+    ...(route.rateLimited && { 429: { $ref: "#/components/responses/TooManyRequests" } }),
+    default: { $ref: "#/components/responses/Error" }
+  };
+};
+
+const operation = (route: ScannedRoute, types: OperationTypes, schemas: Record<string, Definition>): JsonObject => {
+  const notes = [
+    route.description,
+    route.roles.length > 0 ? `Requires the ${route.roles.join(" or ")} role.` : undefined
+  ].filter(Boolean);
+  const parameters = [...pathParameters(route), ...queryParameters(types.query ? schemas[types.query] : undefined)];
+
+  return {
+    tags: [tagOf(route)],
+    operationId: operationId(route),
+    summary: route.summary,
+    description: notes.join("\n\n") || undefined,
+    security: { required: [{ bearerAuth: [] }], optional: [{}, { bearerAuth: [] }], none: undefined }[route.auth],
+    parameters: parameters.length > 0 ? parameters : undefined,
+    requestBody: requestBody(route, types),
+    responses: responses(route, types)
+  };
+};
+
+const routeKey = (route: ScannedRoute): string => `${route.method.toUpperCase()} ${route.localPath}`;
+
+/**
+ * OPERATION_TYPES entries naming routes or types that no longer exist, so the document cannot drift silently
+ */
+export const findStaleOperationTypes = (
+  routes: ScannedRoute[],
+  schemas: Record<string, Definition>,
+  operationTypes = OPERATION_TYPES
+): string[] =>
+  Object.entries(operationTypes).flatMap(([file, operations]) =>
+    Object.entries(operations).flatMap(([route, types]) => [
+      ...(routes.some((scanned) => scanned.file === file && routeKey(scanned) === route)
+        ? []
+        : [`${file}: no route ${route}`]),
+      ...[types.query, types.body, types.response]
+        .filter((name): name is string => !!name && !schemas[name])
+        .map((name) => `${file} ${route}: no type ${name} exported from openapi/schemas.ts`)
+    ])
+  );
+
+/**
+ * Routes without an OPERATION_TYPES entry, or whose entry names no response, so a new route
+ * cannot be published untyped by accident
+ */
+export const findUntypedRoutes = (routes: ScannedRoute[], operationTypes = OPERATION_TYPES): string[] => [
+  ...new Set(
+    routes.flatMap((route) => {
+      const types = operationTypes[route.file]?.[routeKey(route)];
+      if (!types) {
+        return [`${route.file}: no entry for ${routeKey(route)} in openapi/operations.ts`];
+      }
+      return types.response || types.contentType ? [] : [`${route.file} ${routeKey(route)}: no response type`];
+    })
+  )
+];
+
+/**
+ * The OpenAPI document of the API, from the route files and the request and response types
+ */
+export const buildOpenApiDocument = (): OpenApiDocument => {
+  const routes = scanRoutes(path.join(SOURCE_DIRECTORY, "routes"));
+  const schemas = toComponentSchemas(generateDefinitions());
+
+  const problems = [...findStaleOperationTypes(routes, schemas), ...findUntypedRoutes(routes)];
+  if (problems.length > 0) {
+    throw new Error(`OpenAPI operation types are out of date:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const route of routes) {
+    const types = OPERATION_TYPES[route.file][routeKey(route)];
+    paths[route.path] = { ...paths[route.path], [route.method]: operation(route, types, schemas) };
+  }
+
+  const { version } = JSON.parse(fs.readFileSync(PACKAGE_FILE, "utf8"));
+  const errorResponse = (description: string) => ({ description, content: jsonContent(schemaRef("ErrorResponse")) });
+
+  // Drop the undefined fields left by optional parts, as JSON output would
+  return JSON.parse(
+    JSON.stringify({
+      openapi: "3.1.0",
+      info: {
+        title: "BorrowBase API",
+        version,
+        description: "Generated from the route files and request/response types; run npm run openapi:generate after changing them."
+      },
+      tags: [...new Set(routes.map(tagOf))].sort().map((name) => ({ name })),
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" }
+        },
+        responses: {
+          Unauthorized: errorResponse("Missing, invalid or expired access token"),
+          Forbidden: errorResponse("The user's role does not allow this"),
+          TooManyRequests: errorResponse("Rate limit exceeded; see the Retry-After header"),
+          Error: errorResponse("Error")
+        },
+        schemas
+      }
+    })
+  );
+};
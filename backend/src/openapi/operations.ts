@@ -0,0 +1,216 @@
+/**
+ * Request and response types of routes, by route file and route as written there,
+ * so a router mounted twice is described the same under both paths.
+ * Names refer to the types exported from schemas.ts. Every route needs an entry naming its response
+ * type (MessageResponse when it sends only a message) or content type, so new routes are described on purpose.
+ */
+export interface OperationTypes {
+  query?: string; // Each property becomes a query parameter
+  body?: string;
+  response?: string;
+  status?: number; // Success status, 200 unless given
+  contentType?: string; // For responses that are files or documents rather than ApiResponse JSON
+}
+
+export const OPERATION_TYPES: Record<string, Record<string, OperationTypes>> = {
+  "auth.ts": {
+    "POST /register": { body: "RegisterRequest", response: "AuthResponse", status: 201 },
+    "POST /login": { body: "LoginRequest", response: "LoginResponse" },
+    "POST /login/2fa": { body: "TwoFactorLoginRequest", response: "AuthResponse" },
+    "POST /refresh": { body: "RefreshTokenRequest", response: "RefreshTokenResponse" },
+    "POST /verify-email": { body: "VerifyEmailRequest", response: "MessageResponse" },
+    "POST /forgot-password": { body: "ForgotPasswordRequest", response: "MessageResponse" },
+    "POST /reset-password": { body: "ResetPasswordRequest", response: "MessageResponse" },
+    "GET /profile": { response: "ProfileResponse" },
+    "GET /profile/complete": { response: "CompleteProfileResponse" },
+    "PUT /profile": { body: "UpdateProfileRequest", response: "UpdatedProfileResponse" },
+    "POST /update-location": { body: "UpdateLocationRequest", response: "UpdatedProfileResponse" },
+    "POST /logout": { response: "MessageResponse" },
+    "POST /change-password": { body: "ChangePasswordRequest", response: "MessageResponse" },
+    "POST /resend-verification": { response: "MessageResponse" },
+    "GET /sessions": { response: "SessionsResponse" },
+    "DELETE /sessions": { response: "SignedOutResponse" },
+    "DELETE /sessions/:id": { response: "MessageResponse" },
+    "GET /2fa": { response: "TwoFactorStatusResponse" },
+    "POST /2fa/setup": { response: "TwoFactorSetupResponse" },
+    "POST /2fa/enable": { body: "TwoFactorCodeRequest", response: "RecoveryCodesResponse" },
+    "POST /2fa/disable": { body: "DisableTwoFactorRequest", response: "MessageResponse" },
+    "POST /2fa/recovery-codes": { body: "TwoFactorCodeRequest", response: "RecoveryCodesResponse" },
+    "PUT /users/:id/role": { body: "UpdateRoleRequest", response: "UpdatedProfileResponse" }
+  },
+
+  "resources.ts": {
+    "GET /": { query: "ResourceQueryFilters", response: "PaginatedResourceResponse" },
+    "GET /search": { query: "ResourceQueryFilters", response: "PaginatedResourceResponse" },
+    "GET /suggest": { query: "SearchSuggestionsQuery", response: "SearchSuggestionsResponse" },
+    "GET /categories": { response: "ResourceOptionsResponse" },
+    "GET /nearby": { query: "ResourceQueryFilters", response: "PaginatedResourceResponse" },
+    "GET /user/:userId": { query: "PaginationQuery", response: "PaginatedResourceResponse" },
+    "POST /": { body: "CreateResourceRequest", response: "ResourceDetailResponse", status: 201 },
+    "GET /my-resources": { query: "PaginationQuery", response: "PaginatedResourceResponse" },
+    "GET /favourites": { query: "PaginationQuery", response: "PaginatedResourceResponse" },
+    "GET /:id": { response: "ResourceDetailResponse" },
+    "PUT /:id": { body: "UpdateResourceRequest", response: "ResourceDetailResponse" },
+    "DELETE /:id": { response: "MessageResponse" },
+    "POST /:id/view": { response: "MessageResponse" },
+    "POST /:id/availability": { body: "AvailabilityRequest", response: "ResourceDetailResponse" },
+    "POST /:id/favourite": { response: "FavouriteResponse", status: 201 },
+    "DELETE /:id/favourite": { response: "MessageResponse" },
+    "GET /:id/calendar": { query: "CalendarQuery", response: "ResourceCalendarResponse" },
+    "POST /:id/blackouts": { body: "BlackoutCreateData", response: "BlackoutResponse", status: 201 },
+    "DELETE /:id/blackouts/:blackoutId": { response: "MessageResponse" },
+    "POST /:id/photos": { response: "PhotoUploadResponse", status: 201 },
+    "DELETE /:resourceId/photos/:photoId": { response: "MessageResponse" },
+    "PUT /:id/photos/:photoId/primary": { response: "MessageResponse" },
+    "PUT /:id/photos/reorder": { body: "ReorderPhotosRequest", response: "MessageResponse" }
+  },
+
+  "uploads.ts": {
+    "GET /resources/:filename": { contentType: "image/*" }
+  },
+
+  "docs.ts": {
+    "GET /openapi.json": { contentType: "application/json" }
+  },
+
+  "notificationRoutes.ts": {
+    "GET /": { query: "NotificationFilters", response: "PaginatedNotificationResponse" },
+    "GET /unread-count": { response: "UnreadCountResponse" },
+    "GET /stats": { response: "NotificationStatsResponse" },
+    "GET /scheduled": { response: "ScheduledNotificationsResponse" },
+    "PUT /:id/read": { response: "NotificationDetailResponse" },
+    "PUT /mark-multiple-read": { body: "NotificationIdsRequest", response: "UpdatedCountResponse" },
+    "PUT /mark-all-read": { body: "MarkAllReadRequest", response: "UpdatedCountResponse" },
+    "DELETE /cleanup-expired": { response: "DeletedCountResponse" },
+    "DELETE /:id": { response: "MessageResponse" },
+    "DELETE /delete-multiple": { body: "NotificationIdsRequest", response: "DeletedCountResponse" },
+    "POST /": { body: "CreateNotificationRequest", response: "NotificationDetailResponse", status: 201 },
+    "POST /bulk": { body: "BulkNotificationRequest", response: "BulkNotificationResponse", status: 201 },
+    "PUT /:id/sent": { body: "MarkSentRequest", response: "MessageResponse" }
+  },
+
+  "index.ts": {
+    "GET /health": { response: "HealthResponse" },
+    "GET /my-requests": { query: "BorrowRequestListQuery", response: "BorrowRequestListResponse" },
+    "GET /resource-requests": { query: "BorrowRequestListQuery", response: "BorrowRequestListResponse" },
+    "POST /borrow": { body: "CreateBorrowRequestRequest", response: "BorrowRequestResponse", status: 201 },
+    "GET /users/:userId/reviews": { query: "UserReviewsQuery", response: "UserReviewsResponse" },
+    "GET /reviews/:userId": { query: "UserReviewsQuery", response: "UserReviewsResponse" },
+    "GET /my-reviews": { query: "PaginationQuery", response: "MyReviewsResponse" },
+    "GET /users/:userId/review-stats": { response: "PublicReviewStatisticsResponse" }
+  },
+
+  "chats.ts": {
+    "GET /unread-count": { response: "ChatUnreadCountResponse" },
+    "GET /": { response: "ChatListResponse" },
+    "POST /": { body: "CreateChatRequest", response: "ChatResponse", status: 201 },
+    "GET /:id/messages": { query: "PaginationQuery", response: "ChatMessagesResponse" },
+    "POST /:id/messages": { body: "SendMessageRequest", response: "ChatMessageResponse", status: 201 },
+    "PUT /:id/read": { response: "MessageResponse" },
+    "PUT /:id/archive": { response: "MessageResponse" },
+    "DELETE /messages/:id": { response: "MessageResponse" }
+  },
+
+  "borrowRequests.ts": {
+    "GET /stats": { response: "BorrowRequestStatsResponse" },
+    "GET /overdue": { response: "BorrowRequestsResponse" },
+    "POST /": { body: "CreateBorrowRequestRequest", response: "BorrowRequestResponse", status: 201 },
+    "POST /groups": { body: "BorrowRequestGroupCreateData", response: "BorrowRequestGroupResponse", status: 201 },
+    "GET /groups/:groupId": { response: "BorrowRequestGroupResponse" },
+    "PUT /groups/:groupId/status": { body: "RespondToGroupRequest", response: "BorrowRequestGroupResponse" },
+    "PUT /groups/:groupId/cancel": { response: "BorrowRequestGroupResponse" },
+    "GET /:id": { response: "BorrowRequestResponse" },
+    "GET /:id/history": { response: "BorrowRequestHistoryResponse" },
+    "PUT /:id": { body: "UpdateBorrowRequestRequest", response: "BorrowRequestResponse" },
+    "PUT /:id/status": { body: "UpdateRequestStatusRequest", response: "BorrowRequestResponse" },
+    "PUT /:id/cancel": { response: "BorrowRequestResponse" },
+    "PUT /:id/pickup": { body: "PickupRequest", response: "BorrowRequestResponse" },
+    "PUT /:id/return": { body: "ReturnRequest", response: "BorrowRequestResponse" },
+    "PUT /:id/complete": { response: "BorrowRequestResponse" },
+    "GET /:id/extensions": { response: "BorrowExtensionsResponse" },
+    "POST /:id/extensions": { body: "ExtensionProposalData", response: "BorrowExtensionResponse", status: 201 },
+    "PUT /:id/extensions/:extensionId/respond": { body: "RespondToExtensionRequest", response: "BorrowExtensionResponse" },
+    "PUT /:id/extensions/:extensionId/cancel": { response: "BorrowExtensionResponse" },
+    "GET /:id/condition-reports": { response: "ConditionComparisonResponse" },
+    "POST /:id/condition-reports": { body: "ConditionReportData", response: "ConditionReportResponse", status: 201 },
+    "PUT /:id/condition-reports/:stage/sign": { response: "ConditionReportResponse" }
+  },
+
+  "reviews.ts": {
+    "GET /pending": { response: "BorrowRequestsResponse" },
+    "GET /statistics": { response: "ReviewStatisticsResponse" },
+    "POST /": { body: "CreateReviewRequest", response: "ReviewResponse", status: 201 },
+    "GET /:id": { response: "ReviewResponse" },
+    "PUT /:id": { body: "UpdateReviewRequest", response: "ReviewResponse" },
+    "POST /:id/response": { body: "ReviewReplyRequest", response: "ReviewResponse" },
+    "POST /:id/flag": { body: "FlagReviewRequest", response: "MessageResponse" },
+    "POST /:id/vote": { body: "ReviewVoteRequest", response: "ReviewResponse" },
+    "PUT /admin/:id/moderate": { body: "ModerateReviewRequest", response: "ReviewResponse" }
+  },
+
+  "waitlist.ts": {
+    "GET /": { response: "WaitlistResponse" },
+    "POST /": { body: "JoinWaitlistRequest", response: "WaitlistEntryResponse", status: 201 },
+    "DELETE /:id": { response: "MessageResponse" }
+  },
+
+  "deposits.ts": {
+    "GET /": { query: "PaginationQuery", response: "DepositEntriesResponse" },
+    "GET /requests/:requestId": { response: "DepositLedgerResponse" },
+    "PUT /entries/:id/confirm": { response: "DepositEntryResponse" },
+    "PUT /entries/:id/reject": { body: "RejectDepositEntryRequest", response: "DepositEntryResponse" }
+  },
+
+  "disputes.ts": {
+    "POST /": { body: "DisputeOpenData", response: "DisputeResponse", status: 201 },
+    "GET /:id": { response: "DisputeResponse" },
+    "POST /:id/statements": { body: "DisputeStatementRequest", response: "DisputeStatementResponse", status: 201 },
+    "POST /:id/evidence": { body: "DisputeEvidenceRequest", response: "DisputeEvidenceResponse", status: 201 },
+    "PUT /:id/withdraw": { response: "DisputeResponse" }
+  },
+
+  "savedSearches.ts": {
+    "GET /": { response: "SavedSearchesResponse" },
+    "POST /": { body: "SavedSearchCreateData", response: "SavedSearchResponse", status: 201 },
+    "PUT /:id": { body: "SavedSearchUpdateData", response: "SavedSearchResponse" },
+    "DELETE /:id": { response: "MessageResponse" }
+  },
+
+  "communities.ts": {
+    "GET /": { response: "CommunitiesResponse" },
+    "GET /mine": { response: "MyCommunitiesResponse" },
+    "GET /:id": { response: "CommunityDetailResponse" },
+    "POST /": { body: "CommunityCreateData", response: "CommunityResponse", status: 201 },
+    "PUT /:id": { body: "CommunityUpdateData", response: "CommunityResponse" },
+    "DELETE /:id": { response: "MessageResponse" },
+    "POST /:id/join": { response: "CommunityResponse", status: 201 },
+    "DELETE /:id/membership": { response: "MessageResponse" }
+  },
+
+  "locationVerification.ts": {
+    "GET /": { response: "LocationVerificationStatusResponse" },
+    "POST /": { body: "LocationVerificationStartData", response: "LocationVerificationResponse", status: 201 },
+    "GET /vouch-requests": { response: "VouchRequestsResponse" },
+    "POST /:id/code": { body: "LocationCodeRequest", response: "LocationVerificationResponse" },
+    "POST /:id/vouch": { response: "VouchResponse", status: 201 },
+    "DELETE /:id": { response: "MessageResponse" }
+  },
+
+  "admin.ts": {
+    "GET /moderation/reviews": { query: "PaginationQuery", response: "FlaggedReviewsResponse" },
+    "GET /moderation/issues": { query: "PaginationQuery", response: "ReportedIssuesResponse" },
+    "GET /moderation/listings": { query: "PaginationQuery", response: "SuspiciousListingsResponse" },
+    "GET /moderation/disputes": { query: "PaginationQuery", response: "DisputeQueueResponse" },
+    "GET /moderation/actions": { query: "ModerationActionsQuery", response: "ModerationActionsResponse" },
+    "PUT /reviews/:id/moderate": { body: "ModerateReviewRequest", response: "ReviewResponse" },
+    "PUT /users/:id/moderate": { body: "ModerateUserRequest", response: "UpdatedProfileResponse" },
+    "PUT /resources/:id/moderate": { body: "ModerateResourceRequest", response: "ModeratedResourceResponse" },
+    "PUT /borrow-requests/:id/resolve": { body: "ResolveIssueRequest", response: "BorrowRequestResponse" },
+    "PUT /disputes/:id/decide": { body: "DisputeDecisionData", response: "DisputeResponse" },
+    "GET /location-verifications": { query: "PaginationQuery", response: "PendingVerificationsResponse" },
+    "PUT /location-verifications/:id/review": { body: "ReviewVerificationRequest", response: "LocationVerificationResponse" },
+    "GET /jobs": { response: "JobsResponse" },
+    "GET /jobs/runs": { query: "JobRunsQuery", response: "JobRunsResponse" },
+    "POST /jobs/:name/run": { response: "JobRunResponse" }
+  }
+};
@@ -0,0 +1,202 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+// server.ts mounts routes/index.ts here
+const API_PREFIX = "/api";
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export interface ScannedRoute {
+  method: HttpMethod;
+  path: string; // OpenAPI style, e.g. /api/resources/{id}
+  file: string; // Route file name, e.g. resources.ts
+  localPath: string; // The path as written in the route file, e.g. /:id
+  summary: string;
+  description?: string;
+  auth: "required" | "optional" | "none";
+  roles: string[];
+  rateLimited: boolean;
+  multipart: boolean;
+}
+
+interface Middleware {
+  auth?: ScannedRoute["auth"];
+  roles?: string[];
+  rateLimited?: boolean;
+  multipart?: boolean;
+}
+
+const parseFile = (file: string): ts.SourceFile =>
+  ts.createSourceFile(file, fs.readFileSync(file, "utf8"), ts.ScriptTarget.Latest, true);
+
+/**
+ * `router.<name>(...)` calls made as statements at the top level of a route file
+ */
+const routerCalls = (source: ts.SourceFile): { name: string; call: ts.CallExpression; statement: ts.Statement }[] =>
+  source.statements.flatMap((statement) => {
+    if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) {
+      return [];
+    }
+
+    const call = statement.expression;
+    if (
+      !ts.isPropertyAccessExpression(call.expression) ||
+      !ts.isIdentifier(call.expression.expression) ||
+      call.expression.expression.text !== "router"
+    ) {
+      return [];
+    }
+
+    return [{ name: call.expression.name.text, call, statement }];
+  });
+
+const stringArguments = (call: ts.CallExpression): string[] =>
+  call.arguments.filter(ts.isStringLiteralLike).map((argument) => argument.text);
+
+/**
+ * What a handler argument tells about the route: authentication, roles, rate limiting or file uploads
+ */
+const readMiddleware = (argument: ts.Expression): Middleware => {
+  if (ts.isIdentifier(argument)) {
+    if (argument.text === "authenticateToken") return { auth: "required" };
+    if (argument.text === "optionalAuth") return { auth: "optional" };
+  }
+
+  if (ts.isCallExpression(argument)) {
+    const callee = argument.expression.getText();
+    if (callee === "requireRole") return { roles: stringArguments(argument) };
+    if (callee === "rateLimit") return { rateLimited: true };
+    if (/^upload\.(array|single|fields)$/.test(callee)) return { multipart: true };
+  }
+
+  return {};
+};
+
+const mergeMiddleware = (into: Middleware, from: Middleware): Middleware => ({
+  auth: from.auth ?? into.auth,
+  roles: from.roles ?? into.roles,
+  rateLimited: from.rateLimited || into.rateLimited,
+  multipart: from.multipart || into.multipart
+});
+
+/**
+ * Text of the comment right above a statement, without comment markers,
+ * lines restating the route ("GET /resources", "@route ...") and "@access" notes
+ */
+const commentLines = (source: ts.SourceFile, statement: ts.Statement): string[] => {
+  const ranges = ts.getLeadingCommentRanges(source.text, statement.getFullStart()) || [];
+  const last = ranges[ranges.length - 1];
+  if (!last) {
+    return [];
+  }
+
+  return source.text
+    .slice(last.pos, last.end)
+    .replace(/^\/\*\*?|\*\/$/g, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*(\/\/|\*)?\s?/, "").trim())
+    .filter((line) => line && !/^(@route\b|@access\b|(GET|POST|PUT|PATCH|DELETE)\s+\/)/.test(line))
+    .map((line) => line.replace(/^@desc\s+/, ""));
+};
+
+/**
+ * "Get flagged reviews" from the controller method a route ends in, for routes without a comment
+ */
+const summaryFromHandler = (handler: ts.Expression | undefined): string | undefined => {
+  const text = handler?.getText() || "";
+  const method = /\w+Controller\.(\w+)/.exec(text)?.[1];
+  if (!method) {
+    return undefined;
+  }
+
+  const words = method.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const toOpenApiPath = (...parts: string[]): string => {
+  const joined = parts.join("/").replace(/\/+/g, "/").replace(/\/$/, "");
+  return (joined || "/").replace(/:(\w+)/g, "{$1}");
+};
+
+/**
+ * Routes of one router file, with middleware applied by `router.use(...)` carried to the routes after it
+ */
+const scanRouteFile = (file: string, prefix: string, mounts: Map<string, string>): ScannedRoute[] => {
+  const source = parseFile(file);
+  const routes: ScannedRoute[] = [];
+  let shared: Middleware = {};
+
+  const calls = routerCalls(source);
+
+  calls.forEach(({ name, call, statement }, index) => {
+    const [first, ...rest] = call.arguments;
+
+    if (name === "use") {
+      const mounted = rest[0] && ts.isIdentifier(rest[0]) ? mounts.get(rest[0].text) : undefined;
+      if (first && ts.isStringLiteralLike(first) && mounted) {
+        routes.push(...scanRouteFile(mounted, toOpenApiPath(prefix, first.text), mounts));
+      } else {
+        shared = call.arguments.map(readMiddleware).reduce(mergeMiddleware, shared);
+      }
+      return;
+    }
+
+    if (!HTTP_METHODS.includes(name as HttpMethod) || !first || !ts.isStringLiteralLike(first)) {
+      return;
+    }
+
+    const middleware = rest.map(readMiddleware).reduce(mergeMiddleware, shared);
+    const comment = commentLines(source, statement);
+
+    // A comment followed by routes without comments of their own heads a group ("Public routes"),
+    // so it describes the route instead of naming it
+    const next = calls[index + 1];
+    const heading =
+      comment.length > 0 &&
+      ((!!next && commentLines(source, next.statement).length === 0) || /\broutes\b/i.test(comment[0]));
+    const summary = heading ? undefined : comment[0];
+    const description = (heading ? comment : comment.slice(1)).join("\n") || undefined;
+
+    routes.push({
+      method: name as HttpMethod,
+      path: toOpenApiPath(prefix, first.text),
+      file: path.basename(file),
+      localPath: first.text,
+      summary: summary || summaryFromHandler(rest[rest.length - 1]) || `${name.toUpperCase()} ${first.text}`,
+      description,
+      auth: middleware.auth || "none",
+      roles: middleware.roles || [],
+      rateLimited: !!middleware.rateLimited,
+      multipart: !!middleware.multipart
+    });
+  });
+
+  return routes;
+};
+
+/**
+ * Every route the API serves, read from the route files starting at routes/index.ts
+ */
+export const scanRoutes = (routesDirectory: string): ScannedRoute[] => {
+  const indexFile = path.join(routesDirectory, "index.ts");
+  const mounts = new Map<string, string>();
+
+  // Router modules imported by the index, by the name they are imported under
+  for (const statement of parseFile(indexFile).statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text.startsWith("./") &&
+      statement.importClause?.name
+    ) {
+      mounts.set(
+        statement.importClause.name.text,
+        path.join(routesDirectory, `${statement.moduleSpecifier.text}.ts`)
+      );
+    }
+  }
+
+  return scanRouteFile(indexFile, API_PREFIX, mounts);
+};
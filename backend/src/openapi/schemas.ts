@@ -0,0 +1,470 @@
+import { ApiResponse, AuthResponse, TwoFactorChallengeResponse } from "../types/auth";
+import { ResourceCondition, ResourceQueryFilters, ResourceWithFullOwner, RESOURCE_CATEGORIES } from "../types/resource";
+import { NotificationStats } from "../types/notifications";
+import { User, UserRole } from "../entities/User";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import { BorrowRequestEvent } from "../entities/BorrowRequestEvent";
+import { BorrowRequestGroup } from "../entities/BorrowRequestGroup";
+import { BorrowExtension } from "../entities/BorrowExtension";
+import { Chat } from "../entities/Chat";
+import { Community } from "../entities/Community";
+import { ConditionReport } from "../entities/ConditionReport";
+import { DepositLedgerEntry } from "../entities/DepositLedgerEntry";
+import { DisputeCase } from "../entities/DisputeCase";
+import { DisputeEvidence } from "../entities/DisputeEvidence";
+import { DisputeStatement } from "../entities/DisputeStatement";
+import { JobRun } from "../entities/JobRun";
+import { LocationVerification } from "../entities/LocationVerification";
+import { Message } from "../entities/Message";
+import { ModerationAction, ModerationTargetType } from "../entities/ModerationAction";
+import { Notification } from "../entities/Notification";
+import { Resource } from "../entities/Resource";
+import { ResourceBlackout } from "../entities/ResourceBlackout";
+import { Review } from "../entities/Review";
+import { SavedSearch } from "../entities/SavedSearch";
+import { BorrowRequestCreateData, BorrowRequestStats, BorrowRequestUpdateData, PaginatedResponse } from "../services/BorrowRequestService";
+import { ExtensionDecision } from "../services/BorrowExtensionService";
+import { ChatSummary } from "../services/ChatService";
+import { CommunityWithMembership } from "../services/CommunityService";
+import { ConditionComparison } from "../services/ConditionReportService";
+import { DepositLedger } from "../services/DepositService";
+import { JobStatus } from "../services/JobScheduler";
+import { LocationVerificationMethodInfo, VouchRequest, VouchResult } from "../services/LocationVerificationService";
+import { SuspiciousListing } from "../services/ModerationService";
+import { NotificationCreateData, NotificationType } from "../services/NotificationService";
+import { PhotoUploadResult } from "../services/PhotoService";
+import { ResourceCalendar } from "../services/ResourceCalendarService";
+import { ReviewCreateData, ReviewStatistics, ReviewStats } from "../services/ReviewService";
+import { ActiveSession } from "../services/SessionService";
+import { TwoFactorProof } from "../services/TwoFactorService";
+import { CompleteProfile } from "../services/UserService";
+import { WaitlistEntryWithPosition, WaitlistJoinData } from "../services/WaitlistService";
+
+/**
+ * Types the OpenAPI document publishes as components/schemas, each under its own name.
+ * Request and response types come from types/ and the services; the aliases below name generic
+ * responses, since a schema needs a name and ApiResponse<T> has none of its own, and the bodies
+ * and query strings controllers read without a type.
+ */
+export type {
+  LoginRequest,
+  RefreshTokenRequest,
+  RegisterRequest,
+  UpdateProfileRequest,
+  AuthResponse,
+  ProfileResponse,
+  RefreshTokenResponse,
+  TwoFactorChallengeResponse
+} from "../types/auth";
+
+export type {
+  CreateResourceRequest,
+  UpdateResourceRequest,
+  ResourceQueryFilters,
+  PaginatedResourceResponse,
+  SingleResourceResponse
+} from "../types/resource";
+
+export type {
+  NotificationFilters,
+  NotificationResponse,
+  PaginatedNotificationResponse
+} from "../types/notifications";
+
+export type { BorrowRequestGroupCreateData } from "../services/BorrowRequestGroupService";
+export type { ExtensionProposalData } from "../services/BorrowExtensionService";
+export type { CommunityCreateData, CommunityUpdateData } from "../services/CommunityService";
+export type { ConditionReportData } from "../services/ConditionReportService";
+export type { DisputeDecisionData, DisputeOpenData } from "../services/DisputeService";
+export type { LocationVerificationStartData } from "../services/LocationVerificationService";
+export type { BlackoutCreateData } from "../services/ResourceCalendarService";
+export type { SavedSearchCreateData, SavedSearchUpdateData } from "../services/SavedSearchService";
+
+export type { ErrorResponse } from "../utils/errors";
+
+// Lists sent as { data, pagination } beside the message
+type PaginatedApiResponse<T> = ApiResponse<T[]> & Pick<PaginatedResponse<T>, "pagination">;
+
+export type PaginationQuery = Pick<ResourceQueryFilters, "page" | "limit">;
+
+export interface SearchSuggestionsQuery {
+  q: string;
+  limit?: number;
+}
+
+// The body of responses that carry nothing but a message
+export type MessageResponse = ApiResponse<unknown>;
+
+// Accounts
+
+export interface TwoFactorLoginRequest extends TwoFactorProof {
+  challengeToken: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface UpdateLocationRequest {
+  latitude: number;
+  longitude: number;
+  address?: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest extends TwoFactorProof {
+  password: string;
+}
+
+export interface UpdateRoleRequest {
+  role: UserRole;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+// A user as the API shows it, after a profile, role or moderation change
+export type UpdatedProfileResponse = ApiResponse<Omit<User, "password">>;
+
+export interface CompleteProfileResponse {
+  data: CompleteProfile;
+  success: boolean;
+}
+
+export type SessionsResponse = ApiResponse<ActiveSession[]>;
+
+export type SignedOutResponse = ApiResponse<{ signed_out: number }>;
+
+export type TwoFactorStatusResponse = ApiResponse<{ enabled: boolean; recovery_codes_remaining: number }>;
+
+export type TwoFactorSetupResponse = ApiResponse<{ secret: string; otpauth_uri: string }>;
+
+export type RecoveryCodesResponse = ApiResponse<{ recovery_codes: string[] }>;
+
+// Resources
+
+export interface AvailabilityRequest {
+  is_available: boolean;
+}
+
+export interface CalendarQuery {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+}
+
+export interface ReorderPhotosRequest {
+  photoOrder: { id: number; order: number }[];
+}
+
+export type ResourceDetailResponse = ApiResponse<ResourceWithFullOwner>;
+
+export type SearchSuggestionsResponse = ApiResponse<string[]>;
+
+export type ResourceOptionsResponse = ApiResponse<{
+  categories: (typeof RESOURCE_CATEGORIES)[number][];
+  conditions: ResourceCondition[];
+}>;
+
+export type FavouriteResponse = ApiResponse<{ notify_when_available: boolean }>;
+
+export type ResourceCalendarResponse = ApiResponse<ResourceCalendar>;
+
+export type BlackoutResponse = ApiResponse<ResourceBlackout>;
+
+export type PhotoUploadResponse = ApiResponse<PhotoUploadResult[]>;
+
+// Notifications
+
+export interface NotificationIdsRequest {
+  notification_ids: number[];
+}
+
+export interface MarkAllReadRequest {
+  notification_type?: NotificationType;
+}
+
+export interface CreateNotificationRequest extends Omit<NotificationCreateData, "scheduled_for" | "expires_at"> {
+  scheduled_for?: string;
+  expires_at?: string;
+}
+
+export interface BulkNotificationRequest extends Omit<CreateNotificationRequest, "user_id"> {
+  user_ids: number[];
+}
+
+export interface MarkSentRequest {
+  delivery_methods?: { push?: boolean; email?: boolean; sms?: boolean };
+}
+
+export type UnreadCountResponse = ApiResponse<{ unread_count: number }>;
+
+export type NotificationStatsResponse = ApiResponse<NotificationStats>;
+
+export type NotificationDetailResponse = ApiResponse<Notification>;
+
+export type UpdatedCountResponse = ApiResponse<{ updated_count: number }>;
+
+export type DeletedCountResponse = ApiResponse<{ deleted_count: number }>;
+
+export type BulkNotificationResponse = ApiResponse<{ created_count: number; notifications: Notification[] }>;
+
+export type ScheduledNotificationsResponse = ApiResponse<{ notifications: Notification[]; count: number }>;
+
+// Borrowing
+
+export interface BorrowRequestListQuery extends PaginationQuery {
+  status?: BorrowRequestStatus;
+}
+
+export interface CreateBorrowRequestRequest
+  extends Pick<BorrowRequestCreateData, "resource_id" | "message" | "pickup_location" | "return_location"> {
+  start_date: string;
+  end_date: string;
+}
+
+export type UpdateBorrowRequestRequest = Pick<
+  BorrowRequestUpdateData,
+  "pickup_notes" | "return_notes" | "issue_description" | "has_issues"
+>;
+
+export interface UpdateRequestStatusRequest {
+  status: "approved" | "rejected";
+  response_message?: string;
+}
+
+export type PickupRequest = Pick<BorrowRequestUpdateData, "pickup_notes">;
+
+export interface ReturnRequest extends Pick<BorrowRequestUpdateData, "return_notes" | "has_issues" | "issue_description"> {
+  withhold_amount?: number; // Deposit the owner proposes to keep for the issues
+}
+
+export interface RespondToGroupRequest {
+  status: "approved" | "rejected";
+  request_ids?: number[]; // Only these requests of the group; all of them when left out
+  response_message?: string;
+}
+
+export interface RespondToExtensionRequest {
+  decision: ExtensionDecision;
+  response_message?: string;
+}
+
+export interface HealthResponse {
+  status: string;
+  message: string;
+  timestamp: string;
+  success: boolean;
+}
+
+export type BorrowRequestResponse = ApiResponse<BorrowRequest>;
+
+export type BorrowRequestsResponse = ApiResponse<BorrowRequest[]>;
+
+export type BorrowRequestListResponse = PaginatedApiResponse<BorrowRequest>;
+
+export type BorrowRequestHistoryResponse = ApiResponse<BorrowRequestEvent[]>;
+
+export type BorrowRequestStatsResponse = ApiResponse<BorrowRequestStats>;
+
+export type BorrowRequestGroupResponse = ApiResponse<BorrowRequestGroup>;
+
+export type BorrowExtensionResponse = ApiResponse<BorrowExtension>;
+
+export type BorrowExtensionsResponse = ApiResponse<BorrowExtension[]>;
+
+export type ConditionReportResponse = ApiResponse<ConditionReport>;
+
+export type ConditionComparisonResponse = ApiResponse<ConditionComparison>;
+
+export type JoinWaitlistRequest = Omit<WaitlistJoinData, "user_id">;
+
+export type WaitlistEntryResponse = ApiResponse<WaitlistEntryWithPosition>;
+
+export type WaitlistResponse = ApiResponse<WaitlistEntryWithPosition[]>;
+
+// Deposits and disputes
+
+export interface RejectDepositEntryRequest {
+  reason?: string;
+}
+
+export interface DisputeStatementRequest {
+  body: string;
+}
+
+export interface DisputeEvidenceRequest {
+  caption?: string;
+}
+
+export type DepositEntryResponse = ApiResponse<DepositLedgerEntry>;
+
+export type DepositEntriesResponse = PaginatedApiResponse<DepositLedgerEntry>;
+
+export type DepositLedgerResponse = ApiResponse<DepositLedger>;
+
+export type DisputeResponse = ApiResponse<DisputeCase>;
+
+export type DisputeStatementResponse = ApiResponse<DisputeStatement>;
+
+export type DisputeEvidenceResponse = ApiResponse<DisputeEvidence[]>;
+
+// Chats
+
+export interface CreateChatRequest {
+  other_user_id?: number;
+  user1_id?: number; // Older clients send both participants instead
+  user2_id?: number;
+}
+
+export interface SendMessageRequest {
+  content: string;
+  message_type?: string;
+}
+
+export type ChatUnreadCountResponse = ApiResponse<{ unreadCount: number }>;
+
+export type ChatListResponse = ApiResponse<ChatSummary[]>;
+
+export type ChatResponse = ApiResponse<Chat>;
+
+export type ChatMessageResponse = ApiResponse<Message>;
+
+export type ChatMessagesResponse = PaginatedApiResponse<Message>;
+
+// Reviews
+
+export interface UserReviewsQuery extends PaginationQuery {
+  review_type?: ReviewCreateData["review_type"];
+}
+
+export type CreateReviewRequest = Omit<ReviewCreateData, "reviewer_id">;
+
+export type UpdateReviewRequest = Partial<
+  Pick<
+    ReviewCreateData,
+    "rating" | "comment" | "communication_rating" | "reliability_rating" | "item_condition_rating" | "care_rating"
+  >
+>;
+
+export interface ReviewReplyRequest {
+  response: string;
+}
+
+export interface FlagReviewRequest {
+  reason: string;
+}
+
+export interface ReviewVoteRequest {
+  is_helpful: boolean;
+}
+
+export type ReviewResponse = ApiResponse<Review>;
+
+export type UserReviewsResponse = ApiResponse<ReviewStats>;
+
+export type MyReviewsResponse = ApiResponse<Review[]> & { total: number };
+
+export type ReviewStatisticsResponse = ApiResponse<ReviewStatistics>;
+
+export type PublicReviewStatisticsResponse = ApiResponse<Pick<ReviewStatistics, "receivedStats" | "responseRate">>;
+
+// Saved searches and communities
+
+export type SavedSearchResponse = ApiResponse<SavedSearch>;
+
+export type SavedSearchesResponse = ApiResponse<SavedSearch[]>;
+
+export type CommunityResponse = ApiResponse<Community>;
+
+export type CommunitiesResponse = ApiResponse<CommunityWithMembership[]>;
+
+export type CommunityDetailResponse = ApiResponse<CommunityWithMembership>;
+
+export type MyCommunitiesResponse = ApiResponse<Community[]>;
+
+// Location verification
+
+export interface LocationCodeRequest {
+  code: string;
+}
+
+export interface ReviewVerificationRequest {
+  decision: "approve" | "reject";
+  note?: string;
+}
+
+export type LocationVerificationResponse = ApiResponse<LocationVerification>;
+
+export type LocationVerificationStatusResponse = ApiResponse<{
+  is_location_verified: boolean;
+  methods: LocationVerificationMethodInfo[];
+  verifications: LocationVerification[];
+}>;
+
+export type VouchRequestsResponse = ApiResponse<VouchRequest[]>;
+
+export type VouchResponse = ApiResponse<VouchResult>;
+
+// Moderation and jobs
+
+export interface ModerationActionsQuery extends PaginationQuery {
+  target_type?: ModerationTargetType;
+  target_id?: number;
+  moderator_id?: number;
+}
+
+interface ModerationRequest<A extends string> {
+  action: A;
+  reason: string;
+}
+
+export type ModerateReviewRequest = ModerationRequest<"hide" | "show" | "verify">;
+
+export type ModerateUserRequest = ModerationRequest<"suspend" | "reinstate">;
+
+export type ModerateResourceRequest = ModerationRequest<"deactivate" | "reactivate">;
+
+export interface ResolveIssueRequest {
+  reason: string;
+  withhold_amount?: number;
+}
+
+export interface JobRunsQuery extends PaginationQuery {
+  job?: string;
+}
+
+export type FlaggedReviewsResponse = ApiResponse<PaginatedResponse<Review>>;
+
+export type ReportedIssuesResponse = ApiResponse<PaginatedResponse<BorrowRequest>>;
+
+export type SuspiciousListingsResponse = ApiResponse<PaginatedResponse<SuspiciousListing>>;
+
+export type DisputeQueueResponse = ApiResponse<PaginatedResponse<DisputeCase>>;
+
+export type ModerationActionsResponse = ApiResponse<PaginatedResponse<ModerationAction>>;
+
+export type PendingVerificationsResponse = ApiResponse<PaginatedResponse<LocationVerification>>;
+
+export type ModeratedResourceResponse = ApiResponse<Resource>;
+
+export type JobsResponse = ApiResponse<JobStatus[]>;
+
+export type JobRunsResponse = ApiResponse<PaginatedResponse<JobRun>>;
+
+export type JobRunResponse = ApiResponse<JobRun>;
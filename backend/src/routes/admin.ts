@@ -0,0 +1,84 @@
+import { Router } from "express";
+import { ModerationController } from "../controllers/ModerationController";
+import { JobController } from "../controllers/JobController";
+import { LocationVerificationController } from "../controllers/LocationVerificationController";
+import { authenticateToken, requireRole } from "../middleware/auth";
+
+const router = Router();
+const moderationController = new ModerationController();
+const jobController = new JobController();
+const locationVerificationController = new LocationVerificationController();
+
+/**
+ * Admin Routes
+ * All routes require a moderator or admin
+ */
+router.use(authenticateToken, requireRole("moderator", "admin"));
+
+// Moderation queues
+router.get("/moderation/reviews", (req, res) => {
+  moderationController.getFlaggedReviews(req, res);
+});
+
+router.get("/moderation/issues", (req, res) => {
+  moderationController.getReportedIssues(req, res);
+});
+
+router.get("/moderation/listings", (req, res) => {
+  moderationController.getSuspiciousListings(req, res);
+});
+
+router.get("/moderation/disputes", (req, res) => {
+  moderationController.getDisputes(req, res);
+});
+
+// Moderation audit log
+router.get("/moderation/actions", (req, res) => {
+  moderationController.getActions(req, res);
+});
+
+// Moderation actions
+router.put("/reviews/:id/moderate", (req, res) => {
+  moderationController.moderateReview(req, res);
+});
+
+router.put("/users/:id/moderate", (req, res) => {
+  moderationController.moderateUser(req, res);
+});
+
+router.put("/resources/:id/moderate", (req, res) => {
+  moderationController.moderateResource(req, res);
+});
+
+router.put("/borrow-requests/:id/resolve", (req, res) => {
+  moderationController.resolveIssue(req, res);
+});
+
+router.put("/disputes/:id/decide", (req, res) => {
+  moderationController.decideDispute(req, res);
+});
+
+// Location verifications waiting for review
+router.get("/location-verifications", (req, res) => {
+  locationVerificationController.getPendingReviews(req, res);
+});
+
+// Approve or reject a location: { decision: approve | reject, note? }
+router.put("/location-verifications/:id/review", (req, res) => {
+  locationVerificationController.reviewVerification(req, res);
+});
+
+// Background jobs (admin only)
+router.get("/jobs", requireRole("admin"), (req, res) => {
+  jobController.getJobs(req, res);
+});
+
+router.get("/jobs/runs", requireRole("admin"), (req, res) => {
+  jobController.getJobRuns(req, res);
+});
+
+router.post("/jobs/:name/run", requireRole("admin"), (req, res) => {
+  jobController.runJob(req, res);
+});
+
+export default router;
@@ -1,14 +1,21 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/AuthController";
-import { authenticateToken } from "../middleware/auth";
+import { TwoFactorController } from "../controllers/TwoFactorController";
+import { authenticateToken, requireRole } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
 
 const router = Router();
 const authController = new AuthController();
+const twoFactorController = new TwoFactorController();
 
 // Public routes (no authentication required)
-router.post("/register", authController.register.bind(authController));
-router.post("/login", authController.login.bind(authController));
-router.post("/refresh", authController.refreshToken.bind(authController));
+router.post("/register", rateLimit("register"), authController.register.bind(authController));
+router.post("/login", rateLimit("login"), authController.login.bind(authController));
+router.post("/login/2fa", rateLimit("twoFactorLogin"), authController.completeTwoFactorLogin.bind(authController));
+router.post("/refresh", rateLimit("refresh"), authController.refreshToken.bind(authController));
+router.post("/verify-email", rateLimit("accountEmail"), authController.verifyEmail.bind(authController));
+router.post("/forgot-password", rateLimit("accountEmail"), authController.forgotPassword.bind(authController));
+router.post("/reset-password", rateLimit("accountEmail"), authController.resetPassword.bind(authController));
 
 // Protected routes (authentication required)
 router.get("/profile", authenticateToken, authController.getProfile.bind(authController));
@@ -17,5 +24,19 @@ router.put("/profile", authenticateToken, authController.updateProfile.bind(auth
 router.post("/update-location", authenticateToken, authController.updateLocation.bind(authController));
 router.post("/logout", authenticateToken, authController.logout.bind(authController));
 router.post("/change-password", authenticateToken, authController.changePassword.bind(authController));
+router.post("/resend-verification", authenticateToken, rateLimit("accountEmail"), authController.resendVerification.bind(authController));
+router.get("/sessions", authenticateToken, authController.getSessions.bind(authController));
+router.delete("/sessions", authenticateToken, authController.revokeAllSessions.bind(authController));
+router.delete("/sessions/:id", authenticateToken, authController.revokeSession.bind(authController));
+
+// Two-factor authentication
+router.get("/2fa", authenticateToken, twoFactorController.getStatus.bind(twoFactorController));
+router.post("/2fa/setup", authenticateToken, twoFactorController.setup.bind(twoFactorController));
+router.post("/2fa/enable", authenticateToken, twoFactorController.enable.bind(twoFactorController));
+router.post("/2fa/disable", authenticateToken, twoFactorController.disable.bind(twoFactorController));
+router.post("/2fa/recovery-codes", authenticateToken, twoFactorController.regenerateRecoveryCodes.bind(twoFactorController));
+
+// Admin routes
+router.put("/users/:id/role", authenticateToken, requireRole("admin"), authController.updateUserRole.bind(authController));
 
 export default router;
@@ -1,9 +1,27 @@
 import { Router } from "express";
+import multer from "multer";
+import { appConfig } from "../config/app";
 import { BorrowRequestController } from "../controllers/BorrowRequestController";
-import { authenticateToken } from "../middleware/auth";
+import { ConditionReportController } from "../controllers/ConditionReportController";
+import { BorrowExtensionController } from "../controllers/BorrowExtensionController";
+import { BorrowRequestGroupController } from "../controllers/BorrowRequestGroupController";
+import { authenticateToken, requireLocationVerifiedIfEnforced, requireRole } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
 
 const router = Router();
 const borrowRequestController = new BorrowRequestController();
+const conditionReportController = new ConditionReportController();
+const borrowExtensionController = new BorrowExtensionController();
+const borrowRequestGroupController = new BorrowRequestGroupController();
+
+// Condition report photos are validated by PhotoService before they are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: appConfig.uploads.maxFileSizeBytes,
+    files: appConfig.uploads.maxFiles
+  }
+});
 
 /**
  * Borrow Request Routes
@@ -15,20 +33,45 @@ router.get("/stats", authenticateToken, (req, res) => {
 });
 
 // Get overdue requests (system/admin endpoint)
-router.get("/overdue", authenticateToken, (req, res) => {
+router.get("/overdue", authenticateToken, requireRole("admin"), (req, res) => {
   borrowRequestController.getOverdueRequests(req, res);
 });
 
-// Create a new borrow request
-router.post("/", authenticateToken, (req, res) => {
+// Create a new borrow request (location-verified users only when REQUIRE_VERIFIED_LOCATION is on)
+router.post("/", authenticateToken, rateLimit("borrowRequest"), requireLocationVerifiedIfEnforced, (req, res) => {
   borrowRequestController.createBorrowRequest(req, res);
 });
 
+// Request several resources of one owner and/or recurring dates (resource_ids, start_date, end_date, recurrence?)
+router.post("/groups", authenticateToken, rateLimit("borrowRequest"), requireLocationVerifiedIfEnforced, (req, res) => {
+  borrowRequestGroupController.createGroup(req, res);
+});
+
+// Get a bundle or recurring request with all its bookings
+router.get("/groups/:groupId", authenticateToken, (req, res) => {
+  borrowRequestGroupController.getGroup(req, res);
+});
+
+// Approve or reject a group's pending requests (status, request_ids? for a partial decision)
+router.put("/groups/:groupId/status", authenticateToken, (req, res) => {
+  borrowRequestGroupController.respondToGroup(req, res);
+});
+
+// Cancel every open request of a group
+router.put("/groups/:groupId/cancel", authenticateToken, (req, res) => {
+  borrowRequestGroupController.cancelGroup(req, res);
+});
+
 // Get a specific borrow request by ID
 router.get("/:id", authenticateToken, (req, res) => {
   borrowRequestController.getBorrowRequestById(req, res);
 });
 
+// Get the status history of a borrow request
+router.get("/:id/history", authenticateToken, (req, res) => {
+  borrowRequestController.getRequestHistory(req, res);
+});
+
 // Update borrow request with additional information
 router.put("/:id", authenticateToken, (req, res) => {
   borrowRequestController.updateBorrowRequest(req, res);
@@ -54,4 +97,44 @@ router.put("/:id/return", authenticateToken, (req, res) => {
   borrowRequestController.markAsReturned(req, res);
 });
 
+// Mark request as completed
+router.put("/:id/complete", authenticateToken, (req, res) => {
+  borrowRequestController.completeRequest(req, res);
+});
+
+// Extension requests of a borrow
+router.get("/:id/extensions", authenticateToken, (req, res) => {
+  borrowExtensionController.getExtensions(req, res);
+});
+
+// Ask for a later end date on an active borrow
+router.post("/:id/extensions", authenticateToken, (req, res) => {
+  borrowExtensionController.proposeExtension(req, res);
+});
+
+// Approve or decline an extension (owner)
+router.put("/:id/extensions/:extensionId/respond", authenticateToken, (req, res) => {
+  borrowExtensionController.respondToExtension(req, res);
+});
+
+// Withdraw an unanswered extension request (borrower)
+router.put("/:id/extensions/:extensionId/cancel", authenticateToken, (req, res) => {
+  borrowExtensionController.cancelExtension(req, res);
+});
+
+// Pickup and return condition reports side by side
+router.get("/:id/condition-reports", authenticateToken, (req, res) => {
+  conditionReportController.getComparison(req, res);
+});
+
+// File or update a condition report (multipart: stage, condition, checklist JSON, notes?, photos[])
+router.post("/:id/condition-reports", authenticateToken, upload.array("photos", appConfig.uploads.maxFiles), (req, res) => {
+  conditionReportController.submitReport(req, res);
+});
+
+// Sign off a condition report (stage: pickup | return)
+router.put("/:id/condition-reports/:stage/sign", authenticateToken, (req, res) => {
+  conditionReportController.signReport(req, res);
+});
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { ChatController } from "../controllers/ChatController";
 import { authenticateToken } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
 
 const router = Router();
 const chatController = new ChatController();
@@ -30,7 +31,7 @@ router.get("/:id/messages", authenticateToken, (req, res) => {
 });
 
 // Send a message in a chat
-router.post("/:id/messages", authenticateToken, (req, res) => {
+router.post("/:id/messages", authenticateToken, rateLimit("chatMessage"), (req, res) => {
   chatController.sendMessage(req, res);
 });
 
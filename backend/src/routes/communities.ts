@@ -0,0 +1,57 @@
+import { Router } from "express";
+import { CommunityController } from "../controllers/CommunityController";
+import {
+  authenticateToken,
+  optionalAuth,
+  requireLocationVerified,
+  requireRole
+} from "../middleware/auth";
+
+const router = Router();
+const communityController = new CommunityController();
+
+/**
+ * Community Routes
+ */
+
+// List communities (membership flags when signed in)
+router.get("/", optionalAuth, (req, res) => {
+  communityController.getCommunities(req, res);
+});
+
+// Get the user's communities
+router.get("/mine", authenticateToken, (req, res) => {
+  communityController.getMyCommunities(req, res);
+});
+
+// Get a community
+router.get("/:id", optionalAuth, (req, res) => {
+  communityController.getCommunity(req, res);
+});
+
+// Create a community: { name, description?, boundary? | center_latitude, center_longitude, radius_km }
+router.post("/", authenticateToken, requireRole("admin"), (req, res) => {
+  communityController.createCommunity(req, res);
+});
+
+// Update a community's name, description or area
+router.put("/:id", authenticateToken, requireRole("admin"), (req, res) => {
+  communityController.updateCommunity(req, res);
+});
+
+// Delete a community
+router.delete("/:id", authenticateToken, requireRole("admin"), (req, res) => {
+  communityController.deleteCommunity(req, res);
+});
+
+// Join a community around the user's verified location
+router.post("/:id/join", authenticateToken, requireLocationVerified, (req, res) => {
+  communityController.joinCommunity(req, res);
+});
+
+// Leave a community
+router.delete("/:id/membership", authenticateToken, (req, res) => {
+  communityController.leaveCommunity(req, res);
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { DepositController } from "../controllers/DepositController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+const depositController = new DepositController();
+
+/**
+ * Deposit Routes
+ */
+
+// Get the user's deposit entries
+router.get("/", authenticateToken, (req, res) => {
+  depositController.getMyDeposits(req, res);
+});
+
+// Get the deposit ledger of a borrow request
+router.get("/requests/:requestId", authenticateToken, (req, res) => {
+  depositController.getRequestDeposit(req, res);
+});
+
+// Confirm a pending deposit entry
+router.put("/entries/:id/confirm", authenticateToken, (req, res) => {
+  depositController.confirmEntry(req, res);
+});
+
+// Reject a pending hold or dispute a withholding
+router.put("/entries/:id/reject", authenticateToken, (req, res) => {
+  depositController.rejectEntry(req, res);
+});
+
+export default router;
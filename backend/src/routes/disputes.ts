@@ -0,0 +1,49 @@
+import { Router } from "express";
+import multer from "multer";
+import { appConfig } from "../config/app";
+import { DisputeController } from "../controllers/DisputeController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+const disputeController = new DisputeController();
+
+// Evidence photos are validated by PhotoService before they are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: appConfig.uploads.maxFileSizeBytes,
+    files: appConfig.uploads.maxFiles
+  }
+});
+
+/**
+ * Dispute Routes
+ * Moderator decisions live under /admin/disputes
+ */
+
+// Open a dispute on a returned borrow (multipart: borrow_request_id, reason, claimed_amount?, photos[])
+router.post("/", authenticateToken, upload.array("photos", appConfig.uploads.maxFiles), (req, res) => {
+  disputeController.openDispute(req, res);
+});
+
+// Get a dispute with statements and evidence
+router.get("/:id", authenticateToken, (req, res) => {
+  disputeController.getDispute(req, res);
+});
+
+// Add a statement
+router.post("/:id/statements", authenticateToken, (req, res) => {
+  disputeController.addStatement(req, res);
+});
+
+// Upload photo evidence (multipart: photos[], caption?)
+router.post("/:id/evidence", authenticateToken, upload.array("photos", appConfig.uploads.maxFiles), (req, res) => {
+  disputeController.addEvidence(req, res);
+});
+
+// Withdraw a dispute you opened
+router.put("/:id/withdraw", authenticateToken, (req, res) => {
+  disputeController.withdrawDispute(req, res);
+});
+
+export default router;
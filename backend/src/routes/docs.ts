@@ -0,0 +1,20 @@
+import { Router } from "express";
+import swaggerUi from "swagger-ui-express";
+import openApiDocument from "../openapi/openapi.json";
+
+const router = Router();
+
+/**
+ * API Documentation Routes
+ * openapi.json is generated from the route files and API types by npm run openapi:generate
+ */
+
+// The OpenAPI document, for client generators and other tools
+router.get("/openapi.json", (req, res) => {
+  res.json(openApiDocument);
+});
+
+// Interactive documentation
+router.use("/", swaggerUi.serve, swaggerUi.setup(openApiDocument, { customSiteTitle: "BorrowBase API" }));
+
+export default router;
@@ -6,9 +6,18 @@ import chatRoutes from "./chats";
 import borrowRequestRoutes from "./borrowRequests";
 import reviewRoutes from "./reviews";
 import notificationRoutes from "./notificationRoutes";
+import adminRoutes from "./admin";
+import waitlistRoutes from "./waitlist";
+import depositRoutes from "./deposits";
+import disputeRoutes from "./disputes";
+import savedSearchRoutes from "./savedSearches";
+import communityRoutes from "./communities";
+import locationVerificationRoutes from "./locationVerification";
+import docsRoutes from "./docs";
 import { BorrowRequestController } from "../controllers/BorrowRequestController";
 import { ReviewController } from "../controllers/ReviewController";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, requireLocationVerifiedIfEnforced } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
 
 const router = Router();
 const borrowRequestController = new BorrowRequestController();
@@ -45,6 +54,30 @@ router.use("/reviews", reviewRoutes);
 // Notification routes
 router.use("/notifications", notificationRoutes);
 
+// Waitlist routes
+router.use("/waitlist", waitlistRoutes);
+
+// Deposit routes
+router.use("/deposits", depositRoutes);
+
+// Dispute routes
+router.use("/disputes", disputeRoutes);
+
+// Saved search routes
+router.use("/saved-searches", savedSearchRoutes);
+
+// Community routes
+router.use("/communities", communityRoutes);
+
+// Location verification routes
+router.use("/location-verification", locationVerificationRoutes);
+
+// Admin and moderation routes
+router.use("/admin", adminRoutes);
+
+// API documentation
+router.use("/docs", docsRoutes);
+
 // Legacy routes to match old API structure
 // User's borrow requests
 router.get("/my-requests", authenticateToken, (req, res) => {
@@ -57,7 +90,7 @@ router.get("/resource-requests", authenticateToken, (req, res) => {
 });
 
 // Legacy borrow route
-router.post("/borrow", authenticateToken, (req, res) => {
+router.post("/borrow", authenticateToken, rateLimit("borrowRequest"), requireLocationVerifiedIfEnforced, (req, res) => {
   borrowRequestController.createBorrowRequest(req, res);
 });
 
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { LocationVerificationController } from "../controllers/LocationVerificationController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+const verificationController = new LocationVerificationController();
+
+/**
+ * Location Verification Routes
+ */
+
+// Get the user's verification status, history and the available methods
+router.get("/", authenticateToken, (req, res) => {
+  verificationController.getMyVerifications(req, res);
+});
+
+// Start a verification: { method: postal_code | neighbor_vouch | admin_review, note? }
+router.post("/", authenticateToken, (req, res) => {
+  verificationController.startVerification(req, res);
+});
+
+// Get neighbors asking the user to vouch for them
+router.get("/vouch-requests", authenticateToken, (req, res) => {
+  verificationController.getVouchRequests(req, res);
+});
+
+// Enter the mailed code: { code }
+router.post("/:id/code", authenticateToken, (req, res) => {
+  verificationController.submitCode(req, res);
+});
+
+// Vouch for a neighbor
+router.post("/:id/vouch", authenticateToken, (req, res) => {
+  verificationController.vouch(req, res);
+});
+
+// Withdraw a pending verification
+router.delete("/:id", authenticateToken, (req, res) => {
+  verificationController.cancelVerification(req, res);
+});
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { body, param } from "express-validator";
 import { NotificationController } from "../controllers/NotificationController";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, requireRole } from "../middleware/auth";
 
 const router = Router();
 const notificationController = new NotificationController();
@@ -35,7 +35,7 @@ router.get("/stats", notificationController.getNotificationStats);
  * @desc Get scheduled notifications ready for sending (admin only)
  * @access Private (Admin)
  */
-router.get("/scheduled", notificationController.getScheduledNotifications);
+router.get("/scheduled", requireRole("admin"), notificationController.getScheduledNotifications);
 
 /**
  * @route PUT /api/notifications/:id/read
@@ -89,10 +89,17 @@ router.put(
         "borrow_request_pickup_ready",
         "borrow_request_overdue",
         "borrow_request_returned",
+        "borrow_request_extension_requested",
+        "borrow_request_extension_approved",
+        "borrow_request_extension_declined",
         "review_received",
         "review_response",
         "chat_message",
         "resource_available",
+        "saved_search_match",
+        "deposit_update",
+        "dispute_update",
+        "condition_report",
         "system_announcement",
         "account_update",
         "reminder"
@@ -102,6 +109,14 @@ router.put(
   notificationController.markAllAsRead
 );
 
+/**
+ * @route DELETE /api/notifications/cleanup-expired
+ * @desc Clean up expired notifications (admin only)
+ * @access Private (Admin)
+ * Registered before DELETE /:id so the static path is not captured as an ID
+ */
+router.delete("/cleanup-expired", requireRole("admin"), notificationController.cleanupExpiredNotifications);
+
 /**
  * @route DELETE /api/notifications/:id
  * @desc Delete a notification
@@ -142,6 +157,7 @@ router.delete(
  */
 router.post(
   "/",
+  requireRole("admin"),
   [
     body("user_id")
       .isNumeric()
@@ -164,10 +180,17 @@ router.post(
         "borrow_request_pickup_ready",
         "borrow_request_overdue",
         "borrow_request_returned",
+        "borrow_request_extension_requested",
+        "borrow_request_extension_approved",
+        "borrow_request_extension_declined",
         "review_received",
         "review_response",
         "chat_message",
         "resource_available",
+        "saved_search_match",
+        "deposit_update",
+        "dispute_update",
+        "condition_report",
         "system_announcement",
         "account_update",
         "reminder"
@@ -231,6 +254,7 @@ router.post(
  */
 router.post(
   "/bulk",
+  requireRole("admin"),
   [
     body("user_ids")
       .isArray({ min: 1 })
@@ -256,10 +280,17 @@ router.post(
         "borrow_request_pickup_ready",
         "borrow_request_overdue",
         "borrow_request_returned",
+        "borrow_request_extension_requested",
+        "borrow_request_extension_approved",
+        "borrow_request_extension_declined",
         "review_received",
         "review_response",
         "chat_message",
         "resource_available",
+        "saved_search_match",
+        "deposit_update",
+        "dispute_update",
+        "condition_report",
         "system_announcement",
         "account_update",
         "reminder"
@@ -323,6 +354,7 @@ router.post(
  */
 router.put(
   "/:id/sent",
+  requireRole("admin"),
   [
     param("id")
       .isNumeric()
@@ -347,11 +379,4 @@ router.put(
   notificationController.markAsSent
 );
 
-/**
- * @route DELETE /api/notifications/cleanup-expired
- * @desc Clean up expired notifications (admin only)
- * @access Private (Admin)
- */
-router.delete("/cleanup-expired", notificationController.cleanupExpiredNotifications);
-
 export default router;
@@ -1,8 +1,9 @@
 import express from "express";
 import multer from "multer";
+import { appConfig } from "../config/app";
 import { ResourceController } from "../controllers/ResourceController";
 import { ValidationMiddleware, SanitizationMiddleware } from "../middleware/validation";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, optionalAuth, requireLocationVerifiedIfEnforced } from "../middleware/auth";
 import { RESOURCE_CATEGORIES, RESOURCE_CONDITIONS } from "../types/resource";
 
 const router = express.Router();
@@ -12,8 +13,8 @@ const resourceController = new ResourceController();
 const upload = multer({
   storage: multer.memoryStorage(), // Store files in memory for processing
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-    files: 10 // Maximum 10 files per upload
+    fileSize: appConfig.uploads.maxFileSizeBytes,
+    files: appConfig.uploads.maxFiles
   },
   fileFilter: (req, file, cb) => {
     // Only allow image files
@@ -29,16 +30,17 @@ const upload = multer({
 // Apply sanitization to all routes
 router.use(SanitizationMiddleware.sanitizeStrings());
 
-// Public routes (no authentication required)
+// Public routes (no authentication required; a signed-in viewer also gets is_favourited)
 
 /**
  * GET /resources
  * Get paginated resources with optional filters
- * Query params: page, limit, category, search, condition, sort_by, sort_order,
- *               min_value, max_value, max_borrow_days, deposit_required, pickup_required,
- *               latitude, longitude, radius
+ * Query params: page, limit, category, search (full-text), condition, sort_by, sort_order,
+ *               min_value, max_value, max_borrow_days, deposit_required, max_deposit, pickup_required,
+ *               owner_id, community_id, my_communities, latitude, longitude, radius
  */
 router.get("/", 
+  optionalAuth,
   ValidationMiddleware.validateResourceQuery(), 
   resourceController.getResources.bind(resourceController)
 );
@@ -50,11 +52,21 @@ router.get("/",
  *               min_value, max_value, latitude, longitude, radius
  */
 router.get("/search", 
+  optionalAuth,
   ValidationMiddleware.validateSearch(),
   ValidationMiddleware.validateResourceQuery(),
   resourceController.searchResources.bind(resourceController)
 );
 
+/**
+ * GET /resources/suggest
+ * Search-as-you-type suggestions (titles, categories, word completions)
+ * Query params: q, limit (1-20, default 8)
+ */
+router.get("/suggest",
+  resourceController.getSearchSuggestions.bind(resourceController)
+);
+
 /**
  * GET /resources/categories
  * Get all resource categories
@@ -75,6 +87,7 @@ router.get("/categories", (req, res) => {
  * Query params: latitude (required), longitude (required), radius, page, limit, category, search
  */
 router.get("/nearby", 
+  optionalAuth,
   ValidationMiddleware.validateLocation(),
   ValidationMiddleware.validateResourceQuery(),
   resourceController.getNearbyResources.bind(resourceController)
@@ -86,6 +99,7 @@ router.get("/nearby",
  * Query params: page, limit
  */
 router.get("/user/:userId", 
+  optionalAuth,
   ValidationMiddleware.validateResourceQuery(),
   resourceController.getUserResources.bind(resourceController)
 );
@@ -95,12 +109,13 @@ router.get("/user/:userId",
 
 /**
  * POST /resources
- * Create a new resource (authenticated users only)
+ * Create a new resource (authenticated users only; location-verified when REQUIRE_VERIFIED_LOCATION is on)
  * Body: CreateResourceRequest or multipart/form-data
  */
 router.post("/", 
-  upload.array('photos', 10),
+  upload.array('photos', appConfig.uploads.maxFiles),
   authenticateToken,
+  requireLocationVerifiedIfEnforced,
   resourceController.createResource.bind(resourceController)
 );
 
@@ -115,11 +130,23 @@ router.get("/my-resources",
   resourceController.getMyResources.bind(resourceController)
 );
 
+/**
+ * GET /resources/favourites
+ * Get the authenticated user's favourite resources, most recently favourited first
+ * Query params: page, limit
+ */
+router.get("/favourites", 
+  authenticateToken,
+  ValidationMiddleware.validateResourceQuery(),
+  resourceController.getMyFavourites.bind(resourceController)
+);
+
 /**
  * GET /resources/:id
  * Get a single resource by ID
  */
 router.get("/:id", 
+  optionalAuth,
   ValidationMiddleware.validateResourceId(),
   resourceController.getResourceById.bind(resourceController)
 );
@@ -167,6 +194,62 @@ router.post("/:id/availability",
   resourceController.toggleAvailability.bind(resourceController)
 );
 
+// Favourites
+
+/**
+ * POST /resources/:id/favourite
+ * Add a resource to favourites; unavailable items notify the user when they are back
+ */
+router.post("/:id/favourite", 
+  authenticateToken,
+  ValidationMiddleware.validateResourceId(),
+  resourceController.addFavourite.bind(resourceController)
+);
+
+/**
+ * DELETE /resources/:id/favourite
+ * Remove a resource from favourites
+ */
+router.delete("/:id/favourite", 
+  authenticateToken,
+  ValidationMiddleware.validateResourceId(),
+  resourceController.removeFavourite.bind(resourceController)
+);
+
+// Availability calendar routes
+
+/**
+ * GET /resources/:id/calendar
+ * Get day-by-day availability (bookings, blackouts, handover days)
+ * Query params: from, to (YYYY-MM-DD, default next 90 days)
+ */
+router.get("/:id/calendar", 
+  optionalAuth,
+  ValidationMiddleware.validateResourceId(),
+  resourceController.getCalendar.bind(resourceController)
+);
+
+/**
+ * POST /resources/:id/blackouts
+ * Block a date range (resource owner only)
+ * Body: { start_date, end_date, reason? }
+ */
+router.post("/:id/blackouts", 
+  authenticateToken,
+  ValidationMiddleware.validateResourceId(),
+  resourceController.addBlackout.bind(resourceController)
+);
+
+/**
+ * DELETE /resources/:id/blackouts/:blackoutId
+ * Remove a blocked date range (resource owner only)
+ */
+router.delete("/:id/blackouts/:blackoutId", 
+  authenticateToken,
+  ValidationMiddleware.validateResourceId(),
+  resourceController.removeBlackout.bind(resourceController)
+);
+
 // Photo management routes
 
 /**
@@ -175,7 +258,7 @@ router.post("/:id/availability",
  * Body: multipart/form-data with photo files
  */
 router.post("/:id/photos", 
-  upload.array('photos', 10),
+  upload.array('photos', appConfig.uploads.maxFiles),
   authenticateToken,
   ValidationMiddleware.validateResourceId(),
   ValidationMiddleware.validatePhotoUpload(),
@@ -1,9 +1,11 @@
 import { Router } from "express";
 import { ReviewController } from "../controllers/ReviewController";
-import { authenticateToken } from "../middleware/auth";
+import { ModerationController } from "../controllers/ModerationController";
+import { authenticateToken, requireRole } from "../middleware/auth";
 
 const router = Router();
 const reviewController = new ReviewController();
+const moderationController = new ModerationController();
 
 /**
  * Review Routes
@@ -49,9 +51,9 @@ router.post("/:id/vote", authenticateToken, (req, res) => {
   reviewController.voteOnReview(req, res);
 });
 
-// Admin endpoint to moderate a review
-router.put("/admin/:id/moderate", authenticateToken, (req, res) => {
-  reviewController.moderateReview(req, res);
+// Admin endpoint to moderate a review (kept for older clients)
+router.put("/admin/:id/moderate", authenticateToken, requireRole("moderator", "admin"), (req, res) => {
+  moderationController.moderateReview(req, res);
 });
 
 export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { SavedSearchController } from "../controllers/SavedSearchController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+const savedSearchController = new SavedSearchController();
+
+/**
+ * Saved Search Routes
+ */
+
+// Get the user's saved searches
+router.get("/", authenticateToken, (req, res) => {
+  savedSearchController.getMySavedSearches(req, res);
+});
+
+// Save a search
+router.post("/", authenticateToken, (req, res) => {
+  savedSearchController.createSavedSearch(req, res);
+});
+
+// Update a saved search (name, filters, alerts)
+router.put("/:id", authenticateToken, (req, res) => {
+  savedSearchController.updateSavedSearch(req, res);
+});
+
+// Delete a saved search
+router.delete("/:id", authenticateToken, (req, res) => {
+  savedSearchController.deleteSavedSearch(req, res);
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { WaitlistController } from "../controllers/WaitlistController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+const waitlistController = new WaitlistController();
+
+/**
+ * Waitlist Routes
+ */
+
+// Get the user's active waitlist entries
+router.get("/", authenticateToken, (req, res) => {
+  waitlistController.getMyWaitlist(req, res);
+});
+
+// Join the waitlist for a resource
+router.post("/", authenticateToken, (req, res) => {
+  waitlistController.joinWaitlist(req, res);
+});
+
+// Leave a waitlist
+router.delete("/:id", authenticateToken, (req, res) => {
+  waitlistController.leaveWaitlist(req, res);
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import { buildOpenApiDocument } from "../openapi/document";
+
+const OUTPUT_FILE = path.join(__dirname, "..", "openapi", "openapi.json");
+
+/**
+ * Write the OpenAPI document served at /api/docs, which the frontend client types are generated from.
+ * With --check, fail instead when the committed document is out of date.
+ *
+ * Usage: npm run openapi:generate
+ *        npm run openapi:check
+ */
+const main = (): void => {
+  const document = `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`;
+  const relativePath = path.relative(process.cwd(), OUTPUT_FILE);
+
+  if (process.argv.includes("--check")) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, "utf8") : "";
+    if (current !== document) {
+      console.error(`❌ ${relativePath} is out of date; run npm run openapi:generate`);
+      process.exit(1);
+    }
+
+    console.log(`✅ ${relativePath} is up to date`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, document);
+  console.log(`✅ Wrote ${relativePath}`);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Failed to generate the OpenAPI document:", error);
+  process.exit(1);
+}
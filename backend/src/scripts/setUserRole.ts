@@ -0,0 +1,42 @@
+import "reflect-metadata";
+// Load environment variables before any config module reads them
+import "dotenv/config";
+import { AppDataSource, initializeDatabase } from "../config/database";
+import { User, UserRole } from "../entities/User";
+import { USER_ROLES } from "../types/auth";
+
+/**
+ * Assign a role to a user by email. Used to bootstrap the first admin,
+ * since the role endpoint itself requires an admin.
+ *
+ * Usage: npm run user:role -- <email> <member|moderator|admin>
+ */
+const main = async (): Promise<void> => {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !role || !USER_ROLES.includes(role as UserRole)) {
+    console.error(`Usage: npm run user:role -- <email> <${USER_ROLES.join("|")}>`);
+    process.exit(1);
+  }
+
+  await initializeDatabase();
+
+  const userRepository = AppDataSource.getRepository(User);
+  const user = await userRepository.findOne({ where: { email } });
+
+  if (!user) {
+    console.error(`❌ No user found with email ${email}`);
+    process.exit(1);
+  }
+
+  user.role = role as UserRole;
+  await userRepository.save(user);
+
+  console.log(`✅ ${user.email} is now ${user.role}`);
+  await AppDataSource.destroy();
+};
+
+main().catch((error) => {
+  console.error("❌ Failed to update user role:", error);
+  process.exit(1);
+});
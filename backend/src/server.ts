@@ -1,39 +1,37 @@
 import "reflect-metadata";
+// Load environment variables before any config module reads them
+import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { createServer } from "http";
 import { Server } from "socket.io";
-import dotenv from "dotenv";
+import { appConfig } from "./config/app";
 import { initializeDatabase } from "./config/database";
+import { databaseConfig } from "./config/databaseConfig";
 import apiRoutes from "./routes/index";
 import { NotificationManager } from "./services/NotificationManager";
+import { JobScheduler } from "./services/JobScheduler";
+import { registerDefaultJobs } from "./jobs";
+import { jobConfig } from "./config/jobs";
+import { rateLimitConfig } from "./config/rateLimits";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
-
-// Load environment variables
-dotenv.config();
+import { ResourceSearchService } from "./services/ResourceSearchService";
 
 const app = express();
 const httpServer = createServer(app);
-const PORT = process.env.PORT || 3000;
+const PORT = appConfig.server.port;
+
+// Rate limits are keyed by req.ip, which is only the client's address when the proxy is trusted
+app.set("trust proxy", rateLimitConfig.trustProxy);
 
-// CORS configuration - Allow all origins for development
+// CORS configuration - any origin in development, only CORS_ORIGINS in production
 app.use(
     cors({
-        origin: function (origin, callback) {
-            // Allow requests with no origin (like mobile apps, Postman, curl)
-            if (!origin) return callback(null, true);
-
-            // For development, allow any localhost origin
-            if (origin.includes("localhost")) {
-                return callback(null, true);
-            }
-
-            // Allow other origins as needed
-            callback(null, true);
-        },
+        origin: appConfig.cors.origin,
         credentials: true, // Enable credentials
         methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
         allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+        exposedHeaders: ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "Retry-After"],
         optionsSuccessStatus: 200, // Some legacy browsers choke on 204
     })
 );
@@ -41,20 +39,14 @@ app.use(
 // Socket.IO with CORS
 const io = new Server(httpServer, {
     cors: {
-        origin: function (origin, callback) {
-            if (!origin) return callback(null, true);
-            if (origin.includes("localhost")) {
-                return callback(null, true);
-            }
-            callback(null, true);
-        },
+        origin: appConfig.cors.origin,
         credentials: true,
     },
 });
 
 // Middleware
-app.use(express.json({ limit: "10mb" }));
-app.use(express.urlencoded({ extended: true, limit: "10mb" }));
+app.use(express.json({ limit: appConfig.server.bodyLimit }));
+app.use(express.urlencoded({ extended: true, limit: appConfig.server.bodyLimit }));
 
 // Security headers
 app.use((req, res, next) => {
@@ -70,6 +62,10 @@ app.use("/uploads", express.static("uploads"));
 // Create notification manager
 const notificationManager = new NotificationManager(io);
 
+// Create background job scheduler
+const jobScheduler = new JobScheduler();
+registerDefaultJobs(jobScheduler, notificationManager);
+
 // API Routes
 app.use("/api", apiRoutes);
 
@@ -166,6 +162,7 @@ io.on("connection", (socket) => {
 // Make io and notification manager accessible to other parts of the app
 app.set("io", io);
 app.set("notificationManager", notificationManager);
+app.set("jobScheduler", jobScheduler);
 
 // Basic route
 app.get("/", (req, res) => {
@@ -191,6 +188,17 @@ const startServer = async () => {
         await initializeDatabase();
         console.log("🔧 Database initialized");
 
+        // Rebuild the full-text search index from the resources table
+        await new ResourceSearchService().rebuild();
+        console.log("🔎 Search index ready");
+
+        // Start background jobs
+        if (jobConfig.enabled) {
+            await jobScheduler.start();
+        } else {
+            console.log("⏸️  Background jobs disabled (JOBS_ENABLED=false)");
+        }
+
         // Start HTTP server with Socket.IO
         httpServer.listen(PORT, () => {
             console.log("🚀 BorrowBase API Server started successfully!");
@@ -199,7 +207,8 @@ const startServer = async () => {
                 `🔗 API endpoints available at http://localhost:${PORT}/api`
             );
             console.log(`💬 Socket.IO enabled for real-time chat`);
-            console.log(`💾 Using SQLite Database with TypeORM`);
+            console.log(`📖 API docs at http://localhost:${PORT}/api/docs`);
+            console.log(`💾 Using ${databaseConfig.type === "postgres" ? "PostgreSQL" : "SQLite"} Database with TypeORM`);
             console.log(`🏗️  Architecture: MVC with Services pattern`);
             console.log("");
             console.log("📋 Available API Routes:");
@@ -218,6 +227,9 @@ const startServer = async () => {
             console.log(
                 "   GET  /api/resources         - Get all resources (with filters)"
             );
+            console.log(
+                "   GET  /api/resources/suggest - Search suggestions"
+            );
             console.log("   GET  /api/resources/:id     - Get resource by ID");
             console.log("   POST /api/resources         - Create new resource");
             console.log("   PUT  /api/resources/:id     - Update resource");
@@ -225,6 +237,9 @@ const startServer = async () => {
             console.log(
                 "   GET  /api/my-resources      - Get user's resources"
             );
+            console.log(
+                "   GET  /api/resources/favourites - Get user's favourites"
+            );
             console.log("");
             console.log("💬 Chat:");
             console.log("   GET  /api/chats             - Get user's chats");
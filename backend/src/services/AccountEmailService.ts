@@ -0,0 +1,189 @@
+import { createHash, randomBytes } from "crypto";
+import { IsNull, MoreThan, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { accountTokenConfig, mailConfig } from "../config/mail";
+import { AccountToken, AccountTokenPurpose } from "../entities/AccountToken";
+import { User } from "../entities/User";
+import { EmailTemplates } from "../utils/emailTemplates";
+import {
+  ConflictError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+  validateLength
+} from "../utils/errors";
+import { getMailer } from "./Mailer";
+import { UserService } from "./UserService";
+
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Emailed single-use links: confirming an email address and resetting a forgotten password
+ */
+export class AccountEmailService {
+  private tokenRepository: Repository<AccountToken>;
+  private userRepository: Repository<User>;
+  private userService: UserService;
+
+  constructor() {
+    this.tokenRepository = AppDataSource.getRepository(AccountToken);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.userService = new UserService();
+  }
+
+  /**
+   * Email the user a link confirming their address
+   */
+  async sendVerificationEmail(userId: number): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+
+    if (user.is_email_verified) {
+      throw new ConflictError("Your email is already verified");
+    }
+
+    const hours = accountTokenConfig.emailVerificationHours;
+    const token = await this.issueToken(user.id, "email_verification", hours * 60 * 60 * 1000);
+
+    await getMailer().send({
+      to: user.email,
+      ...EmailTemplates.email_verification({
+        name: user.name,
+        link: `${mailConfig.appUrl}/verify-email?token=${token}`,
+        expires_in_hours: hours
+      })
+    });
+  }
+
+  /**
+   * Confirm the email address of the user the link was sent to
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const accountToken = await this.redeemToken(token, "email_verification");
+    await this.userService.verifyEmail(accountToken.user_id);
+  }
+
+  /**
+   * Email a password reset link. Unknown addresses and rate-limited requests are
+   * ignored silently so the response never reveals whether an account exists;
+   * the link is issued and sent in the background so known addresses answer as fast.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { email: email.trim() } });
+
+    if (!user || !user.is_active) {
+      return;
+    }
+
+    this.sendPasswordReset(user).catch((error) => {
+      console.error(`Failed to send a password reset email to user ${user.id}:`, error);
+    });
+  }
+
+  private async sendPasswordReset(user: User): Promise<void> {
+    const minutes = accountTokenConfig.passwordResetMinutes;
+    let token: string;
+
+    try {
+      token = await this.issueToken(user.id, "password_reset", minutes * 60 * 1000);
+    } catch (error) {
+      if (error instanceof TooManyRequestsError) {
+        return;
+      }
+      throw error;
+    }
+
+    await getMailer().send({
+      to: user.email,
+      ...EmailTemplates.password_reset({
+        name: user.name,
+        link: `${mailConfig.appUrl}/reset-password?token=${token}`,
+        expires_in_minutes: minutes
+      })
+    });
+  }
+
+  /**
+   * Set a new password with a reset link. Following the link proves the user owns
+   * the address, so an unverified email is verified too.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    if (typeof password !== "string") {
+      throw new ValidationError("password is required", "password");
+    }
+    validateLength(password, "password", 6, 128);
+
+    const accountToken = await this.redeemToken(token, "password_reset");
+
+    await this.userService.resetPassword(accountToken.user_id, password);
+    await this.userService.verifyEmail(accountToken.user_id);
+  }
+
+  /**
+   * Create a token for the user, superseding their unused ones for the same purpose.
+   * Returns the raw token for the emailed link; only its hash is stored.
+   */
+  private async issueToken(userId: number, purpose: AccountTokenPurpose, lifetimeMs: number): Promise<string> {
+    const sentLastHour = await this.tokenRepository.count({
+      where: {
+        user_id: userId,
+        purpose,
+        created_at: MoreThan(new Date(Date.now() - 60 * 60 * 1000))
+      }
+    });
+
+    if (sentLastHour >= accountTokenConfig.maxEmailsPerHour) {
+      throw new TooManyRequestsError("Too many emails sent, please try again in an hour");
+    }
+
+    await this.tokenRepository.update(
+      { user_id: userId, purpose, used_at: IsNull() },
+      { used_at: new Date() }
+    );
+
+    const token = randomBytes(32).toString("hex");
+
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        user_id: userId,
+        purpose,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + lifetimeMs)
+      })
+    );
+
+    return token;
+  }
+
+  /**
+   * Use up a token, failing if it is unknown, expired or already used
+   */
+  private async redeemToken(token: string, purpose: AccountTokenPurpose): Promise<AccountToken> {
+    if (typeof token !== "string" || !/^[a-f0-9]{64}$/.test(token.trim())) {
+      throw new ValidationError("This link is invalid or has expired", "token");
+    }
+
+    const accountToken = await this.tokenRepository.findOne({
+      where: { token_hash: hashToken(token.trim()), purpose }
+    });
+
+    if (!accountToken || accountToken.used_at || accountToken.expires_at.getTime() <= Date.now()) {
+      throw new ValidationError("This link is invalid or has expired", "token");
+    }
+
+    // Conditional update so two requests racing with the same link cannot both succeed
+    const result = await this.tokenRepository.update(
+      { id: accountToken.id, used_at: IsNull() },
+      { used_at: new Date() }
+    );
+
+    if (!result.affected) {
+      throw new ValidationError("This link is invalid or has expired", "token");
+    }
+
+    return accountToken;
+  }
+}
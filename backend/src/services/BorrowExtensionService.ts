@@ -0,0 +1,273 @@
+import { Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest } from "../entities/BorrowRequest";
+import { BorrowExtension, BorrowExtensionStatus } from "../entities/BorrowExtension";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { ResourceCalendarService, addDays, toDateString } from "./ResourceCalendarService";
+import { WaitlistService } from "./WaitlistService";
+import { BorrowRequestStateMachine } from "./BorrowRequestStateMachine";
+
+export interface ExtensionProposalData {
+  requested_end_date: string;
+  message?: string;
+}
+
+export type ExtensionDecision = "approve" | "decline";
+
+export class BorrowExtensionService {
+  private extensionRepository: Repository<BorrowExtension>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private notificationService: NotificationService;
+  private calendarService: ResourceCalendarService;
+  private waitlistService: WaitlistService;
+  private stateMachine: BorrowRequestStateMachine;
+
+  constructor() {
+    this.extensionRepository = AppDataSource.getRepository(BorrowExtension);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.notificationService = new NotificationService();
+    this.calendarService = new ResourceCalendarService();
+    this.waitlistService = new WaitlistService();
+    this.stateMachine = new BorrowRequestStateMachine();
+  }
+
+  /**
+   * Ask the owner to keep an active borrow longer
+   */
+  async proposeExtension(
+    requestId: number,
+    userId: number,
+    data: ExtensionProposalData
+  ): Promise<BorrowExtension> {
+    const request = await this.loadRequest(requestId);
+
+    if (request.requester_id !== userId) {
+      throw new UnauthorizedError("Only the borrower can ask for an extension");
+    }
+
+    if (request.status !== "active") {
+      throw new ConflictError("Only active borrows can be extended");
+    }
+
+    if (!data.requested_end_date) {
+      throw new ValidationError("requested_end_date is required");
+    }
+
+    const message = data.message?.trim() || undefined;
+    if (message && message.length > 500) {
+      throw new ValidationError("Message must be 500 characters or less");
+    }
+
+    const currentEnd = toDateString(request.end_date);
+    const newEnd = toDateString(data.requested_end_date, "requested_end_date");
+    await this.assertCanExtend(request, currentEnd, newEnd);
+
+    const pending = await this.extensionRepository.exists({
+      where: { borrow_request_id: request.id, status: "pending" }
+    });
+
+    if (pending) {
+      throw new ConflictError("You already have an extension request waiting for the owner");
+    }
+
+    const extension = await this.extensionRepository.save(
+      this.extensionRepository.create({
+        borrow_request_id: request.id,
+        requested_by: userId,
+        previous_end_date: currentEnd,
+        requested_end_date: newEnd,
+        message
+      })
+    );
+
+    await this.notify(request.resource!.owner_id, "extension_requested", request, userId, {
+      resource_name: request.resource?.title,
+      requester_name: request.requester?.name,
+      end_date: currentEnd,
+      requested_end_date: newEnd,
+      message
+    });
+
+    return extension;
+  }
+
+  /**
+   * Approve or decline an extension. Approval re-checks the calendar and moves the borrow's end and due dates.
+   */
+  async respondToExtension(
+    requestId: number,
+    extensionId: number,
+    userId: number,
+    decision: ExtensionDecision,
+    responseMessage?: string
+  ): Promise<BorrowExtension> {
+    if (decision !== "approve" && decision !== "decline") {
+      throw new ValidationError("Decision must be approve or decline");
+    }
+
+    if (responseMessage && responseMessage.length > 500) {
+      throw new ValidationError("Response message must be 500 characters or less");
+    }
+
+    const extension = await this.extensionRepository.findOne({
+      where: { id: extensionId, borrow_request_id: requestId }
+    });
+
+    if (!extension) {
+      throw new NotFoundError("Extension request");
+    }
+
+    const request = await this.loadRequest(extension.borrow_request_id);
+
+    if (request.resource?.owner_id !== userId) {
+      throw new UnauthorizedError("Only the owner can answer an extension request");
+    }
+
+    if (extension.status !== "pending") {
+      throw new ConflictError("This extension request has already been answered");
+    }
+
+    if (decision === "approve") {
+      if (request.status !== "active") {
+        throw new ConflictError("Only active borrows can be extended");
+      }
+
+      if (toDateString(request.end_date) !== extension.previous_end_date) {
+        throw new ConflictError("The borrow dates changed since this extension was requested");
+      }
+
+      // Other bookings may have come in while the request was waiting
+      await this.assertCanExtend(request, extension.previous_end_date, extension.requested_end_date);
+    }
+
+    await this.claim(extension, decision === "approve" ? "approved" : "declined", {
+      response_message: responseMessage,
+      responded_by: userId,
+      responded_at: new Date()
+    });
+
+    if (decision === "approve") {
+      const newEnd = new Date(extension.requested_end_date);
+      await this.borrowRequestRepository.update(request.id, { end_date: newEnd, due_date: newEnd });
+      await this.stateMachine.recordEvent(
+        request,
+        userId,
+        `Extended from ${extension.previous_end_date} to ${extension.requested_end_date}`
+      );
+    }
+
+    await this.notify(
+      request.requester_id,
+      decision === "approve" ? "extension_approved" : "extension_declined",
+      request,
+      userId,
+      {
+        resource_name: request.resource?.title,
+        end_date: decision === "approve" ? extension.requested_end_date : extension.previous_end_date,
+        response_message: responseMessage
+      }
+    );
+
+    return this.extensionRepository.findOne({ where: { id: extension.id } }) as Promise<BorrowExtension>;
+  }
+
+  /**
+   * Withdraw an extension request the owner hasn't answered yet
+   */
+  async cancelExtension(requestId: number, extensionId: number, userId: number): Promise<BorrowExtension> {
+    const extension = await this.extensionRepository.findOne({
+      where: { id: extensionId, borrow_request_id: requestId }
+    });
+
+    if (!extension) {
+      throw new NotFoundError("Extension request");
+    }
+
+    if (extension.requested_by !== userId) {
+      throw new UnauthorizedError("You can only cancel your own extension requests");
+    }
+
+    await this.claim(extension, "cancelled", {});
+
+    return this.extensionRepository.findOne({ where: { id: extension.id } }) as Promise<BorrowExtension>;
+  }
+
+  /**
+   * Extension requests of a borrow, newest first
+   */
+  async getExtensions(requestId: number, userId: number): Promise<BorrowExtension[]> {
+    const request = await this.loadRequest(requestId);
+
+    if (request.requester_id !== userId && request.resource?.owner_id !== userId) {
+      throw new UnauthorizedError("Not authorized to view this request");
+    }
+
+    return this.extensionRepository.find({
+      where: { borrow_request_id: request.id },
+      order: { created_at: "DESC", id: "DESC" }
+    });
+  }
+
+  private async assertCanExtend(request: BorrowRequest, currentEnd: string, newEnd: string): Promise<void> {
+    this.calendarService.validateExtensionTerms(request.resource!, request.start_date, currentEnd, newEnd);
+
+    // Only the added days need to be free; the borrow itself is excluded
+    const firstExtraDay = addDays(currentEnd, 1);
+    await this.calendarService.assertDatesFree(request.resource!, firstExtraDay, newEnd, request.id);
+    await this.waitlistService.assertNotHeld(request.resource_id, firstExtraDay, newEnd, request.requester_id);
+  }
+
+  /**
+   * Close a pending extension; conditional so an answer and a cancellation can't both win
+   */
+  private async claim(
+    extension: BorrowExtension,
+    status: BorrowExtensionStatus,
+    changes: Partial<BorrowExtension>
+  ): Promise<void> {
+    const result = await this.extensionRepository
+      .createQueryBuilder()
+      .update(BorrowExtension)
+      .set({ ...changes, status })
+      .where("id = :id", { id: extension.id })
+      .andWhere("status = :pending", { pending: "pending" })
+      .execute();
+
+    if (result.affected !== 1) {
+      throw new ConflictError("This extension request has already been answered");
+    }
+  }
+
+  private async loadRequest(requestId: number): Promise<BorrowRequest> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource", "requester"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    return request;
+  }
+
+  private async notify(
+    userId: number,
+    type: "extension_requested" | "extension_approved" | "extension_declined",
+    request: BorrowRequest,
+    actorId: number,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.notificationService.createBorrowRequestNotification(userId, type, request.id, actorId, data);
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { In, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest } from "../entities/BorrowRequest";
+import { BorrowRequestGroup, RecurrenceFrequency } from "../entities/BorrowRequestGroup";
+import { Resource } from "../entities/Resource";
+import {
+  AppError,
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError,
+  validateArray,
+  validateEnum,
+  validateInteger
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { BorrowRequestService } from "./BorrowRequestService";
+import { BorrowRequestStateMachine } from "./BorrowRequestStateMachine";
+import { ResourceCalendarService, addDays, addMonths, toDateString } from "./ResourceCalendarService";
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["weekly", "monthly"];
+
+// Up to a year ahead
+const MAX_OCCURRENCES: Record<RecurrenceFrequency, number> = { weekly: 52, monthly: 12 };
+const MAX_BUNDLE_RESOURCES = 10;
+const MAX_GROUP_REQUESTS = 60;
+const MAX_LISTED_PROBLEMS = 10;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count: number; // Total number of occurrences, the first one included
+}
+
+export interface BorrowRequestGroupCreateData {
+  resource_ids: number[];
+  start_date: Date | string;
+  end_date: Date | string;
+  message?: string;
+  pickup_location?: string;
+  return_location?: string;
+  recurrence?: RecurrenceRule;
+}
+
+export interface Occurrence {
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Expand the first occurrence's dates into every occurrence of the rule
+ */
+export const expandRecurrence = (first: Occurrence, rule?: RecurrenceRule): Occurrence[] => {
+  if (!rule) {
+    return [first];
+  }
+
+  const shift = (day: string, index: number) =>
+    rule.frequency === "weekly" ? addDays(day, index * 7) : addMonths(day, index);
+
+  return Array.from({ length: rule.count }, (_, index) => ({
+    start_date: shift(first.start_date, index),
+    end_date: shift(first.end_date, index)
+  }));
+};
+
+export class BorrowRequestGroupService {
+  private groupRepository: Repository<BorrowRequestGroup>;
+  private resourceRepository: Repository<Resource>;
+  private borrowRequestService: BorrowRequestService;
+  private notificationService: NotificationService;
+  private stateMachine: BorrowRequestStateMachine;
+  private calendarService: ResourceCalendarService;
+
+  constructor() {
+    this.groupRepository = AppDataSource.getRepository(BorrowRequestGroup);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.borrowRequestService = new BorrowRequestService();
+    this.notificationService = new NotificationService();
+    this.stateMachine = new BorrowRequestStateMachine();
+    this.calendarService = new ResourceCalendarService();
+  }
+
+  /**
+   * Request several resources of one owner and/or the same dates repeated.
+   * Every resource and occurrence is checked first; nothing is created unless all of them can be booked.
+   */
+  async createGroup(requesterId: number, data: BorrowRequestGroupCreateData): Promise<BorrowRequestGroup> {
+    validateArray(data.resource_ids, "resource_ids", 1, MAX_BUNDLE_RESOURCES, true);
+
+    const resourceIds = [...new Set(data.resource_ids.map((id) => Number(id)))];
+    if (resourceIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+      throw new ValidationError("resource_ids must be positive integers", "resource_ids", data.resource_ids);
+    }
+
+    if (data.recurrence) {
+      validateEnum(data.recurrence.frequency, "recurrence.frequency", RECURRENCE_FREQUENCIES, true);
+      validateInteger(
+        data.recurrence.count,
+        "recurrence.count",
+        2,
+        MAX_OCCURRENCES[data.recurrence.frequency],
+        true
+      );
+    } else if (resourceIds.length < 2) {
+      throw new ValidationError("A group needs several resources or a recurrence; use a single borrow request instead");
+    }
+
+    const message = data.message?.trim() || undefined;
+    if (message && message.length > 1000) {
+      throw new ValidationError("Message must be 1000 characters or less");
+    }
+
+    const resources = await this.resourceRepository.find({ where: { id: In(resourceIds) } });
+    if (resources.length !== resourceIds.length) {
+      throw new NotFoundError("Resource");
+    }
+
+    const ownerId = resources[0].owner_id;
+    if (resources.some((resource) => resource.owner_id !== ownerId)) {
+      throw new ValidationError("All resources in a bundle must belong to the same owner");
+    }
+
+    const occurrences = this.expandOccurrences(data);
+    if (occurrences.length * resources.length > MAX_GROUP_REQUESTS) {
+      throw new ValidationError(`A group can contain at most ${MAX_GROUP_REQUESTS} bookings`);
+    }
+
+    // Conflict checks run per occurrence so the requester sees every date that doesn't work
+    const problems: AppError[] = [];
+    const labels: string[] = [];
+
+    for (const occurrence of occurrences) {
+      for (const resource of resources) {
+        try {
+          await this.borrowRequestService.assertCanRequest(
+            resource,
+            requesterId,
+            occurrence.start_date,
+            occurrence.end_date
+          );
+        } catch (error) {
+          if (!(error instanceof ValidationError || error instanceof ConflictError)) throw error;
+          problems.push(error);
+          labels.push(`${this.describe(resource, occurrence)}: ${error.message}`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      this.throwProblems("Some of the requested bookings can't be made", problems, labels);
+    }
+
+    const group = await this.groupRepository.save(
+      this.groupRepository.create({
+        requester_id: requesterId,
+        owner_id: ownerId,
+        recurrence_frequency: data.recurrence?.frequency ?? null,
+        occurrences: occurrences.length,
+        message
+      })
+    );
+
+    const created: BorrowRequest[] = [];
+    try {
+      for (const occurrence of occurrences) {
+        for (const resource of resources) {
+          created.push(
+            await this.borrowRequestService.createBorrowRequest(
+              {
+                resource_id: resource.id,
+                requester_id: requesterId,
+                start_date: new Date(occurrence.start_date),
+                end_date: new Date(occurrence.end_date),
+                message,
+                pickup_location: data.pickup_location,
+                return_location: data.return_location,
+                group_id: group.id
+              },
+              false
+            )
+          );
+        }
+      }
+    } catch (error) {
+      // Someone booked one of the dates in the meantime: withdraw what was already made
+      for (const request of created) {
+        await this.borrowRequestService.cancelRequest(request.id, requesterId, false);
+      }
+      throw error;
+    }
+
+    await this.notify(ownerId, "created", created[0].id, requesterId, {
+      group_id: group.id,
+      resource_name: resources.map((resource) => resource.title).join(", "),
+      requester_name: created[0].requester?.name,
+      start_date: occurrences[0].start_date,
+      end_date: occurrences[0].end_date,
+      recurrence_frequency: group.recurrence_frequency,
+      occurrences: group.occurrences,
+      request_count: created.length
+    });
+
+    return this.loadGroup(group.id);
+  }
+
+  /**
+   * A group with all its requests, for the requester or the owner
+   */
+  async getGroup(groupId: number, userId: number): Promise<BorrowRequestGroup> {
+    const group = await this.loadGroup(groupId);
+
+    if (group.requester_id !== userId && group.owner_id !== userId) {
+      throw new UnauthorizedError("Not authorized to view this request");
+    }
+
+    return group;
+  }
+
+  /**
+   * Answer the group's pending requests together. The decision applies to requestIds
+   * (all pending requests if omitted); the remaining pending requests get the opposite one,
+   * so approving a subset is a partial approval.
+   */
+  async respondToGroup(
+    groupId: number,
+    userId: number,
+    status: "approved" | "rejected",
+    requestIds?: number[],
+    responseMessage?: string
+  ): Promise<BorrowRequestGroup> {
+    validateEnum(status, "status", ["approved", "rejected"], true);
+
+    if (responseMessage && responseMessage.length > 1000) {
+      throw new ValidationError("Response message must be 1000 characters or less");
+    }
+
+    const group = await this.loadGroup(groupId);
+
+    if (group.owner_id !== userId) {
+      throw new UnauthorizedError("Only the owner can answer these requests");
+    }
+
+    const pending = (group.requests || []).filter((request) => request.status === "pending");
+    if (pending.length === 0) {
+      throw new ConflictError("There are no pending requests in this group");
+    }
+
+    let selected = pending;
+    if (requestIds !== undefined) {
+      validateArray(requestIds, "request_ids", 0, pending.length, true);
+      const ids = requestIds.map((id) => Number(id));
+      if (ids.some((id) => !pending.some((request) => request.id === id))) {
+        throw new ValidationError("request_ids must be pending requests of this group", "request_ids", requestIds);
+      }
+      selected = pending.filter((request) => ids.includes(request.id));
+    }
+
+    const approved = status === "approved" ? selected : pending.filter((request) => !selected.includes(request));
+    const rejected = pending.filter((request) => !approved.includes(request));
+
+    // Check every approval before changing anything, so the group isn't left half answered
+    const problems: AppError[] = [];
+    const labels: string[] = [];
+
+    for (const request of approved) {
+      this.stateMachine.assertCanTransition(request, "approved", userId);
+      try {
+        await this.calendarService.assertDatesFree(
+          request.resource!,
+          request.start_date,
+          request.end_date,
+          request.id
+        );
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+        problems.push(error);
+        labels.push(
+          `${this.describe(request.resource!, {
+            start_date: toDateString(request.start_date),
+            end_date: toDateString(request.end_date)
+          })}: ${error.message}`
+        );
+      }
+    }
+
+    if (problems.length > 0) {
+      this.throwProblems("Some of these requests can no longer be approved", problems, labels);
+    }
+
+    for (const request of approved) {
+      await this.borrowRequestService.updateRequestStatus(request.id, "approved", userId, responseMessage, false);
+    }
+
+    for (const request of rejected) {
+      await this.borrowRequestService.updateRequestStatus(request.id, "rejected", userId, responseMessage, false);
+    }
+
+    await this.notify(group.requester_id, approved.length > 0 ? "approved" : "rejected", pending[0].id, userId, {
+      group_id: group.id,
+      resource_name: this.resourceNames(pending),
+      owner_name: group.owner?.name,
+      approved_count: approved.length,
+      rejected_count: rejected.length,
+      response_message: responseMessage
+    });
+
+    return this.loadGroup(group.id);
+  }
+
+  /**
+   * Withdraw every request of the group that hasn't started yet
+   */
+  async cancelGroup(groupId: number, userId: number): Promise<BorrowRequestGroup> {
+    const group = await this.loadGroup(groupId);
+
+    if (group.requester_id !== userId) {
+      throw new UnauthorizedError("You can only cancel your own requests");
+    }
+
+    const open = (group.requests || []).filter(
+      (request) => request.status === "pending" || request.status === "approved"
+    );
+
+    if (open.length === 0) {
+      throw new ConflictError("There are no requests left to cancel in this group");
+    }
+
+    for (const request of open) {
+      await this.borrowRequestService.cancelRequest(request.id, userId, false);
+    }
+
+    await this.notify(group.owner_id, "cancelled", open[0].id, userId, {
+      group_id: group.id,
+      resource_name: this.resourceNames(open),
+      requester_name: group.requester?.name,
+      request_count: open.length
+    });
+
+    return this.loadGroup(group.id);
+  }
+
+  private expandOccurrences(data: BorrowRequestGroupCreateData): Occurrence[] {
+    if (!data.start_date || !data.end_date) {
+      throw new ValidationError("Start date and end date are required");
+    }
+
+    const occurrences = expandRecurrence(
+      {
+        start_date: toDateString(data.start_date, "start_date"),
+        end_date: toDateString(data.end_date, "end_date")
+      },
+      data.recurrence
+    );
+
+    for (let i = 1; i < occurrences.length; i++) {
+      if (occurrences[i].start_date <= occurrences[i - 1].end_date) {
+        throw new ValidationError("Each occurrence must end before the next one starts");
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * One error for all problems: validation only if nothing is actually taken, otherwise a conflict
+   */
+  private throwProblems(summary: string, problems: AppError[], labels: string[]): never {
+    const listed = labels.slice(0, MAX_LISTED_PROBLEMS).join("; ");
+    const more = labels.length > MAX_LISTED_PROBLEMS ? ` (and ${labels.length - MAX_LISTED_PROBLEMS} more)` : "";
+    const message = `${summary}: ${listed}${more}`;
+
+    if (problems.every((problem) => problem instanceof ValidationError)) {
+      throw new ValidationError(message);
+    }
+
+    throw new ConflictError(message);
+  }
+
+  private describe(resource: Resource, occurrence: Occurrence): string {
+    return `${resource.title} ${occurrence.start_date} to ${occurrence.end_date}`;
+  }
+
+  private resourceNames(requests: BorrowRequest[]): string {
+    return [...new Set(requests.map((request) => request.resource?.title))].join(", ");
+  }
+
+  private async loadGroup(groupId: number): Promise<BorrowRequestGroup> {
+    const group = await this.groupRepository
+      .createQueryBuilder("borrowGroup")
+      .leftJoinAndSelect("borrowGroup.requests", "request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .leftJoinAndSelect("resource.photos", "photos")
+      .leftJoin("borrowGroup.requester", "requester")
+      .addSelect(["requester.id", "requester.name"])
+      .leftJoin("borrowGroup.owner", "owner")
+      .addSelect(["owner.id", "owner.name"])
+      .where("borrowGroup.id = :groupId", { groupId })
+      .orderBy("request.start_date", "ASC")
+      .addOrderBy("request.resource_id", "ASC")
+      .getOne();
+
+    if (!group) {
+      throw new NotFoundError("Borrow request group");
+    }
+
+    return group;
+  }
+
+  private async notify(
+    userId: number,
+    type: "created" | "approved" | "rejected" | "cancelled",
+    requestId: number,
+    actorId: number,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.notificationService.createBorrowRequestNotification(userId, type, requestId, actorId, data);
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+  }
+}
@@ -1,8 +1,9 @@
-import { Repository } from "typeorm";
+import { In, Repository } from "typeorm";
 import { AppDataSource } from "../config/database";
 import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
 import { Resource } from "../entities/Resource";
 import { User } from "../entities/User";
+import { DisputeCase } from "../entities/DisputeCase";
 import { 
   ValidationError, 
   NotFoundError, 
@@ -10,6 +11,14 @@ import {
   ConflictError 
 } from "../utils/errors";
 import { NotificationService } from "./NotificationService";
+import { BorrowRequestStateMachine } from "./BorrowRequestStateMachine";
+import { BorrowRequestEvent } from "../entities/BorrowRequestEvent";
+import { ResourceCalendarService, toDateString } from "./ResourceCalendarService";
+import { WaitlistService } from "./WaitlistService";
+import { DepositService } from "./DepositService";
+import { ACTIVE_DISPUTE_STATUSES } from "./DisputeService";
+import { FavouriteService } from "./FavouriteService";
+import { CommunityService } from "./CommunityService";
 
 export interface PaginatedResponse<T> {
   data: T[];
@@ -29,18 +38,28 @@ export interface BorrowRequestCreateData {
   message?: string;
   pickup_location?: string;
   return_location?: string;
+  group_id?: number;
 }
 
+// Status is deliberately absent: it only changes through BorrowRequestStateMachine.
+// So are deposit_paid and deposit_returned, which only confirmed DepositService ledger entries set.
 export interface BorrowRequestUpdateData {
-  status?: BorrowRequestStatus;
   response_message?: string;
   pickup_notes?: string;
   return_notes?: string;
   issue_description?: string;
   has_issues?: boolean;
   issue_resolved?: boolean;
-  deposit_paid?: boolean;
-  deposit_returned?: boolean;
+}
+
+export interface BorrowRequestStats {
+  totalRequests: number;
+  pendingRequests: number;
+  approvedRequests: number;
+  activeRequests: number;
+  completedRequests: number;
+  resourcesLent: number;
+  resourcesBorrowed: number;
 }
 
 export class BorrowRequestService {
@@ -48,49 +67,44 @@ export class BorrowRequestService {
   private resourceRepository: Repository<Resource>;
   private userRepository: Repository<User>;
   private notificationService: NotificationService;
+  private stateMachine: BorrowRequestStateMachine;
+  private calendarService: ResourceCalendarService;
+  private waitlistService: WaitlistService;
+  private depositService: DepositService;
+  private favouriteService: FavouriteService;
+  private communityService: CommunityService;
 
   constructor() {
     this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
     this.resourceRepository = AppDataSource.getRepository(Resource);
     this.userRepository = AppDataSource.getRepository(User);
     this.notificationService = new NotificationService();
+    this.stateMachine = new BorrowRequestStateMachine();
+    this.calendarService = new ResourceCalendarService();
+    this.waitlistService = new WaitlistService();
+    this.depositService = new DepositService();
+    this.favouriteService = new FavouriteService();
+    this.communityService = new CommunityService();
   }
 
   /**
-   * Create a new borrow request
+   * Create a new borrow request. Group requests notify the owner once for the whole group instead.
    */
-  async createBorrowRequest(data: BorrowRequestCreateData): Promise<BorrowRequest> {
-    // Validate dates
-    const startDate = new Date(data.start_date);
+  async createBorrowRequest(data: BorrowRequestCreateData, notify: boolean = true): Promise<BorrowRequest> {
     const endDate = new Date(data.end_date);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
 
-    if (startDate < today) {
-      throw new ValidationError("Start date cannot be in the past");
-    }
-
-    if (endDate <= startDate) {
-      throw new ValidationError("End date must be after start date");
-    }
-
-    // Check if resource exists and is available
+    // Check if resource exists
     const resource = await this.resourceRepository.findOne({
       where: { id: data.resource_id },
       relations: ["owner"]
     });
 
-    if (!resource) {
+    // Listings shown to other communities only are treated as missing
+    if (!resource || !(await this.communityService.canView(resource, data.requester_id))) {
       throw new NotFoundError("Resource");
     }
 
-    if (!resource.is_available) {
-      throw new ConflictError("Resource is not available for borrowing");
-    }
-
-    if (resource.owner_id === data.requester_id) {
-      throw new ValidationError("Cannot borrow your own resource");
-    }
+    await this.assertCanRequest(resource, data.requester_id, data.start_date, data.end_date);
 
     // Check if user exists
     const requester = await this.userRepository.findOne({
@@ -101,50 +115,38 @@ export class BorrowRequestService {
       throw new NotFoundError("User");
     }
 
-    // Check for conflicting requests (overlapping dates for the same resource)
-    const conflictingRequest = await this.borrowRequestRepository
-      .createQueryBuilder("request")
-      .where("request.resource_id = :resourceId", { resourceId: data.resource_id })
-      .andWhere("request.status IN (:...statuses)", { 
-        statuses: ["pending", "approved", "active"] 
-      })
-      .andWhere(
-        "(request.start_date <= :endDate AND request.end_date >= :startDate)",
-        { startDate: data.start_date, endDate: data.end_date }
-      )
-      .getOne();
-
-    if (conflictingRequest) {
-      throw new ConflictError("Resource is already requested for the selected dates");
-    }
-
     // Create the borrow request
     const borrowRequest = this.borrowRequestRepository.create({
       ...data,
       status: "pending",
       requested_at: new Date(),
-      due_date: endDate
+      due_date: endDate,
+      deposit_amount: resource.deposit_required
     });
 
     const savedRequest = await this.borrowRequestRepository.save(borrowRequest);
+    await this.stateMachine.recordCreation(savedRequest, data.requester_id);
+    await this.waitlistService.fulfil(resource.id, data.requester_id, savedRequest.id);
 
     // Create notification for resource owner
-    try {
-      await this.notificationService.createBorrowRequestNotification(
-        resource.owner_id,
-        "created",
-        savedRequest.id,
-        data.requester_id,
-        {
-          resource_name: resource.title,
-          requester_name: requester.name,
-          start_date: data.start_date,
-          end_date: data.end_date
-        }
-      );
-    } catch (error) {
-      console.warn("Failed to create notification:", error);
-      // Don't fail the request if notification creation fails
+    if (notify) {
+      try {
+        await this.notificationService.createBorrowRequestNotification(
+          resource.owner_id,
+          "created",
+          savedRequest.id,
+          data.requester_id,
+          {
+            resource_name: resource.title,
+            requester_name: requester.name,
+            start_date: data.start_date,
+            end_date: data.end_date
+          }
+        );
+      } catch (error) {
+        console.warn("Failed to create notification:", error);
+        // Don't fail the request if notification creation fails
+      }
     }
 
     // Return with relations
@@ -154,6 +156,42 @@ export class BorrowRequestService {
     }) as BorrowRequest;
   }
 
+  /**
+   * Check that a requester may ask for these dates: the resource's terms, its calendar,
+   * waitlist holds, and no overlapping pending request of their own
+   */
+  async assertCanRequest(
+    resource: Resource,
+    requesterId: number,
+    startDate: Date | string,
+    endDate: Date | string
+  ): Promise<void> {
+    if (resource.owner_id === requesterId) {
+      throw new ValidationError("Cannot borrow your own resource");
+    }
+
+    // Check the dates against the resource's terms and calendar
+    this.calendarService.validateBorrowTerms(resource, startDate, endDate);
+    await this.calendarService.assertDatesFree(resource, startDate, endDate);
+    await this.waitlistService.assertNotHeld(resource.id, startDate, endDate, requesterId);
+
+    // Pending requests don't block the calendar, but one requester can't stack them
+    const ownPendingRequest = await this.borrowRequestRepository
+      .createQueryBuilder("request")
+      .where("request.resource_id = :resourceId", { resourceId: resource.id })
+      .andWhere("request.requester_id = :requesterId", { requesterId })
+      .andWhere("request.status = :status", { status: "pending" })
+      .andWhere(
+        "(request.start_date <= :endDate AND request.end_date >= :startDate)",
+        { startDate: toDateString(startDate), endDate: toDateString(endDate) }
+      )
+      .getOne();
+
+    if (ownPendingRequest) {
+      throw new ConflictError("You already have a pending request for these dates");
+    }
+  }
+
   /**
    * Get borrow requests made by a user (as requester)
    */
@@ -169,6 +207,7 @@ export class BorrowRequestService {
       .leftJoinAndSelect("resource.owner", "owner")
       .leftJoinAndSelect("resource.photos", "photos")
       .leftJoinAndSelect("request.requester", "requester")
+      .leftJoinAndSelect("request.disputes", "dispute")
       .where("request.requester_id = :userId", { userId })
       .orderBy("request.created_at", "DESC");
 
@@ -207,6 +246,7 @@ export class BorrowRequestService {
       .leftJoinAndSelect("resource.owner", "owner")
       .leftJoinAndSelect("resource.photos", "photos")
       .leftJoinAndSelect("request.requester", "requester")
+      .leftJoinAndSelect("request.disputes", "dispute")
       .where("resource.owner_id = :userId", { userId })
       .orderBy("request.created_at", "DESC");
 
@@ -258,7 +298,8 @@ export class BorrowRequestService {
     requestId: number,
     status: "approved" | "rejected",
     userId: number,
-    responseMessage?: string
+    responseMessage?: string,
+    notify: boolean = true
   ): Promise<BorrowRequest> {
     const request = await this.borrowRequestRepository.findOne({
       where: { id: requestId },
@@ -269,45 +310,54 @@ export class BorrowRequestService {
       throw new NotFoundError("Borrow request");
     }
 
-    if (request.resource?.owner_id !== userId) {
-      throw new UnauthorizedError("Only resource owner can update request status");
-    }
+    await this.calendarService.serializeBooking(request.resource_id, () =>
+      this.stateMachine.transition(request, status, userId, {
+        note: responseMessage,
+        changes: {
+          response_message: responseMessage,
+          responded_at: new Date()
+        },
+        // Another request may have been approved for overlapping dates since this one was made.
+        // Checked in the approval's transaction, so two overlapping approvals can't both pass.
+        guard:
+          status === "approved"
+            ? (manager) =>
+                this.calendarService.assertDatesFree(
+                  request.resource!,
+                  request.start_date,
+                  request.end_date,
+                  request.id,
+                  manager
+                )
+            : undefined
+      })
+    );
 
-    if (request.status !== "pending") {
-      throw new ConflictError("Request has already been processed");
+    if (status === "approved") {
+      await this.depositService.requestHold(request, userId);
     }
 
-    // Update the request
-    const updateData: Partial<BorrowRequest> = {
-      status,
-      response_message: responseMessage,
-      responded_at: new Date()
-    };
-
-    await this.borrowRequestRepository.update(requestId, updateData);
-
-    // If approved, mark resource as temporarily unavailable
-    if (status === "approved") {
-      await this.resourceRepository.update(request.resource_id, {
-        is_available: false
-      });
+    if (status === "rejected") {
+      await this.offerFreedDates(request.resource_id, request.start_date, request.end_date);
     }
 
     // Create notification for requester
-    try {
-      await this.notificationService.createBorrowRequestNotification(
-        request.requester_id,
-        status === "approved" ? "approved" : "rejected",
-        requestId,
-        userId,
-        {
-          resource_name: request.resource?.title,
-          owner_name: request.resource?.owner?.name,
-          response_message: responseMessage
-        }
-      );
-    } catch (error) {
-      console.warn("Failed to create notification:", error);
+    if (notify) {
+      try {
+        await this.notificationService.createBorrowRequestNotification(
+          request.requester_id,
+          status === "approved" ? "approved" : "rejected",
+          requestId,
+          userId,
+          {
+            resource_name: request.resource?.title,
+            owner_name: request.resource?.owner?.name,
+            response_message: responseMessage
+          }
+        );
+      } catch (error) {
+        console.warn("Failed to create notification:", error);
+      }
     }
 
     return await this.borrowRequestRepository.findOne({
@@ -319,7 +369,7 @@ export class BorrowRequestService {
   /**
    * Cancel a borrow request (by requester)
    */
-  async cancelRequest(requestId: number, userId: number): Promise<BorrowRequest> {
+  async cancelRequest(requestId: number, userId: number, notify: boolean = true): Promise<BorrowRequest> {
     const request = await this.borrowRequestRepository.findOne({
       where: { id: requestId },
       relations: ["resource", "requester"]
@@ -329,40 +379,26 @@ export class BorrowRequestService {
       throw new NotFoundError("Borrow request");
     }
 
-    if (request.requester_id !== userId) {
-      throw new UnauthorizedError("Only the requester can cancel this request");
-    }
-
-    if (!["pending", "approved"].includes(request.status)) {
-      throw new ConflictError("Request cannot be cancelled in current status");
-    }
-
-    await this.borrowRequestRepository.update(requestId, {
-      status: "cancelled" as BorrowRequestStatus,
-      updated_at: new Date()
-    });
-
-    // If it was approved, make resource available again
-    if (request.status === "approved") {
-      await this.resourceRepository.update(request.resource_id, {
-        is_available: true
-      });
-    }
+    await this.stateMachine.transition(request, "cancelled", userId);
+    await this.depositService.releaseForCancellation(request, userId);
+    await this.offerFreedDates(request.resource_id, request.start_date, request.end_date);
 
     // Create notification for resource owner
-    try {
-      await this.notificationService.createBorrowRequestNotification(
-        request.resource?.owner_id!,
-        "cancelled",
-        requestId,
-        userId,
-        {
-          resource_name: request.resource?.title,
-          requester_name: request.requester?.name
-        }
-      );
-    } catch (error) {
-      console.warn("Failed to create notification:", error);
+    if (notify) {
+      try {
+        await this.notificationService.createBorrowRequestNotification(
+          request.resource?.owner_id!,
+          "cancelled",
+          requestId,
+          userId,
+          {
+            resource_name: request.resource?.title,
+            requester_name: request.requester?.name
+          }
+        );
+      } catch (error) {
+        console.warn("Failed to create notification:", error);
+      }
     }
 
     return await this.borrowRequestRepository.findOne({
@@ -388,18 +424,18 @@ export class BorrowRequestService {
       throw new NotFoundError("Borrow request");
     }
 
-    if (request.resource?.owner_id !== userId) {
-      throw new UnauthorizedError("Only resource owner can mark as picked up");
-    }
+    this.stateMachine.assertCanTransition(request, "active", userId);
 
-    if (request.status !== "approved") {
-      throw new ConflictError("Request must be approved before pickup");
+    if (Number(request.deposit_amount) > 0 && !request.deposit_paid) {
+      throw new ConflictError("The borrower must confirm the deposit hold before pickup");
     }
 
-    await this.borrowRequestRepository.update(requestId, {
-      status: "active" as BorrowRequestStatus,
-      pickup_notes: pickupNotes,
-      picked_up_at: new Date()
+    await this.stateMachine.transition(request, "active", userId, {
+      note: pickupNotes,
+      changes: {
+        pickup_notes: pickupNotes,
+        picked_up_at: new Date()
+      }
     });
 
     return await this.borrowRequestRepository.findOne({
@@ -409,14 +445,16 @@ export class BorrowRequestService {
   }
 
   /**
-   * Mark request as returned (transition to completed)
+   * Mark request as returned (from active or overdue) and propose the deposit settlement.
+   * With issues, the owner may keep part of the deposit (all of it if no amount is given).
    */
   async markAsReturned(
     requestId: number,
     userId: number,
     returnNotes?: string,
     hasIssues: boolean = false,
-    issueDescription?: string
+    issueDescription?: string,
+    withholdAmount?: number
   ): Promise<BorrowRequest> {
     const request = await this.borrowRequestRepository.findOne({
       where: { id: requestId },
@@ -427,16 +465,19 @@ export class BorrowRequestService {
       throw new NotFoundError("Borrow request");
     }
 
-    if (request.resource?.owner_id !== userId) {
-      throw new UnauthorizedError("Only resource owner can mark as returned");
-    }
+    this.stateMachine.assertCanTransition(request, "returned", userId);
+
+    if (withholdAmount !== undefined) {
+      if (!hasIssues && withholdAmount > 0) {
+        throw new ValidationError("Part of the deposit can only be withheld when reporting an issue");
+      }
 
-    if (request.status !== "active") {
-      throw new ConflictError("Request must be active to mark as returned");
+      if (isNaN(withholdAmount) || withholdAmount < 0 || withholdAmount > (Number(request.deposit_amount) || 0)) {
+        throw new ValidationError("Withheld amount must be between 0 and the deposit amount");
+      }
     }
 
     const updateData: Partial<BorrowRequest> = {
-      status: "returned" as BorrowRequestStatus,
       return_notes: returnNotes,
       returned_at: new Date(),
       has_issues: hasIssues
@@ -447,13 +488,24 @@ export class BorrowRequestService {
       updateData.issue_reported_at = new Date();
     }
 
-    await this.borrowRequestRepository.update(requestId, updateData);
-
-    // Make resource available again
-    await this.resourceRepository.update(request.resource_id, {
-      is_available: true
+    await this.stateMachine.transition(request, "returned", userId, {
+      note: returnNotes,
+      changes: updateData
     });
 
+    await this.depositService.proposeSettlement(
+      request,
+      userId,
+      hasIssues ? withholdAmount ?? Number(request.deposit_amount) : 0,
+      hasIssues ? issueDescription : undefined
+    );
+
+    // The item is back from today, even if it was due later or returned late
+    const today = toDateString(new Date());
+    const dueDay = toDateString(request.end_date);
+    await this.offerFreedDates(request.resource_id, today, dueDay > today ? dueDay : today);
+    await this.notifyFavourites(request.resource_id);
+
     return await this.borrowRequestRepository.findOne({
       where: { id: requestId },
       relations: ["resource", "resource.owner", "resource.photos", "requester"]
@@ -464,60 +516,121 @@ export class BorrowRequestService {
    * Get overdue requests
    */
   async getOverdueRequests(): Promise<BorrowRequest[]> {
+    return await this.borrowRequestRepository
+      .createQueryBuilder("request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .leftJoinAndSelect("resource.owner", "owner")
+      .leftJoinAndSelect("request.requester", "requester")
+      .where("request.status = :status", { status: "overdue" })
+      .orderBy("request.due_date", "ASC")
+      .getMany();
+  }
+
+  /**
+   * Flip active requests past their due date to overdue
+   * Returns the requests that changed so callers can notify both parties
+   */
+  async markOverdueRequests(): Promise<BorrowRequest[]> {
     const now = new Date();
-    
-    const overdueRequests = await this.borrowRequestRepository
+
+    const candidates = await this.borrowRequestRepository
       .createQueryBuilder("request")
       .leftJoinAndSelect("request.resource", "resource")
+      .leftJoinAndSelect("resource.owner", "owner")
       .leftJoinAndSelect("request.requester", "requester")
       .where("request.status = :status", { status: "active" })
       .andWhere("request.due_date < :now", { now })
       .getMany();
 
-    // Update status to overdue
-    if (overdueRequests.length > 0) {
-      await this.borrowRequestRepository
-        .createQueryBuilder()
-        .update(BorrowRequest)
-        .set({ status: "overdue" as BorrowRequestStatus })
-        .where("id IN (:...ids)", { ids: overdueRequests.map(r => r.id) })
-        .execute();
-
-      // Create overdue notifications
-      for (const request of overdueRequests) {
-        try {
-          await this.notificationService.createBorrowRequestNotification(
-            request.requester_id,
-            "overdue",
-            request.id,
-            request.resource?.owner_id,
-            {
-              resource_name: request.resource?.title,
-              due_date: request.due_date,
-              days_overdue: request.due_date ? Math.ceil((now.getTime() - request.due_date.getTime()) / (1000 * 60 * 60 * 24)) : 0
-            }
-          );
-        } catch (error) {
-          console.warn(`Failed to create overdue notification for request ${request.id}:`, error);
-        }
+    const overdueRequests: BorrowRequest[] = [];
+
+    for (const request of candidates) {
+      try {
+        await this.stateMachine.transition(request, "overdue", null, {
+          note: "Not returned by the due date"
+        });
+        overdueRequests.push(request);
+      } catch (error) {
+        console.warn(`Failed to mark request ${request.id} as overdue:`, error);
       }
     }
 
     return overdueRequests;
   }
 
+  /**
+   * Close out a returned request (by owner)
+   */
+  async completeRequest(requestId: number, userId: number): Promise<BorrowRequest> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    if (request.has_issues && !request.issue_resolved) {
+      throw new ConflictError("Resolve the reported issue before completing the request");
+    }
+
+    await this.stateMachine.transition(request, "completed", userId);
+
+    return await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource", "resource.owner", "resource.photos", "requester"]
+    }) as BorrowRequest;
+  }
+
+  /**
+   * Complete requests returned more than the given number of days ago without open issues
+   * Returns the number of requests completed
+   */
+  async completeReturnedRequests(afterDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - afterDays * 24 * 60 * 60 * 1000);
+
+    const candidates = await this.borrowRequestRepository
+      .createQueryBuilder("request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .where("request.status = :status", { status: "returned" })
+      .andWhere("request.returned_at < :cutoff", { cutoff })
+      .andWhere("(request.has_issues = :noIssues OR request.issue_resolved = :resolved)", {
+        noIssues: false,
+        resolved: true
+      })
+      .getMany();
+
+    let completed = 0;
+
+    for (const request of candidates) {
+      try {
+        await this.stateMachine.transition(request, "completed", null, {
+          note: `Completed automatically ${afterDays} days after return`
+        });
+        completed++;
+      } catch (error) {
+        console.warn(`Failed to complete request ${request.id}:`, error);
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Get the status history of a request
+   */
+  async getRequestHistory(requestId: number, userId: number): Promise<BorrowRequestEvent[]> {
+    // Reuses the access check of getBorrowRequestById
+    await this.getBorrowRequestById(requestId, userId);
+
+    return this.stateMachine.getHistory(requestId);
+  }
+
   /**
    * Get request statistics for a user
    */
-  async getUserStats(userId: number): Promise<{
-    totalRequests: number;
-    pendingRequests: number;
-    approvedRequests: number;
-    activeRequests: number;
-    completedRequests: number;
-    resourcesLent: number;
-    resourcesBorrowed: number;
-  }> {
+  async getUserStats(userId: number): Promise<BorrowRequestStats> {
     // Requests made by user
     const userRequests = await this.borrowRequestRepository
       .createQueryBuilder("request")
@@ -616,18 +729,18 @@ export class BorrowRequestService {
     }
 
     if (data.has_issues === false && isOwner) {
+      // A dispute settles the issue through the moderator's decision and its deposit outcome
+      const openDisputes = await AppDataSource.getRepository(DisputeCase).count({
+        where: { borrow_request_id: requestId, status: In(ACTIVE_DISPUTE_STATUSES) }
+      });
+      if (openDisputes > 0) {
+        throw new ConflictError("This borrow has an open dispute; it is resolved when the dispute is decided");
+      }
+
       allowedUpdates.issue_resolved = true;
       allowedUpdates.has_issues = false;
     }
 
-    if (data.deposit_paid !== undefined && isRequester) {
-      allowedUpdates.deposit_paid = data.deposit_paid;
-    }
-
-    if (data.deposit_returned !== undefined && isOwner) {
-      allowedUpdates.deposit_returned = data.deposit_returned;
-    }
-
     if (Object.keys(allowedUpdates).length === 0) {
       throw new ValidationError("No valid updates provided");
     }
@@ -639,4 +752,31 @@ export class BorrowRequestService {
       relations: ["resource", "resource.owner", "resource.photos", "requester"]
     }) as BorrowRequest;
   }
+
+  /**
+   * Offer dates a request no longer holds to the next person on the waitlist
+   */
+  private async offerFreedDates(
+    resourceId: number,
+    startDate: Date | string,
+    endDate: Date | string
+  ): Promise<void> {
+    try {
+      await this.waitlistService.releaseSlot(resourceId, startDate, endDate);
+    } catch (error) {
+      console.warn("Failed to process waitlist:", error);
+      // Don't fail the status change if the waitlist can't be processed
+    }
+  }
+
+  /**
+   * Let users who favourited a lent-out item know it is back
+   */
+  private async notifyFavourites(resourceId: number): Promise<void> {
+    try {
+      await this.favouriteService.notifyAvailable(resourceId);
+    } catch (error) {
+      console.warn("Failed to notify favourites:", error);
+    }
+  }
 }
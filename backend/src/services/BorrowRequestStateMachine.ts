@@ -0,0 +1,183 @@
+import { EntityManager, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import { BorrowRequestEvent } from "../entities/BorrowRequestEvent";
+import { ConflictError, UnauthorizedError } from "../utils/errors";
+
+export type BorrowRequestActorRole = "owner" | "requester" | "system";
+
+/**
+ * Every allowed status change, keyed by current status, then target status,
+ * listing who may make it. Anything not listed here is rejected.
+ */
+export const BORROW_REQUEST_TRANSITIONS: Record<
+  BorrowRequestStatus,
+  Partial<Record<BorrowRequestStatus, BorrowRequestActorRole[]>>
+> = {
+  pending: {
+    approved: ["owner"],
+    rejected: ["owner"],
+    cancelled: ["requester"]
+  },
+  approved: {
+    active: ["owner"],
+    cancelled: ["requester"]
+  },
+  active: {
+    returned: ["owner"],
+    overdue: ["system"]
+  },
+  overdue: {
+    returned: ["owner"]
+  },
+  returned: {
+    completed: ["owner", "system"]
+  },
+  rejected: {},
+  cancelled: {},
+  completed: {}
+};
+
+export interface TransitionOptions {
+  note?: string;
+  changes?: Partial<BorrowRequest>; // Other columns written together with the status
+  guard?: (manager: EntityManager) => Promise<void>; // Runs in the transaction first; throwing aborts the move
+}
+
+export class BorrowRequestStateMachine {
+  private eventRepository: Repository<BorrowRequestEvent>;
+
+  constructor() {
+    this.eventRepository = AppDataSource.getRepository(BorrowRequestEvent);
+  }
+
+  /**
+   * Work out which side of the request a user is on
+   * The request must be loaded with its resource
+   */
+  getActorRole(request: BorrowRequest, actorId: number | null): BorrowRequestActorRole | null {
+    if (actorId === null) return "system";
+    if (request.resource?.owner_id === actorId) return "owner";
+    if (request.requester_id === actorId) return "requester";
+    return null;
+  }
+
+  /**
+   * Target statuses the actor may move the request to from its current status
+   */
+  getAvailableTransitions(request: BorrowRequest, actorId: number | null): BorrowRequestStatus[] {
+    const role = this.getActorRole(request, actorId);
+    const transitions = BORROW_REQUEST_TRANSITIONS[request.status] || {};
+
+    return (Object.keys(transitions) as BorrowRequestStatus[]).filter(
+      (to) => role !== null && transitions[to]!.includes(role)
+    );
+  }
+
+  /**
+   * Throw unless the transition table allows the actor to make this move
+   */
+  assertCanTransition(request: BorrowRequest, to: BorrowRequestStatus, actorId: number | null): void {
+    const allowedActors = BORROW_REQUEST_TRANSITIONS[request.status]?.[to];
+
+    if (!allowedActors) {
+      throw new ConflictError(`Request cannot move from ${request.status} to ${to}`);
+    }
+
+    const role = this.getActorRole(request, actorId);
+
+    if (!role || !allowedActors.includes(role)) {
+      throw new UnauthorizedError(
+        `Only the ${allowedActors.join(" or ")} can move this request from ${request.status} to ${to}`
+      );
+    }
+  }
+
+  /**
+   * Move a request to a new status and record the event.
+   * The update is conditional on the current status, so concurrent transitions can't both win.
+   */
+  async transition(
+    request: BorrowRequest,
+    to: BorrowRequestStatus,
+    actorId: number | null,
+    options: TransitionOptions = {}
+  ): Promise<BorrowRequestEvent> {
+    this.assertCanTransition(request, to, actorId);
+
+    const from = request.status;
+
+    const event = await AppDataSource.transaction(async (manager) => {
+      await options.guard?.(manager);
+
+      const result = await manager
+        .createQueryBuilder()
+        .update(BorrowRequest)
+        .set({ ...options.changes, status: to })
+        .where("id = :id", { id: request.id })
+        .andWhere("status = :from", { from })
+        .execute();
+
+      if (result.affected !== 1) {
+        throw new ConflictError("Request status has changed, please refresh and try again");
+      }
+
+      return manager.save(
+        manager.create(BorrowRequestEvent, {
+          borrow_request_id: request.id,
+          actor_id: actorId ?? undefined,
+          from_status: from,
+          to_status: to,
+          note: options.note
+        })
+      );
+    });
+
+    Object.assign(request, options.changes, { status: to });
+
+    return event;
+  }
+
+  /**
+   * Record the creation of a request as the first event of its timeline
+   */
+  async recordCreation(request: BorrowRequest, actorId: number, note?: string): Promise<BorrowRequestEvent> {
+    return this.eventRepository.save(
+      this.eventRepository.create({
+        borrow_request_id: request.id,
+        actor_id: actorId,
+        to_status: request.status,
+        note
+      })
+    );
+  }
+
+  /**
+   * Record a change to a request that keeps its status, such as new dates
+   */
+  async recordEvent(request: BorrowRequest, actorId: number | null, note: string): Promise<BorrowRequestEvent> {
+    return this.eventRepository.save(
+      this.eventRepository.create({
+        borrow_request_id: request.id,
+        actor_id: actorId ?? undefined,
+        from_status: request.status,
+        to_status: request.status,
+        note
+      })
+    );
+  }
+
+  /**
+   * Timeline of a request, oldest first
+   */
+  async getHistory(requestId: number): Promise<BorrowRequestEvent[]> {
+    return this.eventRepository
+      .createQueryBuilder("event")
+      .leftJoin("event.actor", "actor")
+      .addSelect(["actor.id", "actor.name"])
+      .where("event.borrow_request_id = :requestId", { requestId })
+      .orderBy("event.created_at", "ASC")
+      .addOrderBy("event.id", "ASC")
+      .getMany();
+  }
+}
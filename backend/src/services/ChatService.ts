@@ -6,6 +6,27 @@ import { User } from "../entities/User";
 import { ChatNotFoundError, UnauthorizedError, ValidationError } from "../utils/errors";
 import { NotificationService } from "./NotificationService";
 
+// A chat in the user's list, with the other participant and the latest message
+export interface ChatSummary
+  extends Pick<
+    Chat,
+    | "id"
+    | "user1_id"
+    | "user2_id"
+    | "subject"
+    | "resource_id"
+    | "status"
+    | "last_message"
+    | "last_message_at"
+    | "last_message_sender_id"
+    | "created_at"
+    | "updated_at"
+  > {
+  otherUser: Pick<User, "id" | "name" | "avatar_url"> | null;
+  lastMessage: Pick<Message, "id" | "content" | "message_type" | "sender_id" | "created_at"> | null;
+  unreadCount: number;
+}
+
 export class ChatService {
   private chatRepository: Repository<Chat>;
   private messageRepository: Repository<Message>;
@@ -59,7 +80,7 @@ export class ChatService {
   /**
    * Get all chats for a user with other user information and last message
    */
-  async getUserChats(userId: number): Promise<any[]> {
+  async getUserChats(userId: number): Promise<ChatSummary[]> {
     const chats = await this.chatRepository
       .createQueryBuilder("chat")
       .leftJoinAndSelect("chat.user1", "user1")
@@ -0,0 +1,577 @@
+import { In, ObjectLiteral, Repository, SelectQueryBuilder } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { Community } from "../entities/Community";
+import { CommunityMembership } from "../entities/CommunityMembership";
+import { ResourceCommunity } from "../entities/ResourceCommunity";
+import { Resource, ResourceVisibility } from "../entities/Resource";
+import { User } from "../entities/User";
+import { LocationCoordinates, RESOURCE_VISIBILITIES } from "../types/resource";
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  UnauthorizedError,
+  validateRequired,
+  validateLength,
+  validateNumber,
+  validateEnum,
+  validateArray,
+  validateCoordinates
+} from "../utils/errors";
+import { boundingBox, calculateDistance, isPointInPolygon } from "../utils/geo";
+
+export interface CommunityAreaData {
+  boundary?: LocationCoordinates[] | null;
+  center_latitude?: number | null;
+  center_longitude?: number | null;
+  radius_km?: number | null;
+}
+
+export interface CommunityCreateData extends CommunityAreaData {
+  name: string;
+  description?: string;
+}
+
+export type CommunityUpdateData = Partial<CommunityCreateData>;
+
+// A community as seen by a signed-in user
+export interface CommunityWithMembership extends Community {
+  is_member?: boolean;
+  covers_your_location?: boolean; // the user's verified location is inside the area, so they can join
+}
+
+const MAX_BOUNDARY_POINTS = 200;
+const MAX_RADIUS_KM = 50;
+const MAX_RESOURCE_COMMUNITIES = 20;
+
+/**
+ * Neighborhood communities: their areas, who belongs to them, and which listings they can see.
+ * Membership follows the user's verified location; a resource is public or shown to chosen communities only.
+ */
+export class CommunityService {
+  private communityRepository: Repository<Community>;
+  private membershipRepository: Repository<CommunityMembership>;
+  private resourceCommunityRepository: Repository<ResourceCommunity>;
+  private userRepository: Repository<User>;
+
+  constructor() {
+    this.communityRepository = AppDataSource.getRepository(Community);
+    this.membershipRepository = AppDataSource.getRepository(CommunityMembership);
+    this.resourceCommunityRepository = AppDataSource.getRepository(ResourceCommunity);
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  /**
+   * All communities by name, with the viewer's membership when signed in
+   */
+  async getCommunities(viewerId?: number): Promise<CommunityWithMembership[]> {
+    const communities = await this.communityRepository.find({ order: { name: "ASC" } });
+    return this.withMembership(communities, viewerId);
+  }
+
+  async getCommunityById(communityId: number, viewerId?: number): Promise<CommunityWithMembership> {
+    const community = await this.communityRepository.findOne({ where: { id: communityId } });
+
+    if (!community) {
+      throw new NotFoundError("Community");
+    }
+
+    const [withMembership] = await this.withMembership([community], viewerId);
+    return withMembership;
+  }
+
+  async getUserCommunities(userId: number): Promise<Community[]> {
+    const memberships = await this.membershipRepository.find({
+      where: { user_id: userId },
+      relations: ["community"],
+      order: { joined_at: "ASC" }
+    });
+
+    return memberships
+      .map((membership) => membership.community)
+      .filter((community): community is Community => !!community);
+  }
+
+  async getUserCommunityIds(userId: number): Promise<number[]> {
+    const memberships = await this.membershipRepository.find({
+      select: ["community_id"],
+      where: { user_id: userId }
+    });
+
+    return memberships.map((membership) => membership.community_id);
+  }
+
+  /**
+   * Create a community; verified users already living inside it become members
+   */
+  async create(data: CommunityCreateData, userId: number): Promise<Community> {
+    validateRequired(data.name, "name");
+    validateLength(data.name, "name", 2, 100);
+    if (data.description !== undefined && data.description !== null) {
+      validateLength(data.description, "description", 0, 500);
+    }
+
+    await this.ensureUniqueName(data.name.trim());
+
+    const community = await this.communityRepository.save(
+      this.communityRepository.create({
+        name: data.name.trim(),
+        description: data.description?.trim() || undefined,
+        ...this.normalizeArea(data),
+        member_count: 0,
+        created_by: userId
+      })
+    );
+
+    await this.syncResidents(community);
+
+    return this.communityRepository.findOneOrFail({ where: { id: community.id } });
+  }
+
+  /**
+   * Rename or redraw a community. A new area re-checks who lives inside it.
+   */
+  async update(communityId: number, data: CommunityUpdateData): Promise<Community> {
+    const community = await this.communityRepository.findOne({ where: { id: communityId } });
+
+    if (!community) {
+      throw new NotFoundError("Community");
+    }
+
+    if (data.name !== undefined) {
+      validateLength(data.name, "name", 2, 100);
+      if (data.name.trim() !== community.name) {
+        await this.ensureUniqueName(data.name.trim());
+      }
+      community.name = data.name.trim();
+    }
+
+    if (data.description !== undefined) {
+      if (data.description !== null) {
+        validateLength(data.description, "description", 0, 500);
+      }
+      community.description = data.description?.trim() || undefined;
+    }
+
+    const areaChanged =
+      data.boundary !== undefined ||
+      data.center_latitude !== undefined ||
+      data.center_longitude !== undefined ||
+      data.radius_km !== undefined;
+
+    if (areaChanged) {
+      Object.assign(community, this.normalizeArea(data));
+    }
+
+    const saved = await this.communityRepository.save(community);
+
+    if (areaChanged) {
+      await this.syncResidents(saved);
+    }
+
+    return this.communityRepository.findOneOrFail({ where: { id: saved.id } });
+  }
+
+  /**
+   * Delete a community. Listings shown only to it stay visible to their owner until re-shared.
+   */
+  async delete(communityId: number): Promise<void> {
+    const community = await this.communityRepository.findOne({ where: { id: communityId } });
+
+    if (!community) {
+      throw new NotFoundError("Community");
+    }
+
+    await this.communityRepository.remove(community);
+  }
+
+  /**
+   * Join a community; the user's verified location must be inside it
+   */
+  async join(communityId: number, userId: number): Promise<Community> {
+    const community = await this.communityRepository.findOne({ where: { id: communityId } });
+
+    if (!community) {
+      throw new NotFoundError("Community");
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    const location = user ? this.verifiedLocation(user) : null;
+
+    if (!location) {
+      throw new UnauthorizedError("Verify your location before joining a community");
+    }
+
+    if (!this.covers(community, location)) {
+      throw new ValidationError("Your verified location is outside this community");
+    }
+
+    const existing = await this.membershipRepository.findOne({
+      where: { community_id: communityId, user_id: userId }
+    });
+
+    if (existing) {
+      throw new ConflictError("You are already a member of this community");
+    }
+
+    await this.addMember(communityId, userId);
+
+    return this.communityRepository.findOneOrFail({ where: { id: communityId } });
+  }
+
+  async leave(communityId: number, userId: number): Promise<void> {
+    const membership = await this.membershipRepository.findOne({
+      where: { community_id: communityId, user_id: userId }
+    });
+
+    if (!membership) {
+      throw new NotFoundError("Community membership");
+    }
+
+    await this.removeMembers(communityId, [userId]);
+  }
+
+  /**
+   * Bring a user's memberships in line with their location: join the communities around a
+   * newly verified location and leave the ones it is no longer inside
+   */
+  async syncUserMemberships(userId: number): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) return;
+
+    const location = this.verifiedLocation(user);
+    const communities = await this.communityRepository.find();
+    const memberOf = new Set(await this.getUserCommunityIds(userId));
+
+    for (const community of communities) {
+      const inside = !!location && this.covers(community, location);
+
+      if (inside && !memberOf.has(community.id)) {
+        await this.addMember(community.id, userId);
+      } else if (!inside && memberOf.has(community.id)) {
+        await this.removeMembers(community.id, [userId]);
+      }
+    }
+  }
+
+  /**
+   * Check who a resource may be shown to and return the communities to share it with
+   * (none when public). Owners can only share with communities they belong to.
+   */
+  async resolveSharing(ownerId: number, visibility: ResourceVisibility, communityIdsInput?: unknown): Promise<number[]> {
+    validateEnum(visibility, "visibility", RESOURCE_VISIBILITIES, true);
+
+    if (visibility === "public") {
+      return [];
+    }
+
+    const communityIds = this.parseIds(communityIdsInput);
+    if (communityIds.length === 0) {
+      throw new ValidationError(
+        "Choose at least one community for a listing that is not public",
+        "community_ids"
+      );
+    }
+
+    const memberOf = new Set(await this.getUserCommunityIds(ownerId));
+    const outside = communityIds.filter((id) => !memberOf.has(id));
+    if (outside.length > 0) {
+      throw new ValidationError("You can only share with communities you belong to", "community_ids", outside);
+    }
+
+    return communityIds;
+  }
+
+  /**
+   * Replace the communities a resource is shown to
+   */
+  async setResourceCommunities(resourceId: number, communityIds: number[]): Promise<void> {
+    await AppDataSource.transaction(async (manager) => {
+      await manager.delete(ResourceCommunity, { resource_id: resourceId });
+      if (communityIds.length > 0) {
+        await manager.insert(
+          ResourceCommunity,
+          communityIds.map((communityId) => ({ resource_id: resourceId, community_id: communityId }))
+        );
+      }
+    });
+  }
+
+  async getResourceCommunityIds(resourceId: number): Promise<number[]> {
+    const links = await this.resourceCommunityRepository.find({
+      select: ["community_id"],
+      where: { resource_id: resourceId }
+    });
+
+    return links.map((link) => link.community_id);
+  }
+
+  /**
+   * Whether a user (or an anonymous visitor) may see a resource
+   */
+  async canView(
+    resource: Pick<Resource, "id" | "owner_id" | "visibility">,
+    viewerId?: number
+  ): Promise<boolean> {
+    if (resource.visibility !== "communities" || resource.owner_id === viewerId) {
+      return true;
+    }
+
+    if (!viewerId) {
+      return false;
+    }
+
+    const shared = await this.resourceCommunityRepository
+      .createQueryBuilder("link")
+      .innerJoin(
+        CommunityMembership,
+        "membership",
+        "membership.community_id = link.community_id AND membership.user_id = :viewerId",
+        { viewerId }
+      )
+      .where("link.resource_id = :resourceId", { resourceId: resource.id })
+      .getCount();
+
+    return shared > 0;
+  }
+
+  /**
+   * Limit a resource query to listings the viewer may see
+   */
+  applyVisibility<T extends ObjectLiteral>(query: SelectQueryBuilder<T>, viewerId?: number, alias: string = "resource"): SelectQueryBuilder<T> {
+    if (!viewerId) {
+      return query.andWhere(`${alias}.visibility = :publicVisibility`, { publicVisibility: "public" });
+    }
+
+    return query.andWhere(
+      `(${alias}.visibility = :publicVisibility
+        OR ${alias}.owner_id = :visibilityViewerId
+        OR EXISTS (
+          SELECT 1 FROM resource_communities rc
+          INNER JOIN community_memberships cm ON cm.community_id = rc.community_id
+          WHERE rc.resource_id = ${alias}.id AND cm.user_id = :visibilityViewerId
+        ))`,
+      { publicVisibility: "public", visibilityViewerId: viewerId }
+    );
+  }
+
+  /**
+   * Limit a resource query to what belongs to the given communities: listings shared with
+   * them, and public listings by their members
+   */
+  applyScope<T extends ObjectLiteral>(query: SelectQueryBuilder<T>, communityIds: number[], alias: string = "resource"): SelectQueryBuilder<T> {
+    if (communityIds.length === 0) {
+      return query.andWhere("1 = 0");
+    }
+
+    return query.andWhere(
+      `(EXISTS (
+          SELECT 1 FROM resource_communities rc
+          WHERE rc.resource_id = ${alias}.id AND rc.community_id IN (:...scopeCommunityIds)
+        )
+        OR (${alias}.visibility = :scopePublic AND EXISTS (
+          SELECT 1 FROM community_memberships cm
+          WHERE cm.user_id = ${alias}.owner_id AND cm.community_id IN (:...scopeCommunityIds)
+        )))`,
+      { scopeCommunityIds: communityIds, scopePublic: "public" }
+    );
+  }
+
+  /**
+   * Make every verified user inside the community's area a member, and drop members now outside it
+   */
+  private async syncResidents(community: Community): Promise<void> {
+    const points = community.boundary?.length
+      ? community.boundary
+      : [{ latitude: Number(community.center_latitude), longitude: Number(community.center_longitude) }];
+    const box = community.boundary?.length
+      ? {
+        minLatitude: Math.min(...points.map((point) => point.latitude)),
+        maxLatitude: Math.max(...points.map((point) => point.latitude)),
+        minLongitude: Math.min(...points.map((point) => point.longitude)),
+        maxLongitude: Math.max(...points.map((point) => point.longitude))
+      }
+      : boundingBox(points[0], Number(community.radius_km));
+
+    const query = this.userRepository
+      .createQueryBuilder("user")
+      .where("user.is_location_verified = :verified", { verified: true })
+      .andWhere("user.is_active = :active", { active: true })
+      .andWhere("user.latitude BETWEEN :minLat AND :maxLat", { minLat: box.minLatitude, maxLat: box.maxLatitude });
+
+    if (box.minLongitude <= box.maxLongitude) {
+      query.andWhere("user.longitude BETWEEN :minLng AND :maxLng", { minLng: box.minLongitude, maxLng: box.maxLongitude });
+    } else {
+      // The box crosses the 180th meridian
+      query.andWhere("(user.longitude >= :minLng OR user.longitude <= :maxLng)", {
+        minLng: box.minLongitude,
+        maxLng: box.maxLongitude
+      });
+    }
+
+    const residents = new Set(
+      (await query.getMany())
+        .filter((user) => {
+          const location = this.verifiedLocation(user);
+          return !!location && this.covers(community, location);
+        })
+        .map((user) => user.id)
+    );
+
+    const memberIds = new Set(
+      (await this.membershipRepository.find({ select: ["user_id"], where: { community_id: community.id } }))
+        .map((membership) => membership.user_id)
+    );
+
+    for (const userId of residents) {
+      if (!memberIds.has(userId)) {
+        await this.addMember(community.id, userId);
+      }
+    }
+
+    const outside = Array.from(memberIds).filter((userId) => !residents.has(userId));
+    await this.removeMembers(community.id, outside);
+  }
+
+  private async addMember(communityId: number, userId: number): Promise<void> {
+    await this.membershipRepository.save(
+      this.membershipRepository.create({ community_id: communityId, user_id: userId })
+    );
+    await this.communityRepository.increment({ id: communityId }, "member_count", 1);
+  }
+
+  /**
+   * Remove members, and stop sharing their listings with the community
+   */
+  private async removeMembers(communityId: number, userIds: number[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    await AppDataSource.transaction(async (manager) => {
+      await manager.delete(CommunityMembership, {
+        community_id: communityId,
+        user_id: In(userIds)
+      });
+
+      await manager
+        .createQueryBuilder()
+        .delete()
+        .from(ResourceCommunity)
+        .where("community_id = :communityId", { communityId })
+        .andWhere("resource_id IN (SELECT id FROM resources WHERE owner_id IN (:...userIds))", { userIds })
+        .execute();
+
+      await manager
+        .createQueryBuilder()
+        .update(Community)
+        .set({
+          member_count: () => "(SELECT COUNT(*) FROM community_memberships WHERE community_id = :communityId)"
+        })
+        .where("id = :communityId", { communityId })
+        .execute();
+    });
+  }
+
+  private async withMembership(
+    communities: Community[],
+    viewerId?: number
+  ): Promise<CommunityWithMembership[]> {
+    if (!viewerId) {
+      return communities;
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: viewerId } });
+    const location = user ? this.verifiedLocation(user) : null;
+    const memberOf = new Set(await this.getUserCommunityIds(viewerId));
+
+    return communities.map((community) => ({
+      ...community,
+      is_member: memberOf.has(community.id),
+      covers_your_location: !!location && this.covers(community, location)
+    }));
+  }
+
+  private covers(community: Community, point: LocationCoordinates): boolean {
+    if (community.boundary && community.boundary.length >= 3) {
+      return isPointInPolygon(point, community.boundary);
+    }
+
+    if (community.center_latitude == null || community.center_longitude == null || community.radius_km == null) {
+      return false;
+    }
+
+    return calculateDistance(
+      Number(community.center_latitude),
+      Number(community.center_longitude),
+      point.latitude,
+      point.longitude
+    ) <= Number(community.radius_km);
+  }
+
+  private verifiedLocation(user: User): LocationCoordinates | null {
+    if (!user.is_location_verified || user.latitude == null || user.longitude == null) {
+      return null;
+    }
+
+    return { latitude: Number(user.latitude), longitude: Number(user.longitude) };
+  }
+
+  /**
+   * A boundary polygon, or a centre and radius; whichever is given replaces the other
+   */
+  private normalizeArea(data: CommunityAreaData): Required<CommunityAreaData> {
+    if (data.boundary) {
+      validateArray(data.boundary, "boundary", 3, MAX_BOUNDARY_POINTS);
+
+      const boundary = data.boundary.map((point) => {
+        validateCoordinates(point?.latitude, point?.longitude, true);
+        return { latitude: Number(point.latitude), longitude: Number(point.longitude) };
+      });
+
+      return { boundary, center_latitude: null, center_longitude: null, radius_km: null };
+    }
+
+    validateCoordinates(data.center_latitude, data.center_longitude);
+    validateNumber(data.radius_km, "radius_km", 0.1, MAX_RADIUS_KM);
+
+    if (data.center_latitude == null || data.radius_km == null) {
+      throw new ValidationError("A community needs a boundary, or center_latitude, center_longitude and radius_km");
+    }
+
+    return {
+      boundary: null,
+      center_latitude: Number(data.center_latitude),
+      center_longitude: Number(data.center_longitude),
+      radius_km: Number(data.radius_km)
+    };
+  }
+
+  /**
+   * Community ids from JSON (an array) or a form field ("1,2" or repeated values)
+   */
+  private parseIds(input: unknown): number[] {
+    if (input === undefined || input === null || input === "") {
+      return [];
+    }
+
+    const values = Array.isArray(input) ? input : String(input).split(",");
+    validateArray(values, "community_ids", 0, MAX_RESOURCE_COMMUNITIES);
+
+    const ids = values.map((value) => Number(String(value).trim()));
+    if (ids.some((id) => !Number.isInteger(id) || id < 1)) {
+      throw new ValidationError("community_ids must be community IDs", "community_ids", input);
+    }
+
+    return Array.from(new Set(ids));
+  }
+
+  private async ensureUniqueName(name: string): Promise<void> {
+    const existing = await this.communityRepository
+      .createQueryBuilder("community")
+      .where("LOWER(community.name) = LOWER(:name)", { name })
+      .getOne();
+
+    if (existing) {
+      throw new ConflictError("A community with this name already exists");
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import { Repository } from "typeorm";
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import { Resource } from "../entities/Resource";
+import {
+  ConditionReport,
+  ConditionReportStage,
+  ConditionChecklistItem
+} from "../entities/ConditionReport";
+import { ConditionReportPhoto } from "../entities/ConditionReportPhoto";
+import { RESOURCE_CONDITIONS, ResourceCondition } from "../types/resource";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError,
+  validateEnum
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { PhotoService } from "./PhotoService";
+
+export type HandoverParty = "owner" | "borrower";
+
+export interface ConditionReportData {
+  stage: ConditionReportStage;
+  condition: ResourceCondition;
+  checklist?: ConditionChecklistItem[];
+  notes?: string;
+}
+
+export interface ChecklistComparison {
+  item: string;
+  pickup: ConditionChecklistItem | null;
+  return: ConditionChecklistItem | null;
+  changed: boolean; // Passed at pickup but not at return, or the other way round
+}
+
+export interface ConditionComparison {
+  request_id: number;
+  request_status: BorrowRequestStatus;
+  party: HandoverParty | null; // Viewer's side; null for moderators
+  pickup: ConditionReport | null;
+  return: ConditionReport | null;
+  condition_changed: boolean | null; // null until both reports exist
+  condition_worsened: boolean | null;
+  checklist: ChecklistComparison[];
+}
+
+const CONDITION_REPORT_STAGES: ConditionReportStage[] = ["pickup", "return"];
+
+// When each handover report can be written and signed off
+const STAGE_WINDOWS: Record<ConditionReportStage, BorrowRequestStatus[]> = {
+  pickup: ["approved", "active", "overdue"],
+  return: ["active", "overdue", "returned"]
+};
+
+const MAX_CHECKLIST_ITEMS = 30;
+const MAX_PHOTOS_PER_REPORT = 10;
+
+export class ConditionReportService {
+  private reportRepository: Repository<ConditionReport>;
+  private photoRepository: Repository<ConditionReportPhoto>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private resourceRepository: Repository<Resource>;
+  private notificationService: NotificationService;
+  private photoService: PhotoService;
+  private uploadDir: string;
+
+  constructor() {
+    this.reportRepository = AppDataSource.getRepository(ConditionReport);
+    this.photoRepository = AppDataSource.getRepository(ConditionReportPhoto);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.notificationService = new NotificationService();
+    this.photoService = new PhotoService();
+    this.uploadDir = path.join(process.cwd(), "uploads", "condition-reports");
+  }
+
+  /**
+   * Write or update the pickup or return report of a borrow. The author signs it off;
+   * changing a report clears the other side's sign-off so they have to look again.
+   */
+  async submitReport(
+    requestId: number,
+    userId: number,
+    data: ConditionReportData,
+    files: Express.Multer.File[] = []
+  ): Promise<ConditionReport> {
+    const request = await this.loadRequest(requestId);
+    const party = this.getParty(request, userId);
+
+    if (!party) {
+      throw new UnauthorizedError("Only the owner or borrower can file a condition report");
+    }
+
+    validateEnum(data.stage, "stage", CONDITION_REPORT_STAGES, true);
+    validateEnum(data.condition, "condition", RESOURCE_CONDITIONS, true);
+    this.assertStageOpen(request, data.stage);
+
+    const checklist = this.normalizeChecklist(data.checklist);
+    const notes = data.notes?.trim() || undefined;
+
+    if (notes && notes.length > 1000) {
+      throw new ValidationError("Notes must be 1000 characters or less");
+    }
+
+    files.forEach((file) => this.photoService.validatePhotoFile(file));
+
+    let report = await this.reportRepository.findOne({
+      where: { borrow_request_id: request.id, stage: data.stage }
+    });
+
+    if (report && report.owner_signed_at && report.borrower_signed_at) {
+      throw new ConflictError(`The ${data.stage} report has been signed off by both sides and can no longer change`);
+    }
+
+    const currentPhotos = report
+      ? await this.photoRepository.count({ where: { report_id: report.id } })
+      : 0;
+
+    if (currentPhotos + files.length > MAX_PHOTOS_PER_REPORT) {
+      throw new ValidationError(`Maximum ${MAX_PHOTOS_PER_REPORT} photos allowed per report`);
+    }
+
+    const now = new Date();
+    const signatures = {
+      owner_signed_at: party === "owner" ? now : null,
+      borrower_signed_at: party === "borrower" ? now : null
+    };
+
+    if (report) {
+      await this.reportRepository.update(report.id, {
+        condition: data.condition,
+        checklist,
+        notes: notes ?? null,
+        updated_by: userId,
+        ...signatures
+      });
+    } else {
+      report = await this.reportRepository.save(
+        this.reportRepository.create({
+          borrow_request_id: request.id,
+          stage: data.stage,
+          condition: data.condition,
+          checklist,
+          notes,
+          created_by: userId,
+          ...signatures
+        })
+      );
+    }
+
+    await this.storePhotos(report, userId, files);
+
+    await this.notify(
+      this.getOtherPartyId(request, party),
+      request,
+      `Sign Off the ${this.stageLabel(data.stage)} Report`,
+      `The ${party} recorded the ${data.stage} condition of ${request.resource?.title || "your borrow"} as ${data.condition}. Check it and sign it off.`
+    );
+
+    return this.getReport(report.id);
+  }
+
+  /**
+   * Sign off the other side's report. Once both sides have signed the return report,
+   * the resource takes on the condition it came back in.
+   */
+  async signReport(requestId: number, userId: number, stage: ConditionReportStage): Promise<ConditionReport> {
+    const request = await this.loadRequest(requestId);
+    const party = this.getParty(request, userId);
+
+    if (!party) {
+      throw new UnauthorizedError("Only the owner or borrower can sign a condition report");
+    }
+
+    validateEnum(stage, "stage", CONDITION_REPORT_STAGES, true);
+    this.assertStageOpen(request, stage);
+
+    const report = await this.reportRepository.findOne({
+      where: { borrow_request_id: request.id, stage }
+    });
+
+    if (!report) {
+      throw new NotFoundError("Condition report");
+    }
+
+    const signatureColumn = party === "owner" ? "owner_signed_at" : "borrower_signed_at";
+
+    const claim = await this.reportRepository
+      .createQueryBuilder()
+      .update(ConditionReport)
+      .set({ [signatureColumn]: new Date() })
+      .where("id = :id", { id: report.id })
+      .andWhere(`${signatureColumn} IS NULL`)
+      .execute();
+
+    if (claim.affected !== 1) {
+      throw new ConflictError("You have already signed this report");
+    }
+
+    // The author signed when they filed it, so this completes the report
+    if (stage === "return") {
+      await this.resourceRepository.update(request.resource_id, { condition: report.condition });
+    }
+
+    await this.notify(
+      this.getOtherPartyId(request, party),
+      request,
+      `${this.stageLabel(stage)} Report Signed`,
+      `The ${party} signed off the ${stage} report for ${request.resource?.title || "your borrow"}.`
+    );
+
+    return this.getReport(report.id);
+  }
+
+  /**
+   * Pickup and return reports side by side, with what changed between them
+   */
+  async getComparison(requestId: number, userId: number, isModerator: boolean = false): Promise<ConditionComparison> {
+    const request = await this.loadRequest(requestId);
+    const party = this.getParty(request, userId);
+
+    if (!party && !isModerator) {
+      throw new UnauthorizedError("Not authorized to view these condition reports");
+    }
+
+    const reports = await this.reportQuery()
+      .where("report.borrow_request_id = :requestId", { requestId: request.id })
+      .getMany();
+
+    const pickup = reports.find((report) => report.stage === "pickup") || null;
+    const returned = reports.find((report) => report.stage === "return") || null;
+
+    let conditionChanged: boolean | null = null;
+    let conditionWorsened: boolean | null = null;
+
+    if (pickup && returned) {
+      // RESOURCE_CONDITIONS runs from best to worst
+      const before = RESOURCE_CONDITIONS.indexOf(pickup.condition);
+      const after = RESOURCE_CONDITIONS.indexOf(returned.condition);
+      conditionChanged = before !== after;
+      conditionWorsened = after > before;
+    }
+
+    return {
+      request_id: request.id,
+      request_status: request.status,
+      party,
+      pickup,
+      return: returned,
+      condition_changed: conditionChanged,
+      condition_worsened: conditionWorsened,
+      checklist: this.compareChecklists(pickup?.checklist || [], returned?.checklist || [])
+    };
+  }
+
+  private compareChecklists(
+    pickup: ConditionChecklistItem[],
+    returned: ConditionChecklistItem[]
+  ): ChecklistComparison[] {
+    const key = (entry: ConditionChecklistItem) => entry.item.toLowerCase();
+    const items = new Map<string, ChecklistComparison>();
+
+    for (const entry of pickup) {
+      items.set(key(entry), { item: entry.item, pickup: entry, return: null, changed: false });
+    }
+
+    for (const entry of returned) {
+      const existing = items.get(key(entry));
+      if (existing) {
+        existing.return = entry;
+        existing.changed = existing.pickup!.ok !== entry.ok;
+      } else {
+        items.set(key(entry), { item: entry.item, pickup: null, return: entry, changed: false });
+      }
+    }
+
+    return Array.from(items.values());
+  }
+
+  private normalizeChecklist(checklist: ConditionChecklistItem[] = []): ConditionChecklistItem[] {
+    if (!Array.isArray(checklist)) {
+      throw new ValidationError("checklist must be an array");
+    }
+
+    if (checklist.length > MAX_CHECKLIST_ITEMS) {
+      throw new ValidationError(`Maximum ${MAX_CHECKLIST_ITEMS} checklist items allowed`);
+    }
+
+    const seen = new Set<string>();
+
+    return checklist.map((entry) => {
+      const item = typeof entry?.item === "string" ? entry.item.trim() : "";
+
+      if (!item || item.length > 100) {
+        throw new ValidationError("Each checklist item needs a name of at most 100 characters");
+      }
+
+      if (seen.has(item.toLowerCase())) {
+        throw new ValidationError(`Checklist item "${item}" is listed twice`);
+      }
+      seen.add(item.toLowerCase());
+
+      if (typeof entry.ok !== "boolean") {
+        throw new ValidationError(`Checklist item "${item}" must be marked ok or not`);
+      }
+
+      const note = typeof entry.note === "string" ? entry.note.trim() : "";
+      if (note.length > 255) {
+        throw new ValidationError("Checklist notes must be 255 characters or less");
+      }
+
+      return note ? { item, ok: entry.ok, note } : { item, ok: entry.ok };
+    });
+  }
+
+  private assertStageOpen(request: BorrowRequest, stage: ConditionReportStage): void {
+    if (!STAGE_WINDOWS[stage].includes(request.status)) {
+      throw new ConflictError(
+        stage === "pickup"
+          ? "The pickup report can only be filed between approval and return"
+          : "The return report can only be filed while the item is out or just returned"
+      );
+    }
+  }
+
+  private async storePhotos(
+    report: ConditionReport,
+    userId: number,
+    files: Express.Multer.File[]
+  ): Promise<ConditionReportPhoto[]> {
+    if (files.length === 0) return [];
+
+    if (!fs.existsSync(this.uploadDir)) {
+      fs.mkdirSync(this.uploadDir, { recursive: true });
+    }
+
+    const saved: ConditionReportPhoto[] = [];
+
+    for (const file of files) {
+      const filename = `${randomUUID()}${path.extname(file.originalname)}`;
+      await fs.promises.writeFile(path.join(this.uploadDir, filename), file.buffer);
+
+      saved.push(
+        await this.photoRepository.save(
+          this.photoRepository.create({
+            report_id: report.id,
+            uploaded_by: userId,
+            photo_filename: filename,
+            photo_url: `/uploads/condition-reports/${filename}`,
+            file_size: file.size,
+            mime_type: file.mimetype
+          })
+        )
+      );
+    }
+
+    return saved;
+  }
+
+  private async getReport(reportId: number): Promise<ConditionReport> {
+    const report = await this.reportQuery()
+      .where("report.id = :reportId", { reportId })
+      .getOne();
+
+    if (!report) {
+      throw new NotFoundError("Condition report");
+    }
+
+    return report;
+  }
+
+  private reportQuery() {
+    return this.reportRepository
+      .createQueryBuilder("report")
+      .leftJoinAndSelect("report.photos", "photo")
+      .leftJoin("report.author", "author")
+      .addSelect(["author.id", "author.name"])
+      .orderBy("photo.created_at", "ASC");
+  }
+
+  private async loadRequest(requestId: number): Promise<BorrowRequest> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    return request;
+  }
+
+  private getParty(request: BorrowRequest, userId: number): HandoverParty | null {
+    if (request.resource?.owner_id === userId) return "owner";
+    if (request.requester_id === userId) return "borrower";
+    return null;
+  }
+
+  private getOtherPartyId(request: BorrowRequest, party: HandoverParty): number {
+    return party === "owner" ? request.requester_id : request.resource!.owner_id;
+  }
+
+  private stageLabel(stage: ConditionReportStage): string {
+    return stage === "pickup" ? "Pickup" : "Return";
+  }
+
+  private async notify(userId: number, request: BorrowRequest, title: string, message: string): Promise<void> {
+    try {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        title,
+        message,
+        notification_type: "condition_report",
+        priority: "normal",
+        related_borrow_request_id: request.id,
+        action_url: `/borrow-requests/${request.id}`,
+        action_text: "View Report",
+        metadata: { borrow_request_id: request.id }
+      });
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+  }
+}
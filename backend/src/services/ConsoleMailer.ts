@@ -0,0 +1,12 @@
+import { Mailer, MailMessage } from "./Mailer";
+
+/**
+ * Local development transport: logs each email instead of sending it.
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`✉️  [console mail] To ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,14 @@
+import { PostalMailProvider, PostalRecipient } from "./PostalMailProvider";
+
+/**
+ * Local stand-in for a real mailing service: logs each letter instead of posting it.
+ */
+export class ConsolePostalMailProvider implements PostalMailProvider {
+  readonly name = "console";
+
+  async sendVerificationCode(recipient: PostalRecipient, code: string, expiresAt: Date): Promise<void> {
+    console.log(
+      `📮 [console mail] To ${recipient.name}, ${recipient.address}: your Borrow Base code is ${code} (valid until ${expiresAt.toISOString().slice(0, 10)})`
+    );
+  }
+}
@@ -0,0 +1,546 @@
+import { Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest } from "../entities/BorrowRequest";
+import { DepositLedgerEntry, DepositEntryType } from "../entities/DepositLedgerEntry";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { PaymentProvider, getPaymentProvider } from "./PaymentProvider";
+import { BorrowRequestStateMachine } from "./BorrowRequestStateMachine";
+import { WaitlistService } from "./WaitlistService";
+import { PaginatedResponse } from "./BorrowRequestService";
+
+export interface DepositLedger {
+  borrow_request_id: number;
+  deposit_amount: number;
+  held: number;
+  released: number;
+  withheld: number;
+  outstanding: number; // Still held, neither released nor withheld
+  open_dispute: boolean;
+  entries: DepositLedgerEntry[];
+}
+
+type DepositParty = "owner" | "borrower";
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Deposit ledger for borrow requests. Every step (hold, release, withhold) is an entry
+ * that needs both parties' confirmation before money moves through the payment provider.
+ */
+export class DepositService {
+  private entryRepository: Repository<DepositLedgerEntry>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private notificationService: NotificationService;
+  private provider: PaymentProvider;
+  private stateMachine: BorrowRequestStateMachine;
+  private waitlistService: WaitlistService;
+
+  constructor() {
+    this.entryRepository = AppDataSource.getRepository(DepositLedgerEntry);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.notificationService = new NotificationService();
+    this.provider = getPaymentProvider();
+    this.stateMachine = new BorrowRequestStateMachine();
+    this.waitlistService = new WaitlistService();
+  }
+
+  /**
+   * Ask the borrower to confirm the deposit hold; called when the owner approves.
+   * The request must be loaded with its resource.
+   */
+  async requestHold(request: BorrowRequest, ownerId: number): Promise<DepositLedgerEntry | null> {
+    const amount = Number(request.deposit_amount) || 0;
+    if (amount <= 0) return null;
+
+    const existing = await this.entryRepository.findOne({
+      where: { borrow_request_id: request.id, type: "hold", status: "pending" }
+    });
+    if (existing) return existing;
+
+    const entry = await this.entryRepository.save(
+      this.entryRepository.create({
+        borrow_request_id: request.id,
+        type: "hold",
+        amount,
+        created_by: ownerId,
+        owner_confirmed_at: new Date()
+      })
+    );
+
+    await this.notify(
+      request.requester_id,
+      request,
+      "Confirm Deposit",
+      `Please confirm the ${amount.toFixed(2)} deposit for ${request.resource?.title || "your borrow"} before pickup.`
+    );
+
+    return entry;
+  }
+
+  /**
+   * Settle the deposit of a request the borrower cancelled before pickup: entries still
+   * awaiting confirmation are voided, and a deposit already held goes back to the borrower.
+   * The request must be loaded with its resource.
+   */
+  async releaseForCancellation(request: BorrowRequest, actorId: number): Promise<void> {
+    // Conditional, so an entry a concurrent confirmation already claimed keeps its money movement
+    await this.entryRepository
+      .createQueryBuilder()
+      .update(DepositLedgerEntry)
+      .set({ status: "rejected" })
+      .where("borrow_request_id = :requestId", { requestId: request.id })
+      .andWhere("status = :status", { status: "pending" })
+      .execute();
+
+    const ledger = await this.summarize(request);
+    if (ledger.outstanding <= 0) return;
+
+    await this.provider.releaseDeposit(this.getHoldReference(ledger), ledger.outstanding);
+    await this.recordSettled(request.id, "release", ledger.outstanding, actorId, "Borrow request cancelled");
+    await this.borrowRequestRepository.update(request.id, { deposit_returned: true });
+
+    const message = `The request was cancelled, so the ${ledger.outstanding.toFixed(2)} deposit was released.`;
+    await this.notify(request.requester_id, request, "Deposit Released", message);
+    await this.notify(request.resource!.owner_id, request, "Deposit Released", message);
+  }
+
+  /**
+   * Propose what happens to the held deposit after return: full release,
+   * or withhold part of it for damage and release the rest.
+   */
+  async proposeSettlement(
+    request: BorrowRequest,
+    ownerId: number,
+    withholdAmount: number = 0,
+    reason?: string
+  ): Promise<DepositLedgerEntry | null> {
+    const ledger = await this.summarize(request);
+    if (ledger.outstanding <= 0) return null;
+
+    const pending = ledger.entries.find(
+      (entry) => entry.status === "pending" && (entry.type === "release" || entry.type === "withhold")
+    );
+    if (pending) {
+      throw new ConflictError("A deposit settlement is already awaiting confirmation");
+    }
+
+    if (withholdAmount < 0 || withholdAmount > ledger.outstanding) {
+      throw new ValidationError(`Withheld amount must be between 0 and ${ledger.outstanding.toFixed(2)}`);
+    }
+
+    const type: DepositEntryType = withholdAmount > 0 ? "withhold" : "release";
+    const amount = withholdAmount > 0 ? round(withholdAmount) : ledger.outstanding;
+
+    const entry = await this.entryRepository.save(
+      this.entryRepository.create({
+        borrow_request_id: request.id,
+        type,
+        amount,
+        reason,
+        created_by: ownerId,
+        owner_confirmed_at: new Date()
+      })
+    );
+
+    await this.notify(
+      request.requester_id,
+      request,
+      type === "withhold" ? "Deposit Withholding Proposed" : "Confirm Deposit Release",
+      type === "withhold"
+        ? `The owner wants to keep ${amount.toFixed(2)} of your deposit${reason ? `: "${reason}"` : "."} Confirm or dispute it.`
+        : `Your ${amount.toFixed(2)} deposit is ready to be released. Please confirm.`
+    );
+
+    return entry;
+  }
+
+  /**
+   * Confirm a pending entry as one of the two parties; money moves once both have confirmed
+   */
+  async confirmEntry(entryId: number, userId: number): Promise<DepositLedgerEntry> {
+    const { entry, request, party } = await this.loadEntryForParty(entryId, userId);
+
+    if (entry.status !== "pending" || entry.type === "dispute") {
+      throw new ConflictError("This deposit entry is not awaiting confirmation");
+    }
+
+    if (party === "owner" ? entry.owner_confirmed_at : entry.borrower_confirmed_at) {
+      throw new ConflictError("You have already confirmed this entry");
+    }
+
+    if (party === "owner") {
+      entry.owner_confirmed_at = new Date();
+    } else {
+      entry.borrower_confirmed_at = new Date();
+    }
+
+    await this.entryRepository.save(entry);
+
+    if (entry.owner_confirmed_at && entry.borrower_confirmed_at) {
+      await this.execute(entry, request);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Refuse a pending hold or withholding. Refusing a hold cancels the request,
+   * refusing a withholding opens a dispute.
+   */
+  async rejectEntry(entryId: number, userId: number, reason?: string): Promise<DepositLedgerEntry> {
+    const { entry, request, party } = await this.loadEntryForParty(entryId, userId);
+
+    if (entry.status !== "pending" || (entry.type !== "hold" && entry.type !== "withhold")) {
+      throw new ConflictError("Only pending holds and withholdings can be rejected");
+    }
+
+    if (party === "owner" ? entry.owner_confirmed_at : entry.borrower_confirmed_at) {
+      throw new ConflictError("You have already confirmed this entry");
+    }
+
+    // Pickup needs the deposit held, so declining the hold withdraws the borrow itself
+    if (entry.type === "hold") {
+      this.stateMachine.assertCanTransition(request, "cancelled", userId);
+    }
+
+    entry.status = "rejected";
+    await this.entryRepository.save(entry);
+
+    const otherPartyId = party === "owner" ? request.requester_id : request.resource!.owner_id;
+
+    if (entry.type === "withhold") {
+      const dispute = await this.entryRepository.save(
+        this.entryRepository.create({
+          borrow_request_id: request.id,
+          type: "dispute",
+          amount: entry.amount,
+          reason,
+          created_by: userId
+        })
+      );
+
+      await this.notify(
+        otherPartyId,
+        request,
+        "Deposit Disputed",
+        `The withholding of ${Number(entry.amount).toFixed(2)} was disputed. A moderator will review it.`
+      );
+
+      return dispute;
+    }
+
+    await this.stateMachine.transition(request, "cancelled", userId, { note: reason });
+
+    try {
+      await this.waitlistService.releaseSlot(request.resource_id, request.start_date, request.end_date);
+    } catch (error) {
+      console.warn("Failed to process waitlist:", error);
+    }
+
+    await this.notify(
+      otherPartyId,
+      request,
+      "Deposit Declined",
+      `The ${Number(entry.amount).toFixed(2)} deposit hold was declined${reason ? `: "${reason}"` : ""}, so the request was cancelled.`
+    );
+
+    return entry;
+  }
+
+  /**
+   * Settle a disputed deposit with a moderator's decision on how much the owner keeps.
+   * A settlement still awaiting confirmation is superseded by the decision.
+   */
+  async resolveDispute(requestId: number, moderatorId: number, withholdAmount: number): Promise<DepositLedger> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    const ledger = await this.summarize(request);
+    const dispute = ledger.entries.find((entry) => entry.type === "dispute" && entry.status === "pending");
+    const proposals = ledger.entries.filter(
+      (entry) => entry.status === "pending" && (entry.type === "release" || entry.type === "withhold")
+    );
+
+    if (!dispute && proposals.length === 0) {
+      throw new ConflictError("This request has no open deposit dispute");
+    }
+
+    if (isNaN(withholdAmount) || withholdAmount < 0 || withholdAmount > ledger.outstanding) {
+      throw new ValidationError(`Withheld amount must be between 0 and ${ledger.outstanding.toFixed(2)}`);
+    }
+
+    const reference = this.getHoldReference(ledger);
+    const withheld = round(withholdAmount);
+    const remainder = round(ledger.outstanding - withheld);
+
+    if (withheld > 0) {
+      await this.provider.captureDeposit(reference, withheld);
+      await this.recordSettled(request.id, "withhold", withheld, moderatorId, dispute?.reason);
+    }
+
+    if (remainder > 0) {
+      await this.provider.releaseDeposit(reference, remainder);
+      await this.recordSettled(request.id, "release", remainder, moderatorId);
+    }
+
+    for (const proposal of proposals) {
+      proposal.status = "rejected";
+      proposal.resolved_by = moderatorId;
+    }
+
+    if (dispute) {
+      dispute.status = "resolved";
+      dispute.resolved_by = moderatorId;
+    }
+
+    await this.entryRepository.save(dispute ? [...proposals, dispute] : proposals);
+
+    await this.borrowRequestRepository.update(request.id, { deposit_returned: remainder > 0 });
+
+    const message = `A moderator settled the deposit: ${withheld.toFixed(2)} kept by the owner, ${remainder.toFixed(2)} returned to the borrower.`;
+    await this.notify(request.requester_id, request, "Deposit Dispute Resolved", message);
+    await this.notify(request.resource!.owner_id, request, "Deposit Dispute Resolved", message);
+
+    return this.summarize(request);
+  }
+
+  /**
+   * Ledger and totals for one request, visible to both parties
+   */
+  async getRequestLedger(requestId: number, userId: number): Promise<DepositLedger> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    if (!this.getParty(request, userId)) {
+      throw new UnauthorizedError("Not authorized to view this deposit");
+    }
+
+    return this.summarize(request);
+  }
+
+  /**
+   * Ledger and totals for one request, without an access check (moderation)
+   */
+  async getLedger(requestId: number): Promise<DepositLedger> {
+    const request = await this.borrowRequestRepository.findOne({ where: { id: requestId } });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    return this.summarize(request);
+  }
+
+  /**
+   * Deposit entries across all of a user's borrows and lendings, newest first
+   */
+  async getUserLedger(
+    userId: number,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<DepositLedgerEntry>> {
+    const [entries, total] = await this.entryRepository
+      .createQueryBuilder("entry")
+      .leftJoin("entry.borrow_request", "request")
+      .leftJoin("request.resource", "resource")
+      .addSelect(["request.id", "request.requester_id", "request.status", "resource.id", "resource.title", "resource.owner_id"])
+      .where("request.requester_id = :userId OR resource.owner_id = :userId", { userId })
+      .orderBy("entry.created_at", "DESC")
+      .addOrderBy("entry.id", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Move the money for an entry both parties have confirmed
+   */
+  private async execute(entry: DepositLedgerEntry, request: BorrowRequest): Promise<void> {
+    // Claim the entry so a concurrent confirmation can't move the money twice
+    const claim = await this.entryRepository
+      .createQueryBuilder()
+      .update(DepositLedgerEntry)
+      .set({ status: "confirmed" })
+      .where("id = :id", { id: entry.id })
+      .andWhere("status = :status", { status: "pending" })
+      .execute();
+
+    if (claim.affected !== 1) {
+      throw new ConflictError("This deposit entry has already been settled");
+    }
+
+    const amount = Number(entry.amount);
+
+    try {
+      if (entry.type === "hold") {
+        entry.provider_reference = await this.provider.holdDeposit(amount, request.id, request.requester_id);
+        await this.borrowRequestRepository.update(request.id, { deposit_paid: true });
+      } else {
+        const ledger = await this.summarize(request);
+        const reference = this.getHoldReference(ledger);
+        // The claimed entry already counts as confirmed in the ledger
+        const remainder = ledger.outstanding;
+
+        if (entry.type === "release") {
+          await this.provider.releaseDeposit(reference, amount);
+        } else {
+          await this.provider.captureDeposit(reference, amount);
+
+          if (remainder > 0) {
+            await this.provider.releaseDeposit(reference, remainder);
+            await this.recordSettled(request.id, "release", remainder, entry.created_by);
+          }
+        }
+
+        await this.borrowRequestRepository.update(request.id, {
+          deposit_returned: entry.type === "release" || remainder > 0,
+          // Both parties agreed on the damage, so the reported issue is settled
+          ...(entry.type === "withhold" ? { issue_resolved: true } : {})
+        });
+      }
+    } catch (error) {
+      await this.entryRepository.update(entry.id, { status: "pending" });
+      throw error;
+    }
+
+    entry.status = "confirmed";
+    await this.entryRepository.save(entry);
+
+    const message = `${entry.type === "hold" ? "Deposit of" : entry.type === "release" ? "Released" : "Withheld"} ${amount.toFixed(2)} confirmed by both parties.`;
+    await this.notify(request.requester_id, request, "Deposit Updated", message);
+    await this.notify(request.resource!.owner_id, request, "Deposit Updated", message);
+  }
+
+  private async recordSettled(
+    requestId: number,
+    type: DepositEntryType,
+    amount: number,
+    actorId?: number,
+    reason?: string
+  ): Promise<DepositLedgerEntry> {
+    return this.entryRepository.save(
+      this.entryRepository.create({
+        borrow_request_id: requestId,
+        type,
+        amount,
+        reason,
+        status: "confirmed",
+        created_by: actorId
+      })
+    );
+  }
+
+  private async summarize(request: BorrowRequest): Promise<DepositLedger> {
+    const entries = await this.entryRepository.find({
+      where: { borrow_request_id: request.id },
+      order: { created_at: "ASC", id: "ASC" }
+    });
+
+    const total = (type: DepositEntryType) =>
+      round(
+        entries
+          .filter((entry) => entry.type === type && entry.status === "confirmed")
+          .reduce((sum, entry) => sum + Number(entry.amount), 0)
+      );
+
+    const held = total("hold");
+    const released = total("release");
+    const withheld = total("withhold");
+
+    return {
+      borrow_request_id: request.id,
+      deposit_amount: Number(request.deposit_amount) || 0,
+      held,
+      released,
+      withheld,
+      outstanding: round(held - released - withheld),
+      open_dispute: entries.some((entry) => entry.type === "dispute" && entry.status === "pending"),
+      entries
+    };
+  }
+
+  private getHoldReference(ledger: DepositLedger): string {
+    const hold = ledger.entries.find((entry) => entry.type === "hold" && entry.status === "confirmed");
+
+    if (!hold?.provider_reference) {
+      throw new ConflictError("No deposit is held for this request");
+    }
+
+    return hold.provider_reference;
+  }
+
+  private async loadEntryForParty(
+    entryId: number,
+    userId: number
+  ): Promise<{ entry: DepositLedgerEntry; request: BorrowRequest; party: DepositParty }> {
+    const entry = await this.entryRepository.findOne({ where: { id: entryId } });
+
+    if (!entry) {
+      throw new NotFoundError("Deposit entry");
+    }
+
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: entry.borrow_request_id },
+      relations: ["resource"]
+    });
+
+    const party = request ? this.getParty(request, userId) : null;
+
+    if (!request || !party) {
+      throw new UnauthorizedError("Not authorized to act on this deposit");
+    }
+
+    return { entry, request, party };
+  }
+
+  private getParty(request: BorrowRequest, userId: number): DepositParty | null {
+    if (request.resource?.owner_id === userId) return "owner";
+    if (request.requester_id === userId) return "borrower";
+    return null;
+  }
+
+  private async notify(userId: number, request: BorrowRequest, title: string, message: string): Promise<void> {
+    try {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        title,
+        message,
+        notification_type: "deposit_update",
+        priority: "high",
+        related_borrow_request_id: request.id,
+        action_url: `/borrow-requests/${request.id}`,
+        action_text: "View Deposit"
+      });
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+  }
+}
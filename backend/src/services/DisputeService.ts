@@ -0,0 +1,551 @@
+import { In, Repository } from "typeorm";
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { AppDataSource } from "../config/database";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import { DisputeCase, DisputeOutcome, DisputeStatus } from "../entities/DisputeCase";
+import { DisputeStatement, DisputeParty } from "../entities/DisputeStatement";
+import { DisputeEvidence } from "../entities/DisputeEvidence";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { PhotoService } from "./PhotoService";
+import { DepositService } from "./DepositService";
+import { BorrowRequestStateMachine } from "./BorrowRequestStateMachine";
+import { PaginatedResponse } from "./BorrowRequestService";
+
+export interface DisputeOpenData {
+  borrow_request_id: number;
+  reason: string;
+  claimed_amount?: number;
+}
+
+export interface DisputeDecisionData {
+  outcome: DisputeOutcome;
+  notes: string;
+  withheld_amount?: number; // Deposit the owner keeps; defaults from the outcome
+}
+
+// Cases in these statuses are still waiting for a decision
+export const ACTIVE_DISPUTE_STATUSES: DisputeStatus[] = ["open", "under_review"];
+
+// A dispute can be opened once the item is back
+const DISPUTABLE_STATUSES: BorrowRequestStatus[] = ["returned", "completed"];
+
+const DISPUTE_OUTCOMES: DisputeOutcome[] = ["owner_favoured", "borrower_favoured", "shared"];
+const MAX_EVIDENCE_PER_PARTY = 10;
+
+export class DisputeService {
+  private disputeRepository: Repository<DisputeCase>;
+  private statementRepository: Repository<DisputeStatement>;
+  private evidenceRepository: Repository<DisputeEvidence>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private notificationService: NotificationService;
+  private photoService: PhotoService;
+  private depositService: DepositService;
+  private stateMachine: BorrowRequestStateMachine;
+  private uploadDir: string;
+
+  constructor() {
+    this.disputeRepository = AppDataSource.getRepository(DisputeCase);
+    this.statementRepository = AppDataSource.getRepository(DisputeStatement);
+    this.evidenceRepository = AppDataSource.getRepository(DisputeEvidence);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.notificationService = new NotificationService();
+    this.photoService = new PhotoService();
+    this.depositService = new DepositService();
+    this.stateMachine = new BorrowRequestStateMachine();
+    this.uploadDir = path.join(process.cwd(), "uploads", "disputes");
+  }
+
+  /**
+   * Open a damage or dispute case on a returned borrow. The reason is the opener's first statement.
+   */
+  async openDispute(
+    userId: number,
+    data: DisputeOpenData,
+    files: Express.Multer.File[] = []
+  ): Promise<DisputeCase> {
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: data.borrow_request_id },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    const party = this.getParty(request, userId);
+    if (!party) {
+      throw new UnauthorizedError("Only the owner or borrower can open a dispute");
+    }
+
+    if (!DISPUTABLE_STATUSES.includes(request.status)) {
+      throw new ConflictError("A dispute can only be opened after the item has been returned");
+    }
+
+    const reason = data.reason?.trim();
+    if (!reason) {
+      throw new ValidationError("A reason is required to open a dispute");
+    }
+
+    if (reason.length > 1000) {
+      throw new ValidationError("Reason must be 1000 characters or less");
+    }
+
+    if (data.claimed_amount !== undefined) {
+      if (party !== "owner") {
+        throw new ValidationError("Only the owner can claim part of the deposit");
+      }
+
+      const deposit = Number(request.deposit_amount) || 0;
+      if (isNaN(data.claimed_amount) || data.claimed_amount < 0 || data.claimed_amount > deposit) {
+        throw new ValidationError(`Claimed amount must be between 0 and ${deposit.toFixed(2)}`);
+      }
+    }
+
+    files.forEach((file) => this.photoService.validatePhotoFile(file));
+    if (files.length > MAX_EVIDENCE_PER_PARTY) {
+      throw new ValidationError(`Maximum ${MAX_EVIDENCE_PER_PARTY} evidence photos allowed per side`);
+    }
+
+    const existing = await this.disputeRepository.findOne({
+      where: { borrow_request_id: request.id, status: In(ACTIVE_DISPUTE_STATUSES) }
+    });
+
+    if (existing) {
+      throw new ConflictError("This borrow already has an open dispute");
+    }
+
+    const dispute = await this.disputeRepository.save(
+      this.disputeRepository.create({
+        borrow_request_id: request.id,
+        opened_by: userId,
+        reason,
+        claimed_amount: data.claimed_amount
+      })
+    );
+
+    await this.statementRepository.save(
+      this.statementRepository.create({
+        dispute_id: dispute.id,
+        author_id: userId,
+        party,
+        body: reason
+      })
+    );
+
+    await this.storeEvidence(dispute, userId, party, files);
+
+    // Put the request in the moderators' issue queue
+    await this.borrowRequestRepository.update(request.id, {
+      has_issues: true,
+      issue_resolved: false,
+      issue_description: request.issue_description || reason,
+      issue_reported_at: request.issue_reported_at || new Date()
+    });
+
+    await this.notify(
+      this.getOtherPartyId(request, party),
+      request,
+      dispute,
+      "Dispute Opened",
+      `A dispute was opened about ${request.resource?.title || "your borrow"}: "${reason}". Add your side of the story.`
+    );
+
+    return this.getDispute(dispute.id, userId);
+  }
+
+  /**
+   * Add a statement to an undecided case. Once both sides have spoken it moves to review.
+   */
+  async addStatement(disputeId: number, userId: number, body: string): Promise<DisputeStatement> {
+    const { dispute, request, party } = await this.loadActiveCase(disputeId, userId);
+
+    const text = body?.trim();
+    if (!text) {
+      throw new ValidationError("Statement cannot be empty");
+    }
+
+    if (text.length > 2000) {
+      throw new ValidationError("Statement must be 2000 characters or less");
+    }
+
+    const statement = await this.statementRepository.save(
+      this.statementRepository.create({
+        dispute_id: dispute.id,
+        author_id: userId,
+        party,
+        body: text
+      })
+    );
+
+    if (dispute.status === "open") {
+      const otherParty: DisputeParty = party === "owner" ? "borrower" : "owner";
+      const otherHasSpoken = await this.statementRepository.exists({
+        where: { dispute_id: dispute.id, party: otherParty }
+      });
+
+      if (otherHasSpoken) {
+        await this.disputeRepository.update(dispute.id, { status: "under_review" });
+      }
+    }
+
+    await this.notify(
+      this.getOtherPartyId(request, party),
+      request,
+      dispute,
+      "New Dispute Statement",
+      `The ${party} added a statement to the dispute about ${request.resource?.title || "your borrow"}.`
+    );
+
+    return statement;
+  }
+
+  /**
+   * Attach photo evidence to an undecided case
+   */
+  async addEvidence(
+    disputeId: number,
+    userId: number,
+    files: Express.Multer.File[],
+    caption?: string
+  ): Promise<DisputeEvidence[]> {
+    const { dispute, party } = await this.loadActiveCase(disputeId, userId);
+
+    if (!files || files.length === 0) {
+      throw new ValidationError("No photos provided");
+    }
+
+    if (caption && caption.length > 255) {
+      throw new ValidationError("Caption must be 255 characters or less");
+    }
+
+    files.forEach((file) => this.photoService.validatePhotoFile(file));
+
+    const current = await this.evidenceRepository.count({
+      where: { dispute_id: dispute.id, party }
+    });
+
+    if (current + files.length > MAX_EVIDENCE_PER_PARTY) {
+      throw new ValidationError(`Maximum ${MAX_EVIDENCE_PER_PARTY} evidence photos allowed per side`);
+    }
+
+    return this.storeEvidence(dispute, userId, party, files, caption);
+  }
+
+  /**
+   * Withdraw a case before it is decided; only the person who opened it can
+   */
+  async withdraw(disputeId: number, userId: number): Promise<DisputeCase> {
+    const { dispute, request, party } = await this.loadActiveCase(disputeId, userId);
+
+    if (dispute.opened_by !== userId) {
+      throw new UnauthorizedError("Only the person who opened the dispute can withdraw it");
+    }
+
+    const claim = await this.disputeRepository
+      .createQueryBuilder()
+      .update(DisputeCase)
+      .set({ status: "withdrawn" })
+      .where("id = :id", { id: dispute.id })
+      .andWhere("status IN (:...statuses)", { statuses: ACTIVE_DISPUTE_STATUSES })
+      .execute();
+
+    if (claim.affected !== 1) {
+      throw new ConflictError("This dispute has already been closed");
+    }
+
+    await this.borrowRequestRepository.update(request.id, { issue_resolved: true });
+
+    await this.notify(
+      this.getOtherPartyId(request, party),
+      request,
+      dispute,
+      "Dispute Withdrawn",
+      `The dispute about ${request.resource?.title || "your borrow"} was withdrawn. You can now leave a review.`
+    );
+
+    return this.getDispute(dispute.id, userId);
+  }
+
+  /**
+   * Record a moderator's decision. A deposit still held is settled by the decision,
+   * a returned request is completed, and both sides can review each other again.
+   */
+  async decide(disputeId: number, moderatorId: number, data: DisputeDecisionData): Promise<DisputeCase> {
+    const dispute = await this.disputeRepository.findOne({ where: { id: disputeId } });
+
+    if (!dispute) {
+      throw new NotFoundError("Dispute");
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new ConflictError("This dispute has already been closed");
+    }
+
+    if (!DISPUTE_OUTCOMES.includes(data.outcome)) {
+      throw new ValidationError(`Outcome must be one of: ${DISPUTE_OUTCOMES.join(", ")}`);
+    }
+
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: dispute.borrow_request_id },
+      relations: ["resource"]
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    // Only money still held can follow the decision; settled deposits stay as they are
+    const ledger = await this.depositService.getLedger(request.id);
+    let withheld: number | undefined;
+
+    if (ledger.outstanding > 0) {
+      withheld = data.withheld_amount ?? this.defaultWithheld(dispute, data.outcome, ledger.outstanding);
+
+      if (withheld === undefined) {
+        throw new ValidationError("withheld_amount is required to split the deposit");
+      }
+
+      if (isNaN(withheld) || withheld < 0 || withheld > ledger.outstanding) {
+        throw new ValidationError(`withheld_amount must be between 0 and ${ledger.outstanding.toFixed(2)}`);
+      }
+    }
+
+    // Settling fails once the deposit entries are closed, so a second decision can't move money again
+    if (withheld !== undefined) {
+      await this.depositService.resolveDispute(request.id, moderatorId, withheld);
+    }
+
+    const claim = await this.disputeRepository
+      .createQueryBuilder()
+      .update(DisputeCase)
+      .set({
+        status: "resolved",
+        outcome: data.outcome,
+        decision_notes: data.notes.trim(),
+        withheld_amount: withheld,
+        decided_by: moderatorId,
+        decided_at: new Date()
+      })
+      .where("id = :id", { id: dispute.id })
+      .andWhere("status IN (:...statuses)", { statuses: ACTIVE_DISPUTE_STATUSES })
+      .execute();
+
+    if (claim.affected !== 1) {
+      throw new ConflictError("This dispute has already been closed");
+    }
+
+    await this.borrowRequestRepository.update(request.id, { issue_resolved: true });
+
+    if (request.status === "returned") {
+      await this.stateMachine.transition(request, "completed", null, {
+        note: `Dispute #${dispute.id} decided`
+      });
+    }
+
+    const outcomeText: Record<DisputeOutcome, string> = {
+      owner_favoured: "in the owner's favour",
+      borrower_favoured: "in the borrower's favour",
+      shared: "with shared responsibility"
+    };
+    const depositText = withheld !== undefined
+      ? ` The owner keeps ${withheld.toFixed(2)} of the deposit.`
+      : "";
+    const message = `The dispute about ${request.resource?.title || "your borrow"} was decided ${outcomeText[data.outcome]}.` +
+      `${depositText} You can now leave a review.`;
+
+    await this.notify(request.requester_id, request, dispute, "Dispute Decided", message);
+    await this.notify(request.resource!.owner_id, request, dispute, "Dispute Decided", message);
+
+    return (await this.disputeRepository.findOne({ where: { id: dispute.id } }))!;
+  }
+
+  /**
+   * A case with its statements and evidence, for the two parties or a moderator
+   */
+  async getDispute(disputeId: number, userId: number, isModerator: boolean = false): Promise<DisputeCase> {
+    const dispute = await this.disputeRepository
+      .createQueryBuilder("dispute")
+      .leftJoinAndSelect("dispute.borrow_request", "request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .leftJoin("resource.owner", "owner")
+      .addSelect(["owner.id", "owner.name"])
+      .leftJoin("request.requester", "requester")
+      .addSelect(["requester.id", "requester.name"])
+      .leftJoinAndSelect("dispute.statements", "statement")
+      .leftJoin("statement.author", "author")
+      .addSelect(["author.id", "author.name"])
+      .leftJoinAndSelect("dispute.evidence", "evidence")
+      .leftJoin("dispute.moderator", "moderator")
+      .addSelect(["moderator.id", "moderator.name"])
+      .where("dispute.id = :disputeId", { disputeId })
+      .orderBy("statement.created_at", "ASC")
+      .addOrderBy("evidence.created_at", "ASC")
+      .getOne();
+
+    if (!dispute) {
+      throw new NotFoundError("Dispute");
+    }
+
+    if (!isModerator && !this.getParty(dispute.borrow_request!, userId)) {
+      throw new UnauthorizedError("Not authorized to view this dispute");
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Undecided cases for moderators, oldest first
+   */
+  async getQueue(page: number = 1, limit: number = 20): Promise<PaginatedResponse<DisputeCase>> {
+    const [disputes, total] = await this.disputeRepository
+      .createQueryBuilder("dispute")
+      .leftJoinAndSelect("dispute.borrow_request", "request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .leftJoin("resource.owner", "owner")
+      .addSelect(["owner.id", "owner.name"])
+      .leftJoin("request.requester", "requester")
+      .addSelect(["requester.id", "requester.name"])
+      .where("dispute.status IN (:...statuses)", { statuses: ACTIVE_DISPUTE_STATUSES })
+      .orderBy("dispute.created_at", "ASC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Whether a borrow has a case waiting for a decision
+   */
+  async hasActiveDispute(requestId: number): Promise<boolean> {
+    return this.disputeRepository.exists({
+      where: { borrow_request_id: requestId, status: In(ACTIVE_DISPUTE_STATUSES) }
+    });
+  }
+
+  private defaultWithheld(dispute: DisputeCase, outcome: DisputeOutcome, outstanding: number): number | undefined {
+    if (outcome === "borrower_favoured") return 0;
+    if (outcome === "owner_favoured") {
+      return dispute.claimed_amount === null || dispute.claimed_amount === undefined
+        ? outstanding
+        : Math.min(Number(dispute.claimed_amount), outstanding);
+    }
+    // A shared outcome needs the moderator to say how the deposit is split
+    return undefined;
+  }
+
+  private async storeEvidence(
+    dispute: DisputeCase,
+    userId: number,
+    party: DisputeParty,
+    files: Express.Multer.File[],
+    caption?: string
+  ): Promise<DisputeEvidence[]> {
+    if (files.length === 0) return [];
+
+    if (!fs.existsSync(this.uploadDir)) {
+      fs.mkdirSync(this.uploadDir, { recursive: true });
+    }
+
+    const saved: DisputeEvidence[] = [];
+
+    for (const file of files) {
+      const filename = `${randomUUID()}${path.extname(file.originalname)}`;
+      await fs.promises.writeFile(path.join(this.uploadDir, filename), file.buffer);
+
+      saved.push(
+        await this.evidenceRepository.save(
+          this.evidenceRepository.create({
+            dispute_id: dispute.id,
+            uploaded_by: userId,
+            party,
+            photo_filename: filename,
+            photo_url: `/uploads/disputes/${filename}`,
+            file_size: file.size,
+            mime_type: file.mimetype,
+            caption
+          })
+        )
+      );
+    }
+
+    return saved;
+  }
+
+  private async loadActiveCase(
+    disputeId: number,
+    userId: number
+  ): Promise<{ dispute: DisputeCase; request: BorrowRequest; party: DisputeParty }> {
+    const dispute = await this.disputeRepository.findOne({
+      where: { id: disputeId },
+      relations: ["borrow_request", "borrow_request.resource"]
+    });
+
+    if (!dispute) {
+      throw new NotFoundError("Dispute");
+    }
+
+    const request = dispute.borrow_request!;
+    const party = this.getParty(request, userId);
+
+    if (!party) {
+      throw new UnauthorizedError("Not authorized to act on this dispute");
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new ConflictError("This dispute has already been closed");
+    }
+
+    return { dispute, request, party };
+  }
+
+  private getParty(request: BorrowRequest, userId: number): DisputeParty | null {
+    if (request.resource?.owner_id === userId) return "owner";
+    if (request.requester_id === userId) return "borrower";
+    return null;
+  }
+
+  private getOtherPartyId(request: BorrowRequest, party: DisputeParty): number {
+    return party === "owner" ? request.requester_id : request.resource!.owner_id;
+  }
+
+  private async notify(
+    userId: number,
+    request: BorrowRequest,
+    dispute: DisputeCase,
+    title: string,
+    message: string
+  ): Promise<void> {
+    try {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        title,
+        message,
+        notification_type: "dispute_update",
+        priority: "high",
+        related_borrow_request_id: request.id,
+        action_url: `/disputes/${dispute.id}`,
+        action_text: "View Dispute",
+        metadata: { dispute_id: dispute.id }
+      });
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { PaymentProvider } from "./PaymentProvider";
+
+interface FakeHold {
+  amount: number;
+  settled: number; // Captured plus released so far
+}
+
+/**
+ * Local stand-in for a real payment provider: keeps holds in memory and logs every movement.
+ * Holds made before a restart are unknown to it and settle without checks.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private holds = new Map<string, FakeHold>();
+  private counter = 0;
+
+  async holdDeposit(amount: number, borrowRequestId: number, payerId: number): Promise<string> {
+    const reference = `fake_hold_${borrowRequestId}_${Date.now()}_${++this.counter}`;
+    this.holds.set(reference, { amount, settled: 0 });
+    console.log(`💳 [fake payments] Held ${amount.toFixed(2)} from user ${payerId} (${reference})`);
+    return reference;
+  }
+
+  async captureDeposit(reference: string, amount: number): Promise<void> {
+    this.settle(reference, amount);
+    console.log(`💳 [fake payments] Captured ${amount.toFixed(2)} for the owner (${reference})`);
+  }
+
+  async releaseDeposit(reference: string, amount: number): Promise<void> {
+    this.settle(reference, amount);
+    console.log(`💳 [fake payments] Released ${amount.toFixed(2)} to the borrower (${reference})`);
+  }
+
+  private settle(reference: string, amount: number): void {
+    const hold = this.holds.get(reference);
+    if (!hold) return;
+
+    if (hold.settled + amount > hold.amount + 0.001) {
+      throw new Error(`Cannot settle ${amount.toFixed(2)}: only ${(hold.amount - hold.settled).toFixed(2)} left on ${reference}`);
+    }
+
+    hold.settled += amount;
+  }
+}
@@ -0,0 +1,178 @@
+import { In, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { Favourite } from "../entities/Favourite";
+import { Resource } from "../entities/Resource";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import { ValidationError, NotFoundError, ConflictError } from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { CommunityService } from "./CommunityService";
+
+// Requests in these statuses mean the item is out with a borrower right now
+const LENT_OUT_STATUSES: BorrowRequestStatus[] = ["active", "overdue"];
+
+export class FavouriteService {
+  private favouriteRepository: Repository<Favourite>;
+  private resourceRepository: Repository<Resource>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private notificationService: NotificationService;
+  private communityService: CommunityService;
+
+  constructor() {
+    this.favouriteRepository = AppDataSource.getRepository(Favourite);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.notificationService = new NotificationService();
+    this.communityService = new CommunityService();
+  }
+
+  /**
+   * Bookmark a resource. If it is unlisted or lent out, the user is notified once it is back.
+   */
+  async add(userId: number, resourceId: number): Promise<Favourite> {
+    const resource = await this.resourceRepository.findOne({ where: { id: resourceId } });
+
+    if (
+      !resource ||
+      resource.status === "inactive" ||
+      !(await this.communityService.canView(resource, userId))
+    ) {
+      throw new NotFoundError("Resource");
+    }
+
+    if (resource.owner_id === userId) {
+      throw new ValidationError("Cannot favourite your own resource");
+    }
+
+    const existing = await this.favouriteRepository.findOne({
+      where: { user_id: userId, resource_id: resourceId }
+    });
+
+    if (existing) {
+      throw new ConflictError("Resource is already in your favourites");
+    }
+
+    const favourite = await this.favouriteRepository.save(
+      this.favouriteRepository.create({
+        user_id: userId,
+        resource_id: resourceId,
+        notify_when_available: !(await this.isAvailable(resource))
+      })
+    );
+
+    await this.resourceRepository.increment({ id: resourceId }, "favourite_count", 1);
+
+    return favourite;
+  }
+
+  async remove(userId: number, resourceId: number): Promise<void> {
+    const favourite = await this.favouriteRepository.findOne({
+      where: { user_id: userId, resource_id: resourceId }
+    });
+
+    if (!favourite) {
+      throw new NotFoundError("Favourite");
+    }
+
+    await this.favouriteRepository.remove(favourite);
+
+    await this.resourceRepository
+      .createQueryBuilder()
+      .update(Resource)
+      .set({ favourite_count: () => "favourite_count - 1" })
+      .where("id = :id", { id: resourceId })
+      .andWhere("favourite_count > 0")
+      .execute();
+  }
+
+  /**
+   * A page of the user's favourites, newest first. Unlisted items are kept so they can be watched.
+   */
+  async getUserFavouriteIds(
+    userId: number,
+    skip: number,
+    take: number
+  ): Promise<{ resourceIds: number[]; total: number }> {
+    const query = this.favouriteRepository
+      .createQueryBuilder("favourite")
+      .innerJoin("favourite.resource", "resource")
+      .where("favourite.user_id = :userId", { userId })
+      .andWhere("resource.status != :inactive", { inactive: "inactive" });
+
+    // Hide favourites whose owner has since stopped sharing them with the user
+    const [favourites, total] = await this.communityService
+      .applyVisibility(query, userId)
+      .orderBy("favourite.created_at", "DESC")
+      .addOrderBy("favourite.id", "DESC")
+      .skip(skip)
+      .take(take)
+      .getManyAndCount();
+
+    return { resourceIds: favourites.map((favourite) => favourite.resource_id), total };
+  }
+
+  /**
+   * Which of the given resources the user has favourited
+   */
+  async getFavouritedIds(userId: number, resourceIds: number[]): Promise<Set<number>> {
+    if (resourceIds.length === 0) return new Set();
+
+    const favourites = await this.favouriteRepository.find({
+      select: ["resource_id"],
+      where: { user_id: userId, resource_id: In(resourceIds) }
+    });
+
+    return new Set(favourites.map((favourite) => favourite.resource_id));
+  }
+
+  /**
+   * Tell users waiting on a favourite that it can be borrowed again. Each subscription fires once.
+   */
+  async notifyAvailable(resourceId: number): Promise<number> {
+    const resource = await this.resourceRepository.findOne({ where: { id: resourceId } });
+
+    if (!resource || !(await this.isAvailable(resource))) {
+      return 0;
+    }
+
+    const waiting = await this.favouriteRepository.find({
+      where: { resource_id: resourceId, notify_when_available: true }
+    });
+
+    let sent = 0;
+    for (const favourite of waiting) {
+      if (!(await this.communityService.canView(resource, favourite.user_id))) continue;
+
+      // Conditional so a concurrent call cannot notify twice
+      const result = await this.favouriteRepository.update(
+        { id: favourite.id, notify_when_available: true },
+        { notify_when_available: false }
+      );
+
+      if (result.affected === 1) {
+        await this.notificationService.createFavouriteAvailableNotification(
+          favourite.user_id,
+          resource.id,
+          resource.title
+        );
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Listed, not taken down, and not out with a borrower right now
+   */
+  private async isAvailable(resource: Resource): Promise<boolean> {
+    if (!resource.is_available || resource.status !== "active") {
+      return false;
+    }
+
+    const lentOut = await this.borrowRequestRepository.count({
+      where: { resource_id: resource.id, status: In(LENT_OUT_STATUSES) }
+    });
+
+    return lentOut === 0;
+  }
+}
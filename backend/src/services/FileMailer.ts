@@ -0,0 +1,30 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { mailConfig } from "../config/mail";
+import { Mailer, MailMessage } from "./Mailer";
+
+/**
+ * Local development transport: writes each email to a file in the mail directory.
+ */
+export class FileMailer implements Mailer {
+  readonly name = "file";
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(mailConfig.fileDirectory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filePath = path.join(mailConfig.fileDirectory, `${Date.now()}-${safeRecipient}.eml`);
+    const contents = [
+      `From: ${mailConfig.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.text,
+      ""
+    ].join("\n");
+
+    await fs.writeFile(filePath, contents, "utf8");
+    console.log(`✉️  [file mail] ${message.subject} → ${filePath}`);
+  }
+}
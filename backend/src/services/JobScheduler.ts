@@ -0,0 +1,277 @@
+import { LessThan, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { jobConfig } from "../config/jobs";
+import { ScheduledJob } from "../entities/ScheduledJob";
+import { JobRun } from "../entities/JobRun";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { PaginatedResponse } from "./BorrowRequestService";
+
+export type JobResult = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  handler: () => Promise<JobResult>;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  interval_ms: number;
+  is_running: boolean;
+  next_run_at?: Date;
+  state?: ScheduledJob;
+}
+
+/**
+ * In-process scheduler for recurring background jobs.
+ * Run state is persisted in scheduled_jobs and each run is recorded in job_runs;
+ * a lock row in the database prevents overlapping runs of the same job.
+ */
+export class JobScheduler {
+  private jobRepository: Repository<ScheduledJob>;
+  private runRepository: Repository<JobRun>;
+  private jobs = new Map<string, JobDefinition>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private nextRuns = new Map<string, Date>();
+  private running = new Set<string>();
+  private started = false;
+
+  constructor() {
+    this.jobRepository = AppDataSource.getRepository(ScheduledJob);
+    this.runRepository = AppDataSource.getRepository(JobRun);
+  }
+
+  /**
+   * Register a job; must be called before start()
+   */
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Persist job definitions and schedule each job.
+   * The first run resumes from the persisted last run, so restarts don't re-run every job.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      const state = await this.ensureState(job);
+
+      if (state.interval_ms !== job.intervalMs) {
+        state.interval_ms = job.intervalMs;
+        await this.jobRepository.save(state);
+      }
+
+      const lastRun = state.last_run_at ? new Date(state.last_run_at).getTime() : 0;
+      const delay = Math.max(0, lastRun + job.intervalMs - Date.now());
+      this.scheduleNext(job, delay);
+    }
+
+    console.log(`⏰ Job scheduler started with ${this.jobs.size} jobs`);
+  }
+
+  /**
+   * Stop all timers; runs already in progress are allowed to finish
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.nextRuns.clear();
+    this.started = false;
+  }
+
+  /**
+   * Run a job immediately, outside its schedule
+   */
+  async runNow(name: string, triggeredBy?: number): Promise<JobRun> {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      throw new NotFoundError("Job");
+    }
+
+    const run = await this.execute(job, "manual", triggeredBy);
+
+    if (!run) {
+      throw new ConflictError(`Job ${name} is already running`);
+    }
+
+    return run;
+  }
+
+  /**
+   * Registered jobs with their persisted state
+   */
+  async getJobs(): Promise<JobStatus[]> {
+    const states = await this.jobRepository.find();
+    const stateByName = new Map(states.map((state) => [state.name, state]));
+
+    return Array.from(this.jobs.values()).map((job) => ({
+      name: job.name,
+      description: job.description,
+      interval_ms: job.intervalMs,
+      is_running: this.running.has(job.name),
+      next_run_at: this.nextRuns.get(job.name),
+      state: stateByName.get(job.name)
+    }));
+  }
+
+  /**
+   * Run history, newest first
+   */
+  async getHistory(
+    jobName?: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<JobRun>> {
+    const [runs, total] = await this.runRepository.findAndCount({
+      where: jobName ? { job_name: jobName } : {},
+      order: { started_at: "DESC", id: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      data: runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  private scheduleNext(job: JobDefinition, delay: number): void {
+    const timer = setTimeout(async () => {
+      try {
+        await this.execute(job, "schedule");
+      } catch (error) {
+        console.error(`Job ${job.name} could not be executed:`, error);
+      }
+
+      if (this.started) {
+        this.scheduleNext(job, job.intervalMs);
+      }
+    }, delay);
+
+    // Don't keep the process alive just for background jobs
+    timer.unref();
+
+    this.timers.set(job.name, timer);
+    this.nextRuns.set(job.name, new Date(Date.now() + delay));
+  }
+
+  /**
+   * Run a job under its lock and record the outcome.
+   * Returns null if another run holds the lock.
+   */
+  private async execute(
+    job: JobDefinition,
+    trigger: "schedule" | "manual",
+    triggeredBy?: number
+  ): Promise<JobRun | null> {
+    await this.ensureState(job);
+
+    if (!(await this.acquireLock(job.name))) {
+      console.log(`⏭️  Skipping job ${job.name}: previous run still in progress`);
+      return null;
+    }
+
+    this.running.add(job.name);
+    const startedAt = new Date();
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        job_name: job.name,
+        status: "running",
+        trigger,
+        triggered_by: triggeredBy,
+        started_at: startedAt
+      })
+    );
+
+    try {
+      run.result = await job.handler();
+      run.status = "success";
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+      run.status = "failed";
+      run.error = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+    }
+
+    run.finished_at = new Date();
+    run.duration_ms = run.finished_at.getTime() - startedAt.getTime();
+
+    try {
+      await this.runRepository.save(run);
+      await this.releaseLock(job.name, run);
+      await this.pruneHistory();
+    } finally {
+      this.running.delete(job.name);
+    }
+
+    return run;
+  }
+
+  /**
+   * Create the job's state row if missing; safe to call concurrently
+   */
+  private async ensureState(job: JobDefinition): Promise<ScheduledJob> {
+    await this.jobRepository
+      .createQueryBuilder()
+      .insert()
+      .into(ScheduledJob)
+      .values({ name: job.name, interval_ms: job.intervalMs })
+      .orIgnore()
+      .execute();
+
+    return (await this.jobRepository.findOne({ where: { name: job.name } })) as ScheduledJob;
+  }
+
+  /**
+   * Take the job's lock with a conditional update, so only one run wins
+   */
+  private async acquireLock(name: string): Promise<boolean> {
+    const now = new Date();
+    const result = await this.jobRepository
+      .createQueryBuilder()
+      .update(ScheduledJob)
+      .set({ locked_until: new Date(now.getTime() + jobConfig.lockTimeoutMs) })
+      .where("name = :name", { name })
+      .andWhere("(locked_until IS NULL OR locked_until < :now)", { now })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  private async releaseLock(name: string, run: JobRun): Promise<void> {
+    const state = await this.jobRepository.findOne({ where: { name } });
+
+    if (!state) return;
+
+    state.locked_until = null;
+    state.last_run_at = run.started_at;
+    state.last_status = run.status;
+    state.last_duration_ms = run.duration_ms;
+    state.last_error = run.error ?? null;
+    state.run_count += 1;
+    if (run.status === "failed") {
+      state.failure_count += 1;
+    }
+
+    await this.jobRepository.save(state);
+  }
+
+  private async pruneHistory(): Promise<void> {
+    const cutoff = new Date(Date.now() - jobConfig.historyRetentionDays * 24 * 60 * 60 * 1000);
+    await this.runRepository.delete({ started_at: LessThan(cutoff) });
+  }
+}
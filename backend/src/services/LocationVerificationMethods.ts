@@ -0,0 +1,220 @@
+import bcrypt from "bcryptjs";
+import { randomInt } from "crypto";
+import { Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { locationVerificationConfig } from "../config/verification";
+import {
+  LocationVerification,
+  LocationVerificationMethodName
+} from "../entities/LocationVerification";
+import { LocationVouch } from "../entities/LocationVouch";
+import { User } from "../entities/User";
+import {
+  ValidationError,
+  UnauthorizedError,
+  ConflictError,
+  validateEnum,
+  validateLength
+} from "../utils/errors";
+import { calculateDistance } from "../utils/geo";
+import { getPostalMailProvider } from "./PostalMailProvider";
+
+// Evidence offered for a pending verification; each method reads the fields it understands
+export interface LocationProof {
+  actor: User; // The user themselves, a neighbor or a reviewer
+  code?: string;
+  decision?: "approve" | "reject";
+  note?: string;
+}
+
+// "incorrect" counts as a failed attempt; "failed" ends the verification at once
+export type LocationProofOutcome = "verified" | "pending" | "incorrect" | "failed";
+
+/**
+ * One way of proving where a user lives
+ */
+export interface LocationVerificationMethod {
+  readonly name: LocationVerificationMethodName;
+  readonly expiresInDays: number;
+  readonly maxAttempts: number | null; // null when a proof cannot be wrong, only refused
+
+  /**
+   * Prepare a new verification before it is saved, e.g. mail its code
+   */
+  start(verification: LocationVerification, user: User, input: { note?: string }): Promise<void>;
+
+  /**
+   * Judge a proof; the caller records attempts and the outcome
+   */
+  check(verification: LocationVerification, proof: LocationProof): Promise<LocationProofOutcome>;
+}
+
+/**
+ * A one-time code mailed to the user's postal address
+ */
+export class PostalCodeMethod implements LocationVerificationMethod {
+  readonly name = "postal_code";
+  readonly expiresInDays = locationVerificationConfig.postalCode.expiresInDays;
+  readonly maxAttempts = locationVerificationConfig.postalCode.maxAttempts;
+
+  async start(verification: LocationVerification, user: User): Promise<void> {
+    if (!user.address?.trim()) {
+      throw new ValidationError("Add your postal address before requesting a code", "address");
+    }
+
+    const code = randomInt(0, 1000000).toString().padStart(6, "0");
+    verification.code_hash = await bcrypt.hash(code, 10);
+
+    await getPostalMailProvider().sendVerificationCode(
+      { name: user.name, address: user.address },
+      code,
+      verification.expires_at
+    );
+  }
+
+  async check(verification: LocationVerification, proof: LocationProof): Promise<LocationProofOutcome> {
+    if (proof.actor.id !== verification.user_id) {
+      throw new UnauthorizedError("Only the user being verified can enter the code");
+    }
+
+    if (!proof.code || !/^\d{6}$/.test(proof.code.trim())) {
+      throw new ValidationError("code must be the 6 digits from your letter", "code");
+    }
+
+    const matches = await bcrypt.compare(proof.code.trim(), verification.code_hash || "");
+    return matches ? "verified" : "incorrect";
+  }
+}
+
+/**
+ * Verified neighbors living close by confirm the user lives there
+ */
+export class NeighborVouchMethod implements LocationVerificationMethod {
+  readonly name = "neighbor_vouch";
+  readonly expiresInDays = locationVerificationConfig.neighborVouch.expiresInDays;
+  readonly maxAttempts = null;
+  private vouchRepository: Repository<LocationVouch>;
+
+  constructor() {
+    this.vouchRepository = AppDataSource.getRepository(LocationVouch);
+  }
+
+  async start(verification: LocationVerification): Promise<void> {
+    verification.required_vouches = locationVerificationConfig.neighborVouch.requiredVouches;
+  }
+
+  async check(verification: LocationVerification, proof: LocationProof): Promise<LocationProofOutcome> {
+    const voucher = proof.actor;
+
+    if (voucher.id === verification.user_id) {
+      throw new UnauthorizedError("You cannot vouch for yourself");
+    }
+
+    if (!voucher.is_location_verified || voucher.latitude == null || voucher.longitude == null) {
+      throw new UnauthorizedError("Verify your own location before vouching for a neighbor");
+    }
+
+    const radiusKm = locationVerificationConfig.neighborVouch.radiusKm;
+    const distance = calculateDistance(
+      Number(voucher.latitude),
+      Number(voucher.longitude),
+      Number(verification.latitude),
+      Number(verification.longitude)
+    );
+
+    if (distance > radiusKm) {
+      throw new UnauthorizedError(`You can only vouch for neighbors within ${radiusKm}km of you`);
+    }
+
+    const existing = await this.vouchRepository.findOne({
+      where: { verification_id: verification.id, voucher_id: voucher.id }
+    });
+
+    if (existing) {
+      throw new ConflictError("You already vouched for this neighbor");
+    }
+
+    await this.vouchRepository.save(
+      this.vouchRepository.create({ verification_id: verification.id, voucher_id: voucher.id })
+    );
+    verification.vouch_count += 1;
+
+    return verification.vouch_count >= (verification.required_vouches || 0) ? "verified" : "pending";
+  }
+}
+
+/**
+ * A moderator or admin checks the address by hand
+ */
+export class AdminReviewMethod implements LocationVerificationMethod {
+  readonly name = "admin_review";
+  readonly expiresInDays = locationVerificationConfig.adminReview.expiresInDays;
+  readonly maxAttempts = null;
+
+  async start(verification: LocationVerification, user: User, input: { note?: string }): Promise<void> {
+    if (input.note !== undefined && input.note !== null) {
+      validateLength(input.note, "note", 0, 500);
+      verification.note = input.note.trim() || null;
+    }
+  }
+
+  async check(verification: LocationVerification, proof: LocationProof): Promise<LocationProofOutcome> {
+    if (proof.actor.role !== "moderator" && proof.actor.role !== "admin") {
+      throw new UnauthorizedError("Only moderators and admins can review locations");
+    }
+
+    validateEnum(proof.decision, "decision", ["approve", "reject"], true);
+
+    if (proof.note !== undefined && proof.note !== null) {
+      validateLength(proof.note, "note", 0, 500);
+    }
+
+    verification.reviewed_by = proof.actor.id;
+    verification.review_note = proof.note?.trim() || null;
+
+    return proof.decision === "approve" ? "verified" : "failed";
+  }
+}
+
+let methods: Map<LocationVerificationMethodName, LocationVerificationMethod> | null = null;
+
+/**
+ * The verification methods enabled in the configuration, created on first use
+ */
+export const getLocationVerificationMethods = (): LocationVerificationMethod[] => {
+  if (!methods) {
+    methods = new Map();
+
+    for (const name of locationVerificationConfig.methods) {
+      switch (name) {
+        case "postal_code":
+          methods.set(name, new PostalCodeMethod());
+          break;
+        case "neighbor_vouch":
+          methods.set(name, new NeighborVouchMethod());
+          break;
+        case "admin_review":
+          methods.set(name, new AdminReviewMethod());
+          break;
+        default:
+          throw new Error(`Unknown location verification method: ${name}`);
+      }
+    }
+  }
+
+  return [...methods.values()];
+};
+
+/**
+ * An enabled verification method by name
+ */
+export const getLocationVerificationMethod = (name: string): LocationVerificationMethod => {
+  const method = getLocationVerificationMethods().find((candidate) => candidate.name === name);
+
+  if (!method) {
+    const enabled = getLocationVerificationMethods().map((candidate) => candidate.name);
+    throw new ValidationError(`method must be one of: ${enabled.join(", ")}`, "method", name);
+  }
+
+  return method;
+};
@@ -0,0 +1,408 @@
+import { LessThan, MoreThanOrEqual, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { locationVerificationConfig } from "../config/verification";
+import {
+  LocationVerification,
+  LocationVerificationMethodName,
+  LocationVerificationStatus
+} from "../entities/LocationVerification";
+import { User } from "../entities/User";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+import { boundingBox, calculateDistance } from "../utils/geo";
+import {
+  LocationProof,
+  getLocationVerificationMethod,
+  getLocationVerificationMethods
+} from "./LocationVerificationMethods";
+import { CommunityService } from "./CommunityService";
+import { NotificationService } from "./NotificationService";
+import { PaginatedResponse } from "./BorrowRequestService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocationVerificationStartData {
+  method: string;
+  note?: string; // For the reviewer (admin_review)
+}
+
+// What a neighbor learns after vouching
+export type VouchResult = Pick<LocationVerification, "id" | "status" | "vouch_count" | "required_vouches">;
+
+// A pending neighbor_vouch verification as nearby neighbors see it; the exact address stays private
+export interface VouchRequest {
+  id: number;
+  user: { id: number; name: string; avatar_url?: string; neighborhood?: string };
+  distance: number;
+  vouch_count: number;
+  required_vouches: number;
+  expires_at: Date;
+  created_at: Date;
+}
+
+export interface LocationVerificationMethodInfo {
+  name: LocationVerificationMethodName;
+  expires_in_days: number;
+  max_attempts: number | null;
+  required_vouches?: number;
+  vouch_radius_km?: number;
+}
+
+export class LocationVerificationService {
+  private verificationRepository: Repository<LocationVerification>;
+  private userRepository: Repository<User>;
+  private communityService: CommunityService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.verificationRepository = AppDataSource.getRepository(LocationVerification);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.communityService = new CommunityService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * The verification methods users can choose from
+   */
+  getMethods(): LocationVerificationMethodInfo[] {
+    return getLocationVerificationMethods().map((method) => ({
+      name: method.name,
+      expires_in_days: method.expiresInDays,
+      max_attempts: method.maxAttempts,
+      ...(method.name === "neighbor_vouch" && {
+        required_vouches: locationVerificationConfig.neighborVouch.requiredVouches,
+        vouch_radius_km: locationVerificationConfig.neighborVouch.radiusKm
+      })
+    }));
+  }
+
+  /**
+   * A user's verifications, newest first
+   */
+  async getUserVerifications(userId: number): Promise<LocationVerification[]> {
+    const verifications = await this.verificationRepository.find({
+      where: { user_id: userId },
+      order: { created_at: "DESC", id: "DESC" },
+      take: 20
+    });
+
+    return verifications.map((verification) => this.present(verification));
+  }
+
+  /**
+   * Start verifying the user's current location. Any verification still pending is cancelled.
+   */
+  async start(userId: number, data: LocationVerificationStartData): Promise<LocationVerification> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+
+    if (user.is_location_verified) {
+      throw new ConflictError("Your location is already verified");
+    }
+
+    if (user.latitude == null || user.longitude == null) {
+      throw new ValidationError("Set your location before verifying it", "latitude");
+    }
+
+    const method = getLocationVerificationMethod(data.method);
+
+    const recentStarts = await this.verificationRepository.count({
+      where: { user_id: userId, created_at: MoreThanOrEqual(new Date(Date.now() - 30 * DAY_MS)) }
+    });
+
+    if (recentStarts >= locationVerificationConfig.maxStartsPerMonth) {
+      throw new ValidationError(
+        `You can start at most ${locationVerificationConfig.maxStartsPerMonth} location verifications every 30 days`
+      );
+    }
+
+    const verification = this.verificationRepository.create({
+      user_id: userId,
+      method: method.name,
+      status: "pending",
+      address: user.address,
+      latitude: user.latitude,
+      longitude: user.longitude,
+      max_attempts: method.maxAttempts,
+      expires_at: new Date(Date.now() + method.expiresInDays * DAY_MS)
+    });
+
+    await method.start(verification, user, { note: data.note });
+    await this.cancelPending(userId);
+
+    return this.present(await this.verificationRepository.save(verification));
+  }
+
+  /**
+   * Enter the code from a mailed letter
+   */
+  async submitCode(verificationId: number, user: User, code: string): Promise<LocationVerification> {
+    return this.submitProof(verificationId, "postal_code", { actor: user, code });
+  }
+
+  /**
+   * Vouch that a neighbor lives where they say
+   */
+  async vouch(verificationId: number, voucher: User): Promise<VouchResult> {
+    const { id, status, vouch_count, required_vouches } = await this.submitProof(
+      verificationId,
+      "neighbor_vouch",
+      { actor: voucher }
+    );
+
+    return { id, status, vouch_count, required_vouches };
+  }
+
+  /**
+   * Approve or reject a verification waiting for review
+   */
+  async review(
+    verificationId: number,
+    reviewer: User,
+    decision: "approve" | "reject",
+    note?: string
+  ): Promise<LocationVerification> {
+    return this.submitProof(verificationId, "admin_review", { actor: reviewer, decision, note });
+  }
+
+  /**
+   * Withdraw a pending verification
+   */
+  async cancel(verificationId: number, userId: number): Promise<void> {
+    const verification = await this.verificationRepository.findOne({ where: { id: verificationId } });
+
+    if (!verification) {
+      throw new NotFoundError("Location verification");
+    }
+
+    if (verification.user_id !== userId) {
+      throw new UnauthorizedError("You can only cancel your own verification");
+    }
+
+    if (verification.status !== "pending") {
+      throw new ConflictError(`This verification is already ${verification.status}`);
+    }
+
+    verification.status = "cancelled";
+    verification.completed_at = new Date();
+    await this.verificationRepository.save(verification);
+  }
+
+  /**
+   * Cancel a user's pending verifications, e.g. because they moved
+   */
+  async cancelPending(userId: number): Promise<number> {
+    const result = await this.verificationRepository.update(
+      { user_id: userId, status: "pending" },
+      { status: "cancelled", completed_at: new Date() }
+    );
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Pending neighbor_vouch verifications close enough for the user to vouch for
+   */
+  async getVouchRequests(voucherId: number): Promise<VouchRequest[]> {
+    const voucher = await this.userRepository.findOne({ where: { id: voucherId } });
+
+    if (!voucher?.is_location_verified || voucher.latitude == null || voucher.longitude == null) {
+      return [];
+    }
+
+    const center = { latitude: Number(voucher.latitude), longitude: Number(voucher.longitude) };
+    const radiusKm = locationVerificationConfig.neighborVouch.radiusKm;
+    const box = boundingBox(center, radiusKm);
+
+    const query = this.verificationRepository
+      .createQueryBuilder("verification")
+      .leftJoinAndSelect("verification.user", "user")
+      .where("verification.method = :method", { method: "neighbor_vouch" })
+      .andWhere("verification.status = :status", { status: "pending" })
+      .andWhere("verification.expires_at > :now", { now: new Date() })
+      .andWhere("verification.user_id != :voucherId", { voucherId })
+      .andWhere(
+        "NOT EXISTS (SELECT 1 FROM location_vouches vouch WHERE vouch.verification_id = verification.id AND vouch.voucher_id = :voucherId)"
+      )
+      .andWhere("verification.latitude BETWEEN :minLat AND :maxLat", {
+        minLat: box.minLatitude,
+        maxLat: box.maxLatitude
+      });
+
+    if (box.minLongitude <= box.maxLongitude) {
+      query.andWhere("verification.longitude BETWEEN :minLng AND :maxLng", {
+        minLng: box.minLongitude,
+        maxLng: box.maxLongitude
+      });
+    } else {
+      // The box crosses the 180th meridian
+      query.andWhere("(verification.longitude >= :minLng OR verification.longitude <= :maxLng)", {
+        minLng: box.minLongitude,
+        maxLng: box.maxLongitude
+      });
+    }
+
+    const verifications = await query.orderBy("verification.created_at", "ASC").getMany();
+
+    return verifications
+      .map((verification) => ({
+        verification,
+        distance: calculateDistance(
+          center.latitude,
+          center.longitude,
+          Number(verification.latitude),
+          Number(verification.longitude)
+        )
+      }))
+      .filter(({ distance }) => distance <= radiusKm)
+      .map(({ verification, distance }) => ({
+        id: verification.id,
+        user: {
+          id: verification.user!.id,
+          name: verification.user!.name,
+          avatar_url: verification.user!.avatar_url,
+          neighborhood: verification.user!.neighborhood
+        },
+        distance,
+        vouch_count: verification.vouch_count,
+        required_vouches: verification.required_vouches || 0,
+        expires_at: verification.expires_at,
+        created_at: verification.created_at
+      }));
+  }
+
+  /**
+   * Verifications waiting for a moderator, oldest first
+   */
+  async getPendingReviews(page: number = 1, limit: number = 20): Promise<PaginatedResponse<LocationVerification>> {
+    const [verifications, total] = await this.verificationRepository
+      .createQueryBuilder("verification")
+      .leftJoin("verification.user", "user")
+      .addSelect(["user.id", "user.name", "user.email", "user.address", "user.postal_code", "user.neighborhood"])
+      .where("verification.method = :method", { method: "admin_review" })
+      .andWhere("verification.status = :status", { status: "pending" })
+      .andWhere("verification.expires_at > :now", { now: new Date() })
+      .orderBy("verification.created_at", "ASC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: verifications.map((verification) => this.present(verification)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Expire pending verifications past their deadline
+   */
+  async expireStale(): Promise<number> {
+    const stale = await this.verificationRepository.find({
+      where: { status: "pending", expires_at: LessThan(new Date()) }
+    });
+
+    for (const verification of stale) {
+      await this.finish(verification, "expired");
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Hand a proof to the verification's method and record the outcome.
+   * Wrong proofs count as attempts; the verification fails once they run out.
+   */
+  private async submitProof(
+    verificationId: number,
+    methodName: LocationVerificationMethodName,
+    proof: LocationProof
+  ): Promise<LocationVerification> {
+    const verification = await this.verificationRepository.findOne({ where: { id: verificationId } });
+
+    if (!verification || verification.method !== methodName) {
+      throw new NotFoundError("Location verification");
+    }
+
+    if (verification.status !== "pending") {
+      throw new ConflictError(`This verification is already ${verification.status}`);
+    }
+
+    if (verification.expires_at.getTime() < Date.now()) {
+      await this.finish(verification, "expired");
+      throw new ConflictError("This verification has expired");
+    }
+
+    const method = getLocationVerificationMethod(methodName);
+    const outcome = await method.check(verification, proof);
+
+    switch (outcome) {
+      case "incorrect": {
+        // Only mailed codes can be wrong
+        verification.attempts += 1;
+        const attemptsLeft = (verification.max_attempts || 0) - verification.attempts;
+
+        if (attemptsLeft <= 0) {
+          await this.finish(verification, "failed");
+          throw new ValidationError("Incorrect code. No attempts left; start a new verification", "code");
+        }
+
+        await this.verificationRepository.save(verification);
+        throw new ValidationError(
+          `Incorrect code, ${attemptsLeft} ${attemptsLeft === 1 ? "attempt" : "attempts"} left`,
+          "code"
+        );
+      }
+      case "pending":
+        return this.present(await this.verificationRepository.save(verification));
+      default:
+        return this.present(await this.finish(verification, outcome));
+    }
+  }
+
+  /**
+   * Close a verification. A successful one verifies the user's location and updates their communities.
+   */
+  private async finish(
+    verification: LocationVerification,
+    status: Exclude<LocationVerificationStatus, "pending" | "cancelled">
+  ): Promise<LocationVerification> {
+    verification.status = status;
+    verification.completed_at = new Date();
+    const saved = await this.verificationRepository.save(verification);
+
+    if (status === "verified") {
+      await this.userRepository.update(verification.user_id, { is_location_verified: true });
+      await this.communityService.syncUserMemberships(verification.user_id);
+    }
+
+    try {
+      await this.notificationService.createLocationVerificationNotification(verification.user_id, {
+        verification_id: verification.id,
+        method: verification.method,
+        status,
+        review_note: verification.review_note
+      });
+    } catch (error) {
+      console.warn(`Failed to notify user ${verification.user_id} about location verification ${verification.id}:`, error);
+    }
+
+    return saved;
+  }
+
+  // Verifications leave the service without their code hash
+  private present(verification: LocationVerification): LocationVerification {
+    return { ...verification, code_hash: undefined };
+  }
+}
@@ -0,0 +1,101 @@
+import { rateLimitConfig } from "../config/rateLimits";
+import { TooManyRequestsError } from "../utils/errors";
+import { getRateLimitStore } from "./RateLimitStore";
+
+/**
+ * Progressive lockout of an email address, from the client IP failing to log in with it
+ * Keyed by both so guessing from one address cannot lock the owner out everywhere else.
+ * Failures from all addresses also count towards the account; past a higher threshold every
+ * further failure slows the account down for a short while, so rotating addresses doesn't
+ * give unlimited guesses either.
+ * Unknown emails are tracked the same way so a lockout reveals nothing about which accounts exist
+ */
+export class LoginThrottle {
+  private client(email: string, ipAddress: string | undefined): string {
+    return `${ipAddress || "unknown"}:${normalize(email)}`;
+  }
+
+  private account(email: string): string {
+    return `account:${normalize(email)}`;
+  }
+
+  /**
+   * Refuse the attempt while the email is locked for this client or slowed down for everyone
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const store = getRateLimitStore();
+    const locks = await Promise.all([
+      store.get(`login-lock:${this.client(email, ipAddress)}`),
+      store.get(`login-lock:${this.account(email)}`)
+    ]);
+    const resetAt = Math.max(...locks.map((lock) => lock?.resetAt.getTime() ?? 0));
+
+    if (resetAt > 0) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+      throw new TooManyRequestsError(
+        `Too many failed login attempts, please try again in ${formatWait(retryAfterSeconds)}`,
+        retryAfterSeconds
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt; past the free attempts each failure locks the email twice as long as the last.
+   * Past the account's free attempts, each failure also pauses logins to the account from anywhere.
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    const {
+      freeAttempts,
+      baseLockSeconds,
+      maxLockSeconds,
+      failureWindowSeconds,
+      accountFreeAttempts,
+      accountDelaySeconds
+    } = rateLimitConfig.loginLockout;
+
+    const clientFailures = await this.countFailure(this.client(email, ipAddress), failureWindowSeconds);
+    const overLimit = clientFailures - freeAttempts;
+    if (overLimit > 0) {
+      await this.lock(this.client(email, ipAddress), Math.min(baseLockSeconds * 2 ** (overLimit - 1), maxLockSeconds));
+    }
+
+    const accountFailures = await this.countFailure(this.account(email), failureWindowSeconds);
+    if (accountFailures > accountFreeAttempts) {
+      await this.lock(this.account(email), accountDelaySeconds);
+    }
+  }
+
+  /**
+   * Forget the failures after a successful login
+   */
+  async reset(email: string, ipAddress?: string): Promise<void> {
+    const store = getRateLimitStore();
+
+    for (const key of [this.client(email, ipAddress), this.account(email)]) {
+      await store.reset(`login-failures:${key}`);
+      await store.reset(`login-lock:${key}`);
+    }
+  }
+
+  private async countFailure(key: string, windowSeconds: number): Promise<number> {
+    const failures = await getRateLimitStore().increment(`login-failures:${key}`, windowSeconds * 1000);
+    return failures.count;
+  }
+
+  private async lock(key: string, seconds: number): Promise<void> {
+    const store = getRateLimitStore();
+    await store.reset(`login-lock:${key}`);
+    await store.increment(`login-lock:${key}`, seconds * 1000);
+  }
+}
+
+const normalize = (email: string): string => email.trim().toLowerCase();
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
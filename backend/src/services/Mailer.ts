@@ -0,0 +1,45 @@
+import { mailConfig } from "../config/mail";
+import { ConsoleMailer } from "./ConsoleMailer";
+import { FileMailer } from "./FileMailer";
+import { SmtpMailer } from "./SmtpMailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Sends email to users
+ */
+export interface Mailer {
+  readonly name: string;
+
+  send(message: MailMessage): Promise<void>;
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * The configured mail transport, created on first use
+ */
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    switch (mailConfig.transport) {
+      case "smtp":
+        mailer = new SmtpMailer();
+        break;
+      case "file":
+        mailer = new FileMailer();
+        break;
+      case "console":
+        mailer = new ConsoleMailer();
+        break;
+      default:
+        throw new Error(`Unknown mail transport: ${mailConfig.transport}`);
+    }
+  }
+
+  return mailer;
+};
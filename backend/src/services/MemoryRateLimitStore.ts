@@ -0,0 +1,52 @@
+import { RateLimitHits, RateLimitStore } from "./RateLimitStore";
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps hit counts in this process; limits are not shared between API instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private hits = new Map<string, { count: number; resetAt: number }>();
+
+  constructor() {
+    // Drop finished windows so the map does not grow with every client ever seen
+    const cleanup = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.hits) {
+        if (entry.resetAt <= now) {
+          this.hits.delete(key);
+        }
+      }
+    }, CLEANUP_INTERVAL_MS);
+    cleanup.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHits> {
+    const now = Date.now();
+    let entry = this.hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      this.hits.set(key, entry);
+    }
+
+    entry.count += 1;
+
+    return { count: entry.count, resetAt: new Date(entry.resetAt) };
+  }
+
+  async get(key: string): Promise<RateLimitHits | null> {
+    const entry = this.hits.get(key);
+
+    if (!entry || entry.resetAt <= Date.now()) {
+      return null;
+    }
+
+    return { count: entry.count, resetAt: new Date(entry.resetAt) };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
@@ -0,0 +1,468 @@
+import { Brackets, In, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import {
+  ModerationAction,
+  ModerationActionType,
+  ModerationTargetType
+} from "../entities/ModerationAction";
+import { Review } from "../entities/Review";
+import { User } from "../entities/User";
+import { Resource } from "../entities/Resource";
+import { BorrowRequest } from "../entities/BorrowRequest";
+import { DisputeCase } from "../entities/DisputeCase";
+import { ValidationError, NotFoundError, UnauthorizedError, ConflictError } from "../utils/errors";
+import { ReviewService } from "./ReviewService";
+import { DepositService } from "./DepositService";
+import { DisputeService, DisputeDecisionData } from "./DisputeService";
+import { PaginatedResponse } from "./BorrowRequestService";
+import { ResourceSearchService } from "./ResourceSearchService";
+import { FavouriteService } from "./FavouriteService";
+
+// Thresholds used to surface listings in the suspicious queue
+const SUSPICIOUS_ISSUE_COUNT = 2;
+const SUSPICIOUS_MIN_RATINGS = 3;
+const SUSPICIOUS_MAX_RATING = 2;
+
+export interface SuspiciousListing {
+  resource: Resource;
+  issue_count: number;
+  reasons: string[];
+}
+
+export interface ModerationActionFilters {
+  target_type?: ModerationTargetType;
+  target_id?: number;
+  moderator_id?: number;
+}
+
+export class ModerationService {
+  private actionRepository: Repository<ModerationAction>;
+  private reviewRepository: Repository<Review>;
+  private userRepository: Repository<User>;
+  private resourceRepository: Repository<Resource>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+  private reviewService: ReviewService;
+  private depositService: DepositService;
+  private disputeService: DisputeService;
+  private searchIndex: ResourceSearchService;
+  private favouriteService: FavouriteService;
+
+  constructor() {
+    this.actionRepository = AppDataSource.getRepository(ModerationAction);
+    this.reviewRepository = AppDataSource.getRepository(Review);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+    this.reviewService = new ReviewService();
+    this.depositService = new DepositService();
+    this.disputeService = new DisputeService();
+    this.searchIndex = new ResourceSearchService();
+    this.favouriteService = new FavouriteService();
+  }
+
+  /**
+   * Flagged reviews that are still visible and awaiting a decision
+   */
+  async getFlaggedReviews(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<Review>> {
+    const [reviews, total] = await this.reviewRepository
+      .createQueryBuilder("review")
+      .leftJoinAndSelect("review.reviewer", "reviewer")
+      .leftJoinAndSelect("review.reviewee", "reviewee")
+      .leftJoinAndSelect("review.borrow_request", "borrowRequest")
+      .leftJoinAndSelect("borrowRequest.resource", "resource")
+      .where("review.is_flagged = :isFlagged", { isFlagged: true })
+      .andWhere("review.is_hidden = :isHidden", { isHidden: false })
+      .orderBy("review.updated_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: reviews,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Borrow requests with unresolved reported issues, most recent first
+   */
+  async getReportedIssues(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<BorrowRequest>> {
+    const [requests, total] = await this.borrowRequestRepository
+      .createQueryBuilder("request")
+      .leftJoinAndSelect("request.resource", "resource")
+      .leftJoinAndSelect("resource.owner", "owner")
+      .leftJoinAndSelect("request.requester", "requester")
+      .leftJoinAndSelect("request.deposit_entries", "deposit_entry")
+      .where("request.has_issues = :hasIssues", { hasIssues: true })
+      .andWhere("request.issue_resolved = :resolved", { resolved: false })
+      .orderBy("request.issue_reported_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Active listings that look suspicious: owned by a suspended user,
+   * repeatedly involved in reported issues, or consistently rated poorly
+   */
+  async getSuspiciousListings(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<SuspiciousListing>> {
+    const issueCountQuery = `(SELECT COUNT(*) FROM borrow_requests issue WHERE issue.resource_id = resource.id AND issue.has_issues = :hasIssues)`;
+
+    const [resources, total] = await this.resourceRepository
+      .createQueryBuilder("resource")
+      .leftJoinAndSelect("resource.owner", "owner")
+      .where("resource.status != :inactive", { inactive: "inactive" })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where("owner.verification_status = :suspended", { suspended: "suspended" })
+            .orWhere(`${issueCountQuery} >= :issueThreshold`, {
+              hasIssues: true,
+              issueThreshold: SUSPICIOUS_ISSUE_COUNT
+            })
+            .orWhere(
+              "(resource.total_ratings >= :minRatings AND resource.average_rating <= :maxRating)",
+              { minRatings: SUSPICIOUS_MIN_RATINGS, maxRating: SUSPICIOUS_MAX_RATING }
+            );
+        })
+      )
+      .orderBy("resource.updated_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    const issueCounts = await this.getIssueCounts(resources.map((resource) => resource.id));
+
+    const listings = resources.map((resource) => {
+      const issueCount = issueCounts.get(resource.id) || 0;
+      const reasons: string[] = [];
+
+      if (resource.owner?.verification_status === "suspended") {
+        reasons.push("Owner is suspended");
+      }
+      if (issueCount >= SUSPICIOUS_ISSUE_COUNT) {
+        reasons.push(`${issueCount} borrows reported with issues`);
+      }
+      if (
+        resource.total_ratings >= SUSPICIOUS_MIN_RATINGS &&
+        Number(resource.average_rating) <= SUSPICIOUS_MAX_RATING
+      ) {
+        reasons.push(`Average rating ${Number(resource.average_rating).toFixed(1)}`);
+      }
+
+      return { resource, issue_count: issueCount, reasons };
+    });
+
+    return {
+      data: listings,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Hide, show or verify a review
+   */
+  async moderateReview(
+    reviewId: number,
+    moderatorId: number,
+    action: "hide" | "show" | "verify",
+    reason: string
+  ): Promise<Review> {
+    this.validateReason(reason);
+
+    const review = await this.reviewService.moderateReview(reviewId, moderatorId, action, reason);
+    await this.recordAction(moderatorId, "review", reviewId, action, reason);
+
+    return review;
+  }
+
+  /**
+   * Suspend or reinstate a user account
+   */
+  async moderateUser(
+    userId: number,
+    moderator: User,
+    action: "suspend" | "reinstate",
+    reason: string
+  ): Promise<User> {
+    this.validateReason(reason);
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+
+    if (user.id === moderator.id) {
+      throw new ValidationError("Cannot moderate your own account");
+    }
+
+    if (user.role === "admin" && moderator.role !== "admin") {
+      throw new UnauthorizedError("Only admins can moderate admin accounts");
+    }
+
+    if (action === "suspend") {
+      if (user.verification_status === "suspended") {
+        throw new ValidationError("User is already suspended");
+      }
+      user.verification_status = "suspended";
+    } else {
+      if (user.verification_status !== "suspended") {
+        throw new ValidationError("User is not suspended");
+      }
+      user.verification_status = user.is_email_verified ? "verified" : "pending";
+    }
+
+    const savedUser = await this.userRepository.save(user);
+    await this.recordAction(moderator.id, "user", userId, action, reason);
+
+    return savedUser;
+  }
+
+  /**
+   * Deactivate or reactivate a listing
+   */
+  async moderateResource(
+    resourceId: number,
+    moderatorId: number,
+    action: "deactivate" | "reactivate",
+    reason: string
+  ): Promise<Resource> {
+    this.validateReason(reason);
+
+    const resource = await this.resourceRepository.findOne({
+      where: { id: resourceId }
+    });
+
+    if (!resource) {
+      throw new NotFoundError("Resource");
+    }
+
+    if (action === "deactivate") {
+      if (resource.status === "inactive") {
+        throw new ValidationError("Resource is already inactive");
+      }
+      resource.status = "inactive";
+      resource.is_available = false;
+    } else {
+      if (resource.status !== "inactive") {
+        throw new ValidationError("Resource is not inactive");
+      }
+      resource.status = "active";
+      resource.is_available = true;
+    }
+
+    const savedResource = await this.resourceRepository.save(resource);
+    await this.searchIndex.indexResource(savedResource.id);
+    await this.recordAction(moderatorId, "resource", resourceId, action, reason);
+
+    if (action === "reactivate") {
+      try {
+        await this.favouriteService.notifyAvailable(savedResource.id);
+      } catch (error) {
+        console.warn("Failed to notify favourites:", error);
+      }
+    }
+
+    return savedResource;
+  }
+
+  /**
+   * Mark a reported borrow issue as resolved
+   */
+  async resolveIssue(
+    requestId: number,
+    moderatorId: number,
+    reason: string,
+    withholdAmount?: number
+  ): Promise<BorrowRequest> {
+    this.validateReason(reason);
+
+    const request = await this.borrowRequestRepository.findOne({
+      where: { id: requestId }
+    });
+
+    if (!request) {
+      throw new NotFoundError("Borrow request");
+    }
+
+    if (!request.has_issues || request.issue_resolved) {
+      throw new ValidationError("Borrow request has no open issue");
+    }
+
+    if (await this.disputeService.hasActiveDispute(requestId)) {
+      throw new ConflictError("This issue has an open dispute case; decide the dispute instead");
+    }
+
+    // A disputed deposit is settled with the moderator's decision
+    const ledger = await this.depositService.getLedger(requestId);
+    if (ledger.open_dispute) {
+      if (withholdAmount === undefined) {
+        throw new ValidationError("withhold_amount is required to settle the disputed deposit");
+      }
+
+      await this.depositService.resolveDispute(requestId, moderatorId, withholdAmount);
+    }
+
+    // Update only the flag so the deposit columns set by the settlement are kept
+    await this.borrowRequestRepository.update(requestId, { issue_resolved: true });
+    await this.recordAction(moderatorId, "borrow_request", requestId, "resolve", reason);
+
+    return (await this.borrowRequestRepository.findOne({ where: { id: requestId } }))!;
+  }
+
+  /**
+   * Audit log of moderation actions, newest first
+   */
+  async getActions(
+    filters: ModerationActionFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<ModerationAction>> {
+    const queryBuilder = this.actionRepository
+      .createQueryBuilder("action")
+      .leftJoin("action.moderator", "moderator")
+      .addSelect(["moderator.id", "moderator.name", "moderator.email"])
+      .orderBy("action.created_at", "DESC");
+
+    if (filters.target_type) {
+      queryBuilder.andWhere("action.target_type = :targetType", {
+        targetType: filters.target_type
+      });
+    }
+
+    if (filters.target_id) {
+      queryBuilder.andWhere("action.target_id = :targetId", {
+        targetId: filters.target_id
+      });
+    }
+
+    if (filters.moderator_id) {
+      queryBuilder.andWhere("action.moderator_id = :moderatorId", {
+        moderatorId: filters.moderator_id
+      });
+    }
+
+    const [actions, total] = await queryBuilder
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: actions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Append an entry to the moderation audit log
+   */
+  /**
+   * Dispute cases waiting for a decision
+   */
+  async getDisputes(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<DisputeCase>> {
+    return this.disputeService.getQueue(page, limit);
+  }
+
+  /**
+   * Decide a dispute case; the notes are recorded as the reason
+   */
+  async decideDispute(
+    disputeId: number,
+    moderatorId: number,
+    data: DisputeDecisionData
+  ): Promise<DisputeCase> {
+    this.validateReason(data.notes);
+
+    const dispute = await this.disputeService.decide(disputeId, moderatorId, data);
+    await this.recordAction(moderatorId, "dispute", disputeId, "decide", data.notes);
+
+    return dispute;
+  }
+
+  private async recordAction(
+    moderatorId: number,
+    targetType: ModerationTargetType,
+    targetId: number,
+    action: ModerationActionType,
+    reason: string
+  ): Promise<ModerationAction> {
+    const entry = this.actionRepository.create({
+      moderator_id: moderatorId,
+      target_type: targetType,
+      target_id: targetId,
+      action,
+      reason: reason.trim()
+    });
+
+    return this.actionRepository.save(entry);
+  }
+
+  private validateReason(reason: string): void {
+    if (!reason || reason.trim().length === 0) {
+      throw new ValidationError("A reason is required for moderation actions");
+    }
+
+    if (reason.trim().length > 500) {
+      throw new ValidationError("Reason must be 500 characters or less");
+    }
+  }
+
+  private async getIssueCounts(resourceIds: number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+
+    if (resourceIds.length === 0) {
+      return counts;
+    }
+
+    const rows = await this.borrowRequestRepository
+      .createQueryBuilder("request")
+      .select("request.resource_id", "resource_id")
+      .addSelect("COUNT(*)", "count")
+      .where({ resource_id: In(resourceIds), has_issues: true })
+      .groupBy("request.resource_id")
+      .getRawMany();
+
+    rows.forEach((row) => counts.set(Number(row.resource_id), Number(row.count)));
+
+    return counts;
+  }
+}
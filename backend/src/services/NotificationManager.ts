@@ -1,6 +1,8 @@
 import { Server } from "socket.io";
 import { NotificationService } from "./NotificationService";
+import { BorrowRequestService } from "./BorrowRequestService";
 import { Notification } from "../entities/Notification";
+import { NotificationTemplates } from "../utils/notificationTemplates";
 
 export interface NotificationEvents {
   new_notification: Notification;
@@ -11,10 +13,12 @@ export interface NotificationEvents {
 export class NotificationManager {
   private io: Server;
   private notificationService: NotificationService;
+  private borrowRequestService: BorrowRequestService;
 
   constructor(io: Server) {
     this.io = io;
     this.notificationService = new NotificationService();
+    this.borrowRequestService = new BorrowRequestService();
   }
 
   /**
@@ -210,9 +214,10 @@ export class NotificationManager {
   }
 
   /**
-   * Process scheduled notifications (to be called by a cron job)
+   * Process scheduled notifications (run by the job scheduler)
+   * Returns the number of notifications sent
    */
-  async processScheduledNotifications(): Promise<void> {
+  async processScheduledNotifications(): Promise<number> {
     try {
       const scheduledNotifications = await this.notificationService.getScheduledNotificationsForSending();
 
@@ -229,25 +234,83 @@ export class NotificationManager {
       if (scheduledNotifications.length > 0) {
         console.log(`📅 Processed ${scheduledNotifications.length} scheduled notifications`);
       }
+
+      return scheduledNotifications.length;
     } catch (error) {
       console.error("Failed to process scheduled notifications:", error);
+      throw error;
     }
   }
 
   /**
-   * Send overdue reminders
+   * Mark active requests past their due date as overdue and notify
+   * both the borrower and the owner (run by the job scheduler)
+   * Returns the number of requests that became overdue
    */
-  async sendOverdueReminders(): Promise<void> {
+  async sendOverdueReminders(): Promise<number> {
     try {
-      // This would be called by a scheduled job
-      // For now, we'll implement basic overdue logic
-      
-      console.log("📝 Processing overdue reminders...");
-      // Implementation would depend on your business logic
-      // e.g., remind users about overdue items, upcoming due dates, etc.
-      
+      const overdueRequests = await this.borrowRequestService.markOverdueRequests();
+      const now = Date.now();
+
+      for (const request of overdueRequests) {
+        const daysOverdue = request.due_date
+          ? Math.max(1, Math.floor((now - new Date(request.due_date).getTime()) / (1000 * 60 * 60 * 24)))
+          : 0;
+        const ownerId = request.resource?.owner_id;
+        const metadata = {
+          resource_name: request.resource?.title,
+          due_date: request.due_date,
+          days_overdue: daysOverdue
+        };
+
+        try {
+          const borrowerTemplate = NotificationTemplates.borrow_request.overdue(metadata);
+          const borrowerNotification = await this.notificationService.createNotification({
+            user_id: request.requester_id,
+            ...borrowerTemplate,
+            notification_type: "borrow_request_overdue",
+            priority: "urgent",
+            related_borrow_request_id: request.id,
+            related_resource_id: request.resource_id,
+            related_user_id: ownerId,
+            action_url: `/borrow-requests/${request.id}`,
+            action_text: "View Request",
+            metadata
+          });
+          await this.sendNotificationToUser(request.requester_id, borrowerNotification);
+
+          if (ownerId) {
+            const ownerTemplate = NotificationTemplates.borrow_request.overdue_owner({
+              ...metadata,
+              requester_name: request.requester?.name
+            });
+            const ownerNotification = await this.notificationService.createNotification({
+              user_id: ownerId,
+              ...ownerTemplate,
+              notification_type: "borrow_request_overdue",
+              priority: "high",
+              related_borrow_request_id: request.id,
+              related_resource_id: request.resource_id,
+              related_user_id: request.requester_id,
+              action_url: `/borrow-requests/${request.id}`,
+              action_text: "View Request",
+              metadata
+            });
+            await this.sendNotificationToUser(ownerId, ownerNotification);
+          }
+        } catch (error) {
+          console.warn(`Failed to send overdue notifications for request ${request.id}:`, error);
+        }
+      }
+
+      if (overdueRequests.length > 0) {
+        console.log(`⏰ Marked ${overdueRequests.length} borrow requests as overdue`);
+      }
+
+      return overdueRequests.length;
     } catch (error) {
       console.error("Failed to send overdue reminders:", error);
+      throw error;
     }
   }
 
@@ -282,8 +345,9 @@ export class NotificationManager {
 
   /**
    * Clean up expired notifications and update users
+   * Returns the number of notifications deleted
    */
-  async cleanupExpiredNotifications(): Promise<void> {
+  async cleanupExpiredNotifications(): Promise<number> {
     try {
       const deletedCount = await this.notificationService.cleanupExpiredNotifications();
       
@@ -296,8 +360,11 @@ export class NotificationManager {
           timestamp: new Date()
         });
       }
+
+      return deletedCount;
     } catch (error) {
       console.error("Failed to cleanup expired notifications:", error);
+      throw error;
     }
   }
 
@@ -1,4 +1,4 @@
-import { Repository } from "typeorm";
+import { MoreThanOrEqual, Repository } from "typeorm";
 import { AppDataSource } from "../config/database";
 import { Notification } from "../entities/Notification";
 import { User } from "../entities/User";
@@ -34,10 +34,17 @@ export type NotificationType =
   | "borrow_request_pickup_ready"
   | "borrow_request_overdue"
   | "borrow_request_returned"
+  | "borrow_request_extension_requested"
+  | "borrow_request_extension_approved"
+  | "borrow_request_extension_declined"
   | "review_received"
   | "review_response"
   | "chat_message"
   | "resource_available"
+  | "saved_search_match"
+  | "deposit_update"
+  | "dispute_update"
+  | "condition_report"
   | "system_announcement"
   | "account_update"
   | "reminder";
@@ -457,7 +464,15 @@ export class NotificationService {
 
   async createBorrowRequestNotification(
     userId: number,
-    type: "created" | "approved" | "rejected" | "cancelled" | "overdue",
+    type:
+      | "created"
+      | "approved"
+      | "rejected"
+      | "cancelled"
+      | "overdue"
+      | "extension_requested"
+      | "extension_approved"
+      | "extension_declined",
     borrowRequestId: number,
     relatedUserId?: number,
     additionalData?: Record<string, any>
@@ -487,6 +502,21 @@ export class NotificationService {
         title: "Item Overdue",
         message: "You have an overdue item that needs to be returned",
         priority: "urgent" as NotificationPriority
+      },
+      extension_requested: {
+        title: "Extension Requested",
+        message: "A borrower has asked to keep your item longer",
+        priority: "normal" as NotificationPriority
+      },
+      extension_approved: {
+        title: "Extension Approved",
+        message: "Your borrow has been extended",
+        priority: "high" as NotificationPriority
+      },
+      extension_declined: {
+        title: "Extension Declined",
+        message: "Your extension request was declined; please return the item on time",
+        priority: "normal" as NotificationPriority
       }
     };
 
@@ -555,9 +585,7 @@ export class NotificationService {
         notification_type: "chat_message",
         related_chat_id: chatId,
         is_read: false,
-        created_at: {
-          $gte: new Date(Date.now() - 5 * 60 * 1000) // Last 5 minutes
-        } as any
+        created_at: MoreThanOrEqual(new Date(Date.now() - 5 * 60 * 1000)) // Last 5 minutes
       }
     });
 
@@ -590,4 +618,102 @@ export class NotificationService {
       metadata: { messageCount: 1 }
     });
   }
+
+  async createResourceAvailableNotification(
+    userId: number,
+    resourceId: number,
+    data: {
+      resource_name?: string;
+      hold_start_date: string;
+      hold_end_date: string;
+      hold_expires_at: Date;
+    }
+  ): Promise<Notification> {
+    return await this.createNotification({
+      user_id: userId,
+      title: "Item Available",
+      message: `${data.resource_name || "An item you're waiting for"} is free from ${data.hold_start_date} to ${data.hold_end_date}. ` +
+        `These dates are held for you until ${data.hold_expires_at.toLocaleString()}.`,
+      notification_type: "resource_available",
+      priority: "high",
+      related_resource_id: resourceId,
+      action_url: `/resources/${resourceId}`,
+      action_text: "Request Now",
+      metadata: data,
+      expires_at: data.hold_expires_at
+    });
+  }
+
+  async createFavouriteAvailableNotification(
+    userId: number,
+    resourceId: number,
+    resourceName: string
+  ): Promise<Notification> {
+    return await this.createNotification({
+      user_id: userId,
+      title: "Favourite Available",
+      message: `${resourceName}, one of your favourites, can be borrowed again.`,
+      notification_type: "resource_available",
+      priority: "normal",
+      related_resource_id: resourceId,
+      action_url: `/resources/${resourceId}`,
+      action_text: "Request Now",
+      metadata: { resource_name: resourceName, source: "favourite" }
+    });
+  }
+
+  async createSavedSearchMatchNotification(
+    userId: number,
+    resourceId: number,
+    data: {
+      saved_search_id: number;
+      search_name: string;
+      resource_name: string;
+      earlier_matches: number; // Matches held back by the alert throttle since the last alert
+    }
+  ): Promise<Notification> {
+    const earlier = data.earlier_matches > 0
+      ? ` ${data.earlier_matches} more ${data.earlier_matches === 1 ? "item" : "items"} matched since your last alert.`
+      : "";
+
+    return await this.createNotification({
+      user_id: userId,
+      title: `New match for "${data.search_name}"`,
+      message: `${data.resource_name} was just listed.${earlier}`,
+      notification_type: "saved_search_match",
+      priority: "normal",
+      related_resource_id: resourceId,
+      action_url: `/resources/${resourceId}`,
+      action_text: "View Item",
+      metadata: data
+    });
+  }
+
+  async createLocationVerificationNotification(
+    userId: number,
+    data: {
+      verification_id: number;
+      method: string;
+      status: "verified" | "failed" | "expired";
+      review_note?: string | null;
+    }
+  ): Promise<Notification> {
+    const messages = {
+      verified: "Your location is verified. You can now join the communities around you.",
+      failed: "Your location could not be verified. You can start a new verification from your profile.",
+      expired: "Your location verification expired before it was completed. You can start a new one from your profile."
+    };
+    const note = data.review_note ? ` Reviewer's note: ${data.review_note}` : "";
+
+    return await this.createNotification({
+      user_id: userId,
+      title: data.status === "verified" ? "Location Verified" : "Location Not Verified",
+      message: messages[data.status] + note,
+      notification_type: "account_update",
+      priority: "normal",
+      action_url: "/profile",
+      action_text: "View Profile",
+      metadata: data
+    });
+  }
 }
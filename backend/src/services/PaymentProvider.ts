@@ -0,0 +1,43 @@
+import { paymentConfig } from "../config/payments";
+import { FakePaymentProvider } from "./FakePaymentProvider";
+
+/**
+ * Moves deposit money. Amounts are in the deposit's currency units (e.g. 12.50).
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  /**
+   * Reserve a deposit from the borrower; returns the provider's reference for the hold
+   */
+  holdDeposit(amount: number, borrowRequestId: number, payerId: number): Promise<string>;
+
+  /**
+   * Pay part of a held deposit to the owner
+   */
+  captureDeposit(reference: string, amount: number): Promise<void>;
+
+  /**
+   * Give part of a held deposit back to the borrower
+   */
+  releaseDeposit(reference: string, amount: number): Promise<void>;
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * The configured payment provider, created on first use
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    switch (paymentConfig.provider) {
+      case "fake":
+        provider = new FakePaymentProvider();
+        break;
+      default:
+        throw new Error(`Unknown payment provider: ${paymentConfig.provider}`);
+    }
+  }
+
+  return provider;
+};
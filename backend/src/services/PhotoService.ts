@@ -1,4 +1,5 @@
 import { Repository } from "typeorm";
+import { appConfig } from "../config/app";
 import { AppDataSource } from "../config/database";
 import { ResourcePhoto } from "../entities/ResourcePhoto";
 import { Resource } from "../entities/Resource";
@@ -269,11 +270,13 @@ export class PhotoService {
     }
   }
 
-  private validatePhotoFile(file: Express.Multer.File): void {
-    // Check file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024;
-    if (file.size > maxSize) {
-      throw new ValidationError('Photo file size cannot exceed 10MB');
+  /**
+   * Check an uploaded photo's size, type and filename
+   */
+  validatePhotoFile(file: Express.Multer.File): void {
+    // Check file size
+    if (file.size > appConfig.uploads.maxFileSizeBytes) {
+      throw new ValidationError(`Photo file size cannot exceed ${appConfig.uploads.maxFileSizeMb}MB`);
     }
 
     // Check file type
@@ -0,0 +1,38 @@
+import { locationVerificationConfig } from "../config/verification";
+import { ConsolePostalMailProvider } from "./ConsolePostalMailProvider";
+
+export interface PostalRecipient {
+  name: string;
+  address: string;
+}
+
+/**
+ * Posts letters to a user's address
+ */
+export interface PostalMailProvider {
+  readonly name: string;
+
+  /**
+   * Mail a location verification code; the user types it in once the letter arrives
+   */
+  sendVerificationCode(recipient: PostalRecipient, code: string, expiresAt: Date): Promise<void>;
+}
+
+let provider: PostalMailProvider | null = null;
+
+/**
+ * The configured postal mail provider, created on first use
+ */
+export const getPostalMailProvider = (): PostalMailProvider => {
+  if (!provider) {
+    switch (locationVerificationConfig.postalCode.mailProvider) {
+      case "console":
+        provider = new ConsolePostalMailProvider();
+        break;
+      default:
+        throw new Error(`Unknown postal mail provider: ${locationVerificationConfig.postalCode.mailProvider}`);
+    }
+  }
+
+  return provider;
+};
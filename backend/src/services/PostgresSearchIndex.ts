@@ -0,0 +1,191 @@
+import { AppDataSource } from "../config/database";
+import { tokenize } from "../utils/searchText";
+import { SearchIndex, SearchIndexRow, SearchIndexScope, SUGGESTABLE_RESOURCE } from "./SearchIndex";
+
+const SNIPPET_WORDS = 12;
+
+// ts_rank weighs A, B, C and D labels 1.0, 0.4, 0.2 and 0.1
+const DOCUMENT = `
+  setweight(to_tsvector('simple', $2), 'A') ||
+  setweight(to_tsvector('simple', $3), 'B') ||
+  setweight(to_tsvector('simple', $4), 'C') ||
+  setweight(to_tsvector('simple', $5), 'D')`;
+
+const DISPLAY_TEXT = `concat_ws(' ', s.title, s.description, s.category, s.condition_notes, s.neighborhood)`;
+
+// Entries to delete and resources to index again; a deleted resource keeps its id in the index until removed
+const scopeConditions = (scope: SearchIndexScope): { remove: string; select: string; params: number[] } => {
+  if ("resourceId" in scope) {
+    return { remove: "resource_id = $1", select: "r.id = $1", params: [scope.resourceId] };
+  }
+  if ("ownerId" in scope) {
+    return {
+      remove: "resource_id IN (SELECT id FROM resources WHERE owner_id = $1)",
+      select: "r.owner_id = $1",
+      params: [scope.ownerId]
+    };
+  }
+  return { remove: "TRUE", select: "TRUE", params: [] };
+};
+
+interface IndexedResource {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  condition_notes: string | null;
+  neighborhood: string | null;
+}
+
+/**
+ * Search index in a Postgres table of tsvector documents, ranked by ts_rank.
+ * Documents hold the words as tokenize() sees them, so accents and case match the SQLite index
+ * without the unaccent extension; the original text is kept for snippets.
+ */
+export class PostgresSearchIndex implements SearchIndex {
+  readonly name = "postgres-tsvector";
+  private ready?: Promise<void>;
+
+  async reindex(scope: SearchIndexScope): Promise<void> {
+    await this.ensureIndex();
+
+    const { remove, select, params } = scopeConditions(scope);
+
+    await AppDataSource.transaction(async (manager) => {
+      await manager.query(`DELETE FROM resource_search WHERE ${remove}`, params);
+
+      const resources: IndexedResource[] = await manager.query(
+        `SELECT r.id, r.title, r.description, r.category, r.condition_notes, u.neighborhood
+         FROM resources r LEFT JOIN users u ON u.id = r.owner_id
+         WHERE ${select} AND r.status != 'inactive'`,
+        params
+      );
+
+      for (const resource of resources) {
+        const words = (text: string | null) => tokenize(text || "").join(" ");
+
+        await manager.query(
+          `INSERT INTO resource_search (resource_id, title, description, category, condition_notes, neighborhood, document)
+           VALUES ($1, $6, $7, $8, $9, $10, ${DOCUMENT})`,
+          [
+            resource.id,
+            words(resource.title),
+            words(resource.category),
+            `${words(resource.description)} ${words(resource.neighborhood)}`,
+            words(resource.condition_notes),
+            resource.title,
+            resource.description,
+            resource.category,
+            resource.condition_notes,
+            resource.neighborhood
+          ]
+        );
+      }
+    });
+  }
+
+  async remove(resourceId: number): Promise<void> {
+    await this.ensureIndex();
+    await AppDataSource.query(`DELETE FROM resource_search WHERE resource_id = $1`, [resourceId]);
+  }
+
+  /**
+   * tsquery text; tokenized words hold only letters and digits, so quoting them is enough
+   */
+  buildQuery(groups: string[][]): string {
+    return groups
+      .map(([word, ...similar]) => {
+        const alternatives = [`'${word}':*`, ...similar.map((term) => `'${term}'`)];
+        return alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(" | ")})`;
+      })
+      .join(" & ");
+  }
+
+  async search(query: string, limit: number, marks: { start: string; end: string }): Promise<SearchIndexRow[]> {
+    await this.ensureIndex();
+    const rows: SearchIndexRow[] = await AppDataSource.query(
+      `SELECT s.resource_id AS id, -ts_rank(s.document, q) AS rank,
+         ts_headline('simple', ${DISPLAY_TEXT}, q, $2) AS snippet
+       FROM resource_search s, to_tsquery('simple', $1) q
+       WHERE s.document @@ q
+       ORDER BY rank
+       LIMIT ${limit}`,
+      [query, `StartSel=${marks.start}, StopSel=${marks.end}, MaxWords=${SNIPPET_WORDS}, MinWords=4`]
+    );
+
+    return rows;
+  }
+
+  async matches(query: string, resourceId: number): Promise<boolean> {
+    await this.ensureIndex();
+    const rows = await AppDataSource.query(
+      `SELECT 1 FROM resource_search WHERE document @@ to_tsquery('simple', $1) AND resource_id = $2`,
+      [query, resourceId]
+    );
+
+    return rows.length > 0;
+  }
+
+  async suggestTitles(query: string, limit: number): Promise<string[]> {
+    await this.ensureIndex();
+    const rows: { title: string }[] = await AppDataSource.query(
+      `SELECT r.title AS title
+       FROM resource_search s JOIN resources r ON r.id = s.resource_id, to_tsquery('simple', $1) q
+       WHERE s.document @@ q AND ${SUGGESTABLE_RESOURCE}
+       ORDER BY ts_rank(s.document, q) DESC
+       LIMIT ${limit}`,
+      [query]
+    );
+
+    return rows.map((row) => row.title);
+  }
+
+  async hasWordStartingWith(prefix: string): Promise<boolean> {
+    await this.ensureIndex();
+    const [row] = await AppDataSource.query(
+      `SELECT 1 FROM ts_stat('SELECT document FROM resource_search') WHERE left(word, $1) = $2 LIMIT 1`,
+      [prefix.length, prefix]
+    );
+
+    return !!row;
+  }
+
+  async wordsStartingWith(letter: string, minLength: number, maxLength: number): Promise<string[]> {
+    await this.ensureIndex();
+    const rows: { word: string }[] = await AppDataSource.query(
+      `SELECT word FROM ts_stat('SELECT document FROM resource_search')
+       WHERE left(word, 1) = $1 AND length(word) BETWEEN $2 AND $3`,
+      [letter, minLength, maxLength]
+    );
+
+    return rows.map((row) => row.word);
+  }
+
+  /**
+   * Create the index table if missing; like the SQLite index it is derived data, rebuilt at startup
+   */
+  private ensureIndex(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await AppDataSource.query(`
+          CREATE TABLE IF NOT EXISTS resource_search (
+            resource_id integer PRIMARY KEY,
+            title text NOT NULL,
+            description text NOT NULL,
+            category text NOT NULL,
+            condition_notes text,
+            neighborhood text,
+            document tsvector NOT NULL
+          )`);
+        await AppDataSource.query(
+          `CREATE INDEX IF NOT EXISTS resource_search_document ON resource_search USING GIN (document)`
+        );
+      })().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+
+    return this.ready;
+  }
+}
@@ -0,0 +1,46 @@
+import { rateLimitConfig } from "../config/rateLimits";
+import { MemoryRateLimitStore } from "./MemoryRateLimitStore";
+
+// Hits counted for a key in its current window
+export interface RateLimitHits {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Counts hits per key in fixed windows; shared stores (e.g. Redis) let several API instances enforce one limit
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Count a hit, starting a new window of windowMs when the key has none
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHits>;
+
+  /**
+   * The key's hits in its current window, or null when it has none
+   */
+  get(key: string): Promise<RateLimitHits | null>;
+
+  reset(key: string): Promise<void>;
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The configured rate limit store, created on first use
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    switch (rateLimitConfig.store) {
+      case "memory":
+        store = new MemoryRateLimitStore();
+        break;
+      default:
+        throw new Error(`Unknown rate limit store: ${rateLimitConfig.store}`);
+    }
+  }
+
+  return store;
+};
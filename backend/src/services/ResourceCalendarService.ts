@@ -0,0 +1,433 @@
+import { EntityManager, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { Resource } from "../entities/Resource";
+import { ResourceBlackout } from "../entities/ResourceBlackout";
+import { BorrowRequest, BorrowRequestStatus } from "../entities/BorrowRequest";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+
+export type CalendarDayStatus = "available" | "booked" | "blackout" | "past" | "unlisted";
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  status: CalendarDayStatus;
+  handover_allowed: boolean; // Whether a borrow may start or end on this day (available_days)
+}
+
+export interface BookedRange {
+  start_date: string;
+  end_date: string;
+  status: BorrowRequestStatus;
+}
+
+export interface ResourceCalendar {
+  resource_id: number;
+  from: string;
+  to: string;
+  is_listed: boolean;
+  available_days: string[] | null;
+  max_borrow_days: number | null;
+  booked: BookedRange[];
+  blackouts: ResourceBlackout[];
+  days: CalendarDay[];
+}
+
+export interface BlackoutCreateData {
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}
+
+// Requests in these statuses hold the item for their dates
+export const BOOKED_STATUSES: BorrowRequestStatus[] = ["approved", "active", "overdue"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CALENDAR_DAYS = 90;
+const MAX_CALENDAR_DAYS = 366;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Booking changes still running per resource, so SQLite can take them one at a time
+const bookingQueues = new Map<number, Promise<unknown>>();
+
+/**
+ * Normalise a date or date string to a YYYY-MM-DD day
+ */
+export const toDateString = (value: Date | string, field: string = "date"): string => {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+
+  return date.toISOString().slice(0, 10);
+};
+
+export const addDays = (day: string, days: number): string =>
+  new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Same day of the month, clamped to the month's last day (Jan 31 + 1 month = Feb 28/29)
+ */
+export const addMonths = (day: string, months: number): string => {
+  const date = new Date(Date.parse(day));
+  const dayOfMonth = date.getUTCDate();
+
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(dayOfMonth, lastDay));
+
+  return date.toISOString().slice(0, 10);
+};
+
+export class ResourceCalendarService {
+  private resourceRepository: Repository<Resource>;
+  private blackoutRepository: Repository<ResourceBlackout>;
+  private borrowRequestRepository: Repository<BorrowRequest>;
+
+  constructor() {
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.blackoutRepository = AppDataSource.getRepository(ResourceBlackout);
+    this.borrowRequestRepository = AppDataSource.getRepository(BorrowRequest);
+  }
+
+  /**
+   * Day-by-day availability of a resource between two dates (inclusive).
+   * Defaults to the next 90 days. Blackout reasons are only included for the owner.
+   */
+  async getCalendar(
+    resourceId: number,
+    from?: string,
+    to?: string,
+    viewerId?: number
+  ): Promise<ResourceCalendar> {
+    const resource = await this.resourceRepository.findOne({ where: { id: resourceId } });
+
+    if (!resource || resource.status === "inactive") {
+      throw new NotFoundError("Resource");
+    }
+
+    const today = toDateString(new Date());
+    const start = from ? toDateString(from, "from") : today;
+    const end = to ? toDateString(to, "to") : addDays(start, DEFAULT_CALENDAR_DAYS - 1);
+
+    if (end < start) {
+      throw new ValidationError("to must not be before from");
+    }
+
+    if (daysBetween(start, end) >= MAX_CALENDAR_DAYS) {
+      throw new ValidationError(`Calendar range cannot exceed ${MAX_CALENDAR_DAYS} days`);
+    }
+
+    const [booked, blackouts] = await Promise.all([
+      this.getBookedRanges(resourceId, start, end),
+      this.getBlackouts(resourceId, start, end)
+    ]);
+
+    const days: CalendarDay[] = [];
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+      let status: CalendarDayStatus = "available";
+
+      if (day < today) {
+        status = "past";
+      } else if (!resource.is_available) {
+        status = "unlisted";
+      } else if (blackouts.some((b) => b.start_date <= day && b.end_date >= day)) {
+        status = "blackout";
+      } else if (booked.some((b) => b.start_date <= day && b.end_date >= day)) {
+        status = "booked";
+      }
+
+      days.push({ date: day, status, handover_allowed: this.isHandoverDay(resource, day) });
+    }
+
+    return {
+      resource_id: resource.id,
+      from: start,
+      to: end,
+      is_listed: resource.is_available,
+      available_days: resource.available_days?.length ? resource.available_days : null,
+      max_borrow_days: resource.max_borrow_days ?? null,
+      booked,
+      blackouts: resource.owner_id === viewerId
+        ? blackouts
+        : blackouts.map((blackout) => ({ ...blackout, reason: undefined })),
+      days
+    };
+  }
+
+  /**
+   * Check requested dates against the resource's borrowing terms:
+   * not in the past, max_borrow_days, and handover on one of the available_days
+   */
+  validateBorrowTerms(resource: Resource, startDate: Date | string, endDate: Date | string): void {
+    const start = toDateString(startDate, "start_date");
+    const end = toDateString(endDate, "end_date");
+
+    if (start < toDateString(new Date())) {
+      throw new ValidationError("Start date cannot be in the past");
+    }
+
+    if (end <= start) {
+      throw new ValidationError("End date must be after start date");
+    }
+
+    if (resource.max_borrow_days && daysBetween(start, end) > resource.max_borrow_days) {
+      throw new ValidationError(`This item can be borrowed for at most ${resource.max_borrow_days} days`);
+    }
+
+    if (!this.isHandoverDay(resource, start) || !this.isHandoverDay(resource, end)) {
+      throw new ValidationError(
+        `Pickup and return are only possible on: ${resource.available_days!.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Check a new end date for a borrow that is already under way
+   */
+  validateExtensionTerms(
+    resource: Resource,
+    startDate: Date | string,
+    currentEndDate: Date | string,
+    newEndDate: Date | string
+  ): void {
+    const start = toDateString(startDate, "start_date");
+    const currentEnd = toDateString(currentEndDate, "end_date");
+    const end = toDateString(newEndDate, "end_date");
+
+    if (end <= currentEnd) {
+      throw new ValidationError("The new end date must be after the current one");
+    }
+
+    if (end < toDateString(new Date())) {
+      throw new ValidationError("The new end date cannot be in the past");
+    }
+
+    if (resource.max_borrow_days && daysBetween(start, end) > resource.max_borrow_days) {
+      throw new ValidationError(`This item can be borrowed for at most ${resource.max_borrow_days} days`);
+    }
+
+    if (!this.isHandoverDay(resource, end)) {
+      throw new ValidationError(
+        `Return is only possible on: ${resource.available_days!.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Throw if any day in the range is booked, blacked out, or the listing is switched off.
+   * With a manager, checks inside its transaction with the resource locked.
+   */
+  async assertDatesFree(
+    resource: Resource,
+    startDate: Date | string,
+    endDate: Date | string,
+    excludeRequestId?: number,
+    manager?: EntityManager
+  ): Promise<void> {
+    const start = toDateString(startDate, "start_date");
+    const end = toDateString(endDate, "end_date");
+
+    if (manager) {
+      resource = await this.lockResource(manager, resource.id);
+    }
+
+    if (!resource.is_available || resource.status === "inactive") {
+      throw new ConflictError("Resource is not available for borrowing");
+    }
+
+    const booked = await this.getBookedRanges(resource.id, start, end, excludeRequestId, manager);
+    if (booked.length > 0) {
+      throw new ConflictError("Resource is already booked for the selected dates");
+    }
+
+    const blackouts = await this.getBlackouts(resource.id, start, end, manager);
+    if (blackouts.length > 0) {
+      throw new ConflictError("The owner has blocked some of the selected dates");
+    }
+  }
+
+  /**
+   * Run a booking change after the ones already running for the same resource.
+   * Only needed on SQLite, which has no row locks and shares one connection between
+   * transactions; on Postgres the lock taken in assertDatesFree also covers other servers.
+   */
+  async serializeBooking<T>(resourceId: number, work: () => Promise<T>): Promise<T> {
+    if (AppDataSource.options.type !== "sqlite") {
+      return work();
+    }
+
+    const current = (bookingQueues.get(resourceId) ?? Promise.resolve()).catch(() => undefined).then(work);
+    bookingQueues.set(resourceId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (bookingQueues.get(resourceId) === current) {
+        bookingQueues.delete(resourceId);
+      }
+    }
+  }
+
+  /**
+   * Block a date range on the owner's resource
+   */
+  async addBlackout(resourceId: number, userId: number, data: BlackoutCreateData): Promise<ResourceBlackout> {
+    const resource = await this.findOwnedResource(resourceId, userId);
+
+    if (!data.start_date || !data.end_date) {
+      throw new ValidationError("start_date and end_date are required");
+    }
+
+    const start = toDateString(data.start_date, "start_date");
+    const end = toDateString(data.end_date, "end_date");
+
+    if (end < start) {
+      throw new ValidationError("end_date must not be before start_date");
+    }
+
+    if (end < toDateString(new Date())) {
+      throw new ValidationError("Blackout cannot be entirely in the past");
+    }
+
+    if (data.reason && data.reason.length > 255) {
+      throw new ValidationError("reason must be at most 255 characters");
+    }
+
+    const booked = await this.getBookedRanges(resource.id, start, end);
+    if (booked.length > 0) {
+      throw new ConflictError("Blackout overlaps an approved booking");
+    }
+
+    return this.blackoutRepository.save(
+      this.blackoutRepository.create({
+        resource_id: resource.id,
+        start_date: start,
+        end_date: end,
+        reason: data.reason
+      })
+    );
+  }
+
+  /**
+   * Remove a blackout from the owner's resource
+   */
+  async removeBlackout(resourceId: number, blackoutId: number, userId: number): Promise<void> {
+    await this.findOwnedResource(resourceId, userId);
+
+    const blackout = await this.blackoutRepository.findOne({
+      where: { id: blackoutId, resource_id: resourceId }
+    });
+
+    if (!blackout) {
+      throw new NotFoundError("Blackout");
+    }
+
+    await this.blackoutRepository.remove(blackout);
+  }
+
+  /**
+   * Approved, active and overdue requests overlapping the range.
+   * An overdue item stays booked until today, whatever its end date.
+   */
+  private async getBookedRanges(
+    resourceId: number,
+    from: string,
+    to: string,
+    excludeRequestId?: number,
+    manager?: EntityManager
+  ): Promise<BookedRange[]> {
+    const today = toDateString(new Date());
+    const query = (manager?.getRepository(BorrowRequest) ?? this.borrowRequestRepository)
+      .createQueryBuilder("request")
+      .select(["request.id", "request.start_date", "request.end_date", "request.status"])
+      .where("request.resource_id = :resourceId", { resourceId })
+      .andWhere("request.status IN (:...statuses)", { statuses: BOOKED_STATUSES })
+      .andWhere("request.start_date <= :to", { to })
+      .andWhere("(request.end_date >= :from OR request.status = :overdue)", { from, overdue: "overdue" })
+      .orderBy("request.start_date", "ASC");
+
+    if (excludeRequestId) {
+      query.andWhere("request.id != :excludeRequestId", { excludeRequestId });
+    }
+
+    const requests = await query.getMany();
+
+    return requests
+      .map((request) => {
+        const endDate = toDateString(request.end_date);
+        return {
+          start_date: toDateString(request.start_date),
+          end_date: request.status === "overdue" && endDate < today ? today : endDate,
+          status: request.status
+        };
+      })
+      .filter((range) => range.end_date >= from);
+  }
+
+  private async getBlackouts(
+    resourceId: number,
+    from: string,
+    to: string,
+    manager?: EntityManager
+  ): Promise<ResourceBlackout[]> {
+    return (manager?.getRepository(ResourceBlackout) ?? this.blackoutRepository)
+      .createQueryBuilder("blackout")
+      .where("blackout.resource_id = :resourceId", { resourceId })
+      .andWhere("blackout.start_date <= :to", { to })
+      .andWhere("blackout.end_date >= :from", { from })
+      .orderBy("blackout.start_date", "ASC")
+      .getMany();
+  }
+
+  /**
+   * Reload the resource in the transaction, locking its row until the transaction ends
+   * so bookings of the same resource are checked one after another
+   */
+  private async lockResource(manager: EntityManager, resourceId: number): Promise<Resource> {
+    // SQLite has no row locks; serializeBooking orders the bookings there instead
+    const lock = manager.connection.options.type === "postgres" ? { mode: "pessimistic_write" as const } : undefined;
+    const resource = await manager.getRepository(Resource).findOne({ where: { id: resourceId }, lock });
+
+    if (!resource) {
+      throw new NotFoundError("Resource");
+    }
+
+    return resource;
+  }
+
+  private async findOwnedResource(resourceId: number, userId: number): Promise<Resource> {
+    const resource = await this.resourceRepository.findOne({ where: { id: resourceId } });
+
+    if (!resource) {
+      throw new NotFoundError("Resource");
+    }
+
+    if (resource.owner_id !== userId) {
+      throw new UnauthorizedError("You can only manage availability of your own resources");
+    }
+
+    return resource;
+  }
+
+  /**
+   * available_days holds day names ("Monday", "mon", ...); no list means any day
+   */
+  private isHandoverDay(resource: Resource, day: string): boolean {
+    if (!resource.available_days?.length) return true;
+
+    const weekday = WEEKDAYS[new Date(day).getUTCDay()];
+    return resource.available_days.some((name) => name.trim().toLowerCase().slice(0, 3) === weekday);
+  }
+}
@@ -0,0 +1,183 @@
+import { RESOURCE_CATEGORIES } from "../types/resource";
+import { tokenize } from "../utils/searchText";
+import { getSearchIndex } from "./SearchIndex";
+
+export interface SearchHit {
+  rank: number; // Index score, lower is more relevant
+  snippet: string; // HTML-escaped text with matches wrapped in <mark>
+}
+
+// Most relevant matches considered for one search
+const MAX_SEARCH_HITS = 500;
+const MAX_QUERY_TERMS = 8;
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+// Control characters that cannot occur in listings; swapped for <mark> after escaping
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Full-text search over resources, in the database engine's own index (see SearchIndex).
+ * Holds every resource that is not inactive; availability is checked when searching.
+ */
+export class ResourceSearchService {
+  /**
+   * Create the index if missing and fill it from the resources table
+   */
+  async rebuild(): Promise<void> {
+    await getSearchIndex().reindex({ all: true });
+  }
+
+  /**
+   * Add, refresh or drop (once inactive) one resource's entry
+   */
+  async indexResource(resourceId: number): Promise<void> {
+    await getSearchIndex().reindex({ resourceId });
+  }
+
+  /**
+   * Refresh every resource of an owner, e.g. after their neighborhood changed
+   */
+  async indexOwnerResources(ownerId: number): Promise<void> {
+    await getSearchIndex().reindex({ ownerId });
+  }
+
+  async removeResource(resourceId: number): Promise<void> {
+    await getSearchIndex().remove(resourceId);
+  }
+
+  /**
+   * Matching resource ids, most relevant first, with a highlighted snippet each.
+   * Every word matches as a prefix; words that match nothing also accept close spellings.
+   * Visibility is not checked here, callers filter the ids.
+   */
+  async search(text: string): Promise<Map<number, SearchHit>> {
+    const hits = new Map<number, SearchHit>();
+    const query = await this.buildQuery(text);
+    if (!query) return hits;
+
+    const rows = await getSearchIndex().search(query, MAX_SEARCH_HITS, { start: MATCH_START, end: MATCH_END });
+
+    for (const row of rows) {
+      hits.set(Number(row.id), {
+        rank: Number(row.rank),
+        snippet: escapeHtml(row.snippet || "")
+          .split(MATCH_START).join("<mark>")
+          .split(MATCH_END).join("</mark>")
+      });
+    }
+
+    return hits;
+  }
+
+  /**
+   * Whether one indexed resource matches free text, with the same rules as search()
+   */
+  async matches(resourceId: number, text: string): Promise<boolean> {
+    const query = await this.buildQuery(text);
+    if (!query) return false;
+
+    return getSearchIndex().matches(query, resourceId);
+  }
+
+  /**
+   * Search-as-you-type suggestions from public listings: titles, categories and
+   * completions of the word being typed
+   */
+  async suggest(text: string, limit: number = 8): Promise<string[]> {
+    const terms = tokenize(text).slice(0, MAX_QUERY_TERMS);
+    const query = await this.buildQuery(text);
+    if (!query || terms.length === 0) return [];
+
+    const titles = await getSearchIndex().suggestTitles(query, 50);
+
+    const suggestions = new Set<string>();
+    const lastTerm = terms[terms.length - 1];
+    const typed = terms.slice(0, -1).join(" ");
+
+    for (const category of RESOURCE_CATEGORIES) {
+      if (tokenize(category).some((word) => word.startsWith(lastTerm))) {
+        suggestions.add(category);
+      }
+    }
+
+    for (const title of titles) {
+      suggestions.add(title);
+    }
+
+    // "cordless dr" -> "cordless drill"
+    for (const title of titles) {
+      for (const word of tokenize(title)) {
+        if (word.length > lastTerm.length && word.startsWith(lastTerm)) {
+          suggestions.add(typed ? `${typed} ${word}` : word);
+        }
+      }
+    }
+
+    return Array.from(suggestions).slice(0, limit);
+  }
+
+  /**
+   * Index query for free text: each word with its close spellings
+   */
+  private async buildQuery(text: string): Promise<string | null> {
+    const terms = Array.from(new Set(tokenize(text))).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) return null;
+
+    const groups = await Promise.all(terms.map(async (term) => [term, ...(await this.similarTerms(term))]));
+
+    return getSearchIndex().buildQuery(groups);
+  }
+
+  /**
+   * Indexed words one typo away (two for long words) from a word that matches nothing.
+   * Only words sharing the first letter are considered.
+   */
+  private async similarTerms(term: string): Promise<string[]> {
+    if (term.length < MIN_FUZZY_TERM_LENGTH) return [];
+
+    const index = getSearchIndex();
+    const maxDistance = term.length >= 8 ? 2 : 1;
+
+    if (await index.hasWordStartingWith(term)) return [];
+
+    const candidates = await index.wordsStartingWith(term[0], term.length - maxDistance, term.length + maxDistance);
+
+    return candidates
+      .filter((candidate) => editDistance(term, candidate, maxDistance) <= maxDistance)
+      .slice(0, 5);
+  }
+}
@@ -10,6 +10,7 @@ import {
   ResourceWithOwner,
   ResourceWithFullOwner,
   PaginatedResourceResponse,
+  LocationCoordinates,
   RESOURCE_CATEGORIES,
   RESOURCE_CONDITIONS,
   RESOURCE_STATUSES,
@@ -27,16 +28,29 @@ import {
   validateArray,
   validatePagination
 } from "../utils/errors";
+import { boundingBox, calculateDistance } from "../utils/geo";
+import { ResourceSearchService, SearchHit } from "./ResourceSearchService";
+import { SavedSearchService } from "./SavedSearchService";
+import { FavouriteService } from "./FavouriteService";
+import { CommunityService } from "./CommunityService";
 
 export class ResourceService {
   private resourceRepository: Repository<Resource>;
   private photoRepository: Repository<ResourcePhoto>;
   private userRepository: Repository<User>;
+  private searchIndex: ResourceSearchService;
+  private savedSearchService: SavedSearchService;
+  private favouriteService: FavouriteService;
+  private communityService: CommunityService;
 
   constructor() {
     this.resourceRepository = AppDataSource.getRepository(Resource);
     this.photoRepository = AppDataSource.getRepository(ResourcePhoto);
     this.userRepository = AppDataSource.getRepository(User);
+    this.searchIndex = new ResourceSearchService();
+    this.savedSearchService = new SavedSearchService();
+    this.favouriteService = new FavouriteService();
+    this.communityService = new CommunityService();
   }
 
   /**
@@ -55,23 +69,32 @@ export class ResourceService {
       throw new NotFoundError('User');
     }
 
+    const { visibility = 'public', community_ids, ...fields } = data;
+    const communityIds = await this.communityService.resolveSharing(userId, visibility, community_ids);
+
     // Create resource
     const resource = this.resourceRepository.create({
-      ...data,
+      ...fields,
+      visibility,
       owner_id: userId,
       is_available: true,
       status: 'active',
       views_count: 0,
       borrow_count: 0,
+      favourite_count: 0,
       average_rating: 0,
       total_ratings: 0
     });
 
     const savedResource = await this.resourceRepository.save(resource);
+    await this.communityService.setResourceCommunities(savedResource.id, communityIds);
+    await this.searchIndex.indexResource(savedResource.id);
 
     // Increment user's items shared count
     await this.userRepository.increment({ id: userId }, 'items_shared', 1);
 
+    await this.alertSavedSearches(savedResource.id);
+
     // Return with owner data
     return this.getResourceWithFullOwner(savedResource.id, userId);
   }
@@ -99,17 +122,60 @@ export class ResourceService {
     // Apply filters
     query = this.applyFilters(query, filters);
 
-    // Apply location-based filtering and sorting
-    if (filters.latitude && filters.longitude) {
-      query = this.applyLocationFilter(query, filters.latitude, filters.longitude, filters.radius);
+    // Only listings the viewer may see, optionally within their communities
+    query = this.communityService.applyVisibility(query, currentUserId);
+
+    if (filters.community_id !== undefined) {
+      query = this.communityService.applyScope(query, [filters.community_id]);
+    }
+
+    if (filters.my_communities) {
+      if (!currentUserId) {
+        throw new ValidationError('Sign in to browse your communities');
+      }
+      query = this.communityService.applyScope(
+        query,
+        await this.communityService.getUserCommunityIds(currentUserId)
+      );
+    }
+
+    // Full-text matches from the search index; ranking and snippets are applied below
+    const searchHits: Map<number, SearchHit> | undefined = filters.search
+      ? await this.searchIndex.search(filters.search)
+      : undefined;
+
+    if (searchHits && searchHits.size > 0) {
+      query.andWhere('resource.id IN (:...searchIds)', { searchIds: Array.from(searchHits.keys()) });
+    }
+
+    // Apply the location prefilter; exact distances are worked out below
+    const location: LocationCoordinates | undefined =
+      filters.latitude !== undefined && filters.longitude !== undefined
+        ? { latitude: filters.latitude, longitude: filters.longitude }
+        : undefined;
+    const radius = filters.radius || 10;
+
+    if (location) {
+      query = this.applyLocationFilter(query, location, radius);
+    }
+
+    // Apply sorting (best matches first when searching text, nearest first around a location)
+    const sortBy = filters.sort_by || (searchHits ? 'relevance' : location ? 'distance' : 'created_at');
+    const sortOrder = filters.sort_order || (sortBy === 'distance' ? 'ASC' : 'DESC');
+
+    if (sortBy === 'distance' && !location) {
+      throw new ValidationError('Sorting by distance requires latitude and longitude');
+    }
+
+    if (sortBy === 'relevance' && !searchHits) {
+      throw new ValidationError('Sorting by relevance requires a search query');
     }
 
-    // Apply sorting
-    const sortBy = filters.sort_by || 'created_at';
-    const sortOrder = filters.sort_order || 'DESC';
-    
     if (sortBy === 'created_at') {
       query.orderBy('resource.created_at', sortOrder);
+    } else if (sortBy === 'distance' || sortBy === 'relevance') {
+      // Distances and ranks are only known after refinement; this order breaks ties
+      query.orderBy('resource.created_at', 'DESC');
     } else if (sortBy === 'title') {
       query.orderBy('resource.title', sortOrder);
     } else if (sortBy === 'estimated_value') {
@@ -121,26 +187,51 @@ export class ResourceService {
     }
 
     // Add secondary sort by creation date
-    if (sortBy !== 'created_at') {
+    if (sortBy !== 'created_at' && sortBy !== 'distance' && sortBy !== 'relevance') {
       query.addOrderBy('resource.created_at', 'DESC');
     }
 
-    // Get total count
-    const total = await query.getCount();
-
-    // Apply pagination
-    query.skip(skip).take(limit);
-
-    // Execute query
-    const resources = await query.getMany();
+    let resources: Resource[];
+    let total: number;
+
+    if (searchHits && searchHits.size === 0) {
+      resources = [];
+      total = 0;
+    } else if (location || searchHits) {
+      ({ resources, total } = await this.paginateRefined(
+        query,
+        {
+          center: location,
+          radius,
+          searchHits,
+          orderBy: sortBy === 'distance' || sortBy === 'relevance' ? sortBy : undefined,
+          sortOrder
+        },
+        skip,
+        limit
+      ));
+    } else {
+      // Get total count
+      total = await query.getCount();
+
+      // Apply pagination
+      query.skip(skip).take(limit);
+
+      // Execute query
+      resources = await query.getMany();
+    }
 
     // Transform to ResourceWithOwner format
     const transformedResources: ResourceWithOwner[] = await Promise.all(
       resources.map(async (resource) => {
         const transformed = await this.transformToResourceWithOwner(resource, currentUserId, filters.latitude, filters.longitude);
+        if (searchHits) {
+          transformed.search_snippet = searchHits.get(resource.id)?.snippet;
+        }
         return transformed;
       })
     );
+    await this.markFavourites(transformedResources, currentUserId);
 
     // Calculate pagination metadata
     const totalPages = Math.ceil(total / limit);
@@ -158,11 +249,10 @@ export class ResourceService {
       filters: {
         category: filters.category,
         search: filters.search,
-        ...(filters.latitude && filters.longitude && {
+        ...(location && {
           location: {
-            latitude: filters.latitude,
-            longitude: filters.longitude,
-            radius: filters.radius || 10
+            ...location,
+            radius
           }
         })
       },
@@ -182,7 +272,7 @@ export class ResourceService {
       .andWhere('owner.is_active = :userActive', { userActive: true })
       .getOne();
 
-    if (!resource) {
+    if (!resource || !(await this.communityService.canView(resource, currentUserId))) {
       throw new NotFoundError('Resource');
     }
 
@@ -192,7 +282,12 @@ export class ResourceService {
       resource.views_count += 1;
     }
 
-    return this.transformToResourceWithFullOwner(resource, currentUserId);
+    const [transformed] = await this.markFavourites(
+      [await this.transformToResourceWithFullOwner(resource, currentUserId)],
+      currentUserId
+    );
+
+    return transformed;
   }
 
   /**
@@ -219,10 +314,35 @@ export class ResourceService {
       this.validateResourceUpdateData(updates);
     }
 
+    const wasListed = resource.is_available && resource.status === 'active';
+    const { visibility, community_ids, ...fields } = updates;
+
+    // Sharing changes: a new visibility, or other communities for a restricted listing
+    let communityIds: number[] | undefined;
+    if (visibility !== undefined || community_ids !== undefined) {
+      const nextVisibility = visibility ?? resource.visibility;
+      communityIds = await this.communityService.resolveSharing(
+        userId,
+        nextVisibility,
+        community_ids ?? await this.communityService.getResourceCommunityIds(id)
+      );
+      resource.visibility = nextVisibility;
+    }
+
     // Apply updates
-    Object.assign(resource, updates);
+    Object.assign(resource, fields);
     
     const updatedResource = await this.resourceRepository.save(resource);
+    if (communityIds) {
+      await this.communityService.setResourceCommunities(updatedResource.id, communityIds);
+    }
+    await this.searchIndex.indexResource(updatedResource.id);
+
+    // Coming back on the market counts as a new listing for saved searches
+    if (!wasListed && updatedResource.is_available && updatedResource.status === 'active') {
+      await this.alertSavedSearches(updatedResource.id);
+      await this.alertFavourites(updatedResource.id);
+    }
 
     return this.getResourceWithFullOwner(updatedResource.id, userId);
   }
@@ -254,6 +374,7 @@ export class ResourceService {
       status: 'inactive',
       is_available: false 
     });
+    await this.searchIndex.removeResource(id);
 
     // Decrement user's items shared count
     await this.userRepository.decrement({ id: userId }, 'items_shared', 1);
@@ -262,18 +383,30 @@ export class ResourceService {
   /**
    * Get user's resources
    */
-  async getUserResources(userId: number, page: number = 1, limit: number = 10): Promise<PaginatedResourceResponse> {
+  async getUserResources(
+    userId: number,
+    page: number = 1,
+    limit: number = 10,
+    viewerId?: number
+  ): Promise<PaginatedResourceResponse> {
     validatePagination(page, limit);
 
     limit = Math.min(limit, 50);
     const skip = (page - 1) * limit;
 
-    const [resources, total] = await this.resourceRepository
+    const query = this.resourceRepository
       .createQueryBuilder('resource')
       .leftJoinAndSelect('resource.photos', 'photos')
       .leftJoinAndSelect('resource.owner', 'owner')
       .where('resource.owner_id = :userId', { userId })
-      .andWhere('resource.status != :status', { status: 'inactive' })
+      .andWhere('resource.status != :status', { status: 'inactive' });
+
+    // Visitors only see what is shown to them; owners see all their listings
+    if (viewerId !== userId) {
+      this.communityService.applyVisibility(query, viewerId);
+    }
+
+    const [resources, total] = await query
       .orderBy('resource.created_at', 'DESC')
       .skip(skip)
       .take(limit)
@@ -282,6 +415,7 @@ export class ResourceService {
     const transformedResources: ResourceWithOwner[] = await Promise.all(
       resources.map(resource => this.transformToResourceWithOwner(resource, userId))
     );
+    await this.markFavourites(transformedResources, viewerId);
 
     const totalPages = Math.ceil(total / limit);
 
@@ -299,10 +433,77 @@ export class ResourceService {
     };
   }
 
+  /**
+   * Get the resources a user has favourited, most recently favourited first
+   */
+  async getUserFavourites(userId: number, page: number = 1, limit: number = 10): Promise<PaginatedResourceResponse> {
+    validatePagination(page, limit);
+
+    limit = Math.min(limit, 50);
+    const skip = (page - 1) * limit;
+
+    const { resourceIds, total } = await this.favouriteService.getUserFavouriteIds(userId, skip, limit);
+
+    const rows = resourceIds.length > 0
+      ? await this.resourceRepository
+        .createQueryBuilder('resource')
+        .leftJoinAndSelect('resource.owner', 'owner')
+        .leftJoinAndSelect('resource.photos', 'photos')
+        .whereInIds(resourceIds)
+        .getMany()
+      : [];
+
+    const byId = new Map(rows.map((resource) => [resource.id, resource]));
+    const resources = resourceIds
+      .map((id) => byId.get(id))
+      .filter((resource): resource is Resource => !!resource);
+
+    const transformedResources: ResourceWithOwner[] = await Promise.all(
+      resources.map(async (resource) => ({
+        ...(await this.transformToResourceWithOwner(resource, userId)),
+        is_favourited: true
+      }))
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: transformedResources,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      },
+      success: true
+    };
+  }
+
+  /**
+   * Add a resource to the user's favourites
+   */
+  async addFavourite(resourceId: number, userId: number): Promise<{ notify_when_available: boolean }> {
+    const favourite = await this.favouriteService.add(userId, resourceId);
+    return { notify_when_available: favourite.notify_when_available };
+  }
+
+  /**
+   * Remove a resource from the user's favourites
+   */
+  async removeFavourite(resourceId: number, userId: number): Promise<void> {
+    await this.favouriteService.remove(userId, resourceId);
+  }
+
   /**
    * Search resources with text search
    */
-  async searchResources(query: string, filters: ResourceQueryFilters = {}): Promise<PaginatedResourceResponse> {
+  async searchResources(
+    query: string,
+    filters: ResourceQueryFilters = {},
+    currentUserId?: number
+  ): Promise<PaginatedResourceResponse> {
     if (!query || query.trim().length < 2) {
       throw new ValidationError('Search query must be at least 2 characters long');
     }
@@ -312,19 +513,34 @@ export class ResourceService {
       search: query.trim()
     };
 
-    return this.getResources(searchFilters);
+    return this.getResources(searchFilters, currentUserId);
+  }
+
+  /**
+   * Search-as-you-type suggestions for a partial query
+   */
+  async getSearchSuggestions(query: string, limit: number = 8): Promise<string[]> {
+    if (!query || query.trim().length < 2) {
+      return [];
+    }
+
+    validateNumber(limit, 'limit', 1, 20);
+
+    return this.searchIndex.suggest(query.trim(), limit);
   }
 
   /**
-   * Get resource categories with counts
+   * Get resource categories with counts, counting only listings the viewer may see
    */
-  async getResourceCategories(): Promise<{ category: string; count: number }[]> {
-    const categories = await this.resourceRepository
+  async getResourceCategories(viewerId?: number): Promise<{ category: string; count: number }[]> {
+    const query = this.resourceRepository
       .createQueryBuilder('resource')
       .select('resource.category', 'category')
       .addSelect('COUNT(*)', 'count')
       .where('resource.is_available = :isAvailable', { isAvailable: true })
-      .andWhere('resource.status = :status', { status: 'active' })
+      .andWhere('resource.status = :status', { status: 'active' });
+
+    const categories = await this.communityService.applyVisibility(query, viewerId)
       .groupBy('resource.category')
       .orderBy('count', 'DESC')
       .getRawMany();
@@ -336,6 +552,45 @@ export class ResourceService {
   }
 
   // Private helper methods
+  private async alertFavourites(resourceId: number): Promise<void> {
+    try {
+      await this.favouriteService.notifyAvailable(resourceId);
+    } catch (error) {
+      console.error('Failed to notify favourites:', error);
+    }
+  }
+
+  /**
+   * Set is_favourited for the viewer; left out for anonymous requests
+   */
+  private async markFavourites<T extends { id: number; is_favourited?: boolean }>(
+    resources: T[],
+    currentUserId?: number
+  ): Promise<T[]> {
+    if (!currentUserId) {
+      return resources;
+    }
+
+    const favourited = await this.favouriteService.getFavouritedIds(
+      currentUserId,
+      resources.map((resource) => resource.id)
+    );
+
+    for (const resource of resources) {
+      resource.is_favourited = favourited.has(resource.id);
+    }
+
+    return resources;
+  }
+
+  private async alertSavedSearches(resourceId: number): Promise<void> {
+    try {
+      await this.savedSearchService.notifyMatches(resourceId);
+    } catch (error) {
+      console.error('Failed to send saved search alerts:', error);
+    }
+  }
+
   private validateResourceData(data: CreateResourceRequest): void {
     validateRequired(data.title, 'title');
     validateRequired(data.description, 'description');
@@ -406,12 +661,9 @@ export class ResourceService {
       query.andWhere('resource.category = :category', { category: filters.category });
     }
 
-    // Search filter (title and description)
-    if (filters.search) {
-      query.andWhere(
-        '(LOWER(resource.title) LIKE LOWER(:search) OR LOWER(resource.description) LIKE LOWER(:search))',
-        { search: `%${filters.search}%` }
-      );
+    // Owner filter
+    if (filters.owner_id) {
+      query.andWhere('resource.owner_id = :ownerId', { ownerId: filters.owner_id });
     }
 
     // Condition filter
@@ -443,6 +695,12 @@ export class ResourceService {
       }
     }
 
+    // Deposit ceiling filter
+    if (filters.max_deposit !== undefined) {
+      query.andWhere('(resource.deposit_required IS NULL OR resource.deposit_required <= :maxDeposit)',
+        { maxDeposit: filters.max_deposit });
+    }
+
     // Pickup filter
     if (filters.pickup_required !== undefined) {
       query.andWhere('resource.pickup_required = :pickupRequired', { pickupRequired: filters.pickup_required });
@@ -451,30 +709,116 @@ export class ResourceService {
     return query;
   }
 
+  /**
+   * Bounding-box prefilter on the owner's indexed coordinates; works on any SQL dialect
+   */
   private applyLocationFilter(
     query: SelectQueryBuilder<Resource>,
-    userLat: number,
-    userLng: number,
-    radius: number = 10
+    center: LocationCoordinates,
+    radius: number
   ): SelectQueryBuilder<Resource> {
-    // Add distance calculation using Haversine formula
+    const box = boundingBox(center, radius);
+
     query
-      .addSelect(`(
-        6371 * acos(
-          cos(radians(:userLat)) * cos(radians(owner.latitude)) *
-          cos(radians(owner.longitude) - radians(:userLng)) +
-          sin(radians(:userLat)) * sin(radians(owner.latitude))
-        )
-      )`, 'distance')
       .andWhere('owner.latitude IS NOT NULL')
       .andWhere('owner.longitude IS NOT NULL')
-      .having('distance <= :radius')
-      .setParameters({ userLat, userLng, radius })
-      .orderBy('distance', 'ASC');
+      .andWhere('owner.latitude BETWEEN :minLat AND :maxLat', {
+        minLat: box.minLatitude,
+        maxLat: box.maxLatitude
+      });
+
+    if (box.minLongitude <= box.maxLongitude) {
+      query.andWhere('owner.longitude BETWEEN :minLng AND :maxLng', {
+        minLng: box.minLongitude,
+        maxLng: box.maxLongitude
+      });
+    } else {
+      // The box crosses the 180th meridian
+      query.andWhere('(owner.longitude >= :minLng OR owner.longitude <= :maxLng)', {
+        minLng: box.minLongitude,
+        maxLng: box.maxLongitude
+      });
+    }
 
     return query;
   }
 
+  /**
+   * Keep the prefiltered resources that are really within the radius, order them by
+   * distance or search rank if asked, then paginate them.
+   * Only ids and coordinates are read for all candidates; full rows are loaded for the requested page.
+   */
+  private async paginateRefined(
+    query: SelectQueryBuilder<Resource>,
+    options: {
+      center?: LocationCoordinates;
+      radius: number;
+      searchHits?: Map<number, SearchHit>;
+      orderBy?: 'distance' | 'relevance';
+      sortOrder: 'ASC' | 'DESC';
+    },
+    skip: number,
+    limit: number
+  ): Promise<{ resources: Resource[]; total: number }> {
+    const { center, radius, searchHits, orderBy, sortOrder } = options;
+    const candidates = await query
+      .clone()
+      .select(['resource.id', 'owner.latitude', 'owner.longitude'])
+      .getRawMany();
+
+    // Joined photos repeat a resource's row; the first one keeps the query's order
+    const seen = new Set<number>();
+    const matches: { id: number; distance: number; rank: number }[] = [];
+
+    for (const row of candidates) {
+      const id = Number(row.resource_id);
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const distance = center
+        ? calculateDistance(
+          center.latitude,
+          center.longitude,
+          Number(row.owner_latitude),
+          Number(row.owner_longitude)
+        )
+        : 0;
+
+      if (!center || distance <= radius) {
+        matches.push({ id, distance, rank: searchHits?.get(id)?.rank ?? 0 });
+      }
+    }
+
+    // Stable sort: ties keep the query's order. A lower search rank is a better match,
+    // so the default DESC relevance order sorts ranks ascending.
+    if (orderBy === 'distance') {
+      const direction = sortOrder === 'ASC' ? 1 : -1;
+      matches.sort((a, b) => (a.distance - b.distance) * direction);
+    } else if (orderBy === 'relevance') {
+      const direction = sortOrder === 'DESC' ? 1 : -1;
+      matches.sort((a, b) => (a.rank - b.rank) * direction);
+    }
+
+    const pageIds = matches.slice(skip, skip + limit).map((match) => match.id);
+    if (pageIds.length === 0) {
+      return { resources: [], total: matches.length };
+    }
+
+    const rows = await this.resourceRepository
+      .createQueryBuilder('resource')
+      .leftJoinAndSelect('resource.owner', 'owner')
+      .leftJoinAndSelect('resource.photos', 'photos')
+      .whereInIds(pageIds)
+      .getMany();
+
+    const byId = new Map(rows.map((resource) => [resource.id, resource]));
+
+    return {
+      resources: pageIds.map((id) => byId.get(id)).filter((resource): resource is Resource => !!resource),
+      total: matches.length
+    };
+  }
+
   private async transformToResourceWithOwner(
     resource: Resource,
     currentUserId?: number,
@@ -495,8 +839,11 @@ export class ResourceService {
     };
 
     // Calculate distance if user location provided
-    if (userLat && userLng && resource.owner!.latitude && resource.owner!.longitude) {
-      transformed.distance = this.calculateDistance(
+    if (
+      userLat !== undefined && userLng !== undefined &&
+      resource.owner!.latitude != null && resource.owner!.longitude != null
+    ) {
+      transformed.distance = calculateDistance(
         userLat,
         userLng,
         resource.owner!.latitude,
@@ -507,17 +854,21 @@ export class ResourceService {
     return transformed;
   }
 
-  private transformToResourceWithFullOwner(
+  private async transformToResourceWithFullOwner(
     resource: Resource,
     currentUserId?: number
-  ): ResourceWithFullOwner {
-    const { password, refresh_token, email, ...ownerData } = resource.owner!;
+  ): Promise<ResourceWithFullOwner> {
+    const { password, email, ...ownerData } = resource.owner!;
+    const canEdit = currentUserId === resource.owner_id;
     
     return {
       ...resource,
       owner: ownerData,
       photos: resource.photos || [],
-      can_edit: currentUserId === resource.owner_id
+      can_edit: canEdit,
+      ...(canEdit && resource.visibility === 'communities' && {
+        community_ids: await this.communityService.getResourceCommunityIds(resource.id)
+      })
     };
   }
 
@@ -535,24 +886,4 @@ export class ResourceService {
 
     return this.transformToResourceWithFullOwner(resource, currentUserId);
   }
-
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Radius of the Earth in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLng = this.toRadians(lng2 - lng1);
-    
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-
-    return parseFloat(distance.toFixed(2));
-  }
-
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
 }
@@ -10,6 +10,7 @@ import {
     ConflictError,
 } from "../utils/errors";
 import { NotificationService } from "./NotificationService";
+import { DisputeService, ACTIVE_DISPUTE_STATUSES } from "./DisputeService";
 
 export interface ReviewCreateData {
     reviewer_id: number;
@@ -44,11 +45,19 @@ export interface ReviewStats {
     };
 }
 
+export interface ReviewStatistics {
+    receivedStats: ReviewStats;
+    givenCount: number;
+    pendingToGive: number;
+    responseRate: number;
+}
+
 export class ReviewService {
     private reviewRepository: Repository<Review>;
     private userRepository: Repository<User>;
     private borrowRequestRepository: Repository<BorrowRequest>;
     private notificationService: NotificationService;
+    private disputeService: DisputeService;
 
     constructor() {
         this.reviewRepository = AppDataSource.getRepository(Review);
@@ -56,6 +65,7 @@ export class ReviewService {
         this.borrowRequestRepository =
             AppDataSource.getRepository(BorrowRequest);
         this.notificationService = new NotificationService();
+        this.disputeService = new DisputeService();
     }
 
     /**
@@ -107,6 +117,12 @@ export class ReviewService {
                 );
             }
 
+            if (await this.disputeService.hasActiveDispute(borrowRequest.id)) {
+                throw new ConflictError(
+                    "Reviews open once the dispute on this borrow is decided"
+                );
+            }
+
             // Validate reviewer is part of the transaction
             isRequester = borrowRequest.requester_id === data.reviewer_id;
             isOwner = borrowRequest.resource?.owner_id === data.reviewer_id;
@@ -571,6 +587,10 @@ export class ReviewService {
                 { userId }
             )
             .andWhere("review.id IS NULL") // No review exists yet
+            .andWhere(
+                "NOT EXISTS (SELECT 1 FROM dispute_cases dispute WHERE dispute.borrow_request_id = request.id AND dispute.status IN (:...disputeStatuses))",
+                { disputeStatuses: ACTIVE_DISPUTE_STATUSES }
+            ) // Not while a dispute is undecided
             .getMany();
 
         return completedRequests;
@@ -579,12 +599,7 @@ export class ReviewService {
     /**
      * Get review statistics for a user
      */
-    async getReviewStatistics(userId: number): Promise<{
-        receivedStats: ReviewStats;
-        givenCount: number;
-        pendingToGive: number;
-        responseRate: number;
-    }> {
+    async getReviewStatistics(userId: number): Promise<ReviewStatistics> {
         // Get received reviews stats
         const receivedStats = await this.getUserReviews(userId, 1, 1000);
 
@@ -671,6 +686,7 @@ export class ReviewService {
                 break;
             case "verify":
                 updateData.is_verified = true;
+                updateData.is_flagged = false;
                 break;
         }
 
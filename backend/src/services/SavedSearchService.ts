@@ -0,0 +1,335 @@
+import { Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { SavedSearch } from "../entities/SavedSearch";
+import { Resource } from "../entities/Resource";
+import { User } from "../entities/User";
+import {
+  SavedSearchFilters,
+  RESOURCE_CATEGORIES,
+  RESOURCE_CONDITIONS
+} from "../types/resource";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  validateRequired,
+  validateLength,
+  validateNumber,
+  validateInteger,
+  validateEnum,
+  validateBoolean,
+  validateCoordinates
+} from "../utils/errors";
+import { calculateDistance } from "../utils/geo";
+import { NotificationService } from "./NotificationService";
+import { ResourceSearchService } from "./ResourceSearchService";
+import { CommunityService } from "./CommunityService";
+
+export interface SavedSearchCreateData {
+  name: string;
+  filters: SavedSearchFilters;
+  alerts_enabled?: boolean;
+  alert_interval_hours?: number;
+}
+
+export type SavedSearchUpdateData = Partial<SavedSearchCreateData>;
+
+const MAX_SAVED_SEARCHES = 20;
+const DEFAULT_RADIUS_KM = 10;
+const MAX_ALERT_INTERVAL_HOURS = 24 * 7;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class SavedSearchService {
+  private savedSearchRepository: Repository<SavedSearch>;
+  private resourceRepository: Repository<Resource>;
+  private userRepository: Repository<User>;
+  private notificationService: NotificationService;
+  private searchIndex: ResourceSearchService;
+  private communityService: CommunityService;
+
+  constructor() {
+    this.savedSearchRepository = AppDataSource.getRepository(SavedSearch);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.notificationService = new NotificationService();
+    this.searchIndex = new ResourceSearchService();
+    this.communityService = new CommunityService();
+  }
+
+  async getUserSearches(userId: number): Promise<SavedSearch[]> {
+    return this.savedSearchRepository.find({
+      where: { user_id: userId },
+      order: { created_at: "DESC" }
+    });
+  }
+
+  /**
+   * Save a search. A radius without coordinates is taken around the user's own location.
+   */
+  async create(userId: number, data: SavedSearchCreateData): Promise<SavedSearch> {
+    validateRequired(data.name, "name");
+    validateLength(data.name, "name", 1, 100);
+    validateBoolean(data.alerts_enabled, "alerts_enabled");
+    validateInteger(data.alert_interval_hours, "alert_interval_hours", 0, MAX_ALERT_INTERVAL_HOURS);
+
+    const count = await this.savedSearchRepository.count({ where: { user_id: userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new ValidationError(`You can keep at most ${MAX_SAVED_SEARCHES} saved searches`);
+    }
+
+    const filters = await this.normalizeFilters(userId, data.filters);
+
+    return this.savedSearchRepository.save(
+      this.savedSearchRepository.create({
+        user_id: userId,
+        name: data.name.trim(),
+        filters,
+        alerts_enabled: data.alerts_enabled === undefined ? true : String(data.alerts_enabled) === "true",
+        alert_interval_hours: data.alert_interval_hours === undefined ? 1 : Number(data.alert_interval_hours)
+      })
+    );
+  }
+
+  async update(searchId: number, userId: number, data: SavedSearchUpdateData): Promise<SavedSearch> {
+    const savedSearch = await this.findOwnedSearch(searchId, userId);
+
+    if (data.name !== undefined) {
+      validateLength(data.name, "name", 1, 100);
+      savedSearch.name = data.name.trim();
+    }
+
+    if (data.filters !== undefined) {
+      savedSearch.filters = await this.normalizeFilters(userId, data.filters);
+    }
+
+    if (data.alerts_enabled !== undefined) {
+      validateBoolean(data.alerts_enabled, "alerts_enabled");
+      savedSearch.alerts_enabled = String(data.alerts_enabled) === "true";
+    }
+
+    if (data.alert_interval_hours !== undefined) {
+      validateInteger(data.alert_interval_hours, "alert_interval_hours", 0, MAX_ALERT_INTERVAL_HOURS);
+      savedSearch.alert_interval_hours = Number(data.alert_interval_hours);
+    }
+
+    return this.savedSearchRepository.save(savedSearch);
+  }
+
+  async delete(searchId: number, userId: number): Promise<void> {
+    const savedSearch = await this.findOwnedSearch(searchId, userId);
+    await this.savedSearchRepository.remove(savedSearch);
+  }
+
+  /**
+   * Alert everyone whose saved search matches a newly listed resource.
+   * Each search alerts at most once per alert_interval_hours; later matches are
+   * counted and mentioned in its next alert. Returns the number of alerts sent.
+   */
+  async notifyMatches(resourceId: number): Promise<number> {
+    const resource = await this.resourceRepository.findOne({
+      where: { id: resourceId },
+      relations: ["owner"]
+    });
+
+    if (!resource || !resource.is_available || resource.status !== "active" || !resource.owner?.is_active) {
+      return 0;
+    }
+
+    const candidates = await this.savedSearchRepository
+      .createQueryBuilder("savedSearch")
+      .innerJoin("savedSearch.user", "user")
+      .where("savedSearch.alerts_enabled = :enabled", { enabled: true })
+      .andWhere("savedSearch.user_id != :ownerId", { ownerId: resource.owner_id })
+      .andWhere("user.is_active = :active", { active: true })
+      .getMany();
+
+    // Many searches share the same text; ask the index once per text
+    const textMatches = new Map<string, boolean>();
+    let sent = 0;
+
+    for (const savedSearch of candidates) {
+      if (!this.matchesFilters(savedSearch.filters, resource)) continue;
+      if (!(await this.communityService.canView(resource, savedSearch.user_id))) continue;
+
+      const text = savedSearch.filters.search;
+      if (text) {
+        if (!textMatches.has(text)) {
+          textMatches.set(text, await this.searchIndex.matches(resource.id, text));
+        }
+        if (!textMatches.get(text)) continue;
+      }
+
+      if (await this.claimAlert(savedSearch)) {
+        await this.notificationService.createSavedSearchMatchNotification(savedSearch.user_id, resource.id, {
+          saved_search_id: savedSearch.id,
+          search_name: savedSearch.name,
+          resource_name: resource.title,
+          earlier_matches: savedSearch.suppressed_matches
+        });
+        sent++;
+      } else {
+        await this.savedSearchRepository.increment({ id: savedSearch.id }, "suppressed_matches", 1);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Take the search's alert slot unless it alerted within its interval.
+   * Conditional so two listings saved at once cannot both alert.
+   */
+  private async claimAlert(savedSearch: SavedSearch): Promise<boolean> {
+    const now = new Date();
+    const threshold = new Date(now.getTime() - savedSearch.alert_interval_hours * HOUR_MS);
+
+    const result = await this.savedSearchRepository
+      .createQueryBuilder()
+      .update(SavedSearch)
+      .set({ last_notified_at: now, suppressed_matches: 0 })
+      .where("id = :id", { id: savedSearch.id })
+      .andWhere("(last_notified_at IS NULL OR last_notified_at <= :threshold)", { threshold })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  /**
+   * Every criterion except the free text, which the search index decides
+   */
+  private matchesFilters(filters: SavedSearchFilters, resource: Resource): boolean {
+    if (filters.category && resource.category !== filters.category) return false;
+    if (filters.condition && resource.condition !== filters.condition) return false;
+    if (filters.owner_id !== undefined && resource.owner_id !== filters.owner_id) return false;
+
+    const value = resource.estimated_value;
+    if (filters.min_value !== undefined && (value == null || value < filters.min_value)) return false;
+    if (filters.max_value !== undefined && (value == null || value > filters.max_value)) return false;
+
+    if (
+      filters.max_borrow_days !== undefined &&
+      resource.max_borrow_days != null &&
+      resource.max_borrow_days > filters.max_borrow_days
+    ) {
+      return false;
+    }
+
+    const deposit = resource.deposit_required || 0;
+    if (filters.deposit_required !== undefined && (deposit > 0) !== filters.deposit_required) return false;
+    if (filters.max_deposit !== undefined && deposit > filters.max_deposit) return false;
+
+    if (filters.pickup_required !== undefined && resource.pickup_required !== filters.pickup_required) {
+      return false;
+    }
+
+    if (filters.latitude !== undefined && filters.longitude !== undefined) {
+      const owner = resource.owner;
+      if (owner?.latitude == null || owner.longitude == null) return false;
+
+      const distance = calculateDistance(filters.latitude, filters.longitude, owner.latitude, owner.longitude);
+      if (distance > (filters.radius || DEFAULT_RADIUS_KM)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Keep the known criteria with proper types; at least one is required
+   */
+  private async normalizeFilters(userId: number, filtersInput: unknown): Promise<SavedSearchFilters> {
+    if (!filtersInput || typeof filtersInput !== "object" || Array.isArray(filtersInput)) {
+      throw new ValidationError("filters must be an object", "filters");
+    }
+
+    const input = filtersInput as Record<string, unknown>;
+
+    const filters: SavedSearchFilters = {};
+
+    if (input.search !== undefined && input.search !== "") {
+      const search = input.search as string; // validateLength rejects anything but a string
+      validateLength(search, "search", 2, 100);
+      filters.search = search.trim();
+    }
+
+    if (input.category) {
+      validateEnum(input.category, "category", RESOURCE_CATEGORIES);
+      filters.category = input.category as SavedSearchFilters["category"];
+    }
+
+    if (input.condition) {
+      validateEnum(input.condition, "condition", RESOURCE_CONDITIONS);
+      filters.condition = input.condition as SavedSearchFilters["condition"];
+    }
+
+    for (const field of ["min_value", "max_value", "max_deposit"] as const) {
+      if (input[field] !== undefined && input[field] !== null) {
+        validateNumber(input[field], field, 0);
+        filters[field] = Number(input[field]);
+      }
+    }
+
+    if (input.max_borrow_days !== undefined && input.max_borrow_days !== null) {
+      validateInteger(input.max_borrow_days, "max_borrow_days", 1);
+      filters.max_borrow_days = Number(input.max_borrow_days);
+    }
+
+    if (input.owner_id !== undefined && input.owner_id !== null) {
+      validateInteger(input.owner_id, "owner_id", 1);
+      filters.owner_id = Number(input.owner_id);
+    }
+
+    for (const field of ["deposit_required", "pickup_required"] as const) {
+      if (input[field] !== undefined && input[field] !== null) {
+        validateBoolean(input[field], field);
+        filters[field] = String(input[field]) === "true";
+      }
+    }
+
+    if (
+      filters.min_value !== undefined &&
+      filters.max_value !== undefined &&
+      filters.min_value > filters.max_value
+    ) {
+      throw new ValidationError("min_value must not exceed max_value");
+    }
+
+    validateCoordinates(input.latitude, input.longitude);
+    validateNumber(input.radius, "radius", 0.1, 1000);
+
+    if (input.latitude != null) {
+      filters.latitude = Number(input.latitude);
+      filters.longitude = Number(input.longitude);
+      filters.radius = input.radius != null ? Number(input.radius) : DEFAULT_RADIUS_KM;
+    } else if (input.radius != null) {
+      // "Near me": the user's location when the search is saved
+      const user = await this.userRepository.findOne({ where: { id: userId } });
+      if (user?.latitude == null || user.longitude == null) {
+        throw new ValidationError("Set your location before saving a search with a radius", "radius");
+      }
+
+      filters.latitude = user.latitude;
+      filters.longitude = user.longitude;
+      filters.radius = Number(input.radius);
+    }
+
+    if (Object.keys(filters).length === 0) {
+      throw new ValidationError("A saved search needs at least one filter", "filters");
+    }
+
+    return filters;
+  }
+
+  private async findOwnedSearch(searchId: number, userId: number): Promise<SavedSearch> {
+    const savedSearch = await this.savedSearchRepository.findOne({ where: { id: searchId } });
+
+    if (!savedSearch) {
+      throw new NotFoundError("Saved search");
+    }
+
+    if (savedSearch.user_id !== userId) {
+      throw new UnauthorizedError("You can only manage your own saved searches");
+    }
+
+    return savedSearch;
+  }
+}
@@ -0,0 +1,73 @@
+import { databaseConfig } from "../config/databaseConfig";
+import { PostgresSearchIndex } from "./PostgresSearchIndex";
+import { SqliteSearchIndex } from "./SqliteSearchIndex";
+
+// Which resources to write to the index again
+export type SearchIndexScope = { all: true } | { resourceId: number } | { ownerId: number };
+
+export interface SearchIndexRow {
+  id: number;
+  rank: number; // Lower is more relevant
+  snippet: string; // Raw text with matches between the markers passed to search()
+}
+
+// Suggestions are shared by everyone, so only public listings feed them
+export const SUGGESTABLE_RESOURCE = `
+  r.status = 'active' AND r.is_available = TRUE AND r.visibility = 'public'
+  AND EXISTS (SELECT 1 FROM users u WHERE u.id = r.owner_id AND u.is_active = TRUE)`;
+
+/**
+ * Full-text index over resources in the database's own search engine.
+ * Queries are groups of alternative words: every group must match, the first word of a group as a prefix.
+ * Words are already lowercased and stripped of accents by the caller.
+ */
+export interface SearchIndex {
+  readonly name: string;
+
+  /**
+   * Replace the entries in scope with the current resources; inactive resources are left out
+   */
+  reindex(scope: SearchIndexScope): Promise<void>;
+
+  remove(resourceId: number): Promise<void>;
+
+  buildQuery(groups: string[][]): string;
+
+  search(query: string, limit: number, marks: { start: string; end: string }): Promise<SearchIndexRow[]>;
+
+  matches(query: string, resourceId: number): Promise<boolean>;
+
+  /**
+   * Titles of suggestable resources matching the query, most relevant first
+   */
+  suggestTitles(query: string, limit: number): Promise<string[]>;
+
+  hasWordStartingWith(prefix: string): Promise<boolean>;
+
+  /**
+   * Indexed words starting with a letter, within a length range
+   */
+  wordsStartingWith(letter: string, minLength: number, maxLength: number): Promise<string[]>;
+}
+
+let index: SearchIndex | null = null;
+
+/**
+ * The search index for the configured database engine, created on first use
+ */
+export const getSearchIndex = (): SearchIndex => {
+  if (!index) {
+    switch (databaseConfig.type) {
+      case "postgres":
+        index = new PostgresSearchIndex();
+        break;
+      case "sqlite":
+        index = new SqliteSearchIndex();
+        break;
+      default:
+        throw new Error(`No search index for database type: ${databaseConfig.type}`);
+    }
+  }
+
+  return index;
+};
@@ -0,0 +1,210 @@
+import { createHash } from "crypto";
+import { IsNull, LessThan, MoreThan, Not, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { jobConfig } from "../config/jobs";
+import { User } from "../entities/User";
+import { SessionRevokeReason, UserSession } from "../entities/UserSession";
+import { SessionContext } from "../types/auth";
+import { NotFoundError } from "../utils/errors";
+import { JWTService } from "../utils/jwt";
+import { describeUserAgent } from "../utils/userAgent";
+
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// A signed-in device as its user sees it
+export interface ActiveSession
+  extends Pick<UserSession, "id" | "device" | "user_agent" | "ip_address" | "created_at" | "last_used_at" | "expires_at"> {
+  current: boolean; // The session making the request
+}
+
+/**
+ * Signed-in devices and the rotating refresh tokens that keep them signed in
+ */
+export class SessionService {
+  private sessionRepository: Repository<UserSession>;
+  private userRepository: Repository<User>;
+
+  constructor() {
+    this.sessionRepository = AppDataSource.getRepository(UserSession);
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  /**
+   * Start a session for a user who just signed in
+   */
+  async create(user: User, context: SessionContext = {}): Promise<SessionTokens> {
+    const now = new Date();
+
+    // Saved first so the tokens can carry the session id
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        user_id: user.id,
+        refresh_token_hash: "",
+        device: describeUserAgent(context.userAgent),
+        user_agent: context.userAgent?.slice(0, 500) || null,
+        ip_address: context.ipAddress || null,
+        last_used_at: now,
+        expires_at: JWTService.getRefreshTokenExpiry()
+      })
+    );
+
+    const tokens = JWTService.generateTokenPair(user, session.id);
+    await this.sessionRepository.update(session.id, { refresh_token_hash: hashToken(tokens.refreshToken) });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Each refresh token works once: presenting
+   * one that was already rotated means it leaked, so the whole session is revoked.
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    let decoded;
+    try {
+      decoded = JWTService.verifyRefreshToken(refreshToken);
+    } catch {
+      throw new Error("Invalid refresh token");
+    }
+
+    const session = await this.sessionRepository.findOne({
+      where: { id: decoded.sid, user_id: decoded.id }
+    });
+
+    if (!session || session.revoked_at || session.expires_at.getTime() <= Date.now()) {
+      throw new Error("Invalid refresh token");
+    }
+
+    const presentedHash = hashToken(refreshToken);
+
+    if (session.refresh_token_hash !== presentedHash) {
+      await this.revokeSession(session.id, "token_reuse");
+      throw new Error("Refresh token reuse detected, please sign in again");
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: session.user_id } });
+
+    if (!user || !user.is_active) {
+      throw new Error("Account is deactivated");
+    }
+
+    if (user.verification_status === "suspended") {
+      throw new Error("Account is suspended");
+    }
+
+    const tokens = JWTService.generateTokenPair(user, session.id);
+
+    // Conditional on the old hash so two requests racing with one token cannot both rotate it
+    const result = await this.sessionRepository.update(
+      { id: session.id, refresh_token_hash: presentedHash, revoked_at: IsNull() },
+      {
+        refresh_token_hash: hashToken(tokens.refreshToken),
+        last_used_at: new Date(),
+        expires_at: JWTService.getRefreshTokenExpiry(),
+        ip_address: context.ipAddress || session.ip_address
+      }
+    );
+
+    if (!result.affected) {
+      await this.revokeSession(session.id, "token_reuse");
+      throw new Error("Refresh token reuse detected, please sign in again");
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Whether an access token's session is still signed in
+   */
+  async isActive(sessionId: number, userId: number): Promise<boolean> {
+    const count = await this.sessionRepository.count({
+      where: {
+        id: sessionId,
+        user_id: userId,
+        revoked_at: IsNull(),
+        expires_at: MoreThan(new Date())
+      }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * A user's signed-in devices, most recently used first
+   */
+  async getActiveSessions(userId: number, currentSessionId?: number): Promise<ActiveSession[]> {
+    const sessions = await this.sessionRepository.find({
+      where: {
+        user_id: userId,
+        revoked_at: IsNull(),
+        expires_at: MoreThan(new Date())
+      },
+      order: { last_used_at: "DESC" }
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      device: session.device,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      created_at: session.created_at,
+      last_used_at: session.last_used_at,
+      expires_at: session.expires_at,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Sign out one of the user's devices
+   */
+  async revoke(sessionId: number, userId: number, reason: SessionRevokeReason): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, user_id: userId, revoked_at: IsNull() }
+    });
+
+    if (!session) {
+      throw new NotFoundError("Session");
+    }
+
+    await this.revokeSession(session.id, reason);
+  }
+
+  /**
+   * Sign out all of the user's devices, optionally keeping the one making the request
+   */
+  async revokeAll(userId: number, reason: SessionRevokeReason, exceptSessionId?: number): Promise<number> {
+    const result = await this.sessionRepository.update(
+      {
+        user_id: userId,
+        revoked_at: IsNull(),
+        ...(exceptSessionId ? { id: Not(exceptSessionId) } : {})
+      },
+      { revoked_at: new Date(), revoked_reason: reason }
+    );
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Delete sessions that expired or were revoked longer ago than the retention period
+   */
+  async purgeOld(): Promise<number> {
+    const cutoff = new Date(Date.now() - jobConfig.sessionRetentionDays * 24 * 60 * 60 * 1000);
+
+    const expired = await this.sessionRepository.delete({ expires_at: LessThan(cutoff) });
+    const revoked = await this.sessionRepository.delete({ revoked_at: LessThan(cutoff) });
+
+    return (expired.affected || 0) + (revoked.affected || 0);
+  }
+
+  private async revokeSession(sessionId: number, reason: SessionRevokeReason): Promise<void> {
+    await this.sessionRepository.update(
+      { id: sessionId, revoked_at: IsNull() },
+      { revoked_at: new Date(), revoked_reason: reason }
+    );
+  }
+}
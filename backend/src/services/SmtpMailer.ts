@@ -0,0 +1,26 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { mailConfig } from "../config/mail";
+import { Mailer, MailMessage } from "./Mailer";
+
+/**
+ * Delivers email through an SMTP server
+ */
+export class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor() {
+    const { host, port, secure, user, password } = mailConfig.smtp;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: mailConfig.from, ...message });
+  }
+}
@@ -0,0 +1,152 @@
+import { AppDataSource } from "../config/database";
+import { SearchIndex, SearchIndexRow, SearchIndexScope, SUGGESTABLE_RESOURCE } from "./SearchIndex";
+
+const SNIPPET_TOKENS = 12;
+
+// bm25 column weights, in index column order
+const COLUMN_WEIGHTS = {
+  title: 10,
+  description: 2,
+  category: 4,
+  condition_notes: 1,
+  neighborhood: 2
+};
+const BM25 = `bm25(resource_search, ${Object.values(COLUMN_WEIGHTS).join(", ")})`;
+
+// Entries to delete and resources to index again; a deleted resource keeps its id in the index until removed
+const scopeConditions = (scope: SearchIndexScope): { remove: string; select: string; params: number[] } => {
+  if ("resourceId" in scope) {
+    return { remove: "rowid = ?", select: "r.id = ?", params: [scope.resourceId] };
+  }
+  if ("ownerId" in scope) {
+    return {
+      remove: "rowid IN (SELECT id FROM resources WHERE owner_id = ?)",
+      select: "r.owner_id = ?",
+      params: [scope.ownerId]
+    };
+  }
+  return { remove: "1 = 1", select: "1 = 1", params: [] };
+};
+
+/**
+ * Search index in an SQLite FTS5 table next to the entities, ranked by bm25
+ */
+export class SqliteSearchIndex implements SearchIndex {
+  readonly name = "sqlite-fts5";
+  private ready?: Promise<void>;
+
+  async reindex(scope: SearchIndexScope): Promise<void> {
+    await this.ensureIndex();
+    const { remove, select, params } = scopeConditions(scope);
+
+    await AppDataSource.transaction(async (manager) => {
+      await manager.query(`DELETE FROM resource_search WHERE ${remove}`, params);
+      await manager.query(`
+        INSERT INTO resource_search (rowid, title, description, category, condition_notes, neighborhood)
+        SELECT r.id, r.title, r.description, r.category, r.condition_notes, u.neighborhood
+        FROM resources r LEFT JOIN users u ON u.id = r.owner_id
+        WHERE ${select} AND r.status != 'inactive'`, params);
+    });
+  }
+
+  async remove(resourceId: number): Promise<void> {
+    await this.ensureIndex();
+    await AppDataSource.query(`DELETE FROM resource_search WHERE rowid = ?`, [resourceId]);
+  }
+
+  /**
+   * FTS5 query; words are quoted so user input is never read as query syntax
+   */
+  buildQuery(groups: string[][]): string {
+    return groups
+      .map(([word, ...similar]) => {
+        const alternatives = [`"${word}"*`, ...similar.map((term) => `"${term}"`)];
+        return alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(" OR ")})`;
+      })
+      .join(" AND ");
+  }
+
+  async search(query: string, limit: number, marks: { start: string; end: string }): Promise<SearchIndexRow[]> {
+    await this.ensureIndex();
+    const rows: SearchIndexRow[] = await AppDataSource.query(
+      `SELECT rowid AS id, ${BM25} AS rank,
+         snippet(resource_search, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+       FROM resource_search
+       WHERE resource_search MATCH ?
+       ORDER BY rank
+       LIMIT ${limit}`,
+      [marks.start, marks.end, query]
+    );
+
+    return rows;
+  }
+
+  async matches(query: string, resourceId: number): Promise<boolean> {
+    await this.ensureIndex();
+    const rows = await AppDataSource.query(
+      `SELECT 1 FROM resource_search WHERE resource_search MATCH ? AND rowid = ?`,
+      [query, resourceId]
+    );
+
+    return rows.length > 0;
+  }
+
+  async suggestTitles(query: string, limit: number): Promise<string[]> {
+    await this.ensureIndex();
+    const rows: { title: string }[] = await AppDataSource.query(
+      `SELECT r.title AS title
+       FROM resource_search s JOIN resources r ON r.id = s.rowid
+       WHERE resource_search MATCH ? AND ${SUGGESTABLE_RESOURCE}
+       ORDER BY ${BM25}
+       LIMIT ${limit}`,
+      [query]
+    );
+
+    return rows.map((row) => row.title);
+  }
+
+  async hasWordStartingWith(prefix: string): Promise<boolean> {
+    await this.ensureIndex();
+    const [row] = await AppDataSource.query(
+      `SELECT 1 FROM resource_search_vocab WHERE term >= ? AND substr(term, 1, ?) = ? LIMIT 1`,
+      [prefix, prefix.length, prefix]
+    );
+
+    return !!row;
+  }
+
+  async wordsStartingWith(letter: string, minLength: number, maxLength: number): Promise<string[]> {
+    await this.ensureIndex();
+    const rows: { term: string }[] = await AppDataSource.query(
+      `SELECT term FROM resource_search_vocab
+       WHERE substr(term, 1, 1) = ? AND length(term) BETWEEN ? AND ?`,
+      [letter, minLength, maxLength]
+    );
+
+    return rows.map((row) => row.term);
+  }
+
+  /**
+   * Create the index tables if missing; TypeORM cannot describe virtual tables, so they live outside the migrations
+   */
+  private ensureIndex(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await AppDataSource.query(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS resource_search USING fts5(
+            title, description, category, condition_notes, neighborhood,
+            tokenize = 'unicode61 remove_diacritics 2',
+            prefix = '2 3'
+          )`);
+        await AppDataSource.query(
+          `CREATE VIRTUAL TABLE IF NOT EXISTS resource_search_vocab USING fts5vocab(resource_search, 'row')`
+        );
+      })().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+
+    return this.ready;
+  }
+}
@@ -0,0 +1,269 @@
+import bcrypt from "bcryptjs";
+import { randomInt } from "crypto";
+import { IsNull, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { twoFactorConfig } from "../config/twoFactor";
+import { TwoFactorRecoveryCode } from "../entities/TwoFactorRecoveryCode";
+import { User } from "../entities/User";
+import { UserTwoFactor } from "../entities/UserTwoFactor";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError
+} from "../utils/errors";
+import { JWTService } from "../utils/jwt";
+import { decryptSecret, encryptSecret } from "../utils/secretBox";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+
+// Either a code from the authenticator app or one of the recovery codes
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// No 0/O or 1/I/L, so codes copied from paper are not misread
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, "").toLowerCase();
+
+/**
+ * Optional TOTP second factor: enrollment, login challenges and recovery codes
+ */
+export class TwoFactorService {
+  private twoFactorRepository: Repository<UserTwoFactor>;
+  private recoveryCodeRepository: Repository<TwoFactorRecoveryCode>;
+  private userRepository: Repository<User>;
+
+  constructor() {
+    this.twoFactorRepository = AppDataSource.getRepository(UserTwoFactor);
+    this.recoveryCodeRepository = AppDataSource.getRepository(TwoFactorRecoveryCode);
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  /**
+   * Whether two-factor authentication is on, and how many recovery codes are left
+   */
+  async getStatus(userId: number): Promise<{ enabled: boolean; recovery_codes_remaining: number }> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { user_id: userId } });
+
+    if (!twoFactor?.enabled_at) {
+      return { enabled: false, recovery_codes_remaining: 0 };
+    }
+
+    const remaining = await this.recoveryCodeRepository.count({
+      where: { user_id: userId, used_at: IsNull() }
+    });
+
+    return { enabled: true, recovery_codes_remaining: remaining };
+  }
+
+  /**
+   * Create a new secret for the user's authenticator app. Nothing changes for
+   * logins until the user confirms a code from the app with enable().
+   */
+  async setup(user: User): Promise<{ secret: string; otpauth_uri: string }> {
+    const existing = await this.twoFactorRepository.findOne({ where: { user_id: user.id } });
+
+    if (existing?.enabled_at) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    const twoFactor = existing || this.twoFactorRepository.create({ user_id: user.id });
+
+    twoFactor.secret_encrypted = encryptSecret(secret, twoFactorConfig.encryptionKey);
+    twoFactor.last_used_step = null;
+    twoFactor.failed_attempts = 0;
+    twoFactor.locked_until = null;
+    await this.twoFactorRepository.save(twoFactor);
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, user.email, twoFactorConfig.issuer)
+    };
+  }
+
+  /**
+   * Turn two-factor authentication on with a first code from the authenticator app.
+   * Returns the recovery codes, which are only ever shown this once.
+   */
+  async enable(userId: number, code: string): Promise<string[]> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { user_id: userId } });
+
+    if (!twoFactor) {
+      throw new ValidationError("Set up your authenticator app first");
+    }
+
+    if (twoFactor.enabled_at) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    await this.checkProof(twoFactor, { code }, false);
+
+    twoFactor.enabled_at = new Date();
+    await this.twoFactorRepository.save(twoFactor);
+    await this.userRepository.update(userId, { two_factor_enabled: true });
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Turn two-factor authentication off; needs the password and a current code
+   */
+  async disable(userId: number, password: string, proof: TwoFactorProof): Promise<void> {
+    const twoFactor = await this.getEnabled(userId);
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user || !password || !(await bcrypt.compare(password, user.password))) {
+      throw new ValidationError("Password is incorrect", "password");
+    }
+
+    await this.checkProof(twoFactor, proof, true);
+
+    await this.recoveryCodeRepository.delete({ user_id: userId });
+    await this.twoFactorRepository.delete({ id: twoFactor.id });
+    await this.userRepository.update(userId, { two_factor_enabled: false });
+  }
+
+  /**
+   * Replace all recovery codes, e.g. after using several or losing the list
+   */
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    const twoFactor = await this.getEnabled(userId);
+
+    await this.checkProof(twoFactor, { code }, false);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Second step of a login: check the code for a challenge from the password step
+   * and return the user to sign in
+   */
+  async completeLogin(challengeToken: string, proof: TwoFactorProof): Promise<User> {
+    let challenge;
+    try {
+      challenge = JWTService.verifyTwoFactorChallengeToken(challengeToken);
+    } catch (error) {
+      throw new AppError(error instanceof Error ? error.message : "Invalid login challenge", 401, "INVALID_CHALLENGE");
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: challenge.id } });
+
+    if (!user || !user.is_active || user.verification_status === "suspended") {
+      throw new AppError("Invalid login challenge", 401, "INVALID_CHALLENGE");
+    }
+
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { user_id: user.id } });
+
+    // Two-factor was turned off since the password step: the password alone is enough
+    if (!twoFactor?.enabled_at) {
+      return user;
+    }
+
+    await this.checkProof(twoFactor, proof, true);
+
+    return user;
+  }
+
+  private async getEnabled(userId: number): Promise<UserTwoFactor> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { user_id: userId } });
+
+    if (!twoFactor?.enabled_at) {
+      throw new NotFoundError("Two-factor authentication");
+    }
+
+    return twoFactor;
+  }
+
+  /**
+   * Accept an authenticator code (each one only once) or, where allowed, an unused
+   * recovery code. Wrong codes count towards a temporary lock against guessing.
+   */
+  private async checkProof(twoFactor: UserTwoFactor, proof: TwoFactorProof, allowRecovery: boolean): Promise<void> {
+    if (twoFactor.locked_until && twoFactor.locked_until.getTime() > Date.now()) {
+      throw new TooManyRequestsError(
+        "Too many wrong codes, please try again later",
+        Math.ceil((twoFactor.locked_until.getTime() - Date.now()) / 1000)
+      );
+    }
+
+    let accepted = false;
+
+    if (proof.code) {
+      const secret = decryptSecret(twoFactor.secret_encrypted, twoFactorConfig.encryptionKey);
+      const step = verifyTotp(secret, String(proof.code).trim());
+
+      if (step !== null && step > (twoFactor.last_used_step ?? -1)) {
+        twoFactor.last_used_step = step;
+        accepted = true;
+      }
+    } else if (proof.recoveryCode && allowRecovery) {
+      accepted = await this.useRecoveryCode(twoFactor.user_id, String(proof.recoveryCode));
+    } else {
+      throw new ValidationError(
+        allowRecovery ? "Enter a code from your authenticator app or a recovery code" : "Enter a code from your authenticator app",
+        "code"
+      );
+    }
+
+    if (!accepted) {
+      twoFactor.failed_attempts += 1;
+
+      if (twoFactor.failed_attempts >= twoFactorConfig.maxFailedAttempts) {
+        twoFactor.failed_attempts = 0;
+        twoFactor.locked_until = new Date(Date.now() + twoFactorConfig.lockMinutes * 60 * 1000);
+      }
+
+      await this.twoFactorRepository.save(twoFactor);
+      throw new ValidationError("Invalid authentication code", "code");
+    }
+
+    twoFactor.failed_attempts = 0;
+    twoFactor.locked_until = null;
+    await this.twoFactorRepository.save(twoFactor);
+  }
+
+  private async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const normalized = normalizeRecoveryCode(code);
+    const unused = await this.recoveryCodeRepository.find({
+      where: { user_id: userId, used_at: IsNull() }
+    });
+
+    for (const recoveryCode of unused) {
+      if (await bcrypt.compare(normalized, recoveryCode.code_hash)) {
+        // Conditional so the same code cannot be spent twice by racing requests
+        const result = await this.recoveryCodeRepository.update(
+          { id: recoveryCode.id, used_at: IsNull() },
+          { used_at: new Date() }
+        );
+        return !!result.affected;
+      }
+    }
+
+    return false;
+  }
+
+  private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: twoFactorConfig.recoveryCodeCount }, () => {
+      const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+      return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+    });
+
+    await this.recoveryCodeRepository.delete({ user_id: userId });
+    await this.recoveryCodeRepository.save(
+      await Promise.all(
+        codes.map(async (code) =>
+          this.recoveryCodeRepository.create({
+            user_id: userId,
+            code_hash: await bcrypt.hash(normalizeRecoveryCode(code), 10)
+          })
+        )
+      )
+    );
+
+    return codes;
+  }
+}
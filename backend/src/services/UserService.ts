@@ -1,25 +1,66 @@
 import bcrypt from "bcryptjs";
 import { Repository } from "typeorm";
 import { AppDataSource } from "../config/database";
-import { User } from "../entities/User";
+import { User, UserRole } from "../entities/User";
 import { Resource } from "../entities/Resource";
 import { BorrowRequest } from "../entities/BorrowRequest";
 import { Review } from "../entities/Review";
 import { JWTService } from "../utils/jwt";
-import { RegisterRequest, UserUpdateData } from "../types/auth";
+import { RegisterRequest, SessionContext, UserUpdateData, USER_ROLES } from "../types/auth";
+import { ResourceSearchService } from "./ResourceSearchService";
+import { CommunityService } from "./CommunityService";
+import { LocationVerificationService } from "./LocationVerificationService";
+import { SessionService } from "./SessionService";
+import { LoginThrottle } from "./LoginThrottle";
+
+// A user's own profile page: listings, borrowing and lending history, and reviews
+export interface CompleteProfile {
+  user: Omit<User, "password">;
+  statistics: {
+    borrowCount: number;
+    lendCount: number;
+    exchangeCount: number;
+    totalResources: number;
+    successfulBorrows: number;
+    completedBorrows: number;
+    completedLends: number;
+    averageRating: number;
+    totalRatings: number;
+  };
+  resources: {
+    lend: Resource[];
+    exchange: Resource[];
+  };
+  borrowHistory: BorrowRequest[];
+  lendHistory: BorrowRequest[];
+  reviews: {
+    received: Review[];
+    given: Review[];
+  };
+}
 
 export class UserService {
   private userRepository: Repository<User>;
+  private searchIndex: ResourceSearchService;
+  private communityService: CommunityService;
+  private locationVerificationService: LocationVerificationService;
+  private sessionService: SessionService;
+  private loginThrottle: LoginThrottle;
 
   constructor() {
     this.userRepository = AppDataSource.getRepository(User);
+    this.searchIndex = new ResourceSearchService();
+    this.communityService = new CommunityService();
+    this.locationVerificationService = new LocationVerificationService();
+    this.sessionService = new SessionService();
+    this.loginThrottle = new LoginThrottle();
   }
 
   /**
    * Register a new user
    */
-  async register(userData: RegisterRequest): Promise<{
-    user: Omit<User, "password" | "refresh_token">;
+  async register(userData: RegisterRequest, context: SessionContext = {}): Promise<{
+    user: Omit<User, "password">;
     accessToken: string;
     refreshToken: string;
   }> {
@@ -57,16 +98,14 @@ export class UserService {
     // Save user
     const savedUser = await this.userRepository.save(user);
 
-    // Generate tokens
-    const { accessToken, refreshToken } = JWTService.generateTokenPair(savedUser);
+    // Sign the new user in on this device
+    const { accessToken, refreshToken } = await this.sessionService.create(savedUser, context);
 
-    // Save refresh token to user
-    savedUser.refresh_token = refreshToken;
     savedUser.last_login = new Date();
     await this.userRepository.save(savedUser);
 
     // Return user without sensitive data
-    const { password, refresh_token, ...userResponse } = savedUser;
+    const { password, ...userResponse } = savedUser;
     
     return {
       user: userResponse,
@@ -78,17 +117,19 @@ export class UserService {
   /**
    * Login user
    */
-  async login(email: string, password: string): Promise<{
-    user: Omit<User, "password" | "refresh_token">;
-    accessToken: string;
-    refreshToken: string;
-  }> {
+  async login(email: string, password: string, context: SessionContext = {}): Promise<
+    | { user: Omit<User, "password">; accessToken: string; refreshToken: string }
+    | { two_factor_required: true; challengeToken: string }
+  > {
+    await this.loginThrottle.assertNotLocked(email, context.ipAddress);
+
     // Find user by email
     const user = await this.userRepository.findOne({
       where: { email }
     });
 
     if (!user) {
+      await this.loginThrottle.recordFailure(email, context.ipAddress);
       throw new Error("Invalid credentials");
     }
 
@@ -97,23 +138,46 @@ export class UserService {
       throw new Error("Account is deactivated");
     }
 
+    if (user.verification_status === "suspended") {
+      throw new Error("Account is suspended");
+    }
+
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      await this.loginThrottle.recordFailure(email, context.ipAddress);
       throw new Error("Invalid credentials");
     }
 
-    // Generate new tokens
-    const { accessToken, refreshToken } = JWTService.generateTokenPair(user);
+    await this.loginThrottle.reset(email, context.ipAddress);
+
+    // The session starts only once the authenticator code is checked
+    if (user.two_factor_enabled) {
+      return {
+        two_factor_required: true,
+        challengeToken: JWTService.generateTwoFactorChallengeToken(user)
+      };
+    }
+
+    return this.signIn(user, context);
+  }
+
+  /**
+   * Start a session for a user whose credentials were checked
+   */
+  async signIn(user: User, context: SessionContext = {}): Promise<{
+    user: Omit<User, "password">;
+    accessToken: string;
+    refreshToken: string;
+  }> {
+    const { accessToken, refreshToken } = await this.sessionService.create(user, context);
 
-    // Update user with refresh token and last login
-    user.refresh_token = refreshToken;
     user.last_login = new Date();
     await this.userRepository.save(user);
 
     // Return user without sensitive data
-    const { password: _, refresh_token, ...userResponse } = user;
-    
+    const { password: _, ...userResponse } = user;
+
     return {
       user: userResponse,
       accessToken,
@@ -124,42 +188,11 @@ export class UserService {
   /**
    * Refresh access token using refresh token
    */
-  async refreshToken(refreshToken: string): Promise<{
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<{
     accessToken: string;
     refreshToken: string;
   }> {
-    // Verify refresh token
-    let decoded;
-    try {
-      decoded = JWTService.verifyRefreshToken(refreshToken);
-    } catch (error: any) {
-      throw new Error("Invalid refresh token");
-    }
-
-    // Find user and verify refresh token
-    const user = await this.userRepository.findOne({
-      where: { id: decoded.id }
-    });
-
-    if (!user || user.refresh_token !== refreshToken) {
-      throw new Error("Invalid refresh token");
-    }
-
-    if (!user.is_active) {
-      throw new Error("Account is deactivated");
-    }
-
-    // Generate new tokens
-    const { accessToken: newAccessToken, refreshToken: newRefreshToken } = JWTService.generateTokenPair(user);
-
-    // Update user with new refresh token
-    user.refresh_token = newRefreshToken;
-    await this.userRepository.save(user);
-
-    return {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken
-    };
+    return this.sessionService.rotate(refreshToken, context);
   }
 
   /**
@@ -183,6 +216,15 @@ export class UserService {
       throw new Error("User not found");
     }
 
+    const previousNeighborhood = user.neighborhood;
+    const previousLocation = [user.latitude, user.longitude, user.is_location_verified].join();
+
+    // A new address or position has to be verified again
+    const moved =
+      (updateData.latitude !== undefined && Number(updateData.latitude) !== Number(user.latitude)) ||
+      (updateData.longitude !== undefined && Number(updateData.longitude) !== Number(user.longitude)) ||
+      (updateData.address !== undefined && updateData.address !== user.address);
+
     // Update user fields
     Object.keys(updateData).forEach(key => {
       if (updateData[key as keyof UserUpdateData] !== undefined) {
@@ -190,32 +232,45 @@ export class UserService {
       }
     });
 
-    // If location is being updated, mark as verified if both lat/lng are provided
-    if (updateData.latitude && updateData.longitude) {
-      user.is_location_verified = true;
+    if (moved && updateData.is_location_verified === undefined) {
+      user.is_location_verified = false;
     }
 
-    return this.userRepository.save(user);
+    const savedUser = await this.userRepository.save(user);
+
+    if (moved) {
+      await this.locationVerificationService.cancelPending(userId);
+    }
+
+    // The neighborhood is searchable on the user's listings
+    if (savedUser.neighborhood !== previousNeighborhood) {
+      await this.searchIndex.indexOwnerResources(userId);
+    }
+
+    // Communities follow the verified location
+    if ([savedUser.latitude, savedUser.longitude, savedUser.is_location_verified].join() !== previousLocation) {
+      await this.communityService.syncUserMemberships(userId);
+    }
+
+    return savedUser;
   }
 
   /**
-   * Logout user (invalidate refresh token)
+   * Logout user (sign out the current session only)
    */
-  async logout(userId: number): Promise<void> {
-    const user = await this.userRepository.findOne({
-      where: { id: userId }
-    });
-
-    if (user) {
-      user.refresh_token = undefined;
-      await this.userRepository.save(user);
-    }
+  async logout(userId: number, sessionId: number): Promise<void> {
+    await this.sessionService.revoke(sessionId, userId, "logout");
   }
 
   /**
    * Change user password
    */
-  async changePassword(userId: number, currentPassword: string, newPassword: string): Promise<void> {
+  async changePassword(
+    userId: number,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: number
+  ): Promise<void> {
     const user = await this.userRepository.findOne({
       where: { id: userId }
     });
@@ -234,10 +289,20 @@ export class UserService {
     const hashedPassword = await bcrypt.hash(newPassword, 12);
     user.password = hashedPassword;
 
-    // Invalidate all refresh tokens
-    user.refresh_token = undefined;
-
     await this.userRepository.save(user);
+
+    // Sign out every other device
+    await this.sessionService.revokeAll(userId, "password_changed", currentSessionId);
+  }
+
+  /**
+   * Set a new password after a reset link was used, signing the user out everywhere
+   */
+  async resetPassword(userId: number, newPassword: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+    await this.userRepository.update(userId, { password: hashedPassword });
+    await this.sessionService.revokeAll(userId, "password_reset");
   }
 
   /**
@@ -260,6 +325,26 @@ export class UserService {
     await this.userRepository.save(user);
   }
 
+  /**
+   * Change a user's role (admin only)
+   */
+  async updateRole(userId: number, role: UserRole): Promise<User> {
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(", ")}`);
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    user.role = role;
+    return this.userRepository.save(user);
+  }
+
   /**
    * Update user rating
    */
@@ -308,7 +393,7 @@ export class UserService {
   /**
    * Get complete profile data with resources, borrow history, and reviews
    */
-  async getCompleteProfile(userId: number): Promise<any> {
+  async getCompleteProfile(userId: number): Promise<CompleteProfile> {
     const user = await this.userRepository.findOne({
       where: { id: userId }
     });
@@ -373,7 +458,7 @@ export class UserService {
     ).length;
     
     // Remove sensitive data from user
-    const { password, refresh_token, ...userProfile } = user;
+    const { password, ...userProfile } = user;
 
     return {
       user: userProfile,
@@ -0,0 +1,321 @@
+import { In, Repository } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { jobConfig } from "../config/jobs";
+import { WaitlistEntry } from "../entities/WaitlistEntry";
+import { Resource } from "../entities/Resource";
+import {
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ConflictError
+} from "../utils/errors";
+import { NotificationService } from "./NotificationService";
+import { ResourceCalendarService, toDateString } from "./ResourceCalendarService";
+import { CommunityService } from "./CommunityService";
+
+export interface WaitlistJoinData {
+  resource_id: number;
+  user_id: number;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface WaitlistEntryWithPosition extends WaitlistEntry {
+  position: number | null; // Place in line while waiting
+}
+
+export class WaitlistService {
+  private waitlistRepository: Repository<WaitlistEntry>;
+  private resourceRepository: Repository<Resource>;
+  private calendarService: ResourceCalendarService;
+  private notificationService: NotificationService;
+  private communityService: CommunityService;
+
+  constructor() {
+    this.waitlistRepository = AppDataSource.getRepository(WaitlistEntry);
+    this.resourceRepository = AppDataSource.getRepository(Resource);
+    this.calendarService = new ResourceCalendarService();
+    this.notificationService = new NotificationService();
+    this.communityService = new CommunityService();
+  }
+
+  /**
+   * Join the waitlist for a resource, optionally for specific dates
+   */
+  async join(data: WaitlistJoinData): Promise<WaitlistEntryWithPosition> {
+    const resource = await this.resourceRepository.findOne({ where: { id: data.resource_id } });
+
+    if (
+      !resource ||
+      resource.status === "inactive" ||
+      !(await this.communityService.canView(resource, data.user_id))
+    ) {
+      throw new NotFoundError("Resource");
+    }
+
+    if (resource.owner_id === data.user_id) {
+      throw new ValidationError("Cannot join the waitlist for your own resource");
+    }
+
+    if (!data.start_date !== !data.end_date) {
+      throw new ValidationError("Provide both start_date and end_date, or neither");
+    }
+
+    let startDate: string | null = null;
+    let endDate: string | null = null;
+
+    if (data.start_date && data.end_date) {
+      startDate = toDateString(data.start_date, "start_date");
+      endDate = toDateString(data.end_date, "end_date");
+
+      if (endDate < startDate) {
+        throw new ValidationError("end_date must not be before start_date");
+      }
+
+      if (endDate < toDateString(new Date())) {
+        throw new ValidationError("Waitlist dates cannot be in the past");
+      }
+    }
+
+    const existing = await this.waitlistRepository.findOne({
+      where: {
+        resource_id: data.resource_id,
+        user_id: data.user_id,
+        status: In(["waiting", "offered"])
+      }
+    });
+
+    if (existing) {
+      throw new ConflictError("You are already on the waitlist for this resource");
+    }
+
+    const entry = await this.waitlistRepository.save(
+      this.waitlistRepository.create({
+        resource_id: data.resource_id,
+        user_id: data.user_id,
+        start_date: startDate,
+        end_date: endDate,
+        status: "waiting"
+      })
+    );
+
+    return this.withPosition(entry);
+  }
+
+  /**
+   * Leave the waitlist. Giving up an offer passes the held dates to the next person.
+   */
+  async leave(entryId: number, userId: number): Promise<void> {
+    const entry = await this.waitlistRepository.findOne({ where: { id: entryId } });
+
+    if (!entry) {
+      throw new NotFoundError("Waitlist entry");
+    }
+
+    if (entry.user_id !== userId) {
+      throw new UnauthorizedError("You can only leave your own waitlist entries");
+    }
+
+    if (entry.status !== "waiting" && entry.status !== "offered") {
+      throw new ConflictError("Waitlist entry is no longer active");
+    }
+
+    const heldDates = entry.status === "offered"
+      ? { start: entry.hold_start_date!, end: entry.hold_end_date! }
+      : null;
+
+    entry.status = "cancelled";
+    this.clearHold(entry);
+    await this.waitlistRepository.save(entry);
+
+    if (heldDates) {
+      await this.releaseSlot(entry.resource_id, heldDates.start, heldDates.end);
+    }
+  }
+
+  /**
+   * A user's active waitlist entries with their place in line
+   */
+  async getUserEntries(userId: number): Promise<WaitlistEntryWithPosition[]> {
+    const entries = await this.waitlistRepository.find({
+      where: { user_id: userId, status: In(["waiting", "offered"]) },
+      relations: ["resource", "resource.photos"],
+      order: { created_at: "DESC", id: "DESC" }
+    });
+
+    return Promise.all(entries.map((entry) => this.withPosition(entry)));
+  }
+
+  /**
+   * Offer freed dates to the first person in line who wants them.
+   * Their dates (or the whole slot if they gave none) are held until the hold expires.
+   */
+  async releaseSlot(
+    resourceId: number,
+    startDate: Date | string,
+    endDate: Date | string
+  ): Promise<WaitlistEntry | null> {
+    const today = toDateString(new Date());
+    const end = toDateString(endDate);
+    let start = toDateString(startDate);
+
+    if (end < today) return null;
+    if (start < today) start = today;
+
+    const resource = await this.resourceRepository.findOne({ where: { id: resourceId } });
+    if (!resource) return null;
+
+    // Someone already holds these dates; the slot passes on when their hold ends
+    if (await this.findActiveHold(resourceId, start, end)) return null;
+
+    const candidates = await this.waitlistRepository.find({
+      where: { resource_id: resourceId, status: "waiting" },
+      order: { created_at: "ASC", id: "ASC" }
+    });
+
+    for (const entry of candidates) {
+      const holdStart = entry.start_date && entry.start_date > start ? entry.start_date : start;
+      const holdEnd = entry.end_date && entry.end_date < end ? entry.end_date : end;
+
+      if (holdEnd < holdStart) continue;
+
+      try {
+        await this.calendarService.assertDatesFree(resource, holdStart, holdEnd);
+      } catch (error) {
+        if (error instanceof ConflictError) continue;
+        throw error;
+      }
+
+      return this.offer(entry, resource, holdStart, holdEnd);
+    }
+
+    return null;
+  }
+
+  /**
+   * Throw if the dates are on hold for another user's waitlist offer
+   */
+  async assertNotHeld(
+    resourceId: number,
+    startDate: Date | string,
+    endDate: Date | string,
+    userId: number
+  ): Promise<void> {
+    const hold = await this.findActiveHold(
+      resourceId,
+      toDateString(startDate),
+      toDateString(endDate)
+    );
+
+    if (hold && hold.user_id !== userId) {
+      throw new ConflictError(
+        `These dates are on hold for someone on the waitlist until ${new Date(hold.hold_expires_at!).toLocaleString()}`
+      );
+    }
+  }
+
+  /**
+   * Close the user's waitlist entry once they have requested the resource
+   */
+  async fulfil(resourceId: number, userId: number, borrowRequestId: number): Promise<void> {
+    const entry = await this.waitlistRepository.findOne({
+      where: {
+        resource_id: resourceId,
+        user_id: userId,
+        status: In(["waiting", "offered"])
+      }
+    });
+
+    if (!entry) return;
+
+    entry.status = "fulfilled";
+    entry.borrow_request_id = borrowRequestId;
+    this.clearHold(entry);
+    await this.waitlistRepository.save(entry);
+  }
+
+  /**
+   * Expire offers whose hold has run out and pass the dates to the next person
+   */
+  async expireHolds(): Promise<number> {
+    const expired = await this.waitlistRepository
+      .createQueryBuilder("entry")
+      .where("entry.status = :status", { status: "offered" })
+      .andWhere("entry.hold_expires_at < :now", { now: new Date() })
+      .getMany();
+
+    for (const entry of expired) {
+      const start = entry.hold_start_date!;
+      const end = entry.hold_end_date!;
+
+      entry.status = "expired";
+      this.clearHold(entry);
+      await this.waitlistRepository.save(entry);
+
+      await this.releaseSlot(entry.resource_id, start, end);
+    }
+
+    return expired.length;
+  }
+
+  private async offer(
+    entry: WaitlistEntry,
+    resource: Resource,
+    holdStart: string,
+    holdEnd: string
+  ): Promise<WaitlistEntry> {
+    const now = new Date();
+
+    entry.status = "offered";
+    entry.hold_start_date = holdStart;
+    entry.hold_end_date = holdEnd;
+    entry.offered_at = now;
+    entry.hold_expires_at = new Date(now.getTime() + jobConfig.waitlistHoldHours * 60 * 60 * 1000);
+    await this.waitlistRepository.save(entry);
+
+    try {
+      await this.notificationService.createResourceAvailableNotification(entry.user_id, resource.id, {
+        resource_name: resource.title,
+        hold_start_date: holdStart,
+        hold_end_date: holdEnd,
+        hold_expires_at: entry.hold_expires_at
+      });
+    } catch (error) {
+      console.warn("Failed to create notification:", error);
+    }
+
+    return entry;
+  }
+
+  private async findActiveHold(resourceId: number, start: string, end: string): Promise<WaitlistEntry | null> {
+    return this.waitlistRepository
+      .createQueryBuilder("entry")
+      .where("entry.resource_id = :resourceId", { resourceId })
+      .andWhere("entry.status = :status", { status: "offered" })
+      .andWhere("entry.hold_expires_at > :now", { now: new Date() })
+      .andWhere("entry.hold_start_date <= :end", { end })
+      .andWhere("entry.hold_end_date >= :start", { start })
+      .getOne();
+  }
+
+  private async withPosition(entry: WaitlistEntry): Promise<WaitlistEntryWithPosition> {
+    if (entry.status !== "waiting") {
+      return Object.assign(entry, { position: null });
+    }
+
+    const ahead = await this.waitlistRepository
+      .createQueryBuilder("entry")
+      .where("entry.resource_id = :resourceId", { resourceId: entry.resource_id })
+      .andWhere("entry.status = :status", { status: "waiting" })
+      .andWhere("entry.id < :id", { id: entry.id })
+      .getCount();
+
+    return Object.assign(entry, { position: ahead + 1 });
+  }
+
+  private clearHold(entry: WaitlistEntry): void {
+    entry.hold_start_date = null;
+    entry.hold_end_date = null;
+    entry.hold_expires_at = null;
+  }
+}
@@ -1,5 +1,8 @@
 import { Request } from "express";
-import { User } from "../entities/User";
+import { User, UserRole } from "../entities/User";
+
+// Roles in ascending order of privilege
+export const USER_ROLES: readonly UserRole[] = ["member", "moderator", "admin"];
 
 // Base interfaces for authentication
 export interface RegisterRequest {
@@ -31,7 +34,7 @@ export interface UpdateProfileRequest {
 
 // Response interfaces
 export interface AuthResponse {
-  user: Omit<User, "password" | "refresh_token">;
+  user: Omit<User, "password">;
   accessToken: string;
   refreshToken: string;
   message: string;
@@ -39,7 +42,15 @@ export interface AuthResponse {
 }
 
 export interface ProfileResponse {
-  data: Omit<User, "password" | "refresh_token">;
+  data: Omit<User, "password">;
+  success: boolean;
+}
+
+// First step of a login for accounts with two-factor authentication
+export interface TwoFactorChallengeResponse {
+  two_factor_required: true;
+  challengeToken: string;
+  message: string;
   success: boolean;
 }
 
@@ -62,6 +73,15 @@ export interface JWTPayload {
   id: number;
   email: string;
   type: "access" | "refresh";
+  sid: number; // The UserSession the token belongs to
+  iat?: number;
+  exp?: number;
+}
+
+// Issued after the password step of a two-factor login, exchanged for tokens with a code
+export interface TwoFactorChallengePayload {
+  id: number;
+  type: "2fa_challenge";
   iat?: number;
   exp?: number;
 }
@@ -69,6 +89,13 @@ export interface JWTPayload {
 // Extended Request interface with authenticated user
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  sessionId?: number;
+}
+
+// Where a sign-in comes from, recorded on its session
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
 }
 
 // User update data type
@@ -7,10 +7,17 @@ export type NotificationType =
   | "borrow_request_pickup_ready"
   | "borrow_request_overdue"
   | "borrow_request_returned"
+  | "borrow_request_extension_requested"
+  | "borrow_request_extension_approved"
+  | "borrow_request_extension_declined"
   | "review_received"
   | "review_response"
   | "chat_message"
   | "resource_available"
+  | "saved_search_match"
+  | "deposit_update"
+  | "dispute_update"
+  | "condition_report"
   | "system_announcement"
   | "account_update"
   | "reminder";
@@ -1,4 +1,4 @@
-import { Resource } from "../entities/Resource";
+import { Resource, ResourceVisibility } from "../entities/Resource";
 import { ResourcePhoto } from "../entities/ResourcePhoto";
 import { User } from "../entities/User";
 
@@ -19,6 +19,8 @@ export interface CreateResourceRequest {
   available_days?: string[];
   available_time_start?: string;
   available_time_end?: string;
+  visibility?: ResourceVisibility;
+  community_ids?: number[]; // Communities that can see it when visibility is "communities"
 }
 
 // Resource update request
@@ -40,6 +42,8 @@ export interface UpdateResourceRequest {
   available_time_end?: string;
   is_available?: boolean;
   status?: string; // active, borrowed, maintenance, inactive
+  visibility?: ResourceVisibility;
+  community_ids?: number[];
 }
 
 // Resource query filters
@@ -55,7 +59,12 @@ export interface ResourceQueryFilters {
   max_value?: number;
   max_borrow_days?: number;
   deposit_required?: boolean;
+  max_deposit?: number; // No deposit or at most this much
   pickup_required?: boolean;
+  owner_id?: number; // One owner's listings, e.g. to bundle several of their items
+  // Community scope: listings shared with the community, or public ones by its members
+  community_id?: number;
+  my_communities?: boolean; // Every community the current user belongs to
   // Location-based filters
   latitude?: number;
   longitude?: number;
@@ -64,10 +73,28 @@ export interface ResourceQueryFilters {
   available_from?: string;
   available_to?: string;
   // Sorting
-  sort_by?: 'created_at' | 'title' | 'estimated_value' | 'views_count' | 'average_rating';
+  sort_by?: 'created_at' | 'title' | 'estimated_value' | 'views_count' | 'average_rating' | 'distance' | 'relevance'; // distance needs latitude/longitude, relevance a search
   sort_order?: 'ASC' | 'DESC';
 }
 
+// Criteria a saved search keeps; paging and sorting are not stored
+export type SavedSearchFilters = Pick<
+  ResourceQueryFilters,
+  | 'category'
+  | 'search'
+  | 'condition'
+  | 'min_value'
+  | 'max_value'
+  | 'max_borrow_days'
+  | 'deposit_required'
+  | 'max_deposit'
+  | 'pickup_required'
+  | 'owner_id'
+  | 'latitude'
+  | 'longitude'
+  | 'radius'
+>;
+
 // Resource with owner info (for public listings)
 export interface ResourceWithOwner extends Omit<Resource, 'owner'> {
   owner: {
@@ -80,14 +107,18 @@ export interface ResourceWithOwner extends Omit<Resource, 'owner'> {
   };
   photos?: ResourcePhoto[];
   distance?: number; // calculated distance from user's location
+  search_snippet?: string; // matched text with <mark> highlights, when searching
+  is_favourited?: boolean; // whether the current user favourited it (signed-in requests only)
 }
 
 // Resource with full owner info (for resource details)
 export interface ResourceWithFullOwner extends Omit<Resource, 'owner'> {
-  owner: Omit<User, 'password' | 'refresh_token' | 'email'>;
+  owner: Omit<User, 'password' | 'email'>;
   photos?: ResourcePhoto[];
   distance?: number;
   can_edit?: boolean; // whether current user can edit this resource
+  is_favourited?: boolean;
+  community_ids?: number[]; // communities it is shown to (owner only)
 }
 
 // Paginated resource response
@@ -161,6 +192,12 @@ export const RESOURCE_STATUSES = [
 
 export type ResourceStatus = typeof RESOURCE_STATUSES[number];
 
+// Who can see a resource
+export const RESOURCE_VISIBILITIES = [
+  'public',
+  'communities'
+] as const;
+
 // Photo upload request
 export interface ResourcePhotoRequest {
   resource_id: number;
@@ -0,0 +1,40 @@
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const linkEmail = (data: { name: string; intro: string; action: string; link: string; outro: string }) => ({
+  text: `Hi ${data.name},\n\n${data.intro}\n\n${data.link}\n\n${data.outro}\n\n— Borrow Base`,
+  html:
+    `<p>Hi ${escapeHtml(data.name)},</p>` +
+    `<p>${escapeHtml(data.intro)}</p>` +
+    `<p><a href="${escapeHtml(data.link)}">${escapeHtml(data.action)}</a></p>` +
+    `<p>${escapeHtml(data.outro)}</p>` +
+    `<p>— Borrow Base</p>`
+});
+
+export const EmailTemplates = {
+  email_verification: (data: { name: string; link: string; expires_in_hours: number }) => ({
+    subject: "Confirm your Borrow Base email",
+    ...linkEmail({
+      name: data.name,
+      intro: "Confirm your email address to finish setting up your Borrow Base account.",
+      action: "Confirm email",
+      link: data.link,
+      outro: `This link works once and expires in ${data.expires_in_hours} hours. If you did not sign up, ignore this email.`
+    })
+  }),
+  password_reset: (data: { name: string; link: string; expires_in_minutes: number }) => ({
+    subject: "Reset your Borrow Base password",
+    ...linkEmail({
+      name: data.name,
+      intro: "Someone asked to reset the password for your Borrow Base account.",
+      action: "Choose a new password",
+      link: data.link,
+      outro: `This link works once and expires in ${data.expires_in_minutes} minutes. If you did not ask for it, ignore this email; your password stays the same.`
+    })
+  })
+};
@@ -1,3 +1,5 @@
+import { appEnvironment } from "../config/env";
+
 // Custom error classes for better error handling
 export class AppError extends Error {
   public statusCode: number;
@@ -49,6 +51,21 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  public retryAfterSeconds?: number;
+
+  constructor(message: string = 'Too many requests, please try again later', retryAfterSeconds?: number) {
+    super(message, 429, 'TOO_MANY_REQUESTS');
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string = 'Service temporarily unavailable, please try again shortly') {
+    super(message, 503, 'SERVICE_UNAVAILABLE');
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string = 'Database operation failed') {
     super(message, 500, 'DATABASE_ERROR');
@@ -85,7 +102,7 @@ export const formatErrorResponse = (error: Error | AppError, includeStack: boole
   }
 
   // Include stack trace in development
-  if (includeStack && process.env.NODE_ENV === 'development') {
+  if (includeStack && appEnvironment === 'development') {
     response.error = {
       ...response.error,
       stack: error.stack
@@ -317,15 +334,20 @@ export const asyncHandler = (fn: Function) => {
   };
 };
 
-// Controller error handler
-export const handleControllerError = (error: Error | AppError, res: any) => {
+// Controller error handler; anything thrown that is not an Error is reported as one
+export const handleControllerError = (thrown: unknown, res: any) => {
+  const error = thrown instanceof Error ? thrown : new Error(String(thrown));
   let statusCode = 500;
   
   if (error instanceof AppError) {
     statusCode = error.statusCode;
   }
 
-  const isDevelopment = process.env.NODE_ENV === 'development';
+  if (error instanceof TooManyRequestsError && error.retryAfterSeconds) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  const isDevelopment = appEnvironment === 'development';
   const errorResponse = formatErrorResponse(error, isDevelopment);
 
   // Log error in development
@@ -349,7 +371,11 @@ export const globalErrorHandler = (
     statusCode = error.statusCode;
   }
 
-  const isDevelopment = process.env.NODE_ENV === 'development';
+  if (error instanceof TooManyRequestsError && error.retryAfterSeconds) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  const isDevelopment = appEnvironment === 'development';
   const errorResponse = formatErrorResponse(error, isDevelopment);
 
   // Log error in development
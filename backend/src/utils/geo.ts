@@ -0,0 +1,90 @@
+import { LocationCoordinates } from "../types/resource";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// Latitude/longitude range around a point; minLongitude > maxLongitude when it crosses the 180th meridian
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+/**
+ * Great-circle distance between two points in kilometers (Haversine), rounded to 10 m
+ */
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return parseFloat((EARTH_RADIUS_KM * c).toFixed(2));
+};
+
+/**
+ * Smallest latitude/longitude box containing every point within radiusKm of the center.
+ * Cheap to query on indexed coordinate columns; results still need calculateDistance to drop the corners.
+ */
+export const boundingBox = (center: LocationCoordinates, radiusKm: number): BoundingBox => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const minLatitude = center.latitude - latDelta;
+  const maxLatitude = center.latitude + latDelta;
+
+  // Near a pole every longitude is within reach
+  if (minLatitude <= -90 || maxLatitude >= 90) {
+    return {
+      minLatitude: Math.max(minLatitude, -90),
+      maxLatitude: Math.min(maxLatitude, 90),
+      minLongitude: -180,
+      maxLongitude: 180
+    };
+  }
+
+  // Widest at the latitude furthest from the equator
+  const widestLatitude = Math.max(Math.abs(minLatitude), Math.abs(maxLatitude));
+  const lngDelta = latDelta / Math.cos(toRadians(widestLatitude));
+
+  if (lngDelta >= 180) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  const wrap = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+  return {
+    minLatitude,
+    maxLatitude,
+    minLongitude: wrap(center.longitude - lngDelta),
+    maxLongitude: wrap(center.longitude + lngDelta)
+  };
+};
+
+/**
+ * Whether a point lies inside a polygon (ray casting on latitude/longitude, fine at neighborhood scale).
+ * The polygon is closed implicitly; points exactly on an edge may fall either way.
+ */
+export const isPointInPolygon = (point: LocationCoordinates, polygon: LocationCoordinates[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses =
+      (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+};
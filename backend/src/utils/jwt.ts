@@ -1,21 +1,25 @@
 import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
 import { User } from "../entities/User";
-import { JWTPayload } from "../types/auth";
+import { appConfig } from "../config/app";
+import { twoFactorConfig } from "../config/twoFactor";
+import { JWTPayload, TwoFactorChallengePayload } from "../types/auth";
 
 export class JWTService {
-  private static readonly ACCESS_TOKEN_SECRET = process.env.JWT_SECRET || "your-super-secret-access-key";
-  private static readonly REFRESH_TOKEN_SECRET = process.env.JWT_REFRESH_SECRET || "your-super-secret-refresh-key";
-  private static readonly ACCESS_TOKEN_EXPIRY = "15m";
-  private static readonly REFRESH_TOKEN_EXPIRY = "7d";
+  private static readonly ACCESS_TOKEN_SECRET = appConfig.auth.accessTokenSecret;
+  private static readonly REFRESH_TOKEN_SECRET = appConfig.auth.refreshTokenSecret;
+  private static readonly ACCESS_TOKEN_EXPIRY = `${appConfig.auth.accessTokenMinutes}m` as const;
+  private static readonly REFRESH_TOKEN_EXPIRY_DAYS = appConfig.auth.refreshTokenExpiryDays;
 
   /**
-   * Generate access token for user
+   * Generate access token for a user's session
    */
-  static generateAccessToken(user: User): string {
+  static generateAccessToken(user: User, sessionId: number): string {
     const payload: Omit<JWTPayload, "iat" | "exp"> = {
       id: user.id,
       email: user.email,
-      type: "access"
+      type: "access",
+      sid: sessionId
     };
 
     return jwt.sign(payload, this.ACCESS_TOKEN_SECRET, {
@@ -24,20 +28,30 @@ export class JWTService {
   }
 
   /**
-   * Generate refresh token for user
+   * Generate refresh token for a user's session
    */
-  static generateRefreshToken(user: User): string {
+  static generateRefreshToken(user: User, sessionId: number): string {
     const payload: Omit<JWTPayload, "iat" | "exp"> = {
       id: user.id,
       email: user.email,
-      type: "refresh"
+      type: "refresh",
+      sid: sessionId
     };
 
+    // A unique id keeps tokens rotated within the same second distinct
     return jwt.sign(payload, this.REFRESH_TOKEN_SECRET, {
-      expiresIn: this.REFRESH_TOKEN_EXPIRY
+      expiresIn: `${this.REFRESH_TOKEN_EXPIRY_DAYS}d`,
+      jwtid: randomUUID()
     });
   }
 
+  /**
+   * When a refresh token issued now expires
+   */
+  static getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  }
+
   /**
    * Verify access token
    */
@@ -85,15 +99,52 @@ export class JWTService {
   }
 
   /**
-   * Generate both tokens for user
+   * Generate both tokens for a user's session
    */
-  static generateTokenPair(user: User): { accessToken: string; refreshToken: string } {
+  static generateTokenPair(user: User, sessionId: number): { accessToken: string; refreshToken: string } {
     return {
-      accessToken: this.generateAccessToken(user),
-      refreshToken: this.generateRefreshToken(user)
+      accessToken: this.generateAccessToken(user, sessionId),
+      refreshToken: this.generateRefreshToken(user, sessionId)
     };
   }
 
+  /**
+   * Generate the short-lived token that carries a login from the password step to the code step
+   */
+  static generateTwoFactorChallengeToken(user: User): string {
+    const payload: Omit<TwoFactorChallengePayload, "iat" | "exp"> = {
+      id: user.id,
+      type: "2fa_challenge"
+    };
+
+    return jwt.sign(payload, this.ACCESS_TOKEN_SECRET, {
+      expiresIn: `${twoFactorConfig.challengeMinutes}m`
+    });
+  }
+
+  /**
+   * Verify a two-factor login challenge token
+   */
+  static verifyTwoFactorChallengeToken(token: string): TwoFactorChallengePayload {
+    try {
+      const decoded = jwt.verify(token, this.ACCESS_TOKEN_SECRET) as TwoFactorChallengePayload;
+
+      if (decoded.type !== "2fa_challenge") {
+        throw new Error("Invalid token type");
+      }
+
+      return decoded;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error("Login challenge expired, please sign in again");
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        throw new Error("Invalid login challenge");
+      }
+      throw error;
+    }
+  }
+
   /**
    * Extract token from Authorization header
    */
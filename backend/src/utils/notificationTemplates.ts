@@ -20,6 +20,10 @@ export const NotificationTemplates = {
       title: "Item Overdue",
       message: `Your borrowed item ${data.resource_name || ""} is overdue${data.days_overdue ? ` by ${data.days_overdue} day(s)` : ""}. Please return it as soon as possible.`,
     }),
+    overdue_owner: (data: { resource_name?: string; requester_name?: string; days_overdue?: number }) => ({
+      title: "Item Not Returned",
+      message: `${data.requester_name || "The borrower"} has not returned ${data.resource_name || "your item"}${data.days_overdue ? `, now ${data.days_overdue} day(s) overdue` : ""}. We've reminded them to return it.`,
+    }),
   },
   review: {
     received: (data: { rating?: number }) => ({
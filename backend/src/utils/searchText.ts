@@ -0,0 +1,9 @@
+/**
+ * Lowercased words without accents, the way the unicode61 tokenizer sees them
+ */
+export const tokenize = (text: string): string[] =>
+  (text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || []);
@@ -0,0 +1,23 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Encrypt a short secret with AES-256-GCM; the result is "iv.tag.ciphertext" in base64
+ */
+export const encryptSecret = (plaintext: string, key: Buffer): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+};
+
+/**
+ * Decrypt a value produced by encryptSecret; throws if it was tampered with
+ */
+export const decryptSecret = (encrypted: string, key: Buffer): string => {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+};
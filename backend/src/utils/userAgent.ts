@@ -0,0 +1,37 @@
+// Checked in order: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"]
+];
+
+// Checked in order: Android and iOS user agents also mention Linux and Mac OS
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"]
+];
+
+/**
+ * A short label for the device behind a user agent, e.g. "Firefox on Windows"
+ */
+export const describeUserAgent = (userAgent?: string | null): string => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  // API clients such as curl or a mobile app's HTTP library: keep their product name
+  return browser || system || userAgent.split(/[\s/]/)[0].slice(0, 100) || "Unknown device";
+};
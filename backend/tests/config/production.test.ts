@@ -0,0 +1,75 @@
+/**
+ * Config modules read the environment when first imported, so each case loads a fresh copy
+ * with NODE_ENV=production and the variables under test
+ */
+const PRODUCTION = {
+  NODE_ENV: "production",
+  JWT_SECRET: "9f2c4e8a1b7d3f6e0a5c9b2d4f8e1a3c7b6d0e2f",
+  JWT_REFRESH_SECRET: "3b8e1d6f0a4c9e2b7d5f1a8c3e6b0d4f9a2c7e5b",
+  CORS_ORIGINS: "https://borrowbase.example",
+  PAYMENT_PROVIDER: undefined,
+  MAIL_TRANSPORT: "smtp",
+  APP_URL: "https://borrowbase.example",
+  TWO_FACTOR_ENCRYPTION_KEY: "c1e7a4f9b2d8e5a0c3f6b9d2e8a1c4f7b0d3e6a9"
+};
+
+const loadInProduction = (module: string, env: Record<string, string | undefined>): void => {
+  const saved = process.env;
+  process.env = { ...saved };
+
+  for (const [name, value] of Object.entries({ ...PRODUCTION, ...env })) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+
+  try {
+    jest.isolateModules(() => {
+      jest.requireActual(module);
+    });
+  } finally {
+    process.env = saved;
+  }
+};
+
+describe("production configuration", () => {
+  it("requires a real payment provider", () => {
+    expect(() => loadInProduction("../../src/config/payments", {})).toThrow(
+      "PAYMENT_PROVIDER is required in production"
+    );
+    expect(() => loadInProduction("../../src/config/payments", { PAYMENT_PROVIDER: "fake" })).toThrow(
+      "PAYMENT_PROVIDER must not be fake in production"
+    );
+  });
+
+  it("refuses console mail and a localhost app URL", () => {
+    expect(() => loadInProduction("../../src/config/mail", {})).not.toThrow();
+    expect(() => loadInProduction("../../src/config/mail", { MAIL_TRANSPORT: "console" })).toThrow(
+      "MAIL_TRANSPORT must not be console in production"
+    );
+    expect(() => loadInProduction("../../src/config/mail", { APP_URL: "http://localhost:5173" })).toThrow(
+      "APP_URL must not point at localhost in production"
+    );
+    expect(() => loadInProduction("../../src/config/mail", { APP_URL: undefined })).toThrow(
+      "APP_URL is required in production"
+    );
+  });
+
+  it("requires a two-factor encryption key of its own", () => {
+    expect(() => loadInProduction("../../src/config/twoFactor", {})).not.toThrow();
+    expect(() => loadInProduction("../../src/config/twoFactor", { TWO_FACTOR_ENCRYPTION_KEY: undefined })).toThrow(
+      "TWO_FACTOR_ENCRYPTION_KEY is required in production"
+    );
+    expect(() =>
+      loadInProduction("../../src/config/twoFactor", { TWO_FACTOR_ENCRYPTION_KEY: PRODUCTION.JWT_SECRET })
+    ).toThrow("TWO_FACTOR_ENCRYPTION_KEY must differ from JWT_SECRET in production");
+  });
+
+  it("reports every invalid value at once", () => {
+    expect(() =>
+      loadInProduction("../../src/config/rateLimits", { RATE_LIMIT_LOGIN_MAX: "many", RATE_LIMIT_ENABLED: "yes" })
+    ).toThrow(/RATE_LIMIT_ENABLED must be true or false[\s\S]*RATE_LIMIT_LOGIN_MAX must be a whole number/);
+  });
+});
@@ -0,0 +1,62 @@
+import { Response } from "express";
+import { AppDataSource } from "../src/config/database";
+import { UserService } from "../src/services/UserService";
+import { RegisterRequest } from "../src/types/auth";
+
+/**
+ * Connect and rebuild the schema from the migrations, so every suite starts from an empty database
+ */
+export const resetDatabase = async (): Promise<void> => {
+  if (!AppDataSource.isInitialized) {
+    await AppDataSource.initialize();
+  }
+
+  await AppDataSource.dropDatabase();
+  await AppDataSource.runMigrations();
+};
+
+export const closeDatabase = async (): Promise<void> => {
+  if (AppDataSource.isInitialized) {
+    await AppDataSource.destroy();
+  }
+};
+
+let userCount = 0;
+
+/**
+ * Register a user with a unique email; the password is always "password123"
+ */
+export const createUser = async (data: Partial<RegisterRequest> = {}) => {
+  userCount += 1;
+
+  const { user } = await new UserService().register({
+    name: `Test User ${userCount}`,
+    email: `user${userCount}@example.com`,
+    password: "password123",
+    ...data
+  });
+
+  return user;
+};
+
+/**
+ * Stand-in for an Express response that records the status and JSON body a controller sends
+ */
+export const mockResponse = () => {
+  const sent: { status: number; body?: unknown } = { status: 200 };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+    set() {
+      return res;
+    }
+  };
+
+  return { res: res as unknown as Response, sent };
+};
@@ -0,0 +1,46 @@
+import { databaseConfig } from "../../src/config/databaseConfig";
+import { UserService } from "../../src/services/UserService";
+import { closeDatabase, createUser, resetDatabase } from "../helpers";
+
+describe(`auth (${databaseConfig.type})`, () => {
+  const userService = new UserService();
+
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  it("registers a user and signs them in", async () => {
+    const user = await createUser({ email: "ada@example.com", latitude: 51.5072, longitude: -0.1276 });
+
+    expect(user.id).toBeGreaterThan(0);
+    expect(user).not.toHaveProperty("password");
+    expect(user.latitude).toBeCloseTo(51.5072);
+
+    const result = await userService.login("ada@example.com", "password123");
+    expect(result).toHaveProperty("accessToken");
+  });
+
+  it("rejects a duplicate email", async () => {
+    await createUser({ email: "taken@example.com" });
+
+    await expect(createUser({ email: "taken@example.com" })).rejects.toThrow("already exists");
+  });
+
+  it("rejects a wrong password", async () => {
+    await createUser({ email: "wrong@example.com" });
+
+    await expect(userService.login("wrong@example.com", "not-the-password")).rejects.toThrow("Invalid credentials");
+  });
+
+  it("rotates refresh tokens and refuses a reused one", async () => {
+    await createUser({ email: "refresh@example.com" });
+    const login = await userService.login("refresh@example.com", "password123");
+    if (!("refreshToken" in login)) {
+      throw new Error("Expected a session");
+    }
+
+    const rotated = await userService.refreshToken(login.refreshToken);
+    expect(rotated.refreshToken).not.toBe(login.refreshToken);
+
+    await expect(userService.refreshToken(login.refreshToken)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,141 @@
+import { AppDataSource } from "../../src/config/database";
+import { databaseConfig } from "../../src/config/databaseConfig";
+import { BorrowRequestController } from "../../src/controllers/BorrowRequestController";
+import { BorrowRequest } from "../../src/entities/BorrowRequest";
+import { Notification } from "../../src/entities/Notification";
+import { BorrowRequestService } from "../../src/services/BorrowRequestService";
+import { ChatService } from "../../src/services/ChatService";
+import { DisputeService } from "../../src/services/DisputeService";
+import { ResourceService } from "../../src/services/ResourceService";
+import { AuthenticatedRequest } from "../../src/types/auth";
+import { closeDatabase, createUser, mockResponse, resetDatabase } from "../helpers";
+
+const daysFromNow = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+describe(`borrowing (${databaseConfig.type})`, () => {
+  const borrowRequestService = new BorrowRequestService();
+  const chatService = new ChatService();
+  const resourceService = new ResourceService();
+
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  it("creates and approves a borrow request, counting it in the requester's stats", async () => {
+    const owner = await createUser();
+    const requester = await createUser();
+    const resource = await resourceService.createResource(
+      { title: "Ladder", description: "Three metre aluminium ladder", category: "Tools" },
+      owner.id
+    );
+
+    const request = await borrowRequestService.createBorrowRequest(
+      { resource_id: resource.id, requester_id: requester.id, start_date: daysFromNow(2), end_date: daysFromNow(4) },
+      false
+    );
+    expect(request.status).toBe("pending");
+
+    await expect(
+      borrowRequestService.createBorrowRequest(
+        { resource_id: resource.id, requester_id: requester.id, start_date: daysFromNow(3), end_date: daysFromNow(5) },
+        false
+      )
+    ).rejects.toThrow("pending request");
+
+    const approved = await borrowRequestService.updateRequestStatus(request.id, "approved", owner.id, undefined, false);
+    expect(approved.status).toBe("approved");
+
+    const requesterStats = await borrowRequestService.getUserStats(requester.id);
+    expect(requesterStats.totalRequests).toBe(1);
+    expect(requesterStats.approvedRequests).toBe(1);
+
+    // Lending counts once the item has come back
+    const ownerStats = await borrowRequestService.getUserStats(owner.id);
+    expect(ownerStats.totalRequests).toBe(0);
+    expect(ownerStats.resourcesLent).toBe(0);
+  });
+
+  it("delivers chat messages and counts the unread ones", async () => {
+    const alice = await createUser();
+    const bob = await createUser();
+
+    const chat = await chatService.createOrGetChat(alice.id, bob.id);
+    expect((await chatService.createOrGetChat(bob.id, alice.id)).id).toBe(chat.id);
+
+    await chatService.sendMessage(chat.id, alice.id, "Is the ladder free on Saturday?");
+    await chatService.sendMessage(chat.id, alice.id, "I can pick it up in the morning");
+
+    expect(await chatService.getUnreadMessageCount(bob.id)).toBe(2);
+    expect(await chatService.getUnreadMessageCount(alice.id)).toBe(0);
+
+    // Messages in quick succession share one notification
+    const notifications = await AppDataSource.getRepository(Notification).find({
+      where: { user_id: bob.id, notification_type: "chat_message" }
+    });
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].metadata).toEqual({ messageCount: 2 });
+
+    await chatService.markMessagesAsRead(chat.id, bob.id);
+    expect(await chatService.getUnreadMessageCount(bob.id)).toBe(0);
+  });
+
+  it("ignores deposit flags sent to the update endpoint", async () => {
+    const owner = await createUser();
+    const requester = await createUser();
+    const resource = await resourceService.createResource(
+      { title: "Pressure washer", description: "Electric pressure washer", category: "Tools", deposit_required: 50 },
+      owner.id
+    );
+    const request = await borrowRequestService.createBorrowRequest(
+      { resource_id: resource.id, requester_id: requester.id, start_date: daysFromNow(2), end_date: daysFromNow(3) },
+      false
+    );
+
+    const controller = new BorrowRequestController();
+    const update = async (userId: number, body: object) => {
+      const { res, sent } = mockResponse();
+      const req = { user: { id: userId }, params: { id: String(request.id) }, body } as unknown as AuthenticatedRequest;
+      await controller.updateBorrowRequest(req, res);
+      return sent;
+    };
+
+    expect((await update(requester.id, { deposit_paid: true })).status).toBe(400);
+    expect((await update(owner.id, { deposit_returned: true })).status).toBe(400);
+
+    const stored = await AppDataSource.getRepository(BorrowRequest).findOneByOrFail({ id: request.id });
+    expect(stored.deposit_paid).toBe(false);
+    expect(stored.deposit_returned).toBe(false);
+  });
+
+  it("keeps a reported issue open while a dispute about it is open", async () => {
+    const owner = await createUser();
+    const requester = await createUser();
+    const resource = await resourceService.createResource(
+      { title: "Tile cutter", description: "Manual tile cutter", category: "Tools" },
+      owner.id
+    );
+    const request = await borrowRequestService.createBorrowRequest(
+      { resource_id: resource.id, requester_id: requester.id, start_date: daysFromNow(1), end_date: daysFromNow(2) },
+      false
+    );
+    await borrowRequestService.updateRequestStatus(request.id, "approved", owner.id, undefined, false);
+    await borrowRequestService.markAsPickedUp(request.id, owner.id);
+    await borrowRequestService.markAsReturned(request.id, owner.id, undefined, true, "Cracked base plate");
+
+    await new DisputeService().openDispute(requester.id, {
+      borrow_request_id: request.id,
+      reason: "The base plate was already cracked"
+    });
+
+    await expect(
+      borrowRequestService.updateBorrowRequest(request.id, owner.id, { has_issues: false })
+    ).rejects.toThrow("open dispute");
+
+    const stored = await AppDataSource.getRepository(BorrowRequest).findOneByOrFail({ id: request.id });
+    expect(stored.has_issues).toBe(true);
+    expect(stored.issue_resolved).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { AppDataSource } from "../../src/config/database";
+import { databaseConfig } from "../../src/config/databaseConfig";
+import { closeDatabase, resetDatabase } from "../helpers";
+
+describe(`migrations (${databaseConfig.type})`, () => {
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  it("applies every migration", async () => {
+    expect(await AppDataSource.showMigrations()).toBe(false);
+  });
+
+  it("leaves a schema matching the entities", async () => {
+    const pending = await AppDataSource.driver.createSchemaBuilder().log();
+
+    expect(pending.upQueries.map((query) => query.query)).toEqual([]);
+  });
+
+  it("reverts the latest migration and applies it again", async () => {
+    await AppDataSource.undoLastMigration();
+    expect(await AppDataSource.showMigrations()).toBe(true);
+
+    await AppDataSource.runMigrations();
+    expect(await AppDataSource.showMigrations()).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { AppDataSource } from "../../src/config/database";
+import { databaseConfig } from "../../src/config/databaseConfig";
+import { User } from "../../src/entities/User";
+import { CommunityService } from "../../src/services/CommunityService";
+import { ResourceService } from "../../src/services/ResourceService";
+import { closeDatabase, createUser, resetDatabase } from "../helpers";
+
+describe(`resources (${databaseConfig.type})`, () => {
+  const resourceService = new ResourceService();
+  let lender: Omit<User, "password">;
+  let farLender: Omit<User, "password">;
+  let borrower: Omit<User, "password">;
+
+  beforeAll(async () => {
+    await resetDatabase();
+
+    // Central London, about 3 km away, and Manchester
+    borrower = await createUser({ latitude: 51.5072, longitude: -0.1276 });
+    lender = await createUser({ latitude: 51.5246, longitude: -0.0966 });
+    farLender = await createUser({ latitude: 53.4808, longitude: -2.2426 });
+
+    await resourceService.createResource(
+      {
+        title: "Cordless Power Drill",
+        description: "18V drill with two batteries and a set of bits",
+        category: "Tools",
+        estimated_value: 89.99,
+        deposit_required: 20.5
+      },
+      lender.id
+    );
+    await resourceService.createResource(
+      {
+        title: "Camping Tent",
+        description: "Four person tent, waterproof, easy to pitch",
+        category: "Garden & Outdoor"
+      },
+      lender.id
+    );
+    await resourceService.createResource(
+      {
+        title: "Hammer Drill",
+        description: "Heavy hammer drill for masonry work",
+        category: "Tools"
+      },
+      farLender.id
+    );
+  });
+
+  afterAll(closeDatabase);
+
+  it("returns decimal columns as numbers", async () => {
+    const { data } = await resourceService.getResources({ search: "cordless" }, borrower.id);
+
+    expect(data).toHaveLength(1);
+    expect(data[0].estimated_value).toBe(89.99);
+    expect(data[0].deposit_required).toBe(20.5);
+  });
+
+  it("ranks full-text matches and highlights them", async () => {
+    const { data } = await resourceService.getResources({ search: "drill", sort_by: "relevance" }, borrower.id);
+
+    expect(data.map((resource) => resource.title).sort()).toEqual(["Cordless Power Drill", "Hammer Drill"]);
+    expect(data[0].search_snippet).toContain("<mark>");
+  });
+
+  it("matches word prefixes and typos", async () => {
+    const prefix = await resourceService.getResources({ search: "camp" }, borrower.id);
+    expect(prefix.data.map((resource) => resource.title)).toEqual(["Camping Tent"]);
+
+    const typo = await resourceService.getResources({ search: "tant" }, borrower.id);
+    expect(typo.data.map((resource) => resource.title)).toEqual(["Camping Tent"]);
+  });
+
+  it("suggests titles for a partial query", async () => {
+    const suggestions = await resourceService.getSearchSuggestions("dri");
+
+    expect(suggestions).toEqual(expect.arrayContaining(["Cordless Power Drill", "Hammer Drill"]));
+  });
+
+  it("limits results to a radius, nearest first", async () => {
+    const { data } = await resourceService.getResources(
+      { latitude: 51.5072, longitude: -0.1276, radius: 10 },
+      borrower.id
+    );
+
+    expect(data.map((resource) => resource.title).sort()).toEqual(["Camping Tent", "Cordless Power Drill"]);
+    expect(data[0].distance).toBeGreaterThan(2);
+    expect(data[0].distance).toBeLessThan(4);
+  });
+
+  it("counts resources per category", async () => {
+    const categories = await resourceService.getResourceCategories();
+
+    expect(categories).toEqual([
+      { category: "Tools", count: 2 },
+      { category: "Garden & Outdoor", count: 1 }
+    ]);
+  });
+
+  it("leaves listings shared with a private community out of everyone else's counts", async () => {
+    await AppDataSource.getRepository(User).update(lender.id, { is_location_verified: true });
+    const community = await new CommunityService().create(
+      { name: "Clerkenwell Sharers", center_latitude: 51.5246, center_longitude: -0.0966, radius_km: 1 },
+      lender.id
+    );
+    await resourceService.createResource(
+      {
+        title: "Tile Cutter",
+        description: "Manual cutter for ceramic tiles up to 60 cm",
+        category: "Tools",
+        visibility: "communities",
+        community_ids: [community.id]
+      },
+      lender.id
+    );
+
+    expect(await resourceService.getResourceCategories()).toContainEqual({ category: "Tools", count: 2 });
+    expect(await resourceService.getResourceCategories(borrower.id)).toContainEqual({ category: "Tools", count: 2 });
+    expect(await resourceService.getResourceCategories(lender.id)).toContainEqual({ category: "Tools", count: 3 });
+  });
+});
@@ -0,0 +1,47 @@
+import { NextFunction } from "express";
+import { rateLimitConfig } from "../../src/config/rateLimits";
+import { rateLimit } from "../../src/middleware/rateLimit";
+import * as RateLimitStore from "../../src/services/RateLimitStore";
+import { AuthenticatedRequest } from "../../src/types/auth";
+import { mockResponse } from "../helpers";
+
+describe("rateLimit middleware", () => {
+  const request = { ip: "10.0.1.1" } as AuthenticatedRequest;
+
+  beforeEach(() => {
+    rateLimitConfig.enabled = true;
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(RateLimitStore, "getRateLimitStore").mockReturnValue({
+      name: "broken",
+      increment: () => Promise.reject(new Error("connection refused")),
+      get: () => Promise.reject(new Error("connection refused")),
+      reset: () => Promise.reject(new Error("connection refused"))
+    });
+  });
+
+  afterEach(() => {
+    rateLimitConfig.enabled = false;
+    jest.restoreAllMocks();
+  });
+
+  it("refuses logins while the store is failing", async () => {
+    const { res, sent } = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await rateLimit("login")(request, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(sent.status).toBe(503);
+    expect(console.error).toHaveBeenCalledWith("Rate limit store failed for login:", expect.any(Error));
+  });
+
+  it("lets other requests through while the store is failing, logging the error", async () => {
+    const { res } = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await rateLimit("chatMessage")(request, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith("Rate limit store failed for chatMessage:", expect.any(Error));
+  });
+});
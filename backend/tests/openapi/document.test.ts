@@ -0,0 +1,65 @@
+import { Definition } from "ts-json-schema-generator";
+import { findStaleOperationTypes, findUntypedRoutes } from "../../src/openapi/document";
+import { ScannedRoute } from "../../src/openapi/routeScanner";
+
+const route = (file: string, method: ScannedRoute["method"], localPath: string): ScannedRoute => ({
+  method,
+  path: `/api${localPath}`,
+  file,
+  localPath,
+  summary: `${method.toUpperCase()} ${localPath}`,
+  auth: "none",
+  roles: [],
+  rateLimited: false,
+  multipart: false
+});
+
+describe("OpenAPI operation types", () => {
+  const routes = [route("things.ts", "get", "/"), route("things.ts", "post", "/"), route("things.ts", "get", "/:id")];
+  const schemas: Record<string, Definition> = { ThingResponse: { type: "object" } };
+
+  it("reports entries for routes and types that no longer exist", () => {
+    const problems = findStaleOperationTypes(routes, schemas, {
+      "things.ts": {
+        "GET /": { response: "ThingResponse" },
+        "POST /": { body: "CreateThingRequest", response: "ThingResponse" },
+        "DELETE /:id": { response: "ThingResponse" }
+      },
+      "gone.ts": { "GET /": { response: "ThingResponse" } }
+    });
+
+    expect(problems).toEqual([
+      "things.ts POST /: no type CreateThingRequest exported from openapi/schemas.ts",
+      "things.ts: no route DELETE /:id",
+      "gone.ts: no route GET /"
+    ]);
+  });
+
+  it("accepts entries that match the routes and schemas", () => {
+    expect(
+      findStaleOperationTypes(routes, schemas, { "things.ts": { "GET /:id": { response: "ThingResponse" } } })
+    ).toEqual([]);
+  });
+
+  it("reports routes without an entry once, even when the router is mounted twice", () => {
+    const mountedTwice = [...routes, { ...route("things.ts", "get", "/:id"), path: "/api/v2/{id}" }];
+
+    expect(
+      findUntypedRoutes(mountedTwice, {
+        "things.ts": { "GET /": { response: "ThingResponse" }, "POST /": { response: "ThingResponse", status: 201 } }
+      })
+    ).toEqual(["things.ts: no entry for GET /:id in openapi/operations.ts"]);
+  });
+
+  it("reports entries that name neither a response type nor a content type", () => {
+    expect(
+      findUntypedRoutes(routes, {
+        "things.ts": {
+          "GET /": { response: "ThingResponse" },
+          "POST /": { body: "CreateThingRequest", status: 201 },
+          "GET /:id": { contentType: "application/pdf" }
+        }
+      })
+    ).toEqual(["things.ts POST /: no response type"]);
+  });
+});
@@ -0,0 +1,75 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { scanRoutes } from "../../src/openapi/routeScanner";
+
+describe("scanRoutes", () => {
+  let routesDirectory: string;
+
+  const writeRoutes = (files: Record<string, string>) => {
+    for (const [name, source] of Object.entries(files)) {
+      fs.writeFileSync(path.join(routesDirectory, name), source);
+    }
+  };
+
+  beforeEach(() => {
+    routesDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(routesDirectory, { recursive: true, force: true });
+  });
+
+  it("joins the mount prefixes of the index with the paths of the mounted routers", () => {
+    writeRoutes({
+      "index.ts": [
+        'import thingRoutes from "./things";',
+        "const router = Router();",
+        'router.get("/health", healthCheck);',
+        'router.use("/things", thingRoutes);',
+        'router.use("/v2/things/", thingRoutes);'
+      ].join("\n"),
+      "things.ts": [
+        "const router = Router();",
+        'router.get("/", thingController.listThings);',
+        'router.get("/:id", thingController.getThing);',
+        'router.put("/:thingId/parts/:partId/", thingController.updatePart);'
+      ].join("\n")
+    });
+
+    const routes = scanRoutes(routesDirectory);
+
+    expect(routes.map((route) => `${route.method} ${route.path}`)).toEqual([
+      "get /api/health",
+      "get /api/things",
+      "get /api/things/{id}",
+      "put /api/things/{thingId}/parts/{partId}",
+      "get /api/v2/things",
+      "get /api/v2/things/{id}",
+      "put /api/v2/things/{thingId}/parts/{partId}"
+    ]);
+    expect(routes[2]).toMatchObject({ file: "things.ts", localPath: "/:id", summary: "Get thing" });
+  });
+
+  it("applies middleware from router.use to the routes declared after it", () => {
+    writeRoutes({
+      "index.ts": ['import adminRoutes from "./admin";', 'router.use("/admin", adminRoutes);'].join("\n"),
+      "admin.ts": [
+        'router.get("/status", adminController.getStatus);',
+        "router.use(authenticateToken);",
+        'router.use(requireRole("admin", "moderator"));',
+        'router.post("/jobs/:name/run", rateLimit("jobs"), adminController.runJob);'
+      ].join("\n")
+    });
+
+    const [status, runJob] = scanRoutes(routesDirectory);
+
+    expect(status).toMatchObject({ path: "/api/admin/status", auth: "none", roles: [], rateLimited: false });
+    expect(runJob).toMatchObject({
+      path: "/api/admin/jobs/{name}/run",
+      auth: "required",
+      roles: ["admin", "moderator"],
+      rateLimited: true
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { AppDataSource } from "../../src/config/database";
+import { BorrowRequest } from "../../src/entities/BorrowRequest";
+import { BorrowRequestEvent } from "../../src/entities/BorrowRequestEvent";
+import { BorrowRequestService } from "../../src/services/BorrowRequestService";
+import { BorrowRequestStateMachine } from "../../src/services/BorrowRequestStateMachine";
+import { ResourceService } from "../../src/services/ResourceService";
+import { ConflictError, UnauthorizedError } from "../../src/utils/errors";
+import { closeDatabase, createUser, resetDatabase } from "../helpers";
+
+const daysFromNow = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+describe("BorrowRequestStateMachine", () => {
+  const stateMachine = new BorrowRequestStateMachine();
+  const borrowRequestService = new BorrowRequestService();
+  const resourceService = new ResourceService();
+
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  const createPendingRequest = async () => {
+    const owner = await createUser();
+    const requester = await createUser();
+    const resource = await resourceService.createResource(
+      { title: "Tile cutter", description: "Manual tile cutter up to 60 cm", category: "Tools" },
+      owner.id
+    );
+    const created = await borrowRequestService.createBorrowRequest(
+      { resource_id: resource.id, requester_id: requester.id, start_date: daysFromNow(2), end_date: daysFromNow(4) },
+      false
+    );
+
+    return { owner, requester, load: () => loadRequest(created.id) };
+  };
+
+  const loadRequest = (id: number): Promise<BorrowRequest> =>
+    AppDataSource.getRepository(BorrowRequest).findOneOrFail({ where: { id }, relations: ["resource"] });
+
+  it("offers each side only the transitions the table gives it", async () => {
+    const { owner, requester, load } = await createPendingRequest();
+    const stranger = await createUser();
+    const request = await load();
+
+    expect(stateMachine.getAvailableTransitions(request, owner.id).sort()).toEqual(["approved", "rejected"]);
+    expect(stateMachine.getAvailableTransitions(request, requester.id)).toEqual(["cancelled"]);
+    expect(stateMachine.getAvailableTransitions(request, stranger.id)).toEqual([]);
+  });
+
+  it("rejects moves the table does not list and actors it does not allow", async () => {
+    const { owner, requester, load } = await createPendingRequest();
+    const request = await load();
+
+    await expect(stateMachine.transition(request, "active", owner.id)).rejects.toThrow(ConflictError);
+    await expect(stateMachine.transition(request, "approved", requester.id)).rejects.toThrow(UnauthorizedError);
+    await expect(stateMachine.transition(request, "overdue", null)).rejects.toThrow("cannot move from pending to overdue");
+
+    expect((await load()).status).toBe("pending");
+  });
+
+  it("records the move and writes the other changes with the status", async () => {
+    const { owner, load } = await createPendingRequest();
+    const request = await load();
+
+    const event = await stateMachine.transition(request, "approved", owner.id, {
+      note: "See you Saturday",
+      changes: { response_message: "See you Saturday" }
+    });
+
+    expect(event).toMatchObject({ from_status: "pending", to_status: "approved", actor_id: owner.id });
+    expect(request.status).toBe("approved");
+    expect(await load()).toMatchObject({ status: "approved", response_message: "See you Saturday" });
+  });
+
+  it("lets only the first of two racing transitions through", async () => {
+    const { owner, requester, load } = await createPendingRequest();
+    const ownerCopy = await load();
+    const requesterCopy = await load();
+
+    await stateMachine.transition(ownerCopy, "approved", owner.id);
+
+    // The requester's copy still says pending, which the conditional update catches
+    await expect(stateMachine.transition(requesterCopy, "cancelled", requester.id)).rejects.toThrow(
+      "Request status has changed, please refresh and try again"
+    );
+
+    expect((await load()).status).toBe("approved");
+    const events = await AppDataSource.getRepository(BorrowRequestEvent).find({
+      where: { borrow_request_id: ownerCopy.id, from_status: "pending" }
+    });
+    expect(events.map((event) => event.to_status)).toEqual(["approved"]);
+  });
+
+  it("approves only one of two overlapping requests answered at the same time", async () => {
+    const { owner, load } = await createPendingRequest();
+    const first = await load();
+    const borrower = await createUser();
+    const second = await borrowRequestService.createBorrowRequest(
+      { resource_id: first.resource_id, requester_id: borrower.id, start_date: daysFromNow(3), end_date: daysFromNow(5) },
+      false
+    );
+
+    const results = await Promise.allSettled([
+      borrowRequestService.updateRequestStatus(first.id, "approved", owner.id, undefined, false),
+      borrowRequestService.updateRequestStatus(second.id, "approved", owner.id, undefined, false)
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({
+      reason: expect.objectContaining({ message: "Resource is already booked for the selected dates" })
+    });
+    const statuses = [(await load()).status, (await loadRequest(second.id)).status];
+    expect(statuses.sort()).toEqual(["approved", "pending"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { AppDataSource } from "../../src/config/database";
+import { BorrowRequest } from "../../src/entities/BorrowRequest";
+import { DepositLedgerEntry } from "../../src/entities/DepositLedgerEntry";
+import { BorrowRequestService } from "../../src/services/BorrowRequestService";
+import { DepositService } from "../../src/services/DepositService";
+import { getPaymentProvider } from "../../src/services/PaymentProvider";
+import { ResourceService } from "../../src/services/ResourceService";
+import { closeDatabase, createUser, resetDatabase } from "../helpers";
+
+const daysFromNow = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+describe("DepositService", () => {
+  const depositService = new DepositService();
+  const borrowRequestService = new BorrowRequestService();
+  const resourceService = new ResourceService();
+  const provider = getPaymentProvider();
+
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(provider, "holdDeposit");
+    jest.spyOn(provider, "releaseDeposit");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * An approved request for an item with a 40.00 deposit, whose hold the owner has proposed
+   */
+  const approveWithDeposit = async () => {
+    const owner = await createUser();
+    const borrower = await createUser();
+    const resource = await resourceService.createResource(
+      { title: "Pressure washer", description: "Electric, 150 bar", category: "Tools", deposit_required: 40 },
+      owner.id
+    );
+    const request = await borrowRequestService.createBorrowRequest(
+      { resource_id: resource.id, requester_id: borrower.id, start_date: daysFromNow(2), end_date: daysFromNow(4) },
+      false
+    );
+    await borrowRequestService.updateRequestStatus(request.id, "approved", owner.id, undefined, false);
+
+    const ledger = await depositService.getRequestLedger(request.id, owner.id);
+    return { owner, borrower, requestId: request.id, hold: ledger.entries[0] };
+  };
+
+  const loadRequest = (id: number): Promise<BorrowRequest> =>
+    AppDataSource.getRepository(BorrowRequest).findOneOrFail({ where: { id }, relations: ["resource"] });
+
+  it("holds the deposit only once the borrower has confirmed as well", async () => {
+    const { owner, borrower, requestId, hold } = await approveWithDeposit();
+
+    expect(hold).toMatchObject({ type: "hold", status: "pending", borrower_confirmed_at: null });
+    expect(hold.owner_confirmed_at).toBeTruthy();
+    await expect(depositService.confirmEntry(hold.id, owner.id)).rejects.toThrow("already confirmed");
+    await expect(borrowRequestService.markAsPickedUp(requestId, owner.id)).rejects.toThrow(
+      "must confirm the deposit hold"
+    );
+    expect(provider.holdDeposit).not.toHaveBeenCalled();
+    expect((await loadRequest(requestId)).deposit_paid).toBe(false);
+
+    const confirmed = await depositService.confirmEntry(hold.id, borrower.id);
+
+    expect(confirmed.status).toBe("confirmed");
+    expect(provider.holdDeposit).toHaveBeenCalledTimes(1);
+    expect((await loadRequest(requestId)).deposit_paid).toBe(true);
+  });
+
+  it("releases the deposit after return only once the borrower has confirmed", async () => {
+    const { owner, borrower, requestId, hold } = await approveWithDeposit();
+    await depositService.confirmEntry(hold.id, borrower.id);
+    await borrowRequestService.markAsPickedUp(requestId, owner.id);
+    await borrowRequestService.markAsReturned(requestId, owner.id);
+
+    const ledger = await depositService.getRequestLedger(requestId, borrower.id);
+    const release = ledger.entries.find((entry) => entry.type === "release")!;
+    expect(release.status).toBe("pending");
+    expect(Number(release.amount)).toBe(40);
+    expect(provider.releaseDeposit).not.toHaveBeenCalled();
+    expect((await loadRequest(requestId)).deposit_returned).toBe(false);
+
+    await depositService.confirmEntry(release.id, borrower.id);
+
+    expect(provider.releaseDeposit).toHaveBeenCalledTimes(1);
+    expect((await loadRequest(requestId)).deposit_returned).toBe(true);
+    expect((await depositService.getLedger(requestId)).outstanding).toBe(0);
+  });
+
+  it("refuses to move the money for an entry twice", async () => {
+    const { borrower, requestId, hold } = await approveWithDeposit();
+    const staleHold = await AppDataSource.getRepository(DepositLedgerEntry).findOneByOrFail({ id: hold.id });
+    await depositService.confirmEntry(hold.id, borrower.id);
+
+    await expect(depositService.confirmEntry(hold.id, borrower.id)).rejects.toThrow("not awaiting confirmation");
+
+    // A second confirmation that read the entry before the first one settled it
+    await expect(depositService["execute"](staleHold, await loadRequest(requestId))).rejects.toThrow(
+      "already been settled"
+    );
+    expect(provider.holdDeposit).toHaveBeenCalledTimes(1);
+  });
+
+  it("voids the pending hold when the borrower cancels after approval", async () => {
+    const { borrower, requestId, hold } = await approveWithDeposit();
+
+    await borrowRequestService.cancelRequest(requestId, borrower.id, false);
+
+    const ledger = await depositService.getLedger(requestId);
+    expect(ledger.entries).toEqual([expect.objectContaining({ id: hold.id, status: "rejected" })]);
+    expect(ledger).toMatchObject({ held: 0, released: 0, outstanding: 0 });
+    await expect(depositService.confirmEntry(hold.id, borrower.id)).rejects.toThrow("not awaiting confirmation");
+    expect(provider.holdDeposit).not.toHaveBeenCalled();
+  });
+
+  it("releases a confirmed hold when the borrower cancels before pickup", async () => {
+    const { borrower, requestId, hold } = await approveWithDeposit();
+    await depositService.confirmEntry(hold.id, borrower.id);
+
+    await borrowRequestService.cancelRequest(requestId, borrower.id, false);
+
+    const ledger = await depositService.getLedger(requestId);
+    expect(ledger).toMatchObject({ held: 40, released: 40, withheld: 0, outstanding: 0 });
+    expect(ledger.entries.find((entry) => entry.type === "release")).toMatchObject({ status: "confirmed" });
+    expect(provider.releaseDeposit).toHaveBeenCalledWith(expect.any(String), 40);
+    expect((await loadRequest(requestId)).deposit_returned).toBe(true);
+  });
+
+  it("cancels the request when the borrower declines the hold", async () => {
+    const { owner, borrower, requestId, hold } = await approveWithDeposit();
+
+    const declined = await depositService.rejectEntry(hold.id, borrower.id, "Too much");
+
+    expect(declined.status).toBe("rejected");
+    expect((await loadRequest(requestId)).status).toBe("cancelled");
+    await expect(borrowRequestService.markAsPickedUp(requestId, owner.id)).rejects.toThrow(
+      "cannot move from cancelled"
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { rateLimitConfig } from "../../src/config/rateLimits";
+import { LoginThrottle } from "../../src/services/LoginThrottle";
+
+describe("LoginThrottle", () => {
+  const throttle = new LoginThrottle();
+  const { freeAttempts, baseLockSeconds, maxLockSeconds, accountFreeAttempts, accountDelaySeconds } =
+    rateLimitConfig.loginLockout;
+
+  const fail = async (email: string, ipAddress: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      await throttle.recordFailure(email, ipAddress);
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T12:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("locks the email after the free attempts, doubling the lock with each further failure", async () => {
+    await fail("lockout@example.com", "10.0.0.1", freeAttempts);
+    await expect(throttle.assertNotLocked("lockout@example.com", "10.0.0.1")).resolves.toBeUndefined();
+
+    await fail("lockout@example.com", "10.0.0.1", 1);
+    await expect(throttle.assertNotLocked("lockout@example.com", "10.0.0.1")).rejects.toMatchObject({
+      statusCode: 429,
+      retryAfterSeconds: baseLockSeconds
+    });
+
+    jest.advanceTimersByTime(baseLockSeconds * 1000);
+    await expect(throttle.assertNotLocked("lockout@example.com", "10.0.0.1")).resolves.toBeUndefined();
+
+    await fail("lockout@example.com", "10.0.0.1", 1);
+    await expect(throttle.assertNotLocked("lockout@example.com", "10.0.0.1")).rejects.toMatchObject({
+      retryAfterSeconds: baseLockSeconds * 2
+    });
+
+    await fail("lockout@example.com", "10.0.0.1", 20);
+    await expect(throttle.assertNotLocked("lockout@example.com", "10.0.0.1")).rejects.toMatchObject({
+      retryAfterSeconds: maxLockSeconds
+    });
+  });
+
+  it("does not lock the email for other clients", async () => {
+    await fail("target@example.com", "10.0.0.2", freeAttempts + 1);
+
+    await expect(throttle.assertNotLocked("target@example.com", "10.0.0.2")).rejects.toMatchObject({ statusCode: 429 });
+    await expect(throttle.assertNotLocked("target@example.com", "10.0.0.3")).resolves.toBeUndefined();
+  });
+
+  it("forgets the failures after a successful login", async () => {
+    await fail("forgetful@example.com", "10.0.0.4", freeAttempts + 1);
+    await throttle.reset("Forgetful@example.com ", "10.0.0.4");
+
+    await expect(throttle.assertNotLocked("forgetful@example.com", "10.0.0.4")).resolves.toBeUndefined();
+    await fail("forgetful@example.com", "10.0.0.4", freeAttempts);
+    await expect(throttle.assertNotLocked("forgetful@example.com", "10.0.0.4")).resolves.toBeUndefined();
+  });
+
+  it("slows the account down for every address once failures from many addresses add up", async () => {
+    // Each address stays under its own free attempts
+    for (let i = 0; i < accountFreeAttempts; i++) {
+      await fail("spread@example.com", `10.1.0.${i}`, 1);
+    }
+    await expect(throttle.assertNotLocked("spread@example.com", "10.2.0.1")).resolves.toBeUndefined();
+
+    await fail("spread@example.com", "10.1.1.1", 1);
+    await expect(throttle.assertNotLocked("spread@example.com", "10.2.0.1")).rejects.toMatchObject({
+      statusCode: 429,
+      retryAfterSeconds: accountDelaySeconds
+    });
+
+    // A pause rather than a lockout: the next attempt is allowed once it has passed
+    jest.advanceTimersByTime(accountDelaySeconds * 1000);
+    await expect(throttle.assertNotLocked("spread@example.com", "10.2.0.1")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { AppDataSource } from "../../src/config/database";
+import { twoFactorConfig } from "../../src/config/twoFactor";
+import { User } from "../../src/entities/User";
+import { TwoFactorService } from "../../src/services/TwoFactorService";
+import { UserService } from "../../src/services/UserService";
+import { TooManyRequestsError } from "../../src/utils/errors";
+import { currentTimeStep, generateCode } from "../../src/utils/totp";
+import { closeDatabase, createUser, resetDatabase } from "../helpers";
+
+describe("TwoFactorService", () => {
+  const twoFactorService = new TwoFactorService();
+  const userService = new UserService();
+
+  beforeAll(resetDatabase);
+  afterAll(closeDatabase);
+
+  /**
+   * A user with two-factor authentication on, with their authenticator secret and recovery codes
+   */
+  const enableTwoFactor = async () => {
+    const created = await createUser();
+    const user = await AppDataSource.getRepository(User).findOneByOrFail({ id: created.id });
+    const { secret } = await twoFactorService.setup(user);
+    const code = generateCode(secret, currentTimeStep());
+    const recoveryCodes = await twoFactorService.enable(user.id, code);
+
+    return { user, code, recoveryCodes };
+  };
+
+  const challenge = async (email: string): Promise<string> => {
+    const result = await userService.login(email, "password123");
+    if (!("challengeToken" in result)) {
+      throw new Error("Expected a two-factor challenge");
+    }
+    return result.challengeToken;
+  };
+
+  it("accepts each recovery code only once", async () => {
+    const { user, recoveryCodes } = await enableTwoFactor();
+    expect(recoveryCodes).toHaveLength(twoFactorConfig.recoveryCodeCount);
+
+    const signedIn = await twoFactorService.completeLogin(await challenge(user.email), {
+      recoveryCode: recoveryCodes[0].toUpperCase()
+    });
+    expect(signedIn.id).toBe(user.id);
+
+    await expect(
+      twoFactorService.completeLogin(await challenge(user.email), { recoveryCode: recoveryCodes[0] })
+    ).rejects.toThrow("Invalid authentication code");
+    expect((await twoFactorService.getStatus(user.id)).recovery_codes_remaining).toBe(recoveryCodes.length - 1);
+  });
+
+  it("does not accept the same authenticator code twice", async () => {
+    const { user, code } = await enableTwoFactor();
+
+    await expect(twoFactorService.completeLogin(await challenge(user.email), { code })).rejects.toThrow(
+      "Invalid authentication code"
+    );
+  });
+
+  it("locks code checks after too many wrong codes, even for a valid code", async () => {
+    const { user, recoveryCodes } = await enableTwoFactor();
+    const challengeToken = await challenge(user.email);
+
+    for (let attempt = 0; attempt < twoFactorConfig.maxFailedAttempts; attempt++) {
+      await expect(
+        twoFactorService.completeLogin(challengeToken, { recoveryCode: "wrong-guess" })
+      ).rejects.toThrow("Invalid authentication code");
+    }
+
+    const locked = await twoFactorService.completeLogin(challengeToken, { recoveryCode: recoveryCodes[1] }).catch(
+      (error: TooManyRequestsError) => error
+    );
+    expect(locked).toBeInstanceOf(TooManyRequestsError);
+    expect((locked as TooManyRequestsError).retryAfterSeconds).toBeGreaterThan((twoFactorConfig.lockMinutes - 1) * 60);
+    expect((await twoFactorService.getStatus(user.id)).recovery_codes_remaining).toBe(recoveryCodes.length);
+  });
+});
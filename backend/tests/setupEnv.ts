@@ -0,0 +1,15 @@
+/**
+ * Integration tests run on a fresh in-memory SQLite database by default.
+ * Setting TEST_DATABASE_URL runs them on Postgres instead; every table in that database is dropped.
+ */
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DB_TYPE = "postgres";
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+} else {
+  process.env.DB_TYPE = "sqlite";
+  process.env.DATABASE_URL = ":memory:";
+}
+
+process.env.NODE_ENV = "test";
+process.env.RATE_LIMIT_ENABLED = "false";
+process.env.MAIL_TRANSPORT = "file";
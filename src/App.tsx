@@ -2,6 +2,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Register from "./Page/register";
 import Login from "./Page/login";
 import Home from "./Page/home";
+import VerifyEmail from "./Page/verifyEmail";
+import ForgotPassword from "./Page/forgotPassword";
+import ResetPassword from "./Page/resetPassword";
 import ToastProvider from "./components/ToastProvider";
 import { ReviewProvider } from "./contexts/ReviewContext";
 import { AuthProvider } from "./Auth/authContext";
@@ -15,6 +18,9 @@ function App() {
           <Routes>
             <Route path="/" element={<Login />} />
             <Route path="/register" element={<Register />} />
+            <Route path="/verify-email" element={<VerifyEmail />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/*" element={
               <ProtectedRoute>
                 <Home />
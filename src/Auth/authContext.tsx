@@ -13,19 +13,29 @@ interface User {
     profilePicUrl?: string;
     rating: number;
     verified: boolean;
+    role?: "member" | "moderator" | "admin";
 }
 
 interface AuthContextType {
     user: User | null;
     isAuthenticated: boolean;
-    login: (email: string, password: string) => Promise<void>;
+    login: (email: string, password: string) => Promise<LoginResult>;
+    completeTwoFactorLogin: (challengeToken: string, proof: TwoFactorProof) => Promise<void>;
     register: (userData: RegisterData) => Promise<void>;
-    logout: () => void;
+    logout: () => Promise<void>;
     updateUser: (userData: Partial<User>) => void;
     loading: boolean;
     isLoading: boolean;
 }
 
+// Accounts with two-factor authentication get a challenge instead of tokens
+type LoginResult = { twoFactorRequired: false } | { twoFactorRequired: true; challengeToken: string };
+
+interface TwoFactorProof {
+    code?: string;
+    recoveryCode?: string;
+}
+
 interface RegisterData {
     name: string;
     email: string;
@@ -79,13 +89,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         fetchUser();
     }, []);
 
-    const login = async (email: string, password: string) => {
+    const login = async (email: string, password: string): Promise<LoginResult> => {
         try {
             const response = await api.post("/api/auth/login", {
                 email,
                 password,
             });
 
+            if (response.data.two_factor_required) {
+                return { twoFactorRequired: true, challengeToken: response.data.challengeToken };
+            }
+
             const { accessToken, refreshToken, user: userData } = response.data;
             setTokens(accessToken, refreshToken);
             setUser({
@@ -93,11 +107,23 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 rating: 5, // Default rating
                 verified: false, // Default verified status
             });
+            return { twoFactorRequired: false };
         } catch (error) {
             throw error;
         }
     };
 
+    const completeTwoFactorLogin = async (challengeToken: string, proof: TwoFactorProof) => {
+        const response = await api.post("/api/auth/login/2fa", { challengeToken, ...proof });
+        const { accessToken, refreshToken, user: userData } = response.data;
+        setTokens(accessToken, refreshToken);
+        setUser({
+            ...userData,
+            rating: 5, // Default rating
+            verified: false, // Default verified status
+        });
+    };
+
     const register = async (userData: RegisterData) => {
         try {
             const response = await api.post("/api/auth/register", userData);
@@ -113,8 +139,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         }
     };
 
-    const logout = () => {
-        // Just clear tokens and user state - no API call needed
+    const logout = async () => {
+        // Sign this device's session out on the server; clear local state even if that fails
+        try {
+            await api.post("/api/auth/logout");
+        } catch (err) {
+            console.warn("Failed to end session on the server:", err);
+        }
         removeTokens();
         setUser(null);
         // Redirect to home page using replace to avoid back button issues
@@ -131,6 +162,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 user,
                 isAuthenticated,
                 login,
+                completeTwoFactorLogin,
                 register,
                 logout,
                 updateUser,
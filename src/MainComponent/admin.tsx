@@ -0,0 +1,515 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { FaShieldAlt, FaFlag, FaExclamationTriangle, FaBoxOpen, FaHistory, FaClock, FaGavel } from "react-icons/fa";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+import Modal from "../components/modal";
+import DisputePanel from "../components/DisputePanel";
+import type { DisputeSummary } from "../components/DisputePanel";
+import { useAuth } from "../Auth/authContext";
+
+type AdminTab = "reviews" | "issues" | "disputes" | "listings" | "log";
+type DisputeOutcome = "owner_favoured" | "borrower_favoured" | "shared";
+
+interface UserSummary {
+  id: number;
+  name: string;
+  email?: string;
+  verification_status?: string;
+}
+
+interface FlaggedReview {
+  id: number;
+  rating: number;
+  comment?: string;
+  flag_reason?: string;
+  is_verified: boolean;
+  updated_at: string;
+  reviewer?: UserSummary;
+  reviewee?: UserSummary;
+  borrow_request?: { resource?: { title: string } };
+}
+
+interface DepositEntrySummary {
+  id: number;
+  type: "hold" | "release" | "withhold" | "dispute";
+  status: string;
+  amount: number | string;
+  reason?: string | null;
+}
+
+interface ReportedIssue {
+  id: number;
+  status: string;
+  issue_description?: string;
+  issue_reported_at?: string;
+  deposit_amount?: number | string;
+  deposit_entries?: DepositEntrySummary[];
+  requester?: UserSummary;
+  resource?: { id: number; title: string; owner?: UserSummary };
+}
+
+interface DisputeCase extends DisputeSummary {
+  reason: string;
+  claimed_amount?: number | string | null;
+  borrow_request?: {
+    id: number;
+    status: string;
+    deposit_amount?: number | string;
+    requester?: UserSummary;
+    resource?: { id: number; title: string; owner?: UserSummary };
+  };
+}
+
+interface SuspiciousListing {
+  resource: {
+    id: number;
+    title: string;
+    category: string;
+    status: string;
+    owner?: UserSummary;
+  };
+  issue_count: number;
+  reasons: string[];
+}
+
+interface ModerationLogEntry {
+  id: number;
+  moderator_id: number;
+  target_type: string;
+  target_id: number;
+  action: string;
+  reason: string;
+  created_at: string;
+  moderator?: UserSummary;
+}
+
+interface PendingAction {
+  label: string;
+  run: (reason: string, amount?: number) => Promise<unknown>;
+  maxAmount?: number; // Ask for an amount (the deposit the owner keeps) up to this value
+  amountOptional?: boolean; // The amount may be left blank to use the server's default
+}
+
+const tabs: { key: AdminTab; label: string; icon: React.ReactNode }[] = [
+  { key: "reviews", label: "Flagged Reviews", icon: <FaFlag /> },
+  { key: "issues", label: "Reported Issues", icon: <FaExclamationTriangle /> },
+  { key: "disputes", label: "Disputes", icon: <FaGavel /> },
+  { key: "listings", label: "Suspicious Listings", icon: <FaBoxOpen /> },
+  { key: "log", label: "Action Log", icon: <FaHistory /> },
+];
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return "Unknown date";
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " at " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+const Admin = () => {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<AdminTab>("reviews");
+  const [reviews, setReviews] = useState<FlaggedReview[]>([]);
+  const [issues, setIssues] = useState<ReportedIssue[]>([]);
+  const [disputes, setDisputes] = useState<DisputeCase[]>([]);
+  const [listings, setListings] = useState<SuspiciousListing[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [amount, setAmount] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canModerate = user?.role === "moderator" || user?.role === "admin";
+
+  const fetchTab = useCallback(async (tab: AdminTab) => {
+    setIsLoading(true);
+    try {
+      switch (tab) {
+        case "reviews": {
+          const response = await ApiService.getFlaggedReviews();
+          setReviews(response.data?.data || []);
+          break;
+        }
+        case "issues": {
+          const response = await ApiService.getReportedIssues();
+          setIssues(response.data?.data || []);
+          break;
+        }
+        case "disputes": {
+          const response = await ApiService.getDisputeQueue();
+          setDisputes(response.data?.data || []);
+          break;
+        }
+        case "listings": {
+          const response = await ApiService.getSuspiciousListings();
+          setListings(response.data?.data || []);
+          break;
+        }
+        case "log": {
+          const response = await ApiService.getModerationActions();
+          setLog(response.data?.data || []);
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load moderation queue:", error);
+      toast.error("Failed to load moderation queue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canModerate) {
+      fetchTab(activeTab);
+    }
+  }, [activeTab, canModerate, fetchTab]);
+
+  const openAction = (
+    label: string,
+    run: (reason: string, amount?: number) => Promise<unknown>,
+    maxAmount?: number,
+    amountOptional?: boolean
+  ) => {
+    setReason("");
+    setAmount("");
+    setPendingAction({ label, run, maxAmount, amountOptional });
+  };
+
+  const needsAmount = pendingAction?.maxAmount !== undefined;
+  const amountMissing = needsAmount && !pendingAction?.amountOptional && amount === "";
+
+  const confirmAction = async () => {
+    if (!pendingAction || !reason.trim() || amountMissing) return;
+
+    setIsSubmitting(true);
+    try {
+      await pendingAction.run(reason.trim(), needsAmount && amount !== "" ? parseFloat(amount) : undefined);
+      toast.success(`${pendingAction.label} completed`);
+      setPendingAction(null);
+      fetchTab(activeTab);
+    } catch (err) {
+      console.error("Moderation action failed:", err);
+      toast.error(apiErrorMessage(err, "Moderation action failed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!canModerate) {
+    return (
+      <div className="p-6 bg-gray-900 min-h-screen">
+        <div className="max-w-4xl mx-auto text-center p-8 bg-gray-800 rounded-lg">
+          <FaShieldAlt className="text-gray-400 text-3xl mx-auto mb-3" />
+          <p className="text-gray-400">You need moderator access to view this page</p>
+        </div>
+      </div>
+    );
+  }
+
+  const actionButton = (label: string, className: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1 text-sm rounded-lg text-white transition-colors ${className}`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderEmpty = (message: string) => (
+    <div className="text-center p-8 bg-gray-800 rounded-lg">
+      <FaShieldAlt className="text-gray-400 text-3xl mx-auto mb-3" />
+      <p className="text-gray-400">{message}</p>
+    </div>
+  );
+
+  const renderReviews = () =>
+    reviews.length === 0
+      ? renderEmpty("No flagged reviews")
+      : reviews.map((review) => (
+          <div key={review.id} className="p-4 rounded-lg bg-gray-800 border-l-4 border-yellow-400">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <h4 className="text-white font-medium">
+                  {review.reviewer?.name || "Unknown"} → {review.reviewee?.name || "Unknown"} · {Number(review.rating).toFixed(1)}★
+                </h4>
+                {review.borrow_request?.resource && (
+                  <p className="text-xs text-gray-400">{review.borrow_request.resource.title}</p>
+                )}
+                {review.comment && <p className="text-sm text-gray-200 mt-2">{review.comment}</p>}
+                <p className="text-sm text-yellow-300 mt-2">Flagged: {review.flag_reason || "No reason given"}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {actionButton("Hide", "bg-red-600 hover:bg-red-700", () =>
+                  openAction("Hide review", (r) => ApiService.moderateReview(review.id, "hide", r))
+                )}
+                {actionButton("Show", "bg-gray-600 hover:bg-gray-500", () =>
+                  openAction("Show review", (r) => ApiService.moderateReview(review.id, "show", r))
+                )}
+                {actionButton("Verify", "bg-green-600 hover:bg-green-700", () =>
+                  openAction("Verify review", (r) => ApiService.moderateReview(review.id, "verify", r))
+                )}
+              </div>
+            </div>
+          </div>
+        ));
+
+  const renderIssues = () =>
+    issues.length === 0
+      ? renderEmpty("No open issues")
+      : issues.map((issue) => {
+          const dispute = issue.deposit_entries?.find(
+            (entry) => entry.type === "dispute" && entry.status === "pending"
+          );
+          return (
+            <div key={issue.id} className="p-4 rounded-lg bg-gray-800 border-l-4 border-red-400">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <h4 className="text-white font-medium">
+                    {issue.resource?.title || "Unknown item"} <span className="text-xs text-gray-400">({issue.status})</span>
+                  </h4>
+                  <p className="text-xs text-gray-400">
+                    Borrower: {issue.requester?.name || "Unknown"} · Owner: {issue.resource?.owner?.name || "Unknown"}
+                  </p>
+                  <p className="text-sm text-gray-200 mt-2">{issue.issue_description || "No description provided"}</p>
+                  {dispute && (
+                    <p className="text-sm text-orange-300 mt-2">
+                      Deposit disputed: the owner wants to keep {Number(dispute.amount).toFixed(2)} of{" "}
+                      {Number(issue.deposit_amount || 0).toFixed(2)}
+                      {dispute.reason && <span className="italic text-gray-300"> · borrower: "{dispute.reason}"</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+                    <FaClock />
+                    {formatDate(issue.issue_reported_at)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2 shrink-0 justify-end">
+                  {actionButton("Resolve", "bg-green-600 hover:bg-green-700", () =>
+                    openAction(
+                      dispute ? "Resolve issue and settle deposit" : "Resolve issue",
+                      (r, kept) => ApiService.resolveBorrowIssue(issue.id, r, kept),
+                      dispute ? Number(issue.deposit_amount || 0) : undefined
+                    )
+                  )}
+                  {issue.requester &&
+                    actionButton("Suspend borrower", "bg-red-600 hover:bg-red-700", () =>
+                      openAction("Suspend borrower", (r) => ApiService.moderateUser(issue.requester!.id, "suspend", r))
+                    )}
+                  {issue.resource &&
+                    actionButton("Deactivate item", "bg-gray-600 hover:bg-gray-500", () =>
+                      openAction("Deactivate item", (r) => ApiService.moderateResource(issue.resource!.id, "deactivate", r))
+                    )}
+                </div>
+              </div>
+            </div>
+          );
+        });
+
+  const renderDisputes = () =>
+    disputes.length === 0
+      ? renderEmpty("No open disputes")
+      : disputes.map((dispute) => {
+          const request = dispute.borrow_request;
+          const deposit = Number(request?.deposit_amount || 0);
+          const decide = (outcome: DisputeOutcome) => (notes: string, kept?: number) =>
+            ApiService.decideDispute(dispute.id, outcome, notes, kept);
+          return (
+            <div key={dispute.id} className="p-4 rounded-lg bg-gray-800 border-l-4 border-purple-400">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <h4 className="text-white font-medium">
+                    {request?.resource?.title || "Unknown item"}{" "}
+                    <span className="text-xs text-gray-400">(dispute #{dispute.id}, {dispute.status.replace("_", " ")})</span>
+                  </h4>
+                  <p className="text-xs text-gray-400">
+                    Borrower: {request?.requester?.name || "Unknown"} · Owner: {request?.resource?.owner?.name || "Unknown"}
+                  </p>
+                  <p className="text-sm text-gray-200 mt-2">{dispute.reason}</p>
+                  {dispute.claimed_amount !== null && dispute.claimed_amount !== undefined && (
+                    <p className="text-sm text-orange-300 mt-2">
+                      Owner claims {Number(dispute.claimed_amount).toFixed(2)} of {deposit.toFixed(2)}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+                    <FaClock />
+                    {formatDate(dispute.created_at)}
+                  </p>
+                  {request && (
+                    <DisputePanel
+                      requestId={request.id}
+                      requestStatus={request.status}
+                      disputes={[dispute]}
+                      party="moderator"
+                    />
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 shrink-0 justify-end">
+                  {actionButton("Favour owner", "bg-red-600 hover:bg-red-700", () =>
+                    openAction("Decide for the owner", decide("owner_favoured"), deposit > 0 ? deposit : undefined, true)
+                  )}
+                  {actionButton("Favour borrower", "bg-green-600 hover:bg-green-700", () =>
+                    openAction("Decide for the borrower", decide("borrower_favoured"))
+                  )}
+                  {deposit > 0 &&
+                    actionButton("Split deposit", "bg-gray-600 hover:bg-gray-500", () =>
+                      openAction("Split the deposit", decide("shared"), deposit)
+                    )}
+                </div>
+              </div>
+            </div>
+          );
+        });
+
+  const renderListings = () =>
+    listings.length === 0
+      ? renderEmpty("No suspicious listings")
+      : listings.map(({ resource, reasons }) => {
+          const ownerSuspended = resource.owner?.verification_status === "suspended";
+          return (
+            <div key={resource.id} className="p-4 rounded-lg bg-gray-800 border-l-4 border-orange-400">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <h4 className="text-white font-medium">
+                    {resource.title} <span className="text-xs text-gray-400">({resource.category})</span>
+                  </h4>
+                  <p className="text-xs text-gray-400">Owner: {resource.owner?.name || "Unknown"}</p>
+                  <ul className="mt-2 space-y-1">
+                    {reasons.map((item) => (
+                      <li key={item} className="text-sm text-orange-300">• {item}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex flex-wrap gap-2 shrink-0 justify-end">
+                  {actionButton("Deactivate", "bg-red-600 hover:bg-red-700", () =>
+                    openAction("Deactivate listing", (r) => ApiService.moderateResource(resource.id, "deactivate", r))
+                  )}
+                  {resource.owner &&
+                    (ownerSuspended
+                      ? actionButton("Reinstate owner", "bg-green-600 hover:bg-green-700", () =>
+                          openAction("Reinstate owner", (r) => ApiService.moderateUser(resource.owner!.id, "reinstate", r))
+                        )
+                      : actionButton("Suspend owner", "bg-gray-600 hover:bg-gray-500", () =>
+                          openAction("Suspend owner", (r) => ApiService.moderateUser(resource.owner!.id, "suspend", r))
+                        ))}
+                </div>
+              </div>
+            </div>
+          );
+        });
+
+  const renderLog = () =>
+    log.length === 0
+      ? renderEmpty("No moderation actions recorded yet")
+      : log.map((entry) => (
+          <div key={entry.id} className="p-4 rounded-lg bg-gray-800 border-l-4 border-gray-600">
+            <h4 className="text-white font-medium">
+              {entry.moderator?.name || `Moderator #${entry.moderator_id}`} · {entry.action} {entry.target_type.replace("_", " ")} #{entry.target_id}
+            </h4>
+            <p className="text-sm text-gray-200 mt-1">{entry.reason}</p>
+            <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+              <FaClock />
+              {formatDate(entry.created_at)}
+            </p>
+          </div>
+        ));
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <FaShieldAlt className="text-2xl text-blue-400" />
+          <h2 className="text-3xl font-bold text-white">Moderation</h2>
+        </div>
+
+        {/* Tab Navigation */}
+        <div className="flex mb-6 border-b border-gray-700">
+          {tabs.map((tab) => (
+            <button
+              key={tab.key}
+              className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+                activeTab === tab.key
+                  ? "text-blue-400 border-b-2 border-blue-400"
+                  : "text-gray-400 hover:text-white"
+              }`}
+              onClick={() => setActiveTab(tab.key)}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Tab Content */}
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="text-gray-400">Loading...</div>
+            </div>
+          ) : activeTab === "reviews" ? (
+            renderReviews()
+          ) : activeTab === "issues" ? (
+            renderIssues()
+          ) : activeTab === "disputes" ? (
+            renderDisputes()
+          ) : activeTab === "listings" ? (
+            renderListings()
+          ) : (
+            renderLog()
+          )}
+        </div>
+      </div>
+
+      {pendingAction && (
+        <Modal onClose={() => !isSubmitting && setPendingAction(null)}>
+          <div className="bg-gray-800 rounded-xl p-6 w-[28rem] max-w-full">
+            <h3 className="text-xl font-semibold text-white mb-4">{pendingAction.label}</h3>
+            <label className="block text-sm text-gray-300 mb-2">Reason (recorded in the action log)</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={4}
+              className="w-full p-3 rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+            />
+            {needsAmount && (
+              <>
+                <label className="block text-sm text-gray-300 mt-4 mb-2">
+                  Deposit kept by the owner (0 – {pendingAction.maxAmount!.toFixed(2)}); the rest goes back to the borrower
+                  {pendingAction.amountOptional && ". Leave blank to use the owner's claim"}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={pendingAction.maxAmount}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full p-3 rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                />
+              </>
+            )}
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setPendingAction(null)}
+                disabled={isSubmitting}
+                className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmAction}
+                disabled={isSubmitting || !reason.trim() || amountMissing}
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              >
+                {isSubmitting ? "Saving..." : "Confirm"}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+};
+
+export default Admin;
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import Card from "../components/card";
 import GetLocation from "../Location/GetLocation";
 import ResourceFilter, { FilterOptions } from "../components/ResourceFilter";
+import CommunityScopeBar, { type CommunityScope } from "../components/CommunityScopeBar";
 import { FaPlus, FaSearch, FaMapMarkerAlt } from "react-icons/fa";
 import ApiService from "../services/apiService";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
@@ -20,8 +21,8 @@ interface MainProps {
 
 interface UserProfile {
     id: number;
-    latitude: number;
-    longitude: number;
+    latitude?: number;
+    longitude?: number;
 }
 
 const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
@@ -32,11 +33,11 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+    const [scope, setScope] = useState<CommunityScope | null>(null);
 
     const fetchUserProfile = async () => {
         try {
-            const response = await ApiService.getProfile();
-            const data = response.data || response;
+            const { data } = await ApiService.getProfile();
             setUserLocation({
                 id: data.id,
                 latitude: data.latitude,
@@ -53,8 +54,14 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
         setIsLoading(true);
         setError(null);
         try {
-            const response = await ApiService.getResources();
-            const data = response.data || response;
+            const response = await ApiService.getResources(
+                scope === "mine"
+                    ? { my_communities: true }
+                    : typeof scope === "number"
+                    ? { community_id: scope }
+                    : undefined
+            );
+            const { data } = response;
 
             // Filter out user's own resources
             const filteredData = currentUserId
@@ -140,7 +147,7 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
         // Apply type filter
         if (filters.type) {
             filtered = filtered.filter(
-                (res) => res.type.toLowerCase() === filters.type.toLowerCase()
+                (res) => res.type?.toLowerCase() === filters.type.toLowerCase()
             );
         }
 
@@ -210,12 +217,14 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
         }
 
         // Apply distance filter if user location is available
-        if (userLocation && userLocation.latitude && userLocation.longitude) {
+        const latitude = userLocation?.latitude;
+        const longitude = userLocation?.longitude;
+        if (latitude && longitude) {
             filtered = filtered.filter((res) => {
                 if (!res.owner_latitude || !res.owner_longitude) return true;
                 const distance = getDistanceInKm(
-                    userLocation.latitude,
-                    userLocation.longitude,
+                    latitude,
+                    longitude,
                     res.owner_latitude,
                     res.owner_longitude
                 );
@@ -229,14 +238,14 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
                     if (!b.owner_latitude || !b.owner_longitude) return -1;
 
                     const distA = getDistanceInKm(
-                        userLocation.latitude,
-                        userLocation.longitude,
+                        latitude,
+                        longitude,
                         a.owner_latitude,
                         a.owner_longitude
                     );
                     const distB = getDistanceInKm(
-                        userLocation.latitude,
-                        userLocation.longitude,
+                        latitude,
+                        longitude,
                         b.owner_latitude,
                         b.owner_longitude
                     );
@@ -277,10 +286,11 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
     }, []);
 
     useEffect(() => {
-        if (currentUserId !== null) {
+        // Wait for the community scope so members don't see the unscoped list first
+        if (currentUserId !== null && scope !== null) {
             fetchResources();
         }
-    }, [currentUserId, internalRefreshKey, externalRefreshKey]);
+    }, [currentUserId, scope, internalRefreshKey, externalRefreshKey]);
 
     // Update filtered resources when resources or user location changes
     useEffect(() => {
@@ -367,6 +377,15 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
                         <div className="mb-6">
                             <GetLocation />
                         </div>
+
+                        {/* Community Scope */}
+                        <CommunityScopeBar
+                            scope={scope}
+                            onScopeChange={setScope}
+                            onMembershipChange={() =>
+                                setInternalRefreshKey((prev) => prev + 1)
+                            }
+                        />
                     </AnimationContainer>
 
                     {/* Filters */}
@@ -378,7 +397,6 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
                         <ResourceFilter
                             onFilterChange={handleFilterChange}
                             isLoading={isLoading}
-                            allResources={resources}
                         />
                     </AnimationContainer>
 
@@ -529,7 +547,8 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
                                                 owner_id={res.owner_id}
                                                 owner_name={
                                                     res.owner?.name ||
-                                                    res.owner_name
+                                                    res.owner_name ||
+                                                    ""
                                                 }
                                                 owner_latitude={
                                                     res.owner_latitude
@@ -553,6 +572,9 @@ const Main: React.FC<MainProps> = ({ refreshKey: externalRefreshKey }) => {
                                                 reviewCount={
                                                     res.review_count || 0
                                                 }
+                                                is_favourited={
+                                                    res.is_favourited
+                                                }
                                                 onReviewSubmitted={
                                                     refreshResources
                                                 }
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import ProfileHeader from "../Profile/ProfileHeader";
 import ProfileTabs from "../Profile/ProfileTabs";
 import ProfileContent from "../Profile/ProfileContent";
+import LocationVerificationPanel from "../Profile/LocationVerificationPanel";
 import ApiService from "../services/apiService";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import ErrorState from "../components/ui/ErrorState";
@@ -108,6 +109,15 @@ const Profile = () => {
                                     <ProfileHeader profileData={profileData} />
                                 </motion.div>
 
+                                {/* Location Verification */}
+                                <motion.div
+                                    initial={{ y: 20, opacity: 0 }}
+                                    animate={{ y: 0, opacity: 1 }}
+                                    transition={{ delay: 0.15 }}
+                                >
+                                    <LocationVerificationPanel />
+                                </motion.div>
+
                                 {/* Profile Tabs */}
                                 <motion.div
                                     initial={{ y: 20, opacity: 0 }}
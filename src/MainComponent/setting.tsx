@@ -19,6 +19,8 @@ import {
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import { toast } from "react-toastify";
 import ApiService from "../services/apiService";
+import ActiveSessionsPanel from "../components/ActiveSessionsPanel";
+import TwoFactorPanel from "../components/TwoFactorPanel";
 
 interface UserSettings {
     name: string;
@@ -511,6 +513,14 @@ const Settings = () => {
                                                     </>
                                                 )}
                                             </motion.button>
+
+                                            <div className="pt-6 border-t border-white/10">
+                                                <TwoFactorPanel />
+                                            </div>
+
+                                            <div className="pt-6 border-t border-white/10">
+                                                <ActiveSessionsPanel />
+                                            </div>
                                         </motion.div>
                                     )}
 
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import ApiService from "../services/apiService";
+import LoadingSpinner from "../components/ui/LoadingSpinner";
+import { toast } from "react-toastify";
+import { FaEnvelope, FaKey, FaPaperPlane } from "react-icons/fa";
+import { apiErrorMessage } from "../utils/api";
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [sentMessage, setSentMessage] = useState("");
+  const navigate = useNavigate();
+
+  const handleSubmit = async () => {
+    if (!email) {
+      setError("Please enter your email");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await ApiService.forgotPassword(email);
+      setSentMessage(response.message || "If an account exists for that email, a password reset link is on its way");
+    } catch (err) {
+      console.error("Forgot password error:", err);
+      const errorMessage = apiErrorMessage(err, "Could not send the reset link");
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      {/* Background Elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-500 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-blue-500 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.6, type: "spring", stiffness: 300, damping: 30 }}
+        className="relative z-10 bg-white/10 backdrop-blur-xl p-8 rounded-3xl shadow-2xl border border-white/20 w-full max-w-md"
+      >
+        <div className="flex justify-center mb-8">
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <FaKey className="text-white text-2xl" />
+          </div>
+        </div>
+
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-white mb-2">Forgot Password</h2>
+          <p className="text-gray-300">
+            Enter your email and we'll send you a link to choose a new password
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            className="bg-green-500/20 border border-green-500/30 text-green-200 rounded-lg p-4 text-sm text-center"
+          >
+            {sentMessage}
+          </motion.div>
+        ) : (
+          <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <FaEnvelope className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <motion.input
+                  whileFocus={{ scale: 1.02 }}
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError("");
+                  }}
+                  placeholder="Enter your email"
+                  className="w-full pl-10 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                  required
+                />
+              </div>
+            </div>
+
+            {error && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: "auto", opacity: 1 }}
+                className="bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm"
+              >
+                {error}
+              </motion.div>
+            )}
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="submit"
+              onClick={handleSubmit}
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  <span>Sending...</span>
+                </>
+              ) : (
+                <>
+                  <FaPaperPlane />
+                  <span>Send Reset Link</span>
+                </>
+              )}
+            </motion.button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <p className="text-gray-300 text-sm">
+            Remembered it?{" "}
+            <motion.span
+              whileHover={{ scale: 1.05 }}
+              className="text-blue-400 font-medium cursor-pointer hover:text-blue-300 transition-colors"
+              onClick={() => navigate("/")}
+            >
+              Back to Sign In
+            </motion.span>
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
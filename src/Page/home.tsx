@@ -7,6 +7,7 @@ import Chat from "../MainComponent/chat";
 import Profile from "../MainComponent/profile";
 import Notification from "../MainComponent/notification";
 import Main from "../MainComponent/main";
+import Admin from "../MainComponent/admin";
 import DebugPanel from "../components/DebugPanel";
 
 const Home: React.FC = () => {
@@ -32,6 +33,8 @@ const Home: React.FC = () => {
         return <Profile />;
       case "/notification":
         return <Notification />;
+      case "/admin":
+        return <Admin />;
       default:
         return <div className="p-5 text-xl">Page not found</div>;
     }
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import axios from "axios";
 import { motion } from "framer-motion";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../Auth/authContext";
@@ -6,8 +7,9 @@ import Input from "../components/input";
 import Button from "../components/button";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import { toast } from "react-toastify";
-import { FaEye, FaEyeSlash, FaUser, FaLock, FaEnvelope } from "react-icons/fa";
+import { FaEye, FaEyeSlash, FaUser, FaLock, FaEnvelope, FaShieldAlt } from "react-icons/fa";
 import { useLocationRequest } from "../Location/useLocationRequest";
+import { apiErrorMessage } from "../utils/api";
 
 const Login = () => {
   const [formData, setFormData] = useState({
@@ -17,8 +19,11 @@ const Login = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const navigate = useNavigate();
-  const { login, isAuthenticated } = useAuth();
+  const { login, completeTwoFactorLogin, isAuthenticated } = useAuth();
   const { requestLocationPermission } = useLocationRequest();
 
   // Redirect if already authenticated using useEffect
@@ -43,18 +48,15 @@ const Login = () => {
     setError("");
 
     try {
-      await login(formData.email, formData.password);
-      toast.success("Login successful!");
-      
-      // Request location permission after successful login
-      // This runs in the background and won't block navigation
-      setTimeout(() => {
-        requestLocationPermission(true).catch(err => 
-          console.log("Location permission declined or failed:", err)
-        );
-      }, 1000); // Small delay to let the user see success message
-      
-      navigate("/home");
+      const result = await login(formData.email, formData.password);
+
+      // Two-factor accounts continue with a code from their authenticator app
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
+
+      finishLogin();
     } catch (err: any) {
       console.error("Login error:", err);
       const errorMessage = err.response?.data?.message || "Invalid credentials";
@@ -65,6 +67,51 @@ const Login = () => {
     }
   };
 
+  const finishLogin = () => {
+    toast.success("Login successful!");
+
+    // Request location permission after successful login
+    // This runs in the background and won't block navigation
+    setTimeout(() => {
+      requestLocationPermission(true).catch(err =>
+        console.log("Location permission declined or failed:", err)
+      );
+    }, 1000); // Small delay to let the user see success message
+
+    navigate("/home");
+  };
+
+  const handleVerifyCode = async () => {
+    if (!challengeToken || !twoFactorCode.trim()) {
+      setError(useRecoveryCode ? "Please enter a recovery code" : "Please enter the 6-digit code");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      await completeTwoFactorLogin(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: twoFactorCode.trim() } : { code: twoFactorCode.trim() }
+      );
+      finishLogin();
+    } catch (err) {
+      console.error("Two-factor login error:", err);
+      const errorMessage = apiErrorMessage(err, "Invalid authentication code");
+      setError(errorMessage);
+      toast.error(errorMessage);
+
+      // An expired challenge means starting over with the password
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        setChallengeToken(null);
+        setTwoFactorCode("");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
       {/* Background Elements */}
@@ -103,104 +150,199 @@ const Login = () => {
             Welcome Back
           </h2>
           <p className="text-gray-300">
-            Sign in to continue your journey
+            {challengeToken
+              ? "Enter the code from your authenticator app"
+              : "Sign in to continue your journey"}
           </p>
         </motion.div>
 
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          {/* Email Input */}
-          <motion.div
-            initial={{ x: -20, opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            transition={{ delay: 0.4 }}
-          >
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Email Address
-            </label>
-            <div className="relative">
-              <FaEnvelope className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-              <motion.input
-                whileFocus={{ scale: 1.02 }}
-                type="email"
-                id="email"
-                value={formData.email}
-                onChange={handleChange}
-                placeholder="Enter your email"
-                className="w-full pl-10 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
-                required
-              />
-            </div>
-          </motion.div>
-
-          {/* Password Input */}
-          <motion.div
-            initial={{ x: -20, opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            transition={{ delay: 0.5 }}
-          >
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Password
-            </label>
-            <div className="relative">
-              <FaLock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-              <motion.input
-                whileFocus={{ scale: 1.02 }}
-                type={showPassword ? "text" : "password"}
-                id="password"
-                value={formData.password}
-                onChange={handleChange}
-                placeholder="Enter your password"
-                className="w-full pl-10 pr-12 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
-                required
-              />
-              <motion.button
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
+        {challengeToken ? (
+          <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
+            {/* Two-factor Code Input */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+              </label>
+              <div className="relative">
+                <FaShieldAlt className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <motion.input
+                  whileFocus={{ scale: 1.02 }}
+                  type="text"
+                  id="twoFactorCode"
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  maxLength={useRecoveryCode ? 11 : 6}
+                  value={twoFactorCode}
+                  onChange={(e) => {
+                    setTwoFactorCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ""));
+                    setError("");
+                  }}
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "6-digit code from your app"}
+                  className="w-full pl-10 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm tracking-widest"
+                  autoFocus
+                />
+              </div>
+              <button
                 type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-300 transition-colors"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setTwoFactorCode("");
+                  setError("");
+                }}
+                className="mt-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
               >
-                {showPassword ? <FaEyeSlash /> : <FaEye />}
-              </motion.button>
+                {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+              </button>
             </div>
-          </motion.div>
 
-          {/* Error Message */}
-          {error && (
+            {error && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: "auto", opacity: 1 }}
+                className="bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm"
+              >
+                {error}
+              </motion.div>
+            )}
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="submit"
+              onClick={handleVerifyCode}
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  <span>Verifying...</span>
+                </>
+            ) : (
+                <>
+                  <FaShieldAlt />
+                  <span>Verify</span>
+                </>
+              )}
+            </motion.button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setTwoFactorCode("");
+                setError("");
+              }}
+              className="w-full text-sm text-gray-400 hover:text-gray-300 transition-colors"
+            >
+              Back to sign in
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
+            {/* Email Input */}
             <motion.div
-              initial={{ height: 0, opacity: 0 }}
-              animate={{ height: "auto", opacity: 1 }}
-              className="bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm"
+              initial={{ x: -20, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ delay: 0.4 }}
             >
-              {error}
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <FaEnvelope className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <motion.input
+                  whileFocus={{ scale: 1.02 }}
+                  type="email"
+                  id="email"
+                  value={formData.email}
+                  onChange={handleChange}
+                  placeholder="Enter your email"
+                  className="w-full pl-10 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                  required
+                />
+              </div>
             </motion.div>
-          )}
-
-          {/* Login Button */}
-          <motion.button
-            initial={{ y: 20, opacity: 0 }}
-            animate={{ y: 0, opacity: 1 }}
-            transition={{ delay: 0.6 }}
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            type="submit"
-            onClick={handleLogin}
-            disabled={isLoading}
-            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
-          >
-            {isLoading ? (
-              <>
-                <LoadingSpinner size="sm" />
-                <span>Signing In...</span>
-              </>
-            ) : (
-              <>
-                <FaUser />
-                <span>Sign In</span>
-              </>
+
+            {/* Password Input */}
+            <motion.div
+              initial={{ x: -20, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ delay: 0.5 }}
+            >
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Password
+              </label>
+              <div className="relative">
+                <FaLock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <motion.input
+                  whileFocus={{ scale: 1.02 }}
+                  type={showPassword ? "text" : "password"}
+                  id="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  placeholder="Enter your password"
+                  className="w-full pl-10 pr-12 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                  required
+                />
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-300 transition-colors"
+                >
+                  {showPassword ? <FaEyeSlash /> : <FaEye />}
+                </motion.button>
+              </div>
+            </motion.div>
+
+            <div className="-mt-3 text-right">
+              <span
+                className="text-sm text-blue-400 cursor-pointer hover:text-blue-300 transition-colors"
+                onClick={() => navigate("/forgot-password")}
+              >
+                Forgot password?
+              </span>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: "auto", opacity: 1 }}
+                className="bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm"
+              >
+                {error}
+              </motion.div>
             )}
-          </motion.button>
-        </form>
+
+            {/* Login Button */}
+            <motion.button
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: 0.6 }}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="submit"
+              onClick={handleLogin}
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  <span>Signing In...</span>
+                </>
+            ) : (
+                <>
+                  <FaUser />
+                  <span>Sign In</span>
+                </>
+              )}
+            </motion.button>
+          </form>
+        )}
 
         {/* Register Link */}
         <motion.div
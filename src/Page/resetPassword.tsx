@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import ApiService from "../services/apiService";
+import LoadingSpinner from "../components/ui/LoadingSpinner";
+import { toast } from "react-toastify";
+import { FaEye, FaEyeSlash, FaKey, FaLock } from "react-icons/fa";
+import { apiErrorMessage } from "../utils/api";
+
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const navigate = useNavigate();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({ ...formData, [e.target.id]: e.target.value });
+    setError("");
+  };
+
+  const handleSubmit = async () => {
+    if (!token) {
+      setError("This reset link is incomplete. Please request a new one.");
+      return;
+    }
+
+    if (formData.password.length < 6) {
+      setError("Password must be at least 6 characters long");
+      return;
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await ApiService.resetPassword(token, formData.password);
+      toast.success(response.message || "Your password has been reset");
+      navigate("/");
+    } catch (err) {
+      console.error("Reset password error:", err);
+      const errorMessage = apiErrorMessage(err, "Could not reset your password");
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full pl-10 pr-12 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      {/* Background Elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-500 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-blue-500 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.6, type: "spring", stiffness: 300, damping: 30 }}
+        className="relative z-10 bg-white/10 backdrop-blur-xl p-8 rounded-3xl shadow-2xl border border-white/20 w-full max-w-md"
+      >
+        <div className="flex justify-center mb-8">
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <FaKey className="text-white text-2xl" />
+          </div>
+        </div>
+
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-white mb-2">Choose a New Password</h2>
+          <p className="text-gray-300">You'll be signed out on all devices afterwards</p>
+        </div>
+
+        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              New Password
+            </label>
+            <div className="relative">
+              <FaLock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <motion.input
+                whileFocus={{ scale: 1.02 }}
+                type={showPassword ? "text" : "password"}
+                id="password"
+                value={formData.password}
+                onChange={handleChange}
+                placeholder="At least 6 characters"
+                className={inputClassName}
+                required
+              />
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-300 transition-colors"
+              >
+                {showPassword ? <FaEyeSlash /> : <FaEye />}
+              </motion.button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Confirm Password
+            </label>
+            <div className="relative">
+              <FaLock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <motion.input
+                whileFocus={{ scale: 1.02 }}
+                type={showPassword ? "text" : "password"}
+                id="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                placeholder="Repeat the new password"
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+
+          {error && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: "auto", opacity: 1 }}
+              className="bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm"
+            >
+              {error}
+            </motion.div>
+          )}
+
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            type="submit"
+            onClick={handleSubmit}
+            disabled={isLoading}
+            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+          >
+            {isLoading ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span>Saving...</span>
+              </>
+            ) : (
+              <>
+                <FaKey />
+                <span>Reset Password</span>
+              </>
+            )}
+          </motion.button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <p className="text-gray-300 text-sm">
+            Link expired?{" "}
+            <motion.span
+              whileHover={{ scale: 1.05 }}
+              className="text-blue-400 font-medium cursor-pointer hover:text-blue-300 transition-colors"
+              onClick={() => navigate("/forgot-password")}
+            >
+              Request a new one
+            </motion.span>
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "../Auth/authContext";
+import ApiService from "../services/apiService";
+import LoadingSpinner from "../components/ui/LoadingSpinner";
+import { FaCheckCircle, FaEnvelope, FaTimesCircle } from "react-icons/fa";
+import { apiErrorMessage } from "../utils/api";
+
+type VerifyStatus = "verifying" | "verified" | "failed";
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<VerifyStatus>("verifying");
+  const [message, setMessage] = useState("");
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  // Links are single-use, so the token must only be sent once even if the effect runs twice
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setStatus("failed");
+      setMessage("This verification link is incomplete.");
+      return;
+    }
+
+    ApiService.verifyEmail(token)
+      .then((response) => {
+        setStatus("verified");
+        setMessage(response.message || "Your email is verified");
+      })
+      .catch((err) => {
+        console.error("Email verification error:", err);
+        setStatus("failed");
+        setMessage(apiErrorMessage(err, "This link is invalid or has expired"));
+      });
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      {/* Background Elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-500 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-blue-500 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.6, type: "spring", stiffness: 300, damping: 30 }}
+        className="relative z-10 bg-white/10 backdrop-blur-xl p-8 rounded-3xl shadow-2xl border border-white/20 w-full max-w-md text-center"
+      >
+        <div className="flex justify-center mb-6">
+          <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
+            {status === "verifying" && <FaEnvelope className="text-white text-2xl" />}
+            {status === "verified" && <FaCheckCircle className="text-white text-2xl" />}
+            {status === "failed" && <FaTimesCircle className="text-white text-2xl" />}
+          </div>
+        </div>
+
+        <h2 className="text-3xl font-bold text-white mb-2">
+          {status === "verifying" && "Verifying your email"}
+          {status === "verified" && "Email verified"}
+          {status === "failed" && "Verification failed"}
+        </h2>
+
+        {status === "verifying" ? (
+          <div className="flex justify-center mt-6">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : (
+          <>
+            <p className="text-gray-300 mb-8">
+              {message}
+              {status === "failed" && " You can request a new link from your profile."}
+            </p>
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="button"
+              onClick={() => navigate(isAuthenticated ? "/home" : "/")}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200"
+            >
+              {isAuthenticated ? "Go to Borrow Base" : "Sign In"}
+            </motion.button>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from "react";
 import Input from "../components/input";
 import Button from "../components/button";
 import { toast } from "react-toastify";
-import { FaTag, FaLayerGroup, FaTasks, FaUpload, FaImage, FaTimes } from "react-icons/fa";
+import { FaTag, FaLayerGroup, FaTasks, FaUpload, FaImage, FaTimes, FaUsers } from "react-icons/fa";
 import api from "../utils/api";
 import LoadingOverlay from "../components/LoadingOverlay";
 import ApiService from "../services/apiService";
@@ -24,6 +24,9 @@ const AddResourceForm = ({ onClose, onSuccess }: AddResourceFormProps) => {
   const [categories, setCategories] = useState<string[]>([]);
   const [conditions, setConditions] = useState<string[]>([]);
   const [dragActive, setDragActive] = useState(false);
+  const [visibility, setVisibility] = useState<"public" | "communities">("public");
+  const [communities, setCommunities] = useState<{ id: number; name: string }[]>([]);
+  const [communityIds, setCommunityIds] = useState<number[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Fetch categories and conditions on component mount
@@ -45,6 +48,27 @@ const AddResourceForm = ({ onClose, onSuccess }: AddResourceFormProps) => {
     fetchCategories();
   }, []);
 
+  // Items can be shared with the owner's communities only
+  useEffect(() => {
+    const fetchCommunities = async () => {
+      try {
+        const response = await ApiService.getMyCommunities();
+        setCommunities(response.data || []);
+      } catch (error) {
+        console.error("Failed to fetch communities:", error);
+      }
+    };
+
+    fetchCommunities();
+  }, []);
+
+  const toggleCommunity = (communityId: number) => {
+    setFieldErrors(prev => ({ ...prev, community_ids: "" }));
+    setCommunityIds(prev =>
+      prev.includes(communityId) ? prev.filter(id => id !== communityId) : [...prev, communityId]
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -70,6 +94,10 @@ const AddResourceForm = ({ onClose, onSuccess }: AddResourceFormProps) => {
     if (!category) {
       errors.category = "Please select a category";
     }
+
+    if (visibility === "communities" && communityIds.length === 0) {
+      errors.community_ids = "Choose at least one community to share with";
+    }
     
     if (Object.keys(errors).length > 0) {
       setFieldErrors(errors);
@@ -83,6 +111,11 @@ const AddResourceForm = ({ onClose, onSuccess }: AddResourceFormProps) => {
     formData.append("description", description.trim());
     formData.append("category", category);
     formData.append("condition", condition);
+    formData.append("visibility", visibility);
+
+    if (visibility === "communities") {
+      formData.append("community_ids", communityIds.join(","));
+    }
 
     if (files) {
       for (let i = 0; i < files.length; i++) {
@@ -307,6 +340,49 @@ const AddResourceForm = ({ onClose, onSuccess }: AddResourceFormProps) => {
             </div>
           </div>
 
+          {/* Sharing */}
+          {communities.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white border-b border-gray-700 pb-2">
+                Who can see it
+              </h3>
+
+              <div className="relative">
+                <select
+                  id="visibility"
+                  value={visibility}
+                  onChange={(e) => {
+                    setVisibility(e.target.value as "public" | "communities");
+                    setFieldErrors(prev => ({ ...prev, community_ids: "" }));
+                  }}
+                  className="w-full border border-gray-700 rounded-lg px-4 py-3 bg-gray-900 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none transition-all duration-200"
+                  disabled={isLoading}
+                >
+                  <option value="public">Everyone</option>
+                  <option value="communities">Only members of my communities</option>
+                </select>
+                <FaUsers className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none" />
+              </div>
+
+              {visibility === "communities" && (
+                <div className="space-y-2">
+                  {communities.map((community) => (
+                    <label key={community.id} className="flex items-center gap-2 text-sm text-gray-200">
+                      <input
+                        type="checkbox"
+                        checked={communityIds.includes(community.id)}
+                        onChange={() => toggleCommunity(community.id)}
+                        disabled={isLoading}
+                      />
+                      {community.name}
+                    </label>
+                  ))}
+                  {fieldErrors.community_ids && <p className="text-red-500 text-sm mt-1">{fieldErrors.community_ids}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Enhanced File Upload Section */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-white border-b border-gray-700 pb-2">
@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { FaEnvelope, FaHandshake, FaMapMarkerAlt, FaShieldAlt, FaUserCheck } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+type MethodName = "postal_code" | "neighbor_vouch" | "admin_review";
+
+interface VerificationMethod {
+    name: MethodName;
+    expires_in_days: number;
+    max_attempts: number | null;
+    required_vouches?: number;
+    vouch_radius_km?: number;
+}
+
+interface Verification {
+    id: number;
+    method: MethodName;
+    status: "pending" | "verified" | "failed" | "expired" | "cancelled";
+    address?: string;
+    attempts: number;
+    max_attempts?: number | null;
+    vouch_count: number;
+    required_vouches?: number | null;
+    review_note?: string | null;
+    expires_at: string;
+}
+
+interface VouchRequest {
+    id: number;
+    user: { id: number; name: string; neighborhood?: string };
+    distance: number;
+    vouch_count: number;
+    required_vouches: number;
+}
+
+const METHOD_LABELS: Record<MethodName, { title: string; description: string }> = {
+    postal_code: {
+        title: "Code by post",
+        description: "We mail a 6-digit code to your address. Enter it here when the letter arrives.",
+    },
+    neighbor_vouch: {
+        title: "Neighbor vouching",
+        description: "Verified neighbors living close by confirm that you live there.",
+    },
+    admin_review: {
+        title: "Manual review",
+        description: "A moderator checks your address. Tell them anything that helps.",
+    },
+};
+
+const METHOD_ICONS: Record<MethodName, React.ReactNode> = {
+    postal_code: <FaEnvelope />,
+    neighbor_vouch: <FaHandshake />,
+    admin_review: <FaUserCheck />,
+};
+
+// Verify the profile location, or vouch for neighbors once verified
+const LocationVerificationPanel = () => {
+    const [isVerified, setIsVerified] = useState(false);
+    const [methods, setMethods] = useState<VerificationMethod[]>([]);
+    const [verifications, setVerifications] = useState<Verification[]>([]);
+    const [vouchRequests, setVouchRequests] = useState<VouchRequest[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [code, setCode] = useState("");
+    const [note, setNote] = useState("");
+
+    const pending = verifications.find((verification) => verification.status === "pending");
+    const latest = verifications[0];
+
+    const loadVerification = async () => {
+        try {
+            const response = await ApiService.getLocationVerification();
+            const data = response.data;
+            setIsVerified(Boolean(data?.is_location_verified));
+            setMethods(data?.methods || []);
+            setVerifications(data?.verifications || []);
+
+            if (data?.is_location_verified) {
+                const requests = await ApiService.getVouchRequests();
+                setVouchRequests(requests.data || []);
+            }
+        } catch (err) {
+            console.error("Failed to load location verification", err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadVerification();
+    }, []);
+
+    const runAction = async (action: () => Promise<{ message?: string }>, successMessage: string) => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            await loadVerification();
+        } catch (err) {
+            console.error("Location verification action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+            await loadVerification();
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (isLoading) return null;
+
+    return (
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-3">
+                <FaShieldAlt className={isVerified ? "text-green-400" : "text-gray-400"} />
+                Location verification
+            </h3>
+
+            {isVerified ? (
+                <div className="space-y-3">
+                    <p className="text-sm text-green-300">
+                        Your location is verified. You are part of the communities around you.
+                    </p>
+
+                    {vouchRequests.length > 0 && (
+                        <div>
+                            <p className="text-sm text-gray-300 mb-2">
+                                Neighbors asking you to confirm they live nearby:
+                            </p>
+                            <ul className="space-y-2">
+                                {vouchRequests.map((request) => (
+                                    <li
+                                        key={request.id}
+                                        className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-700"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-white truncate">{request.user.name}</p>
+                                            <p className="text-xs text-gray-400 truncate">
+                                                {request.user.neighborhood ? `${request.user.neighborhood} · ` : ""}
+                                                {request.distance}km away · {request.vouch_count}/
+                                                {request.required_vouches} vouches
+                                            </p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            disabled={isSubmitting}
+                                            onClick={() =>
+                                                runAction(
+                                                    () => ApiService.vouchForNeighbor(request.id),
+                                                    "Thanks for vouching for your neighbor"
+                                                )
+                                            }
+                                            className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                        >
+                                            I know they live here
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            ) : pending ? (
+                <div className="space-y-3">
+                    {pending.method === "postal_code" && (
+                        <>
+                            <p className="text-sm text-gray-300">
+                                A letter with your code is on its way to {pending.address}. Enter the code
+                                before {new Date(pending.expires_at).toLocaleDateString()}.
+                            </p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    maxLength={6}
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                                    placeholder="6-digit code"
+                                    className="w-36 p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400 tracking-widest"
+                                />
+                                <button
+                                    type="button"
+                                    disabled={isSubmitting || code.length !== 6}
+                                    onClick={() =>
+                                        runAction(async () => {
+                                            const response = await ApiService.submitLocationCode(pending.id, code);
+                                            setCode("");
+                                            return response;
+                                        }, "Your location is verified")
+                                    }
+                                    className="px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                >
+                                    Verify
+                                </button>
+                                {pending.max_attempts && (
+                                    <span className="text-xs text-gray-400">
+                                        {pending.max_attempts - pending.attempts} attempts left
+                                    </span>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {pending.method === "neighbor_vouch" && (
+                        <p className="text-sm text-gray-300">
+                            {pending.vouch_count} of {pending.required_vouches} neighbors have vouched for you.
+                            Verified neighbors nearby see your request on their profile until{" "}
+                            {new Date(pending.expires_at).toLocaleDateString()}.
+                        </p>
+                    )}
+
+                    {pending.method === "admin_review" && (
+                        <p className="text-sm text-gray-300">
+                            A moderator will review your address before{" "}
+                            {new Date(pending.expires_at).toLocaleDateString()}.
+                        </p>
+                    )}
+
+                    <button
+                        type="button"
+                        disabled={isSubmitting}
+                        onClick={() =>
+                            runAction(
+                                () => ApiService.cancelLocationVerification(pending.id),
+                                "Location verification cancelled"
+                            )
+                        }
+                        className="text-xs text-gray-400 hover:text-white underline disabled:opacity-50"
+                    >
+                        Cancel and choose another way
+                    </button>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-300 flex items-center gap-2">
+                        <FaMapMarkerAlt className="text-gray-400" />
+                        Verify where you live to join your neighborhood communities.
+                    </p>
+
+                    {latest && (latest.status === "failed" || latest.status === "expired") && (
+                        <p className="text-xs text-red-300">
+                            Your last verification {latest.status === "failed" ? "failed" : "expired"}.
+                            {latest.review_note ? ` Reviewer's note: ${latest.review_note}` : ""}
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {methods.map((method) => (
+                            <div key={method.name} className="p-3 rounded-lg bg-gray-700 flex flex-col gap-2">
+                                <p className="flex items-center gap-2 text-sm font-medium text-white">
+                                    {METHOD_ICONS[method.name]}
+                                    {METHOD_LABELS[method.name].title}
+                                </p>
+                                <p className="text-xs text-gray-300 flex-1">
+                                    {METHOD_LABELS[method.name].description}
+                                    {method.required_vouches
+                                        ? ` ${method.required_vouches} neighbors within ${method.vouch_radius_km}km are needed.`
+                                        : ""}
+                                </p>
+                                {method.name === "admin_review" && (
+                                    <textarea
+                                        value={note}
+                                        onChange={(e) => setNote(e.target.value)}
+                                        maxLength={500}
+                                        placeholder="Optional note for the moderator"
+                                        className="p-2 text-xs rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400 resize-none"
+                                    />
+                                )}
+                                <button
+                                    type="button"
+                                    disabled={isSubmitting}
+                                    onClick={() =>
+                                        runAction(
+                                            () =>
+                                                ApiService.startLocationVerification({
+                                                    method: method.name,
+                                                    note: method.name === "admin_review" ? note : undefined,
+                                                }),
+                                            "Location verification started"
+                                        )
+                                    }
+                                    className="px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                >
+                                    Start
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LocationVerificationPanel;
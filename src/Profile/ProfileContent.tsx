@@ -10,22 +10,27 @@ import ApiService from "../services/apiService";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import ErrorState from "../components/ui/ErrorState";
 import EmptyState from "../components/ui/EmptyState";
+import type { DisputeSummary } from "../components/DisputePanel";
+import { apiErrorMessage } from "../utils/api";
 
 // --- TYPE DEFINITIONS ---
 interface ResourceItem {
     id: number;
     title: string;
     description: string;
-    photos: { photo_url: string }[];
-    type: string;
+    photos?: { photo_url: string }[];
+    type?: string;
     owner?: { name: string };
+    is_available?: boolean;
 }
 
 interface BorrowRequest {
     id: number;
-    status: 'pending' | 'approved' | 'rejected' | 'cancelled';
-    requested_at: string;
+    status: 'pending' | 'approved' | 'rejected' | 'cancelled' | 'active' | 'overdue' | 'returned' | 'completed';
+    requested_at?: string;
+    group_id?: number | null;
     resource: ResourceItem;
+    disputes?: DisputeSummary[];
 }
 
 interface ActiveBorrowItem extends ResourceItem {
@@ -33,7 +38,19 @@ interface ActiveBorrowItem extends ResourceItem {
     status: 'approved' | 'active';
 }
 
-type DisplayItem = ResourceItem | BorrowRequest | ActiveBorrowItem;
+interface WaitlistItem {
+    id: number;
+    status: 'waiting' | 'offered' | 'fulfilled' | 'cancelled' | 'expired';
+    position: number | null;
+    start_date?: string | null;
+    end_date?: string | null;
+    hold_start_date?: string | null;
+    hold_end_date?: string | null;
+    hold_expires_at?: string | null;
+    resource: ResourceItem;
+}
+
+type DisplayItem = ResourceItem | BorrowRequest | ActiveBorrowItem | WaitlistItem;
 
 interface ProfileData {
     borrowHistory: ActiveBorrowItem[];
@@ -47,15 +64,21 @@ interface ProfileData {
 interface ProfileContentProps {
     activeTab:
         | "Requested"
+        | "Waitlist"
         | "Borrow"
         | "Lend"
         | "Exchange"
         | "Items"
+        | "Favourites"
         | "Reviews";
     profileData: ProfileData | null;
 }
 
 // --- TYPE GUARDS ---
+const hasResource = <T extends { resource?: ResourceItem }>(item: T): item is T & { resource: ResourceItem } => {
+    return Boolean(item.resource);
+};
+
 const isBorrowRequest = (item: DisplayItem): item is BorrowRequest => {
     return 'resource' in item && 'requested_at' in item;
 };
@@ -64,6 +87,18 @@ const isActiveBorrow = (item: DisplayItem): item is ActiveBorrowItem => {
     return 'borrow_id' in item && !('resource' in item);
 };
 
+const isWaitlistItem = (item: DisplayItem): item is WaitlistItem => {
+    return 'resource' in item && 'position' in item;
+};
+
+const describeWaitlistItem = (item: WaitlistItem) => {
+    if (item.status === 'offered') {
+        return `Free ${item.hold_start_date} to ${item.hold_end_date}, held for you until ${new Date(item.hold_expires_at!).toLocaleString()}`;
+    }
+    const dates = item.start_date ? ` for ${item.start_date} to ${item.end_date}` : '';
+    return `#${item.position} in line${dates}`;
+};
+
 
 const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
     const [showModal, setShowModal] = useState(false);
@@ -72,7 +107,7 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
     const [error, setError] = useState<string | null>(null);
 
     const handleAddClick = () => {
-        if (activeTab !== "Borrow" && activeTab !== "Requested")
+        if (activeTab !== "Borrow" && activeTab !== "Requested" && activeTab !== "Waitlist" && activeTab !== "Favourites")
             setShowModal(true);
     };
     
@@ -86,12 +121,20 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
             switch (activeTab) {
                 case "Requested":
                     const response = await ApiService.getMyRequests();
-                    const requests: BorrowRequest[] = response.data || response || [];
-                    data = requests.filter(req => req.status === "pending");
+                    const requests: BorrowRequest[] = (response.data || []).filter(hasResource);
+                    // Pending requests, plus returned or disputed borrows that may need a dispute
+                    data = requests.filter(
+                        req => req.status === "pending" || req.status === "returned" || (req.disputes?.length ?? 0) > 0
+                    );
+                    break;
+                case "Waitlist":
+                    data = ((await ApiService.getMyWaitlist()).data || []).filter(hasResource);
                     break;
                 case "Items":
-                    const resResponse = await ApiService.getMyResources();
-                    data = resResponse.data || resResponse || [];
+                    data = (await ApiService.getMyResources()).data;
+                    break;
+                case "Favourites":
+                    data = (await ApiService.getMyFavourites({ limit: 50 })).data || [];
                     break;
                 case "Borrow":
                     if (profileData?.borrowHistory) {
@@ -123,7 +166,7 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
 
     // FIX: Added fetchData to the dependency array
     useEffect(() => {
-        if (["Requested", "Items"].includes(activeTab) || profileData) {
+        if (["Requested", "Waitlist", "Items", "Favourites"].includes(activeTab) || profileData) {
             fetchData();
         } else {
             setItems([]);
@@ -151,6 +194,37 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
         }
     };
 
+    const handleCancelGroup = async (groupId: number) => {
+        try {
+            const response = await ApiService.cancelBorrowRequestGroup(groupId);
+            alert(response.message || "Borrow requests cancelled successfully!");
+            fetchData();
+        } catch (err) {
+            console.error("Cancel group failed", err);
+            alert(apiErrorMessage(err, "Failed to cancel the requests"));
+        }
+    };
+
+    const handleLeaveWaitlist = async (entryId: number) => {
+        try {
+            await ApiService.leaveWaitlist(entryId);
+            setItems((prev) => prev.filter((item) => !(isWaitlistItem(item) && item.id === entryId)));
+        } catch (err) {
+            console.error("Leave waitlist failed", err);
+            alert(apiErrorMessage(err, "Failed to leave the waitlist"));
+        }
+    };
+
+    const handleRemoveFavourite = async (resourceId: number) => {
+        try {
+            await ApiService.removeFavourite(resourceId);
+            setItems((prev) => prev.filter((item) => item.id !== resourceId));
+        } catch (err) {
+            console.error("Remove favourite failed", err);
+            alert(apiErrorMessage(err, "Failed to remove the favourite"));
+        }
+    };
+
     const handleReturn = async (borrowId: number) => {
         try {
             const api = (await import("../utils/api")).default;
@@ -168,6 +242,8 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
         switch (activeTab) {
             case "Requested":
                 return { title: "No pending requests", description: "Your pending borrow requests will appear here." };
+            case "Waitlist":
+                return { title: "You're not on any waitlists", description: "Items you're waiting for will appear here." };
             case "Borrow":
                 return { title: "No borrowed items yet", description: "Items you've borrowed will appear here." };
             case "Lend":
@@ -176,6 +252,8 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
                  return { title: "No items for exchange", description: "Your exchange items will appear here." };
             case "Items":
                  return { title: "You have no items", description: "All your resources will appear here." };
+            case "Favourites":
+                 return { title: "No favourites yet", description: "Items you favourite will appear here." };
             default:
                 return { title: "No items yet", description: "Your items will appear here." };
         }
@@ -218,21 +296,38 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
                     <motion.div key="items" className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                          {items.map((item) => {
                             // FIX: Deconstructed props explicitly to ensure type safety for ProfileCard
+                            const resource = 'resource' in item ? item.resource : item;
                             const commonProps = {
-                                title: isBorrowRequest(item) ? item.resource.title : item.title,
-                                description: isBorrowRequest(item) ? item.resource.description : item.description,
-                                photo: isBorrowRequest(item) ? item.resource.photos?.[0]?.photo_url : item.photos?.[0]?.photo_url,
-                                ownerName: isBorrowRequest(item) ? item.resource.owner?.name : item.owner?.name,
+                                title: resource.title,
+                                description: resource.description,
+                                photo: resource.photos?.[0]?.photo_url,
+                                ownerName: resource.owner?.name,
                             };
                             
                             let specificProps: Omit<ProfileCardProps, 'title' | 'description' | 'photo' | 'ownerName'>;
-                            if (isBorrowRequest(item)) {
+                            if (isWaitlistItem(item)) {
                                 specificProps = {
                                     id: item.id,
                                     status: item.status,
-                                    requestDate: item.requested_at,
+                                    note: describeWaitlistItem(item),
                                     showCancel: true,
+                                    cancelLabel: "Leave Waitlist",
+                                    onCancel: () => handleLeaveWaitlist(item.id),
+                                };
+                            } else if (isBorrowRequest(item)) {
+                                specificProps = {
+                                    id: item.id,
+                                    status: item.status,
+                                    requestDate: item.requested_at,
+                                    showCancel: item.status === "pending",
                                     onCancel: () => handleCancelRequest(item.id),
+                                    onCancelGroup: item.group_id ? () => handleCancelGroup(item.group_id!) : undefined,
+                                    historyRequestId: item.id,
+                                    depositRequestId: item.id,
+                                    conditionRequestId: item.status !== "pending" ? item.id : undefined,
+                                    extensionRequest: item.status === "active" ? { id: item.id, status: item.status } : undefined,
+                                    disputeRequest: { id: item.id, status: item.status, disputes: item.disputes },
+                                    onDisputeChange: fetchData,
                                 };
                             } else if (isActiveBorrow(item)) {
                                 specificProps = {
@@ -242,7 +337,20 @@ const ProfileContent = ({ activeTab, profileData }: ProfileContentProps) => {
                                     showReturn: true,
                                     showCancel: false,
                                     onReturn: () => handleReturn(item.borrow_id),
-                                    onCancel: undefined
+                                    onCancel: undefined,
+                                    historyRequestId: item.borrow_id,
+                                    depositRequestId: item.borrow_id,
+                                    conditionRequestId: item.borrow_id
+                                };
+                            } else if (activeTab === "Favourites") {
+                                specificProps = {
+                                    id: item.id,
+                                    showCancel: true,
+                                    note: 'is_available' in item && item.is_available === false
+                                        ? "Not available right now"
+                                        : undefined,
+                                    cancelLabel: "Remove",
+                                    onCancel: () => handleRemoveFavourite(item.id),
                                 };
                             } else {
                                 specificProps = { 
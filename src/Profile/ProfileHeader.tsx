@@ -12,9 +12,10 @@ import {
     TrendingUp,
 } from "lucide-react";
 import ApiService from "../services/apiService";
-import api from "../utils/api";
+import api, { apiErrorMessage } from "../utils/api";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import ErrorState from "../components/ui/ErrorState";
+import { toast } from "react-toastify";
 
 interface Statistics {
     borrowCount: number;
@@ -60,6 +61,7 @@ const ProfileHeader = () => {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isEditing, setIsEditing] = useState(false);
+    const [isSendingVerification, setIsSendingVerification] = useState(false);
 
     useEffect(() => {
         const fetchUserProfile = async () => {
@@ -118,6 +120,19 @@ const ProfileHeader = () => {
         }
     };
 
+    const handleResendVerification = async () => {
+        setIsSendingVerification(true);
+        try {
+            const response = await ApiService.resendVerificationEmail();
+            toast.success(response.message || "Verification email sent");
+        } catch (err) {
+            console.error("Resend verification error", err);
+            toast.error(apiErrorMessage(err, "Failed to send verification email"));
+        } finally {
+            setIsSendingVerification(false);
+        }
+    };
+
     if (loading) {
         return (
             <div className="bg-white/95 backdrop-blur-lg rounded-2xl shadow-xl border border-white/20 p-8 mb-6">
@@ -278,8 +293,17 @@ const ProfileHeader = () => {
                         <div className="flex items-center gap-3 p-3 bg-blue-50 rounded-xl">
                             <Mail className="w-5 h-5 text-blue-600" />
                             <span className="text-gray-700">{user.email}</span>
-                            {user.is_email_verified && (
+                            {user.is_email_verified ? (
                                 <Shield className="w-4 h-4 text-green-600" />
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={handleResendVerification}
+                                    disabled={isSendingVerification}
+                                    className="ml-auto text-xs text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+                                >
+                                    Resend verification
+                                </button>
                             )}
                         </div>
                         {user.phone && (
@@ -6,13 +6,16 @@ import {
     MessageSquare,
     Package,
     Clock,
+    ListOrdered,
+    Heart,
 } from "lucide-react";
 
 // Ensure Tailwind includes these color classes
-// text-blue-500 text-green-500 text-purple-500 text-orange-500 text-pink-500 text-indigo-500
+// text-blue-500 text-green-500 text-purple-500 text-orange-500 text-pink-500 text-indigo-500 text-teal-500 text-red-500
 // bg-gradient-to-r from-blue-500 to-blue-600 bg-gradient-to-r from-green-500 to-green-600
 // bg-gradient-to-r from-purple-500 to-purple-600 bg-gradient-to-r from-orange-500 to-orange-600
 // bg-gradient-to-r from-pink-500 to-pink-600 bg-gradient-to-r from-indigo-500 to-indigo-600
+// bg-gradient-to-r from-teal-500 to-teal-600 bg-gradient-to-r from-red-500 to-red-600
 
 interface ProfileTabsProps {
     activeTab: string;
@@ -21,9 +24,11 @@ interface ProfileTabsProps {
 
 const tabs = [
     { name: "Requested", icon: Clock, color: "blue", bgClass: "bg-gradient-to-r from-blue-500 to-blue-600", textClass: "text-blue-500" },
+    { name: "Waitlist", icon: ListOrdered, color: "teal", bgClass: "bg-gradient-to-r from-teal-500 to-teal-600", textClass: "text-teal-500" },
     { name: "Borrow", icon: Handshake, color: "green", bgClass: "bg-gradient-to-r from-green-500 to-green-600", textClass: "text-green-500" },
     { name: "Lend", icon: Repeat, color: "purple", bgClass: "bg-gradient-to-r from-purple-500 to-purple-600", textClass: "text-purple-500" },
     { name: "Exchange", icon: Package, color: "orange", bgClass: "bg-gradient-to-r from-orange-500 to-orange-600", textClass: "text-orange-500" },
+    { name: "Favourites", icon: Heart, color: "red", bgClass: "bg-gradient-to-r from-red-500 to-red-600", textClass: "text-red-500" },
     { name: "Items", icon: Grid, color: "pink", bgClass: "bg-gradient-to-r from-pink-500 to-pink-600", textClass: "text-pink-500" },
     { name: "Reviews", icon: MessageSquare, color: "indigo", bgClass: "bg-gradient-to-r from-indigo-500 to-indigo-600", textClass: "text-indigo-500" },
 ];
@@ -0,0 +1,75 @@
+import type { AxiosRequestConfig } from 'axios';
+import api from '../utils/api';
+import type { components, paths } from './schema';
+
+// Typed calls to the backend, checked against the OpenAPI document it generates.
+// schema.d.ts is generated by `npm run api:generate`; run it after changing routes or API types.
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type Schemas = components['schemas'];
+
+// Paths that have an operation for the method
+type PathsWith<M extends Method> = {
+    [P in keyof paths]: paths[P][M] extends undefined ? never : P;
+}[keyof paths];
+
+type Operation<P extends keyof paths, M extends Method> = NonNullable<paths[P][M]>;
+
+type PathOption<O> = O extends { parameters: { path: infer T } } ? { path: T } : { path?: never };
+
+type QueryOption<O> = O extends { parameters: { query: infer T } }
+    ? { query: T }
+    : O extends { parameters: { query?: infer T } }
+      ? [T] extends [undefined] ? { query?: never } : { query?: T }
+      : { query?: never };
+
+type BodyContent<C> = C extends { 'application/json': infer T } ? T : FormData;
+
+type BodyOption<O> = O extends { requestBody?: never }
+    ? { body?: never }
+    : O extends { requestBody: { content: infer C } }
+      ? { body: BodyContent<C> }
+      : O extends { requestBody?: { content: infer C } }
+        ? { body?: BodyContent<C> }
+        : { body?: never };
+
+export type RequestOptions<O> = PathOption<O> & QueryOption<O> & BodyOption<O> & { config?: AxiosRequestConfig };
+
+// The options argument may be left out when nothing in it is required
+type OptionsArgument<O> = object extends RequestOptions<O> ? [options?: RequestOptions<O>] : [options: RequestOptions<O>];
+
+// Body of the 200 or 201 response
+export type ResponseBody<O> = O extends { responses: infer R }
+    ? {
+          [S in keyof R]: S extends 200 | 201
+              ? R[S] extends { content: { 'application/json': infer T } } ? T : never
+              : never;
+      }[keyof R]
+    : never;
+
+interface UntypedOptions {
+    path?: Record<string, string | number>;
+    query?: object;
+    body?: unknown;
+    config?: AxiosRequestConfig;
+}
+
+const request = async (method: Method, path: string, options: UntypedOptions = {}) => {
+    const url = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(options.path?.[name])));
+    const response = await api.request({ ...options.config, method, url, params: options.query, data: options.body });
+    return response.data;
+};
+
+const operation =
+    <M extends Method>(method: M) =>
+    <P extends PathsWith<M>>(path: P, ...options: OptionsArgument<Operation<P, M>>): Promise<ResponseBody<Operation<P, M>>> =>
+        request(method, path, ...(options as unknown as [UntypedOptions?]));
+
+export const apiClient = {
+    get: operation('get'),
+    post: operation('post'),
+    put: operation('put'),
+    patch: operation('patch'),
+    delete: operation('delete'),
+};
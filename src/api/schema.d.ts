@@ -0,0 +1,9613 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/api/health": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Health check endpoint */
+        get: operations["getHealth"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/register": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Register
+         * @description Public routes (no authentication required)
+         */
+        post: operations["postAuthRegister"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Login */
+        post: operations["postAuthLogin"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/login/2fa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Complete two factor login */
+        post: operations["postAuthLogin2fa"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Refresh token */
+        post: operations["postAuthRefresh"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/verify-email": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify email */
+        post: operations["postAuthVerifyEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/forgot-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Forgot password */
+        post: operations["postAuthForgotPassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/reset-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Reset password */
+        post: operations["postAuthResetPassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/profile": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get profile
+         * @description Protected routes (authentication required)
+         */
+        get: operations["getAuthProfile"];
+        /** Update profile */
+        put: operations["putAuthProfile"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/profile/complete": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get complete profile */
+        get: operations["getAuthProfileComplete"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/update-location": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Update location */
+        post: operations["postAuthUpdateLocation"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Logout */
+        post: operations["postAuthLogout"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/change-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Change password */
+        post: operations["postAuthChangePassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/resend-verification": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Resend verification */
+        post: operations["postAuthResendVerification"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/sessions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get sessions */
+        get: operations["getAuthSessions"];
+        put?: never;
+        post?: never;
+        /** Revoke all sessions */
+        delete: operations["deleteAuthSessions"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/sessions/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Revoke session */
+        delete: operations["deleteAuthSessionsById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get status
+         * @description Two-factor authentication
+         */
+        get: operations["getAuth2fa"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/setup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Setup */
+        post: operations["postAuth2faSetup"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/enable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Enable */
+        post: operations["postAuth2faEnable"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/disable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Disable */
+        post: operations["postAuth2faDisable"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/recovery-codes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Regenerate recovery codes */
+        post: operations["postAuth2faRecoveryCodes"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/users/{id}/role": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Update user role
+         * @description Admin routes
+         *
+         *     Requires the admin role.
+         */
+        put: operations["putAuthUsersByIdRole"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get paginated resources with optional filters
+         * @description Query params: page, limit, category, search (full-text), condition, sort_by, sort_order,
+         *     min_value, max_value, max_borrow_days, deposit_required, max_deposit, pickup_required,
+         *     owner_id, community_id, my_communities, latitude, longitude, radius
+         */
+        get: operations["getResources"];
+        put?: never;
+        /**
+         * Create a new resource (authenticated users only; location-verified when REQUIRE_VERIFIED_LOCATION is on)
+         * @description Body: CreateResourceRequest or multipart/form-data
+         */
+        post: operations["postResources"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/search": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Search resources with text query
+         * @description Query params: q (required), page, limit, category, condition, sort_by, sort_order,
+         *     min_value, max_value, latitude, longitude, radius
+         */
+        get: operations["getResourcesSearch"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/suggest": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Search-as-you-type suggestions (titles, categories, word completions)
+         * @description Query params: q, limit (1-20, default 8)
+         */
+        get: operations["getResourcesSuggest"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/categories": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get all resource categories */
+        get: operations["getResourcesCategories"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/nearby": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get resources near a specific location
+         * @description Query params: latitude (required), longitude (required), radius, page, limit, category, search
+         */
+        get: operations["getResourcesNearby"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/user/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get all resources owned by a specific user
+         * @description Query params: page, limit
+         */
+        get: operations["getResourcesUserByUserId"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/my-resources": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get all resources owned by the authenticated user
+         * @description Query params: page, limit
+         */
+        get: operations["getResourcesMyResources"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/favourites": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get the authenticated user's favourite resources, most recently favourited first
+         * @description Query params: page, limit
+         */
+        get: operations["getResourcesFavourites"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a single resource by ID */
+        get: operations["getResourcesById"];
+        /**
+         * Update a resource (resource owner only)
+         * @description Body: UpdateResourceRequest
+         */
+        put: operations["putResourcesById"];
+        post?: never;
+        /** Delete a resource (resource owner only) */
+        delete: operations["deleteResourcesById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/view": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Record a view for a resource (for analytics) */
+        post: operations["postResourcesByIdView"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/availability": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Toggle resource availability (resource owner only)
+         * @description Body: { is_available: boolean }
+         */
+        post: operations["postResourcesByIdAvailability"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/favourite": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a resource to favourites; unavailable items notify the user when they are back */
+        post: operations["postResourcesByIdFavourite"];
+        /** Remove a resource from favourites */
+        delete: operations["deleteResourcesByIdFavourite"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/calendar": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get day-by-day availability (bookings, blackouts, handover days)
+         * @description Query params: from, to (YYYY-MM-DD, default next 90 days)
+         */
+        get: operations["getResourcesByIdCalendar"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/blackouts": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Block a date range (resource owner only)
+         * @description Body: { start_date, end_date, reason? }
+         */
+        post: operations["postResourcesByIdBlackouts"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/blackouts/{blackoutId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Remove a blocked date range (resource owner only) */
+        delete: operations["deleteResourcesByIdBlackoutsByBlackoutId"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/photos": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Upload photos for a resource (resource owner only)
+         * @description Body: multipart/form-data with photo files
+         */
+        post: operations["postResourcesByIdPhotos"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{resourceId}/photos/{photoId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Delete a photo from a resource (resource owner only) */
+        delete: operations["deleteResourcesByResourceIdPhotosByPhotoId"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/photos/{photoId}/primary": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Set a photo as the primary photo for a resource (resource owner only) */
+        put: operations["putResourcesByIdPhotosByPhotoIdPrimary"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resources/{id}/photos/reorder": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Reorder photos for a resource (resource owner only)
+         * @description Body: { photoOrder: [{ id: number, order: number }] }
+         */
+        put: operations["putResourcesByIdPhotosReorder"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/uploads/resources/{filename}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Serve uploaded resource photos */
+        get: operations["getUploadsResourcesByFilename"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats/unread-count": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get unread message count (should be first to avoid conflict with :id) */
+        get: operations["getChatsUnreadCount"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get all chats for the authenticated user */
+        get: operations["getChats"];
+        put?: never;
+        /** Create or get an existing chat between two users */
+        post: operations["postChats"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats/{id}/messages": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get messages for a specific chat */
+        get: operations["getChatsByIdMessages"];
+        put?: never;
+        /** Send a message in a chat */
+        post: operations["postChatsByIdMessages"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats/{id}/read": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark messages in a chat as read */
+        put: operations["putChatsByIdRead"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats/{id}/archive": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Toggle chat archive status */
+        put: operations["putChatsByIdArchive"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chats/messages/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Delete a message (separate route for clarity) */
+        delete: operations["deleteChatsMessagesById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get user stats
+         * @description Get user statistics (should be before :id routes to avoid conflict)
+         */
+        get: operations["getBorrowRequestsStats"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/overdue": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get overdue requests (system/admin endpoint)
+         * @description Requires the admin role.
+         */
+        get: operations["getBorrowRequestsOverdue"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create a new borrow request (location-verified users only when REQUIRE_VERIFIED_LOCATION is on) */
+        post: operations["postBorrowRequests"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/groups": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Request several resources of one owner and/or recurring dates (resource_ids, start_date, end_date, recurrence?) */
+        post: operations["postBorrowRequestsGroups"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/groups/{groupId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a bundle or recurring request with all its bookings */
+        get: operations["getBorrowRequestsGroupsByGroupId"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/groups/{groupId}/status": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Approve or reject a group's pending requests (status, request_ids? for a partial decision) */
+        put: operations["putBorrowRequestsGroupsByGroupIdStatus"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/groups/{groupId}/cancel": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Cancel every open request of a group */
+        put: operations["putBorrowRequestsGroupsByGroupIdCancel"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a specific borrow request by ID */
+        get: operations["getBorrowRequestsById"];
+        /** Update borrow request with additional information */
+        put: operations["putBorrowRequestsById"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/history": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the status history of a borrow request */
+        get: operations["getBorrowRequestsByIdHistory"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/status": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Update borrow request status (approve/reject) */
+        put: operations["putBorrowRequestsByIdStatus"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/cancel": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Cancel a borrow request */
+        put: operations["putBorrowRequestsByIdCancel"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/pickup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark request as picked up */
+        put: operations["putBorrowRequestsByIdPickup"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/return": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark request as returned */
+        put: operations["putBorrowRequestsByIdReturn"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/complete": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark request as completed */
+        put: operations["putBorrowRequestsByIdComplete"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/extensions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Extension requests of a borrow */
+        get: operations["getBorrowRequestsByIdExtensions"];
+        put?: never;
+        /** Ask for a later end date on an active borrow */
+        post: operations["postBorrowRequestsByIdExtensions"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/extensions/{extensionId}/respond": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Approve or decline an extension (owner) */
+        put: operations["putBorrowRequestsByIdExtensionsByExtensionIdRespond"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/extensions/{extensionId}/cancel": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Withdraw an unanswered extension request (borrower) */
+        put: operations["putBorrowRequestsByIdExtensionsByExtensionIdCancel"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/condition-reports": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Pickup and return condition reports side by side */
+        get: operations["getBorrowRequestsByIdConditionReports"];
+        put?: never;
+        /** File or update a condition report (multipart: stage, condition, checklist JSON, notes?, photos[]) */
+        post: operations["postBorrowRequestsByIdConditionReports"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow-requests/{id}/condition-reports/{stage}/sign": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Sign off a condition report (stage: pickup | return) */
+        put: operations["putBorrowRequestsByIdConditionReportsByStageSign"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/pending": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get pending reviews
+         * @description Get pending reviews (should be before :id routes to avoid conflict)
+         */
+        get: operations["getReviewsPending"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/statistics": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get review statistics for the authenticated user */
+        get: operations["getReviewsStatistics"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create a new review */
+        post: operations["postReviews"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a specific review by ID */
+        get: operations["getReviewsById"];
+        /** Update a review */
+        put: operations["putReviewsById"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/{id}/response": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a response to a review */
+        post: operations["postReviewsByIdResponse"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/{id}/flag": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Flag a review for moderation */
+        post: operations["postReviewsByIdFlag"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/{id}/vote": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Vote on review helpfulness */
+        post: operations["postReviewsByIdVote"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/admin/{id}/moderate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Admin endpoint to moderate a review (kept for older clients)
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putReviewsAdminByIdModerate"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get notifications for authenticated user */
+        get: operations["getNotifications"];
+        put?: never;
+        /**
+         * Create a notification (admin only)
+         * @description Requires the admin role.
+         */
+        post: operations["postNotifications"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/unread-count": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get unread notification count */
+        get: operations["getNotificationsUnreadCount"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get notification statistics */
+        get: operations["getNotificationsStats"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/scheduled": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get scheduled notifications ready for sending (admin only)
+         * @description Requires the admin role.
+         */
+        get: operations["getNotificationsScheduled"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/{id}/read": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark a notification as read */
+        put: operations["putNotificationsByIdRead"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/mark-multiple-read": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark multiple notifications as read */
+        put: operations["putNotificationsMarkMultipleRead"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/mark-all-read": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Mark all notifications as read */
+        put: operations["putNotificationsMarkAllRead"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/cleanup-expired": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Clean up expired notifications (admin only)
+         * @description Registered before DELETE /:id so the static path is not captured as an ID
+         *
+         *     Requires the admin role.
+         */
+        delete: operations["deleteNotificationsCleanupExpired"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Delete a notification */
+        delete: operations["deleteNotificationsById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/delete-multiple": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Delete multiple notifications */
+        delete: operations["deleteNotificationsDeleteMultiple"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/bulk": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Create bulk notifications (admin only)
+         * @description Requires the admin role.
+         */
+        post: operations["postNotificationsBulk"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/notifications/{id}/sent": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Mark notification as sent (admin only)
+         * @description Requires the admin role.
+         */
+        put: operations["putNotificationsByIdSent"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/waitlist": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the user's active waitlist entries */
+        get: operations["getWaitlist"];
+        put?: never;
+        /** Join the waitlist for a resource */
+        post: operations["postWaitlist"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/waitlist/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Leave a waitlist */
+        delete: operations["deleteWaitlistById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/deposits": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the user's deposit entries */
+        get: operations["getDeposits"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/deposits/requests/{requestId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the deposit ledger of a borrow request */
+        get: operations["getDepositsRequestsByRequestId"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/deposits/entries/{id}/confirm": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Confirm a pending deposit entry */
+        put: operations["putDepositsEntriesByIdConfirm"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/deposits/entries/{id}/reject": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Reject a pending hold or dispute a withholding */
+        put: operations["putDepositsEntriesByIdReject"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/disputes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Open a dispute on a returned borrow (multipart: borrow_request_id, reason, claimed_amount?, photos[]) */
+        post: operations["postDisputes"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/disputes/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a dispute with statements and evidence */
+        get: operations["getDisputesById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/disputes/{id}/statements": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Add a statement */
+        post: operations["postDisputesByIdStatements"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/disputes/{id}/evidence": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Upload photo evidence (multipart: photos[], caption?) */
+        post: operations["postDisputesByIdEvidence"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/disputes/{id}/withdraw": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Withdraw a dispute you opened */
+        put: operations["putDisputesByIdWithdraw"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/saved-searches": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the user's saved searches */
+        get: operations["getSavedSearches"];
+        put?: never;
+        /** Save a search */
+        post: operations["postSavedSearches"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/saved-searches/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Update a saved search (name, filters, alerts) */
+        put: operations["putSavedSearchesById"];
+        post?: never;
+        /** Delete a saved search */
+        delete: operations["deleteSavedSearchesById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/communities": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List communities (membership flags when signed in) */
+        get: operations["getCommunities"];
+        put?: never;
+        /**
+         * Create a community: { name, description?, boundary? | center_latitude, center_longitude, radius_km }
+         * @description Requires the admin role.
+         */
+        post: operations["postCommunities"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/communities/mine": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the user's communities */
+        get: operations["getCommunitiesMine"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/communities/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a community */
+        get: operations["getCommunitiesById"];
+        /**
+         * Update a community's name, description or area
+         * @description Requires the admin role.
+         */
+        put: operations["putCommunitiesById"];
+        post?: never;
+        /**
+         * Delete a community
+         * @description Requires the admin role.
+         */
+        delete: operations["deleteCommunitiesById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/communities/{id}/join": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Join a community around the user's verified location */
+        post: operations["postCommunitiesByIdJoin"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/communities/{id}/membership": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Leave a community */
+        delete: operations["deleteCommunitiesByIdMembership"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/location-verification": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the user's verification status, history and the available methods */
+        get: operations["getLocationVerification"];
+        put?: never;
+        /** Start a verification: { method: postal_code | neighbor_vouch | admin_review, note? } */
+        post: operations["postLocationVerification"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/location-verification/vouch-requests": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get neighbors asking the user to vouch for them */
+        get: operations["getLocationVerificationVouchRequests"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/location-verification/{id}/code": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Enter the mailed code: { code } */
+        post: operations["postLocationVerificationByIdCode"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/location-verification/{id}/vouch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Vouch for a neighbor */
+        post: operations["postLocationVerificationByIdVouch"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/location-verification/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Withdraw a pending verification */
+        delete: operations["deleteLocationVerificationById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/moderation/reviews": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get flagged reviews
+         * @description Moderation queues
+         *
+         *     Requires the moderator or admin role.
+         */
+        get: operations["getAdminModerationReviews"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/moderation/issues": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get reported issues
+         * @description Requires the moderator or admin role.
+         */
+        get: operations["getAdminModerationIssues"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/moderation/listings": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get suspicious listings
+         * @description Requires the moderator or admin role.
+         */
+        get: operations["getAdminModerationListings"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/moderation/disputes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get disputes
+         * @description Requires the moderator or admin role.
+         */
+        get: operations["getAdminModerationDisputes"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/moderation/actions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Moderation audit log
+         * @description Requires the moderator or admin role.
+         */
+        get: operations["getAdminModerationActions"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reviews/{id}/moderate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Moderate review
+         * @description Moderation actions
+         *
+         *     Requires the moderator or admin role.
+         */
+        put: operations["putAdminReviewsByIdModerate"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users/{id}/moderate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Moderate user
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putAdminUsersByIdModerate"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/resources/{id}/moderate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Moderate resource
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putAdminResourcesByIdModerate"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/borrow-requests/{id}/resolve": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Resolve issue
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putAdminBorrowRequestsByIdResolve"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/disputes/{id}/decide": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Decide dispute
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putAdminDisputesByIdDecide"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/location-verifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Location verifications waiting for review
+         * @description Requires the moderator or admin role.
+         */
+        get: operations["getAdminLocationVerifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/location-verifications/{id}/review": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Approve or reject a location: { decision: approve | reject, note? }
+         * @description Requires the moderator or admin role.
+         */
+        put: operations["putAdminLocationVerificationsByIdReview"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/jobs": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get jobs
+         * @description Background jobs (admin only)
+         *
+         *     Requires the admin role.
+         */
+        get: operations["getAdminJobs"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/jobs/runs": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get job runs
+         * @description Requires the admin role.
+         */
+        get: operations["getAdminJobsRuns"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/jobs/{name}/run": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Run job
+         * @description Requires the admin role.
+         */
+        post: operations["postAdminJobsByNameRun"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/docs/openapi.json": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** The OpenAPI document, for client generators and other tools */
+        get: operations["getDocsOpenapiJson"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/my-requests": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** User's borrow requests */
+        get: operations["getMyRequests"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resource-requests": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Requests for user's resources */
+        get: operations["getResourceRequests"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/borrow": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Legacy borrow route */
+        post: operations["postBorrow"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/users/{userId}/reviews": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** User reviews (public endpoint) */
+        get: operations["getUsersByUserIdReviews"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Legacy review route */
+        get: operations["getReviewsByUserId"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/my-reviews": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** User's own reviews */
+        get: operations["getMyReviews"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/users/{userId}/review-stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** User review statistics */
+        get: operations["getUsersByUserIdReviewStats"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/register": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Register
+         * @description Public routes (no authentication required)
+         */
+        post: operations["postRegister"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Login */
+        post: operations["postLogin"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/login/2fa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Complete two factor login */
+        post: operations["postLogin2fa"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Refresh token */
+        post: operations["postRefresh"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify-email": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify email */
+        post: operations["postVerifyEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/forgot-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Forgot password */
+        post: operations["postForgotPassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reset-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Reset password */
+        post: operations["postResetPassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/profile": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get profile
+         * @description Protected routes (authentication required)
+         */
+        get: operations["getProfile"];
+        /** Update profile */
+        put: operations["putProfile"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/profile/complete": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get complete profile */
+        get: operations["getProfileComplete"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/update-location": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Update location */
+        post: operations["postUpdateLocation"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Logout */
+        post: operations["postLogout"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/change-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Change password */
+        post: operations["postChangePassword"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/resend-verification": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Resend verification */
+        post: operations["postResendVerification"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/sessions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get sessions */
+        get: operations["getSessions"];
+        put?: never;
+        post?: never;
+        /** Revoke all sessions */
+        delete: operations["deleteSessions"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/sessions/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Revoke session */
+        delete: operations["deleteSessionsById"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/2fa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get status
+         * @description Two-factor authentication
+         */
+        get: operations["get2fa"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/2fa/setup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Setup */
+        post: operations["post2faSetup"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/2fa/enable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Enable */
+        post: operations["post2faEnable"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/2fa/disable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Disable */
+        post: operations["post2faDisable"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/2fa/recovery-codes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Regenerate recovery codes */
+        post: operations["post2faRecoveryCodes"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/users/{id}/role": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Update user role
+         * @description Admin routes
+         *
+         *     Requires the admin role.
+         */
+        put: operations["putUsersByIdRole"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        ActiveSession: {
+            id: number;
+            device: string;
+            user_agent?: string | null;
+            ip_address?: string | null;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            last_used_at: string;
+            /** Format: date-time */
+            expires_at: string;
+            current: boolean;
+        };
+        AuthResponse: {
+            user: {
+                id: number;
+                name: string;
+                email: string;
+                phone?: string;
+                address?: string;
+                latitude?: number;
+                longitude?: number;
+                neighborhood?: string;
+                postal_code?: string;
+                bio?: string;
+                avatar_url?: string;
+                is_email_verified: boolean;
+                is_location_verified: boolean;
+                is_active: boolean;
+                verification_status: string;
+                role: components["schemas"]["UserRole"];
+                /** Format: date-time */
+                last_login?: string;
+                two_factor_enabled: boolean;
+                average_rating: number;
+                total_ratings: number;
+                items_shared: number;
+                successful_borrows: number;
+                /** Format: date-time */
+                created_at: string;
+                /** Format: date-time */
+                updated_at: string;
+                resources?: components["schemas"]["Resource"][];
+                borrow_requests?: components["schemas"]["BorrowRequest"][];
+                chats_as_user1?: components["schemas"]["Chat"][];
+                chats_as_user2?: components["schemas"]["Chat"][];
+                messages?: components["schemas"]["Message"][];
+                reviews_given?: components["schemas"]["Review"][];
+                reviews_received?: components["schemas"]["Review"][];
+                notifications?: components["schemas"]["Notification"][];
+            };
+            accessToken: string;
+            refreshToken: string;
+            message: string;
+            success: boolean;
+        };
+        AvailabilityRequest: {
+            is_available: boolean;
+        };
+        BlackoutCreateData: {
+            start_date: string;
+            end_date: string;
+            reason?: string;
+        };
+        BlackoutResponse: {
+            data?: components["schemas"]["ResourceBlackout"];
+            message: string;
+            success: boolean;
+        };
+        BookedRange: {
+            start_date: string;
+            end_date: string;
+            status: components["schemas"]["BorrowRequestStatus"];
+        };
+        BorrowExtension: {
+            id: number;
+            borrow_request_id: number;
+            requested_by: number;
+            previous_end_date: string;
+            requested_end_date: string;
+            message?: string;
+            status: components["schemas"]["BorrowExtensionStatus"];
+            response_message?: string;
+            responded_by?: number;
+            /** Format: date-time */
+            responded_at?: string;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            borrow_request?: components["schemas"]["BorrowRequest"];
+            requester?: components["schemas"]["User"];
+        };
+        BorrowExtensionResponse: {
+            data?: components["schemas"]["BorrowExtension"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        BorrowExtensionStatus: "pending" | "approved" | "declined" | "cancelled";
+        BorrowExtensionsResponse: {
+            data?: components["schemas"]["BorrowExtension"][];
+            message: string;
+            success: boolean;
+        };
+        BorrowRequest: {
+            id: number;
+            resource_id: number;
+            requester_id: number;
+            group_id?: number | null;
+            /** Format: date-time */
+            start_date: string;
+            /** Format: date-time */
+            end_date: string;
+            message?: string;
+            status: components["schemas"]["BorrowRequestStatus"];
+            response_message?: string;
+            deposit_amount?: number;
+            deposit_paid: boolean;
+            deposit_returned: boolean;
+            /** Format: date-time */
+            requested_at?: string;
+            /** Format: date-time */
+            responded_at?: string;
+            /** Format: date-time */
+            picked_up_at?: string;
+            /** Format: date-time */
+            returned_at?: string;
+            /** Format: date-time */
+            due_date?: string;
+            pickup_notes?: string;
+            return_notes?: string;
+            pickup_location?: string;
+            return_location?: string;
+            has_issues: boolean;
+            issue_description?: string;
+            /** Format: date-time */
+            issue_reported_at?: string;
+            issue_resolved: boolean;
+            emergency_contact?: string;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            resource?: components["schemas"]["Resource"];
+            requester?: components["schemas"]["User"];
+            group?: components["schemas"]["BorrowRequestGroup"];
+            reviews?: components["schemas"]["Review"][];
+            events?: components["schemas"]["BorrowRequestEvent"][];
+            deposit_entries?: components["schemas"]["DepositLedgerEntry"][];
+            disputes?: components["schemas"]["DisputeCase"][];
+            condition_reports?: components["schemas"]["ConditionReport"][];
+            extensions?: components["schemas"]["BorrowExtension"][];
+        };
+        BorrowRequestEvent: {
+            id: number;
+            borrow_request_id: number;
+            actor_id?: number;
+            from_status?: components["schemas"]["BorrowRequestStatus"];
+            to_status: components["schemas"]["BorrowRequestStatus"];
+            note?: string;
+            /** Format: date-time */
+            created_at: string;
+            borrow_request?: components["schemas"]["BorrowRequest"];
+            actor?: components["schemas"]["User"];
+        };
+        /** @description Borrow requests made together: several resources from one owner (a bundle), the same dates repeated (a recurrence), or both. Each resource and occurrence is still its own BorrowRequest. */
+        BorrowRequestGroup: {
+            id: number;
+            requester_id: number;
+            owner_id: number;
+            recurrence_frequency: components["schemas"]["RecurrenceFrequency"] | null;
+            occurrences: number;
+            message?: string;
+            /** Format: date-time */
+            created_at: string;
+            requester?: components["schemas"]["User"];
+            owner?: components["schemas"]["User"];
+            requests?: components["schemas"]["BorrowRequest"][];
+        };
+        BorrowRequestGroupCreateData: {
+            resource_ids: number[];
+            start_date: string;
+            end_date: string;
+            message?: string;
+            pickup_location?: string;
+            return_location?: string;
+            recurrence?: components["schemas"]["RecurrenceRule"];
+        };
+        BorrowRequestGroupResponse: {
+            data?: components["schemas"]["BorrowRequestGroup"];
+            message: string;
+            success: boolean;
+        };
+        BorrowRequestHistoryResponse: {
+            data?: components["schemas"]["BorrowRequestEvent"][];
+            message: string;
+            success: boolean;
+        };
+        BorrowRequestListQuery: {
+            page?: number;
+            limit?: number;
+            status?: components["schemas"]["BorrowRequestStatus"];
+        };
+        BorrowRequestListResponse: {
+            pagination: {
+                page: number;
+                limit: number;
+                total: number;
+                pages: number;
+            };
+            data?: components["schemas"]["BorrowRequest"][];
+            message: string;
+            success: boolean;
+        };
+        BorrowRequestResponse: {
+            data?: components["schemas"]["BorrowRequest"];
+            message: string;
+            success: boolean;
+        };
+        BorrowRequestStats: {
+            totalRequests: number;
+            pendingRequests: number;
+            approvedRequests: number;
+            activeRequests: number;
+            completedRequests: number;
+            resourcesLent: number;
+            resourcesBorrowed: number;
+        };
+        BorrowRequestStatsResponse: {
+            data?: components["schemas"]["BorrowRequestStats"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        BorrowRequestStatus: "pending" | "approved" | "rejected" | "cancelled" | "active" | "returned" | "overdue" | "completed";
+        BorrowRequestsResponse: {
+            data?: components["schemas"]["BorrowRequest"][];
+            message: string;
+            success: boolean;
+        };
+        BulkNotificationRequest: {
+            scheduled_for?: string;
+            expires_at?: string;
+            title: unknown;
+            message: unknown;
+            notification_type: unknown;
+            priority: unknown;
+            related_resource_id: unknown;
+            related_borrow_request_id: unknown;
+            related_chat_id: unknown;
+            related_review_id: unknown;
+            related_user_id: unknown;
+            action_url: unknown;
+            action_text: unknown;
+            metadata: unknown;
+            user_ids: number[];
+        };
+        BulkNotificationResponse: {
+            data?: {
+                created_count: number;
+                notifications: components["schemas"]["Notification"][];
+            };
+            message: string;
+            success: boolean;
+        };
+        CalendarDay: {
+            date: string;
+            status: components["schemas"]["CalendarDayStatus"];
+            handover_allowed: boolean;
+        };
+        /** @enum {string} */
+        CalendarDayStatus: "available" | "booked" | "blackout" | "past" | "unlisted";
+        CalendarQuery: {
+            from?: string;
+            to?: string;
+        };
+        ChangePasswordRequest: {
+            currentPassword: string;
+            newPassword: string;
+        };
+        Chat: {
+            id: number;
+            user1_id: number;
+            user2_id: number;
+            subject?: string;
+            resource_id?: number;
+            status: string;
+            last_message?: string;
+            /** Format: date-time */
+            last_message_at?: string;
+            last_message_sender_id?: number;
+            user1_has_unread: boolean;
+            user2_has_unread: boolean;
+            user1_unread_count: number;
+            user2_unread_count: number;
+            user1_archived: boolean;
+            user2_archived: boolean;
+            user1_muted: boolean;
+            user2_muted: boolean;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            user1?: components["schemas"]["User"];
+            user2?: components["schemas"]["User"];
+            messages?: components["schemas"]["Message"][];
+        };
+        ChatListResponse: {
+            data?: components["schemas"]["ChatSummary"][];
+            message: string;
+            success: boolean;
+        };
+        ChatMessageResponse: {
+            data?: components["schemas"]["Message"];
+            message: string;
+            success: boolean;
+        };
+        ChatMessagesResponse: {
+            pagination: {
+                page: number;
+                limit: number;
+                total: number;
+                pages: number;
+            };
+            data?: components["schemas"]["Message"][];
+            message: string;
+            success: boolean;
+        };
+        ChatResponse: {
+            data?: components["schemas"]["Chat"];
+            message: string;
+            success: boolean;
+        };
+        ChatSummary: {
+            id: number;
+            user1_id: number;
+            user2_id: number;
+            subject?: string;
+            resource_id?: number;
+            status: string;
+            last_message?: string;
+            /** Format: date-time */
+            last_message_at?: string;
+            last_message_sender_id?: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            otherUser: {
+                id: number;
+                name: string;
+                avatar_url?: string;
+            } | null;
+            lastMessage: {
+                id: number;
+                content: string;
+                message_type: string;
+                sender_id: number;
+                /** Format: date-time */
+                created_at: string;
+            } | null;
+            unreadCount: number;
+        };
+        ChatUnreadCountResponse: {
+            data?: {
+                unreadCount: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        ChecklistComparison: {
+            item: string;
+            pickup: components["schemas"]["ConditionChecklistItem"] | null;
+            return: components["schemas"]["ConditionChecklistItem"] | null;
+            changed: boolean;
+        };
+        CommunitiesResponse: {
+            data?: components["schemas"]["CommunityWithMembership"][];
+            message: string;
+            success: boolean;
+        };
+        Community: {
+            id: number;
+            name: string;
+            description?: string;
+            boundary?: components["schemas"]["LocationCoordinates"][] | null;
+            center_latitude?: number | null;
+            center_longitude?: number | null;
+            radius_km?: number | null;
+            member_count: number;
+            created_by?: number | null;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            creator?: components["schemas"]["User"];
+            memberships?: components["schemas"]["CommunityMembership"][];
+        };
+        CommunityCreateData: {
+            boundary?: components["schemas"]["LocationCoordinates"][] | null;
+            center_latitude?: number | null;
+            center_longitude?: number | null;
+            radius_km?: number | null;
+            name: string;
+            description?: string;
+        };
+        CommunityDetailResponse: {
+            data?: components["schemas"]["CommunityWithMembership"];
+            message: string;
+            success: boolean;
+        };
+        CommunityMembership: {
+            id: number;
+            community_id: number;
+            user_id: number;
+            /** Format: date-time */
+            joined_at: string;
+            community?: components["schemas"]["Community"];
+            user?: components["schemas"]["User"];
+        };
+        CommunityResponse: {
+            data?: components["schemas"]["Community"];
+            message: string;
+            success: boolean;
+        };
+        CommunityUpdateData: {
+            name?: string;
+            description?: string;
+            boundary?: unknown;
+            center_latitude?: unknown;
+            center_longitude?: unknown;
+            radius_km?: unknown;
+        };
+        CommunityWithMembership: {
+            id: number;
+            name: string;
+            description?: string;
+            boundary?: components["schemas"]["LocationCoordinates"][] | null;
+            center_latitude?: number | null;
+            center_longitude?: number | null;
+            radius_km?: number | null;
+            member_count: number;
+            created_by?: number | null;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            creator?: components["schemas"]["User"];
+            memberships?: components["schemas"]["CommunityMembership"][];
+            is_member?: boolean;
+            covers_your_location?: boolean;
+        };
+        CompleteProfile: {
+            user: {
+                id: number;
+                name: string;
+                email: string;
+                phone?: string;
+                address?: string;
+                latitude?: number;
+                longitude?: number;
+                neighborhood?: string;
+                postal_code?: string;
+                bio?: string;
+                avatar_url?: string;
+                is_email_verified: boolean;
+                is_location_verified: boolean;
+                is_active: boolean;
+                verification_status: string;
+                role: components["schemas"]["UserRole"];
+                /** Format: date-time */
+                last_login?: string;
+                two_factor_enabled: boolean;
+                average_rating: number;
+                total_ratings: number;
+                items_shared: number;
+                successful_borrows: number;
+                /** Format: date-time */
+                created_at: string;
+                /** Format: date-time */
+                updated_at: string;
+                resources?: components["schemas"]["Resource"][];
+                borrow_requests?: components["schemas"]["BorrowRequest"][];
+                chats_as_user1?: components["schemas"]["Chat"][];
+                chats_as_user2?: components["schemas"]["Chat"][];
+                messages?: components["schemas"]["Message"][];
+                reviews_given?: components["schemas"]["Review"][];
+                reviews_received?: components["schemas"]["Review"][];
+                notifications?: components["schemas"]["Notification"][];
+            };
+            statistics: {
+                borrowCount: number;
+                lendCount: number;
+                exchangeCount: number;
+                totalResources: number;
+                successfulBorrows: number;
+                completedBorrows: number;
+                completedLends: number;
+                averageRating: number;
+                totalRatings: number;
+            };
+            resources: {
+                lend: components["schemas"]["Resource"][];
+                exchange: components["schemas"]["Resource"][];
+            };
+            borrowHistory: components["schemas"]["BorrowRequest"][];
+            lendHistory: components["schemas"]["BorrowRequest"][];
+            reviews: {
+                received: components["schemas"]["Review"][];
+                given: components["schemas"]["Review"][];
+            };
+        };
+        CompleteProfileResponse: {
+            data: components["schemas"]["CompleteProfile"];
+            success: boolean;
+        };
+        ConditionChecklistItem: {
+            item: string;
+            ok: boolean;
+            note?: string;
+        };
+        ConditionComparison: {
+            request_id: number;
+            request_status: components["schemas"]["BorrowRequestStatus"];
+            party: components["schemas"]["HandoverParty"] | null;
+            pickup: components["schemas"]["ConditionReport"] | null;
+            return: components["schemas"]["ConditionReport"] | null;
+            condition_changed: boolean | null;
+            condition_worsened: boolean | null;
+            checklist: components["schemas"]["ChecklistComparison"][];
+        };
+        ConditionComparisonResponse: {
+            data?: components["schemas"]["ConditionComparison"];
+            message: string;
+            success: boolean;
+        };
+        ConditionReport: {
+            id: number;
+            borrow_request_id: number;
+            stage: components["schemas"]["ConditionReportStage"];
+            condition: components["schemas"]["ResourceCondition"];
+            checklist: components["schemas"]["ConditionChecklistItem"][];
+            notes?: string | null;
+            created_by: number;
+            updated_by?: number;
+            owner_signed_at?: string | null;
+            borrower_signed_at?: string | null;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            borrow_request?: components["schemas"]["BorrowRequest"];
+            author?: components["schemas"]["User"];
+            photos?: components["schemas"]["ConditionReportPhoto"][];
+        };
+        ConditionReportData: {
+            stage: components["schemas"]["ConditionReportStage"];
+            condition: components["schemas"]["ResourceCondition"];
+            checklist?: components["schemas"]["ConditionChecklistItem"][];
+            notes?: string;
+        };
+        ConditionReportPhoto: {
+            id: number;
+            report_id: number;
+            uploaded_by: number;
+            photo_filename: string;
+            photo_url: string;
+            file_size?: number;
+            mime_type?: string;
+            /** Format: date-time */
+            created_at: string;
+            report?: components["schemas"]["ConditionReport"];
+            uploader?: components["schemas"]["User"];
+        };
+        ConditionReportResponse: {
+            data?: components["schemas"]["ConditionReport"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        ConditionReportStage: "pickup" | "return";
+        CreateBorrowRequestRequest: {
+            resource_id: number;
+            message?: string;
+            pickup_location?: string;
+            return_location?: string;
+            start_date: string;
+            end_date: string;
+        };
+        CreateChatRequest: {
+            other_user_id?: number;
+            user1_id?: number;
+            user2_id?: number;
+        };
+        CreateNotificationRequest: {
+            user_id: number;
+            title: string;
+            message: string;
+            notification_type: components["schemas"]["NotificationType"];
+            priority?: components["schemas"]["NotificationPriority"];
+            related_resource_id?: number;
+            related_borrow_request_id?: number;
+            related_chat_id?: number;
+            related_review_id?: number;
+            related_user_id?: number;
+            action_url?: string;
+            action_text?: string;
+            metadata?: Record<string, never>;
+            scheduled_for?: string;
+            expires_at?: string;
+        };
+        CreateResourceRequest: {
+            title: string;
+            description: string;
+            category: string;
+            estimated_value?: number;
+            condition?: string;
+            condition_notes?: string;
+            max_borrow_days?: number;
+            deposit_required?: number;
+            pickup_required?: boolean;
+            pickup_instructions?: string;
+            usage_instructions?: string;
+            location_notes?: string;
+            available_days?: string[];
+            available_time_start?: string;
+            available_time_end?: string;
+            visibility?: components["schemas"]["ResourceVisibility"];
+            community_ids?: number[];
+        };
+        CreateReviewRequest: {
+            reviewee_id: number;
+            borrow_request_id?: number;
+            rating: number;
+            comment?: string;
+            /** @enum {string} */
+            review_type: "borrower_to_owner" | "owner_to_borrower";
+            communication_rating?: number;
+            reliability_rating?: number;
+            item_condition_rating?: number;
+            care_rating?: number;
+            is_anonymous?: boolean;
+        };
+        DeletedCountResponse: {
+            data?: {
+                deleted_count: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        DepositEntriesResponse: {
+            pagination: {
+                page: number;
+                limit: number;
+                total: number;
+                pages: number;
+            };
+            data?: components["schemas"]["DepositLedgerEntry"][];
+            message: string;
+            success: boolean;
+        };
+        DepositEntryResponse: {
+            data?: components["schemas"]["DepositLedgerEntry"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        DepositEntryStatus: "pending" | "confirmed" | "rejected" | "resolved";
+        /** @enum {string} */
+        DepositEntryType: "hold" | "release" | "withhold" | "dispute";
+        DepositLedger: {
+            borrow_request_id: number;
+            deposit_amount: number;
+            held: number;
+            released: number;
+            withheld: number;
+            outstanding: number;
+            open_dispute: boolean;
+            entries: components["schemas"]["DepositLedgerEntry"][];
+        };
+        DepositLedgerEntry: {
+            id: number;
+            borrow_request_id: number;
+            type: components["schemas"]["DepositEntryType"];
+            amount: number;
+            status: components["schemas"]["DepositEntryStatus"];
+            reason?: string;
+            created_by?: number;
+            /** Format: date-time */
+            owner_confirmed_at?: string;
+            /** Format: date-time */
+            borrower_confirmed_at?: string;
+            resolved_by?: number;
+            provider_reference?: string;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            borrow_request?: components["schemas"]["BorrowRequest"];
+            creator?: components["schemas"]["User"];
+        };
+        DepositLedgerResponse: {
+            data?: components["schemas"]["DepositLedger"];
+            message: string;
+            success: boolean;
+        };
+        DisableTwoFactorRequest: {
+            code?: string;
+            recoveryCode?: string;
+            password: string;
+        };
+        DisputeCase: {
+            id: number;
+            borrow_request_id: number;
+            opened_by: number;
+            status: components["schemas"]["DisputeStatus"];
+            reason: string;
+            claimed_amount?: number;
+            outcome?: components["schemas"]["DisputeOutcome"];
+            decision_notes?: string;
+            withheld_amount?: number;
+            decided_by?: number;
+            /** Format: date-time */
+            decided_at?: string;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            borrow_request?: components["schemas"]["BorrowRequest"];
+            opener?: components["schemas"]["User"];
+            moderator?: components["schemas"]["User"];
+            statements?: components["schemas"]["DisputeStatement"][];
+            evidence?: components["schemas"]["DisputeEvidence"][];
+        };
+        DisputeDecisionData: {
+            outcome: components["schemas"]["DisputeOutcome"];
+            notes: string;
+            withheld_amount?: number;
+        };
+        DisputeEvidence: {
+            id: number;
+            dispute_id: number;
+            uploaded_by: number;
+            party: components["schemas"]["DisputeParty"];
+            photo_filename: string;
+            photo_url: string;
+            file_size?: number;
+            mime_type?: string;
+            caption?: string;
+            /** Format: date-time */
+            created_at: string;
+            dispute?: components["schemas"]["DisputeCase"];
+            uploader?: components["schemas"]["User"];
+        };
+        DisputeEvidenceRequest: {
+            caption?: string;
+        };
+        DisputeEvidenceResponse: {
+            data?: components["schemas"]["DisputeEvidence"][];
+            message: string;
+            success: boolean;
+        };
+        DisputeOpenData: {
+            borrow_request_id: number;
+            reason: string;
+            claimed_amount?: number;
+        };
+        /** @enum {string} */
+        DisputeOutcome: "owner_favoured" | "borrower_favoured" | "shared";
+        /** @enum {string} */
+        DisputeParty: "owner" | "borrower";
+        DisputeQueueResponse: {
+            data?: {
+                data: components["schemas"]["DisputeCase"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        DisputeResponse: {
+            data?: components["schemas"]["DisputeCase"];
+            message: string;
+            success: boolean;
+        };
+        DisputeStatement: {
+            id: number;
+            dispute_id: number;
+            author_id: number;
+            party: components["schemas"]["DisputeParty"];
+            body: string;
+            /** Format: date-time */
+            created_at: string;
+            dispute?: components["schemas"]["DisputeCase"];
+            author?: components["schemas"]["User"];
+        };
+        DisputeStatementRequest: {
+            body: string;
+        };
+        DisputeStatementResponse: {
+            data?: components["schemas"]["DisputeStatement"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        DisputeStatus: "open" | "under_review" | "resolved" | "withdrawn";
+        ErrorResponse: {
+            message: string;
+            /** @constant */
+            success: false;
+            error?: {
+                code?: string;
+                field?: string;
+                value?: unknown;
+                stack?: string;
+            };
+        };
+        /** @enum {string} */
+        ExtensionDecision: "approve" | "decline";
+        ExtensionProposalData: {
+            requested_end_date: string;
+            message?: string;
+        };
+        FavouriteResponse: {
+            data?: {
+                notify_when_available: boolean;
+            };
+            message: string;
+            success: boolean;
+        };
+        FlagReviewRequest: {
+            reason: string;
+        };
+        FlaggedReviewsResponse: {
+            data?: {
+                data: components["schemas"]["Review"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        ForgotPasswordRequest: {
+            email: string;
+        };
+        /** @enum {string} */
+        HandoverParty: "owner" | "borrower";
+        HealthResponse: {
+            status: string;
+            message: string;
+            timestamp: string;
+            success: boolean;
+        };
+        JobRun: {
+            id: number;
+            job_name: string;
+            status: components["schemas"]["JobRunStatus"];
+            trigger: string;
+            triggered_by?: number;
+            /** Format: date-time */
+            started_at: string;
+            /** Format: date-time */
+            finished_at?: string;
+            duration_ms?: number;
+            result?: {
+                [key: string]: number;
+            };
+            error?: string;
+        };
+        JobRunResponse: {
+            data?: components["schemas"]["JobRun"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        JobRunStatus: "running" | "success" | "failed";
+        JobRunsQuery: {
+            page?: number;
+            limit?: number;
+            job?: string;
+        };
+        JobRunsResponse: {
+            data?: {
+                data: components["schemas"]["JobRun"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        JobStatus: {
+            name: string;
+            description: string;
+            interval_ms: number;
+            is_running: boolean;
+            /** Format: date-time */
+            next_run_at?: string;
+            state?: components["schemas"]["ScheduledJob"];
+        };
+        JobsResponse: {
+            data?: components["schemas"]["JobStatus"][];
+            message: string;
+            success: boolean;
+        };
+        JoinWaitlistRequest: {
+            resource_id: number;
+            start_date?: string;
+            end_date?: string;
+        };
+        LocationCodeRequest: {
+            code: string;
+        };
+        LocationCoordinates: {
+            latitude: number;
+            longitude: number;
+        };
+        LocationVerification: {
+            id: number;
+            user_id: number;
+            method: components["schemas"]["LocationVerificationMethodName"];
+            status: components["schemas"]["LocationVerificationStatus"];
+            address?: string;
+            latitude: number;
+            longitude: number;
+            code_hash?: string | null;
+            attempts: number;
+            max_attempts?: number | null;
+            required_vouches?: number | null;
+            vouch_count: number;
+            note?: string | null;
+            reviewed_by?: number | null;
+            review_note?: string | null;
+            /** Format: date-time */
+            expires_at: string;
+            completed_at?: string | null;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            user?: components["schemas"]["User"];
+            reviewer?: components["schemas"]["User"];
+            vouches?: components["schemas"]["LocationVouch"][];
+        };
+        LocationVerificationMethodInfo: {
+            name: components["schemas"]["LocationVerificationMethodName"];
+            expires_in_days: number;
+            max_attempts: number | null;
+            required_vouches?: number;
+            vouch_radius_km?: number;
+        };
+        /** @enum {string} */
+        LocationVerificationMethodName: "postal_code" | "neighbor_vouch" | "admin_review";
+        LocationVerificationResponse: {
+            data?: components["schemas"]["LocationVerification"];
+            message: string;
+            success: boolean;
+        };
+        LocationVerificationStartData: {
+            method: string;
+            note?: string;
+        };
+        /** @enum {string} */
+        LocationVerificationStatus: "pending" | "verified" | "failed" | "expired" | "cancelled";
+        LocationVerificationStatusResponse: {
+            data?: {
+                is_location_verified: boolean;
+                methods: components["schemas"]["LocationVerificationMethodInfo"][];
+                verifications: components["schemas"]["LocationVerification"][];
+            };
+            message: string;
+            success: boolean;
+        };
+        LocationVouch: {
+            id: number;
+            verification_id: number;
+            voucher_id: number;
+            /** Format: date-time */
+            created_at: string;
+            verification?: components["schemas"]["LocationVerification"];
+            voucher?: components["schemas"]["User"];
+        };
+        LoginRequest: {
+            email: string;
+            password: string;
+        };
+        LoginResponse: components["schemas"]["AuthResponse"] | components["schemas"]["TwoFactorChallengeResponse"];
+        MarkAllReadRequest: {
+            notification_type?: components["schemas"]["NotificationType"];
+        };
+        MarkSentRequest: {
+            delivery_methods?: {
+                push?: boolean;
+                email?: boolean;
+                sms?: boolean;
+            };
+        };
+        Message: {
+            id: number;
+            chat_id: number;
+            sender_id: number;
+            content: string;
+            message_type: string;
+            file_url?: string;
+            file_name?: string;
+            file_size?: number;
+            mime_type?: string;
+            is_read: boolean;
+            /** Format: date-time */
+            read_at?: string;
+            is_edited: boolean;
+            /** Format: date-time */
+            edited_at?: string;
+            is_deleted: boolean;
+            /** Format: date-time */
+            deleted_at?: string;
+            reply_to_message_id?: number;
+            reply_preview?: string;
+            system_action?: string;
+            metadata?: Record<string, never>;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            chat?: components["schemas"]["Chat"];
+            sender?: components["schemas"]["User"];
+            reply_to_message?: components["schemas"]["Message"];
+        };
+        MessageResponse: {
+            data?: unknown;
+            message: string;
+            success: boolean;
+        };
+        ModerateResourceRequest: {
+            /** @enum {string} */
+            action: "deactivate" | "reactivate";
+            reason: string;
+        };
+        ModerateReviewRequest: {
+            /** @enum {string} */
+            action: "hide" | "show" | "verify";
+            reason: string;
+        };
+        ModerateUserRequest: {
+            /** @enum {string} */
+            action: "suspend" | "reinstate";
+            reason: string;
+        };
+        ModeratedResourceResponse: {
+            data?: components["schemas"]["Resource"];
+            message: string;
+            success: boolean;
+        };
+        ModerationAction: {
+            id: number;
+            moderator_id: number;
+            target_type: components["schemas"]["ModerationTargetType"];
+            target_id: number;
+            action: components["schemas"]["ModerationActionType"];
+            reason: string;
+            /** Format: date-time */
+            created_at: string;
+            moderator?: components["schemas"]["User"];
+        };
+        /** @enum {string} */
+        ModerationActionType: "hide" | "show" | "verify" | "suspend" | "reinstate" | "deactivate" | "reactivate" | "resolve" | "decide";
+        ModerationActionsQuery: {
+            page?: number;
+            limit?: number;
+            target_type?: components["schemas"]["ModerationTargetType"];
+            target_id?: number;
+            moderator_id?: number;
+        };
+        ModerationActionsResponse: {
+            data?: {
+                data: components["schemas"]["ModerationAction"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        ModerationTargetType: "review" | "user" | "resource" | "borrow_request" | "dispute";
+        MyCommunitiesResponse: {
+            data?: components["schemas"]["Community"][];
+            message: string;
+            success: boolean;
+        };
+        MyReviewsResponse: {
+            total: number;
+            data?: components["schemas"]["Review"][];
+            message: string;
+            success: boolean;
+        };
+        Notification: {
+            id: number;
+            user_id: number;
+            title: string;
+            message: string;
+            notification_type: string;
+            is_read: boolean;
+            /** Format: date-time */
+            read_at?: string;
+            priority: string;
+            related_resource_id?: number;
+            related_borrow_request_id?: number;
+            related_chat_id?: number;
+            related_review_id?: number;
+            related_user_id?: number;
+            action_url?: string;
+            action_text?: string;
+            metadata?: Record<string, never>;
+            is_push_sent: boolean;
+            is_email_sent: boolean;
+            is_sms_sent: boolean;
+            /** Format: date-time */
+            push_sent_at?: string;
+            /** Format: date-time */
+            email_sent_at?: string;
+            /** Format: date-time */
+            sms_sent_at?: string;
+            /** Format: date-time */
+            scheduled_for?: string;
+            is_sent: boolean;
+            /** Format: date-time */
+            expires_at?: string;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            user?: components["schemas"]["User"];
+            related_user?: components["schemas"]["User"];
+        };
+        NotificationBase: {
+            id: number;
+            user_id: number;
+            title: string;
+            message: string;
+            notification_type: components["schemas"]["NotificationType"];
+            priority: components["schemas"]["NotificationPriority"];
+            is_read: boolean;
+            is_sent: boolean;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            /** Format: date-time */
+            read_at?: string;
+        };
+        NotificationDetailResponse: {
+            data?: components["schemas"]["Notification"];
+            message: string;
+            success: boolean;
+        };
+        NotificationFilters: {
+            unread_only?: boolean;
+            notification_type?: components["schemas"]["NotificationType"];
+            priority?: components["schemas"]["NotificationPriority"];
+            page?: number;
+            limit?: number;
+            include_expired?: boolean;
+            /** Format: date-time */
+            start_date?: string;
+            /** Format: date-time */
+            end_date?: string;
+        };
+        NotificationIdsRequest: {
+            notification_ids: number[];
+        };
+        /** @enum {string} */
+        NotificationPriority: "low" | "normal" | "high" | "urgent";
+        NotificationResponse: {
+            success: boolean;
+            data?: unknown;
+            error?: string;
+            message?: string;
+        };
+        NotificationStats: {
+            total: number;
+            unread: number;
+            byType: {
+                [key: string]: number;
+            };
+            byPriority: {
+                [key: string]: number;
+            };
+        };
+        NotificationStatsResponse: {
+            data?: components["schemas"]["NotificationStats"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        NotificationType: "borrow_request_created" | "borrow_request_approved" | "borrow_request_rejected" | "borrow_request_cancelled" | "borrow_request_pickup_ready" | "borrow_request_overdue" | "borrow_request_returned" | "borrow_request_extension_requested" | "borrow_request_extension_approved" | "borrow_request_extension_declined" | "review_received" | "review_response" | "chat_message" | "resource_available" | "saved_search_match" | "deposit_update" | "dispute_update" | "condition_report" | "system_announcement" | "account_update" | "reminder";
+        PaginatedNotificationResponse: {
+            success: boolean;
+            data: {
+                notifications: components["schemas"]["NotificationBase"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    totalPages: number;
+                };
+                unread_count: number;
+            };
+        };
+        PaginatedResourceResponse: {
+            data: components["schemas"]["ResourceWithOwner"][];
+            pagination: {
+                page: number;
+                limit: number;
+                total: number;
+                totalPages: number;
+                hasNext: boolean;
+                hasPrev: boolean;
+            };
+            filters?: {
+                category?: string;
+                search?: string;
+                location?: {
+                    latitude: number;
+                    longitude: number;
+                    radius: number;
+                };
+            };
+            success: boolean;
+        };
+        PaginationQuery: {
+            page?: number;
+            limit?: number;
+        };
+        PendingVerificationsResponse: {
+            data?: {
+                data: components["schemas"]["LocationVerification"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        PhotoUploadResponse: {
+            data?: components["schemas"]["PhotoUploadResult"][];
+            message: string;
+            success: boolean;
+        };
+        PhotoUploadResult: {
+            id: number;
+            filename: string;
+            photo_url: string;
+            file_size: number;
+            display_order: number;
+        };
+        PickupRequest: {
+            pickup_notes?: string;
+        };
+        ProfileResponse: {
+            data: {
+                id: number;
+                name: string;
+                email: string;
+                phone?: string;
+                address?: string;
+                latitude?: number;
+                longitude?: number;
+                neighborhood?: string;
+                postal_code?: string;
+                bio?: string;
+                avatar_url?: string;
+                is_email_verified: boolean;
+                is_location_verified: boolean;
+                is_active: boolean;
+                verification_status: string;
+                role: components["schemas"]["UserRole"];
+                /** Format: date-time */
+                last_login?: string;
+                two_factor_enabled: boolean;
+                average_rating: number;
+                total_ratings: number;
+                items_shared: number;
+                successful_borrows: number;
+                /** Format: date-time */
+                created_at: string;
+                /** Format: date-time */
+                updated_at: string;
+                resources?: components["schemas"]["Resource"][];
+                borrow_requests?: components["schemas"]["BorrowRequest"][];
+                chats_as_user1?: components["schemas"]["Chat"][];
+                chats_as_user2?: components["schemas"]["Chat"][];
+                messages?: components["schemas"]["Message"][];
+                reviews_given?: components["schemas"]["Review"][];
+                reviews_received?: components["schemas"]["Review"][];
+                notifications?: components["schemas"]["Notification"][];
+            };
+            success: boolean;
+        };
+        PublicReviewStatisticsResponse: {
+            data?: {
+                receivedStats: components["schemas"]["ReviewStats"];
+                responseRate: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        RecoveryCodesResponse: {
+            data?: {
+                recovery_codes: string[];
+            };
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        RecurrenceFrequency: "weekly" | "monthly";
+        RecurrenceRule: {
+            frequency: components["schemas"]["RecurrenceFrequency"];
+            count: number;
+        };
+        RefreshTokenRequest: {
+            refreshToken: string;
+        };
+        RefreshTokenResponse: {
+            data: {
+                accessToken: string;
+                refreshToken: string;
+            };
+            success: boolean;
+        };
+        RegisterRequest: {
+            name: string;
+            email: string;
+            password: string;
+            address?: string;
+            latitude?: number;
+            longitude?: number;
+        };
+        RejectDepositEntryRequest: {
+            reason?: string;
+        };
+        ReorderPhotosRequest: {
+            photoOrder: {
+                id: number;
+                order: number;
+            }[];
+        };
+        ReportedIssuesResponse: {
+            data?: {
+                data: components["schemas"]["BorrowRequest"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        ResetPasswordRequest: {
+            token: string;
+            password: string;
+        };
+        ResolveIssueRequest: {
+            reason: string;
+            withhold_amount?: number;
+        };
+        Resource: {
+            id: number;
+            title: string;
+            description: string;
+            category: string;
+            estimated_value?: number;
+            condition: string;
+            condition_notes?: string;
+            is_available: boolean;
+            max_borrow_days?: number;
+            deposit_required?: number;
+            pickup_required: boolean;
+            pickup_instructions?: string;
+            usage_instructions?: string;
+            location_notes?: string;
+            available_days?: string[];
+            available_time_start?: string;
+            available_time_end?: string;
+            views_count: number;
+            borrow_count: number;
+            favourite_count: number;
+            average_rating: number;
+            total_ratings: number;
+            status: string;
+            visibility: components["schemas"]["ResourceVisibility"];
+            /** Format: date-time */
+            last_borrowed?: string;
+            owner_id: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            owner?: components["schemas"]["User"];
+            photos?: components["schemas"]["ResourcePhoto"][];
+            borrow_requests?: components["schemas"]["BorrowRequest"][];
+            blackouts?: components["schemas"]["ResourceBlackout"][];
+        };
+        ResourceBlackout: {
+            id: number;
+            resource_id: number;
+            start_date: string;
+            end_date: string;
+            reason?: string;
+            /** Format: date-time */
+            created_at: string;
+            resource?: components["schemas"]["Resource"];
+        };
+        ResourceCalendar: {
+            resource_id: number;
+            from: string;
+            to: string;
+            is_listed: boolean;
+            available_days: string[] | null;
+            max_borrow_days: number | null;
+            booked: components["schemas"]["BookedRange"][];
+            blackouts: components["schemas"]["ResourceBlackout"][];
+            days: components["schemas"]["CalendarDay"][];
+        };
+        ResourceCalendarResponse: {
+            data?: components["schemas"]["ResourceCalendar"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        ResourceCondition: "excellent" | "good" | "fair" | "poor";
+        ResourceDetailResponse: {
+            data?: components["schemas"]["ResourceWithFullOwner"];
+            message: string;
+            success: boolean;
+        };
+        ResourceOptionsResponse: {
+            data?: {
+                categories: ("Tools" | "Electronics" | "Books" | "Furniture" | "Sports & Recreation" | "Kitchen & Appliances" | "Garden & Outdoor" | "Musical Instruments" | "Automotive" | "Clothing & Accessories" | "Baby & Kids" | "Health & Beauty" | "Art & Craft" | "Office Supplies" | "Travel & Luggage" | "Other")[];
+                conditions: components["schemas"]["ResourceCondition"][];
+            };
+            message: string;
+            success: boolean;
+        };
+        ResourcePhoto: {
+            id: number;
+            resource_id: number;
+            photo_url: string;
+            photo_filename?: string;
+            is_primary: boolean;
+            alt_text?: string;
+            file_size?: number;
+            mime_type?: string;
+            width?: number;
+            height?: number;
+            display_order: number;
+            /** Format: date-time */
+            created_at: string;
+            resource?: components["schemas"]["Resource"];
+        };
+        ResourceQueryFilters: {
+            page?: number;
+            limit?: number;
+            category?: string;
+            search?: string;
+            condition?: string;
+            status?: string;
+            is_available?: boolean;
+            min_value?: number;
+            max_value?: number;
+            max_borrow_days?: number;
+            deposit_required?: boolean;
+            max_deposit?: number;
+            pickup_required?: boolean;
+            owner_id?: number;
+            community_id?: number;
+            my_communities?: boolean;
+            latitude?: number;
+            longitude?: number;
+            radius?: number;
+            available_from?: string;
+            available_to?: string;
+            /** @enum {string} */
+            sort_by?: "created_at" | "title" | "estimated_value" | "views_count" | "average_rating" | "distance" | "relevance";
+            /** @enum {string} */
+            sort_order?: "ASC" | "DESC";
+        };
+        /** @enum {string} */
+        ResourceVisibility: "public" | "communities";
+        ResourceWithFullOwner: {
+            id: number;
+            title: string;
+            description: string;
+            category: string;
+            estimated_value?: number;
+            condition: string;
+            condition_notes?: string;
+            is_available: boolean;
+            max_borrow_days?: number;
+            deposit_required?: number;
+            pickup_required: boolean;
+            pickup_instructions?: string;
+            usage_instructions?: string;
+            location_notes?: string;
+            available_days?: string[];
+            available_time_start?: string;
+            available_time_end?: string;
+            views_count: number;
+            borrow_count: number;
+            favourite_count: number;
+            average_rating: number;
+            total_ratings: number;
+            status: string;
+            visibility: components["schemas"]["ResourceVisibility"];
+            /** Format: date-time */
+            last_borrowed?: string;
+            owner_id: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            photos?: components["schemas"]["ResourcePhoto"][];
+            borrow_requests?: components["schemas"]["BorrowRequest"][];
+            blackouts?: components["schemas"]["ResourceBlackout"][];
+            owner: {
+                id: number;
+                name: string;
+                phone?: string;
+                address?: string;
+                latitude?: number;
+                longitude?: number;
+                neighborhood?: string;
+                postal_code?: string;
+                bio?: string;
+                avatar_url?: string;
+                is_email_verified: boolean;
+                is_location_verified: boolean;
+                is_active: boolean;
+                verification_status: string;
+                role: components["schemas"]["UserRole"];
+                /** Format: date-time */
+                last_login?: string;
+                two_factor_enabled: boolean;
+                average_rating: number;
+                total_ratings: number;
+                items_shared: number;
+                successful_borrows: number;
+                /** Format: date-time */
+                created_at: string;
+                /** Format: date-time */
+                updated_at: string;
+                resources?: components["schemas"]["Resource"][];
+                borrow_requests?: components["schemas"]["BorrowRequest"][];
+                chats_as_user1?: components["schemas"]["Chat"][];
+                chats_as_user2?: components["schemas"]["Chat"][];
+                messages?: components["schemas"]["Message"][];
+                reviews_given?: components["schemas"]["Review"][];
+                reviews_received?: components["schemas"]["Review"][];
+                notifications?: components["schemas"]["Notification"][];
+            };
+            distance?: number;
+            can_edit?: boolean;
+            is_favourited?: boolean;
+            community_ids?: number[];
+        };
+        ResourceWithOwner: {
+            id: number;
+            title: string;
+            description: string;
+            category: string;
+            estimated_value?: number;
+            condition: string;
+            condition_notes?: string;
+            is_available: boolean;
+            max_borrow_days?: number;
+            deposit_required?: number;
+            pickup_required: boolean;
+            pickup_instructions?: string;
+            usage_instructions?: string;
+            location_notes?: string;
+            available_days?: string[];
+            available_time_start?: string;
+            available_time_end?: string;
+            views_count: number;
+            borrow_count: number;
+            favourite_count: number;
+            average_rating: number;
+            total_ratings: number;
+            status: string;
+            visibility: components["schemas"]["ResourceVisibility"];
+            /** Format: date-time */
+            last_borrowed?: string;
+            owner_id: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            photos?: components["schemas"]["ResourcePhoto"][];
+            borrow_requests?: components["schemas"]["BorrowRequest"][];
+            blackouts?: components["schemas"]["ResourceBlackout"][];
+            owner: {
+                id: number;
+                name: string;
+                average_rating: number;
+                total_ratings: number;
+                is_location_verified: boolean;
+                neighborhood?: string;
+            };
+            distance?: number;
+            search_snippet?: string;
+            is_favourited?: boolean;
+        };
+        RespondToExtensionRequest: {
+            decision: components["schemas"]["ExtensionDecision"];
+            response_message?: string;
+        };
+        RespondToGroupRequest: {
+            /** @enum {string} */
+            status: "approved" | "rejected";
+            request_ids?: number[];
+            response_message?: string;
+        };
+        ReturnRequest: {
+            return_notes?: string;
+            has_issues?: boolean;
+            issue_description?: string;
+            withhold_amount?: number;
+        };
+        Review: {
+            id: number;
+            reviewer_id: number;
+            reviewee_id: number;
+            borrow_request_id?: number;
+            rating: number;
+            comment?: string;
+            communication_rating?: number;
+            reliability_rating?: number;
+            item_condition_rating?: number;
+            care_rating?: number;
+            review_type: string;
+            is_anonymous: boolean;
+            is_verified: boolean;
+            is_flagged: boolean;
+            flag_reason?: string;
+            is_hidden: boolean;
+            /** Format: date-time */
+            moderated_at?: string;
+            moderated_by?: number;
+            response?: string;
+            /** Format: date-time */
+            response_at?: string;
+            helpful_votes: number;
+            total_votes: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            reviewer?: components["schemas"]["User"];
+            reviewee?: components["schemas"]["User"];
+            borrow_request?: components["schemas"]["BorrowRequest"];
+        };
+        ReviewReplyRequest: {
+            response: string;
+        };
+        ReviewResponse: {
+            data?: components["schemas"]["Review"];
+            message: string;
+            success: boolean;
+        };
+        ReviewStatistics: {
+            receivedStats: components["schemas"]["ReviewStats"];
+            givenCount: number;
+            pendingToGive: number;
+            responseRate: number;
+        };
+        ReviewStatisticsResponse: {
+            data?: components["schemas"]["ReviewStatistics"];
+            message: string;
+            success: boolean;
+        };
+        ReviewStats: {
+            reviews: components["schemas"]["Review"][];
+            averageRating: number;
+            totalReviews: number;
+            ratingBreakdown: {
+                1: number;
+                2: number;
+                3: number;
+                4: number;
+                5: number;
+            };
+            categoryRatings?: {
+                communication: number;
+                reliability: number;
+                itemCondition: number;
+                care: number;
+            };
+        };
+        ReviewVerificationRequest: {
+            /** @enum {string} */
+            decision: "approve" | "reject";
+            note?: string;
+        };
+        ReviewVoteRequest: {
+            is_helpful: boolean;
+        };
+        SavedSearch: {
+            id: number;
+            user_id: number;
+            name: string;
+            filters: components["schemas"]["SavedSearchFilters"];
+            alerts_enabled: boolean;
+            alert_interval_hours: number;
+            last_notified_at?: string | null;
+            suppressed_matches: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            user?: components["schemas"]["User"];
+        };
+        SavedSearchCreateData: {
+            name: string;
+            filters: components["schemas"]["SavedSearchFilters"];
+            alerts_enabled?: boolean;
+            alert_interval_hours?: number;
+        };
+        SavedSearchFilters: {
+            category?: string;
+            search?: string;
+            condition?: string;
+            min_value?: number;
+            max_value?: number;
+            max_borrow_days?: number;
+            deposit_required?: boolean;
+            max_deposit?: number;
+            pickup_required?: boolean;
+            owner_id?: number;
+            latitude?: number;
+            longitude?: number;
+            radius?: number;
+        };
+        SavedSearchResponse: {
+            data?: components["schemas"]["SavedSearch"];
+            message: string;
+            success: boolean;
+        };
+        SavedSearchUpdateData: {
+            name?: string;
+            filters?: components["schemas"]["SavedSearchFilters"];
+            alerts_enabled?: boolean;
+            alert_interval_hours?: number;
+        };
+        SavedSearchesResponse: {
+            data?: components["schemas"]["SavedSearch"][];
+            message: string;
+            success: boolean;
+        };
+        ScheduledJob: {
+            name: string;
+            interval_ms: number;
+            /** Format: date-time */
+            last_run_at?: string;
+            last_status?: components["schemas"]["JobRunStatus"];
+            last_duration_ms?: number;
+            last_error?: string | null;
+            run_count: number;
+            failure_count: number;
+            locked_until?: string | null;
+            /** Format: date-time */
+            updated_at: string;
+        };
+        ScheduledNotificationsResponse: {
+            data?: {
+                notifications: components["schemas"]["Notification"][];
+                count: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        SearchSuggestionsQuery: {
+            q: string;
+            limit?: number;
+        };
+        SearchSuggestionsResponse: {
+            data?: string[];
+            message: string;
+            success: boolean;
+        };
+        SendMessageRequest: {
+            content: string;
+            message_type?: string;
+        };
+        SessionsResponse: {
+            data?: components["schemas"]["ActiveSession"][];
+            message: string;
+            success: boolean;
+        };
+        SignedOutResponse: {
+            data?: {
+                signed_out: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        SingleResourceResponse: {
+            data: components["schemas"]["ResourceWithFullOwner"];
+            success: boolean;
+        };
+        SuspiciousListing: {
+            resource: components["schemas"]["Resource"];
+            issue_count: number;
+            reasons: string[];
+        };
+        SuspiciousListingsResponse: {
+            data?: {
+                data: components["schemas"]["SuspiciousListing"][];
+                pagination: {
+                    page: number;
+                    limit: number;
+                    total: number;
+                    pages: number;
+                };
+            };
+            message: string;
+            success: boolean;
+        };
+        TwoFactorChallengeResponse: {
+            /** @constant */
+            two_factor_required: true;
+            challengeToken: string;
+            message: string;
+            success: boolean;
+        };
+        TwoFactorCodeRequest: {
+            code: string;
+        };
+        TwoFactorLoginRequest: {
+            code?: string;
+            recoveryCode?: string;
+            challengeToken: string;
+        };
+        TwoFactorSetupResponse: {
+            data?: {
+                secret: string;
+                otpauth_uri: string;
+            };
+            message: string;
+            success: boolean;
+        };
+        TwoFactorStatusResponse: {
+            data?: {
+                enabled: boolean;
+                recovery_codes_remaining: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        UnreadCountResponse: {
+            data?: {
+                unread_count: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        UpdateBorrowRequestRequest: {
+            pickup_notes?: string;
+            return_notes?: string;
+            issue_description?: string;
+            has_issues?: boolean;
+        };
+        UpdateLocationRequest: {
+            latitude: number;
+            longitude: number;
+            address?: string;
+        };
+        UpdateProfileRequest: {
+            name?: string;
+            address?: string;
+            latitude?: number;
+            longitude?: number;
+            bio?: string;
+            phone?: string;
+        };
+        UpdateRequestStatusRequest: {
+            /** @enum {string} */
+            status: "approved" | "rejected";
+            response_message?: string;
+        };
+        UpdateResourceRequest: {
+            title?: string;
+            description?: string;
+            category?: string;
+            estimated_value?: number;
+            condition?: string;
+            condition_notes?: string;
+            max_borrow_days?: number;
+            deposit_required?: number;
+            pickup_required?: boolean;
+            pickup_instructions?: string;
+            usage_instructions?: string;
+            location_notes?: string;
+            available_days?: string[];
+            available_time_start?: string;
+            available_time_end?: string;
+            is_available?: boolean;
+            status?: string;
+            visibility?: components["schemas"]["ResourceVisibility"];
+            community_ids?: number[];
+        };
+        UpdateReviewRequest: {
+            rating?: number;
+            comment?: string;
+            communication_rating?: number;
+            reliability_rating?: number;
+            item_condition_rating?: number;
+            care_rating?: number;
+        };
+        UpdateRoleRequest: {
+            role: components["schemas"]["UserRole"];
+        };
+        UpdatedCountResponse: {
+            data?: {
+                updated_count: number;
+            };
+            message: string;
+            success: boolean;
+        };
+        UpdatedProfileResponse: {
+            data?: {
+                id: number;
+                name: string;
+                email: string;
+                phone?: string;
+                address?: string;
+                latitude?: number;
+                longitude?: number;
+                neighborhood?: string;
+                postal_code?: string;
+                bio?: string;
+                avatar_url?: string;
+                is_email_verified: boolean;
+                is_location_verified: boolean;
+                is_active: boolean;
+                verification_status: string;
+                role: components["schemas"]["UserRole"];
+                /** Format: date-time */
+                last_login?: string;
+                two_factor_enabled: boolean;
+                average_rating: number;
+                total_ratings: number;
+                items_shared: number;
+                successful_borrows: number;
+                /** Format: date-time */
+                created_at: string;
+                /** Format: date-time */
+                updated_at: string;
+                resources?: components["schemas"]["Resource"][];
+                borrow_requests?: components["schemas"]["BorrowRequest"][];
+                chats_as_user1?: components["schemas"]["Chat"][];
+                chats_as_user2?: components["schemas"]["Chat"][];
+                messages?: components["schemas"]["Message"][];
+                reviews_given?: components["schemas"]["Review"][];
+                reviews_received?: components["schemas"]["Review"][];
+                notifications?: components["schemas"]["Notification"][];
+            };
+            message: string;
+            success: boolean;
+        };
+        User: {
+            id: number;
+            name: string;
+            email: string;
+            password: string;
+            phone?: string;
+            address?: string;
+            latitude?: number;
+            longitude?: number;
+            neighborhood?: string;
+            postal_code?: string;
+            bio?: string;
+            avatar_url?: string;
+            is_email_verified: boolean;
+            is_location_verified: boolean;
+            is_active: boolean;
+            verification_status: string;
+            role: components["schemas"]["UserRole"];
+            /** Format: date-time */
+            last_login?: string;
+            two_factor_enabled: boolean;
+            average_rating: number;
+            total_ratings: number;
+            items_shared: number;
+            successful_borrows: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            resources?: components["schemas"]["Resource"][];
+            borrow_requests?: components["schemas"]["BorrowRequest"][];
+            chats_as_user1?: components["schemas"]["Chat"][];
+            chats_as_user2?: components["schemas"]["Chat"][];
+            messages?: components["schemas"]["Message"][];
+            reviews_given?: components["schemas"]["Review"][];
+            reviews_received?: components["schemas"]["Review"][];
+            notifications?: components["schemas"]["Notification"][];
+        };
+        UserReviewsQuery: {
+            page?: number;
+            limit?: number;
+            /** @enum {string} */
+            review_type?: "borrower_to_owner" | "owner_to_borrower";
+        };
+        UserReviewsResponse: {
+            data?: components["schemas"]["ReviewStats"];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        UserRole: "member" | "moderator" | "admin";
+        VerifyEmailRequest: {
+            token: string;
+        };
+        VouchRequest: {
+            id: number;
+            user: {
+                id: number;
+                name: string;
+                avatar_url?: string;
+                neighborhood?: string;
+            };
+            distance: number;
+            vouch_count: number;
+            required_vouches: number;
+            /** Format: date-time */
+            expires_at: string;
+            /** Format: date-time */
+            created_at: string;
+        };
+        VouchRequestsResponse: {
+            data?: components["schemas"]["VouchRequest"][];
+            message: string;
+            success: boolean;
+        };
+        VouchResponse: {
+            data?: components["schemas"]["VouchResult"];
+            message: string;
+            success: boolean;
+        };
+        VouchResult: {
+            id: number;
+            status: components["schemas"]["LocationVerificationStatus"];
+            vouch_count: number;
+            required_vouches?: number | null;
+        };
+        WaitlistEntryResponse: {
+            data?: components["schemas"]["WaitlistEntryWithPosition"];
+            message: string;
+            success: boolean;
+        };
+        WaitlistEntryWithPosition: {
+            id: number;
+            resource_id: number;
+            user_id: number;
+            start_date?: string | null;
+            end_date?: string | null;
+            status: components["schemas"]["WaitlistStatus"];
+            hold_start_date?: string | null;
+            hold_end_date?: string | null;
+            hold_expires_at?: string | null;
+            offered_at?: string | null;
+            borrow_request_id?: number;
+            /** Format: date-time */
+            created_at: string;
+            /** Format: date-time */
+            updated_at: string;
+            resource?: components["schemas"]["Resource"];
+            user?: components["schemas"]["User"];
+            position: number | null;
+        };
+        WaitlistResponse: {
+            data?: components["schemas"]["WaitlistEntryWithPosition"][];
+            message: string;
+            success: boolean;
+        };
+        /** @enum {string} */
+        WaitlistStatus: "waiting" | "offered" | "fulfilled" | "expired" | "cancelled";
+    };
+    responses: {
+        /** @description Missing, invalid or expired access token */
+        Unauthorized: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description The user's role does not allow this */
+        Forbidden: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Rate limit exceeded; see the Retry-After header */
+        TooManyRequests: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Error */
+        Error: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+    };
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    getHealth: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["HealthResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthRegister: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RegisterRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AuthResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthLogin: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LoginRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LoginResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthLogin2fa: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorLoginRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AuthResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthRefresh: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RefreshTokenRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RefreshTokenResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthVerifyEmail: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["VerifyEmailRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthForgotPassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ForgotPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthResetPassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ResetPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAuthProfile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAuthProfile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateProfileRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAuthProfileComplete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CompleteProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthUpdateLocation: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateLocationRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthLogout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthChangePassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ChangePasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuthResendVerification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAuthSessions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SessionsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteAuthSessions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SignedOutResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteAuthSessionsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAuth2fa: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TwoFactorStatusResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuth2faSetup: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TwoFactorSetupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuth2faEnable: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorCodeRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RecoveryCodesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuth2faDisable: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DisableTwoFactorRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAuth2faRecoveryCodes: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorCodeRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RecoveryCodesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAuthUsersByIdRole: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateRoleRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResources: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                category?: string;
+                search?: string;
+                condition?: string;
+                status?: string;
+                is_available?: boolean;
+                min_value?: number;
+                max_value?: number;
+                max_borrow_days?: number;
+                deposit_required?: boolean;
+                max_deposit?: number;
+                pickup_required?: boolean;
+                owner_id?: number;
+                community_id?: number;
+                my_communities?: boolean;
+                latitude?: number;
+                longitude?: number;
+                radius?: number;
+                available_from?: string;
+                available_to?: string;
+                sort_by?: "created_at" | "title" | "estimated_value" | "views_count" | "average_rating" | "distance" | "relevance";
+                sort_order?: "ASC" | "DESC";
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postResources: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": components["schemas"]["CreateResourceRequest"] & {
+                    photos?: string[];
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceDetailResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesSearch: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                category?: string;
+                search?: string;
+                condition?: string;
+                status?: string;
+                is_available?: boolean;
+                min_value?: number;
+                max_value?: number;
+                max_borrow_days?: number;
+                deposit_required?: boolean;
+                max_deposit?: number;
+                pickup_required?: boolean;
+                owner_id?: number;
+                community_id?: number;
+                my_communities?: boolean;
+                latitude?: number;
+                longitude?: number;
+                radius?: number;
+                available_from?: string;
+                available_to?: string;
+                sort_by?: "created_at" | "title" | "estimated_value" | "views_count" | "average_rating" | "distance" | "relevance";
+                sort_order?: "ASC" | "DESC";
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesSuggest: {
+        parameters: {
+            query: {
+                q: string;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SearchSuggestionsResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesCategories: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceOptionsResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesNearby: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                category?: string;
+                search?: string;
+                condition?: string;
+                status?: string;
+                is_available?: boolean;
+                min_value?: number;
+                max_value?: number;
+                max_borrow_days?: number;
+                deposit_required?: boolean;
+                max_deposit?: number;
+                pickup_required?: boolean;
+                owner_id?: number;
+                community_id?: number;
+                my_communities?: boolean;
+                latitude?: number;
+                longitude?: number;
+                radius?: number;
+                available_from?: string;
+                available_to?: string;
+                sort_by?: "created_at" | "title" | "estimated_value" | "views_count" | "average_rating" | "distance" | "relevance";
+                sort_order?: "ASC" | "DESC";
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesUserByUserId: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path: {
+                userId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesMyResources: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesFavourites: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedResourceResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceDetailResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    putResourcesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateResourceRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceDetailResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteResourcesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postResourcesByIdView: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postResourcesByIdAvailability: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AvailabilityRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceDetailResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postResourcesByIdFavourite: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["FavouriteResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteResourcesByIdFavourite: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourcesByIdCalendar: {
+        parameters: {
+            query?: {
+                from?: string;
+                to?: string;
+            };
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResourceCalendarResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postResourcesByIdBlackouts: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BlackoutCreateData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BlackoutResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteResourcesByIdBlackoutsByBlackoutId: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                blackoutId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postResourcesByIdPhotos: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    [key: string]: unknown;
+                } & {
+                    photos?: string[];
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PhotoUploadResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteResourcesByResourceIdPhotosByPhotoId: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                resourceId: number;
+                photoId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putResourcesByIdPhotosByPhotoIdPrimary: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                photoId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putResourcesByIdPhotosReorder: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReorderPhotosRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getUploadsResourcesByFilename: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                filename: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "image/*": string;
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getChatsUnreadCount: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChatUnreadCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getChats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChatListResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postChats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateChatRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChatResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getChatsByIdMessages: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChatMessagesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postChatsByIdMessages: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendMessageRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChatMessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putChatsByIdRead: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putChatsByIdArchive: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteChatsMessagesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsStats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestStatsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsOverdue: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postBorrowRequests: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateBorrowRequestRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postBorrowRequestsGroups: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BorrowRequestGroupCreateData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestGroupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsGroupsByGroupId: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                groupId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestGroupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsGroupsByGroupIdStatus: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                groupId: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RespondToGroupRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestGroupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsGroupsByGroupIdCancel: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                groupId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestGroupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateBorrowRequestRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsByIdHistory: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestHistoryResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdStatus: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateRequestStatusRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdCancel: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdPickup: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PickupRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdReturn: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReturnRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdComplete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsByIdExtensions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowExtensionsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postBorrowRequestsByIdExtensions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ExtensionProposalData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowExtensionResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdExtensionsByExtensionIdRespond: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                extensionId: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RespondToExtensionRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowExtensionResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdExtensionsByExtensionIdCancel: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                extensionId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowExtensionResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getBorrowRequestsByIdConditionReports: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ConditionComparisonResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postBorrowRequestsByIdConditionReports: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": components["schemas"]["ConditionReportData"] & {
+                    photos?: string[];
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ConditionReportResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putBorrowRequestsByIdConditionReportsByStageSign: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                stage: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ConditionReportResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getReviewsPending: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getReviewsStatistics: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewStatisticsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postReviews: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateReviewRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getReviewsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    putReviewsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateReviewRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postReviewsByIdResponse: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReviewReplyRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postReviewsByIdFlag: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["FlagReviewRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postReviewsByIdVote: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReviewVoteRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putReviewsAdminByIdModerate: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ModerateReviewRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getNotifications: {
+        parameters: {
+            query?: {
+                unread_only?: boolean;
+                notification_type?: components["schemas"]["NotificationType"];
+                priority?: components["schemas"]["NotificationPriority"];
+                page?: number;
+                limit?: number;
+                include_expired?: boolean;
+                start_date?: string;
+                end_date?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PaginatedNotificationResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postNotifications: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateNotificationRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationDetailResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getNotificationsUnreadCount: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UnreadCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getNotificationsStats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationStatsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getNotificationsScheduled: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putNotificationsByIdRead: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationDetailResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putNotificationsMarkMultipleRead: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["NotificationIdsRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putNotificationsMarkAllRead: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MarkAllReadRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteNotificationsCleanupExpired: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DeletedCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteNotificationsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteNotificationsDeleteMultiple: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["NotificationIdsRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DeletedCountResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postNotificationsBulk: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BulkNotificationRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BulkNotificationResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putNotificationsByIdSent: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MarkSentRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getWaitlist: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["WaitlistResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postWaitlist: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["JoinWaitlistRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["WaitlistEntryResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteWaitlistById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getDeposits: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DepositEntriesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getDepositsRequestsByRequestId: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                requestId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DepositLedgerResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putDepositsEntriesByIdConfirm: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DepositEntryResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putDepositsEntriesByIdReject: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RejectDepositEntryRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DepositEntryResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postDisputes: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": components["schemas"]["DisputeOpenData"] & {
+                    photos?: string[];
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getDisputesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postDisputesByIdStatements: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DisputeStatementRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeStatementResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postDisputesByIdEvidence: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": components["schemas"]["DisputeEvidenceRequest"] & {
+                    photos?: string[];
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeEvidenceResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putDisputesByIdWithdraw: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getSavedSearches: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SavedSearchesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postSavedSearches: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SavedSearchCreateData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SavedSearchResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putSavedSearchesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SavedSearchUpdateData"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SavedSearchResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteSavedSearchesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getCommunities: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CommunitiesResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postCommunities: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CommunityCreateData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CommunityResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getCommunitiesMine: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MyCommunitiesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getCommunitiesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CommunityDetailResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    putCommunitiesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CommunityUpdateData"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CommunityResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteCommunitiesById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postCommunitiesByIdJoin: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CommunityResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteCommunitiesByIdMembership: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getLocationVerification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LocationVerificationStatusResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLocationVerification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LocationVerificationStartData"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LocationVerificationResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getLocationVerificationVouchRequests: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VouchRequestsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLocationVerificationByIdCode: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LocationCodeRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LocationVerificationResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLocationVerificationByIdVouch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VouchResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteLocationVerificationById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminModerationReviews: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["FlaggedReviewsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminModerationIssues: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReportedIssuesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminModerationListings: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuspiciousListingsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminModerationDisputes: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeQueueResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminModerationActions: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                target_type?: components["schemas"]["ModerationTargetType"];
+                target_id?: number;
+                moderator_id?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ModerationActionsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminReviewsByIdModerate: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ModerateReviewRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ReviewResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminUsersByIdModerate: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ModerateUserRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminResourcesByIdModerate: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ModerateResourceRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ModeratedResourceResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminBorrowRequestsByIdResolve: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ResolveIssueRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminDisputesByIdDecide: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DisputeDecisionData"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DisputeResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminLocationVerifications: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PendingVerificationsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putAdminLocationVerificationsByIdReview: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReviewVerificationRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LocationVerificationResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminJobs: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["JobsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getAdminJobsRuns: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                job?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["JobRunsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postAdminJobsByNameRun: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["JobRunResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getDocsOpenapiJson: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": unknown;
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getMyRequests: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                status?: components["schemas"]["BorrowRequestStatus"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestListResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getResourceRequests: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                status?: components["schemas"]["BorrowRequestStatus"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestListResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postBorrow: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateBorrowRequestRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BorrowRequestResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getUsersByUserIdReviews: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                review_type?: "borrower_to_owner" | "owner_to_borrower";
+            };
+            header?: never;
+            path: {
+                userId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UserReviewsResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getReviewsByUserId: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+                review_type?: "borrower_to_owner" | "owner_to_borrower";
+            };
+            header?: never;
+            path: {
+                userId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UserReviewsResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getMyReviews: {
+        parameters: {
+            query?: {
+                page?: number;
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MyReviewsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getUsersByUserIdReviewStats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                userId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PublicReviewStatisticsResponse"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    postRegister: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RegisterRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AuthResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLogin: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LoginRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LoginResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLogin2fa: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorLoginRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AuthResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postRefresh: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RefreshTokenRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RefreshTokenResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postVerifyEmail: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["VerifyEmailRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postForgotPassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ForgotPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postResetPassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ResetPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getProfile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putProfile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateProfileRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getProfileComplete: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CompleteProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postUpdateLocation: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateLocationRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postLogout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postChangePassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ChangePasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    postResendVerification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            429: components["responses"]["TooManyRequests"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getSessions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SessionsResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteSessions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SignedOutResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    deleteSessionsById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    get2fa: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TwoFactorStatusResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    post2faSetup: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TwoFactorSetupResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    post2faEnable: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorCodeRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RecoveryCodesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    post2faDisable: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["DisableTwoFactorRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    post2faRecoveryCodes: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TwoFactorCodeRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RecoveryCodesResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            default: components["responses"]["Error"];
+        };
+    };
+    putUsersByIdRole: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateRoleRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdatedProfileResponse"];
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            default: components["responses"]["Error"];
+        };
+    };
+}
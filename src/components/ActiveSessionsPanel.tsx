@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { FaDesktop, FaMobileAlt, FaSignOutAlt } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { removeTokens, apiErrorMessage } from "../utils/api";
+import LoadingSpinner from "./ui/LoadingSpinner";
+
+interface Session {
+    id: number;
+    device: string;
+    ip_address?: string | null;
+    created_at: string;
+    last_used_at: string;
+    current: boolean;
+}
+
+const isMobile = (device: string) => /Android|iOS/.test(device);
+
+// This device's tokens no longer work once its session is revoked
+const endLocalSession = () => {
+    removeTokens();
+    window.location.replace("/");
+};
+
+// Devices the user is signed in on, with per-device and global sign-out
+const ActiveSessionsPanel = () => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyId, setBusyId] = useState<number | "all" | null>(null);
+
+    const loadSessions = async () => {
+        try {
+            const response = await ApiService.getSessions();
+            setSessions(response.data || []);
+        } catch (err) {
+            console.error("Failed to load sessions", err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSessions();
+    }, []);
+
+    const handleSignOut = async (session: Session) => {
+        setBusyId(session.id);
+        try {
+            await ApiService.revokeSession(session.id);
+            if (session.current) {
+                endLocalSession();
+                return;
+            }
+            toast.success(`Signed out ${session.device}`);
+            await loadSessions();
+        } catch (err) {
+            console.error("Failed to sign out device", err);
+            toast.error(apiErrorMessage(err, "Failed to sign out device"));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSignOutEverywhere = async () => {
+        if (!window.confirm("Sign out on all devices, including this one?")) return;
+
+        setBusyId("all");
+        try {
+            await ApiService.revokeAllSessions();
+            endLocalSession();
+        } catch (err) {
+            console.error("Failed to sign out everywhere", err);
+            toast.error(apiErrorMessage(err, "Failed to sign out everywhere"));
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">Where you're signed in</h3>
+                <button
+                    type="button"
+                    onClick={handleSignOutEverywhere}
+                    disabled={busyId !== null || sessions.length === 0}
+                    className="text-sm text-red-300 hover:text-red-200 disabled:opacity-50"
+                >
+                    Sign out everywhere
+                </button>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-4">
+                    <LoadingSpinner size="sm" />
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {sessions.map((session) => (
+                        <li
+                            key={session.id}
+                            className="flex items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-xl"
+                        >
+                            <div className="flex items-center gap-3 min-w-0">
+                                <span className="text-gray-300 text-xl">
+                                    {isMobile(session.device) ? <FaMobileAlt /> : <FaDesktop />}
+                                </span>
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium truncate">
+                                        {session.device}
+                                        {session.current && (
+                                            <span className="ml-2 text-xs text-green-300">This device</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {session.ip_address ? `${session.ip_address} · ` : ""}
+                                        Active {new Date(session.last_used_at).toLocaleString()} · Signed in{" "}
+                                        {new Date(session.created_at).toLocaleDateString()}
+                                    </p>
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => handleSignOut(session)}
+                                disabled={busyId !== null}
+                                className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white disabled:opacity-50"
+                            >
+                                {busyId === session.id ? <LoadingSpinner size="sm" /> : <FaSignOutAlt />}
+                                <span>Sign out</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ActiveSessionsPanel;
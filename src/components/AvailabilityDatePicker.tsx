@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { FaChevronLeft, FaChevronRight } from "react-icons/fa";
+import ApiService from "../services/apiService";
+
+type CalendarDayStatus = "available" | "booked" | "blackout" | "past" | "unlisted";
+
+interface CalendarDay {
+    date: string;
+    status: CalendarDayStatus;
+    handover_allowed: boolean;
+}
+
+interface ResourceCalendar {
+    available_days: string[] | null;
+    max_borrow_days: number | null;
+    days: CalendarDay[];
+}
+
+interface AvailabilityDatePickerProps {
+    resourceId: number;
+    startDate: string;
+    endDate: string;
+    onChange: (startDate: string, endDate: string) => void;
+    disabled?: boolean;
+}
+
+const WEEKDAY_LABELS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All dates are YYYY-MM-DD strings in UTC, matching the calendar API
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (day: string, days: number) =>
+    toDay(new Date(Date.parse(day) + days * DAY_MS));
+const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const monthStart = (day: string) => `${day.slice(0, 7)}-01`;
+const shiftMonth = (month: string, delta: number) => {
+    const date = new Date(month);
+    date.setUTCMonth(date.getUTCMonth() + delta);
+    return toDay(date);
+};
+
+// Month grid with unavailable days greyed out; click a start day, then an end day
+const AvailabilityDatePicker = ({
+    resourceId,
+    startDate,
+    endDate,
+    onChange,
+    disabled = false,
+}: AvailabilityDatePickerProps) => {
+    const today = toDay(new Date());
+    const [month, setMonth] = useState(monthStart(startDate || today));
+    const [calendar, setCalendar] = useState<ResourceCalendar | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [hint, setHint] = useState("");
+
+    useEffect(() => {
+        const from = month;
+        const to = addDays(shiftMonth(month, 1), -1);
+
+        setIsLoading(true);
+        ApiService.getResourceCalendar(resourceId, { from, to })
+            .then((response) => setCalendar(response.data ?? null))
+            .catch((err) => {
+                console.error("Failed to load availability", err);
+                setCalendar(null);
+            })
+            .finally(() => setIsLoading(false));
+    }, [resourceId, month]);
+
+    const dayMap = new Map(calendar?.days.map((day) => [day.date, day]) || []);
+    const isFree = (day: string) => dayMap.get(day)?.status === "available";
+    const canHandover = (day: string) =>
+        isFree(day) && !!dayMap.get(day)?.handover_allowed;
+
+    const rangeIsFree = (from: string, to: string) => {
+        for (let day = from; day <= to; day = addDays(day, 1)) {
+            // Days outside the loaded month are checked by the server on submit
+            if (dayMap.has(day) && !isFree(day)) return false;
+        }
+        return true;
+    };
+
+    const handleSelect = (day: string) => {
+        if (disabled || !canHandover(day)) return;
+        setHint("");
+
+        if (!startDate || endDate || day <= startDate) {
+            onChange(day, "");
+            return;
+        }
+
+        if (!rangeIsFree(startDate, day)) {
+            setHint("Some days in that range are unavailable");
+            onChange(day, "");
+            return;
+        }
+
+        if (
+            calendar?.max_borrow_days &&
+            daysBetween(startDate, day) > calendar.max_borrow_days
+        ) {
+            setHint(
+                `This item can be borrowed for at most ${calendar.max_borrow_days} days`
+            );
+            return;
+        }
+
+        onChange(startDate, day);
+    };
+
+    const gridStart = addDays(month, -new Date(month).getUTCDay());
+    const nextMonth = shiftMonth(month, 1);
+    const cells: string[] = [];
+    for (let day = gridStart; day < nextMonth || cells.length % 7 !== 0; day = addDays(day, 1)) {
+        cells.push(day);
+    }
+
+    const monthLabel = new Date(month).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+    });
+
+    return (
+        <div className="border border-gray-200 rounded-xl p-4 bg-white">
+            <div className="flex items-center justify-between mb-3">
+                <button
+                    type="button"
+                    onClick={() => setMonth(shiftMonth(month, -1))}
+                    disabled={month <= monthStart(today)}
+                    className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                    aria-label="Previous month"
+                >
+                    <FaChevronLeft />
+                </button>
+                <span className="font-semibold text-gray-900">{monthLabel}</span>
+                <button
+                    type="button"
+                    onClick={() => setMonth(shiftMonth(month, 1))}
+                    className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                    aria-label="Next month"
+                >
+                    <FaChevronRight />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+                {WEEKDAY_LABELS.map((label) => (
+                    <span key={label}>{label}</span>
+                ))}
+            </div>
+
+            <div
+                className={`grid grid-cols-7 gap-1 ${
+                    isLoading ? "opacity-50" : ""
+                }`}
+            >
+                {cells.map((day) => {
+                    const inMonth = day >= month && day < nextMonth;
+                    const selectable = inMonth && canHandover(day);
+                    const isEdge = day === startDate || day === endDate;
+                    const inRange =
+                        !!startDate && !!endDate && day > startDate && day < endDate;
+
+                    let className = "text-gray-300 cursor-not-allowed";
+                    if (!inMonth) {
+                        className = "invisible";
+                    } else if (isEdge) {
+                        className = "bg-blue-600 text-white font-semibold";
+                    } else if (inRange) {
+                        className = "bg-blue-100 text-blue-800";
+                    } else if (selectable) {
+                        className = "text-gray-900 hover:bg-blue-50 cursor-pointer";
+                    } else if (isFree(day)) {
+                        // Free, but the owner doesn't hand over on this weekday
+                        className = "text-gray-400 cursor-not-allowed";
+                    } else {
+                        className = "text-gray-300 line-through cursor-not-allowed";
+                    }
+
+                    return (
+                        <button
+                            key={day}
+                            type="button"
+                            onClick={() => handleSelect(day)}
+                            disabled={!selectable || disabled}
+                            title={dayMap.get(day)?.status}
+                            className={`h-9 rounded-lg text-sm transition-colors ${className}`}
+                        >
+                            {Number(day.slice(8))}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="mt-3 space-y-1 text-xs text-gray-500">
+                {calendar?.available_days && (
+                    <p>Pickup and return on: {calendar.available_days.join(", ")}</p>
+                )}
+                {calendar?.max_borrow_days && (
+                    <p>Maximum borrow period: {calendar.max_borrow_days} days</p>
+                )}
+                {hint && <p className="text-red-600">{hint}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default AvailabilityDatePicker;
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { FaCalendarPlus, FaChevronDown, FaChevronUp } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+type ExtensionStatus = "pending" | "approved" | "declined" | "cancelled";
+
+interface BorrowExtension {
+    id: number;
+    previous_end_date: string;
+    requested_end_date: string;
+    message?: string | null;
+    status: ExtensionStatus;
+    response_message?: string | null;
+    created_at: string;
+}
+
+interface BorrowExtensionPanelProps {
+    requestId: number;
+    requestStatus: string;
+    party: "owner" | "borrower"; // Which side the viewer is on
+    onChange?: () => void;
+}
+
+const statusColors: Record<ExtensionStatus, string> = {
+    pending: "text-yellow-300",
+    approved: "text-green-300",
+    declined: "text-red-300",
+    cancelled: "text-gray-400",
+};
+
+// Extension requests of an active borrow: the borrower asks for a later end date, the owner answers
+const BorrowExtensionPanel = ({ requestId, requestStatus, party, onChange }: BorrowExtensionPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [extensions, setExtensions] = useState<BorrowExtension[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [endDate, setEndDate] = useState("");
+    const [message, setMessage] = useState("");
+
+    const loadExtensions = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await ApiService.getBorrowExtensions(requestId);
+            setExtensions(response.data || []);
+        } catch (err) {
+            console.error("Failed to load extensions", err);
+            setError(apiErrorMessage(err, "Failed to load extensions"));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && extensions === null) {
+            await loadExtensions();
+        }
+    };
+
+    const runAction = async (action: () => Promise<{ message?: string }>, successMessage: string) => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            setEndDate("");
+            setMessage("");
+            await loadExtensions();
+            onChange?.();
+        } catch (err) {
+            console.error("Extension action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const pending = extensions?.find((extension) => extension.status === "pending");
+    const canAsk = party === "borrower" && requestStatus === "active" && !pending;
+
+    return (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+                <FaCalendarPlus />
+                {isOpen ? "Hide extensions" : party === "borrower" ? "Need more time?" : "Show extensions"}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-1 space-y-3">
+                    {isLoading && !extensions ? (
+                        <p className="text-xs text-gray-400">Loading extensions...</p>
+                    ) : error ? (
+                        <p className="text-xs text-red-400">{error}</p>
+                    ) : (
+                        <>
+                            {extensions && extensions.length > 0 && (
+                                <ul className="space-y-2">
+                                    {extensions.map((extension) => (
+                                        <li key={extension.id} className="text-sm">
+                                            <div className="flex justify-between gap-2">
+                                                <span className="text-white">
+                                                    {extension.previous_end_date} → {extension.requested_end_date}
+                                                </span>
+                                                <span className={`text-xs capitalize ${statusColors[extension.status]}`}>
+                                                    {extension.status}
+                                                </span>
+                                            </div>
+                                            {extension.message && (
+                                                <p className="text-xs italic text-gray-300">"{extension.message}"</p>
+                                            )}
+                                            {extension.response_message && (
+                                                <p className="text-xs text-gray-400">Owner: {extension.response_message}</p>
+                                            )}
+
+                                            {extension.status === "pending" && (
+                                                <div className="flex flex-wrap gap-2 mt-2">
+                                                    {party === "owner" ? (
+                                                        <>
+                                                            <input
+                                                                type="text"
+                                                                value={message}
+                                                                onChange={(e) => setMessage(e.target.value)}
+                                                                placeholder="Reply (optional)"
+                                                                maxLength={500}
+                                                                className="flex-1 p-1 text-xs rounded bg-gray-900 text-white border border-gray-700"
+                                                            />
+                                                            <button
+                                                                type="button"
+                                                                disabled={isSubmitting}
+                                                                onClick={() =>
+                                                                    runAction(
+                                                                        () =>
+                                                                            ApiService.respondToBorrowExtension(
+                                                                                requestId,
+                                                                                extension.id,
+                                                                                "approve",
+                                                                                message.trim() || undefined
+                                                                            ),
+                                                                        "Extension approved"
+                                                                    )
+                                                                }
+                                                                className="px-3 py-1 text-xs rounded-lg bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                                                            >
+                                                                Approve
+                                                            </button>
+                                                            <button
+                                                                type="button"
+                                                                disabled={isSubmitting}
+                                                                onClick={() =>
+                                                                    runAction(
+                                                                        () =>
+                                                                            ApiService.respondToBorrowExtension(
+                                                                                requestId,
+                                                                                extension.id,
+                                                                                "decline",
+                                                                                message.trim() || undefined
+                                                                            ),
+                                                                        "Extension declined"
+                                                                    )
+                                                                }
+                                                                className="px-3 py-1 text-xs rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                                                            >
+                                                                Decline
+                                                            </button>
+                                                        </>
+                                                    ) : (
+                                                        <button
+                                                            type="button"
+                                                            disabled={isSubmitting}
+                                                            onClick={() =>
+                                                                runAction(
+                                                                    () => ApiService.cancelBorrowExtension(requestId, extension.id),
+                                                                    "Extension request cancelled"
+                                                                )
+                                                            }
+                                                            className="px-3 py-1 text-xs rounded-lg text-gray-300 hover:text-white"
+                                                        >
+                                                            Cancel request
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            {extensions?.length === 0 && !canAsk && (
+                                <p className="text-xs text-gray-400">No extension requests</p>
+                            )}
+
+                            {canAsk && (
+                                <div className="space-y-2">
+                                    <input
+                                        type="date"
+                                        value={endDate}
+                                        min={new Date().toISOString().slice(0, 10)}
+                                        onChange={(e) => setEndDate(e.target.value)}
+                                        className="w-full p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700"
+                                    />
+                                    <textarea
+                                        value={message}
+                                        onChange={(e) => setMessage(e.target.value)}
+                                        placeholder="Why do you need it longer? (optional)"
+                                        maxLength={500}
+                                        rows={2}
+                                        className="w-full p-2 text-xs rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                                    />
+                                    <button
+                                        type="button"
+                                        disabled={isSubmitting || !endDate}
+                                        onClick={() =>
+                                            runAction(
+                                                () =>
+                                                    ApiService.requestBorrowExtension(requestId, {
+                                                        requested_end_date: endDate,
+                                                        message: message.trim() || undefined,
+                                                    }),
+                                                "Extension requested"
+                                            )
+                                        }
+                                        className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                    >
+                                        {isSubmitting ? "Sending..." : "Ask for more time"}
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BorrowExtensionPanel;
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { FaLayerGroup } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import Button from "./button";
+import { apiErrorMessage } from "../utils/api";
+
+interface GroupedRequest {
+    id: number;
+    message: string;
+    start_date: string;
+    end_date: string;
+    resource: {
+        title: string;
+    };
+    requester: {
+        name: string;
+    };
+}
+
+interface BorrowRequestGroupCardProps {
+    groupId: number;
+    requests: GroupedRequest[]; // The group's pending requests
+    onChange?: () => void;
+}
+
+const formatDay = (value: string) => new Date(value).toISOString().slice(0, 10);
+
+// Pending requests of a bundle or recurring booking, answered together; unticked rows are rejected
+const BorrowRequestGroupCard = ({ groupId, requests, onChange }: BorrowRequestGroupCardProps) => {
+    const [selectedIds, setSelectedIds] = useState<number[]>(() => requests.map((req) => req.id));
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const toggle = (id: number) => {
+        setSelectedIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+    };
+
+    const respond = async (status: "approved" | "rejected", requestIds?: number[]) => {
+        setIsSubmitting(true);
+        try {
+            await ApiService.respondToBorrowRequestGroup(groupId, status, requestIds);
+            toast.success(
+                status === "rejected"
+                    ? "Requests rejected"
+                    : requestIds && requestIds.length < requests.length
+                        ? `Approved ${requestIds.length} of ${requests.length} requests`
+                        : "Requests approved"
+            );
+            onChange?.();
+        } catch (err) {
+            console.error("Failed to answer grouped requests", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const first = requests[0];
+    const titles = [...new Set(requests.map((req) => req.resource?.title || "Unknown Item"))];
+
+    return (
+        <div className="bg-gray-800 text-white p-6 rounded-lg shadow-lg border-l-4 border-yellow-400">
+            <div className="flex items-center gap-2 mb-2">
+                <FaLayerGroup className="text-yellow-400" />
+                <p className="font-medium">
+                    <span className="font-semibold text-blue-400">
+                        {first?.requester?.name || "Unknown User"}
+                    </span>{" "}
+                    wants to borrow{" "}
+                    <span className="font-semibold text-green-400">{titles.join(", ")}</span>
+                    {requests.length > titles.length && " on several dates"}
+                </p>
+            </div>
+            {first?.message && (
+                <p className="text-sm italic text-gray-300 mb-3 bg-gray-700 p-2 rounded">"{first.message}"</p>
+            )}
+
+            <ul className="space-y-1 mb-4">
+                {requests.map((req) => (
+                    <li key={req.id}>
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.includes(req.id)}
+                                onChange={() => toggle(req.id)}
+                                disabled={isSubmitting}
+                            />
+                            <span className="text-green-300">{req.resource?.title || "Unknown Item"}</span>
+                            <span className="text-gray-400">
+                                {formatDay(req.start_date)} → {formatDay(req.end_date)}
+                            </span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-3">
+                <Button
+                    buttonName={
+                        isSubmitting
+                            ? "Saving..."
+                            : selectedIds.length === requests.length
+                                ? "Approve all"
+                                : `Approve ${selectedIds.length}, reject ${requests.length - selectedIds.length}`
+                    }
+                    onClick={() => respond("approved", selectedIds)}
+                    type="button"
+                    disabled={isSubmitting || selectedIds.length === 0}
+                    className="bg-green-600 hover:bg-green-700 flex items-center gap-1"
+                />
+                <Button
+                    buttonName={isSubmitting ? "Saving..." : "Reject all"}
+                    onClick={() => respond("rejected")}
+                    type="button"
+                    disabled={isSubmitting}
+                    className="bg-red-600 hover:bg-red-700 flex items-center gap-1"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default BorrowRequestGroupCard;
@@ -7,10 +7,14 @@ import {
     FaEnvelope,
     FaHandHoldingHeart,
     FaClock,
+    FaLayerGroup,
+    FaRedo,
 } from "react-icons/fa";
 import ApiService from "../services/apiService";
 import { toast } from "react-toastify";
 import LoadingSpinner from "./ui/LoadingSpinner";
+import AvailabilityDatePicker from "./AvailabilityDatePicker";
+import { apiErrorMessage } from "../utils/api";
 
 interface BorrowRequestModalProps {
     isOpen: boolean;
@@ -18,22 +22,45 @@ interface BorrowRequestModalProps {
     resourceId: number;
     resourceTitle: string;
     ownerName: string;
+    ownerId?: number; // Enables bundling the owner's other items
 }
 
+type Repeat = "none" | "weekly" | "monthly";
+
+interface OwnerItem {
+    id: number;
+    title: string;
+}
+
+// Up to a year ahead, matching the backend's limits
+const MAX_OCCURRENCES: Record<Exclude<Repeat, "none">, number> = {
+    weekly: 52,
+    monthly: 12,
+};
+
 const BorrowRequestModal: React.FC<BorrowRequestModalProps> = ({
     isOpen,
     onClose,
     resourceId,
     resourceTitle,
     ownerName,
+    ownerId,
 }) => {
     const [startDate, setStartDate] = useState("");
     const [endDate, setEndDate] = useState("");
     const [message, setMessage] = useState("");
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState("");
+    const [canJoinWaitlist, setCanJoinWaitlist] = useState(false);
+    const [repeat, setRepeat] = useState<Repeat>("none");
+    const [occurrences, setOccurrences] = useState(4);
+    const [ownerItems, setOwnerItems] = useState<OwnerItem[] | null>(null);
+    const [bundleIds, setBundleIds] = useState<number[]>([]);
+    const [showBundle, setShowBundle] = useState(false);
 
-    // Get today's date in YYYY-MM-DD format for min date
+    const isGroup = repeat !== "none" || bundleIds.length > 0;
+
+    // Get today's date in YYYY-MM-DD format for validation
     const today = new Date().toISOString().split("T")[0];
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -56,44 +83,114 @@ const BorrowRequestModal: React.FC<BorrowRequestModalProps> = ({
 
         setIsSubmitting(true);
         setError("");
+        setCanJoinWaitlist(false);
 
         try {
-            const response = await ApiService.createBorrowRequest({
-                resource_id: resourceId,
-                start_date: new Date(startDate).toISOString(),
-                end_date: new Date(endDate).toISOString(),
-                message:
-                    message ||
-                    `Hi ${ownerName}, I would like to borrow your item: ${resourceTitle}`,
-            });
+            const defaultMessage = `Hi ${ownerName}, I would like to borrow your item: ${resourceTitle}`;
+            const response = isGroup
+                ? await ApiService.createBorrowRequestGroup({
+                      resource_ids: [resourceId, ...bundleIds],
+                      start_date: startDate,
+                      end_date: endDate,
+                      message: message || defaultMessage,
+                      recurrence:
+                          repeat !== "none"
+                              ? { frequency: repeat, count: occurrences }
+                              : undefined,
+                  })
+                : await ApiService.createBorrowRequest({
+                      resource_id: resourceId,
+                      start_date: new Date(startDate).toISOString(),
+                      end_date: new Date(endDate).toISOString(),
+                      message: message || defaultMessage,
+                  });
 
             toast.success(
                 response.message || "Borrow request sent successfully!"
             );
             onClose();
-
-            // Reset form
-            setStartDate("");
-            setEndDate("");
-            setMessage("");
+            resetForm();
         } catch (err: any) {
             console.error("Borrow request failed:", err);
             const errorMessage =
                 err?.response?.data?.message || "Something went wrong";
             setError(errorMessage);
+            // Booked or held dates: offer a place in the queue instead (one item, one slot)
+            setCanJoinWaitlist(err?.response?.status === 409 && !isGroup);
             toast.error(errorMessage);
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    const handleJoinWaitlist = async () => {
+        setIsSubmitting(true);
+        try {
+            const response = await ApiService.joinWaitlist({
+                resource_id: resourceId,
+                start_date: startDate || undefined,
+                end_date: endDate || undefined,
+            });
+            toast.success(
+                `You're #${response.data?.position ?? ""} on the waitlist. We'll notify you when it frees up.`
+            );
+            onClose();
+            resetForm();
+        } catch (err) {
+            console.error("Join waitlist failed:", err);
+            toast.error(
+                apiErrorMessage(err, "Failed to join the waitlist")
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const resetForm = () => {
+        setStartDate("");
+        setEndDate("");
+        setMessage("");
+        setError("");
+        setCanJoinWaitlist(false);
+        setRepeat("none");
+        setOccurrences(4);
+        setBundleIds([]);
+        setShowBundle(false);
+    };
+
+    const toggleBundle = async () => {
+        const nextOpen = !showBundle;
+        setShowBundle(nextOpen);
+
+        if (nextOpen && ownerItems === null && ownerId) {
+            try {
+                const response = await ApiService.getResources({
+                    owner_id: ownerId,
+                    limit: 50,
+                });
+                setOwnerItems(
+                    (response.data || []).filter(
+                        (item: OwnerItem) => item.id !== resourceId
+                    )
+                );
+            } catch (err) {
+                console.error("Failed to load the owner's items", err);
+                setOwnerItems([]);
+            }
+        }
+    };
+
+    const toggleBundleItem = (id: number) => {
+        setBundleIds((ids) =>
+            ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+        );
+        setError("");
+    };
+
     const handleClose = () => {
         if (!isSubmitting) {
             onClose();
-            setStartDate("");
-            setEndDate("");
-            setMessage("");
-            setError("");
+            resetForm();
         }
     };
 
@@ -217,40 +314,37 @@ const BorrowRequestModal: React.FC<BorrowRequestModalProps> = ({
                                         </h5>
                                     </div>
 
-                                    <div className="grid grid-cols-2 gap-4">
+                                    <AvailabilityDatePicker
+                                        resourceId={resourceId}
+                                        startDate={startDate}
+                                        endDate={endDate}
+                                        onChange={(start, end) => {
+                                            setStartDate(start);
+                                            setEndDate(end);
+                                            setError("");
+                                        }}
+                                        disabled={isSubmitting}
+                                    />
+
+                                    <div className="grid grid-cols-2 gap-4 text-sm">
                                         <div>
-                                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            <span className="block font-medium text-gray-700">
                                                 Start Date
-                                            </label>
-                                            <motion.input
-                                                whileFocus={{ scale: 1.02 }}
-                                                type="date"
-                                                value={startDate}
-                                                onChange={(e) =>
-                                                    setStartDate(e.target.value)
-                                                }
-                                                min={today}
-                                                required
-                                                disabled={isSubmitting}
-                                                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 transition-all duration-200"
-                                            />
+                                            </span>
+                                            <span className="text-gray-900">
+                                                {startDate || "Select a day"}
+                                            </span>
                                         </div>
                                         <div>
-                                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            <span className="block font-medium text-gray-700">
                                                 End Date
-                                            </label>
-                                            <motion.input
-                                                whileFocus={{ scale: 1.02 }}
-                                                type="date"
-                                                value={endDate}
-                                                onChange={(e) =>
-                                                    setEndDate(e.target.value)
-                                                }
-                                                min={startDate || today}
-                                                required
-                                                disabled={isSubmitting}
-                                                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 transition-all duration-200"
-                                            />
+                                            </span>
+                                            <span className="text-gray-900">
+                                                {endDate ||
+                                                    (startDate
+                                                        ? "Select an end day"
+                                                        : "—")}
+                                            </span>
                                         </div>
                                     </div>
 
@@ -272,6 +366,112 @@ const BorrowRequestModal: React.FC<BorrowRequestModalProps> = ({
                                     )}
                                 </motion.div>
 
+                                {/* Bundle & Recurrence */}
+                                <motion.div
+                                    initial={{ y: 20, opacity: 0 }}
+                                    animate={{ y: 0, opacity: 1 }}
+                                    transition={{ delay: 0.45 }}
+                                    className="space-y-3"
+                                >
+                                    <div className="flex items-center space-x-2">
+                                        <FaRedo className="text-blue-500" />
+                                        <h5 className="font-semibold text-gray-900">
+                                            Repeat
+                                        </h5>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <select
+                                            value={repeat}
+                                            onChange={(e) => {
+                                                setRepeat(e.target.value as Repeat);
+                                                setError("");
+                                            }}
+                                            disabled={isSubmitting}
+                                            className="flex-1 px-3 py-2 border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            <option value="none">Just once</option>
+                                            <option value="weekly">Every week</option>
+                                            <option value="monthly">Every month</option>
+                                        </select>
+                                        {repeat !== "none" && (
+                                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                                <input
+                                                    type="number"
+                                                    min={2}
+                                                    max={MAX_OCCURRENCES[repeat]}
+                                                    value={occurrences}
+                                                    onChange={(e) =>
+                                                        setOccurrences(
+                                                            Math.min(
+                                                                Math.max(parseInt(e.target.value) || 2, 2),
+                                                                MAX_OCCURRENCES[repeat]
+                                                            )
+                                                        )
+                                                    }
+                                                    disabled={isSubmitting}
+                                                    className="w-20 px-3 py-2 border border-gray-300 rounded-xl text-gray-900"
+                                                />
+                                                times
+                                            </label>
+                                        )}
+                                    </div>
+
+                                    {ownerId && (
+                                        <>
+                                            <button
+                                                type="button"
+                                                onClick={toggleBundle}
+                                                disabled={isSubmitting}
+                                                className="flex items-center space-x-2 text-sm font-semibold text-purple-600 hover:text-purple-800"
+                                            >
+                                                <FaLayerGroup />
+                                                <span>
+                                                    {bundleIds.length > 0
+                                                        ? `Borrowing ${bundleIds.length} more ${bundleIds.length === 1 ? "item" : "items"} from ${ownerName}`
+                                                        : `Borrow other items from ${ownerName} too`}
+                                                </span>
+                                            </button>
+                                            {showBundle && (
+                                                <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-200 rounded-xl p-3">
+                                                    {ownerItems === null ? (
+                                                        <p className="text-sm text-gray-500">
+                                                            Loading items...
+                                                        </p>
+                                                    ) : ownerItems.length === 0 ? (
+                                                        <p className="text-sm text-gray-500">
+                                                            {ownerName} has no other items available
+                                                        </p>
+                                                    ) : (
+                                                        ownerItems.map((item) => (
+                                                            <label
+                                                                key={item.id}
+                                                                className="flex items-center gap-2 text-sm text-gray-800"
+                                                            >
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={bundleIds.includes(item.id)}
+                                                                    onChange={() => toggleBundleItem(item.id)}
+                                                                    disabled={isSubmitting}
+                                                                />
+                                                                {item.title}
+                                                            </label>
+                                                        ))
+                                                    )}
+                                                </div>
+                                            )}
+                                        </>
+                                    )}
+
+                                    {isGroup && calculateDuration() > 0 && (
+                                        <p className="text-sm text-gray-600">
+                                            This sends{" "}
+                                            {(bundleIds.length + 1) *
+                                                (repeat === "none" ? 1 : occurrences)}{" "}
+                                            requests that {ownerName} can approve together or one by one.
+                                        </p>
+                                    )}
+                                </motion.div>
+
                                 {/* Message */}
                                 <motion.div
                                     initial={{ y: 20, opacity: 0 }}
@@ -316,9 +516,19 @@ const BorrowRequestModal: React.FC<BorrowRequestModalProps> = ({
                                             <span className="text-red-500">
                                                 ⚠️
                                             </span>
-                                            <span className="font-medium">
+                                            <span className="font-medium flex-1">
                                                 {error}
                                             </span>
+                                            {canJoinWaitlist && (
+                                                <button
+                                                    type="button"
+                                                    onClick={handleJoinWaitlist}
+                                                    disabled={isSubmitting}
+                                                    className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold disabled:opacity-50"
+                                                >
+                                                    Join Waitlist
+                                                </button>
+                                            )}
                                         </motion.div>
                                     )}
                                 </AnimatePresence>
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { FaHistory, FaChevronDown, FaChevronUp } from "react-icons/fa";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+interface BorrowRequestEvent {
+    id: number;
+    from_status?: string | null;
+    to_status: string;
+    note?: string | null;
+    created_at: string;
+    actor?: { id: number; name: string } | null;
+}
+
+interface BorrowRequestTimelineProps {
+    requestId: number;
+}
+
+const statusColors: Record<string, string> = {
+    pending: "bg-yellow-400",
+    approved: "bg-green-400",
+    active: "bg-blue-400",
+    returned: "bg-purple-400",
+    completed: "bg-green-600",
+    overdue: "bg-red-500",
+    rejected: "bg-red-400",
+    cancelled: "bg-gray-400",
+};
+
+const describeEvent = (event: BorrowRequestEvent) => {
+    if (!event.from_status) return "Request created";
+    if (event.from_status === event.to_status) return "Borrow updated";
+    return `${event.from_status} → ${event.to_status}`;
+};
+
+// Collapsible status history of a borrow request; loads on first open
+const BorrowRequestTimeline = ({ requestId }: BorrowRequestTimelineProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [events, setEvents] = useState<BorrowRequestEvent[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && events === null) {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const response = await ApiService.getBorrowRequestHistory(requestId);
+                setEvents(response.data || []);
+            } catch (err) {
+                console.error("Failed to load request history", err);
+                setError(apiErrorMessage(err, "Failed to load history"));
+            } finally {
+                setIsLoading(false);
+            }
+        }
+    };
+
+    return (
+        <div className="mt-3">
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+                <FaHistory />
+                {isOpen ? "Hide history" : "Show history"}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-1">
+                    {isLoading ? (
+                        <p className="text-xs text-gray-400">Loading history...</p>
+                    ) : error ? (
+                        <p className="text-xs text-red-400">{error}</p>
+                    ) : !events || events.length === 0 ? (
+                        <p className="text-xs text-gray-400">No history recorded</p>
+                    ) : (
+                        <ol className="relative border-l border-gray-600 ml-1 space-y-3">
+                            {events.map((event) => (
+                                <li key={event.id} className="ml-4">
+                                    <span
+                                        className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full ${
+                                            statusColors[event.to_status] || "bg-gray-400"
+                                        }`}
+                                    />
+                                    <p className="text-sm text-white capitalize">
+                                        {describeEvent(event)}
+                                    </p>
+                                    <p className="text-xs text-gray-400">
+                                        {event.actor?.name || "System"} ·{" "}
+                                        {new Date(event.created_at).toLocaleString()}
+                                    </p>
+                                    {event.note && (
+                                        <p className="text-xs italic text-gray-300 mt-1">
+                                            "{event.note}"
+                                        </p>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BorrowRequestTimeline;
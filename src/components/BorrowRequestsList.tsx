@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import api from '../utils/api';
+import { appConfig } from '../config';
 
 interface BorrowRequest {
   id: number;
@@ -164,7 +165,7 @@ const BorrowRequestsList: React.FC = () => {
                     {request.resource_photos.slice(0, 3).map((photo, index) => (
                       <img
                         key={index}
-                        src={`http://localhost:3000/${photo}`}
+                        src={`${appConfig.apiUrl}/${photo}`}
                         alt={`${request.resource_title} ${index + 1}`}
                         className="w-16 h-16 object-cover rounded-md"
                         onError={(e) => {
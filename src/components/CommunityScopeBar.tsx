@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from "react";
+import { FaChevronDown, FaChevronUp, FaUsers } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+// "mine" browses every community the user belongs to; a number browses a single one
+export type CommunityScope = "all" | "mine" | number;
+
+interface Community {
+    id: number;
+    name: string;
+    description?: string | null;
+    member_count: number;
+    is_member?: boolean;
+    covers_your_location?: boolean;
+}
+
+interface CommunityScopeBarProps {
+    scope: CommunityScope | null; // null until the communities have loaded
+    onScopeChange: (scope: CommunityScope) => void;
+    onMembershipChange?: () => void; // Joining or leaving changes which listings are visible
+}
+
+// Chooses which listings Main shows and lets the user join the communities around them
+const CommunityScopeBar = ({ scope, onScopeChange, onMembershipChange }: CommunityScopeBarProps) => {
+    const [communities, setCommunities] = useState<Community[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [hasLoaded, setHasLoaded] = useState(false);
+
+    const memberships = communities.filter((community) => community.is_member);
+    const joinable = communities.filter(
+        (community) => !community.is_member && community.covers_your_location
+    );
+
+    // Resolves to null when the list could not be fetched
+    const loadCommunities = useCallback(async (): Promise<Community[] | null> => {
+        try {
+            const response = await ApiService.getCommunities();
+            const data: Community[] = response.data || [];
+            setCommunities(data);
+            return data;
+        } catch (err) {
+            console.error("Failed to load communities", err);
+            return null;
+        } finally {
+            setHasLoaded(true);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadCommunities();
+    }, [loadCommunities]);
+
+    useEffect(() => {
+        // Members start out browsing their communities, everyone else sees all public listings
+        if (hasLoaded && scope === null) {
+            onScopeChange(memberships.length > 0 ? "mine" : "all");
+        }
+    }, [hasLoaded, scope, memberships.length, onScopeChange]);
+
+    const runAction = async (action: () => Promise<{ message?: string }>, successMessage: string) => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            const data = (await loadCommunities()) ?? communities;
+
+            // Fall back to all listings when the browsed community is no longer one of the user's
+            const memberIds = data.filter((community) => community.is_member).map((community) => community.id);
+            if (
+                (scope === "mine" && memberIds.length === 0) ||
+                (typeof scope === "number" && !memberIds.includes(scope))
+            ) {
+                onScopeChange("all");
+            } else if (onMembershipChange) {
+                onMembershipChange();
+            }
+        } catch (err) {
+            console.error("Community action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleScopeChange = (value: string) => {
+        onScopeChange(value === "all" || value === "mine" ? value : parseInt(value));
+    };
+
+    return (
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-4 border border-white/10">
+            <div className="flex flex-wrap items-center gap-3">
+                <FaUsers className="text-blue-400" />
+                <label htmlFor="community-scope" className="text-sm text-gray-300">
+                    Showing
+                </label>
+                <select
+                    id="community-scope"
+                    value={scope === null ? "all" : String(scope)}
+                    onChange={(e) => handleScopeChange(e.target.value)}
+                    className="p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                >
+                    <option value="all">All public listings</option>
+                    {memberships.length > 0 && <option value="mine">All my communities</option>}
+                    {memberships.map((community) => (
+                        <option key={community.id} value={community.id}>
+                            {community.name}
+                        </option>
+                    ))}
+                </select>
+
+                <button
+                    type="button"
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="ml-auto flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                    Communities{joinable.length > 0 ? ` (${joinable.length} near you)` : ""}
+                    {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+                </button>
+            </div>
+
+            {isOpen && (
+                <div className="mt-3 space-y-2">
+                    {memberships.length === 0 && joinable.length === 0 ? (
+                        <p className="text-xs text-gray-400">
+                            No community covers your verified location yet. Verify your location to be
+                            added to the communities around you.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {[...memberships, ...joinable].map((community) => (
+                                <li
+                                    key={community.id}
+                                    className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-700"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-white truncate">{community.name}</p>
+                                        <p className="text-xs text-gray-400 truncate">
+                                            {community.member_count} member
+                                            {community.member_count === 1 ? "" : "s"}
+                                            {community.description ? ` · ${community.description}` : ""}
+                                        </p>
+                                    </div>
+                                    {community.is_member ? (
+                                        <button
+                                            type="button"
+                                            disabled={isSubmitting}
+                                            onClick={() =>
+                                                runAction(
+                                                    () => ApiService.leaveCommunity(community.id),
+                                                    "You left the community"
+                                                )
+                                            }
+                                            className="px-3 py-1 text-xs rounded-lg bg-gray-600 hover:bg-gray-500 text-white disabled:opacity-50"
+                                        >
+                                            Leave
+                                        </button>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            disabled={isSubmitting}
+                                            onClick={() =>
+                                                runAction(
+                                                    () => ApiService.joinCommunity(community.id),
+                                                    `You joined ${community.name}`
+                                                )
+                                            }
+                                            className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                        >
+                                            Join
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CommunityScopeBar;
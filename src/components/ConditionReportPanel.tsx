@@ -0,0 +1,429 @@
+import { useState } from "react";
+import {
+    FaClipboardCheck,
+    FaChevronDown,
+    FaChevronUp,
+    FaCheck,
+    FaTimes,
+    FaPlus,
+    FaTrash,
+} from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+type ReportStage = "pickup" | "return";
+
+interface ChecklistItem {
+    item: string;
+    ok: boolean;
+    note?: string;
+}
+
+interface ConditionReport {
+    id: number;
+    stage: ReportStage;
+    condition: string;
+    checklist: ChecklistItem[];
+    notes?: string | null;
+    owner_signed_at?: string | null;
+    borrower_signed_at?: string | null;
+    updated_at: string;
+    author?: { id: number; name: string };
+    photos?: { id: number; photo_url: string }[];
+}
+
+interface ChecklistComparison {
+    item: string;
+    pickup: ChecklistItem | null;
+    return: ChecklistItem | null;
+    changed: boolean;
+}
+
+interface ConditionComparison {
+    request_status: string;
+    party: "owner" | "borrower" | null;
+    pickup: ConditionReport | null;
+    return: ConditionReport | null;
+    condition_changed: boolean | null;
+    condition_worsened: boolean | null;
+    checklist: ChecklistComparison[];
+}
+
+interface ConditionReportPanelProps {
+    requestId: number;
+    party: "owner" | "borrower" | "moderator"; // Which side the viewer is on
+}
+
+const CONDITIONS = ["excellent", "good", "fair", "poor"];
+
+// Mirrors the backend: when each handover report can be filed and signed
+const STAGE_WINDOWS: Record<ReportStage, string[]> = {
+    pickup: ["approved", "active", "overdue"],
+    return: ["active", "overdue", "returned"],
+};
+
+const stageLabels: Record<ReportStage, string> = {
+    pickup: "At pickup",
+    return: "At return",
+};
+
+// Helper function to construct proper URLs without double slashes
+const constructImageUrl = (path: string) => {
+    const cleanPath = path.startsWith("/") ? path : `/${path}`;
+    return `http://localhost:5173${cleanPath}`;
+};
+
+const isSignedOff = (report: ConditionReport | null) =>
+    !!report?.owner_signed_at && !!report?.borrower_signed_at;
+
+// Pickup and return condition reports side by side; both sides file, edit and sign them off
+const ConditionReportPanel = ({ requestId, party }: ConditionReportPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [comparison, setComparison] = useState<ConditionComparison | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [editingStage, setEditingStage] = useState<ReportStage | null>(null);
+    const [condition, setCondition] = useState("good");
+    const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+    const [notes, setNotes] = useState("");
+    const [photos, setPhotos] = useState<File[]>([]);
+
+    const loadReports = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await ApiService.getConditionReports(requestId);
+            setComparison(response.data ?? null);
+        } catch (err) {
+            console.error("Failed to load condition reports", err);
+            setError(apiErrorMessage(err, "Failed to load condition reports"));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && comparison === null) {
+            await loadReports();
+        }
+    };
+
+    const startEditing = (stage: ReportStage) => {
+        const existing = comparison?.[stage];
+        // A new return report starts from the pickup checklist so the two line up
+        const template = existing?.checklist || comparison?.pickup?.checklist || [];
+
+        setEditingStage(stage);
+        setCondition(existing?.condition || comparison?.pickup?.condition || "good");
+        setChecklist(template.map((entry) => ({ ...entry })));
+        setNotes(existing?.notes || "");
+        setPhotos([]);
+    };
+
+    const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+        setChecklist((prev) =>
+            prev.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+        );
+    };
+
+    const runAction = async (action: () => Promise<{ message?: string }>, successMessage: string) => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            setEditingStage(null);
+            await loadReports();
+        } catch (err) {
+            console.error("Condition report action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSubmit = () => {
+        if (!editingStage) return;
+        runAction(
+            () =>
+                ApiService.submitConditionReport(requestId, {
+                    stage: editingStage,
+                    condition,
+                    checklist: checklist
+                        .filter((entry) => entry.item.trim())
+                        .map((entry) => ({
+                            item: entry.item.trim(),
+                            ok: entry.ok,
+                            note: entry.note?.trim() || undefined,
+                        })),
+                    notes: notes.trim() || undefined,
+                    photos,
+                }),
+            "Condition report saved"
+        );
+    };
+
+    const stageOpen = (stage: ReportStage) =>
+        !!comparison && STAGE_WINDOWS[stage].includes(comparison.request_status);
+
+    const awaitsViewer = (report: ConditionReport | null) =>
+        !!report &&
+        party !== "moderator" &&
+        !(party === "owner" ? report.owner_signed_at : report.borrower_signed_at);
+
+    const renderSignature = (label: string, signedAt?: string | null) => (
+        <span className={signedAt ? "text-green-300" : "text-gray-500"}>
+            {signedAt ? <FaCheck className="inline mr-1" /> : null}
+            {label} {signedAt ? "signed" : "to sign"}
+        </span>
+    );
+
+    const renderReport = (stage: ReportStage) => {
+        const report = comparison?.[stage] || null;
+        const canEdit = party !== "moderator" && stageOpen(stage) && !isSignedOff(report);
+
+        return (
+            <div className="p-3 rounded-lg bg-gray-900 space-y-2">
+                <p className="text-xs uppercase tracking-wide text-gray-400">{stageLabels[stage]}</p>
+                {report ? (
+                    <>
+                        <p className="text-white font-medium capitalize">{report.condition}</p>
+                        {report.notes && <p className="text-xs italic text-gray-300">"{report.notes}"</p>}
+                        {report.photos && report.photos.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {report.photos.map((photo) => (
+                                    <a
+                                        key={photo.id}
+                                        href={constructImageUrl(photo.photo_url)}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                    >
+                                        <img
+                                            src={constructImageUrl(photo.photo_url)}
+                                            alt={`${stage} condition`}
+                                            className="w-14 h-14 object-cover rounded-lg border border-gray-600"
+                                        />
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+                        <p className="text-xs flex flex-wrap gap-3">
+                            {renderSignature("Owner", report.owner_signed_at)}
+                            {renderSignature("Borrower", report.borrower_signed_at)}
+                        </p>
+                    </>
+                ) : (
+                    <p className="text-xs text-gray-500">Not filed yet</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    {awaitsViewer(report) && stageOpen(stage) && (
+                        <button
+                            type="button"
+                            disabled={isSubmitting}
+                            onClick={() =>
+                                runAction(
+                                    () => ApiService.signConditionReport(requestId, stage),
+                                    "Condition report signed"
+                                )
+                            }
+                            className="px-3 py-1 text-xs rounded-lg bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                        >
+                            Sign off
+                        </button>
+                    )}
+                    {canEdit && editingStage !== stage && (
+                        <button
+                            type="button"
+                            onClick={() => startEditing(stage)}
+                            className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+                        >
+                            {report ? "Edit" : "File report"}
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    const renderForm = () => (
+        <div className="p-3 rounded-lg bg-gray-900 space-y-2">
+            <p className="text-sm text-white font-medium">
+                {stageLabels[editingStage!]}: condition report
+            </p>
+            <select
+                value={condition}
+                onChange={(e) => setCondition(e.target.value)}
+                className="w-full p-2 text-sm rounded-lg bg-gray-800 text-white border border-gray-700 capitalize"
+            >
+                {CONDITIONS.map((grade) => (
+                    <option key={grade} value={grade}>
+                        {grade}
+                    </option>
+                ))}
+            </select>
+
+            <div className="space-y-2">
+                {checklist.map((entry, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={entry.ok}
+                            onChange={(e) => updateItem(index, { ok: e.target.checked })}
+                            title="Checked means it's fine"
+                        />
+                        <input
+                            type="text"
+                            value={entry.item}
+                            onChange={(e) => updateItem(index, { item: e.target.value })}
+                            placeholder="What to check, e.g. Battery charges"
+                            maxLength={100}
+                            className="flex-1 p-1 text-xs rounded bg-gray-800 text-white border border-gray-700"
+                        />
+                        <input
+                            type="text"
+                            value={entry.note || ""}
+                            onChange={(e) => updateItem(index, { note: e.target.value })}
+                            placeholder="Note"
+                            maxLength={255}
+                            className="w-1/3 p-1 text-xs rounded bg-gray-800 text-white border border-gray-700"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => setChecklist((prev) => prev.filter((_, i) => i !== index))}
+                            className="text-gray-400 hover:text-red-400"
+                            aria-label="Remove item"
+                        >
+                            <FaTrash />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    onClick={() => setChecklist((prev) => [...prev, { item: "", ok: true }])}
+                    className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                >
+                    <FaPlus /> Add checklist item
+                </button>
+            </div>
+
+            <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Anything else worth noting"
+                maxLength={1000}
+                rows={2}
+                className="w-full p-2 text-xs rounded-lg bg-gray-800 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+            />
+            <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+                className="block w-full text-xs text-gray-400"
+            />
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    disabled={isSubmitting}
+                    onClick={handleSubmit}
+                    className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                >
+                    {isSubmitting ? "Saving..." : "Save and sign"}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setEditingStage(null)}
+                    className="px-3 py-1 text-xs rounded-lg text-gray-300 hover:text-white"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+                <FaClipboardCheck />
+                {isOpen ? "Hide condition reports" : "Show condition reports"}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-1 space-y-3">
+                    {isLoading && !comparison ? (
+                        <p className="text-xs text-gray-400">Loading condition reports...</p>
+                    ) : error ? (
+                        <p className="text-xs text-red-400">{error}</p>
+                    ) : comparison && (
+                        <>
+                            {comparison.condition_worsened && (
+                                <p className="text-xs text-orange-300">
+                                    Came back in worse condition: {comparison.pickup?.condition} →{" "}
+                                    {comparison.return?.condition}
+                                </p>
+                            )}
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                {renderReport("pickup")}
+                                {renderReport("return")}
+                            </div>
+
+                            {comparison.checklist.length > 0 && (
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-gray-400 text-left">
+                                            <th className="font-normal py-1">Checklist</th>
+                                            <th className="font-normal py-1">Pickup</th>
+                                            <th className="font-normal py-1">Return</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.checklist.map((row) => (
+                                            <tr
+                                                key={row.item}
+                                                className={row.changed ? "text-orange-300" : "text-gray-200"}
+                                            >
+                                                <td className="py-1">{row.item}</td>
+                                                {[row.pickup, row.return].map((entry, i) => (
+                                                    <td key={i} className="py-1">
+                                                        {entry ? (
+                                                            <span title={entry.note}>
+                                                                {entry.ok ? (
+                                                                    <FaCheck className="inline text-green-400" />
+                                                                ) : (
+                                                                    <FaTimes className="inline text-red-400" />
+                                                                )}
+                                                                {entry.note && ` ${entry.note}`}
+                                                            </span>
+                                                        ) : (
+                                                            <span className="text-gray-500">–</span>
+                                                        )}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+
+                            {editingStage && renderForm()}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ConditionReportPanel;
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { FaMoneyBillWave, FaChevronDown, FaChevronUp } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+
+type DepositEntryType = "hold" | "release" | "withhold" | "dispute";
+
+interface DepositEntry {
+    id: number;
+    type: DepositEntryType;
+    status: "pending" | "confirmed" | "rejected" | "resolved";
+    amount: number | string;
+    reason?: string | null;
+    owner_confirmed_at?: string | null;
+    borrower_confirmed_at?: string | null;
+    created_at: string;
+}
+
+interface DepositLedgerData {
+    deposit_amount: number;
+    held: number;
+    released: number;
+    withheld: number;
+    outstanding: number;
+    open_dispute: boolean;
+    entries: DepositEntry[];
+}
+
+interface DepositLedgerProps {
+    requestId: number;
+    party: "owner" | "borrower"; // Which side the viewer is on
+}
+
+const entryLabels: Record<DepositEntryType, string> = {
+    hold: "Deposit hold",
+    release: "Release to borrower",
+    withhold: "Kept by owner",
+    dispute: "Dispute",
+};
+
+const statusColors: Record<DepositEntry["status"], string> = {
+    pending: "text-yellow-300",
+    confirmed: "text-green-300",
+    rejected: "text-red-300",
+    resolved: "text-blue-300",
+};
+
+const formatAmount = (amount: number | string) => Number(amount).toFixed(2);
+
+// Collapsible deposit ledger of a borrow request with confirm/dispute actions; loads on first open
+const DepositLedger = ({ requestId, party }: DepositLedgerProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [ledger, setLedger] = useState<DepositLedgerData | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [busyEntryId, setBusyEntryId] = useState<number | null>(null);
+    const [disputingId, setDisputingId] = useState<number | null>(null);
+    const [reason, setReason] = useState("");
+
+    const loadLedger = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await ApiService.getRequestDeposit(requestId);
+            setLedger(response.data ?? null);
+        } catch (err) {
+            console.error("Failed to load deposit", err);
+            setError(apiErrorMessage(err, "Failed to load deposit"));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && ledger === null) {
+            await loadLedger();
+        }
+    };
+
+    const runAction = async (entryId: number, action: () => Promise<{ message?: string }>) => {
+        setBusyEntryId(entryId);
+        try {
+            const response = await action();
+            toast.success(response.message || "Deposit updated");
+            setDisputingId(null);
+            setReason("");
+            await loadLedger();
+        } catch (err) {
+            console.error("Deposit action failed", err);
+            toast.error(apiErrorMessage(err, "Deposit action failed"));
+        } finally {
+            setBusyEntryId(null);
+        }
+    };
+
+    const awaitsViewer = (entry: DepositEntry) =>
+        entry.status === "pending" &&
+        entry.type !== "dispute" &&
+        !(party === "owner" ? entry.owner_confirmed_at : entry.borrower_confirmed_at);
+
+    if (ledger && ledger.deposit_amount <= 0 && ledger.entries.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+                <FaMoneyBillWave />
+                {isOpen ? "Hide deposit" : "Show deposit"}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-1 space-y-3">
+                    {isLoading && !ledger ? (
+                        <p className="text-xs text-gray-400">Loading deposit...</p>
+                    ) : error ? (
+                        <p className="text-xs text-red-400">{error}</p>
+                    ) : !ledger || ledger.entries.length === 0 ? (
+                        <p className="text-xs text-gray-400">No deposit activity yet</p>
+                    ) : (
+                        <>
+                            <p className="text-xs text-gray-300">
+                                Held {formatAmount(ledger.held)} · Returned{" "}
+                                {formatAmount(ledger.released)} · Kept{" "}
+                                {formatAmount(ledger.withheld)}
+                                {ledger.open_dispute && (
+                                    <span className="text-orange-300"> · Under review</span>
+                                )}
+                            </p>
+                            <ul className="space-y-2">
+                                {ledger.entries.map((entry) => (
+                                    <li key={entry.id} className="text-sm">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="text-white">
+                                                {entryLabels[entry.type]} · {formatAmount(entry.amount)}
+                                            </span>
+                                            <span className={`text-xs capitalize ${statusColors[entry.status]}`}>
+                                                {entry.status}
+                                            </span>
+                                        </div>
+                                        {entry.reason && (
+                                            <p className="text-xs italic text-gray-300">"{entry.reason}"</p>
+                                        )}
+
+                                        {awaitsViewer(entry) && disputingId !== entry.id && (
+                                            <div className="flex gap-2 mt-2">
+                                                <button
+                                                    type="button"
+                                                    disabled={busyEntryId === entry.id}
+                                                    onClick={() =>
+                                                        runAction(entry.id, () =>
+                                                            ApiService.confirmDepositEntry(entry.id)
+                                                        )
+                                                    }
+                                                    className="px-3 py-1 text-xs rounded-lg bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                                                >
+                                                    Confirm
+                                                </button>
+                                                {entry.type !== "release" && (
+                                                    <button
+                                                        type="button"
+                                                        disabled={busyEntryId === entry.id}
+                                                        onClick={() => setDisputingId(entry.id)}
+                                                        className="px-3 py-1 text-xs rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                                                    >
+                                                        {entry.type === "withhold" ? "Dispute" : "Decline"}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+
+                                        {disputingId === entry.id && (
+                                            <div className="mt-2 space-y-2">
+                                                <textarea
+                                                    value={reason}
+                                                    onChange={(e) => setReason(e.target.value)}
+                                                    placeholder="Tell the other side why"
+                                                    maxLength={500}
+                                                    rows={2}
+                                                    className="w-full p-2 text-xs rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                                                />
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        type="button"
+                                                        disabled={busyEntryId === entry.id}
+                                                        onClick={() =>
+                                                            runAction(entry.id, () =>
+                                                                ApiService.rejectDepositEntry(
+                                                                    entry.id,
+                                                                    reason.trim() || undefined
+                                                                )
+                                                            )
+                                                        }
+                                                        className="px-3 py-1 text-xs rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                                                    >
+                                                        Send
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setDisputingId(null)}
+                                                        className="px-3 py-1 text-xs rounded-lg text-gray-300 hover:text-white"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DepositLedger;
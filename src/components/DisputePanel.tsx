@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { FaGavel, FaChevronDown, FaChevronUp } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { useAuth } from "../Auth/authContext";
+import { apiErrorMessage } from "../utils/api";
+
+type DisputeStatus = "open" | "under_review" | "resolved" | "withdrawn";
+type DisputeOutcome = "owner_favoured" | "borrower_favoured" | "shared";
+
+export interface DisputeSummary {
+    id: number;
+    status: DisputeStatus;
+    opened_by: number;
+    created_at: string;
+}
+
+interface DisputeStatement {
+    id: number;
+    party: "owner" | "borrower";
+    body: string;
+    created_at: string;
+    author?: { id: number; name: string };
+}
+
+interface DisputeEvidence {
+    id: number;
+    party: "owner" | "borrower";
+    photo_url: string;
+    caption?: string | null;
+}
+
+interface DisputeDetail extends DisputeSummary {
+    reason: string;
+    claimed_amount?: number | string | null;
+    outcome?: DisputeOutcome | null;
+    decision_notes?: string | null;
+    withheld_amount?: number | string | null;
+    decided_at?: string | null;
+    statements?: DisputeStatement[];
+    evidence?: DisputeEvidence[];
+}
+
+interface DisputePanelProps {
+    requestId: number;
+    requestStatus: string;
+    disputes?: DisputeSummary[];
+    party: "owner" | "borrower" | "moderator"; // Which side the viewer is on
+    depositAmount?: number;
+    onChange?: () => void;
+}
+
+type ActionResponse = { message?: string; data?: unknown };
+
+const ACTIVE_STATUSES: DisputeStatus[] = ["open", "under_review"];
+const DISPUTABLE_STATUSES = ["returned", "completed"];
+
+const statusLabels: Record<DisputeStatus, { label: string; className: string }> = {
+    open: { label: "Open", className: "bg-orange-500/20 text-orange-300" },
+    under_review: { label: "Under review", className: "bg-yellow-500/20 text-yellow-300" },
+    resolved: { label: "Decided", className: "bg-green-500/20 text-green-300" },
+    withdrawn: { label: "Withdrawn", className: "bg-gray-500/20 text-gray-300" },
+};
+
+const outcomeLabels: Record<DisputeOutcome, string> = {
+    owner_favoured: "In the owner's favour",
+    borrower_favoured: "In the borrower's favour",
+    shared: "Shared responsibility",
+};
+
+// Helper function to construct proper URLs without double slashes
+const constructImageUrl = (path: string) => {
+    const cleanPath = path.startsWith("/") ? path : `/${path}`;
+    return `http://localhost:5173${cleanPath}`;
+};
+
+// Dispute case of a borrow: open one with photos, add statements and evidence, see the decision
+const DisputePanel = ({
+    requestId,
+    requestStatus,
+    disputes = [],
+    party,
+    depositAmount = 0,
+    onChange,
+}: DisputePanelProps) => {
+    const { user } = useAuth();
+    const latest = [...disputes].sort((a, b) => b.id - a.id)[0];
+    const hasActive = disputes.some((dispute) => ACTIVE_STATUSES.includes(dispute.status));
+    const canOpen =
+        party !== "moderator" && !hasActive && DISPUTABLE_STATUSES.includes(requestStatus);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [detail, setDetail] = useState<DisputeDetail | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [text, setText] = useState("");
+    const [claimedAmount, setClaimedAmount] = useState("");
+    const [photos, setPhotos] = useState<File[]>([]);
+
+    const loadDetail = async (disputeId: number) => {
+        setIsLoading(true);
+        try {
+            const response = await ApiService.getDispute(disputeId);
+            setDetail(response.data ?? null);
+        } catch (err) {
+            console.error("Failed to load dispute", err);
+            toast.error(apiErrorMessage(err, "Failed to load dispute"));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && latest && !detail) {
+            await loadDetail(latest.id);
+        }
+    };
+
+    const resetForm = () => {
+        setText("");
+        setClaimedAmount("");
+        setPhotos([]);
+    };
+
+    const submit = async (
+        action: () => Promise<ActionResponse>,
+        successMessage: string
+    ): Promise<ActionResponse | null> => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            resetForm();
+            onChange?.();
+            return response;
+        } catch (err) {
+            console.error("Dispute action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+            return null;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleOpen = async () => {
+        const response = await submit(
+            () =>
+                ApiService.openDispute({
+                    borrow_request_id: requestId,
+                    reason: text.trim(),
+                    claimed_amount:
+                        party === "owner" && claimedAmount !== ""
+                            ? parseFloat(claimedAmount)
+                            : undefined,
+                    photos,
+                }),
+            "Dispute opened"
+        );
+        if (response) setDetail(response.data as DisputeDetail);
+    };
+
+    const handleStatement = async () => {
+        if (!detail) return;
+        const response = await submit(async () => {
+            const result = await ApiService.addDisputeStatement(detail.id, text.trim());
+            if (photos.length > 0) {
+                await ApiService.addDisputeEvidence(detail.id, photos);
+            }
+            return result;
+        }, "Statement added");
+        if (response) await loadDetail(detail.id);
+    };
+
+    const handlePhotosOnly = async () => {
+        if (!detail) return;
+        const response = await submit(
+            () => ApiService.addDisputeEvidence(detail.id, photos),
+            "Photos added"
+        );
+        if (response) await loadDetail(detail.id);
+    };
+
+    const handleWithdraw = async () => {
+        if (!detail) return;
+        const response = await submit(
+            () => ApiService.withdrawDispute(detail.id),
+            "Dispute withdrawn"
+        );
+        if (response) setDetail(response.data as DisputeDetail);
+    };
+
+    if (!latest && !canOpen) return null;
+
+    const detailIsActive = !!detail && ACTIVE_STATUSES.includes(detail.status);
+    const showForm = party !== "moderator" && (detailIsActive || canOpen);
+
+    return (
+        <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+                <FaGavel />
+                {latest ? "Dispute" : "Report a problem"}
+                {latest && (
+                    <span className={`px-2 py-0.5 rounded-full ${statusLabels[latest.status].className}`}>
+                        {statusLabels[latest.status].label}
+                    </span>
+                )}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-1 space-y-3">
+                    {isLoading && !detail && (
+                        <p className="text-xs text-gray-400">Loading dispute...</p>
+                    )}
+
+                    {detail && (
+                        <>
+                            <ul className="space-y-2">
+                                {detail.statements?.map((statement) => (
+                                    <li key={statement.id} className="text-sm">
+                                        <p className="text-xs text-gray-400">
+                                            <span className="capitalize">{statement.party}</span>
+                                            {statement.author?.name && ` · ${statement.author.name}`} ·{" "}
+                                            {new Date(statement.created_at).toLocaleString()}
+                                        </p>
+                                        <p className="text-gray-200">{statement.body}</p>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            {detail.evidence && detail.evidence.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {detail.evidence.map((photo) => (
+                                        <a
+                                            key={photo.id}
+                                            href={constructImageUrl(photo.photo_url)}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            title={`${photo.party}${photo.caption ? `: ${photo.caption}` : ""}`}
+                                        >
+                                            <img
+                                                src={constructImageUrl(photo.photo_url)}
+                                                alt="Evidence"
+                                                className="w-16 h-16 object-cover rounded-lg border border-gray-600"
+                                            />
+                                        </a>
+                                    ))}
+                                </div>
+                            )}
+
+                            {detail.claimed_amount !== null && detail.claimed_amount !== undefined && (
+                                <p className="text-xs text-gray-400">
+                                    Owner claims {Number(detail.claimed_amount).toFixed(2)} of the deposit
+                                </p>
+                            )}
+
+                            {detail.status === "resolved" && detail.outcome && (
+                                <div className="p-3 rounded-lg bg-gray-900 text-sm">
+                                    <p className="text-green-300 font-medium">
+                                        {outcomeLabels[detail.outcome]}
+                                    </p>
+                                    {detail.decision_notes && (
+                                        <p className="text-gray-300 mt-1">{detail.decision_notes}</p>
+                                    )}
+                                    {detail.withheld_amount !== null && detail.withheld_amount !== undefined && (
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            Owner keeps {Number(detail.withheld_amount).toFixed(2)} of the deposit
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {showForm && !isLoading && (
+                        <div className="space-y-2">
+                            <textarea
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                placeholder={
+                                    detailIsActive
+                                        ? "Add your side of the story"
+                                        : "What went wrong? Describe the damage or problem"
+                                }
+                                maxLength={detailIsActive ? 2000 : 1000}
+                                rows={3}
+                                className="w-full p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                            />
+                            {!detailIsActive && party === "owner" && depositAmount > 0 && (
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={depositAmount}
+                                    step="0.01"
+                                    value={claimedAmount}
+                                    onChange={(e) => setClaimedAmount(e.target.value)}
+                                    placeholder={`Deposit to keep (up to ${depositAmount.toFixed(2)})`}
+                                    className="w-full p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                                />
+                            )}
+                            <input
+                                type="file"
+                                accept="image/jpeg,image/png,image/webp"
+                                multiple
+                                onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+                                className="block w-full text-xs text-gray-400"
+                            />
+                            <div className="flex flex-wrap gap-2">
+                                {detailIsActive ? (
+                                    <>
+                                        <button
+                                            type="button"
+                                            disabled={isSubmitting || !text.trim()}
+                                            onClick={handleStatement}
+                                            className="px-3 py-1 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                        >
+                                            Add statement
+                                        </button>
+                                        <button
+                                            type="button"
+                                            disabled={isSubmitting || photos.length === 0}
+                                            onClick={handlePhotosOnly}
+                                            className="px-3 py-1 text-xs rounded-lg bg-gray-600 hover:bg-gray-500 text-white disabled:opacity-50"
+                                        >
+                                            Add photos
+                                        </button>
+                                        {detail?.opened_by === user?.id && (
+                                            <button
+                                                type="button"
+                                                disabled={isSubmitting}
+                                                onClick={handleWithdraw}
+                                                className="px-3 py-1 text-xs rounded-lg text-gray-300 hover:text-white"
+                                            >
+                                                Withdraw
+                                            </button>
+                                        )}
+                                    </>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        disabled={isSubmitting || !text.trim()}
+                                        onClick={handleOpen}
+                                        className="px-3 py-1 text-xs rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                                    >
+                                        {isSubmitting ? "Sending..." : "Open dispute"}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DisputePanel;
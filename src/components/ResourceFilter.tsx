@@ -11,11 +11,12 @@ import {
 } from "react-icons/fa";
 import { motion, AnimatePresence } from "framer-motion";
 import SearchSuggestions from "./SearchSuggestions";
+import SavedSearchesPanel from "./SavedSearchesPanel";
+import ApiService from "../services/apiService";
 
 interface ResourceFilterProps {
     onFilterChange: (filters: FilterOptions) => void;
     isLoading?: boolean;
-    allResources?: any[]; // For generating search suggestions
 }
 
 export interface FilterOptions {
@@ -38,7 +39,6 @@ export interface FilterOptions {
 const ResourceFilter = ({
     onFilterChange,
     isLoading = false,
-    allResources = [],
 }: ResourceFilterProps) => {
     const [isOpen, setIsOpen] = useState(false);
     const [searchValue, setSearchValue] = useState("");
@@ -53,21 +53,23 @@ const ResourceFilter = ({
         condition: "",
     });
 
+    // Same names as the API's resource categories
     const categories = [
-        "Electronics",
         "Tools",
-        "Sports",
+        "Electronics",
         "Books",
         "Furniture",
-        "Kitchen",
-        "Garden",
-        "Automotive",
-        "Fashion",
+        "Sports & Recreation",
+        "Kitchen & Appliances",
+        "Garden & Outdoor",
         "Musical Instruments",
-        "Art & Crafts",
-        "Health & Beauty",
+        "Automotive",
+        "Clothing & Accessories",
         "Baby & Kids",
-        "Pet Supplies",
+        "Health & Beauty",
+        "Art & Craft",
+        "Office Supplies",
+        "Travel & Luggage",
         "Other",
     ];
 
@@ -79,48 +81,32 @@ const ResourceFilter = ({
         "Currently Borrowed",
     ];
 
-    // Generate search suggestions from resources
-    const generateSuggestions = useCallback(
-        (query: string): string[] => {
-            if (!query || query.length < 2) return [];
-
-            const suggestions = new Set<string>();
-            const queryLower = query.toLowerCase();
-
-            allResources.forEach((resource) => {
-                // Add title matches
-                if (resource.title?.toLowerCase().includes(queryLower)) {
-                    suggestions.add(resource.title);
-                }
-
-                // Add category matches
-                if (resource.category?.toLowerCase().includes(queryLower)) {
-                    suggestions.add(resource.category);
-                }
+    // Suggestions come from the server's search index
+    const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
 
-                // Add owner name matches
-                const ownerName = resource.owner?.name || resource.owner_name;
-                if (ownerName?.toLowerCase().includes(queryLower)) {
-                    suggestions.add(ownerName);
-                }
-
-                // Add description keyword matches
-                if (resource.description?.toLowerCase().includes(queryLower)) {
-                    const words = resource.description.toLowerCase().split(" ");
-                    words.forEach((word) => {
-                        if (word.startsWith(queryLower) && word.length > 2) {
-                            suggestions.add(word);
-                        }
-                    });
-                }
-            });
+    useEffect(() => {
+        const query = searchValue.trim();
+        if (query.length < 2) {
+            setSearchSuggestions([]);
+            return;
+        }
 
-            return Array.from(suggestions).slice(0, 8);
-        },
-        [allResources]
-    );
+        let cancelled = false;
+        const timeoutId = setTimeout(async () => {
+            try {
+                const response = await ApiService.getResourceSuggestions(query);
+                if (!cancelled) setSearchSuggestions(response.data || []);
+            } catch (err) {
+                console.error("Failed to load search suggestions", err);
+                if (!cancelled) setSearchSuggestions([]);
+            }
+        }, 200);
 
-    const searchSuggestions = generateSuggestions(searchValue);
+        return () => {
+            cancelled = true;
+            clearTimeout(timeoutId);
+        };
+    }, [searchValue]);
 
     // Debounced search
     const debouncedSearch = useCallback(
@@ -156,6 +142,12 @@ const ResourceFilter = ({
         onFilterChange(newFilters);
     };
 
+    const handleApplySavedSearch = (savedFilters: FilterOptions) => {
+        setFilters(savedFilters);
+        setSearchValue(savedFilters.search);
+        onFilterChange(savedFilters);
+    };
+
     const clearFilters = () => {
         const defaultFilters: FilterOptions = {
             search: "",
@@ -244,7 +236,12 @@ const ResourceFilter = ({
                     onSelect={handleSearchSelect}
                     suggestions={searchSuggestions}
                     isLoading={isLoading}
-                    placeholder="Search resources, categories, or owners..."
+                    placeholder="Search resources, categories, or neighborhoods..."
+                />
+                <SavedSearchesPanel
+                    filters={filters}
+                    categories={categories}
+                    onApply={handleApplySavedSearch}
                 />
             </div>
 
@@ -42,8 +42,15 @@ const ReviewModal: React.FC<ReviewModalProps> = ({
             setIsLoading(true);
             // Use the correct endpoint for fetching reviews by user ID
             const response = await ApiService.getUserReviews(resourceId);
-            const data = response.data || response;
-            setReviews(data.reviews || data);
+            setReviews(
+                (response.data?.reviews || []).map((review) => ({
+                    id: review.id,
+                    rating: review.rating,
+                    message: review.comment || "",
+                    created_at: review.created_at,
+                    reviewer_name: review.reviewer?.name || "Anonymous",
+                }))
+            );
             setError("");
         } catch (err) {
             console.error("Error fetching reviews:", err);
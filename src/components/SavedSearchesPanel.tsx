@@ -0,0 +1,268 @@
+import { useState } from "react";
+import {
+    FaBell,
+    FaBellSlash,
+    FaBookmark,
+    FaChevronDown,
+    FaChevronUp,
+    FaTrash,
+} from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import type { FilterOptions } from "./ResourceFilter";
+import { apiErrorMessage } from "../utils/api";
+
+// Criteria as the API stores them (a subset of the resource query filters)
+type SavedSearchFilters = {
+    search?: string;
+    category?: string;
+    condition?: string;
+    min_value?: number;
+    max_value?: number;
+    max_deposit?: number;
+    latitude?: number;
+    longitude?: number;
+    radius?: number;
+};
+
+interface SavedSearch {
+    id: number;
+    name: string;
+    filters: SavedSearchFilters;
+    alerts_enabled: boolean;
+    alert_interval_hours: number;
+    last_notified_at?: string | null;
+}
+
+interface SavedSearchesPanelProps {
+    filters: FilterOptions; // The filters currently applied, saved as they are
+    categories: string[];
+    onApply: (filters: FilterOptions) => void;
+}
+
+const DEFAULT_PRICE_RANGE = { min: 0, max: 1000 };
+
+// The filter panel keeps condition and category lowercased; the API uses its own names
+const toSavedFilters = (
+    filters: FilterOptions,
+    categories: string[],
+    nearMe: boolean
+): SavedSearchFilters => {
+    const saved: SavedSearchFilters = {};
+
+    if (filters.search.trim().length >= 2) saved.search = filters.search.trim();
+
+    const category = categories.find((name) => name.toLowerCase() === filters.category);
+    if (category) saved.category = category;
+
+    if (filters.condition) {
+        saved.condition = ["new", "like new"].includes(filters.condition) ? "excellent" : filters.condition;
+    }
+
+    if (filters.priceRange.min > DEFAULT_PRICE_RANGE.min) saved.min_value = filters.priceRange.min;
+    if (filters.priceRange.max < DEFAULT_PRICE_RANGE.max) saved.max_value = filters.priceRange.max;
+
+    // Without coordinates the server searches around the user's profile location
+    if (nearMe) saved.radius = filters.maxDistance;
+
+    return saved;
+};
+
+const fromSavedFilters = (saved: SavedSearchFilters, current: FilterOptions): FilterOptions => ({
+    ...current,
+    search: saved.search || "",
+    category: saved.category?.toLowerCase() || "",
+    condition: saved.condition === "excellent" ? "like new" : saved.condition || "",
+    maxDistance: saved.radius ? Math.min(50, Math.max(1, Math.round(saved.radius))) : current.maxDistance,
+    priceRange: {
+        min: saved.min_value ?? DEFAULT_PRICE_RANGE.min,
+        max: saved.max_value ?? DEFAULT_PRICE_RANGE.max,
+    },
+});
+
+const describe = (saved: SavedSearchFilters): string => {
+    const parts: string[] = [];
+    if (saved.search) parts.push(`"${saved.search}"`);
+    if (saved.category) parts.push(saved.category);
+    if (saved.condition) parts.push(saved.condition);
+    if (saved.min_value !== undefined || saved.max_value !== undefined) {
+        parts.push(`$${saved.min_value ?? 0}-${saved.max_value ?? "any"}`);
+    }
+    if (saved.max_deposit !== undefined) parts.push(`deposit ≤ $${saved.max_deposit}`);
+    if (saved.radius !== undefined) parts.push(`within ${saved.radius}km`);
+    return parts.join(" · ");
+};
+
+// Saved searches: store the current filters, re-apply them, and get notified about new matches
+const SavedSearchesPanel = ({ filters, categories, onApply }: SavedSearchesPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [searches, setSearches] = useState<SavedSearch[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [name, setName] = useState("");
+    const [nearMe, setNearMe] = useState(true);
+
+    const loadSearches = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await ApiService.getSavedSearches();
+            setSearches(response.data || []);
+        } catch (err) {
+            console.error("Failed to load saved searches", err);
+            setError(apiErrorMessage(err, "Failed to load saved searches"));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const toggle = async () => {
+        const nextOpen = !isOpen;
+        setIsOpen(nextOpen);
+
+        if (nextOpen && searches === null) {
+            await loadSearches();
+        }
+    };
+
+    const runAction = async (action: () => Promise<{ message?: string }>, successMessage: string) => {
+        setIsSubmitting(true);
+        try {
+            const response = await action();
+            toast.success(response?.message || successMessage);
+            await loadSearches();
+        } catch (err) {
+            console.error("Saved search action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSave = () =>
+        runAction(async () => {
+            const response = await ApiService.createSavedSearch({
+                name: name.trim() || filters.search.trim() || "My search",
+                filters: toSavedFilters(filters, categories, nearMe),
+            });
+            setName("");
+            return response;
+        }, "Search saved");
+
+    return (
+        <div className="mt-3">
+            <button
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+                <FaBookmark />
+                Saved searches{searches ? ` (${searches.length})` : ""}
+                {isOpen ? <FaChevronUp /> : <FaChevronDown />}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Name this search"
+                            maxLength={100}
+                            className="flex-1 min-w-[10rem] p-2 text-sm rounded-lg bg-gray-900 text-white border border-gray-700 focus:outline-none focus:border-blue-400"
+                        />
+                        <label className="flex items-center gap-2 text-xs text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={nearMe}
+                                onChange={(e) => setNearMe(e.target.checked)}
+                            />
+                            Within {filters.maxDistance}km of me
+                        </label>
+                        <button
+                            type="button"
+                            disabled={isSubmitting}
+                            onClick={handleSave}
+                            className="px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                        >
+                            Save current search
+                        </button>
+                    </div>
+
+                    {isLoading && !searches ? (
+                        <p className="text-xs text-gray-400">Loading saved searches...</p>
+                    ) : error ? (
+                        <p className="text-xs text-red-400">{error}</p>
+                    ) : searches && searches.length > 0 ? (
+                        <ul className="space-y-2">
+                            {searches.map((savedSearch) => (
+                                <li
+                                    key={savedSearch.id}
+                                    className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-700"
+                                >
+                                    <button
+                                        type="button"
+                                        onClick={() => onApply(fromSavedFilters(savedSearch.filters, filters))}
+                                        className="text-left flex-1 min-w-0"
+                                        title="Apply these filters"
+                                    >
+                                        <p className="text-sm text-white truncate">{savedSearch.name}</p>
+                                        <p className="text-xs text-gray-400 truncate">
+                                            {describe(savedSearch.filters)}
+                                        </p>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        disabled={isSubmitting}
+                                        onClick={() =>
+                                            runAction(
+                                                () =>
+                                                    ApiService.updateSavedSearch(savedSearch.id, {
+                                                        alerts_enabled: !savedSearch.alerts_enabled,
+                                                    }),
+                                                savedSearch.alerts_enabled ? "Alerts turned off" : "Alerts turned on"
+                                            )
+                                        }
+                                        className={`p-2 rounded ${
+                                            savedSearch.alerts_enabled ? "text-yellow-300" : "text-gray-400"
+                                        } hover:text-white disabled:opacity-50`}
+                                        title={
+                                            savedSearch.alerts_enabled
+                                                ? "Stop notifying me about new matches"
+                                                : "Notify me about new matches"
+                                        }
+                                    >
+                                        {savedSearch.alerts_enabled ? <FaBell /> : <FaBellSlash />}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        disabled={isSubmitting}
+                                        onClick={() =>
+                                            runAction(
+                                                () => ApiService.deleteSavedSearch(savedSearch.id),
+                                                "Saved search deleted"
+                                            )
+                                        }
+                                        className="p-2 rounded text-red-400 hover:text-red-300 disabled:opacity-50"
+                                        title="Delete saved search"
+                                    >
+                                        <FaTrash />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-xs text-gray-400">
+                            No saved searches yet. Set your filters and save them to be notified when a
+                            matching item is listed.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SavedSearchesPanel;
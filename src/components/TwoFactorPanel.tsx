@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { FaCopy, FaKey, FaShieldAlt } from "react-icons/fa";
+import { toast } from "react-toastify";
+import ApiService from "../services/apiService";
+import { apiErrorMessage } from "../utils/api";
+import LoadingSpinner from "./ui/LoadingSpinner";
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    recovery_codes_remaining: number;
+}
+
+type Mode = "idle" | "setup" | "recovery-codes" | "regenerate" | "disable";
+
+const inputClassName =
+    "w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200";
+
+// Turn authenticator-app codes on or off for logins and manage recovery codes
+const TwoFactorPanel = () => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [mode, setMode] = useState<Mode>("idle");
+    const [enrollment, setEnrollment] = useState<{ secret: string; otpauth_uri: string } | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState("");
+    const [password, setPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadStatus = async () => {
+        try {
+            const response = await ApiService.getTwoFactorStatus();
+            setStatus(response.data ?? null);
+        } catch (err) {
+            console.error("Failed to load two-factor status", err);
+        }
+    };
+
+    useEffect(() => {
+        loadStatus();
+    }, []);
+
+    const resetForm = (nextMode: Mode = "idle") => {
+        setMode(nextMode);
+        setCode("");
+        setPassword("");
+    };
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsSubmitting(true);
+        try {
+            await action();
+        } catch (err) {
+            console.error("Two-factor action failed", err);
+            toast.error(apiErrorMessage(err, "Something went wrong"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleStartSetup = () =>
+        runAction(async () => {
+            const response = await ApiService.setupTwoFactor();
+            setEnrollment(response.data ?? null);
+            resetForm("setup");
+        });
+
+    const handleEnable = () =>
+        runAction(async () => {
+            const response = await ApiService.enableTwoFactor(code);
+            setRecoveryCodes(response.data?.recovery_codes ?? []);
+            setEnrollment(null);
+            resetForm("recovery-codes");
+            toast.success("Two-factor authentication enabled");
+            await loadStatus();
+        });
+
+    const handleRegenerate = () =>
+        runAction(async () => {
+            const response = await ApiService.regenerateRecoveryCodes(code);
+            setRecoveryCodes(response.data?.recovery_codes ?? []);
+            resetForm("recovery-codes");
+            await loadStatus();
+        });
+
+    const handleDisable = () =>
+        runAction(async () => {
+            // Recovery codes contain letters, authenticator codes are 6 digits
+            const proof = /^\d{6}$/.test(code.trim()) ? { code: code.trim() } : { recoveryCode: code.trim() };
+            await ApiService.disableTwoFactor({ password, ...proof });
+            resetForm();
+            toast.success("Two-factor authentication disabled");
+            await loadStatus();
+        });
+
+    const copyRecoveryCodes = async () => {
+        try {
+            await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+            toast.success("Recovery codes copied");
+        } catch (err) {
+            console.error("Failed to copy recovery codes", err);
+        }
+    };
+
+    if (!status) {
+        return (
+            <div className="flex justify-center py-4">
+                <LoadingSpinner size="sm" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                    <FaShieldAlt className={status.enabled ? "text-green-400" : "text-gray-400"} />
+                    Two-factor authentication
+                </h3>
+                <span className={`text-sm ${status.enabled ? "text-green-300" : "text-gray-400"}`}>
+                    {status.enabled ? "On" : "Off"}
+                </span>
+            </div>
+
+            {mode === "recovery-codes" && (
+                <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                        phone. They won't be shown again.
+                    </p>
+                    <ul className="grid grid-cols-2 gap-2 font-mono text-white">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <li key={recoveryCode} className="px-3 py-2 bg-black/20 rounded-lg text-center">
+                                {recoveryCode}
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={copyRecoveryCodes}
+                            className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                        >
+                            <FaCopy />
+                            Copy
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setRecoveryCodes([]);
+                                resetForm();
+                            }}
+                            className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+                        >
+                            I've saved them
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mode === "setup" && enrollment && (
+                <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-4">
+                    <p className="text-sm text-gray-300">
+                        Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy,
+                        then enter the 6-digit code it shows.
+                    </p>
+                    <div className="flex flex-col md:flex-row items-center gap-4">
+                        <div className="p-3 bg-white rounded-xl">
+                            <QRCodeSVG value={enrollment.otpauth_uri} size={160} />
+                        </div>
+                        <div className="space-y-2 min-w-0">
+                            <p className="text-xs text-gray-400">Can't scan it? Enter this key instead:</p>
+                            <p className="font-mono text-sm text-white break-all">{enrollment.secret}</p>
+                        </div>
+                    </div>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                        placeholder="6-digit code"
+                        className={`${inputClassName} tracking-widest`}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={handleEnable}
+                            disabled={isSubmitting || code.length !== 6}
+                            className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                        >
+                            Turn on
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setEnrollment(null);
+                                resetForm();
+                            }}
+                            className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mode === "idle" && !status.enabled && (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Ask for a code from your phone as well as your password when you sign in, so a stolen
+                        password alone can't open your account.
+                    </p>
+                    <button
+                        type="button"
+                        onClick={handleStartSetup}
+                        disabled={isSubmitting}
+                        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                    >
+                        {isSubmitting ? <LoadingSpinner size="sm" /> : <FaShieldAlt />}
+                        Set up authenticator app
+                    </button>
+                </div>
+            )}
+
+            {mode === "idle" && status.enabled && (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Signing in asks for a code from your authenticator app. You have{" "}
+                        {status.recovery_codes_remaining} unused recovery code
+                        {status.recovery_codes_remaining === 1 ? "" : "s"}.
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                        <button
+                            type="button"
+                            onClick={() => resetForm("regenerate")}
+                            className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                        >
+                            <FaKey />
+                            New recovery codes
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => resetForm("disable")}
+                            className="px-4 py-2 text-sm rounded-lg bg-red-600/80 hover:bg-red-600 text-white"
+                        >
+                            Turn off
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mode === "regenerate" && (
+                <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Enter a code from your authenticator app. Your old recovery codes will stop working.
+                    </p>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                        placeholder="6-digit code"
+                        className={`${inputClassName} tracking-widest`}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={handleRegenerate}
+                            disabled={isSubmitting || code.length !== 6}
+                            className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                        >
+                            Create new codes
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => resetForm()}
+                            className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mode === "disable" && (
+                <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Confirm with your password and a code from your app or a recovery code.
+                    </p>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Password"
+                        className={inputClassName}
+                    />
+                    <input
+                        type="text"
+                        autoComplete="one-time-code"
+                        maxLength={11}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="6-digit code or recovery code"
+                        className={`${inputClassName} tracking-widest`}
+                    />
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={handleDisable}
+                            disabled={isSubmitting || !password || !code.trim()}
+                            className="px-4 py-2 text-sm rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                        >
+                            Turn off two-factor
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => resetForm()}
+                            className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TwoFactorPanel;
@@ -1,8 +1,15 @@
 import { useEffect, useState } from "react";
 import api from "../utils/api";
 import Button from "./button";
+import BorrowRequestTimeline from "./BorrowRequestTimeline";
+import DepositLedger from "./DepositLedger";
+import DisputePanel from "./DisputePanel";
+import ConditionReportPanel from "./ConditionReportPanel";
+import BorrowExtensionPanel from "./BorrowExtensionPanel";
+import BorrowRequestGroupCard from "./BorrowRequestGroupCard";
+import type { DisputeSummary } from "./DisputePanel";
 import { toast } from "react-toastify";
-import { FaClock, FaCheckCircle, FaTimesCircle } from "react-icons/fa";
+import { FaClock, FaCheckCircle, FaTimesCircle, FaUndo, FaHandshake } from "react-icons/fa";
 
 interface BorrowRequest {
     id: number;
@@ -10,6 +17,11 @@ interface BorrowRequest {
     requester_id: number;
     message: string;
     status: string;
+    start_date: string;
+    end_date: string;
+    group_id?: number | null; // Bundle or recurring booking
+    deposit_amount?: number | string;
+    disputes?: DisputeSummary[];
     resource: {
         id: number;
         title: string;
@@ -93,6 +105,61 @@ const BorrowRequests = () => {
         (req) => req.status === "pending" && req.resource?.owner_id === userId
     );
 
+    // Bundled and recurring requests are answered together, one card per group
+    const singleRequests = incomingRequests.filter((req) => !req.group_id);
+    const groupedRequests = incomingRequests.reduce<Record<number, BorrowRequest[]>>((groups, req) => {
+        if (req.group_id) {
+            (groups[req.group_id] ||= []).push(req);
+        }
+        return groups;
+    }, {});
+
+    // Returned items, and any borrow with a dispute, so the owner can follow up
+    const returnedRequests = requests.filter(
+        (req) =>
+            req.resource?.owner_id === userId &&
+            (req.status === "returned" || (req.disputes?.length ?? 0) > 0)
+    );
+
+    // Approved and borrowed items, where the pickup and return reports are filed
+    const loanedRequests = requests.filter(
+        (req) =>
+            req.resource?.owner_id === userId &&
+            ["approved", "active", "overdue"].includes(req.status)
+    );
+
+    const renderLoanCard = (
+        req: BorrowRequest,
+        borderClass: string,
+        statusClass: string,
+        extra?: React.ReactNode
+    ) => (
+        <div
+            key={req.id}
+            className={`bg-gray-800 text-white p-6 rounded-lg shadow-lg border-l-4 ${borderClass}`}
+        >
+            <p className="font-medium">
+                <span className="font-semibold text-blue-400">
+                    {req.requester?.name || 'Unknown User'}
+                </span>{" "}
+                borrowed{" "}
+                <span className="font-semibold text-green-400">
+                    {req.resource?.title || 'Unknown Item'}
+                </span>
+            </p>
+            <div className="flex items-center gap-2 text-sm mt-2">
+                <span className="text-gray-400">Status:</span>
+                <span className={`${statusClass} font-medium capitalize`}>
+                    {req.status}
+                </span>
+            </div>
+            <BorrowRequestTimeline requestId={req.id} />
+            <DepositLedger requestId={req.id} party="owner" />
+            <ConditionReportPanel requestId={req.id} party="owner" />
+            {extra}
+        </div>
+    );
+
     if (isLoading) {
         return (
             <div className="flex justify-center items-center p-8">
@@ -120,7 +187,16 @@ const BorrowRequests = () => {
                 </div>
             )}
 
-            {incomingRequests.map((req) => (
+            {Object.entries(groupedRequests).map(([groupId, groupRequests]) => (
+                <BorrowRequestGroupCard
+                    key={`group-${groupId}`}
+                    groupId={Number(groupId)}
+                    requests={groupRequests}
+                    onChange={fetchRequests}
+                />
+            ))}
+
+            {singleRequests.map((req) => (
                 <div
                     key={req.id}
                     className="bg-gray-800 text-white p-6 rounded-lg shadow-lg border-l-4 border-yellow-400"
@@ -148,6 +224,7 @@ const BorrowRequests = () => {
                                     {req.status}
                                 </span>
                             </div>
+                            <BorrowRequestTimeline requestId={req.id} />
                         </div>
 
                         <div className="mt-4 sm:mt-0 sm:ml-6 flex gap-3">
@@ -177,6 +254,66 @@ const BorrowRequests = () => {
                     </div>
                 </div>
             ))}
+
+            {loanedRequests.length > 0 && (
+                <>
+                    <div className="flex items-center gap-2 mt-8 mb-4">
+                        <FaHandshake className="text-blue-400" />
+                        <h3 className="text-lg font-semibold text-white">
+                            On Loan
+                        </h3>
+                        <span className="bg-blue-500 text-white text-xs px-2 py-1 rounded-full">
+                            {loanedRequests.length}
+                        </span>
+                    </div>
+
+                    {loanedRequests.map((req) =>
+                        renderLoanCard(
+                            req,
+                            "border-blue-400",
+                            "text-blue-300",
+                            req.status !== "approved" && (
+                                <BorrowExtensionPanel
+                                    requestId={req.id}
+                                    requestStatus={req.status}
+                                    party="owner"
+                                    onChange={fetchRequests}
+                                />
+                            )
+                        )
+                    )}
+                </>
+            )}
+
+            {returnedRequests.length > 0 && (
+                <>
+                    <div className="flex items-center gap-2 mt-8 mb-4">
+                        <FaUndo className="text-purple-400" />
+                        <h3 className="text-lg font-semibold text-white">
+                            Returned &amp; Disputed
+                        </h3>
+                        <span className="bg-purple-500 text-white text-xs px-2 py-1 rounded-full">
+                            {returnedRequests.length}
+                        </span>
+                    </div>
+
+                    {returnedRequests.map((req) =>
+                        renderLoanCard(
+                            req,
+                            "border-purple-400",
+                            "text-purple-300",
+                            <DisputePanel
+                                requestId={req.id}
+                                requestStatus={req.status}
+                                disputes={req.disputes}
+                                party="owner"
+                                depositAmount={Number(req.deposit_amount) || 0}
+                                onChange={fetchRequests}
+                            />
+                        )
+                    )}
+                </>
+            )}
         </div>
     );
 };
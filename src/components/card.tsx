@@ -18,6 +18,7 @@ import LeaveAReviewButton from "./LeaveAReviewButton";
 import ReviewModal from "./ReviewModal";
 import BorrowRequestModal from "./BorrowRequestModal";
 import { toast } from "react-toastify";
+import { apiErrorMessage } from "../utils/api";
 
 interface CardProps {
     resource_id: number;
@@ -35,6 +36,7 @@ interface CardProps {
     current_longitude?: number;
     rating?: number;
     reviewCount?: number;
+    is_favourited?: boolean;
     onReviewSubmitted?: () => void;
 }
 
@@ -74,6 +76,7 @@ const Card = ({
     owner_address,
     rating: initialRating = 0,
     reviewCount: initialReviewCount = 0,
+    is_favourited = false,
     onReviewSubmitted,
 }: CardProps) => {
     const [currentRating, setCurrentRating] = useState(initialRating);
@@ -82,7 +85,8 @@ const Card = ({
     const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
     const [isBorrowModalOpen, setIsBorrowModalOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [isFavorited, setIsFavorited] = useState(false);
+    const [isFavorited, setIsFavorited] = useState(is_favourited);
+    const [isTogglingFavorite, setIsTogglingFavorite] = useState(false);
     const [imageError, setImageError] = useState(false);
 
     useEffect(() => {
@@ -90,6 +94,10 @@ const Card = ({
         setCurrentReviewCount(initialReviewCount);
     }, [initialRating, initialReviewCount]);
 
+    useEffect(() => {
+        setIsFavorited(is_favourited);
+    }, [is_favourited]);
+
     const handleReviewSubmitted = () => {
         fetchReviews();
         if (onReviewSubmitted) onReviewSubmitted();
@@ -99,9 +107,9 @@ const Card = ({
     const fetchReviews = async () => {
         try {
             const response = await ApiService.getUserReviews(owner_id);
-            const result = response.data || response;
+            const result = response.data;
 
-            if (result.reviews && result.reviews.length > 0) {
+            if (result && result.reviews.length > 0) {
                 setCurrentRating(result.averageRating || 0);
                 setCurrentReviewCount(result.totalReviews || 0);
             }
@@ -173,6 +181,34 @@ const Card = ({
         setIsBorrowModalOpen(true);
     };
 
+    const handleToggleFavorite = async () => {
+        if (!current_user_id) {
+            toast.info("Sign in to save favourites");
+            return;
+        }
+
+        setIsTogglingFavorite(true);
+        try {
+            if (isFavorited) {
+                await ApiService.removeFavourite(resource_id);
+                setIsFavorited(false);
+            } else {
+                const response = await ApiService.addFavourite(resource_id);
+                setIsFavorited(true);
+                if (response?.data?.notify_when_available) {
+                    toast.info(response.message);
+                }
+            }
+        } catch (err) {
+            console.error("Favourite toggle failed:", err);
+            toast.error(
+                apiErrorMessage(err, "Failed to update favourites")
+            );
+        } finally {
+            setIsTogglingFavorite(false);
+        }
+    };
+
     const handleStartChat = async () => {
         try {
             // Debug owner name for troubleshooting
@@ -199,10 +235,6 @@ const Card = ({
             const response = await ApiService.createChat(owner_id);
             console.log("Chat API Response:", response);
 
-            const chatData = response.data || response;
-            const chatId = chatData.id || chatData.chat_id;
-
-            // Navigate to chat regardless of whether we get a chatId or not
             navigate(`/chat`);
         } catch (err: any) {
             console.error("Start chat failed:", err);
@@ -298,18 +330,26 @@ const Card = ({
                 )}
 
                 {/* Favorite Button */}
-                <motion.button
-                    className="absolute bottom-3 right-3 w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm border border-white/30 flex items-center justify-center text-white hover:bg-white/30 transition-all duration-200"
-                    whileHover={{ scale: 1.1 }}
-                    whileTap={{ scale: 0.9 }}
-                    onClick={() => setIsFavorited(!isFavorited)}
-                >
-                    <FaHeart
-                        className={`text-sm ${
-                            isFavorited ? "text-red-400" : "text-white/70"
-                        }`}
-                    />
-                </motion.button>
+                {owner_id !== current_user_id && (
+                    <motion.button
+                        className="absolute bottom-3 right-3 w-10 h-10 rounded-full bg-white/20 backdrop-blur-sm border border-white/30 flex items-center justify-center text-white hover:bg-white/30 transition-all duration-200 disabled:opacity-50"
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        disabled={isTogglingFavorite}
+                        onClick={handleToggleFavorite}
+                        title={
+                            isFavorited
+                                ? "Remove from favourites"
+                                : "Add to favourites"
+                        }
+                    >
+                        <FaHeart
+                            className={`text-sm ${
+                                isFavorited ? "text-red-400" : "text-white/70"
+                            }`}
+                        />
+                    </motion.button>
+                )}
             </div>
 
             {/* Content Section */}
@@ -447,6 +487,7 @@ const Card = ({
                 resourceId={resource_id}
                 resourceTitle={title}
                 ownerName={owner_name}
+                ownerId={owner_id}
             />
         </motion.div>
     );
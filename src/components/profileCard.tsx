@@ -2,6 +2,12 @@
 
 import { Camera } from "lucide-react";
 import Button from "./button";
+import BorrowRequestTimeline from "./BorrowRequestTimeline";
+import DepositLedger from "./DepositLedger";
+import ConditionReportPanel from "./ConditionReportPanel";
+import BorrowExtensionPanel from "./BorrowExtensionPanel";
+import DisputePanel from "./DisputePanel";
+import type { DisputeSummary } from "./DisputePanel";
 
 export interface ProfileCardProps {
     id: number;
@@ -12,9 +18,18 @@ export interface ProfileCardProps {
     showCancel?: boolean;
     onReturn?: () => void;
     onCancel?: () => void;
+    onCancelGroup?: () => void; // Cancel every request of the bundle or recurring booking this one belongs to
     status?: string;
     requestDate?: string;
     ownerName?: string;
+    historyRequestId?: number; // Borrow request whose status history can be expanded
+    depositRequestId?: number; // Borrow request whose deposit the viewer (as borrower) can confirm or dispute
+    conditionRequestId?: number; // Borrow whose pickup and return reports the viewer (as borrower) can file and sign
+    extensionRequest?: { id: number; status: string }; // Active borrow the viewer (as borrower) can ask to extend
+    disputeRequest?: { id: number; status: string; disputes?: DisputeSummary[] }; // Borrow the viewer (as borrower) can dispute
+    onDisputeChange?: () => void;
+    note?: string;
+    cancelLabel?: string;
 }
 
 export const ProfileCard = ({
@@ -25,9 +40,18 @@ export const ProfileCard = ({
     showCancel,
     onReturn,
     onCancel,
+    onCancelGroup,
     status,
     requestDate,
     ownerName,
+    historyRequestId,
+    depositRequestId,
+    conditionRequestId,
+    extensionRequest,
+    disputeRequest,
+    onDisputeChange,
+    note,
+    cancelLabel = "Cancel Request",
 }: ProfileCardProps) => {
     // Handle both string URLs and photo objects
     const photoUrl = typeof photo === "string" ? photo : photo?.photo_url;
@@ -81,7 +105,7 @@ export const ProfileCard = ({
                             className={`text-xs px-2 py-1 rounded-full ${
                                 status === "pending"
                                     ? "bg-yellow-500/20 text-yellow-300"
-                                    : status === "approved"
+                                    : status === "approved" || status === "offered"
                                     ? "bg-green-500/20 text-green-300"
                                     : status === "rejected"
                                     ? "bg-red-500/20 text-red-300"
@@ -98,6 +122,40 @@ export const ProfileCard = ({
                         Requested: {new Date(requestDate).toLocaleDateString()}
                     </div>
                 )}
+
+                {note && (
+                    <div className="text-xs text-gray-400">{note}</div>
+                )}
+
+                {historyRequestId && (
+                    <BorrowRequestTimeline requestId={historyRequestId} />
+                )}
+
+                {depositRequestId && (
+                    <DepositLedger requestId={depositRequestId} party="borrower" />
+                )}
+
+                {conditionRequestId && (
+                    <ConditionReportPanel requestId={conditionRequestId} party="borrower" />
+                )}
+
+                {extensionRequest && (
+                    <BorrowExtensionPanel
+                        requestId={extensionRequest.id}
+                        requestStatus={extensionRequest.status}
+                        party="borrower"
+                    />
+                )}
+
+                {disputeRequest && (
+                    <DisputePanel
+                        requestId={disputeRequest.id}
+                        requestStatus={disputeRequest.status}
+                        disputes={disputeRequest.disputes}
+                        party="borrower"
+                        onChange={onDisputeChange}
+                    />
+                )}
             </div>
 
             {/* Action Button */}
@@ -105,12 +163,20 @@ export const ProfileCard = ({
                 <div className="mt-6 pt-4 border-t border-gray-700">
                     {showCancel && onCancel && (
                         <Button
-                            buttonName="Cancel Request"
+                            buttonName={cancelLabel}
                             type="button"
                             onClick={onCancel}
                             className="w-full bg-orange-600 hover:bg-orange-700 border-orange-600 hover:border-orange-700 text-white font-medium transition-colors duration-200"
                         />
                     )}
+                    {showCancel && onCancelGroup && (
+                        <Button
+                            buttonName="Cancel Whole Group"
+                            type="button"
+                            onClick={onCancelGroup}
+                            className="w-full mt-2 bg-gray-700 hover:bg-gray-600 border-gray-700 hover:border-gray-600 text-white font-medium transition-colors duration-200"
+                        />
+                    )}
                     {showReturn && onReturn && (
                         <Button
                             buttonName="Return"
@@ -6,7 +6,9 @@ import {
   UserCircle,
   Bell,
   Menu,
+  ShieldCheck,
 } from "lucide-react";
+import { useAuth } from "../Auth/authContext";
 
 const departments = [
   { name: "Home", path: "/home", icon: <Home size={22} /> },
@@ -15,6 +17,8 @@ const departments = [
   { name: "Notification", path: "/notification", icon: <Bell size={22} /> },
 ];
 
+const adminDepartment = { name: "Moderation", path: "/admin", icon: <ShieldCheck size={22} /> };
+
 interface SidebarProps {
   isCollapsed: boolean;
   setIsCollapsed: (collapsed: boolean) => void;
@@ -22,6 +26,9 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, setIsCollapsed }) => {
   const location = useLocation();
+  const { user } = useAuth();
+  const canModerate = user?.role === "moderator" || user?.role === "admin";
+  const navItems = canModerate ? [...departments, adminDepartment] : departments;
 
   return (
     <aside
@@ -51,7 +58,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, setIsCollapsed }) => {
       {/* Navigation Items */}
       <nav className="flex-1 px-3 py-4">
         <ul className="space-y-2">
-          {departments.map((dept) => {
+          {navItems.map((dept) => {
             const isActive = location.pathname === dept.path;
             return (
               <li key={dept.path}>
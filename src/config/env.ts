@@ -0,0 +1,64 @@
+export type AppEnvironment = 'development' | 'test' | 'production';
+
+// VITE_* variables the app reads; Vite only exposes variables with that prefix to the browser
+export interface FrontendEnv {
+  VITE_API_URL?: string;
+  VITE_SOCKET_URL?: string;
+}
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  apiUrl: string; // Backend origin, without /api
+  socketUrl: string;
+}
+
+const ENVIRONMENTS: AppEnvironment[] = ['development', 'test', 'production'];
+
+const DEV_API_URL = 'http://localhost:3000';
+
+/**
+ * Check the frontend configuration for a Vite mode, reporting every problem at once.
+ * Kept free of import.meta so vite.config.ts can run the same checks before a build.
+ */
+export const readAppConfig = (env: FrontendEnv, mode: string): AppConfig => {
+  const problems: string[] = [];
+
+  if (!ENVIRONMENTS.includes(mode as AppEnvironment)) {
+    throw new Error(`Unknown mode: ${mode} (expected ${ENVIRONMENTS.join(', ')})`);
+  }
+  const environment = mode as AppEnvironment;
+
+  const readUrl = (name: keyof FrontendEnv, fallback: string | undefined): string => {
+    const value = env[name]?.trim() || fallback;
+
+    if (!value) {
+      problems.push(`${name} is required in ${environment}`);
+      return '';
+    }
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      problems.push(`${name} must be an absolute URL, got "${value}"`);
+      return '';
+    }
+
+    // A production build pointing at localhost only works on the developer's machine
+    if (environment === 'production' && ['localhost', '127.0.0.1'].includes(url.hostname)) {
+      problems.push(`${name} must not point at ${url.hostname} in production`);
+    }
+
+    return value.replace(/\/+$/, '');
+  };
+
+  const apiUrl = readUrl('VITE_API_URL', environment === 'production' ? undefined : DEV_API_URL);
+  // Sockets are served by the API server unless they live elsewhere
+  const socketUrl = env.VITE_SOCKET_URL?.trim() ? readUrl('VITE_SOCKET_URL', undefined) : apiUrl;
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${environment} configuration:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return { environment, apiUrl, socketUrl };
+};
@@ -0,0 +1,4 @@
+import { readAppConfig } from './env';
+
+// Frontend configuration, checked when the app loads
+export const appConfig = readAppConfig(import.meta.env, import.meta.env.MODE);
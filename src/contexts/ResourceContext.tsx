@@ -1,44 +1,17 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
+import type { Schemas } from "../api/client";
 
-export interface Resource {
-    id: number;
-    title: string;
-    description: string;
-    type: string;
-    photos: {
-        id: number;
-        resource_id: number;
-        photo_url: string;
-        photo_filename: string;
-        is_primary: boolean;
-        alt_text?: string;
-        file_size: number;
-        mime_type: string;
-        width?: number;
-        height?: number;
-        display_order: number;
-        created_at: string;
-    }[];
-    owner_id: number;
-    owner_name: string;
+// A listing as the API returns it, plus fields older screens still fall back to
+export type Resource = Schemas["ResourceWithOwner"] & {
+    type?: string;
+    owner_name?: string;
     owner_latitude?: number;
     owner_longitude?: number;
     owner_address?: string;
-    average_rating?: number;
-    review_count?: number;
-    condition?: string;
-    category?: string;
     price?: number;
-    estimated_value?: number;
     availability?: string;
-    is_available?: boolean;
-    status?: string;
-    owner?: {
-        id: number;
-        name: string;
-        email: string;
-    };
-}
+    review_count?: number;
+};
 
 interface ResourceContextType {
     resources: Resource[];
@@ -1,128 +1,164 @@
-import api from "../utils/api";
+import { apiClient, type Schemas } from "../api/client";
 
 // API Service class to handle all API calls
 export class ApiService {
     // Auth endpoints
-    static async register(userData: {
-        name: string;
-        email: string;
-        password: string;
-        address?: string;
-    }) {
-        const response = await api.post("/api/auth/register", userData);
-        return response.data;
+    static async register(userData: Schemas["RegisterRequest"]) {
+        return apiClient.post("/api/auth/register", { body: userData });
     }
 
-    static async login(credentials: { email: string; password: string }) {
-        const response = await api.post("/api/auth/login", credentials);
-        return response.data;
+    static async login(credentials: Schemas["LoginRequest"]) {
+        return apiClient.post("/api/auth/login", { body: credentials });
     }
 
     static async logout() {
-        const response = await api.post("/api/auth/logout");
-        return response.data;
+        return apiClient.post("/api/auth/logout");
     }
 
     static async refreshToken(refreshToken: string) {
-        const response = await api.post("/api/auth/refresh", { refreshToken });
-        return response.data;
+        return apiClient.post("/api/auth/refresh", { body: { refreshToken } });
+    }
+
+    static async verifyEmail(token: string) {
+        return apiClient.post("/api/auth/verify-email", { body: { token } });
+    }
+
+    static async resendVerificationEmail() {
+        return apiClient.post("/api/auth/resend-verification");
+    }
+
+    static async forgotPassword(email: string) {
+        return apiClient.post("/api/auth/forgot-password", { body: { email } });
+    }
+
+    static async resetPassword(token: string, password: string) {
+        return apiClient.post("/api/auth/reset-password", { body: { token, password } });
+    }
+
+    static async changePassword(passwords: Schemas["ChangePasswordRequest"]) {
+        return apiClient.post("/api/auth/change-password", { body: passwords });
+    }
+
+    // Two-factor authentication
+    static async getTwoFactorStatus() {
+        return apiClient.get("/api/auth/2fa");
+    }
+
+    static async setupTwoFactor() {
+        return apiClient.post("/api/auth/2fa/setup");
+    }
+
+    static async enableTwoFactor(code: string) {
+        return apiClient.post("/api/auth/2fa/enable", { body: { code } });
+    }
+
+    static async disableTwoFactor(data: Schemas["DisableTwoFactorRequest"]) {
+        return apiClient.post("/api/auth/2fa/disable", { body: data });
+    }
+
+    static async regenerateRecoveryCodes(code: string) {
+        return apiClient.post("/api/auth/2fa/recovery-codes", { body: { code } });
+    }
+
+    // Sessions (signed-in devices)
+    static async getSessions() {
+        return apiClient.get("/api/auth/sessions");
+    }
+
+    static async revokeSession(id: number) {
+        return apiClient.delete("/api/auth/sessions/{id}", { path: { id } });
+    }
+
+    static async revokeAllSessions() {
+        return apiClient.delete("/api/auth/sessions");
     }
 
     // Profile endpoints
     static async getProfile() {
-        const response = await api.get("/api/profile");
-        return response.data;
+        return apiClient.get("/api/profile");
     }
 
     static async getCompleteProfile() {
-        const response = await api.get("/api/profile/complete");
-        return response.data;
+        return apiClient.get("/api/profile/complete");
     }
 
-    static async updateProfile(profileData: any) {
-        const response = await api.put("/api/profile", profileData);
-        return response.data;
+    static async updateProfile(profileData: Schemas["UpdateProfileRequest"]) {
+        return apiClient.put("/api/profile", { body: profileData });
     }
 
-    static async updateLocation(locationData: {
-        latitude: number;
-        longitude: number;
-        address: string;
-    }) {
-        const response = await api.post("/api/update-location", locationData);
-        return response.data;
+    static async updateLocation(locationData: Schemas["UpdateLocationRequest"]) {
+        return apiClient.post("/api/update-location", { body: locationData });
     }
 
     // Resources endpoints
-    static async getResources(params?: {
-        page?: number;
-        limit?: number;
-        category?: string;
-        search?: string;
-        latitude?: number;
-        longitude?: number;
-        radius?: number;
-    }) {
-        const response = await api.get("/api/resources", { params });
-        return response.data;
+    static async getResources(params?: Schemas["ResourceQueryFilters"]) {
+        return apiClient.get("/api/resources", { query: params });
+    }
+
+    static async getResourceSuggestions(q: string) {
+        return apiClient.get("/api/resources/suggest", { query: { q } });
     }
 
     static async getResourceById(id: number) {
-        const response = await api.get(`/api/resources/${id}`);
-        return response.data;
+        return apiClient.get("/api/resources/{id}", { path: { id } });
     }
 
-    static async createResource(resourceData: any) {
-        const response = await api.post("/api/resources", resourceData);
-        return response.data;
+    // Multipart: the resource fields plus photos[]
+    static async createResource(resourceData: FormData) {
+        return apiClient.post("/api/resources", { body: resourceData });
     }
 
-    static async updateResource(id: number, resourceData: any) {
-        const response = await api.put(`/api/resources/${id}`, resourceData);
-        return response.data;
+    static async updateResource(id: number, resourceData: Schemas["UpdateResourceRequest"]) {
+        return apiClient.put("/api/resources/{id}", { path: { id }, body: resourceData });
     }
 
     static async deleteResource(id: number) {
-        const response = await api.delete(`/api/resources/${id}`);
-        return response.data;
+        return apiClient.delete("/api/resources/{id}", { path: { id } });
     }
 
-    static async getMyResources(params?: { page?: number; limit?: number }) {
-        const response = await api.get("/api/resources/my-resources", {
-            params,
-        });
-        return response.data;
+    static async getMyResources(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/resources/my-resources", { query: params });
+    }
+
+    static async getMyFavourites(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/resources/favourites", { query: params });
+    }
+
+    static async addFavourite(id: number) {
+        return apiClient.post("/api/resources/{id}/favourite", { path: { id } });
+    }
+
+    static async removeFavourite(id: number) {
+        return apiClient.delete("/api/resources/{id}/favourite", { path: { id } });
+    }
+
+    static async getResourceCalendar(id: number, params?: Schemas["CalendarQuery"]) {
+        return apiClient.get("/api/resources/{id}/calendar", { path: { id }, query: params });
+    }
+
+    static async addResourceBlackout(id: number, blackout: Schemas["BlackoutCreateData"]) {
+        return apiClient.post("/api/resources/{id}/blackouts", { path: { id }, body: blackout });
+    }
+
+    static async removeResourceBlackout(id: number, blackoutId: number) {
+        return apiClient.delete("/api/resources/{id}/blackouts/{blackoutId}", { path: { id, blackoutId } });
     }
 
     // Borrow requests endpoints
-    static async createBorrowRequest(requestData: {
-        resource_id: number;
-        start_date: string;
-        end_date: string;
-        message?: string;
-    }) {
-        const response = await api.post("/api/borrow-requests", requestData);
-        return response.data;
+    static async createBorrowRequest(requestData: Schemas["CreateBorrowRequestRequest"]) {
+        return apiClient.post("/api/borrow-requests", { body: requestData });
     }
 
-    static async getMyRequests(params?: { page?: number; limit?: number }) {
-        const response = await api.get("/api/my-requests", { params });
-        return response.data;
+    static async getMyRequests(params?: Schemas["BorrowRequestListQuery"]) {
+        return apiClient.get("/api/my-requests", { query: params });
     }
 
     static async cancelBorrowRequest(requestId: number) {
-        const response = await api.put(
-            `/api/borrow-requests/${requestId}/cancel`
-        );
-        return response.data;
+        return apiClient.put("/api/borrow-requests/{id}/cancel", { path: { id: requestId } });
     }
 
-    static async getResourceRequests(params?: {
-        page?: number;
-        limit?: number;
-    }) {
-        const response = await api.get("/api/resource-requests", { params });
-        return response.data;
+    static async getResourceRequests(params?: Schemas["BorrowRequestListQuery"]) {
+        return apiClient.get("/api/resource-requests", { query: params });
     }
 
     static async updateRequestStatus(
@@ -130,80 +166,356 @@ export class ApiService {
         status: "approved" | "rejected",
         response_message?: string
     ) {
-        const response = await api.put(`/api/borrow-requests/${id}/status`, {
-            status,
-            response_message,
+        return apiClient.put("/api/borrow-requests/{id}/status", {
+            path: { id },
+            body: { status, response_message },
+        });
+    }
+
+    static async getBorrowRequestHistory(requestId: number) {
+        return apiClient.get("/api/borrow-requests/{id}/history", { path: { id: requestId } });
+    }
+
+    // Bundle and recurring request endpoints
+    static async createBorrowRequestGroup(groupData: Schemas["BorrowRequestGroupCreateData"]) {
+        return apiClient.post("/api/borrow-requests/groups", { body: groupData });
+    }
+
+    static async getBorrowRequestGroup(groupId: number) {
+        return apiClient.get("/api/borrow-requests/groups/{groupId}", { path: { groupId } });
+    }
+
+    static async respondToBorrowRequestGroup(
+        groupId: number,
+        status: "approved" | "rejected",
+        request_ids?: number[],
+        response_message?: string
+    ) {
+        return apiClient.put("/api/borrow-requests/groups/{groupId}/status", {
+            path: { groupId },
+            body: { status, request_ids, response_message },
+        });
+    }
+
+    static async cancelBorrowRequestGroup(groupId: number) {
+        return apiClient.put("/api/borrow-requests/groups/{groupId}/cancel", { path: { groupId } });
+    }
+
+    // Extension endpoints
+    static async getBorrowExtensions(requestId: number) {
+        return apiClient.get("/api/borrow-requests/{id}/extensions", { path: { id: requestId } });
+    }
+
+    static async requestBorrowExtension(requestId: number, extensionData: Schemas["ExtensionProposalData"]) {
+        return apiClient.post("/api/borrow-requests/{id}/extensions", {
+            path: { id: requestId },
+            body: extensionData,
+        });
+    }
+
+    static async respondToBorrowExtension(
+        requestId: number,
+        extensionId: number,
+        decision: "approve" | "decline",
+        response_message?: string
+    ) {
+        return apiClient.put("/api/borrow-requests/{id}/extensions/{extensionId}/respond", {
+            path: { id: requestId, extensionId },
+            body: { decision, response_message },
+        });
+    }
+
+    static async cancelBorrowExtension(requestId: number, extensionId: number) {
+        return apiClient.put("/api/borrow-requests/{id}/extensions/{extensionId}/cancel", {
+            path: { id: requestId, extensionId },
+        });
+    }
+
+    // Condition report endpoints
+    static async getConditionReports(requestId: number) {
+        return apiClient.get("/api/borrow-requests/{id}/condition-reports", { path: { id: requestId } });
+    }
+
+    static async submitConditionReport(
+        requestId: number,
+        reportData: {
+            stage: "pickup" | "return";
+            condition: string;
+            checklist: { item: string; ok: boolean; note?: string }[];
+            notes?: string;
+            photos?: File[];
+        }
+    ) {
+        const formData = new FormData();
+        formData.append("stage", reportData.stage);
+        formData.append("condition", reportData.condition);
+        formData.append("checklist", JSON.stringify(reportData.checklist));
+        if (reportData.notes) formData.append("notes", reportData.notes);
+        reportData.photos?.forEach((photo) => formData.append("photos", photo));
+
+        return apiClient.post("/api/borrow-requests/{id}/condition-reports", {
+            path: { id: requestId },
+            body: formData,
+        });
+    }
+
+    static async signConditionReport(requestId: number, stage: "pickup" | "return") {
+        return apiClient.put("/api/borrow-requests/{id}/condition-reports/{stage}/sign", {
+            path: { id: requestId, stage },
+        });
+    }
+
+    // Waitlist endpoints
+    static async getMyWaitlist() {
+        return apiClient.get("/api/waitlist");
+    }
+
+    static async joinWaitlist(entryData: Schemas["JoinWaitlistRequest"]) {
+        return apiClient.post("/api/waitlist", { body: entryData });
+    }
+
+    static async leaveWaitlist(entryId: number) {
+        return apiClient.delete("/api/waitlist/{id}", { path: { id: entryId } });
+    }
+
+    // Saved search endpoints
+    static async getSavedSearches() {
+        return apiClient.get("/api/saved-searches");
+    }
+
+    static async createSavedSearch(searchData: Schemas["SavedSearchCreateData"]) {
+        return apiClient.post("/api/saved-searches", { body: searchData });
+    }
+
+    static async updateSavedSearch(searchId: number, updates: Schemas["SavedSearchUpdateData"]) {
+        return apiClient.put("/api/saved-searches/{id}", { path: { id: searchId }, body: updates });
+    }
+
+    static async deleteSavedSearch(searchId: number) {
+        return apiClient.delete("/api/saved-searches/{id}", { path: { id: searchId } });
+    }
+
+    // Community endpoints
+    static async getCommunities() {
+        return apiClient.get("/api/communities");
+    }
+
+    static async getMyCommunities() {
+        return apiClient.get("/api/communities/mine");
+    }
+
+    static async joinCommunity(communityId: number) {
+        return apiClient.post("/api/communities/{id}/join", { path: { id: communityId } });
+    }
+
+    static async leaveCommunity(communityId: number) {
+        return apiClient.delete("/api/communities/{id}/membership", { path: { id: communityId } });
+    }
+
+    // Location verification endpoints
+    static async getLocationVerification() {
+        return apiClient.get("/api/location-verification");
+    }
+
+    static async startLocationVerification(data: {
+        method: "postal_code" | "neighbor_vouch" | "admin_review";
+        note?: string;
+    }) {
+        return apiClient.post("/api/location-verification", { body: data });
+    }
+
+    static async submitLocationCode(verificationId: number, code: string) {
+        return apiClient.post("/api/location-verification/{id}/code", {
+            path: { id: verificationId },
+            body: { code },
         });
-        return response.data;
+    }
+
+    static async cancelLocationVerification(verificationId: number) {
+        return apiClient.delete("/api/location-verification/{id}", { path: { id: verificationId } });
+    }
+
+    static async getVouchRequests() {
+        return apiClient.get("/api/location-verification/vouch-requests");
+    }
+
+    static async vouchForNeighbor(verificationId: number) {
+        return apiClient.post("/api/location-verification/{id}/vouch", { path: { id: verificationId } });
+    }
+
+    // Deposit endpoints
+    static async getMyDeposits(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/deposits", { query: params });
+    }
+
+    static async getRequestDeposit(requestId: number) {
+        return apiClient.get("/api/deposits/requests/{requestId}", { path: { requestId } });
+    }
+
+    static async confirmDepositEntry(entryId: number) {
+        return apiClient.put("/api/deposits/entries/{id}/confirm", { path: { id: entryId } });
+    }
+
+    static async rejectDepositEntry(entryId: number, reason?: string) {
+        return apiClient.put("/api/deposits/entries/{id}/reject", { path: { id: entryId }, body: { reason } });
+    }
+
+    // Dispute endpoints
+    static async openDispute(disputeData: {
+        borrow_request_id: number;
+        reason: string;
+        claimed_amount?: number;
+        photos?: File[];
+    }) {
+        const formData = new FormData();
+        formData.append("borrow_request_id", String(disputeData.borrow_request_id));
+        formData.append("reason", disputeData.reason);
+        if (disputeData.claimed_amount !== undefined) {
+            formData.append("claimed_amount", String(disputeData.claimed_amount));
+        }
+        disputeData.photos?.forEach((photo) => formData.append("photos", photo));
+
+        return apiClient.post("/api/disputes", { body: formData });
+    }
+
+    static async getDispute(disputeId: number) {
+        return apiClient.get("/api/disputes/{id}", { path: { id: disputeId } });
+    }
+
+    static async addDisputeStatement(disputeId: number, body: string) {
+        return apiClient.post("/api/disputes/{id}/statements", { path: { id: disputeId }, body: { body } });
+    }
+
+    static async addDisputeEvidence(
+        disputeId: number,
+        photos: File[],
+        caption?: string
+    ) {
+        const formData = new FormData();
+        photos.forEach((photo) => formData.append("photos", photo));
+        if (caption) formData.append("caption", caption);
+
+        return apiClient.post("/api/disputes/{id}/evidence", { path: { id: disputeId }, body: formData });
+    }
+
+    static async withdrawDispute(disputeId: number) {
+        return apiClient.put("/api/disputes/{id}/withdraw", { path: { id: disputeId } });
     }
 
     // Chat endpoints
     static async getChats() {
-        const response = await api.get("/api/chats");
-        return response.data;
+        return apiClient.get("/api/chats");
     }
 
     static async createChat(other_user_id: number) {
-        const response = await api.post("/api/chats", { other_user_id });
-        return response.data;
+        return apiClient.post("/api/chats", { body: { other_user_id } });
     }
 
     static async getChatMessages(chatId: number) {
-        const response = await api.get(`/api/chats/${chatId}/messages`);
-        return response.data;
+        return apiClient.get("/api/chats/{id}/messages", { path: { id: chatId } });
     }
 
     static async sendMessage(chatId: number, content: string) {
-        const response = await api.post(`/api/chats/${chatId}/messages`, {
-            content,
-        });
-        return response.data;
+        return apiClient.post("/api/chats/{id}/messages", { path: { id: chatId }, body: { content } });
     }
 
     // Reviews endpoints
-    static async createReview(reviewData: {
-        reviewee_id: number;
-        rating: number;
-        comment?: string;
-        borrow_request_id?: number;
-        review_type?: string;
-    }) {
-        const response = await api.post("/api/reviews", reviewData);
-        return response.data;
+    static async createReview(reviewData: Schemas["CreateReviewRequest"]) {
+        return apiClient.post("/api/reviews", { body: reviewData });
     }
 
     static async getUserReviews(userId: number) {
-        const response = await api.get(`/api/users/${userId}/reviews`);
-        return response.data;
+        return apiClient.get("/api/users/{userId}/reviews", { path: { userId } });
     }
 
     static async getMyReviews() {
-        const response = await api.get("/api/my-reviews");
-        return response.data;
+        return apiClient.get("/api/my-reviews");
     }
 
     // Notifications endpoints
     static async getNotifications(unread_only?: boolean) {
-        const response = await api.get("/api/notifications", {
-            params: { unread_only },
-        });
-        return response.data;
+        return apiClient.get("/api/notifications", { query: { unread_only } });
     }
 
     static async markNotificationAsRead(id: number) {
-        const response = await api.put(`/api/notifications/${id}/read`);
-        return response.data;
+        return apiClient.put("/api/notifications/{id}/read", { path: { id } });
     }
 
     static async getUnreadCount() {
-        const response = await api.get("/api/notifications/unread-count");
-        return response.data;
+        return apiClient.get("/api/notifications/unread-count");
+    }
+
+    // Admin moderation endpoints
+    static async getFlaggedReviews(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/admin/moderation/reviews", { query: params });
+    }
+
+    static async getReportedIssues(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/admin/moderation/issues", { query: params });
+    }
+
+    static async getSuspiciousListings(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/admin/moderation/listings", { query: params });
+    }
+
+    static async getModerationActions(params?: Schemas["ModerationActionsQuery"]) {
+        return apiClient.get("/api/admin/moderation/actions", { query: params });
+    }
+
+    static async moderateReview(
+        id: number,
+        action: "hide" | "show" | "verify",
+        reason: string
+    ) {
+        return apiClient.put("/api/admin/reviews/{id}/moderate", { path: { id }, body: { action, reason } });
+    }
+
+    static async moderateUser(
+        id: number,
+        action: "suspend" | "reinstate",
+        reason: string
+    ) {
+        return apiClient.put("/api/admin/users/{id}/moderate", { path: { id }, body: { action, reason } });
+    }
+
+    static async moderateResource(
+        id: number,
+        action: "deactivate" | "reactivate",
+        reason: string
+    ) {
+        return apiClient.put("/api/admin/resources/{id}/moderate", { path: { id }, body: { action, reason } });
+    }
+
+    static async resolveBorrowIssue(
+        id: number,
+        reason: string,
+        withhold_amount?: number
+    ) {
+        return apiClient.put("/api/admin/borrow-requests/{id}/resolve", {
+            path: { id },
+            body: { reason, withhold_amount },
+        });
+    }
+
+    static async getDisputeQueue(params?: Schemas["PaginationQuery"]) {
+        return apiClient.get("/api/admin/moderation/disputes", { query: params });
+    }
+
+    static async decideDispute(
+        id: number,
+        outcome: "owner_favoured" | "borrower_favoured" | "shared",
+        notes: string,
+        withheld_amount?: number
+    ) {
+        return apiClient.put("/api/admin/disputes/{id}/decide", {
+            path: { id },
+            body: { outcome, notes, withheld_amount },
+        });
     }
 
     // Health check
     static async healthCheck() {
-        const response = await api.get("/api/health");
-        return response.data;
+        return apiClient.get("/api/health");
     }
 }
 
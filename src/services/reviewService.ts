@@ -1,3 +1,4 @@
+import type { Schemas } from "../api/client";
 import ApiService from "./apiService";
 
 interface SubmitReviewParams {
@@ -5,7 +6,7 @@ interface SubmitReviewParams {
     rating: number;
     message: string;
     borrowRequestId?: number;
-    reviewType?: string;
+    reviewType?: Schemas["CreateReviewRequest"]["review_type"];
 }
 
 export const submitReview = async ({
@@ -32,22 +33,10 @@ export const submitReview = async ({
 
 export const getUserReviews = async (
     userId: string
-): Promise<
-    Array<{
-        id: number;
-        stars: number;
-        message: string;
-        created_at: string;
-        reviewer_name: string;
-        profile_pic_url: string;
-        reviewer_id: number;
-        user_id: number;
-    }>
-> => {
+): Promise<Schemas["Review"][]> => {
     try {
         const response = await ApiService.getUserReviews(parseInt(userId));
-        const data = response.data || response;
-        return data.reviews || data;
+        return response.data?.reviews || [];
     } catch (error) {
         console.error("Error fetching user reviews:", error);
         throw error;
@@ -1,3 +1,4 @@
 import { io } from "socket.io-client";
-const socket = io("http://localhost:3000");
+import { appConfig } from "./config";
+const socket = io(appConfig.socketUrl);
 export default socket;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import axios from 'axios';
+import { appConfig } from '../config';
 
-const BASE_URL = 'http://localhost:3000';
+const BASE_URL = appConfig.apiUrl;
 
 // Create axios instance
 const api = axios.create({
@@ -22,6 +23,10 @@ export const removeTokens = () => {
   localStorage.removeItem('refreshToken');
 };
 
+// The message the API sent with a failed request, or the fallback when there is none
+export const apiErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
 // Request interceptor to add auth header
 api.interceptors.request.use(
   (config) => {
@@ -34,6 +39,26 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
+// Refresh tokens are single-use, so requests failing together must share one refresh
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${BASE_URL}/api/auth/refresh`, { refreshToken: getRefreshToken() })
+      .then((response) => {
+        const { accessToken, refreshToken: newRefreshToken } = response.data.data;
+        setTokens(accessToken, newRefreshToken);
+        return accessToken;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
 // Response interceptor for token refresh
 api.interceptors.response.use(
   (response) => response,
@@ -46,12 +71,7 @@ api.interceptors.response.use(
       try {
         const refreshToken = getRefreshToken();
         if (refreshToken) {
-          const response = await axios.post(`${BASE_URL}/api/auth/refresh`, {
-            refreshToken
-          });
-
-          const { accessToken, refreshToken: newRefreshToken } = response.data;
-          setTokens(accessToken, newRefreshToken);
+          const accessToken = await refreshAccessToken();
 
           // Retry the original request with new token
           originalRequest.headers.Authorization = `Bearer ${accessToken}`;
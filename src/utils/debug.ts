@@ -1,4 +1,5 @@
 import { getToken, getRefreshToken } from './api';
+import { appConfig } from '../config';
 
 export const debugTokens = () => {
   const accessToken = getToken();
@@ -32,7 +33,7 @@ export const testApiCall = async () => {
     const token = getToken();
     console.log('Making test API call with token:', token ? 'Present' : 'Missing');
     
-    const response = await fetch('http://localhost:3000/api/profile', {
+    const response = await fetch(`${appConfig.apiUrl}/api/profile`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -57,7 +58,7 @@ export const testLocationUpdate = async () => {
     const token = getToken();
     console.log('Making location update API call with token:', token ? 'Present' : 'Missing');
     
-    const response = await fetch('http://localhost:3000/api/update-location', {
+    const response = await fetch(`${appConfig.apiUrl}/api/update-location`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',